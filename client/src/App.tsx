@@ -12,6 +12,14 @@ import RivalAuditPage from "@/pages/RivalAuditPage";
 import RivalAuditResultsPage from "@/pages/RivalAuditResultsPage";
 import ProfilePage from "@/pages/ProfilePage";
 import ProjectDetailPage from "@/pages/ProjectDetailPage";
+import RankTrackerPage from "@/pages/RankTrackerPage";
+import BatchAnalysisPage from "@/pages/BatchAnalysisPage";
+import KeywordResearchPage from "@/pages/KeywordResearchPage";
+import CompetitorGapPage from "@/pages/CompetitorGapPage";
+import SearchPerformancePage from "@/pages/SearchPerformancePage";
+import WorkspacesPage from "@/pages/WorkspacesPage";
+import WebhooksPage from "@/pages/WebhooksPage";
+import InvitationPage from "@/pages/InvitationPage";
 import AdminDashboard from "@/pages/AdminDashboard";
 import DirectAdminDashboard from "@/pages/DirectAdminDashboard";
 import NavBar from "@/components/NavBar";
@@ -28,12 +36,20 @@ function Router() {
             <Route path="/" component={Home} />
             <Route path="/results" component={ResultsPage} />
             <Route path="/history" component={History} />
+            <Route path="/batch-analysis" component={BatchAnalysisPage} />
+            <Route path="/keyword-research" component={KeywordResearchPage} />
             <Route path="/deep-content" component={DeepContentAnalysisPage} />
             <Route path="/deep-content-results" component={DeepContentResultsPage} />
             <Route path="/rival-audit" component={RivalAuditPage} />
             <Route path="/rival-audit-results" component={RivalAuditResultsPage} />
+            <Route path="/competitor-gap" component={CompetitorGapPage} />
             <Route path="/profile" component={ProfilePage} />
             <Route path="/profile/:tab" component={ProfilePage} />
+            <Route path="/workspaces" component={WorkspacesPage} />
+            <Route path="/webhooks" component={WebhooksPage} />
+            <Route path="/invitations/:token" component={InvitationPage} />
+            <Route path="/project/:id/rankings" component={RankTrackerPage} />
+            <Route path="/project/:id/search-performance" component={SearchPerformancePage} />
             <Route path="/project/:id" component={ProjectDetailPage} />
             <Route path="/admin/dashboard" component={AdminDashboard} />
             <Route path="/direct-admin" component={DirectAdminDashboard} />
@@ -8,9 +8,13 @@ import {
   Menu, 
   X,
   ClipboardCheck,
-  ChevronDown
+  ChevronDown,
+  Layers,
+  Search,
+  Swords
 } from "lucide-react";
 import { UserAccountButton } from "@/components/features/auth";
+import { WorkspaceSwitcher } from "@/components/features/workspaces";
 import { useAuth } from "@/hooks/auth/useAuth";
 import { NotificationCenter } from "@/components/NotificationCenter";
 import {
@@ -73,6 +77,18 @@ export default function NavBar() {
                         <span>Deep Content Analysis</span>
                       </div>
                     </Link>
+                    <Link href="/batch-analysis">
+                      <div className="flex items-center px-4 py-2.5 text-sm text-gray-700 hover:bg-gray-50 cursor-pointer transition-colors duration-150">
+                        <Layers className="h-4 w-4 mr-2.5 text-primary" />
+                        <span>Batch Analysis</span>
+                      </div>
+                    </Link>
+                    <Link href="/keyword-research">
+                      <div className="flex items-center px-4 py-2.5 text-sm text-gray-700 hover:bg-gray-50 cursor-pointer transition-colors duration-150">
+                        <Search className="h-4 w-4 mr-2.5 text-primary" />
+                        <span>Keyword Research</span>
+                      </div>
+                    </Link>
                   </div>
                 </div>
               </div>
@@ -93,6 +109,12 @@ export default function NavBar() {
                     <div className="px-3 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wider">
                       Audit Tools
                     </div>
+                    <Link href="/competitor-gap">
+                      <div className="flex items-center px-4 py-2.5 text-sm text-gray-700 hover:bg-gray-50 cursor-pointer transition-colors duration-150">
+                        <Swords className="h-4 w-4 mr-2.5 text-primary" />
+                        <span>Competitor Gap Analysis</span>
+                      </div>
+                    </Link>
                   </div>
                 </div>
               </div>
@@ -101,6 +123,9 @@ export default function NavBar() {
             </div>
           </div>
           <div className="hidden sm:ml-6 sm:flex sm:items-center">
+            <div className="mr-3">
+              <WorkspaceSwitcher />
+            </div>
             <NotificationCenter />
             <div className="ml-3 relative">
               <UserAccountButton />
@@ -140,14 +165,38 @@ export default function NavBar() {
             </div>
           </Link>
           
+          <Link href="/batch-analysis" onClick={() => setMobileMenuOpen(false)}>
+            <div className="flex items-center px-6 py-2 hover:bg-gray-50">
+              <Layers className="h-4 w-4 mr-3 text-primary/80" /> 
+              <span className="text-gray-700">Batch Analysis</span>
+            </div>
+          </Link>
+          
+          <Link href="/keyword-research" onClick={() => setMobileMenuOpen(false)}>
+            <div className="flex items-center px-6 py-2 hover:bg-gray-50">
+              <Search className="h-4 w-4 mr-3 text-primary/80" /> 
+              <span className="text-gray-700">Keyword Research</span>
+            </div>
+          </Link>
+          
           
           {/* Rival Audit Section */}
           <div className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wider mt-4">
             Rival Audit
           </div>
+          
+          <Link href="/competitor-gap" onClick={() => setMobileMenuOpen(false)}>
+            <div className="flex items-center px-6 py-2 hover:bg-gray-50">
+              <Swords className="h-4 w-4 mr-3 text-primary/80" /> 
+              <span className="text-gray-700">Competitor Gap Analysis</span>
+            </div>
+          </Link>
         </div>
         
         <div className="px-4 py-4 border-t border-gray-200">
+          <div className="mb-3">
+            <WorkspaceSwitcher />
+          </div>
           <NotificationCenter />
           <div className="mt-3">
             <UserAccountButton />
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Link2, AlertCircle, ExternalLink } from 'lucide-react';
+import { InternalLinkingSummary } from '../../../../../shared/schema';
+
+interface InternalLinkAuthorityProps {
+  internalLinking: InternalLinkingSummary;
+}
+
+const InternalLinkAuthority: React.FC<InternalLinkAuthorityProps> = ({ internalLinking }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!internalLinking || internalLinking.pages.length === 0) {
+    return null;
+  }
+
+  const getPageTypeIcon = (pageType: string) => {
+    switch (pageType) {
+      case 'service': return '🛠️';
+      case 'location': return '📍';
+      case 'serviceArea': return '🌐';
+      default: return '📄';
+    }
+  };
+
+  const getAuthorityColor = (authority: number) => {
+    if (authority >= 50) return 'bg-green-500';
+    if (authority >= 20) return 'bg-yellow-500';
+    return 'bg-red-500';
+  };
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between text-left hover:bg-gray-100 transition-colors"
+      >
+        <div className="flex items-center space-x-3">
+          <Link2 className={`w-5 h-5 ${internalLinking.starvedPageCount > 0 ? 'text-orange-500' : 'text-green-500'}`} />
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">
+              Internal Link Authority
+            </h3>
+            <p className="text-xs text-gray-600">
+              {internalLinking.starvedPageCount} of {internalLinking.pages.length} service and location pages starved of internal links
+              {' · '}{internalLinking.orphanPageCount} orphan pages
+              {' · '}{internalLinking.deadEndPageCount} dead ends
+            </p>
+          </div>
+        </div>
+        {isOpen ? (
+          <ChevronUp className="w-5 h-5 text-gray-400" />
+        ) : (
+          <ChevronDown className="w-5 h-5 text-gray-400" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="bg-white">
+          <div className="px-4 py-2 text-xs text-gray-500 border-b border-gray-100">
+            Authority is internal PageRank relative to the strongest page. Deepest page: {internalLinking.maxClickDepth} clicks from the homepage. Average page is linked from {internalLinking.averageInDegree} pages.
+          </div>
+
+          {internalLinking.pages.map((page, index) => (
+            <div
+              key={page.url}
+              className={`px-4 py-3 flex items-center justify-between ${index !== internalLinking.pages.length - 1 ? 'border-b border-gray-100' : ''}`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2 mb-1">
+                  <span className="text-lg">{getPageTypeIcon(page.pageType)}</span>
+                  <h4 className="text-sm font-medium text-gray-900 truncate">
+                    {page.title}
+                  </h4>
+                  <a
+                    href={page.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-500 hover:text-blue-700 flex-shrink-0"
+                    title="Open page in new tab"
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                  {page.starved && (
+                    <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-orange-100 text-orange-800 rounded-full">
+                      <AlertCircle className="w-3 h-3 mr-1" />
+                      Starved
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-4 text-xs text-gray-500">
+                  <span>Linked from {page.inDegree} {page.inDegree === 1 ? 'page' : 'pages'}</span>
+                  <span>Links to {page.outDegree}</span>
+                  <span>{page.clickDepth === null ? 'Not reachable from homepage' : `${page.clickDepth} clicks deep`}</span>
+                </div>
+              </div>
+              <div className="w-32 ml-4 flex-shrink-0">
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span>Authority</span>
+                  <span>{page.authority}</span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${getAuthorityColor(page.authority)}`}
+                    style={{ width: `${Math.max(page.authority, 2)}%` }}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {internalLinking.orphanPages.length > 0 && (
+            <div className="px-4 py-3 border-t border-gray-100">
+              <h5 className="text-xs font-medium text-gray-700 mb-2">
+                Orphan pages (in the sitemap, not linked from crawled pages):
+              </h5>
+              <ul className="space-y-1">
+                {internalLinking.orphanPages.map(url => (
+                  <li key={url} className="text-xs text-gray-500 truncate">{url}</li>
+                ))}
+              </ul>
+              {internalLinking.orphanPageCount > internalLinking.orphanPages.length && (
+                <p className="text-xs text-gray-400 mt-1">
+                  and {internalLinking.orphanPageCount - internalLinking.orphanPages.length} more
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InternalLinkAuthority;
@@ -0,0 +1,185 @@
+import type { ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AuditComparison, AuditItemChange, ScoreDelta } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ArrowDownRight,
+  ArrowUpRight,
+  CheckCircle,
+  AlertCircle,
+  History,
+  Minus
+} from "lucide-react";
+
+interface RivalAuditChangesProps {
+  auditId: string;
+}
+
+// Number of items listed per group before collapsing into a count
+const MAX_LISTED_ITEMS = 10;
+
+function formatDelta(score: ScoreDelta, lowerIsBetter = false) {
+  if (score.delta === null || score.delta === 0) {
+    return (
+      <span className="flex items-center text-gray-500">
+        <Minus className="h-3 w-3 mr-1" />
+        {score.delta === null ? "n/a" : "0"}
+      </span>
+    );
+  }
+
+  const improved = lowerIsBetter ? score.delta < 0 : score.delta > 0;
+  const Icon = score.delta > 0 ? ArrowUpRight : ArrowDownRight;
+
+  return (
+    <span className={`flex items-center font-medium ${improved ? "text-green-600" : "text-red-600"}`}>
+      <Icon className="h-3 w-3 mr-1" />
+      {score.delta > 0 ? "+" : ""}{score.delta}
+    </span>
+  );
+}
+
+function ChangeList({ title, items, icon, emptyText }: {
+  title: string;
+  items: AuditItemChange[];
+  icon: ReactNode;
+  emptyText: string;
+}) {
+  return (
+    <div>
+      <h4 className="flex items-center text-sm font-semibold mb-2">
+        {icon}
+        {title}
+        <Badge variant="outline" className="ml-2">{items.length}</Badge>
+      </h4>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <ul className="space-y-1">
+          {items.slice(0, MAX_LISTED_ITEMS).map((item, index) => (
+            <li key={`${item.category}-${item.name}-${item.pageUrl || ""}-${index}`} className="text-sm">
+              <span className="font-medium">{item.name}</span>
+              <span className="text-gray-500"> · {item.category}</span>
+              {item.pageUrl && <span className="text-gray-400 break-all"> · {item.pageUrl}</span>}
+              {item.previousStatus && item.currentStatus && (
+                <span className="text-gray-500"> ({item.previousStatus} → {item.currentStatus})</span>
+              )}
+            </li>
+          ))}
+          {items.length > MAX_LISTED_ITEMS && (
+            <li className="text-sm text-gray-500">and {items.length - MAX_LISTED_ITEMS} more (see Excel export)</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * "Changes since last audit" view: compares this audit with the previous
+ * completed audit of the same URL. Renders nothing for a site's first audit.
+ */
+export default function RivalAuditChanges({ auditId }: RivalAuditChangesProps) {
+  const { data: comparison, isLoading } = useQuery<AuditComparison | null>({
+    queryKey: [`/api/rival-audit/${auditId}/compare/previous`],
+    queryFn: async () => {
+      try {
+        return await apiRequest<AuditComparison>(`/api/rival-audit/${auditId}/compare/previous`);
+      } catch (error) {
+        // 404 means there is no earlier completed audit to compare with
+        if (error instanceof Error && error.message.startsWith("404")) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    retry: false
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (!comparison) {
+    return null;
+  }
+
+  const regressions = comparison.statusChanges.filter(item => item.direction === "regressed");
+  const baselineDate = comparison.baseline.completedAt
+    ? new Date(comparison.baseline.completedAt).toLocaleDateString()
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="h-5 w-5 mr-2 text-primary" />
+          Changes since last audit
+        </CardTitle>
+        <CardDescription>
+          Compared with audit #{comparison.baseline.auditId}{baselineDate ? ` from ${baselineDate}` : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-xs text-gray-500">Overall score</p>
+            <p className="text-lg font-semibold">{comparison.scores.overallScore.current ?? "-"}</p>
+            {formatDelta(comparison.scores.overallScore)}
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Priority OFIs</p>
+            <p className="text-lg font-semibold">{comparison.counts.priorityOfiCount.current ?? "-"}</p>
+            {formatDelta(comparison.counts.priorityOfiCount, true)}
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">OFIs</p>
+            <p className="text-lg font-semibold">{comparison.counts.ofiCount.current ?? "-"}</p>
+            {formatDelta(comparison.counts.ofiCount, true)}
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Unchanged checks</p>
+            <p className="text-lg font-semibold">{comparison.unchangedCount}</p>
+          </div>
+        </div>
+
+        {Object.keys(comparison.scores.categoryScores).length > 0 && (
+          <div className="flex flex-wrap gap-4">
+            {Object.entries(comparison.scores.categoryScores).map(([category, score]) => (
+              <div key={category} className="text-sm">
+                <span className="text-gray-500 mr-1">{category}:</span>
+                <span className="inline-flex items-center gap-1">
+                  {score.current ?? "-"} {formatDelta(score)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-3 gap-6">
+          <ChangeList
+            title="New Priority OFIs"
+            items={comparison.newPriorityOfis}
+            icon={<AlertCircle className="h-4 w-4 mr-1 text-red-600" />}
+            emptyText="No new priority issues."
+          />
+          <ChangeList
+            title="Resolved"
+            items={comparison.resolvedItems}
+            icon={<CheckCircle className="h-4 w-4 mr-1 text-green-600" />}
+            emptyText="No issues resolved since the last audit."
+          />
+          <ChangeList
+            title="Regressed"
+            items={regressions}
+            icon={<ArrowDownRight className="h-4 w-4 mr-1 text-amber-600" />}
+            emptyText="Nothing got worse."
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
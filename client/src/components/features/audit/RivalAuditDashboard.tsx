@@ -34,6 +34,7 @@ import {
 } from "lucide-react";
 import { ChartExport } from "@/components/ui/chart-export";
 import PageIssuesDropdown from "./PageIssuesDropdown";
+import InternalLinkAuthority from "./InternalLinkAuthority";
 
 interface RivalAuditDashboardProps {
   audit: RivalAudit | EnhancedRivalAudit;
@@ -850,6 +851,11 @@ export default function RivalAuditDashboard({ audit, updatedSummary }: RivalAudi
         <PageIssuesDropdown pageIssues={audit.pageIssues} />
       )}
 
+      {/* Internal link graph - service and location pages starved of internal links */}
+      {'internalLinking' in audit && audit.internalLinking && (
+        <InternalLinkAuthority internalLinking={audit.internalLinking} />
+      )}
+
       {/* Category comparison chart */}
       <Card>
         <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-950/30 dark:to-indigo-950/30 border-b flex flex-row items-center justify-between space-y-0 pb-2">
@@ -1,6 +1,8 @@
 import React from 'react';
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { AuditProgressState } from "@/hooks/api/useAuditProgress";
 import { 
   MagnifyingGlassIcon, 
   DocumentMagnifyingGlassIcon, 
@@ -14,8 +16,72 @@ import {
 
 interface RivalAuditLoadingScreenProps {
   url: string;
+  liveProgress?: AuditProgressState; // real progress from the audit event stream
 }
 
+// Map the audit's overall percentage onto the displayed steps
+const getStepForProgress = (progress: number): number => {
+  if (progress < 30) return 0;
+  if (progress < 40) return 1;
+  if (progress < 50) return 2;
+  if (progress < 70) return 3;
+  if (progress < 90) return 4;
+  return progress >= 100 ? 6 : 5;
+};
+
+const LiveCrawlLog = ({ liveProgress }: { liveProgress: AuditProgressState }) => {
+  const bottomRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [liveProgress.log.length]);
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap justify-between gap-2 mb-2 text-sm">
+        <span className="font-medium">Live crawl log</span>
+        <span className="text-muted-foreground">
+          {liveProgress.pagesCrawled} crawled
+          {liveProgress.urlsQueued > 0 && ` of ${liveProgress.urlsQueued + 1} queued`}
+          {liveProgress.pagesFailed > 0 && ` · ${liveProgress.pagesFailed} failed`}
+        </span>
+      </div>
+      {liveProgress.currentUrl && (
+        <div className="text-xs text-muted-foreground truncate mb-2">
+          Current: <span className="font-mono">{liveProgress.currentUrl}</span>
+        </div>
+      )}
+      <ScrollArea className="h-48 rounded-md border bg-muted/30">
+        <div className="p-3 space-y-1 font-mono text-xs">
+          {liveProgress.log.length === 0 ? (
+            <div className="text-muted-foreground">
+              {liveProgress.isConnected ? 'Waiting for the crawler to start...' : 'Connecting to audit stream...'}
+            </div>
+          ) : (
+            liveProgress.log.map(entry => (
+              <div
+                key={entry.id}
+                className={`flex gap-2 ${
+                  entry.level === 'error' ? 'text-red-600 dark:text-red-400' :
+                  entry.level === 'success' ? 'text-foreground' : 'text-muted-foreground'
+                }`}
+              >
+                <span className="shrink-0 text-muted-foreground">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+                <span className="truncate">
+                  {entry.message}{entry.url && <> <span className="opacity-80">{entry.url}</span></>}
+                </span>
+              </div>
+            ))
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
 const LoadingStep = ({ 
   icon, 
   label, 
@@ -49,12 +115,19 @@ const LoadingStep = ({
   );
 };
 
-export default function RivalAuditLoadingScreen({ url }: RivalAuditLoadingScreenProps) {
-  // Simulated loading progress steps
-  const [activeStep, setActiveStep] = React.useState(0);
-  const [progress, setProgress] = React.useState(0);
+export default function RivalAuditLoadingScreen({ url, liveProgress }: RivalAuditLoadingScreenProps) {
+  // Simulated loading progress steps (used until live progress arrives)
+  const [simulatedStep, setSimulatedStep] = React.useState(0);
+  const [simulatedProgress, setSimulatedProgress] = React.useState(0);
+  
+  const hasLiveProgress = !!liveProgress && liveProgress.status !== 'connecting';
+  const progress = hasLiveProgress ? liveProgress.progress : simulatedProgress;
+  const activeStep = hasLiveProgress ? getStepForProgress(liveProgress.progress) : simulatedStep;
+  const isSimulated = !liveProgress;
   
   React.useEffect(() => {
+    if (!isSimulated) return;
+    
     // More realistic progression timing for actual crawling
     const stepTimings = [3000, 5000, 4000, 6000, 4000, 3000]; // Different timing for each step
     let totalElapsed = 0;
@@ -64,8 +137,8 @@ export default function RivalAuditLoadingScreen({ url }: RivalAuditLoadingScreen
     stepTimings.forEach((duration, index) => {
       totalElapsed += duration;
       const timer = setTimeout(() => {
-        setActiveStep(index + 1);
-        setProgress(Math.min(Math.round(((index + 1) / 6) * 100), 95)); // Cap at 95% until completion
+        setSimulatedStep(index + 1);
+        setSimulatedProgress(Math.min(Math.round(((index + 1) / 6) * 100), 95)); // Cap at 95% until completion
       }, totalElapsed);
       timers.push(timer);
     });
@@ -73,7 +146,7 @@ export default function RivalAuditLoadingScreen({ url }: RivalAuditLoadingScreen
     return () => {
       timers.forEach(timer => clearTimeout(timer));
     };
-  }, []);
+  }, [isSimulated]);
   
   return (
     <div className="space-y-6 max-w-3xl mx-auto animate-fadeIn">
@@ -89,7 +162,9 @@ export default function RivalAuditLoadingScreen({ url }: RivalAuditLoadingScreen
       <Card className="border border-primary/20">
         <CardContent className="pt-6">
           <div className="flex justify-between mb-2">
-            <span className="text-sm font-medium">Audit Progress</span>
+            <span className="text-sm font-medium">
+              Audit Progress{hasLiveProgress && liveProgress.stage ? ` · ${liveProgress.stage}` : ''}
+            </span>
             <span className="text-sm font-medium">{progress}%</span>
           </div>
           <Progress 
@@ -136,6 +211,8 @@ export default function RivalAuditLoadingScreen({ url }: RivalAuditLoadingScreen
             />
           </div>
           
+          {liveProgress && <LiveCrawlLog liveProgress={liveProgress} />}
+          
           <div className="mt-8 text-center">
             <div className="text-sm text-muted-foreground">
               This typically takes 30 seconds to 3 minutes, depending on website size
@@ -23,6 +23,15 @@ import { useToast } from "@/hooks/ui/use-toast";
 import QuickStatusChange from "./QuickStatusChange";
 import { OFIClassificationDisplay, OFIClassificationSummary } from "./OFIClassificationDisplay";
 
+// "impact" orders by Search Console impressions weighted by status and importance
+type SortField = "name" | "status" | "importance" | "impact";
+
+// Search Console impressions of the item's page, set when the project has imported performance
+const getSearchImpact = (item: AuditItem | EnhancedAuditItem) =>
+  "impressions" in item && typeof item.impressions === "number"
+    ? { impressions: item.impressions, impact: Number(item.impressionImpact ?? 0) }
+    : null;
+
 interface RivalAuditSectionProps {
   title: string;
   description: string;
@@ -35,7 +44,7 @@ export default function RivalAuditSection({ title, description, items }: RivalAu
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
   const [importanceFilter, setImportanceFilter] = useState<string | null>(null);
   const [currentView, setCurrentView] = useState<"list" | "categories">("list");
-  const [sortField, setSortField] = useState<"name" | "status" | "importance">("name");
+  const [sortField, setSortField] = useState<SortField>("name");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
   const [editModeItem, setEditModeItem] = useState<string | null>(null);
   const [editNotes, setEditNotes] = useState<string>("");
@@ -117,7 +126,7 @@ export default function RivalAuditSection({ title, description, items }: RivalAu
   }, [items]);
   
   // Toggle sort
-  const toggleSort = (field: "name" | "status" | "importance") => {
+  const toggleSort = (field: SortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === "asc" ? "desc" : "asc");
     } else {
@@ -267,6 +276,11 @@ export default function RivalAuditSection({ title, description, items }: RivalAu
         return sortDirection === "asc" 
           ? a.name.localeCompare(b.name) 
           : b.name.localeCompare(a.name);
+      } else if (sortField === "impact") {
+        const impactOf = (item: AuditItem | EnhancedAuditItem) => getSearchImpact(item)?.impact ?? 0;
+        return sortDirection === "asc"
+          ? impactOf(b) - impactOf(a)
+          : impactOf(a) - impactOf(b);
       } else if (sortField === "status") {
         const statusOrder: Record<AuditStatus, number> = { 
           "Priority OFI": 0, 
@@ -293,6 +307,7 @@ export default function RivalAuditSection({ title, description, items }: RivalAu
   }, [items, searchTerm, statusFilter, importanceFilter, sortField, sortDirection, itemCategories]);
   
   const filteredItems = filteredAndSortedItems.sorted;
+  const hasImpressions = items.some(item => getSearchImpact(item) !== null);
 
   // Handle edit item
   const handleEditClick = (item: AuditItem | EnhancedAuditItem) => {
@@ -573,7 +588,7 @@ export default function RivalAuditSection({ title, description, items }: RivalAu
               </SelectContent>
             </Select>
             
-            <Select value={sortField} onValueChange={(value: "name" | "status" | "importance") => toggleSort(value)}>
+            <Select value={sortField} onValueChange={(value: SortField) => toggleSort(value)}>
               <SelectTrigger className="w-full">
                 <SelectValue placeholder="Sort by" />
               </SelectTrigger>
@@ -581,6 +596,9 @@ export default function RivalAuditSection({ title, description, items }: RivalAu
                 <SelectItem value="name">Name {sortField === "name" && (sortDirection === "asc" ? "↑" : "↓")}</SelectItem>
                 <SelectItem value="status">Status {sortField === "status" && (sortDirection === "asc" ? "↑" : "↓")}</SelectItem>
                 <SelectItem value="importance">Importance {sortField === "importance" && (sortDirection === "asc" ? "↑" : "↓")}</SelectItem>
+                {hasImpressions && (
+                  <SelectItem value="impact">Search impact {sortField === "impact" && (sortDirection === "asc" ? "↑" : "↓")}</SelectItem>
+                )}
               </SelectContent>
             </Select>
           </div>
@@ -623,6 +641,15 @@ export default function RivalAuditSection({ title, description, items }: RivalAu
                         <div className="col-span-12 sm:col-span-5 flex items-center gap-2">
                           <span className="flex-shrink-0">{getStatusIcon(item.status)}</span>
                           <span className="text-xs sm:text-sm font-medium line-clamp-1">{item.name}</span>
+                          {getSearchImpact(item) && (
+                            <Badge
+                              variant="outline"
+                              className="hidden sm:inline-flex text-[10px] font-normal whitespace-nowrap"
+                              title={`Search Console impressions of the page; weighted impact ${getSearchImpact(item)!.impact.toLocaleString()}`}
+                            >
+                              {getSearchImpact(item)!.impressions.toLocaleString()} impr.
+                            </Badge>
+                          )}
                           
                           <div className="sm:hidden ml-auto space-x-2">
                             {getStatusBadge(item, true)}
@@ -3,6 +3,7 @@ export * from './OFIClassificationDisplay';
 export * from './OFIWeeklyReport';
 export * from './PriorityOFIWarningDialog';
 export * from './QuickStatusChange';
+export * from './RivalAuditChanges';
 export * from './RivalAuditDashboard';
 export * from './RivalAuditLoadingScreen';
 export * from './RivalAuditRecommendations';
@@ -0,0 +1,138 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ActiveSession } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+
+const SESSIONS_QUERY_KEY = ["/api/user/sessions"];
+
+// "Chrome on Windows" from a User-Agent header, best effort
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser = [
+    ["Edg/", "Edge"],
+    ["OPR/", "Opera"],
+    ["Firefox/", "Firefox"],
+    ["Chrome/", "Chrome"],
+    ["Safari/", "Safari"]
+  ].find(([token]) => userAgent.includes(token))?.[1];
+  const os = [
+    ["Windows", "Windows"],
+    ["iPhone", "iOS"],
+    ["iPad", "iPadOS"],
+    ["Android", "Android"],
+    ["Mac OS X", "macOS"],
+    ["Linux", "Linux"]
+  ].find(([token]) => userAgent.includes(token))?.[1];
+
+  if (!browser && !os) return userAgent;
+  return [browser || "Browser", os && `on ${os}`].filter(Boolean).join(" ");
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+}
+
+/**
+ * Devices the user is signed in on, each with a sign-out button, and a
+ * button to sign out everywhere
+ */
+export function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: SESSIONS_QUERY_KEY,
+    queryFn: () => apiRequest<ActiveSession[]>("/api/user/sessions")
+  });
+
+  // Ending the current session clears the login cookie, so refresh the auth status too
+  const onSignedOut = (includesCurrent: boolean) => {
+    queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+    if (includesCurrent) {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    }
+  };
+
+  const revoke = useMutation({
+    mutationFn: (session: ActiveSession) =>
+      apiRequest(`/api/user/sessions/${session.id}`, { method: "DELETE" }),
+    onSuccess: (_, session) => {
+      toast({ title: "Session signed out", description: `${describeUserAgent(session.userAgent)} has been signed out.` });
+      onSignedOut(session.current);
+    },
+    onError: () => {
+      toast({ title: "Could not sign out the session", variant: "destructive" });
+    }
+  });
+
+  const revokeAll = useMutation({
+    mutationFn: () => apiRequest("/api/user/sessions", { method: "DELETE" }),
+    onSuccess: () => {
+      toast({ title: "Signed out everywhere", description: "Sign in again to continue." });
+      onSignedOut(true);
+    },
+    onError: () => {
+      toast({ title: "Could not sign out everywhere", variant: "destructive" });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!sessions || sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No active sessions.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="divide-y rounded-md border">
+        {sessions.map((session) => {
+          const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+          return (
+            <div key={session.id} className="flex items-center justify-between p-4">
+              <div className="flex items-center space-x-3">
+                <DeviceIcon className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium" title={session.userAgent || undefined}>
+                      {describeUserAgent(session.userAgent)}
+                    </span>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {session.ipAddress || "Unknown IP"} · Signed in {new Date(session.createdAt).toLocaleDateString()} ·
+                    Last active {new Date(session.lastActivity).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => revoke.mutate(session)}
+                disabled={revoke.isPending && revoke.variables?.id === session.id}
+              >
+                {revoke.isPending && revoke.variables?.id === session.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Sign out
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+      <Button variant="destructive" onClick={() => revokeAll.mutate()} disabled={revokeAll.isPending}>
+        {revokeAll.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogOut className="h-4 w-4 mr-2" />}
+        Sign out everywhere
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ApiKeyCreated, ApiKeyScope, ApiKeySummary } from "@shared/schema";
+import { API_KEY_SCOPES, API_KEY_SCOPE_DESCRIPTIONS } from "@shared/constants/api-key-scopes";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useWorkspaces } from "@/hooks/api/useWorkspaces";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, KeyRound, Loader2, Plus } from "lucide-react";
+
+const API_KEYS_QUERY_KEY = ["/api/api-keys"];
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" }
+];
+
+function isExpired(apiKey: ApiKeySummary): boolean {
+  return !!apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date();
+}
+
+/**
+ * Form for a new key; the key itself is shown once after it is created
+ */
+function CreateApiKeyForm({ onCreated, onCancel }: {
+  onCreated: (created: ApiKeyCreated) => void;
+  onCancel: () => void;
+}) {
+  const { toast } = useToast();
+  const { workspaces } = useWorkspaces();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["audits:read"]);
+  const [workspaceId, setWorkspaceId] = useState("personal");
+  const [expiry, setExpiry] = useState("90");
+
+  const create = useMutation({
+    mutationFn: () =>
+      apiRequest<ApiKeyCreated>("/api/api-keys", {
+        method: "POST",
+        data: {
+          name,
+          scopes,
+          workspaceId: workspaceId === "personal" ? null : parseInt(workspaceId),
+          expiresInDays: expiry === "never" ? null : parseInt(expiry)
+        }
+      }),
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+      onCreated(created);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create the API key", description: getApiErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope));
+  };
+
+  return (
+    <form
+      className="space-y-4 rounded-md border p-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        create.mutate();
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="api-key-name">Name</Label>
+        <Input
+          id="api-key-name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Nightly audit script"
+          maxLength={100}
+          autoFocus
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Scopes</Label>
+        {API_KEY_SCOPES.map((scope) => (
+          <div key={scope} className="flex items-start space-x-2">
+            <Checkbox
+              id={`api-key-scope-${scope}`}
+              checked={scopes.includes(scope)}
+              onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+            />
+            <Label htmlFor={`api-key-scope-${scope}`} className="font-normal leading-tight">
+              <span className="font-mono">{scope}</span>
+              <span className="block text-xs text-muted-foreground">{API_KEY_SCOPE_DESCRIPTIONS[scope]}</span>
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Acts in</Label>
+          <Select value={workspaceId} onValueChange={setWorkspaceId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="personal">Personal account</SelectItem>
+              {workspaces.map((workspace) => (
+                <SelectItem key={workspace.id} value={String(workspace.id)}>{workspace.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Expires after</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex space-x-2">
+        <Button type="submit" disabled={!name.trim() || scopes.length === 0 || create.isPending}>
+          {create.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Create key
+        </Button>
+        <Button type="button" variant="ghost" onClick={onCancel}>Cancel</Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * The user's API keys for scripts, with when they were last used and a
+ * button to revoke each
+ */
+export function ApiKeys() {
+  const { toast } = useToast();
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const { data: apiKeys, isLoading } = useQuery<ApiKeySummary[]>({
+    queryKey: API_KEYS_QUERY_KEY,
+    queryFn: () => apiRequest<ApiKeySummary[]>("/api/api-keys")
+  });
+
+  const revoke = useMutation({
+    mutationFn: (apiKey: ApiKeySummary) => apiRequest(`/api/api-keys/${apiKey.id}`, { method: "DELETE" }),
+    onSuccess: (_, apiKey) => {
+      toast({ title: "API key revoked", description: `Scripts using ${apiKey.name} can no longer call the API.` });
+      queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not revoke the API key", description: getApiErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {createdKey && (
+        <div className="space-y-2 rounded-md border border-primary/40 bg-primary/5 p-4">
+          <p className="text-sm font-medium">Copy your new API key now. It will not be shown again.</p>
+          <div className="rounded-md border bg-background p-3 font-mono text-sm break-all">{createdKey}</div>
+          <p className="text-xs text-muted-foreground">
+            Send it in the <span className="font-mono">X-API-Key</span> header, or as a Bearer token.
+          </p>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(createdKey)}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy key
+            </Button>
+            <Button size="sm" onClick={() => setCreatedKey(null)}>Done</Button>
+          </div>
+        </div>
+      )}
+
+      {isCreating ? (
+        <CreateApiKeyForm
+          onCreated={(created) => {
+            setIsCreating(false);
+            setCreatedKey(created.key);
+          }}
+          onCancel={() => setIsCreating(false)}
+        />
+      ) : (
+        <Button variant="outline" onClick={() => setIsCreating(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New API key
+        </Button>
+      )}
+
+      {apiKeys && apiKeys.length > 0 ? (
+        <div className="divide-y rounded-md border">
+          {apiKeys.map((apiKey) => {
+            const isActive = !apiKey.revokedAt && !isExpired(apiKey);
+            return (
+              <div key={apiKey.id} className="flex items-center justify-between p-4">
+                <div className="flex items-start space-x-3">
+                  <KeyRound className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{apiKey.name}</span>
+                      <span className="font-mono text-xs text-muted-foreground">{apiKey.keyPrefix}…</span>
+                      {apiKey.revokedAt && <Badge variant="destructive">Revoked</Badge>}
+                      {!apiKey.revokedAt && isExpired(apiKey) && <Badge variant="secondary">Expired</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {apiKey.workspaceName || "Personal account"} ·
+                      {apiKey.lastUsedAt
+                        ? ` Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}${apiKey.lastUsedIp ? ` from ${apiKey.lastUsedIp}` : ""}`
+                        : " Never used"} ·
+                      {apiKey.expiresAt ? ` Expires ${new Date(apiKey.expiresAt).toLocaleDateString()}` : " Never expires"}
+                    </p>
+                  </div>
+                </div>
+                {isActive && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revoke.mutate(apiKey)}
+                    disabled={revoke.isPending && revoke.variables?.id === apiKey.id}
+                  >
+                    {revoke.isPending && revoke.variables?.id === apiKey.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        !isCreating && <p className="text-sm text-muted-foreground">You have no API keys yet.</p>
+      )}
+    </div>
+  );
+}
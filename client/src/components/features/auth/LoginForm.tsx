@@ -1,46 +1,208 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
-import { useAuth } from "@/hooks/auth/useAuth";
-import { Loader2, LogIn } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BackupCodesList, TwoFactorCodeInput, TwoFactorEnableResult, TwoFactorEnrolment } from "./TwoFactorEnrolment";
+import { Loader2, LogIn, ShieldCheck } from "lucide-react";
 
 interface LoginFormProps {
   onSuccess?: () => void;
 }
 
+// A password login either signs in or asks for the second factor
+interface LoginResponse {
+  message: string;
+  twoFactor?: "verify" | "setup";
+  preAuthToken?: string;
+}
+
+type LoginStep =
+  | { name: "password" }
+  | { name: "verify" | "setup"; preAuthToken: string }
+  | { name: "backupCodes"; backupCodes: string[] };
+
 export function LoginForm({ onSuccess }: LoginFormProps) {
-  const { login, isLoggingIn, authError } = useAuth();
+  const [step, setStep] = useState<LoginStep>({ name: "password" });
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+
+  const finishLogin = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    if (onSuccess) {
+      onSuccess();
+    }
+  };
 
-  const handleLogin = async () => {
-    try {
-      await login();
-      if (onSuccess) {
-        onSuccess();
+  const login = useMutation({
+    mutationFn: () => apiRequest<LoginResponse>("/api/auth/login", { method: "POST", data: { username, password } }),
+    onSuccess: (response) => {
+      setPassword("");
+      if (response.twoFactor && response.preAuthToken) {
+        setStep({ name: response.twoFactor, preAuthToken: response.preAuthToken });
+      } else {
+        finishLogin();
       }
-    } catch (error) {
-      console.error("Login error:", error);
     }
+  });
+
+  const verify = useMutation({
+    mutationFn: (preAuthToken: string) =>
+      apiRequest("/api/auth/login/2fa", { method: "POST", data: { preAuthToken, code } }),
+    onSuccess: finishLogin,
+    onError: () => setCode("")
+  });
+
+  // The pre-auth token only lasts a few minutes, so an expired one starts over
+  const restart = () => {
+    setStep({ name: "password" });
+    setCode("");
+    setUseBackupCode(false);
+    login.reset();
+    verify.reset();
   };
 
+  const error = login.error || verify.error;
+
+  if (step.name === "setup") {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <h3 className="font-medium">Set up two-factor authentication</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Your account requires two-factor authentication. Set it up to finish signing in.
+        </p>
+        <TwoFactorEnrolment
+          preAuthToken={step.preAuthToken}
+          onEnabled={(result: TwoFactorEnableResult) => setStep({ name: "backupCodes", backupCodes: result.backupCodes })}
+        />
+        <Button variant="link" className="px-0" onClick={restart}>Back to sign in</Button>
+      </div>
+    );
+  }
+
+  if (step.name === "backupCodes") {
+    return (
+      <div className="space-y-4">
+        <BackupCodesList codes={step.backupCodes} />
+        <Button className="w-full" onClick={finishLogin}>I have saved my backup codes</Button>
+      </div>
+    );
+  }
+
+  if (step.name === "verify") {
+    const canSubmit = useBackupCode ? code.trim().length >= 10 : code.length === 6;
+
+    return (
+      <form
+        className="space-y-4"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (canSubmit) verify.mutate(step.preAuthToken);
+        }}
+      >
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <h3 className="font-medium">Two-factor authentication</h3>
+        </div>
+
+        {error && (
+          <div className="p-3 text-sm bg-destructive/10 text-destructive rounded-md">
+            {getApiErrorMessage(error)}
+          </div>
+        )}
+
+        {useBackupCode ? (
+          <div className="space-y-2">
+            <Label htmlFor="backup-code">Backup code</Label>
+            <Input
+              id="backup-code"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              placeholder="XXXXX-XXXXX"
+              autoComplete="one-time-code"
+              autoFocus
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label>Enter the 6-digit code from your authenticator app</Label>
+            <TwoFactorCodeInput value={code} onChange={setCode} disabled={verify.isPending} />
+          </div>
+        )}
+
+        <Button type="submit" className="w-full" disabled={!canSubmit || verify.isPending}>
+          {verify.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Verify
+        </Button>
+
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="link"
+            className="px-0"
+            onClick={() => {
+              setUseBackupCode(!useBackupCode);
+              setCode("");
+            }}
+          >
+            {useBackupCode ? "Use your authenticator app" : "Use a backup code"}
+          </Button>
+          <Button type="button" variant="link" className="px-0" onClick={restart}>Back to sign in</Button>
+        </div>
+      </form>
+    );
+  }
+
   return (
-    <div className="space-y-4">
-      {authError && (
+    <form
+      className="space-y-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        login.mutate();
+      }}
+    >
+      {error && (
         <div className="p-3 text-sm bg-destructive/10 text-destructive rounded-md">
-          {authError}
+          {getApiErrorMessage(error)}
         </div>
       )}
 
-      <div className="text-center mb-4">
-        <p className="text-muted-foreground">
-          Quickly and securely log in using your Replit account
-        </p>
+      <div className="space-y-2">
+        <Label htmlFor="login-username">Username</Label>
+        <Input
+          id="login-username"
+          value={username}
+          onChange={(event) => setUsername(event.target.value)}
+          autoComplete="username"
+          required
+        />
       </div>
 
-      <Button 
-        onClick={handleLogin} 
-        className="w-full py-6" 
-        size="lg" 
-        disabled={isLoggingIn}
+      <div className="space-y-2">
+        <Label htmlFor="login-password">Password</Label>
+        <Input
+          id="login-password"
+          type="password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          autoComplete="current-password"
+          required
+        />
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full py-6"
+        size="lg"
+        disabled={login.isPending || !username || !password}
       >
-        {isLoggingIn ? (
+        {login.isPending ? (
           <>
             <Loader2 className="mr-2 h-5 w-5 animate-spin" />
             Logging in...
@@ -48,10 +210,10 @@ export function LoginForm({ onSuccess }: LoginFormProps) {
         ) : (
           <>
             <LogIn className="mr-2 h-5 w-5" />
-            Continue with Replit
+            Log in
           </>
         )}
       </Button>
-    </div>
+    </form>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, Loader2, Smartphone } from "lucide-react";
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorEnableResult {
+  message: string;
+  backupCodes: string[];
+  token?: string; // when enrolment finished a login
+}
+
+interface TwoFactorEnrolmentProps {
+  preAuthToken?: string; // for accounts that must enrol before signing in
+  onEnabled: (result: TwoFactorEnableResult) => void;
+}
+
+/**
+ * Six-digit code field for authenticator app codes
+ */
+export function TwoFactorCodeInput({ value, onChange, disabled }: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} autoFocus>
+      <InputOTPGroup>
+        {[...Array(6)].map((_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+/**
+ * Backup codes, shown once after enabling two-factor authentication or
+ * replacing the codes
+ */
+export function BackupCodesList({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these backup codes somewhere safe. Each one signs you in once if you lose your authenticator app,
+        and they will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(codes.join("\n"))}>
+        <Copy className="h-4 w-4 mr-2" />
+        Copy codes
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Add the account to an authenticator app and confirm it with a first code
+ */
+export function TwoFactorEnrolment({ preAuthToken, onEnabled }: TwoFactorEnrolmentProps) {
+  const [code, setCode] = useState("");
+
+  const setup = useMutation({
+    mutationFn: () => apiRequest<TwoFactorSetup>("/api/auth/2fa/setup", { method: "POST", data: { preAuthToken } })
+  });
+
+  const enable = useMutation({
+    mutationFn: () => apiRequest<TwoFactorEnableResult>("/api/auth/2fa/enable", { method: "POST", data: { code, preAuthToken } }),
+    onSuccess: onEnabled,
+    onError: () => setCode("")
+  });
+
+  // A new secret each time enrolment starts
+  useEffect(() => {
+    setup.mutate();
+  }, []);
+
+  if (setup.isPending || setup.isIdle) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (setup.error || !setup.data) {
+    return <p className="text-sm text-destructive">{setup.error ? getApiErrorMessage(setup.error) : "Could not start setup"}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Add Rival Outranker to an authenticator app such as Google Authenticator, 1Password or Authy by entering this key:
+        </p>
+        <div className="rounded-md border bg-muted/40 p-3 font-mono text-sm tracking-wider break-all">
+          {setup.data.secret.match(/.{1,4}/g)?.join(" ")}
+        </div>
+        <a href={setup.data.otpauthUrl} className="inline-flex items-center text-sm text-primary hover:underline">
+          <Smartphone className="h-4 w-4 mr-1" />
+          Open in an authenticator app on this device
+        </a>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Enter the 6-digit code the app shows</p>
+        <TwoFactorCodeInput value={code} onChange={setCode} disabled={enable.isPending} />
+        {enable.error && <p className="text-sm text-destructive">{getApiErrorMessage(enable.error)}</p>}
+      </div>
+
+      <Button onClick={() => enable.mutate()} disabled={code.length !== 6 || enable.isPending}>
+        {enable.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Verify and enable
+      </Button>
+    </div>
+  );
+}
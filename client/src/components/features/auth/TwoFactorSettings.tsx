@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { TwoFactorStatus } from "@shared/schema";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BackupCodesList, TwoFactorEnrolment } from "./TwoFactorEnrolment";
+import { Loader2 } from "lucide-react";
+
+const STATUS_QUERY_KEY = ["/api/auth/2fa"];
+
+type CodeAction = "disable" | "backup-codes";
+
+/**
+ * Enable two-factor authentication, replace the backup codes or turn it off
+ */
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: STATUS_QUERY_KEY,
+    queryFn: () => apiRequest<TwoFactorStatus>("/api/auth/2fa")
+  });
+
+  // Disabling and replacing the backup codes are both confirmed with a current code
+  const confirm = useMutation({
+    mutationFn: (codeAction: CodeAction) =>
+      apiRequest<{ message: string; backupCodes?: string[] }>(`/api/auth/2fa/${codeAction}`, { method: "POST", data: { code } }),
+    onSuccess: (response) => {
+      toast({ title: response.message });
+      setBackupCodes(response.backupCodes || null);
+      setAction(null);
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not confirm the code", description: getApiErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  if (isLoading || !status) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (backupCodes) {
+    return (
+      <div className="space-y-4">
+        <BackupCodesList codes={backupCodes} />
+        <Button onClick={() => setBackupCodes(null)}>Done</Button>
+      </div>
+    );
+  }
+
+  if (!status.enabled) {
+    return isEnrolling ? (
+      <div className="space-y-4">
+        <TwoFactorEnrolment
+          onEnabled={(result) => {
+            toast({ title: "Two-factor authentication enabled" });
+            setIsEnrolling(false);
+            setBackupCodes(result.backupCodes);
+            queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+          }}
+        />
+        <Button variant="link" className="px-0" onClick={() => setIsEnrolling(false)}>Cancel</Button>
+      </div>
+    ) : (
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Sign in with a code from an authenticator app as well as your password.
+        </p>
+        <Button onClick={() => setIsEnrolling(true)}>Set up</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Badge>Enabled</Badge>
+        {status.required && <Badge variant="secondary">Required for admin accounts</Badge>}
+        <span className="text-sm text-muted-foreground">
+          {status.backupCodesRemaining} backup code{status.backupCodesRemaining === 1 ? "" : "s"} left
+        </span>
+      </div>
+
+      {action ? (
+        <form
+          className="flex items-center space-x-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            confirm.mutate(action);
+          }}
+        >
+          <Input
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder="Authenticator or backup code"
+            autoComplete="one-time-code"
+            className="max-w-xs"
+            autoFocus
+          />
+          <Button type="submit" variant={action === "disable" ? "destructive" : "default"} disabled={code.trim().length < 6 || confirm.isPending}>
+            {confirm.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {action === "disable" ? "Turn off" : "Replace codes"}
+          </Button>
+          <Button type="button" variant="ghost" onClick={() => { setAction(null); setCode(""); }}>Cancel</Button>
+        </form>
+      ) : (
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setAction("backup-codes")}>New backup codes</Button>
+          {!status.required && (
+            <Button variant="outline" onClick={() => setAction("disable")}>Turn off</Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
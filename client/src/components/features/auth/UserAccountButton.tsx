@@ -12,7 +12,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Link } from "wouter";
 import { AuthDialog } from "./AuthDialog";
-import { LogOut, User, Settings, History, BarChart2, BookOpen } from "lucide-react";
+import { LogOut, User, Settings, History, BarChart2, BookOpen, Webhook } from "lucide-react";
 
 export function UserAccountButton() {
   const { user, isAuthenticated, logout, isLoggingOut } = useAuth();
@@ -116,6 +116,12 @@ export function UserAccountButton() {
               <span>History</span>
             </Link>
           </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href="/webhooks">
+              <Webhook className="mr-2 h-4 w-4" />
+              <span>Webhooks</span>
+            </Link>
+          </DropdownMenuItem>
           <DropdownMenuItem asChild>
             <Link href="/profile/security">
               <Settings className="mr-2 h-4 w-4" />
@@ -3,4 +3,7 @@ export { LoginForm } from './LoginForm';
 export { RegisterForm } from './RegisterForm';
 export { ProfileForm } from './ProfileForm';
 export { ChangePasswordForm } from './ChangePasswordForm';
-export { UserAccountButton } from './UserAccountButton';
\ No newline at end of file
+export { UserAccountButton } from './UserAccountButton';
+export { ActiveSessions } from './ActiveSessions';
+export { TwoFactorSettings } from './TwoFactorSettings';
+export { ApiKeys } from './ApiKeys';
\ No newline at end of file
@@ -1,4 +1,5 @@
 export * from './analysis';
 export * from './audit';
 export * from './auth';
-export * from './monitoring';
\ No newline at end of file
+export * from './monitoring';
+export * from './workspaces';
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { Link } from "wouter";
+import { WORKSPACE_ROLE_LABELS } from "@shared/constants/workspace-roles";
+import { useAuth } from "@/hooks/auth/useAuth";
+import { useWorkspaces } from "@/hooks/api/useWorkspaces";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Building2, Check, ChevronDown, Settings, User } from "lucide-react";
+
+/**
+ * Switch between the user's personal records and the workspaces they belong to
+ */
+export function WorkspaceSwitcher() {
+  const { isAuthenticated } = useAuth();
+  const { workspaces, activeWorkspace, switchWorkspace } = useWorkspaces();
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="max-w-[12rem]">
+          {activeWorkspace ? <Building2 className="h-4 w-4 mr-2 shrink-0" /> : <User className="h-4 w-4 mr-2 shrink-0" />}
+          <span className="truncate">{activeWorkspace?.name || "Personal"}</span>
+          <ChevronDown className="h-3.5 w-3.5 ml-1.5 shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-60" align="end">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Workspace</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => switchWorkspace(null)}>
+          <User className="mr-2 h-4 w-4" />
+          <span className="flex-1">Personal</span>
+          {!activeWorkspace && <Check className="h-4 w-4" />}
+        </DropdownMenuItem>
+        {workspaces.map(workspace => (
+          <DropdownMenuItem key={workspace.id} onClick={() => switchWorkspace(workspace.id)}>
+            <Building2 className="mr-2 h-4 w-4" />
+            <span className="flex-1 truncate">{workspace.name}</span>
+            <span className="text-xs text-muted-foreground ml-2">{WORKSPACE_ROLE_LABELS[workspace.role]}</span>
+            {activeWorkspace?.id === workspace.id && <Check className="h-4 w-4 ml-2" />}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/workspaces">
+            <Settings className="mr-2 h-4 w-4" />
+            <span>Manage workspaces</span>
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1 @@
+export { WorkspaceSwitcher } from './WorkspaceSwitcher';
@@ -7,4 +7,10 @@ export { useSeoAnalysis } from './useSeoAnalysis';
 
 // New enhanced API hooks
 export * from './useApiData';
-export * from './useAnalysisApi';
\ No newline at end of file
+export * from './useAnalysisApi';
+
+// Live audit progress (Server-Sent Events)
+export * from './useAuditProgress';
+
+// Agency workspaces
+export * from './useWorkspaces';
@@ -0,0 +1,205 @@
+/**
+ * Live rival audit progress over Server-Sent Events
+ *
+ * Subscribes to GET /api/rival-audit/:id/events and folds the stream into
+ * progress state plus a rolling crawl log.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { apiClient } from '../../lib/apiClient';
+
+export type AuditLogLevel = 'info' | 'success' | 'error';
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: string;
+  level: AuditLogLevel;
+  message: string;
+  url?: string;
+}
+
+export interface AuditProgressState {
+  status: 'connecting' | 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  stage: string;
+  progress: number;
+  pagesCrawled: number;
+  pagesFailed: number;
+  urlsDiscovered: number;
+  urlsQueued: number;
+  currentUrl?: string;
+  log: AuditLogEntry[];
+  isConnected: boolean;
+}
+
+const MAX_LOG_ENTRIES = 100;
+
+const initialState: AuditProgressState = {
+  status: 'connecting',
+  stage: 'Preparing',
+  progress: 0,
+  pagesCrawled: 0,
+  pagesFailed: 0,
+  urlsDiscovered: 0,
+  urlsQueued: 0,
+  log: [],
+  isConnected: false
+};
+
+export function useAuditProgress(
+  auditId: string | null,
+  options?: {
+    enabled?: boolean;
+    onComplete?: () => void;
+    onCancelled?: (message: string) => void;
+  }
+) {
+  const [state, setState] = useState<AuditProgressState>(initialState);
+  const callbacksRef = useRef(options);
+  callbacksRef.current = options;
+
+  const enabled = options?.enabled ?? true;
+
+  useEffect(() => {
+    if (!auditId || !enabled) return;
+
+    setState(initialState);
+    const eventSource = apiClient.createEventSource(`/api/rival-audit/${auditId}/events`, { withCredentials: true });
+    let entryCount = 0;
+
+    const appendLog = (prev: AuditProgressState, level: AuditLogLevel, message: string, url?: string): AuditLogEntry[] => {
+      const entry: AuditLogEntry = {
+        id: `${auditId}-${entryCount++}`,
+        timestamp: new Date().toISOString(),
+        level,
+        message,
+        url
+      };
+      return [...prev.log, entry].slice(-MAX_LOG_ENTRIES);
+    };
+
+    const parse = (event: MessageEvent) => {
+      try {
+        return JSON.parse(event.data);
+      } catch (err) {
+        console.error('Failed to parse audit progress event:', err);
+        return null;
+      }
+    };
+
+    eventSource.onopen = () => {
+      setState(prev => ({ ...prev, isConnected: true }));
+    };
+
+    eventSource.addEventListener('status', (event) => {
+      const data = parse(event as MessageEvent);
+      if (!data) return;
+      setState(prev => ({
+        ...prev,
+        status: data.status,
+        stage: data.stage,
+        progress: data.progress || 0
+      }));
+    });
+
+    eventSource.addEventListener('stage', (event) => {
+      const data = parse(event as MessageEvent);
+      if (!data) return;
+      setState(prev => ({
+        ...prev,
+        status: 'processing',
+        stage: data.stage,
+        progress: data.progress,
+        log: prev.stage === data.stage ? prev.log : appendLog(prev, 'info', data.stage)
+      }));
+    });
+
+    eventSource.addEventListener('discovered', (event) => {
+      const data = parse(event as MessageEvent);
+      if (!data) return;
+      setState(prev => ({
+        ...prev,
+        urlsDiscovered: data.urlsDiscovered,
+        urlsQueued: data.urlsQueued,
+        log: appendLog(prev, 'info', `Discovered ${data.urlsDiscovered} URLs, ${data.urlsQueued} queued for crawling`)
+      }));
+    });
+
+    eventSource.addEventListener('page', (event) => {
+      const data = parse(event as MessageEvent);
+      if (!data) return;
+      setState(prev => ({
+        ...prev,
+        pagesCrawled: data.pagesCrawled,
+        currentUrl: data.url,
+        log: appendLog(prev, 'success', `Crawled (${data.statusCode})`, data.url)
+      }));
+    });
+
+    eventSource.addEventListener('error', (event) => {
+      // Connection errors arrive as plain Events without data
+      if (!(event instanceof MessageEvent)) return;
+      const data = parse(event);
+      if (!data) return;
+      setState(prev => ({
+        ...prev,
+        // An audit error without retries left is final
+        status: !data.url && !data.willRetry ? 'failed' : prev.status,
+        pagesFailed: data.url ? prev.pagesFailed + 1 : prev.pagesFailed,
+        currentUrl: data.url || prev.currentUrl,
+        log: appendLog(
+          prev,
+          'error',
+          data.willRetry
+            ? `Audit failed: ${data.message}. Retrying (attempt ${data.attempt} of ${data.maxAttempts})`
+            : data.message,
+          data.url
+        )
+      }));
+    });
+
+    eventSource.addEventListener('complete', (event) => {
+      const data = parse(event as MessageEvent);
+      // Audits that already finished report their final status here, including failures
+      if (data?.status === 'failed') {
+        setState(prev => ({
+          ...prev,
+          status: 'failed',
+          stage: 'Failed'
+        }));
+      } else {
+        setState(prev => ({
+          ...prev,
+          status: 'completed',
+          stage: 'Completed',
+          progress: 100,
+          log: appendLog(prev, 'success', `Audit complete${data?.pagesAnalyzed ? ` (${data.pagesAnalyzed} factors analyzed)` : ''}`)
+        }));
+      }
+      eventSource.close();
+      callbacksRef.current?.onComplete?.();
+    });
+
+    eventSource.addEventListener('cancelled', (event) => {
+      const data = parse(event as MessageEvent);
+      const message = data?.message || 'Audit cancelled';
+      setState(prev => ({
+        ...prev,
+        status: 'cancelled',
+        log: appendLog(prev, 'error', message)
+      }));
+      eventSource.close();
+      callbacksRef.current?.onCancelled?.(message);
+    });
+
+    eventSource.onerror = () => {
+      // EventSource reconnects on its own (sending Last-Event-ID) unless closed
+      setState(prev => ({ ...prev, isConnected: false }));
+    };
+
+    return () => {
+      eventSource.close();
+    };
+  }, [auditId, enabled]);
+
+  return state;
+}
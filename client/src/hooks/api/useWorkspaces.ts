@@ -0,0 +1,44 @@
+/**
+ * Workspaces of the current user and the active one
+ *
+ * Switching workspaces refetches every query, since projects, audits,
+ * keywords and backlink profiles all depend on the active workspace.
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { WorkspaceSummary } from '@shared/schema';
+import { apiRequest, queryClient } from '../../lib/queryClient';
+import { getActiveWorkspaceId, setActiveWorkspaceId } from '../../lib/workspace';
+import { useAuth } from '../auth/useAuth';
+
+export function useWorkspaces() {
+  const { isAuthenticated } = useAuth();
+  const [activeWorkspaceId, setActiveId] = useState(getActiveWorkspaceId);
+
+  const { data: workspaces = [], isLoading } = useQuery<WorkspaceSummary[]>({
+    queryKey: ['/api/workspaces'],
+    queryFn: () => apiRequest<WorkspaceSummary[]>('/api/workspaces'),
+    enabled: isAuthenticated
+  });
+
+  const switchWorkspace = (id: number | null) => {
+    setActiveWorkspaceId(id);
+    setActiveId(id);
+    queryClient.invalidateQueries();
+  };
+
+  // Fall back to personal records after leaving or being removed from the workspace
+  useEffect(() => {
+    if (!isLoading && isAuthenticated && activeWorkspaceId !== null && !workspaces.some(workspace => workspace.id === activeWorkspaceId)) {
+      switchWorkspace(null);
+    }
+  }, [isLoading, isAuthenticated, activeWorkspaceId, workspaces]);
+
+  return {
+    workspaces,
+    activeWorkspace: workspaces.find(workspace => workspace.id === activeWorkspaceId) ?? null,
+    isLoading,
+    switchWorkspace
+  };
+}
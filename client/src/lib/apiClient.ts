@@ -11,6 +11,8 @@
  * - Request cancellation
  */
 
+import { getActiveWorkspaceId, WORKSPACE_HEADER } from './workspace';
+
 export interface ApiError extends Error {
   status?: number;
   code?: string;
@@ -82,6 +84,18 @@ export class ApiClient {
       return config;
     });
 
+    // Request interceptor for the active workspace
+    this.addRequestInterceptor((config) => {
+      const workspaceId = getActiveWorkspaceId();
+      if (workspaceId !== null) {
+        config.headers = {
+          ...config.headers,
+          [WORKSPACE_HEADER]: String(workspaceId),
+        };
+      }
+      return config;
+    });
+
     // Response interceptor for auth refresh
     this.addResponseInterceptor(async (response) => {
       if (response.status === 401) {
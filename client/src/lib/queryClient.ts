@@ -13,6 +13,7 @@
 import { QueryClient, QueryFunction, QueryCache, MutationCache } from "@tanstack/react-query";
 import axios from "axios";
 import { apiClient, type ApiError } from './apiClient';
+import { getActiveWorkspaceId, WORKSPACE_HEADER } from './workspace';
 
 // Legacy axios instance (to be phased out)
 const axiosInstance = axios.create({
@@ -24,6 +25,14 @@ const axiosInstance = axios.create({
   }
 });
 
+axiosInstance.interceptors.request.use((config) => {
+  const workspaceId = getActiveWorkspaceId();
+  if (workspaceId !== null) {
+    config.headers.set(WORKSPACE_HEADER, String(workspaceId));
+  }
+  return config;
+});
+
 axiosInstance.interceptors.response.use(
   (response) => response,
   (error) => {
@@ -63,6 +72,17 @@ export async function apiRequest<T = any>(
   }
 }
 
+// The message of an apiRequest error, without its status prefix and JSON body
+export function getApiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.error || parsed.message || body;
+  } catch {
+    return body;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn = <T>(options: {
   on401: UnauthorizedBehavior;
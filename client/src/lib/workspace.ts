@@ -0,0 +1,25 @@
+/**
+ * Active workspace
+ *
+ * The workspace the user is working in is kept in localStorage and sent with
+ * every API request as the X-Workspace-Id header; without it the API serves
+ * the user's personal projects and audits.
+ */
+
+export const WORKSPACE_HEADER = 'X-Workspace-Id';
+
+const STORAGE_KEY = 'activeWorkspaceId';
+
+export function getActiveWorkspaceId(): number | null {
+  if (typeof window === 'undefined') return null;
+  const id = parseInt(localStorage.getItem(STORAGE_KEY) || '');
+  return isNaN(id) ? null : id;
+}
+
+export function setActiveWorkspaceId(id: number | null): void {
+  if (id === null) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, String(id));
+  }
+}
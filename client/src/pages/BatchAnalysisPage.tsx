@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import axios from "axios";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AnalysisBatch, AnalysisBatchReport, AnalysisBatchRow } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowDown, ArrowUp, Download, Layers, Loader2, Play, Trash2 } from "lucide-react";
+
+type SortKey = Exclude<keyof AnalysisBatchRow, "status" | "error" | "analysisId">;
+
+// Same columns, in the same order, as the Excel export
+const SCORE_COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: "overallScore", label: "Overall" },
+  { key: "keywordScore", label: "Keywords" },
+  { key: "metaTagsScore", label: "Meta Tags" },
+  { key: "contentScore", label: "Content" },
+  { key: "internalLinksScore", label: "Internal Links" },
+  { key: "imageScore", label: "Images" },
+  { key: "schemaMarkupScore", label: "Schema" },
+  { key: "mobileScore", label: "Mobile" },
+  { key: "pageSpeedScore", label: "Page Speed" },
+  { key: "userEngagementScore", label: "Engagement" },
+  { key: "eatScore", label: "E-E-A-T" }
+];
+
+const MAX_URLS = 200;
+const POLL_INTERVAL = 5000;
+
+function scoreClass(score: number | null) {
+  if (score === null) return "text-gray-400";
+  if (score >= 80) return "text-green-600 font-semibold";
+  if (score >= 60) return "text-amber-600 font-semibold";
+  return "text-red-600 font-semibold";
+}
+
+// Pages without a score always go last, whichever the direction
+function sortRows(rows: AnalysisBatchRow[], sortBy: SortKey, direction: "asc" | "desc") {
+  const order = direction === "asc" ? 1 : -1;
+
+  return [...rows].sort((a, b) => {
+    if (sortBy === "url") return a.url.localeCompare(b.url) * order;
+
+    const scoreA = a[sortBy];
+    const scoreB = b[sortBy];
+    if (scoreA === null || scoreB === null) {
+      return scoreA === scoreB ? 0 : scoreA === null ? 1 : -1;
+    }
+    return (scoreA - scoreB) * order || a.url.localeCompare(b.url);
+  });
+}
+
+function NewBatchForm({ onCreated }: { onCreated: (batch: AnalysisBatch) => void }) {
+  const { toast } = useToast();
+  const [source, setSource] = useState<"urls" | "sitemap">("urls");
+  const [name, setName] = useState("");
+  const [urlList, setUrlList] = useState("");
+  const [sitemapUrl, setSitemapUrl] = useState("");
+
+  const urls = urlList.split(/\s+/).map(url => url.trim()).filter(Boolean);
+
+  const createBatch = useMutation({
+    mutationFn: () => apiRequest<AnalysisBatch>("/api/analysis-batches", {
+      method: "POST",
+      data: {
+        name: name || undefined,
+        ...(source === "urls" ? { urls } : { sitemapUrl })
+      }
+    }),
+    onSuccess: (batch) => {
+      setUrlList("");
+      setSitemapUrl("");
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis-batches"] });
+      toast({ title: "Batch started", description: `${batch.totalPages} pages are being analyzed.` });
+      onCreated(batch);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not start batch", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(event) => {
+        event.preventDefault();
+        createBatch.mutate();
+      }}
+    >
+      <Tabs value={source} onValueChange={(value) => setSource(value as "urls" | "sitemap")}>
+        <TabsList>
+          <TabsTrigger value="urls">URL list</TabsTrigger>
+          <TabsTrigger value="sitemap">Sitemap</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div>
+        <label className="text-xs text-gray-500">Name (optional)</label>
+        <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="Service landing pages" />
+      </div>
+
+      {source === "urls" ? (
+        <div>
+          <label className="text-xs text-gray-500">URLs, one per line ({urls.length}/{MAX_URLS})</label>
+          <Textarea
+            value={urlList}
+            onChange={(event) => setUrlList(event.target.value)}
+            placeholder={"https://example.com/ac-repair\nhttps://example.com/heating"}
+            rows={8}
+          />
+        </div>
+      ) : (
+        <div>
+          <label className="text-xs text-gray-500">Sitemap URL (the first {MAX_URLS} pages are analyzed)</label>
+          <Input
+            value={sitemapUrl}
+            onChange={(event) => setSitemapUrl(event.target.value)}
+            placeholder="https://example.com/sitemap.xml"
+            type="url"
+          />
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        disabled={createBatch.isPending || (source === "urls" ? urls.length === 0 || urls.length > MAX_URLS : !sitemapUrl)}
+      >
+        {createBatch.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+        Analyze pages
+      </Button>
+    </form>
+  );
+}
+
+function BatchReport({ batchId }: { batchId: number }) {
+  const { toast } = useToast();
+  const [sortBy, setSortBy] = useState<SortKey>("overallScore");
+  const [direction, setDirection] = useState<"asc" | "desc">("desc");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: report, isLoading } = useQuery<AnalysisBatchReport>({
+    queryKey: ["/api/analysis-batches", batchId],
+    queryFn: () => apiRequest<AnalysisBatchReport>(`/api/analysis-batches/${batchId}`),
+    // Poll until every page has been analyzed
+    refetchInterval: (query) => query.state.data?.batch.status === "completed" ? false : POLL_INTERVAL
+  });
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortBy) {
+      setDirection(direction === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(key);
+      setDirection(key === "url" ? "asc" : "desc");
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const baseURL = import.meta.env.VITE_API_BASE_URL || "";
+      const response = await axios.get(
+        `${baseURL}/api/analysis-batches/${batchId}/export?sort=${sortBy}&direction=${direction}`,
+        { responseType: "blob", withCredentials: true }
+      );
+
+      const url = window.URL.createObjectURL(response.data);
+      const a = document.createElement("a");
+      a.style.display = "none";
+      a.href = url;
+      a.download = `batch-analysis-${batchId}-${new Date().toISOString().split("T")[0]}.xlsx`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error("Error exporting batch analysis:", error);
+      toast({ title: "Export failed", description: "Could not export the comparison table.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (isLoading || !report) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const { batch } = report;
+  const processed = batch.completedPages + batch.failedPages;
+  const rows = sortRows(report.rows, sortBy, direction);
+
+  const SortIcon = ({ column }: { column: SortKey }) => column !== sortBy ? null : direction === "asc"
+    ? <ArrowUp className="h-3 w-3 inline ml-1" />
+    : <ArrowDown className="h-3 w-3 inline ml-1" />;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>{batch.name || batch.sitemapUrl || `Batch ${batch.id}`}</CardTitle>
+          <CardDescription>
+            {processed} of {batch.totalPages} pages analyzed
+            {batch.failedPages > 0 && ` · ${batch.failedPages} failed`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting || batch.completedPages === 0}>
+          {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Export to Excel
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {batch.status !== "completed" && (
+          <Progress value={batch.totalPages ? (processed / batch.totalPages) * 100 : 0} />
+        )}
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="cursor-pointer whitespace-nowrap" onClick={() => toggleSort("url")}>
+                  URL<SortIcon column="url" />
+                </TableHead>
+                {SCORE_COLUMNS.map(column => (
+                  <TableHead
+                    key={column.key}
+                    className="cursor-pointer text-center whitespace-nowrap"
+                    onClick={() => toggleSort(column.key)}
+                  >
+                    {column.label}<SortIcon column={column.key} />
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.url}>
+                  <TableCell className="max-w-xs">
+                    {row.status === "completed" ? (
+                      <Link href={`/results?url=${encodeURIComponent(row.url)}`} className="text-primary hover:underline truncate block">
+                        {row.url}
+                      </Link>
+                    ) : (
+                      <span className="truncate block text-gray-600">{row.url}</span>
+                    )}
+                    {row.status === "pending" && <Badge variant="outline" className="mt-1">Pending</Badge>}
+                    {row.status === "processing" && <Badge variant="outline" className="mt-1">Analyzing</Badge>}
+                    {row.status === "failed" && (
+                      <Badge variant="destructive" className="mt-1" title={row.error || undefined}>Failed</Badge>
+                    )}
+                  </TableCell>
+                  {SCORE_COLUMNS.map(column => (
+                    <TableCell key={column.key} className={`text-center ${scoreClass(row[column.key] as number | null)}`}>
+                      {row[column.key] ?? "–"}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Batch analysis: score a list of landing pages or a sitemap's pages at once
+ * and compare their overall and category scores side by side
+ */
+export default function BatchAnalysisPage() {
+  const [selectedBatchId, setSelectedBatchId] = useState<number | null>(null);
+
+  const { data: batches, isLoading } = useQuery<AnalysisBatch[]>({
+    queryKey: ["/api/analysis-batches"],
+    queryFn: () => apiRequest<AnalysisBatch[]>("/api/analysis-batches")
+  });
+
+  const removeBatch = useMutation({
+    mutationFn: (batchId: number) => apiRequest(`/api/analysis-batches/${batchId}`, { method: "DELETE" }),
+    onSuccess: (_data, batchId) => {
+      if (selectedBatchId === batchId) setSelectedBatchId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis-batches"] });
+    }
+  });
+
+  const activeBatchId = selectedBatchId ?? batches?.[0]?.id ?? null;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold flex items-center">
+        <Layers className="h-6 w-6 mr-2 text-primary" />
+        Batch Analysis
+      </h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Analyze pages</CardTitle>
+            <CardDescription>Each page gets the same SEO analysis as a single URL, up to {MAX_URLS} pages per batch.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <NewBatchForm onCreated={(batch) => setSelectedBatchId(batch.id)} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent batches</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : !batches || batches.length === 0 ? (
+              <p className="text-sm text-gray-500">No batches yet.</p>
+            ) : (
+              <div className="divide-y">
+                {batches.map(batch => (
+                  <div
+                    key={batch.id}
+                    className={`py-2 flex items-center justify-between cursor-pointer ${activeBatchId === batch.id ? "bg-gray-50" : ""}`}
+                    onClick={() => setSelectedBatchId(batch.id)}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{batch.name || batch.sitemapUrl || `Batch ${batch.id}`}</p>
+                      <p className="text-xs text-gray-500">
+                        {batch.totalPages} pages · {new Date(batch.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      {batch.status !== "completed" && <Badge variant="outline">Running</Badge>}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Delete batch"
+                        disabled={batch.status !== "completed"}
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          removeBatch.mutate(batch.id);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {activeBatchId !== null && <BatchReport batchId={activeBatchId} />}
+    </div>
+  );
+}
@@ -0,0 +1,427 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import axios from "axios";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  AuditStatus,
+  CompetitorComparison,
+  CompetitorComparisonDetail,
+  CompetitorGapReport
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Download, Loader2, Play, Swords, Trash2 } from "lucide-react";
+
+type ComparisonListItem = Omit<CompetitorComparison, "report">;
+
+const MAX_COMPETITORS = 3;
+const POLL_INTERVAL = 10000;
+
+const STATUS_CLASSES: Record<AuditStatus, string> = {
+  "OK": "bg-green-50 text-green-700",
+  "OFI": "bg-amber-50 text-amber-700",
+  "Priority OFI": "bg-red-50 text-red-700",
+  "N/A": "text-gray-400"
+};
+
+function displayHost(url: string) {
+  return url.replace(/^https?:\/\//, "").replace(/\/$/, "");
+}
+
+function NewComparisonForm({ onCreated }: { onCreated: (comparison: CompetitorComparison) => void }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [competitorUrls, setCompetitorUrls] = useState<string[]>(["", "", ""]);
+  const [ignoreRobots, setIgnoreRobots] = useState(false);
+
+  const competitors = competitorUrls.map(competitor => competitor.trim()).filter(Boolean);
+
+  const createComparison = useMutation({
+    mutationFn: () => apiRequest<CompetitorComparison>("/api/competitor-gap", {
+      method: "POST",
+      data: { name: name || undefined, url, competitorUrls: competitors, ignoreRobots }
+    }),
+    onSuccess: (comparison) => {
+      setName("");
+      setUrl("");
+      setCompetitorUrls(["", "", ""]);
+      setIgnoreRobots(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/competitor-gap"] });
+      toast({ title: "Audits started", description: `${comparison.competitorAuditIds.length + 1} sites are being audited.` });
+      onCreated(comparison);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not start the comparison", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(event) => {
+        event.preventDefault();
+        createComparison.mutate();
+      }}
+    >
+      <div>
+        <label className="text-xs text-gray-500">Name (optional)</label>
+        <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="Dallas HVAC market" />
+      </div>
+      <div>
+        <label className="text-xs text-gray-500">Your site</label>
+        <Input value={url} onChange={(event) => setUrl(event.target.value)} placeholder="https://example.com" />
+      </div>
+      <div className="space-y-2">
+        <label className="text-xs text-gray-500">Competitors (up to {MAX_COMPETITORS})</label>
+        {competitorUrls.map((competitor, index) => (
+          <Input
+            key={index}
+            value={competitor}
+            onChange={(event) => setCompetitorUrls(competitorUrls.map((value, i) => i === index ? event.target.value : value))}
+            placeholder={`https://competitor-${index + 1}.com`}
+          />
+        ))}
+      </div>
+      <label className="flex items-start space-x-2 text-sm">
+        <Checkbox checked={ignoreRobots} onCheckedChange={(checked) => setIgnoreRobots(checked === true)} />
+        <span>
+          Ignore robots.txt on your site
+          <span className="block text-xs text-gray-500">Only if the site owner authorized it. Competitors' robots.txt is always respected.</span>
+        </span>
+      </label>
+      <Button type="submit" disabled={createComparison.isPending || !url.trim() || competitors.length === 0}>
+        {createComparison.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+        Run comparative audit
+      </Button>
+    </form>
+  );
+}
+
+function Scorecard({ report, sites }: { report: CompetitorGapReport; sites: CompetitorComparisonDetail["sites"] }) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Metric</TableHead>
+            {sites.map(site => (
+              <TableHead key={site.auditId} className="text-center whitespace-nowrap">
+                {displayHost(site.url)}{!site.isCompetitor && " (you)"}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.scorecard.map(row => {
+            const known = row.values.filter((value): value is number => value !== null);
+            const best = known.length > 1 ? (row.higherIsBetter ? Math.max(...known) : Math.min(...known)) : null;
+            return (
+              <TableRow key={row.metric}>
+                <TableCell className="font-medium">{row.metric}</TableCell>
+                {row.values.map((value, index) => (
+                  <TableCell
+                    key={index}
+                    className={`text-center ${value !== null && value === best ? "text-green-600 font-semibold" : ""}`}
+                  >
+                    {value ?? "–"}
+                  </TableCell>
+                ))}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function FactorComparison({ report, sites }: { report: CompetitorGapReport; sites: CompetitorComparisonDetail["sites"] }) {
+  const [gapsOnly, setGapsOnly] = useState(true);
+  const factors = gapsOnly ? report.factors.filter(factor => factor.gap) : report.factors;
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 text-sm">
+        <Switch checked={gapsOnly} onCheckedChange={setGapsOnly} />
+        <span>Only factors where a competitor passes and you don't</span>
+      </label>
+      {factors.length === 0 ? (
+        <p className="text-sm text-gray-500">No factor gaps: no competitor passes a factor your site fails.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Factor</TableHead>
+                {sites.map(site => (
+                  <TableHead key={site.auditId} className="text-center whitespace-nowrap">{displayHost(site.url)}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {factors.map(factor => (
+                <TableRow key={`${factor.category}|${factor.name}`}>
+                  <TableCell className="text-xs text-gray-500 whitespace-nowrap">{factor.category}</TableCell>
+                  <TableCell>
+                    {factor.name}
+                    {factor.importance === "High" && <Badge variant="outline" className="ml-2">High</Badge>}
+                  </TableCell>
+                  {factor.statuses.map((status, index) => (
+                    <TableCell
+                      key={index}
+                      className={`text-center text-xs whitespace-nowrap ${status ? STATUS_CLASSES[status] : "text-gray-400"}`}
+                      title={factor.passRates[index] !== null ? `${factor.passRates[index]}% of pages pass` : undefined}
+                    >
+                      {status ?? "Not checked"}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ContentDepth({ report, sites }: { report: CompetitorGapReport; sites: CompetitorComparisonDetail["sites"] }) {
+  if (report.contentDepth.length === 0) {
+    return <p className="text-sm text-gray-500">No service or location pages were found to compare.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Page</TableHead>
+            {sites.map(site => (
+              <TableHead key={site.auditId} className="text-center whitespace-nowrap">{displayHost(site.url)}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.contentDepth.map((row, rowIndex) => (
+            <TableRow key={rowIndex} className={row.behind ? "bg-red-50/50" : undefined}>
+              <TableCell>
+                <span className="capitalize">{row.topic}</span>
+                <span className="block text-xs text-gray-500">{row.pageType === "service" ? "Service page" : "Location page"}</span>
+              </TableCell>
+              {row.pages.map((page, index) => (
+                <TableCell key={index} className="text-center whitespace-nowrap">
+                  {page ? (
+                    <a href={page.pageUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline" title={page.pageTitle}>
+                      {page.wordCount.toLocaleString()} words
+                    </a>
+                  ) : (
+                    <span className={index === 0 ? "text-red-600 text-xs" : "text-gray-400"}>{index === 0 ? "No page" : "–"}</span>
+                  )}
+                  {page && <span className="block text-xs text-gray-500">{page.headingCount} headings · {page.imageCount} images</span>}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function ComparisonReport({ comparisonId }: { comparisonId: number }) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: detail, isLoading } = useQuery<CompetitorComparisonDetail>({
+    queryKey: ["/api/competitor-gap", comparisonId],
+    queryFn: () => apiRequest<CompetitorComparisonDetail>(`/api/competitor-gap/${comparisonId}`),
+    // Poll until every site's audit has finished
+    refetchInterval: (query) => query.state.data && query.state.data.comparison.status !== "pending" ? false : POLL_INTERVAL
+  });
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const baseURL = import.meta.env.VITE_API_BASE_URL || "";
+      const response = await axios.get(`${baseURL}/api/competitor-gap/${comparisonId}/export`, {
+        responseType: "blob",
+        withCredentials: true
+      });
+
+      const url = window.URL.createObjectURL(response.data);
+      const a = document.createElement("a");
+      a.style.display = "none";
+      a.href = url;
+      a.download = `competitor-gap-${comparisonId}-${new Date().toISOString().split("T")[0]}.xlsx`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error("Error exporting competitor comparison:", error);
+      toast({ title: "Export failed", description: "Could not export the comparison.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (isLoading || !detail) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const { comparison, sites, report } = detail;
+  const gapCount = report?.factors.filter(factor => factor.gap).length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>{comparison.name || `${displayHost(sites[0]?.url || "")} vs competitors`}</CardTitle>
+          <CardDescription>
+            {comparison.status === "pending" && "Audits running"}
+            {comparison.status === "failed" && "Could not compare: your site's audit or every competitor's audit failed"}
+            {comparison.status === "completed" && `${gapCount} factors where a competitor is ahead`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting || !report}>
+          {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Export to Excel
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {sites.map(site => (
+            <Link key={site.auditId} href={`/rival-audit-results?id=${site.auditId}&url=${encodeURIComponent(site.url)}`}>
+              <Badge
+                variant={site.status === "failed" || site.status === "cancelled" ? "destructive" : site.status === "completed" ? "secondary" : "outline"}
+                className="cursor-pointer"
+                title={site.errorMessage || undefined}
+              >
+                {displayHost(site.url)}{!site.isCompetitor && " (you)"}: {site.status === "completed" ? `${site.pagesAnalyzed} pages` : site.status}
+              </Badge>
+            </Link>
+          ))}
+        </div>
+
+        {report && (
+          <Tabs defaultValue="scorecard">
+            <TabsList>
+              <TabsTrigger value="scorecard">Scorecard</TabsTrigger>
+              <TabsTrigger value="factors">Factor gaps ({gapCount})</TabsTrigger>
+              <TabsTrigger value="content">Content depth</TabsTrigger>
+            </TabsList>
+            <TabsContent value="scorecard"><Scorecard report={report} sites={sites} /></TabsContent>
+            <TabsContent value="factors"><FactorComparison report={report} sites={sites} /></TabsContent>
+            <TabsContent value="content"><ContentDepth report={report} sites={sites} /></TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Competitor gap analysis: the enhanced audit run on a site and up to three
+ * rivals, compared factor by factor and page by page
+ */
+export default function CompetitorGapPage() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: comparisons, isLoading } = useQuery<ComparisonListItem[]>({
+    queryKey: ["/api/competitor-gap"],
+    queryFn: () => apiRequest<ComparisonListItem[]>("/api/competitor-gap")
+  });
+
+  const removeComparison = useMutation({
+    mutationFn: (comparisonId: number) => apiRequest(`/api/competitor-gap/${comparisonId}`, { method: "DELETE" }),
+    onSuccess: (_data, comparisonId) => {
+      if (selectedId === comparisonId) setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/competitor-gap"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete the comparison", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const activeId = selectedId ?? comparisons?.[0]?.id ?? null;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold flex items-center">
+        <Swords className="h-6 w-6 mr-2 text-primary" />
+        Competitor Gap Analysis
+      </h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Audit against competitors</CardTitle>
+            <CardDescription>Every site gets the full enhanced audit; the comparison is ready once all audits finish.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <NewComparisonForm onCreated={(comparison) => setSelectedId(comparison.id)} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent comparisons</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : !comparisons || comparisons.length === 0 ? (
+              <p className="text-sm text-gray-500">No comparisons yet.</p>
+            ) : (
+              <div className="divide-y">
+                {comparisons.map(comparison => (
+                  <div
+                    key={comparison.id}
+                    className={`py-2 flex items-center justify-between cursor-pointer ${activeId === comparison.id ? "bg-gray-50" : ""}`}
+                    onClick={() => setSelectedId(comparison.id)}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{comparison.name || `Comparison ${comparison.id}`}</p>
+                      <p className="text-xs text-gray-500">
+                        {comparison.competitorAuditIds.length} competitors · {new Date(comparison.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      {comparison.status === "pending" && <Badge variant="outline">Running</Badge>}
+                      {comparison.status === "failed" && <Badge variant="destructive">Failed</Badge>}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Delete comparison"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          removeComparison.mutate(comparison.id);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {activeId !== null && <ComparisonReport comparisonId={activeId} />}
+    </div>
+  );
+}
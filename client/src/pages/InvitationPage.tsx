@@ -0,0 +1,91 @@
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { WorkspaceRole, WorkspaceSummary } from "@shared/schema";
+import { WORKSPACE_ROLE_LABELS } from "@shared/constants/workspace-roles";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/auth/useAuth";
+import { useWorkspaces } from "@/hooks/api/useWorkspaces";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Building2, Loader2 } from "lucide-react";
+
+interface InvitationPreview {
+  workspaceName: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+}
+
+/**
+ * Accept an email invitation to a workspace
+ */
+export default function InvitationPage() {
+  const params = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: isAuthLoading, login } = useAuth();
+  const { switchWorkspace } = useWorkspaces();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationPreview, Error>({
+    queryKey: ["/api/workspaces/invitations", params.token],
+    queryFn: () => apiRequest<InvitationPreview>(`/api/workspaces/invitations/${params.token}`),
+    enabled: isAuthenticated,
+    retry: false
+  });
+
+  const accept = useMutation({
+    mutationFn: () => apiRequest<WorkspaceSummary>(`/api/workspaces/invitations/${params.token}/accept`, { method: "POST" }),
+    onSuccess: (workspace) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      switchWorkspace(workspace.id);
+      toast({ title: `Welcome to ${workspace.name}`, description: "You are now working in this workspace." });
+      navigate("/");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not accept the invitation", description: getApiErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="max-w-lg mx-auto">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Building2 className="h-5 w-5 mr-2 text-primary" />
+            Workspace invitation
+          </CardTitle>
+          {invitation && (
+            <CardDescription>
+              You have been invited to join <strong>{invitation.workspaceName}</strong> as{" "}
+              {WORKSPACE_ROLE_LABELS[invitation.role].toLowerCase()}.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isAuthLoading || (isAuthenticated && isLoading) ? (
+            <Skeleton className="h-16 w-full" />
+          ) : !isAuthenticated ? (
+            <>
+              <p className="text-sm text-gray-600">Sign in with the email address the invitation was sent to, then open this link again.</p>
+              <Button onClick={() => login()}>Sign in</Button>
+            </>
+          ) : error ? (
+            <p className="text-sm text-red-600">{getApiErrorMessage(error)}</p>
+          ) : invitation && (
+            <>
+              <p className="text-sm text-gray-600">
+                The invitation was sent to {invitation.email} and expires on {new Date(invitation.expiresAt).toLocaleDateString()}.
+              </p>
+              <Button onClick={() => accept.mutate()} disabled={accept.isPending}>
+                {accept.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Join workspace
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  KeywordDataResult,
+  KeywordDataSource,
+  KeywordDatasetImportResult,
+  KeywordSuggestionsResult
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/auth/useAuth";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Database, Loader2, Search, Upload } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+interface DatasetSummary {
+  provider: string;
+  locations: Array<{ location: string; keywords: number; lastImportedAt: string | null }>;
+}
+
+const LOCATIONS = ["us", "gb", "ca", "au", "nz", "ie"] as const;
+
+const SOURCE_LABELS: Record<KeywordDataSource, string> = {
+  dataforseo: "DataForSEO",
+  dataset: "Imported dataset",
+  simulated: "Estimated"
+};
+
+function SourceBadge({ source, isEstimated }: { source: KeywordDataSource; isEstimated: boolean }) {
+  return (
+    <Badge
+      variant={isEstimated ? "outline" : "secondary"}
+      className={isEstimated ? "border-amber-400 text-amber-700" : undefined}
+      title={isEstimated ? "Simulated numbers: no keyword data is available for this keyword" : undefined}
+    >
+      {SOURCE_LABELS[source]}
+    </Badge>
+  );
+}
+
+// Keyword Planner exports CSV as UTF-16 with a byte order mark
+async function readExportFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer.slice(0, 2));
+  const encoding = bytes[0] === 0xff && bytes[1] === 0xfe ? "utf-16le"
+    : bytes[0] === 0xfe && bytes[1] === 0xff ? "utf-16be"
+    : "utf-8";
+  return new TextDecoder(encoding).decode(buffer);
+}
+
+function DatasetImportCard({ summary }: { summary?: DatasetSummary }) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [location, setLocation] = useState<string>("us");
+
+  const importDataset = useMutation({
+    mutationFn: async () => apiRequest<KeywordDatasetImportResult>("/api/keyword-data/dataset/import", {
+      method: "POST",
+      data: {
+        format: file!.name.toLowerCase().endsWith(".json") ? "json" : "csv",
+        content: await readExportFile(file!),
+        location
+      }
+    }),
+    onSuccess: (result) => {
+      setFile(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/keyword-data/dataset"] });
+      toast({
+        title: "Keywords imported",
+        description: `${result.imported} keywords imported, ${result.totalKeywords} in the ${location.toUpperCase()} dataset.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Database className="h-5 w-5 mr-2 text-primary" />
+          Keyword dataset
+        </CardTitle>
+        <CardDescription>
+          Import a Keyword Planner CSV export, or a JSON array of keywords with searchVolume, competition, cpc and monthlySearches.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {summary && summary.locations.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {summary.locations.map(entry => (
+              <Badge key={entry.location} variant="outline">
+                {entry.location.toUpperCase()}: {entry.keywords.toLocaleString()} keywords
+              </Badge>
+            ))}
+          </div>
+        )}
+        <form
+          className="flex flex-wrap items-end gap-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            importDataset.mutate();
+          }}
+        >
+          <div>
+            <label className="text-xs text-gray-500">Export file</label>
+            <Input type="file" accept=".csv,.tsv,.json" onChange={(event) => setFile(event.target.files?.[0] || null)} />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500">Location</label>
+            <Select value={location} onValueChange={setLocation}>
+              <SelectTrigger className="w-24"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {LOCATIONS.map(code => <SelectItem key={code} value={code}>{code.toUpperCase()}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={!file || importDataset.isPending}>
+            {importDataset.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Import
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Keyword research: search volume, CPC, competition and related keywords,
+ * each labelled with the data source so simulated numbers stand out
+ */
+export default function KeywordResearchPage() {
+  const { user } = useAuth();
+  const isAdmin = (user as { role?: string } | undefined)?.role === "admin";
+  const [input, setInput] = useState("");
+  const [location, setLocation] = useState<string>("us");
+  const [search, setSearch] = useState<{ keyword: string; location: string } | null>(null);
+
+  const query = search ? `keyword=${encodeURIComponent(search.keyword)}&location=${search.location}` : "";
+
+  const { data: keywordData, isLoading: keywordLoading } = useQuery<KeywordDataResult>({
+    queryKey: [`/api/keyword-data/keywords?${query}`],
+    queryFn: () => apiRequest<KeywordDataResult>(`/api/keyword-data/keywords?${query}`),
+    enabled: !!search
+  });
+
+  const { data: suggestions, isLoading: suggestionsLoading } = useQuery<KeywordSuggestionsResult>({
+    queryKey: [`/api/keyword-data/suggestions?${query}`],
+    queryFn: () => apiRequest<KeywordSuggestionsResult>(`/api/keyword-data/suggestions?${query}`),
+    enabled: !!search
+  });
+
+  const { data: summary } = useQuery<DatasetSummary>({
+    queryKey: ["/api/keyword-data/dataset"],
+    queryFn: () => apiRequest<DatasetSummary>("/api/keyword-data/dataset")
+  });
+
+  const trend = (keywordData?.trend || []).map((volume, index) => ({ month: index + 1, volume }));
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold flex items-center">
+        <Search className="h-6 w-6 mr-2 text-primary" />
+        Keyword Research
+      </h1>
+
+      <Card>
+        <CardContent className="pt-6">
+          <form
+            className="flex flex-wrap items-end gap-3"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (input.trim()) setSearch({ keyword: input.trim(), location });
+            }}
+          >
+            <div className="flex-1 min-w-[16rem]">
+              <label className="text-xs text-gray-500">Keyword</label>
+              <Input value={input} onChange={(event) => setInput(event.target.value)} placeholder="ac repair dallas" />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">Location</label>
+              <Select value={location} onValueChange={setLocation}>
+                <SelectTrigger className="w-24"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {LOCATIONS.map(code => <SelectItem key={code} value={code}>{code.toUpperCase()}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={!input.trim()}>
+              <Search className="h-4 w-4 mr-2" />
+              Research
+            </Button>
+          </form>
+          {summary && (
+            <p className="text-xs text-gray-500 mt-3">
+              Keyword data source: {summary.provider === "dataforseo" ? "DataForSEO" : "imported keyword dataset"}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {search && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <CardTitle>{search.keyword}</CardTitle>
+              {keywordData && <SourceBadge source={keywordData.source} isEstimated={keywordData.isEstimated} />}
+            </CardHeader>
+            <CardContent>
+              {keywordLoading || !keywordData ? (
+                <Skeleton className="h-48 w-full" />
+              ) : (
+                <div className="space-y-4">
+                  {keywordData.error && <p className="text-sm text-red-600">{keywordData.error}</p>}
+                  <div className="grid grid-cols-3 gap-3 text-center">
+                    <div>
+                      <p className="text-xs text-gray-500">Monthly searches</p>
+                      <p className="text-xl font-semibold">{keywordData.searchVolume?.toLocaleString() ?? "–"}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">CPC</p>
+                      <p className="text-xl font-semibold">{keywordData.cpc ?? "–"}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">Competition</p>
+                      <p className="text-xl font-semibold">{keywordData.competition ?? "–"}</p>
+                    </div>
+                  </div>
+                  {trend.length > 0 && (
+                    <div className="h-40 w-full">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={trend} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
+                          <XAxis dataKey="month" tick={{ fontSize: 11 }} axisLine={false} />
+                          <YAxis tick={{ fontSize: 11 }} axisLine={false} tickLine={false} />
+                          <Tooltip formatter={(value) => [value, "Searches"]} />
+                          <Bar dataKey="volume" fill={keywordData.isEstimated ? "#fbbf24" : "#52bb7a"} />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <CardTitle>Related keywords</CardTitle>
+              {suggestions && <SourceBadge source={suggestions.source} isEstimated={suggestions.isEstimated} />}
+            </CardHeader>
+            <CardContent>
+              {suggestionsLoading || !suggestions ? (
+                <Skeleton className="h-48 w-full" />
+              ) : suggestions.suggestions.length === 0 ? (
+                <p className="text-sm text-gray-500">No related keywords found.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Keyword</TableHead>
+                      <TableHead className="text-right">Searches</TableHead>
+                      <TableHead className="text-right">CPC</TableHead>
+                      <TableHead className="text-right">Difficulty</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {suggestions.suggestions.map(suggestion => (
+                      <TableRow key={suggestion.keyword}>
+                        <TableCell>{suggestion.keyword}</TableCell>
+                        <TableCell className="text-right">{suggestion.searchVolume?.toLocaleString() ?? "–"}</TableCell>
+                        <TableCell className="text-right">{suggestion.cpc ?? "–"}</TableCell>
+                        <TableCell className="text-right">{suggestion.difficulty ?? "–"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {isAdmin && <DatasetImportCard summary={summary} />}
+    </div>
+  );
+}
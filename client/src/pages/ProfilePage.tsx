@@ -2,6 +2,9 @@ import { useState } from "react";
 import { useAuth } from "@/hooks/auth/useAuth";
 import { ProfileForm } from "@/components/features/auth/ProfileForm";
 import { ChangePasswordForm } from "@/components/features/auth/ChangePasswordForm";
+import { ActiveSessions } from "@/components/features/auth/ActiveSessions";
+import { TwoFactorSettings } from "@/components/features/auth/TwoFactorSettings";
+import { ApiKeys } from "@/components/features/auth/ApiKeys";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
@@ -361,6 +364,39 @@ export default function ProfilePage(props: { params?: { tab?: string } }) {
               <ChangePasswordForm />
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                Protect your account with a code from an authenticator app when you sign in.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TwoFactorSettings />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Active Sessions</CardTitle>
+              <CardDescription>
+                Devices signed in to your account. Sign out any you don't recognize.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ActiveSessions />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>API Keys</CardTitle>
+              <CardDescription>
+                Let scripts start audits, run analyses and download exports on your behalf.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ApiKeys />
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,538 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Keyword, RankHistory, RankPosition, SerpFeatureReportRow, SerpFeatureType } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ArrowDownRight,
+  ArrowUpRight,
+  ChevronLeft,
+  Loader2,
+  MapPin,
+  Minus,
+  Plus,
+  RefreshCw,
+  Star,
+  Trash2,
+  TrendingUp
+} from "lucide-react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from "recharts";
+
+type TrackedKeyword = Keyword & { rankings: RankPosition[] };
+
+const DEVICES = ["desktop", "mobile"] as const;
+const LOCATIONS = ["us", "gb", "ca", "au", "nz", "ie"] as const;
+const HISTORY_DAYS = [30, 90, 180, 365];
+const LINE_COLORS = ["#52bb7a", "#3b82f6", "#f59e0b", "#ef4444", "#8b5cf6", "#14b8a6"];
+const SERP_FEATURE_LABELS: Record<SerpFeatureType, string> = {
+  localPack: "Map pack",
+  featuredSnippet: "Featured snippet",
+  peopleAlsoAsk: "People Also Ask",
+  reviews: "Review stars",
+  sitelinks: "Site links"
+};
+
+function RankChange({ change }: { change: number | null }) {
+  if (change === null || change === 0) {
+    return <Minus className="h-3 w-3 text-gray-400" />;
+  }
+
+  const Icon = change > 0 ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span className={`flex items-center text-xs font-medium ${change > 0 ? "text-green-600" : "text-red-600"}`}>
+      <Icon className="h-3 w-3 mr-0.5" />
+      {Math.abs(change)}
+    </span>
+  );
+}
+
+function FeatureOwners({ ownership }: { ownership: SerpFeatureReportRow["features"][number] }) {
+  if (!ownership.present) {
+    return <span className="text-xs text-gray-400">–</span>;
+  }
+
+  if (!ownership.ownedByClient && ownership.competitors.length === 0) {
+    return <span className="text-xs text-gray-500">Other sites</span>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {ownership.ownedByClient && <Badge className="bg-green-600 hover:bg-green-600">You</Badge>}
+      {ownership.competitors.map(domain => <Badge key={domain} variant="outline">{domain}</Badge>)}
+    </div>
+  );
+}
+
+// Which SERP features the client holds versus its competitors, per keyword, device and location
+function SerpFeatureTable({ rows }: { rows: SerpFeatureReportRow[] }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">SERP features are recorded from the next rank check.</p>;
+  }
+
+  const features = Object.keys(SERP_FEATURE_LABELS) as SerpFeatureType[];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-xs text-gray-500">
+            <th className="py-2 pr-4 font-medium">Keyword</th>
+            {features.map(feature => <th key={feature} className="py-2 pr-4 font-medium">{SERP_FEATURE_LABELS[feature]}</th>)}
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {rows.map(row => (
+            <tr key={`${row.keywordId}-${row.device}-${row.location}`}>
+              <td className="py-2 pr-4">
+                <p className="font-medium">{row.keyword}</p>
+                <p className="text-xs text-gray-500">{row.device} · {row.location.toUpperCase()} · {row.rankDate}</p>
+              </td>
+              {features.map(feature => (
+                <td key={feature} className="py-2 pr-4 align-top">
+                  <FeatureOwners ownership={row.features.find(entry => entry.feature === feature)!} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Map pack listings and People Also Ask questions from a keyword's latest checks
+function SerpFeatureDetails({ rows }: { rows: SerpFeatureReportRow[] }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">No SERP features recorded for this keyword yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {rows.map(row => (
+        <div key={`${row.device}-${row.location}`} className="grid gap-4 md:grid-cols-2">
+          <div>
+            <h4 className="text-sm font-medium mb-2">
+              Map pack · {row.device} · {row.location.toUpperCase()}
+              {row.localRank !== null && <span className="ml-2 text-green-600">You are #{row.localRank}</span>}
+            </h4>
+            {row.localPack.length === 0 ? (
+              <p className="text-xs text-gray-500">No map pack on this results page.</p>
+            ) : (
+              <ol className="space-y-1 text-sm">
+                {row.localPack.map(listing => (
+                  <li key={`${listing.position}-${listing.title}`} className="flex items-center justify-between">
+                    <span>
+                      {listing.position}. {listing.title}
+                      {listing.domain && <span className="text-xs text-gray-500 ml-1">({listing.domain})</span>}
+                    </span>
+                    {listing.rating !== null && (
+                      <span className="flex items-center text-xs text-gray-600">
+                        <Star className="h-3 w-3 mr-0.5 text-amber-500" />
+                        {listing.rating.toFixed(1)}{listing.reviewCount !== null && ` (${listing.reviewCount})`}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+          <div>
+            <h4 className="text-sm font-medium mb-2">People Also Ask</h4>
+            {row.peopleAlsoAsk.length === 0 ? (
+              <p className="text-xs text-gray-500">No questions on this results page.</p>
+            ) : (
+              <ul className="list-disc pl-5 space-y-1 text-sm">
+                {row.peopleAlsoAsk.map(question => <li key={question}>{question}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AddKeywordForm({ projectId }: { projectId: number }) {
+  const { toast } = useToast();
+  const [keyword, setKeyword] = useState("");
+  const [targetUrl, setTargetUrl] = useState("");
+  const [competitors, setCompetitors] = useState("");
+  const [devices, setDevices] = useState<string[]>(["desktop"]);
+  const [location, setLocation] = useState<string>("us");
+
+  const addKeyword = useMutation({
+    mutationFn: () => apiRequest<Keyword>("/api/rank-tracker/keywords", {
+      method: "POST",
+      data: {
+        projectId,
+        keyword,
+        targetUrl,
+        devices,
+        locations: [location],
+        competitorDomains: competitors.split(",").map(domain => domain.trim()).filter(Boolean)
+      }
+    }),
+    onSuccess: () => {
+      setKeyword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/rank-tracker/keywords", projectId] });
+      toast({ title: "Keyword added", description: "Its position is checked on the next daily run." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add keyword", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const toggleDevice = (device: string) => {
+    setDevices(current => current.includes(device)
+      ? current.filter(entry => entry !== device)
+      : [...current, device]);
+  };
+
+  return (
+    <form
+      className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end"
+      onSubmit={(event) => {
+        event.preventDefault();
+        addKeyword.mutate();
+      }}
+    >
+      <div className="md:col-span-2">
+        <label className="text-xs text-gray-500">Keyword</label>
+        <Input value={keyword} onChange={(event) => setKeyword(event.target.value)} placeholder="ac repair dallas" required />
+      </div>
+      <div>
+        <label className="text-xs text-gray-500">Domain or URL</label>
+        <Input value={targetUrl} onChange={(event) => setTargetUrl(event.target.value)} placeholder="example.com" required />
+      </div>
+      <div>
+        <label className="text-xs text-gray-500">Competitors (comma separated)</label>
+        <Input value={competitors} onChange={(event) => setCompetitors(event.target.value)} placeholder="rival.com" />
+      </div>
+      <div className="flex space-x-2">
+        <div className="flex-1">
+          <label className="text-xs text-gray-500">Location</label>
+          <Select value={location} onValueChange={setLocation}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {LOCATIONS.map(code => <SelectItem key={code} value={code}>{code.toUpperCase()}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-500">Devices</label>
+          <div className="flex space-x-1">
+            {DEVICES.map(device => (
+              <Button
+                key={device}
+                type="button"
+                size="sm"
+                variant={devices.includes(device) ? "default" : "outline"}
+                onClick={() => toggleDevice(device)}
+              >
+                {device}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <Button type="submit" disabled={addKeyword.isPending || devices.length === 0}>
+        {addKeyword.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+        Track keyword
+      </Button>
+    </form>
+  );
+}
+
+function PositionChart({ keywordId }: { keywordId: number }) {
+  const [days, setDays] = useState(30);
+  const [device, setDevice] = useState<string>("desktop");
+  const [location, setLocation] = useState<string>("us");
+
+  const historyUrl = `/api/rank-tracker/keywords/${keywordId}/history?days=${days}&device=${device}&location=${location}`;
+  const { data: history, isLoading } = useQuery<RankHistory>({
+    queryKey: [historyUrl],
+    queryFn: () => apiRequest<RankHistory>(historyUrl)
+  });
+
+  const series = history?.series[0];
+
+  // One row per day with the tracked site and each competitor as columns
+  const rows = new Map<string, Record<string, string | number | null>>();
+  const getRow = (date: string) => {
+    if (!rows.has(date)) rows.set(date, { date });
+    return rows.get(date)!;
+  };
+  series?.points.forEach(point => {
+    getRow(point.date).you = point.rank;
+    getRow(point.date).mapPack = point.localRank;
+  });
+  const inMapPack = series?.points.some(point => point.localRank !== null);
+  series?.competitors.forEach(competitor => {
+    competitor.points.forEach(point => { getRow(point.date)[competitor.domain] = point.rank; });
+  });
+  const data = Array.from(rows.values()).sort((a, b) => String(a.date).localeCompare(String(b.date)));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Select value={device} onValueChange={setDevice}>
+          <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {DEVICES.map(entry => <SelectItem key={entry} value={entry}>{entry}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={location} onValueChange={setLocation}>
+          <SelectTrigger className="w-24"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {LOCATIONS.map(code => <SelectItem key={code} value={code}>{code.toUpperCase()}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value))}>
+          <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {HISTORY_DAYS.map(entry => <SelectItem key={entry} value={String(entry)}>Last {entry} days</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : data.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">
+          No rank checks for this device and location in the selected period.
+        </p>
+      ) : (
+        <div className="h-64 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
+              <XAxis dataKey="date" tick={{ fontSize: 12 }} axisLine={false} />
+              {/* Position 1 at the top */}
+              <YAxis reversed domain={[1, "dataMax"]} allowDecimals={false} tick={{ fontSize: 12 }} axisLine={false} tickLine={false} />
+              <Tooltip formatter={(value) => [value ?? "Not in top 100"]} />
+              <Legend />
+              <Line type="monotone" dataKey="you" name="Tracked site" stroke={LINE_COLORS[0]} strokeWidth={2} connectNulls={false} />
+              {inMapPack && (
+                <Line type="monotone" dataKey="mapPack" name="Tracked site (map pack)" stroke={LINE_COLORS[0]} strokeDasharray="1 3" connectNulls={false} />
+              )}
+              {series?.competitors.map((competitor, index) => (
+                <Line
+                  key={competitor.domain}
+                  type="monotone"
+                  dataKey={competitor.domain}
+                  stroke={LINE_COLORS[(index + 1) % LINE_COLORS.length]}
+                  strokeDasharray="4 2"
+                  connectNulls={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Rank tracker for a project: tracked keywords with their latest positions,
+ * a position chart per keyword, device and location, and the SERP features
+ * the client holds versus its competitors
+ */
+export default function RankTrackerPage() {
+  const params = useParams<{ id: string }>();
+  const projectId = parseInt(params.id || "");
+  const { toast } = useToast();
+  const [selectedKeywordId, setSelectedKeywordId] = useState<number | null>(null);
+
+  const { data: keywords, isLoading } = useQuery<TrackedKeyword[]>({
+    queryKey: ["/api/rank-tracker/keywords", projectId],
+    queryFn: () => apiRequest<TrackedKeyword[]>(`/api/rank-tracker/keywords?projectId=${projectId}`),
+    enabled: !isNaN(projectId)
+  });
+
+  const { data: serpFeatures, isLoading: isLoadingSerpFeatures } = useQuery<SerpFeatureReportRow[]>({
+    queryKey: ["/api/rank-tracker/serp-features", projectId],
+    queryFn: () => apiRequest<SerpFeatureReportRow[]>(`/api/rank-tracker/serp-features?projectId=${projectId}`),
+    enabled: !isNaN(projectId)
+  });
+
+  const invalidateKeywords = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/rank-tracker/keywords", projectId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/rank-tracker/serp-features", projectId] });
+  };
+
+  const checkNow = useMutation({
+    mutationFn: (keywordId: number) => apiRequest(`/api/rank-tracker/keywords/${keywordId}/check`, { method: "POST" }),
+    onSuccess: (_data, keywordId) => {
+      invalidateKeywords();
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/rank-tracker/keywords/${keywordId}/history`)
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rank check failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const removeKeyword = useMutation({
+    mutationFn: (keywordId: number) => apiRequest(`/api/rank-tracker/keywords/${keywordId}`, { method: "DELETE" }),
+    onSuccess: (_data, keywordId) => {
+      if (selectedKeywordId === keywordId) setSelectedKeywordId(null);
+      invalidateKeywords();
+    }
+  });
+
+  const selectedKeyword = keywords?.find(keyword => keyword.id === selectedKeywordId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        <Link href={`/project/${params.id}`}>
+          <Button variant="ghost" size="sm">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Project
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold flex items-center">
+          <TrendingUp className="h-6 w-6 mr-2 text-primary" />
+          Rank Tracker
+        </h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Track a keyword</CardTitle>
+          <CardDescription>Google positions are checked once a day for each device and location.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AddKeywordForm projectId={projectId} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tracked keywords</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !keywords || keywords.length === 0 ? (
+            <p className="text-sm text-gray-500">No keywords tracked for this project yet.</p>
+          ) : (
+            <div className="divide-y">
+              {keywords.map(keyword => (
+                <div
+                  key={keyword.id}
+                  className={`py-3 flex items-center justify-between cursor-pointer ${selectedKeywordId === keyword.id ? "bg-gray-50" : ""}`}
+                  onClick={() => setSelectedKeywordId(keyword.id)}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{keyword.keyword}</span>
+                      {!keyword.isActive && <Badge variant="outline">Paused</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">{keyword.targetUrl}</p>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    {keyword.rankings.length === 0 ? (
+                      <span className="text-xs text-gray-400">Not checked yet</span>
+                    ) : keyword.rankings.map(ranking => (
+                      <div key={`${ranking.device}-${ranking.location}`} className="text-center">
+                        <p className="text-xs text-gray-500">{ranking.device} · {ranking.location.toUpperCase()}</p>
+                        <div className="flex items-center justify-center space-x-1">
+                          <span className="text-lg font-semibold">{ranking.rank ?? "–"}</span>
+                          <RankChange change={ranking.change} />
+                        </div>
+                        {ranking.localRank !== null && (
+                          <p className="flex items-center justify-center text-xs text-green-600" title="Map pack position">
+                            <MapPin className="h-3 w-3 mr-0.5" />
+                            {ranking.localRank}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Check now"
+                      disabled={checkNow.isPending && checkNow.variables === keyword.id}
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        checkNow.mutate(keyword.id);
+                      }}
+                    >
+                      <RefreshCw className={`h-4 w-4 ${checkNow.isPending && checkNow.variables === keyword.id ? "animate-spin" : ""}`} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Stop tracking"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        removeKeyword.mutate(keyword.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedKeyword && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Position history: {selectedKeyword.keyword}</CardTitle>
+            <CardDescription>Lower is better; gaps are days the site was not in the top 100.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PositionChart keywordId={selectedKeyword.id} />
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedKeyword && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Search features: {selectedKeyword.keyword}</CardTitle>
+            <CardDescription>From the latest check on each device and location.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SerpFeatureDetails rows={(serpFeatures || []).filter(row => row.keywordId === selectedKeyword.id)} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>SERP features</CardTitle>
+          <CardDescription>
+            Features on each keyword's latest results page, and whether your site or a tracked competitor holds them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingSerpFeatures ? <Skeleton className="h-32 w-full" /> : <SerpFeatureTable rows={serpFeatures || []} />}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
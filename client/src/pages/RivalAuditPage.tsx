@@ -5,7 +5,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Globe, Scan, FileSearch, Clipboard, CheckCircle2, FileText, Upload } from "lucide-react";
 import { useToast } from "@/hooks/ui/use-toast";
@@ -14,6 +15,7 @@ import { apiRequest } from "@/lib/queryClient";
 // Form schema for URL submission
 const rivalAuditFormSchema = z.object({
   url: z.string().url("Please enter a valid URL"),
+  ignoreRobots: z.boolean(),
 });
 
 type RivalAuditFormValues = z.infer<typeof rivalAuditFormSchema>;
@@ -27,6 +29,7 @@ export default function RivalAuditPage() {
     resolver: zodResolver(rivalAuditFormSchema),
     defaultValues: {
       url: "",
+      ignoreRobots: false,
     },
   });
 
@@ -37,7 +40,7 @@ export default function RivalAuditPage() {
       // All audits now use enhanced functionality by default
       const response = await apiRequest("/api/rival-audit/enhanced", {
         method: "POST",
-        data: { url: values.url },
+        data: { url: values.url, ignoreRobots: values.ignoreRobots },
       });
       
       // Redirect to results page with audit ID, URL, and enhanced flag for refresh capability
@@ -97,6 +100,27 @@ export default function RivalAuditPage() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="ignoreRobots"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>Ignore robots.txt</FormLabel>
+                        <FormDescription>
+                          Only check this if the site owner has authorized the audit. Otherwise pages blocked by robots.txt are skipped and listed in the crawl stats.
+                        </FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
                 
                 <Button 
                   type="submit" 
@@ -13,6 +13,7 @@ import {
 } from "@/components/ui/accordion";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/ui/use-toast";
+import { useAuditProgress } from "@/hooks/api/useAuditProgress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { 
@@ -45,6 +46,7 @@ import axios from "axios";
 // Import components for the Rival Audit
 import RivalAuditSection from "@/components/features/audit/RivalAuditSection";
 import RivalAuditSummary from "@/components/features/audit/RivalAuditSummary";
+import RivalAuditChanges from "@/components/features/audit/RivalAuditChanges";
 import RivalAuditDashboard from "@/components/features/audit/RivalAuditDashboard";
 import RivalAuditRecommendations from "@/components/features/audit/RivalAuditRecommendations";
 import RivalAuditLoadingScreen from "@/components/features/audit/RivalAuditLoadingScreen";
@@ -139,6 +141,21 @@ export default function RivalAuditResultsPage() {
     },
   });
 
+  // Stream live crawl progress until the audit results are available
+  const liveProgress = useAuditProgress(auditId, {
+    enabled: !audit,
+    onComplete: () => {
+      refetch();
+    },
+    onCancelled: (message) => {
+      toast({
+        title: "Audit cancelled",
+        description: message,
+        variant: "destructive"
+      });
+    }
+  });
+
   // Listen for status updates from the RivalAuditSection components
   useEffect(() => {
     function handleAuditItemUpdated(event: CustomEvent) {
@@ -521,7 +538,7 @@ export default function RivalAuditResultsPage() {
     return (
       <div className="container mx-auto py-8 px-4 sm:px-6">
         {websiteUrl ? (
-          <RivalAuditLoadingScreen url={websiteUrl} />
+          <RivalAuditLoadingScreen url={websiteUrl} liveProgress={isLoading ? liveProgress : undefined} />
         ) : (
           <div className="max-w-6xl mx-auto">
             <div className="mb-6 flex flex-col">
@@ -553,7 +570,7 @@ export default function RivalAuditResultsPage() {
       return (
         <div className="container mx-auto py-8 px-4 sm:px-6">
           {websiteUrl ? (
-            <RivalAuditLoadingScreen url={websiteUrl} />
+            <RivalAuditLoadingScreen url={websiteUrl} liveProgress={liveProgress} />
           ) : (
             <div className="max-w-6xl mx-auto text-center">
               <h1 className="text-3xl font-bold mb-2">Processing Audit...</h1>
@@ -700,6 +717,12 @@ export default function RivalAuditResultsPage() {
           </div>
         </div>
         
+        {auditId && (
+          <div className="mb-6">
+            <RivalAuditChanges auditId={auditId} />
+          </div>
+        )}
+        
         {viewMode === "dashboard" ? (
           <RivalAuditDashboard 
             audit={audit} 
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CtrOpportunity, SearchPerformanceImportResult, SearchPerformanceSummary } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart3, ChevronLeft, Loader2, Trash2, Upload } from "lucide-react";
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function ImportCard({ projectId, summary }: { projectId: number; summary?: SearchPerformanceSummary }) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+
+  const invalidate = () => queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/search-performance")
+  });
+
+  const importPerformance = useMutation({
+    mutationFn: async () => apiRequest<SearchPerformanceImportResult>("/api/search-performance/import", {
+      method: "POST",
+      data: {
+        projectId,
+        format: file!.name.toLowerCase().endsWith(".json") ? "json" : "csv",
+        content: await file!.text()
+      }
+    }),
+    onSuccess: (result) => {
+      setFile(null);
+      invalidate();
+      toast({
+        title: "Performance imported",
+        description: `${result.imported} rows for ${result.pages} pages imported${result.skipped > 0 ? `, ${result.skipped} skipped` : ""}. Audits of this project now weigh pages by impressions.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const removeImport = useMutation({
+    mutationFn: () => apiRequest(`/api/search-performance?projectId=${projectId}`, { method: "DELETE" }),
+    onSuccess: invalidate
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import performance</CardTitle>
+        <CardDescription>
+          A Search Console performance export as CSV with page, query, clicks, impressions, CTR and position columns,
+          or JSON rows with the same fields. Each import replaces the previous one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {summary?.importedAt && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline">{summary.pages.toLocaleString()} pages</Badge>
+            <Badge variant="outline">{summary.impressions.toLocaleString()} impressions</Badge>
+            <Badge variant="outline">{summary.clicks.toLocaleString()} clicks</Badge>
+            <span className="text-xs text-gray-500">Imported {new Date(summary.importedAt).toLocaleString()}</span>
+            <Button variant="ghost" size="sm" onClick={() => removeImport.mutate()} disabled={removeImport.isPending}>
+              <Trash2 className="h-4 w-4 mr-1 text-red-500" />
+              Remove
+            </Button>
+          </div>
+        )}
+        <form
+          className="flex flex-wrap items-end gap-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            importPerformance.mutate();
+          }}
+        >
+          <div>
+            <label className="text-xs text-gray-500">Export file</label>
+            <Input type="file" accept=".csv,.tsv,.json" onChange={(event) => setFile(event.target.files?.[0] || null)} />
+          </div>
+          <Button type="submit" disabled={!file || importPerformance.isPending}>
+            {importPerformance.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Import
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function OpportunityTable({ opportunities }: { opportunities: CtrOpportunity[] }) {
+  if (opportunities.length === 0) {
+    return <p className="text-sm text-gray-500">No pages with high impressions and a low CTR for their position.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Page</TableHead>
+          <TableHead className="text-right">Impressions</TableHead>
+          <TableHead className="text-right">CTR</TableHead>
+          <TableHead className="text-right">Usual CTR</TableHead>
+          <TableHead className="text-right">Position</TableHead>
+          <TableHead className="text-right">Missed clicks</TableHead>
+          <TableHead>Top queries</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {opportunities.map(opportunity => (
+          <TableRow key={opportunity.page}>
+            <TableCell className="max-w-xs">
+              <p className="font-medium truncate">{opportunity.pageTitle || "Not crawled by the latest audit"}</p>
+              <a href={opportunity.page} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 truncate block">
+                {opportunity.page}
+              </a>
+            </TableCell>
+            <TableCell className="text-right">{opportunity.impressions.toLocaleString()}</TableCell>
+            <TableCell className="text-right text-red-600">{formatPercent(opportunity.ctr)}</TableCell>
+            <TableCell className="text-right">{formatPercent(opportunity.expectedCtr)}</TableCell>
+            <TableCell className="text-right">{opportunity.position.toFixed(1)}</TableCell>
+            <TableCell className="text-right font-semibold">{opportunity.missedClicks.toLocaleString()}</TableCell>
+            <TableCell>
+              <div className="flex flex-wrap gap-1">
+                {opportunity.topQueries.slice(0, 3).map(query => (
+                  <Badge key={query.query} variant="secondary" className="font-normal">{query.query}</Badge>
+                ))}
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Search Console performance of a project: the import, and the pages with
+ * high impressions and low CTR whose titles and meta descriptions to rewrite
+ */
+export default function SearchPerformancePage() {
+  const params = useParams<{ id: string }>();
+  const projectId = parseInt(params.id || "");
+
+  const { data: summary } = useQuery<SearchPerformanceSummary>({
+    queryKey: ["/api/search-performance", projectId],
+    queryFn: () => apiRequest<SearchPerformanceSummary>(`/api/search-performance?projectId=${projectId}`),
+    enabled: !isNaN(projectId)
+  });
+
+  const { data: opportunities, isLoading } = useQuery<CtrOpportunity[]>({
+    queryKey: ["/api/search-performance/ctr-opportunities", projectId],
+    queryFn: () => apiRequest<CtrOpportunity[]>(`/api/search-performance/ctr-opportunities?projectId=${projectId}`),
+    enabled: !isNaN(projectId)
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        <Link href={`/project/${params.id}`}>
+          <Button variant="ghost" size="sm">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Project
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold flex items-center">
+          <BarChart3 className="h-6 w-6 mr-2 text-primary" />
+          Search Console Performance
+        </h1>
+      </div>
+
+      <ImportCard projectId={projectId} summary={summary} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Title and meta description rewrites</CardTitle>
+          <CardDescription>
+            Pages with at least 100 impressions and under half the usual CTR for their position, most missed clicks first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !summary?.importedAt ? (
+            <p className="text-sm text-gray-500">Import a performance export to find rewrite opportunities.</p>
+          ) : (
+            <OpportunityTable opportunities={opportunities || []} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
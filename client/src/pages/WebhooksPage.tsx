@@ -0,0 +1,374 @@
+import { Fragment, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { WebhookCreated, WebhookDeliverySummary, WebhookEvent, WebhookSummary } from "@shared/schema";
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_DESCRIPTIONS } from "@shared/constants/webhook-events";
+import { hasWorkspacePermission } from "@shared/constants/workspace-roles";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useWorkspaces } from "@/hooks/api/useWorkspaces";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Copy, Loader2, Plus, RotateCw, Trash2, Webhook } from "lucide-react";
+
+const WEBHOOKS_QUERY_KEY = ["/api/webhooks"];
+
+const DELIVERY_STATUS_VARIANTS: Record<WebhookDeliverySummary["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  succeeded: "default",
+  pending: "secondary",
+  delivering: "secondary",
+  failed: "destructive"
+};
+
+function EventCheckboxes({ events, onChange }: { events: WebhookEvent[]; onChange: (events: WebhookEvent[]) => void }) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {WEBHOOK_EVENTS.map((event) => (
+        <div key={event} className="flex items-start space-x-2">
+          <Checkbox
+            id={`webhook-event-${event}`}
+            checked={events.includes(event)}
+            onCheckedChange={(checked) => onChange(checked === true ? [...events, event] : events.filter((e) => e !== event))}
+          />
+          <Label htmlFor={`webhook-event-${event}`} className="font-normal leading-tight">
+            <span className="font-mono">{event}</span>
+            <span className="block text-xs text-muted-foreground">{WEBHOOK_EVENT_DESCRIPTIONS[event]}</span>
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CreateWebhookCard() {
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["audit.completed", "audit.failed"]);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const createWebhook = useMutation({
+    mutationFn: () =>
+      apiRequest<WebhookCreated>("/api/webhooks", {
+        method: "POST",
+        data: { url, description: description.trim() || null, events }
+      }),
+    onSuccess: (created) => {
+      setUrl("");
+      setDescription("");
+      setSecret(created.secret);
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create the webhook", description: getApiErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New webhook</CardTitle>
+        <CardDescription>
+          We send a signed POST request to the URL whenever one of the selected events happens.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {secret && (
+          <div className="space-y-2 rounded-md border border-primary/40 bg-primary/5 p-4">
+            <p className="text-sm font-medium">Copy the signing secret now. It will not be shown again.</p>
+            <div className="rounded-md border bg-background p-3 font-mono text-sm break-all">{secret}</div>
+            <p className="text-xs text-muted-foreground">
+              Each request carries <span className="font-mono">X-Webhook-Signature: sha256=…</span>, the HMAC-SHA256 of
+              the <span className="font-mono">X-Webhook-Timestamp</span> header, a period and the request body, keyed with this secret.
+            </p>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(secret)}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy secret
+              </Button>
+              <Button size="sm" onClick={() => setSecret(null)}>Done</Button>
+            </div>
+          </div>
+        )}
+
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            createWebhook.mutate();
+          }}
+        >
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Payload URL</Label>
+              <Input id="webhook-url" value={url} onChange={(event) => setUrl(event.target.value)} placeholder="https://example.com/hooks/audits" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+                placeholder="Project board"
+                maxLength={200}
+              />
+            </div>
+          </div>
+          <EventCheckboxes events={events} onChange={setEvents} />
+          <Button type="submit" disabled={!url.trim() || events.length === 0 || createWebhook.isPending}>
+            {createWebhook.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add webhook
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DeliveryLog({ webhook, canManage }: { webhook: WebhookSummary; canManage: boolean }) {
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const queryKey = ["/api/webhooks", webhook.id, "deliveries"];
+
+  const { data: deliveries, isLoading } = useQuery<WebhookDeliverySummary[]>({
+    queryKey,
+    queryFn: () => apiRequest<WebhookDeliverySummary[]>(`/api/webhooks/${webhook.id}/deliveries`),
+    // Pending deliveries change as the worker retries them
+    refetchInterval: (query) =>
+      query.state.data?.some((delivery) => delivery.status === "pending" || delivery.status === "delivering") ? 10000 : false
+  });
+
+  const redeliver = useMutation({
+    mutationFn: (delivery: WebhookDeliverySummary) =>
+      apiRequest<WebhookDeliverySummary>(`/api/webhooks/${webhook.id}/deliveries/${delivery.id}/redeliver`, { method: "POST" }),
+    onSuccess: () => {
+      toast({ title: "Redelivery queued" });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not redeliver", description: getApiErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (!deliveries || deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No deliveries yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-8" />
+          <TableHead>Event</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Response</TableHead>
+          <TableHead>Attempts</TableHead>
+          <TableHead>Created</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map((delivery) => {
+          const isExpanded = expandedId === delivery.id;
+          return (
+            <Fragment key={delivery.id}>
+              <TableRow className="cursor-pointer" onClick={() => setExpandedId(isExpanded ? null : delivery.id)}>
+                <TableCell>
+                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {delivery.event}
+                  {delivery.redeliveryOf && <span className="ml-2 text-muted-foreground">redelivery of #{delivery.redeliveryOf}</span>}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={DELIVERY_STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {delivery.responseStatus ?? "—"}
+                  {delivery.durationMs !== null && <span className="ml-1 text-xs text-muted-foreground">({delivery.durationMs} ms)</span>}
+                </TableCell>
+                <TableCell className="text-sm">{delivery.attempts}</TableCell>
+                <TableCell className="text-sm">{new Date(delivery.createdAt).toLocaleString()}</TableCell>
+                <TableCell className="text-right">
+                  {canManage && (delivery.status === "succeeded" || delivery.status === "failed") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        redeliver.mutate(delivery);
+                      }}
+                      disabled={redeliver.isPending && redeliver.variables?.id === delivery.id}
+                    >
+                      <RotateCw className="h-4 w-4 mr-1" />
+                      Redeliver
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+              {isExpanded && (
+                <TableRow>
+                  <TableCell colSpan={7} className="space-y-3 bg-muted/30">
+                    {delivery.errorMessage && <p className="text-sm text-destructive">{delivery.errorMessage}</p>}
+                    {delivery.nextAttemptAt && (
+                      <p className="text-sm text-muted-foreground">Next attempt {new Date(delivery.nextAttemptAt).toLocaleString()}</p>
+                    )}
+                    <div>
+                      <p className="text-xs font-medium mb-1">Payload</p>
+                      <pre className="max-h-64 overflow-auto rounded-md border bg-background p-3 text-xs">
+                        {JSON.stringify(delivery.payload, null, 2)}
+                      </pre>
+                    </div>
+                    {delivery.responseBody && (
+                      <div>
+                        <p className="text-xs font-medium mb-1">Response</p>
+                        <pre className="max-h-40 overflow-auto rounded-md border bg-background p-3 text-xs whitespace-pre-wrap">
+                          {delivery.responseBody}
+                        </pre>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              )}
+            </Fragment>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+function WebhookCard({ webhook, canManage }: { webhook: WebhookSummary; canManage: boolean }) {
+  const { toast } = useToast();
+  const [showDeliveries, setShowDeliveries] = useState(false);
+  const [isEditingEvents, setIsEditingEvents] = useState(false);
+  const [events, setEvents] = useState<WebhookEvent[]>(webhook.events);
+
+  const updateWebhook = useMutation({
+    mutationFn: (data: { isActive?: boolean; events?: WebhookEvent[] }) =>
+      apiRequest<WebhookSummary>(`/api/webhooks/${webhook.id}`, { method: "PATCH", data }),
+    onSuccess: () => {
+      setIsEditingEvents(false);
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update the webhook", description: getApiErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  const deleteWebhook = useMutation({
+    mutationFn: () => apiRequest(`/api/webhooks/${webhook.id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      toast({ title: "Webhook deleted" });
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete the webhook", description: getApiErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1 min-w-0">
+          <CardTitle className="text-base font-mono break-all">{webhook.url}</CardTitle>
+          {webhook.description && <CardDescription>{webhook.description}</CardDescription>}
+        </div>
+        {canManage && (
+          <div className="flex items-center space-x-3 shrink-0 ml-4">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`webhook-active-${webhook.id}`}
+                checked={webhook.isActive}
+                onCheckedChange={(isActive) => updateWebhook.mutate({ isActive })}
+                disabled={updateWebhook.isPending}
+              />
+              <Label htmlFor={`webhook-active-${webhook.id}`} className="text-sm">Active</Label>
+            </div>
+            <Button variant="ghost" size="icon" onClick={() => deleteWebhook.mutate()} disabled={deleteWebhook.isPending}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isEditingEvents ? (
+          <div className="space-y-3">
+            <EventCheckboxes events={events} onChange={setEvents} />
+            <div className="flex space-x-2">
+              <Button size="sm" onClick={() => updateWebhook.mutate({ events })} disabled={events.length === 0 || updateWebhook.isPending}>
+                Save events
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => { setEvents(webhook.events); setIsEditingEvents(false); }}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-1">
+            {webhook.events.map((event) => (
+              <Badge key={event} variant="outline" className="font-mono text-xs">{event}</Badge>
+            ))}
+            {canManage && (
+              <Button variant="link" size="sm" onClick={() => setIsEditingEvents(true)}>Change events</Button>
+            )}
+          </div>
+        )}
+
+        <Button variant="outline" size="sm" onClick={() => setShowDeliveries(!showDeliveries)}>
+          {showDeliveries ? <ChevronDown className="h-4 w-4 mr-2" /> : <ChevronRight className="h-4 w-4 mr-2" />}
+          Recent deliveries
+        </Button>
+        {showDeliveries && <DeliveryLog webhook={webhook} canManage={canManage} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Webhooks of the active workspace, or the user's personal webhooks, and
+ * the log of what was sent to them
+ */
+export default function WebhooksPage() {
+  const { activeWorkspace } = useWorkspaces();
+  const canManage = !activeWorkspace || hasWorkspacePermission(activeWorkspace.role, "write");
+
+  const { data: webhooks, isLoading } = useQuery<WebhookSummary[]>({
+    queryKey: WEBHOOKS_QUERY_KEY,
+    queryFn: () => apiRequest<WebhookSummary[]>("/api/webhooks")
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center">
+          <Webhook className="h-6 w-6 mr-2 text-primary" />
+          Webhooks
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          {activeWorkspace
+            ? `Notified of audits and analyses in ${activeWorkspace.name}.`
+            : "Notified of your personal audits and analyses."}
+        </p>
+      </div>
+
+      {canManage && <CreateWebhookCard />}
+
+      {isLoading ? (
+        <Skeleton className="h-40 w-full" />
+      ) : !webhooks || webhooks.length === 0 ? (
+        <p className="text-sm text-gray-500">No webhooks yet.</p>
+      ) : (
+        webhooks.map((webhook) => <WebhookCard key={webhook.id} webhook={webhook} canManage={canManage} />)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  WorkspaceInvitationDetails,
+  WorkspaceInvitationResult,
+  WorkspaceMemberDetails,
+  WorkspaceRole,
+  WorkspaceSummary
+} from "@shared/schema";
+import { hasWorkspacePermission, WORKSPACE_ROLE_LABELS } from "@shared/constants/workspace-roles";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/auth/useAuth";
+import { useWorkspaces } from "@/hooks/api/useWorkspaces";
+import { useToast } from "@/hooks/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Building2, Copy, Loader2, Mail, Plus, Trash2, UserMinus } from "lucide-react";
+
+const ROLES: WorkspaceRole[] = ["owner", "editor", "viewer", "client"];
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "Manages members and invitations, and everything editors can do",
+  editor: "Creates and changes projects, audits, keywords and backlink profiles",
+  viewer: "Sees everything in the workspace without changing it",
+  client: "Sees the workspace's projects and audits, but not its members"
+};
+
+function CreateWorkspaceCard() {
+  const { toast } = useToast();
+  const { switchWorkspace } = useWorkspaces();
+  const [name, setName] = useState("");
+
+  const createWorkspace = useMutation({
+    mutationFn: () => apiRequest<WorkspaceSummary>("/api/workspaces", { method: "POST", data: { name } }),
+    onSuccess: (workspace) => {
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      switchWorkspace(workspace.id);
+      toast({ title: "Workspace created", description: `You are now working in ${workspace.name}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create the workspace", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New workspace</CardTitle>
+        <CardDescription>
+          Projects, audits, keywords and backlink profiles created in a workspace are shared with all of its members.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex flex-wrap items-end gap-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            createWorkspace.mutate();
+          }}
+        >
+          <Input className="max-w-sm" value={name} onChange={(event) => setName(event.target.value)} placeholder="Acme Agency" />
+          <Button type="submit" disabled={!name.trim() || createWorkspace.isPending}>
+            {createWorkspace.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Create
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function InviteForm({ workspaceId }: { workspaceId: number }) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("editor");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const invite = useMutation({
+    mutationFn: () => apiRequest<WorkspaceInvitationResult>(`/api/workspaces/${workspaceId}/invitations`, {
+      method: "POST",
+      data: { email, role }
+    }),
+    onSuccess: (result) => {
+      setEmail("");
+      setInviteUrl(result.emailed ? null : result.inviteUrl);
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces", workspaceId, "invitations"] });
+      toast({
+        title: "Invitation created",
+        description: result.emailed
+          ? `An invitation was emailed to ${result.invitation.email}.`
+          : "Email is not configured, so share the invitation link yourself."
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not invite", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="space-y-3">
+      <form
+        className="flex flex-wrap items-end gap-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          invite.mutate();
+        }}
+      >
+        <div>
+          <label className="text-xs text-gray-500">Email</label>
+          <Input type="email" value={email} onChange={(event) => setEmail(event.target.value)} placeholder="client@example.com" />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500">Role</label>
+          <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLES.filter(option => option !== "owner").map(option => (
+                <SelectItem key={option} value={option}>{WORKSPACE_ROLE_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" disabled={!email || invite.isPending}>
+          {invite.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+          Invite
+        </Button>
+      </form>
+      <p className="text-xs text-gray-500">{ROLE_DESCRIPTIONS[role]}.</p>
+      {inviteUrl && (
+        <div className="flex items-center gap-2 rounded-md border bg-gray-50 p-2">
+          <code className="text-xs truncate flex-1">{inviteUrl}</code>
+          <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(inviteUrl)}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MembersCard({ workspace }: { workspace: WorkspaceSummary }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const currentUserId = (user as { id?: string } | undefined)?.id;
+  const canManage = hasWorkspacePermission(workspace.role, "manage");
+
+  const { data: members, isLoading } = useQuery<WorkspaceMemberDetails[]>({
+    queryKey: ["/api/workspaces", workspace.id, "members"],
+    queryFn: () => apiRequest<WorkspaceMemberDetails[]>(`/api/workspaces/${workspace.id}/members`)
+  });
+
+  const { data: invitations } = useQuery<WorkspaceInvitationDetails[]>({
+    queryKey: ["/api/workspaces", workspace.id, "invitations"],
+    queryFn: () => apiRequest<WorkspaceInvitationDetails[]>(`/api/workspaces/${workspace.id}/invitations`),
+    enabled: canManage
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Could not update the workspace", description: error.message, variant: "destructive" });
+  };
+
+  const changeRole = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: WorkspaceRole }) =>
+      apiRequest(`/api/workspaces/${workspace.id}/members/${userId}`, { method: "PATCH", data: { role } }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] }),
+    onError
+  });
+
+  const removeMember = useMutation({
+    mutationFn: (userId: string) => apiRequest(`/api/workspaces/${workspace.id}/members/${userId}`, { method: "DELETE" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] }),
+    onError
+  });
+
+  const revokeInvitation = useMutation({
+    mutationFn: (invitationId: number) =>
+      apiRequest(`/api/workspaces/${workspace.id}/invitations/${invitationId}`, { method: "DELETE" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/workspaces", workspace.id, "invitations"] }),
+    onError
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Building2 className="h-5 w-5 mr-2 text-primary" />
+          {workspace.name}
+        </CardTitle>
+        <CardDescription>
+          You are {workspace.role === "owner" || workspace.role === "editor" ? "an" : "a"} {WORKSPACE_ROLE_LABELS[workspace.role].toLowerCase()} of this workspace.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!hasWorkspacePermission(workspace.role, "members:read") ? (
+          <p className="text-sm text-gray-500">{ROLE_DESCRIPTIONS.client}.</p>
+        ) : isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(members || []).map(member => (
+                <TableRow key={member.userId}>
+                  <TableCell>
+                    <p className="font-medium">{member.name || member.username || member.email}</p>
+                    {member.email && <p className="text-xs text-gray-500">{member.email}</p>}
+                  </TableCell>
+                  <TableCell>
+                    {canManage ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => changeRole.mutate({ userId: member.userId, role: role as WorkspaceRole })}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">{WORKSPACE_ROLE_LABELS[member.role]}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500">{new Date(member.joinedAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right">
+                    {(canManage || member.userId === currentUserId) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeMember.mutate(member.userId)}
+                        disabled={removeMember.isPending}
+                      >
+                        <UserMinus className="h-4 w-4 mr-1 text-red-500" />
+                        {member.userId === currentUserId ? "Leave" : "Remove"}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {canManage && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold">Invite by email</h3>
+            <InviteForm workspaceId={workspace.id} />
+            {invitations && invitations.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pending invitation</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map(invitation => (
+                    <TableRow key={invitation.id}>
+                      <TableCell>{invitation.email}</TableCell>
+                      <TableCell><Badge variant="outline">{WORKSPACE_ROLE_LABELS[invitation.role]}</Badge></TableCell>
+                      <TableCell className="text-sm text-gray-500">{new Date(invitation.expiresAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => revokeInvitation.mutate(invitation.id)}>
+                          <Trash2 className="h-4 w-4 mr-1 text-red-500" />
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * The user's workspaces: their members and roles, and email invitations
+ */
+export default function WorkspacesPage() {
+  const { workspaces, isLoading } = useWorkspaces();
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold flex items-center">
+        <Building2 className="h-6 w-6 mr-2 text-primary" />
+        Workspaces
+      </h1>
+
+      <CreateWorkspaceCard />
+
+      {isLoading ? (
+        <Skeleton className="h-40 w-full" />
+      ) : workspaces.length === 0 ? (
+        <p className="text-sm text-gray-500">You do not belong to any workspace yet.</p>
+      ) : (
+        workspaces.map(workspace => <MembersCard key={workspace.id} workspace={workspace} />)
+      )}
+    </div>
+  );
+}
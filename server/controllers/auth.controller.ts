@@ -1,28 +1,58 @@
 import { Request, Response } from 'express';
 import { authService } from '../services/auth/auth.service';
-import { loginUserSchema, insertUserSchema } from '../../shared/schema';
+import { EnhancedAuthService } from '../services/auth/enhanced-auth.service';
+import { loginUserSchema, insertUserSchema, twoFactorCodeSchema, twoFactorLoginSchema } from '../../shared/schema';
 import { ZodError } from 'zod';
 import { fromZodError } from 'zod-validation-error';
 
+// Statuses for the errors of the two-factor steps
+const TWO_FACTOR_ERROR_STATUS: Record<string, number> = {
+  'Invalid or expired pre-auth token': 401,
+  'Invalid two-factor code': 401,
+  'Too many failed attempts': 429,
+  'Two-factor authentication has not been set up': 409,
+  'Two-factor authentication is already enabled': 409,
+  'Two-factor authentication is not enabled': 409
+};
+
 export class AuthController {
+  private static setTokenCookie(res: Response, token: string) {
+    res.cookie('token', token, {
+      httpOnly: true,
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict'
+    });
+  }
+
+  private static sendTwoFactorError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+
+    const status = error instanceof Error ? TWO_FACTOR_ERROR_STATUS[error.message] : undefined;
+    if (status && error instanceof Error) {
+      return res.status(status).json({ message: error.message });
+    }
+
+    console.error(`${fallback}:`, error);
+    return res.status(500).json({ message: fallback });
+  }
+
   static async register(req: Request, res: Response) {
     try {
       // Validate request body
       const userData = insertUserSchema.parse(req.body);
       
       // Register the user
-      const { user, token } = await authService.register(userData);
+      const { user, token } = await authService.register(userData, req);
       
       // Remove password from response
       const { password, ...userWithoutPassword } = user;
       
       // Set token as HTTP-only cookie
-      res.cookie('token', token, {
-        httpOnly: true,
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict'
-      });
+      AuthController.setTokenCookie(res, token);
       
       // Return user data and token
       return res.status(201).json({
@@ -54,18 +84,25 @@ export class AuthController {
       const credentials = loginUserSchema.parse(req.body);
       
       // Login the user
-      const { user, token } = await authService.login(credentials.username, credentials.password);
+      const result = await authService.login(credentials.username, credentials.password, req);
+
+      // The second factor is still to come, and the session with it
+      if ('preAuthToken' in result) {
+        return res.status(200).json({
+          message: result.twoFactor === 'verify'
+            ? 'Enter the code from your authenticator app'
+            : 'Set up two-factor authentication to continue',
+          twoFactor: result.twoFactor,
+          preAuthToken: result.preAuthToken
+        });
+      }
+      const { user, token } = result;
       
       // Remove password from response
       const { password, ...userWithoutPassword } = user;
       
       // Set token as HTTP-only cookie
-      res.cookie('token', token, {
-        httpOnly: true,
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict'
-      });
+      AuthController.setTokenCookie(res, token);
       
       // Return user data and token
       return res.status(200).json({
@@ -88,7 +125,147 @@ export class AuthController {
     }
   }
 
-  static logout(req: Request, res: Response) {
+  /**
+   * POST /api/auth/login/2fa
+   * Finish a login with an authenticator or backup code
+   */
+  static async verifyTwoFactorLogin(req: Request, res: Response) {
+    try {
+      const { preAuthToken, code } = twoFactorLoginSchema.parse(req.body);
+      const { user, token } = await authService.completeTwoFactorLogin(preAuthToken, code, req);
+      const { password, ...userWithoutPassword } = user;
+
+      AuthController.setTokenCookie(res, token);
+
+      return res.status(200).json({
+        message: 'Login successful',
+        user: userWithoutPassword,
+        token
+      });
+    } catch (error) {
+      return AuthController.sendTwoFactorError(res, error, 'Two-factor login failed');
+    }
+  }
+
+  /**
+   * GET /api/auth/2fa
+   * Whether two-factor authentication is enabled or required for the user
+   */
+  static async getTwoFactorStatus(req: Request, res: Response) {
+    try {
+      const status = await EnhancedAuthService.getTwoFactorStatus(req.user!.id, req.user!.role);
+      return res.status(200).json(status);
+    } catch (error) {
+      return AuthController.sendTwoFactorError(res, error, 'Failed to get two-factor status');
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/setup
+   * Start enrolment with a new secret for the authenticator app. Accounts that
+   * must enrol before their first login send the pre-auth token instead.
+   */
+  static async setupTwoFactor(req: Request, res: Response) {
+    try {
+      const user = req.body?.preAuthToken
+        ? await authService.getUserFromPreAuthToken(String(req.body.preAuthToken), 'setup')
+        : req.user;
+      if (!user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const setup = await EnhancedAuthService.setupTwoFactor(user.id, user.email || user.username || user.id);
+      return res.status(200).json(setup);
+    } catch (error) {
+      return AuthController.sendTwoFactorError(res, error, 'Failed to set up two-factor authentication');
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/enable
+   * Verify the first code from the app and enable two-factor authentication,
+   * returning the backup codes. With a pre-auth token this also signs in.
+   */
+  static async enableTwoFactor(req: Request, res: Response) {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      if (req.body.preAuthToken) {
+        const { user, token, backupCodes } = await authService.completeTwoFactorEnrolment(String(req.body.preAuthToken), code, req);
+        const { password, ...userWithoutPassword } = user;
+
+        AuthController.setTokenCookie(res, token);
+
+        return res.status(200).json({
+          message: 'Two-factor authentication enabled',
+          backupCodes,
+          user: userWithoutPassword,
+          token
+        });
+      }
+
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const backupCodes = await EnhancedAuthService.enableTwoFactor(req.user, code, req);
+
+      return res.status(200).json({ message: 'Two-factor authentication enabled', backupCodes });
+    } catch (error) {
+      return AuthController.sendTwoFactorError(res, error, 'Failed to enable two-factor authentication');
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/disable
+   * Turn two-factor authentication off, confirmed with a current code
+   */
+  static async disableTwoFactor(req: Request, res: Response) {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      if (EnhancedAuthService.isTwoFactorRequired(req.user!.role)) {
+        return res.status(403).json({ message: 'Two-factor authentication is required for admin accounts' });
+      }
+      await EnhancedAuthService.verifySecondFactor(req.user!, req, () => EnhancedAuthService.verifyTwoFactorToken(req.user!.id, code));
+
+      await EnhancedAuthService.disableTwoFactor(req.user!.id);
+      return res.status(200).json({ message: 'Two-factor authentication disabled' });
+    } catch (error) {
+      return AuthController.sendTwoFactorError(res, error, 'Failed to disable two-factor authentication');
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/backup-codes
+   * Replace the backup codes, confirmed with a current code
+   */
+  static async regenerateBackupCodes(req: Request, res: Response) {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      await EnhancedAuthService.verifySecondFactor(req.user!, req, () => EnhancedAuthService.verifyTwoFactorToken(req.user!.id, code));
+
+      const backupCodes = await EnhancedAuthService.regenerateBackupCodes(req.user!.id);
+      return res.status(200).json({ message: 'Backup codes replaced', backupCodes });
+    } catch (error) {
+      return AuthController.sendTwoFactorError(res, error, 'Failed to replace backup codes');
+    }
+  }
+
+  static async logout(req: Request, res: Response) {
+    // End the session of the token, so it cannot be used again
+    const token = req.cookies?.token || req.headers.authorization?.split(' ')[1];
+    if (token) {
+      try {
+        const { sessionId } = authService.verifyToken(token);
+        if (sessionId) {
+          await EnhancedAuthService.revokeSession(sessionId);
+        }
+      } catch (error) {
+        // An invalid or expired token has no session left to end
+      }
+    }
+
     // Clear the token cookie
     res.clearCookie('token');
     
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
 import { fromZodError } from 'zod-validation-error';
+import { getAccessScope } from '../middleware/auth';
+import { AccessScope } from '../types/workspace';
 
 /**
  * Base controller class providing common functionality for all controllers
@@ -87,6 +89,13 @@ export abstract class BaseController {
     return (req as any).user?.id || (req as any).user?.userId;
   }
 
+  /**
+   * Records the request may see: the active workspace's, or the user's own
+   */
+  protected getAccessScope(req: Request): AccessScope {
+    return getAccessScope(req);
+  }
+
   /**
    * Check if user is admin
    */
@@ -1,4 +1,4 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { BaseController } from './base.controller';
 import { projectService } from '../services/business';
 import { insertProjectSchema, updateProjectSchema } from '../../shared/schema';
@@ -9,6 +9,33 @@ import { ZodError } from 'zod';
  */
 export class ProjectController extends BaseController {
 
+  /**
+   * Middleware for /api/projects/:id routes
+   * Only lets the project's owner, or members of its workspace, through
+   */
+  public requireProjectAccess = this.asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const userId = this.getUserId(req);
+    const projectId = this.parseInteger(req.params.id);
+
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    if (!projectId) {
+      this.sendError(res, 'Invalid project ID', 400);
+      return;
+    }
+
+    // Projects of other users and workspaces are reported as missing rather than forbidden
+    if (!(await projectService.validateProjectAccess(this.getAccessScope(req), projectId))) {
+      this.sendNotFound(res, 'Project');
+      return;
+    }
+
+    next();
+  });
+
   /**
    * POST /api/projects
    * Create a new project
@@ -26,7 +53,7 @@ export class ProjectController extends BaseController {
 
       this.logAction('create_project', userId, { name: projectData.name });
 
-      const newProject = await projectService.createProject(userId, projectData);
+      const newProject = await projectService.createProject(this.getAccessScope(req), projectData);
       
       this.sendCreated(res, newProject, 'Project created successfully');
 
@@ -53,7 +80,7 @@ export class ProjectController extends BaseController {
         return;
       }
 
-      const projects = await projectService.getUserProjects(userId);
+      const projects = await projectService.getUserProjects(this.getAccessScope(req));
       
       this.sendSuccess(res, projects, 'Projects retrieved successfully');
 
@@ -82,7 +109,7 @@ export class ProjectController extends BaseController {
         return;
       }
 
-      const project = await projectService.getProjectById(projectId, userId);
+      const project = await projectService.getProjectById(projectId, this.getAccessScope(req));
       
       if (!project) {
         this.sendNotFound(res, 'Project');
@@ -120,7 +147,7 @@ export class ProjectController extends BaseController {
 
       this.logAction('update_project', userId, { projectId, fields: Object.keys(updates) });
 
-      const updatedProject = await projectService.updateProject(projectId, userId, updates);
+      const updatedProject = await projectService.updateProject(projectId, this.getAccessScope(req), updates);
       
       if (!updatedProject) {
         this.sendNotFound(res, 'Project');
@@ -162,7 +189,7 @@ export class ProjectController extends BaseController {
 
       this.logAction('delete_project', userId, { projectId });
 
-      const deleted = await projectService.deleteProject(projectId, userId);
+      const deleted = await projectService.deleteProject(projectId, this.getAccessScope(req));
       
       if (deleted) {
         this.sendNoContent(res);
@@ -199,7 +226,7 @@ export class ProjectController extends BaseController {
         return;
       }
 
-      const projectWithAnalyses = await projectService.getProjectWithAnalyses(projectId, userId);
+      const projectWithAnalyses = await projectService.getProjectWithAnalyses(projectId, this.getAccessScope(req));
       
       if (!projectWithAnalyses) {
         this.sendNotFound(res, 'Project');
@@ -241,7 +268,7 @@ export class ProjectController extends BaseController {
 
       this.logAction('add_analysis_to_project', userId, { projectId, analysisId });
 
-      const success = await projectService.addAnalysisToProject(projectId, analysisId, userId);
+      const success = await projectService.addAnalysisToProject(projectId, analysisId, this.getAccessScope(req));
       
       if (success) {
         this.sendSuccess(res, null, 'Analysis added to project successfully');
@@ -283,7 +310,7 @@ export class ProjectController extends BaseController {
 
       this.logAction('remove_analysis_from_project', userId, { projectId, analysisId });
 
-      const success = await projectService.removeAnalysisFromProject(projectId, analysisId, userId);
+      const success = await projectService.removeAnalysisFromProject(projectId, analysisId, this.getAccessScope(req));
       
       if (success) {
         this.sendNoContent(res);
@@ -301,6 +328,158 @@ export class ProjectController extends BaseController {
     }
   });
 
+  /**
+   * GET /api/projects/:id/audits
+   * Get the project's rival audits
+   */
+  public getProjectAudits = this.asyncHandler(async (req: Request, res: Response) => {
+    try {
+      const userId = this.getUserId(req);
+      const projectId = this.parseInteger(req.params.id);
+
+      if (!userId) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      if (!projectId) {
+        this.sendError(res, 'Invalid project ID', 400);
+        return;
+      }
+
+      const audits = await projectService.getProjectAudits(projectId, this.getAccessScope(req));
+
+      if (!audits) {
+        this.sendNotFound(res, 'Project');
+        return;
+      }
+
+      this.sendSuccess(res, audits, 'Project audits retrieved successfully');
+
+    } catch (error) {
+      console.error('[ProjectController] Error in getProjectAudits:', error);
+      this.sendError(res, 'Failed to fetch project audits');
+    }
+  });
+
+  /**
+   * POST /api/projects/:id/audits
+   * Add rival audit to project
+   */
+  public addAuditToProject = this.asyncHandler(async (req: Request, res: Response) => {
+    try {
+      const userId = this.getUserId(req);
+      const projectId = this.parseInteger(req.params.id);
+      const { auditId } = req.body;
+
+      if (!userId) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      if (!projectId) {
+        this.sendError(res, 'Invalid project ID', 400);
+        return;
+      }
+
+      if (!auditId || !Number.isInteger(auditId)) {
+        this.sendError(res, 'Valid audit ID is required', 400);
+        return;
+      }
+
+      this.logAction('add_audit_to_project', userId, { projectId, auditId });
+
+      await projectService.addAuditToProject(projectId, auditId, this.getAccessScope(req));
+
+      this.sendSuccess(res, null, 'Audit added to project successfully');
+
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        this.sendForbidden(res, error.message);
+      } else if (error instanceof Error && error.message.includes('not found')) {
+        this.sendNotFound(res, 'Audit');
+      } else {
+        console.error('[ProjectController] Error in addAuditToProject:', error);
+        this.sendError(res, 'Failed to add audit to project');
+      }
+    }
+  });
+
+  /**
+   * DELETE /api/projects/:id/audits/:auditId
+   * Remove rival audit from project
+   */
+  public removeAuditFromProject = this.asyncHandler(async (req: Request, res: Response) => {
+    try {
+      const userId = this.getUserId(req);
+      const projectId = this.parseInteger(req.params.id);
+      const auditId = this.parseInteger(req.params.auditId);
+
+      if (!userId) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      if (!projectId || !auditId) {
+        this.sendError(res, 'Invalid project ID or audit ID', 400);
+        return;
+      }
+
+      this.logAction('remove_audit_from_project', userId, { projectId, auditId });
+
+      const removed = await projectService.removeAuditFromProject(projectId, auditId, this.getAccessScope(req));
+
+      if (removed) {
+        this.sendNoContent(res);
+      } else {
+        // Scheduled audits belong to the project through their schedule
+        this.sendNotFound(res, 'Audit');
+      }
+
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        this.sendForbidden(res, error.message);
+      } else {
+        console.error('[ProjectController] Error in removeAuditFromProject:', error);
+        this.sendError(res, 'Failed to remove audit from project');
+      }
+    }
+  });
+
+  /**
+   * GET /api/projects/:id/history
+   * Get the project's audits, analyses, keywords and backlink profiles with a timeline
+   */
+  public getProjectHistory = this.asyncHandler(async (req: Request, res: Response) => {
+    try {
+      const userId = this.getUserId(req);
+      const projectId = this.parseInteger(req.params.id);
+
+      if (!userId) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      if (!projectId) {
+        this.sendError(res, 'Invalid project ID', 400);
+        return;
+      }
+
+      const history = await projectService.getProjectHistory(projectId, this.getAccessScope(req));
+
+      if (!history) {
+        this.sendNotFound(res, 'Project');
+        return;
+      }
+
+      this.sendSuccess(res, history, 'Project history retrieved successfully');
+
+    } catch (error) {
+      console.error('[ProjectController] Error in getProjectHistory:', error);
+      this.sendError(res, 'Failed to fetch project history');
+    }
+  });
+
   /**
    * GET /api/projects/:id/stats
    * Get project statistics
@@ -320,7 +499,7 @@ export class ProjectController extends BaseController {
         return;
       }
 
-      const stats = await projectService.getProjectStats(projectId, userId);
+      const stats = await projectService.getProjectStats(projectId, this.getAccessScope(req));
       
       if (!stats) {
         this.sendNotFound(res, 'Project');
@@ -348,7 +527,7 @@ export class ProjectController extends BaseController {
         return;
       }
 
-      const stats = await projectService.getUserProjectStats(userId);
+      const stats = await projectService.getUserProjectStats(this.getAccessScope(req));
       
       this.sendSuccess(res, stats, 'User project statistics retrieved successfully');
 
@@ -377,7 +556,7 @@ export class ProjectController extends BaseController {
         return;
       }
 
-      const projects = await projectService.searchUserProjects(userId, query.trim());
+      const projects = await projectService.searchUserProjects(this.getAccessScope(req), query.trim());
       
       this.sendSuccess(res, projects, 'Projects search completed');
 
@@ -401,7 +580,7 @@ export class ProjectController extends BaseController {
         return;
       }
 
-      const projects = await projectService.getRecentProjects(userId, limit);
+      const projects = await projectService.getRecentProjects(this.getAccessScope(req), limit);
       
       this.sendSuccess(res, projects, 'Recent projects retrieved successfully');
 
@@ -433,7 +612,7 @@ export class ProjectController extends BaseController {
 
       this.logAction('duplicate_project', userId, { projectId, newName });
 
-      const duplicatedProject = await projectService.duplicateProject(projectId, userId, newName);
+      const duplicatedProject = await projectService.duplicateProject(projectId, this.getAccessScope(req), newName);
       
       if (!duplicatedProject) {
         this.sendNotFound(res, 'Project');
@@ -469,7 +648,7 @@ export class ProjectController extends BaseController {
 
       this.logAction('export_project', userId, { projectId });
 
-      const exportData = await projectService.getProjectExportData(projectId, userId);
+      const exportData = await projectService.getProjectExportData(projectId, this.getAccessScope(req));
       
       if (!exportData) {
         this.sendNotFound(res, 'Project');
@@ -220,11 +220,35 @@ app.use((req, res, next) => {
   
   const server = await registerRoutes(app);
   
-  // Start audit cleanup service for automatic expired audit removal
+  // Start audit cleanup service, the audit job queue worker, scheduled audits, rank checks and webhook deliveries
   if (process.env.DATABASE_URL) {
     console.log('🧹 Starting audit cleanup service...');
     const { auditCleanupService } = await import('./services/audit/cleanup.service');
     auditCleanupService.start();
+    
+    console.log('📋 Starting audit job queue worker...');
+    const { auditQueueService } = await import('./services/audit/audit-queue.service');
+    auditQueueService.start();
+    
+    console.log('📅 Starting audit schedule service...');
+    const { auditScheduleService } = await import('./services/audit/audit-schedule.service');
+    auditScheduleService.start();
+    
+    console.log('📈 Starting rank tracker...');
+    const { rankTrackerService } = await import('./services/rank-tracking/rank-tracker.service');
+    rankTrackerService.start();
+    
+    console.log('🔗 Starting outgoing link scanner...');
+    const { outgoingLinkService } = await import('./services/backlinks/outgoing-link.service');
+    outgoingLinkService.start();
+    
+    console.log('🪝 Starting webhook delivery worker...');
+    const { webhookService } = await import('./services/webhooks');
+    webhookService.start();
+    
+    console.log('📊 Starting batch analysis service...');
+    const { batchAnalysisService } = await import('./services/analysis/batch-analysis.service');
+    batchAnalysisService.start().catch(error => console.error('Error resuming analysis batches:', error));
   }
   
   // Enhanced health check endpoint
@@ -299,8 +323,48 @@ app.use((req, res, next) => {
     server.close(async () => {
       console.log('HTTP server closed');
       
-      // Stop audit cleanup service
+      // Stop audit cleanup service, scheduled audits, rank checks, link scans, analysis batches, webhook deliveries and job queue worker
       if (process.env.DATABASE_URL) {
+        try {
+          const { webhookService } = await import('./services/webhooks');
+          webhookService.stop();
+          console.log('Webhook delivery worker stopped');
+        } catch (error) {
+          console.error('Error stopping webhook delivery worker:', error);
+        }
+        
+        try {
+          const { batchAnalysisService } = await import('./services/analysis/batch-analysis.service');
+          batchAnalysisService.stop();
+          console.log('Batch analysis service stopped');
+        } catch (error) {
+          console.error('Error stopping batch analysis service:', error);
+        }
+        
+        try {
+          const { outgoingLinkService } = await import('./services/backlinks/outgoing-link.service');
+          outgoingLinkService.stop();
+          console.log('Outgoing link scanner stopped');
+        } catch (error) {
+          console.error('Error stopping outgoing link scanner:', error);
+        }
+        
+        try {
+          const { rankTrackerService } = await import('./services/rank-tracking/rank-tracker.service');
+          rankTrackerService.stop();
+          console.log('Rank tracker stopped');
+        } catch (error) {
+          console.error('Error stopping rank tracker:', error);
+        }
+        
+        try {
+          const { auditScheduleService } = await import('./services/audit/audit-schedule.service');
+          auditScheduleService.stop();
+          console.log('Audit schedule service stopped');
+        } catch (error) {
+          console.error('Error stopping audit schedule service:', error);
+        }
+        
         try {
           const { auditCleanupService } = await import('./services/audit/cleanup.service');
           auditCleanupService.stop();
@@ -308,6 +372,14 @@ app.use((req, res, next) => {
         } catch (error) {
           console.error('Error stopping audit cleanup service:', error);
         }
+        
+        try {
+          const { auditQueueService } = await import('./services/audit/audit-queue.service');
+          await auditQueueService.stop();
+          console.log('Audit queue worker stopped');
+        } catch (error) {
+          console.error('Error stopping audit queue worker:', error);
+        }
       }
       
       // Cleanup all Puppeteer clusters
@@ -2,6 +2,68 @@ import { Request, Response, NextFunction } from 'express';
 import { apiUsageService } from '../services/common/api-usage.service';
 import { estimateCost, extractUsageMetrics } from '../services/common/cost-estimation.service';
 
+/**
+ * Log the request to the database once the response has been sent
+ */
+const logResponse = (req: Request, res: Response, apiProvider: string, endpoint: string) => {
+  // Store original timestamp to calculate response time
+  const startTime = Date.now();
+  
+  // Store original end function to intercept it
+  const originalEnd = res.end;
+  let responseBody: any = '';
+  
+  // Override res.end to capture response data and timing
+  // @ts-ignore - we need to override this method
+  res.end = function(chunk: any, ...args: any[]) {
+    const responseTime = Date.now() - startTime;
+    
+    // Try to parse response body if it's JSON
+    if (chunk) {
+      try {
+        // Convert Buffer to string if needed
+        const chunkStr = chunk instanceof Buffer ? chunk.toString('utf8') : chunk;
+        responseBody = JSON.parse(chunkStr);
+      } catch (e) {
+        // Not parseable JSON, which is fine
+        responseBody = null;
+      }
+    }
+
+    // Log the API call
+    const userId = req.user?.id as string | undefined;
+    
+    // Extract usage metrics for cost calculation
+    const usageMetrics = extractUsageMetrics(apiProvider, req.body, responseBody);
+    
+    // Calculate estimated cost
+    const estimatedCost = estimateCost(apiProvider, endpoint, usageMetrics);
+    
+    // Log API usage to database with cost information
+    apiUsageService.logApiUsage({
+      userId,
+      apiKeyId: req.apiKey?.id,
+      endpoint,
+      method: req.method,
+      statusCode: res.statusCode,
+      responseTime,
+      apiProvider,
+      requestData: req.body && Object.keys(req.body).length > 0 ? req.body : undefined,
+      responseData: responseBody,
+      errorMessage: res.statusCode >= 400 ? responseBody?.error || responseBody?.message : undefined,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      estimatedCost,
+      usageMetrics
+    }).catch(err => {
+      console.error('Error logging API usage:', err);
+    });
+    
+    // Call the original end method
+    return originalEnd.apply(res, arguments as any);
+  };
+};
+
 /**
  * Middleware to track API usage
  * This middleware logs all API requests to the database
@@ -13,67 +75,26 @@ export const trackApiUsage = (apiProvider: string) => {
       return next();
     }
     
-    // Store original timestamp to calculate response time
-    const startTime = Date.now();
+    // API key requests are already logged by trackApiKeyUsage
+    if (req.apiKey) {
+      return next();
+    }
     
-    // Store original end function to intercept it
-    const originalEnd = res.end;
-    let responseBody: any = '';
-    
-    // Override res.end to capture response data and timing
-    // @ts-ignore - we need to override this method
-    res.end = function(chunk: any, ...args: any[]) {
-      const responseTime = Date.now() - startTime;
-      
-      // Try to parse response body if it's JSON
-      if (chunk) {
-        try {
-          // Convert Buffer to string if needed
-          const chunkStr = chunk instanceof Buffer ? chunk.toString('utf8') : chunk;
-          responseBody = JSON.parse(chunkStr);
-        } catch (e) {
-          // Not parseable JSON, which is fine
-          responseBody = null;
-        }
-      }
-
-      // Log the API call
-      const userId = req.user?.id as string | undefined;
-      
-      // Extract usage metrics for cost calculation
-      const usageMetrics = extractUsageMetrics(apiProvider, req.body, responseBody);
-      
-      // Calculate estimated cost
-      const estimatedCost = estimateCost(apiProvider, req.path, usageMetrics);
-      
-      // Log API usage to database with cost information
-      apiUsageService.logApiUsage({
-        userId,
-        endpoint: req.path,
-        method: req.method,
-        statusCode: res.statusCode,
-        responseTime,
-        apiProvider,
-        requestData: req.body && Object.keys(req.body).length > 0 ? req.body : undefined,
-        responseData: responseBody,
-        errorMessage: res.statusCode >= 400 ? responseBody?.error || responseBody?.message : undefined,
-        ipAddress: req.ip,
-        userAgent: req.get('user-agent'),
-        estimatedCost,
-        usageMetrics
-      }).catch(err => {
-        console.error('Error logging API usage:', err);
-      });
-      
-      // Call the original end method
-      return originalEnd.apply(res, arguments as any);
-    };
+    logResponse(req, res, apiProvider, req.path);
     
     // Continue with the request
     next();
   };
 };
 
+/**
+ * Log every request made with an API key against that key
+ */
+export const trackApiKeyUsage = (req: Request, res: Response, next: NextFunction) => {
+  logResponse(req, res, 'api-key', req.originalUrl.split('?')[0]);
+  next();
+};
+
 // Middleware factory for common API providers
 export const trackDataForSeoApi = trackApiUsage('DataForSEO');
 export const trackOpenAiApi = trackApiUsage('OpenAI');
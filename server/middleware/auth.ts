@@ -1,5 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { authService } from '../services/auth/auth.service';
+import { workspaceRepository } from '../repositories/workspace.repository';
+import { apiKeyService, API_KEY_PREFIX } from '../services/api-keys';
+import { ApiKey, ApiKeyScope, WorkspaceRole } from '../../shared/schema';
+import { hasWorkspacePermission, WorkspacePermission } from '../../shared/constants/workspace-roles';
+import { AccessScope, WorkspaceContext } from '../types/workspace';
+import { apiKeyRateLimit } from './security';
+import { AuthenticationError } from '../utils/errors';
+import { trackApiKeyUsage } from './apiUsageMiddleware';
 
 declare global {
   namespace Express {
@@ -19,6 +27,8 @@ declare global {
         [key: string]: any;
       };
       token?: string;
+      workspace?: WorkspaceContext;
+      apiKey?: ApiKey;
     }
   }
 }
@@ -28,6 +38,11 @@ declare global {
  * Verifies JWT token from Authorization header or cookies
  */
 export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  // Already authenticated by authenticateApiKey
+  if (req.apiKey) {
+    return next();
+  }
+
   try {
     // Get token from Authorization header (Bearer token)
     let token = req.headers.authorization?.split(' ')[1];
@@ -47,14 +62,170 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
     // Attach user and token to request object
     req.user = user;
     req.token = token;
-    
-    next();
   } catch (error) {
     console.error('Authentication error:', error);
     return res.status(401).json({ message: 'Invalid authentication' });
   }
+
+  if (await resolveWorkspace(req, res)) {
+    next();
+  }
+};
+
+// Endpoints scripts may call with an API key and the scope each one needs;
+// every other endpoint rejects API keys
+const API_KEY_ROUTES: Array<{ method: string; path: RegExp; scope: ApiKeyScope }> = [
+  { method: 'POST', path: /^\/api\/rival-audit\/?$/, scope: 'audits:write' },
+  { method: 'POST', path: /^\/api\/rival-audit\/enhanced$/, scope: 'audits:write' },
+  { method: 'POST', path: /^\/api\/rival-audit\/\d+\/(cancel|update-item)$/, scope: 'audits:write' },
+  { method: 'GET', path: /^\/api\/rival-audit\/\d+$/, scope: 'audits:read' },
+  { method: 'GET', path: /^\/api\/rival-audit\/\d+\/events$/, scope: 'audits:read' },
+  { method: 'GET', path: /^\/api\/rival-audit\/\d+\/compare\/\d+$/, scope: 'audits:read' },
+  { method: 'GET', path: /^\/api\/rival-audit\/\d+\/export$/, scope: 'export:read' },
+  { method: 'GET', path: /^\/api\/analysis-batches\/\d+\/export$/, scope: 'export:read' },
+  { method: 'POST', path: /^\/api\/analyze$/, scope: 'analysis:write' },
+  { method: 'POST', path: /^\/api\/analysis-batches\/?$/, scope: 'analysis:write' },
+  { method: 'GET', path: /^\/api\/analysis-batches(\/\d+)?\/?$/, scope: 'analysis:write' }
+];
+
+/**
+ * The scope an API key needs for an endpoint, or null when API keys cannot
+ * call it
+ */
+export function getApiKeyScope(method: string, path: string): ApiKeyScope | null {
+  const route = API_KEY_ROUTES.find(route => route.method === method && route.path.test(path));
+  return route ? route.scope : null;
+}
+
+/**
+ * API key authentication middleware
+ * Authenticates requests carrying a key in the X-API-Key header or as a
+ * Bearer token, checks the key's scopes, rate limits it per key and logs
+ * the request against it. Requests without a key pass through untouched.
+ */
+export const authenticateApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  const bearer = req.headers.authorization?.split(' ')[1];
+  const key = req.headers['x-api-key'] ? String(req.headers['x-api-key']) : bearer?.startsWith(API_KEY_PREFIX) ? bearer : undefined;
+  if (!key) {
+    return next();
+  }
+
+  try {
+    const { apiKey, user } = await apiKeyService.verifyApiKey(key);
+
+    const scope = getApiKeyScope(req.method, req.originalUrl.split('?')[0]);
+    if (!scope) {
+      return res.status(403).json({ message: 'This endpoint cannot be called with an API key' });
+    }
+    if (!apiKeyService.hasScope(apiKey, scope)) {
+      return res.status(403).json({ message: `This API key does not have the ${scope} scope` });
+    }
+
+    // Workspace keys act with the creator's current role, so a key stops
+    // working in a workspace its creator has left
+    if (apiKey.workspaceId !== null) {
+      const member = await workspaceRepository.getMember(apiKey.workspaceId, user.id);
+      if (!member) {
+        return res.status(403).json({ message: 'The owner of this API key is no longer a member of its workspace' });
+      }
+      req.workspace = { id: apiKey.workspaceId, role: member.role as WorkspaceRole };
+    }
+
+    req.user = user;
+    req.apiKey = apiKey;
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return res.status(401).json({ message: error.message });
+    }
+    console.error('API key authentication error:', error);
+    return res.status(500).json({ message: 'Failed to check API key' });
+  }
+
+  apiKeyRateLimit(req, res, () => {
+    apiKeyService.recordUse(req.apiKey!, req.ip || null).catch(error => {
+      console.error('Error recording API key use:', error);
+    });
+    trackApiKeyUsage(req, res, next);
+  });
+};
+
+/**
+ * Attach the workspace selected with the X-Workspace-Id header, or send the
+ * error response when the user is not one of its members
+ */
+async function resolveWorkspace(req: Request, res: Response): Promise<boolean> {
+  const header = req.headers['x-workspace-id'];
+  if (!header || !req.user) {
+    return true;
+  }
+
+  try {
+    const workspaceId = parseInt(String(header));
+    const member = isNaN(workspaceId) ? undefined : await workspaceRepository.getMember(workspaceId, req.user.id);
+    if (!member) {
+      res.status(403).json({ message: 'You are not a member of this workspace' });
+      return false;
+    }
+
+    req.workspace = { id: workspaceId, role: member.role as WorkspaceRole };
+    return true;
+  } catch (error) {
+    console.error('Workspace resolution error:', error);
+    res.status(500).json({ message: 'Failed to load workspace' });
+    return false;
+  }
+}
+
+/**
+ * Workspace role middleware
+ * Within the active workspace, reads need the read permission and every other
+ * method the write permission, so viewers and clients cannot change anything
+ */
+export const enforceWorkspaceRole = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.workspace) {
+    return next();
+  }
+
+  const permission: WorkspacePermission = ['GET', 'HEAD', 'OPTIONS'].includes(req.method) ? 'read' : 'write';
+  if (!hasWorkspacePermission(req.workspace.role, permission)) {
+    return res.status(403).json({ message: `The ${req.workspace.role} role cannot make changes in this workspace` });
+  }
+
+  next();
 };
 
+/**
+ * Workspace permission middleware for /api/workspaces/:workspaceId routes
+ * Non-members get a 404, members without the permission a 403
+ */
+export const requireWorkspacePermission = (permission: WorkspacePermission) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const workspaceId = parseInt(req.params.workspaceId);
+      const member = isNaN(workspaceId) ? undefined : await workspaceRepository.getMember(workspaceId, req.user!.id);
+      if (!member) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+      if (!hasWorkspacePermission(member.role, permission)) {
+        return res.status(403).json({ error: 'Your role in this workspace does not allow this' });
+      }
+
+      req.workspace = { id: workspaceId, role: member.role as WorkspaceRole };
+      next();
+    } catch (error) {
+      console.error('Workspace permission error:', error);
+      return res.status(500).json({ error: 'Failed to check workspace permissions' });
+    }
+  };
+
+/**
+ * Records an authenticated request may see: those of the active workspace,
+ * or the user's personal ones when no workspace is selected
+ */
+export function getAccessScope(req: Request): AccessScope {
+  return { userId: req.user!.id, workspaceId: req.workspace?.id ?? null };
+}
+
 /**
  * Optional authentication middleware
  * Attaches user to request if token is valid, but doesn't require authentication
@@ -85,6 +256,10 @@ export const requireAdmin = async (req: Request, res: Response, next: NextFuncti
 };
 
 export const optionalAuth = async (req: Request, res: Response, next: NextFunction) => {
+  if (req.apiKey) {
+    return next();
+  }
+
   try {
     // Get token from Authorization header (Bearer token)
     let token = req.headers.authorization?.split(' ')[1];
@@ -102,10 +277,12 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
       req.user = user;
       req.token = token;
     }
-    
-    next();
   } catch (error) {
     // Continue without authentication
+    return next();
+  }
+
+  if (await resolveWorkspace(req, res)) {
     next();
   }
 };
\ No newline at end of file
@@ -46,10 +46,11 @@ const rateLimitStores: { [key: string]: RateLimitStore } = {
   api: {},
   auth: {},
   upload: {},
-  analysis: {}
+  analysis: {},
+  apiKey: {}
 };
 
-const createRateLimit = (storeName: string, options: {
+export const createRateLimit = (storeName: string, options: {
   windowMs: number;
   max: number;
   message: any;
@@ -230,6 +231,19 @@ export const analysisRateLimit = createRateLimit('analysis', {
   banDuration: 7200000 // 2 hour ban
 });
 
+export const apiKeyRateLimit = createRateLimit('apiKey', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 1000, // Scripts share one budget per key rather than per IP
+  message: {
+    error: 'API key rate limit exceeded, please try again later.',
+    retryAfter: '1 hour',
+    code: 'API_KEY_RATE_LIMIT_EXCEEDED'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => `api_key_${req.apiKey.id}`
+});
+
 // Enhanced input sanitization and validation middleware
 export const sanitizeInput = (req: Request, res: Response, next: NextFunction) => {
   // SQL injection patterns
@@ -0,0 +1,263 @@
+import { db as getDb } from '../db';
+import {
+  analysisBatches,
+  analysisBatchPages,
+  AnalysisBatch,
+  AnalysisBatchPage
+} from '../../shared/schema';
+import { eq, and, or, inArray, isNull, lt, desc, asc, SQL } from 'drizzle-orm';
+
+/**
+ * Repository for batch analyses and the pages analyzed in each batch
+ */
+export class AnalysisBatchRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  private claimableCondition(staleBefore: Date): SQL {
+    return and(
+      inArray(analysisBatches.status, ['pending', 'processing']),
+      or(isNull(analysisBatches.lockedBy), isNull(analysisBatches.lockedAt), lt(analysisBatches.lockedAt, staleBefore))
+    )!;
+  }
+
+  private heldBy(workerId: string): SQL {
+    return and(eq(analysisBatches.status, 'processing'), eq(analysisBatches.lockedBy, workerId))!;
+  }
+
+  private pageHeldBy(workerId: string): SQL {
+    return and(eq(analysisBatchPages.status, 'processing'), eq(analysisBatchPages.lockedBy, workerId))!;
+  }
+
+  /**
+   * Create a batch with one pending page per URL
+   */
+  async createBatch(
+    data: Omit<typeof analysisBatches.$inferInsert, 'totalPages'>,
+    urls: string[]
+  ): Promise<AnalysisBatch> {
+    const database = this.getDatabase();
+
+    const [batch] = await database
+      .insert(analysisBatches)
+      .values({ ...data, totalPages: urls.length })
+      .returning();
+
+    await database
+      .insert(analysisBatchPages)
+      .values(urls.map(url => ({ batchId: batch.id, url })));
+
+    console.log(`📊 Created analysis batch ${batch.id} with ${urls.length} pages`);
+    return batch;
+  }
+
+  /**
+   * Get a batch by ID
+   */
+  async getBatch(id: number): Promise<AnalysisBatch | undefined> {
+    const database = this.getDatabase();
+
+    const [batch] = await database
+      .select()
+      .from(analysisBatches)
+      .where(eq(analysisBatches.id, id));
+
+    return batch;
+  }
+
+  /**
+   * Get a user's batches, newest first
+   */
+  async getBatchesByUser(userId: string, limit: number = 20): Promise<AnalysisBatch[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(analysisBatches)
+      .where(eq(analysisBatches.userId, userId))
+      .orderBy(desc(analysisBatches.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Unfinished batches no worker holds, e.g. because the server restarted
+   * mid-batch or its worker stopped sending heartbeats before `staleBefore`
+   */
+  async getClaimableBatches(staleBefore: Date): Promise<AnalysisBatch[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(analysisBatches)
+      .where(this.claimableCondition(staleBefore))
+      .orderBy(asc(analysisBatches.id));
+  }
+
+  /**
+   * Claim a batch for a worker.
+   * The claim only succeeds if no live worker holds the batch, so two workers
+   * racing for it cannot both win. Pages the previous holder was analyzing
+   * go back to pending.
+   */
+  async claimBatch(id: number, workerId: string, staleBefore: Date): Promise<AnalysisBatch | undefined> {
+    const database = this.getDatabase();
+
+    const [batch] = await database
+      .update(analysisBatches)
+      .set({ status: 'processing', lockedBy: workerId, lockedAt: new Date() })
+      .where(and(eq(analysisBatches.id, id), this.claimableCondition(staleBefore)))
+      .returning();
+
+    if (batch) {
+      await database
+        .update(analysisBatchPages)
+        .set({ status: 'pending', lockedBy: null })
+        .where(and(eq(analysisBatchPages.batchId, id), eq(analysisBatchPages.status, 'processing')));
+    }
+
+    return batch;
+  }
+
+  /**
+   * Refresh the lock of batches held by a worker.
+   * Returns the IDs of those the worker still holds.
+   */
+  async heartbeat(workerId: string, batchIds: number[]): Promise<number[]> {
+    if (batchIds.length === 0) return [];
+
+    const database = this.getDatabase();
+
+    const batches = await database
+      .update(analysisBatches)
+      .set({ lockedAt: new Date() })
+      .where(and(this.heldBy(workerId), inArray(analysisBatches.id, batchIds)))
+      .returning({ id: analysisBatches.id });
+
+    return batches.map((batch: { id: number }) => batch.id);
+  }
+
+  /**
+   * Mark a batch held by a worker as completed
+   */
+  async completeBatch(id: number, workerId: string): Promise<AnalysisBatch | undefined> {
+    const database = this.getDatabase();
+
+    const [batch] = await database
+      .update(analysisBatches)
+      .set({ status: 'completed', completedAt: new Date(), lockedBy: null, lockedAt: null })
+      .where(and(eq(analysisBatches.id, id), this.heldBy(workerId)))
+      .returning();
+
+    return batch;
+  }
+
+  /**
+   * Let go of a batch held by a worker so another worker can claim it right away
+   */
+  async releaseBatch(id: number, workerId: string): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .update(analysisBatches)
+      .set({ lockedBy: null, lockedAt: null })
+      .where(and(eq(analysisBatches.id, id), this.heldBy(workerId)));
+  }
+
+  /**
+   * Pages of a batch in the order they were submitted, optionally with one status
+   */
+  async getPages(batchId: number, status?: string): Promise<AnalysisBatchPage[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(analysisBatchPages)
+      .where(
+        and(
+          eq(analysisBatchPages.batchId, batchId),
+          status ? eq(analysisBatchPages.status, status) : undefined
+        )
+      )
+      .orderBy(asc(analysisBatchPages.id));
+  }
+
+  /**
+   * Claim the next pending page of a batch for a worker
+   */
+  async claimNextPage(batchId: number, workerId: string): Promise<AnalysisBatchPage | undefined> {
+    const database = this.getDatabase();
+
+    const candidates = await database
+      .select({ id: analysisBatchPages.id })
+      .from(analysisBatchPages)
+      .where(and(eq(analysisBatchPages.batchId, batchId), eq(analysisBatchPages.status, 'pending')))
+      .orderBy(asc(analysisBatchPages.id))
+      .limit(5);
+
+    for (const candidate of candidates) {
+      const [page] = await database
+        .update(analysisBatchPages)
+        .set({ status: 'processing', lockedBy: workerId })
+        .where(and(eq(analysisBatchPages.id, candidate.id), eq(analysisBatchPages.status, 'pending')))
+        .returning();
+
+      if (page) {
+        return page;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Record the analysis stored for a page held by a worker.
+   * Returns false when the worker no longer holds the page.
+   */
+  async completePage(id: number, workerId: string, analysisId: number): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const completed = await database
+      .update(analysisBatchPages)
+      .set({ status: 'completed', lockedBy: null, analysisId, error: null, completedAt: new Date() })
+      .where(and(eq(analysisBatchPages.id, id), this.pageHeldBy(workerId)))
+      .returning({ id: analysisBatchPages.id });
+
+    return completed.length > 0;
+  }
+
+  /**
+   * Record why a page held by a worker could not be analyzed
+   */
+  async failPage(id: number, workerId: string, error: string): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .update(analysisBatchPages)
+      .set({ status: 'failed', lockedBy: null, error, completedAt: new Date() })
+      .where(and(eq(analysisBatchPages.id, id), this.pageHeldBy(workerId)));
+  }
+
+  /**
+   * Delete a batch and its pages; the stored analyses are kept
+   */
+  async deleteBatch(id: number): Promise<boolean> {
+    const database = this.getDatabase();
+
+    await database.delete(analysisBatchPages).where(eq(analysisBatchPages.batchId, id));
+
+    const deleted = await database
+      .delete(analysisBatches)
+      .where(eq(analysisBatches.id, id))
+      .returning({ id: analysisBatches.id });
+
+    return deleted.length > 0;
+  }
+}
+
+// Singleton instance
+export const analysisBatchRepository = new AnalysisBatchRepository();
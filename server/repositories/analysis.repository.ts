@@ -1,4 +1,4 @@
-import { eq, desc, and, gte, lte } from 'drizzle-orm';
+import { eq, desc, and, gte, lte, inArray } from 'drizzle-orm';
 import { BaseRepository } from './base.repository';
 import { analyses, Analysis, InsertAnalysis } from '../../shared/schema';
 
@@ -20,6 +20,16 @@ export class AnalysisRepository extends BaseRepository<Analysis, InsertAnalysis>
     });
   }
 
+  /**
+   * Find analyses by ID
+   */
+  async findByIds(ids: number[]): Promise<Analysis[]> {
+    if (ids.length === 0) return [];
+    return this.findMany({
+      where: inArray(analyses.id, ids)
+    });
+  }
+
   /**
    * Find analyses by user ID
    */
@@ -0,0 +1,93 @@
+import { db as getDb } from '../db';
+import { apiKeys, workspaces, ApiKey } from '../../shared/schema';
+import { eq, and, isNull, desc } from 'drizzle-orm';
+
+/**
+ * Repository for the API keys scripts authenticate with
+ */
+export class ApiKeyRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * Store a new key by its hash
+   */
+  async createApiKey(data: typeof apiKeys.$inferInsert): Promise<ApiKey> {
+    const database = this.getDatabase();
+
+    const [apiKey] = await database
+      .insert(apiKeys)
+      .values(data)
+      .returning();
+
+    return apiKey;
+  }
+
+  /**
+   * Get a key by the hash of the key a request was made with
+   */
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const database = this.getDatabase();
+
+    const [apiKey] = await database
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.keyHash, keyHash));
+
+    return apiKey;
+  }
+
+  /**
+   * Keys a user created, with the name of their workspace, newest first
+   */
+  async getApiKeysByUser(userId: string): Promise<Array<ApiKey & { workspaceName: string | null }>> {
+    const database = this.getDatabase();
+
+    const rows = await database
+      .select({ apiKey: apiKeys, workspaceName: workspaces.name })
+      .from(apiKeys)
+      .leftJoin(workspaces, eq(apiKeys.workspaceId, workspaces.id))
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return rows.map(({ apiKey, workspaceName }: { apiKey: ApiKey; workspaceName: string | null }) => ({
+      ...apiKey,
+      workspaceName
+    }));
+  }
+
+  /**
+   * Record when and from where a key was last used
+   */
+  async recordUse(id: number, usedAt: Date, ipAddress: string | null): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .update(apiKeys)
+      .set({ lastUsedAt: usedAt, lastUsedIp: ipAddress })
+      .where(eq(apiKeys.id, id));
+  }
+
+  /**
+   * Revoke one of a user's keys
+   */
+  async revokeApiKey(id: number, userId: string): Promise<ApiKey | undefined> {
+    const database = this.getDatabase();
+
+    const [apiKey] = await database
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning();
+
+    return apiKey;
+  }
+}
+
+// Singleton instance
+export const apiKeyRepository = new ApiKeyRepository();
@@ -0,0 +1,368 @@
+import { db as getDb } from '../db';
+import { crawlJobs, rivalAudits, CrawlJob } from '../../shared/schema';
+import { eq, and, or, lte, lt, isNull, inArray, asc, count, sql, SQL } from 'drizzle-orm';
+
+/**
+ * Job type used for rival audits in the crawl_jobs table
+ */
+export const RIVAL_AUDIT_JOB_TYPE = 'rival_audit';
+
+/**
+ * Payload stored in crawl_jobs.config for a rival audit job
+ */
+export interface AuditJobConfig {
+  auditId: number;
+  url: string;
+  auditType: 'enhanced';
+  continueCrawl?: boolean;
+  ignoreRobots?: boolean;
+}
+
+/**
+ * Repository for the rival audit job queue.
+ * Audit jobs are one-off rows in crawl_jobs (type "rival_audit") whose status
+ * moves queued -> processing -> completed/failed/cancelled.
+ */
+export class AuditJobRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * A processing job that is still locked by the given worker. Outcomes are
+   * only recorded by the lock owner, so a worker whose job was reclaimed as
+   * orphaned cannot overwrite what the new owner does with it.
+   */
+  private heldBy(id: string, workerId: string | null): SQL {
+    return and(
+      eq(crawlJobs.id, id),
+      eq(crawlJobs.status, 'processing'),
+      workerId !== null ? eq(crawlJobs.lockedBy, workerId) : isNull(crawlJobs.lockedBy)
+    )!;
+  }
+
+  /**
+   * Queue an audit for processing and link it to its audit record
+   */
+  async enqueueAudit(config: AuditJobConfig, options: {
+    userId?: string | null;
+    maxRetries?: number;
+  } = {}): Promise<CrawlJob> {
+    try {
+      const database = this.getDatabase();
+
+      const [job] = await database
+        .insert(crawlJobs)
+        .values({
+          id: `audit_${config.auditId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: `Rival audit #${config.auditId}`,
+          type: RIVAL_AUDIT_JOB_TYPE,
+          schedule: 'once', // one-off job, never picked up by the cron scheduler
+          isActive: false,
+          status: 'queued',
+          config,
+          nextRun: new Date(),
+          maxRetries: options.maxRetries ?? 3,
+          createdBy: options.userId || null
+        })
+        .returning();
+
+      await database
+        .update(rivalAudits)
+        .set({ crawlJobId: job.id, updatedAt: new Date() })
+        .where(eq(rivalAudits.id, config.auditId));
+
+      console.log(`📥 Queued audit job ${job.id} for audit ${config.auditId}`);
+      return job;
+    } catch (error) {
+      console.error(`❌ Failed to queue audit ${config.auditId}:`, error);
+      throw new Error(`Failed to queue audit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(id: string): Promise<CrawlJob | undefined> {
+    const database = this.getDatabase();
+
+    const [job] = await database
+      .select()
+      .from(crawlJobs)
+      .where(eq(crawlJobs.id, id));
+
+    return job;
+  }
+
+  /**
+   * Claim the next due job for a worker.
+   * The claim only succeeds if the row is still queued, so two workers
+   * racing for the same job cannot both win it.
+   */
+  async claimNextJob(workerId: string): Promise<CrawlJob | undefined> {
+    const database = this.getDatabase();
+    const now = new Date();
+
+    const candidates = await database
+      .select({ id: crawlJobs.id })
+      .from(crawlJobs)
+      .where(
+        and(
+          eq(crawlJobs.type, RIVAL_AUDIT_JOB_TYPE),
+          eq(crawlJobs.status, 'queued'),
+          or(isNull(crawlJobs.nextRun), lte(crawlJobs.nextRun, now))
+        )
+      )
+      .orderBy(asc(crawlJobs.nextRun), asc(crawlJobs.createdAt))
+      .limit(5);
+
+    for (const candidate of candidates) {
+      const [job] = await database
+        .update(crawlJobs)
+        .set({
+          status: 'processing',
+          lockedBy: workerId,
+          lockedAt: now,
+          lastRun: now,
+          updatedAt: now
+        })
+        .where(and(eq(crawlJobs.id, candidate.id), eq(crawlJobs.status, 'queued')))
+        .returning();
+
+      if (job) {
+        return job;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Refresh the lock of jobs held by a worker.
+   * Returns the IDs of those jobs that have a pending cancellation request.
+   */
+  async heartbeat(workerId: string, jobIds: string[]): Promise<string[]> {
+    if (jobIds.length === 0) return [];
+
+    const database = this.getDatabase();
+
+    const jobs = await database
+      .update(crawlJobs)
+      .set({ lockedAt: new Date() })
+      .where(
+        and(
+          eq(crawlJobs.lockedBy, workerId),
+          eq(crawlJobs.status, 'processing'),
+          inArray(crawlJobs.id, jobIds)
+        )
+      )
+      .returning({ id: crawlJobs.id, cancelRequested: crawlJobs.cancelRequested });
+
+    return jobs
+      .filter((job: { cancelRequested: boolean }) => job.cancelRequested)
+      .map((job: { id: string }) => job.id);
+  }
+
+  /**
+   * Mark a job held by a worker as completed and update its run statistics.
+   * Returns undefined when the worker no longer holds the job.
+   */
+  async completeJob(id: string, workerId: string | null, durationMs: number): Promise<CrawlJob | undefined> {
+    const database = this.getDatabase();
+
+    const [job] = await database
+      .update(crawlJobs)
+      .set({
+        status: 'completed',
+        lockedBy: null,
+        lockedAt: null,
+        lastError: null,
+        successCount: sql`${crawlJobs.successCount} + 1`,
+        averageDuration: sql`(${crawlJobs.averageDuration} * ${crawlJobs.successCount} + ${durationMs}) / (${crawlJobs.successCount} + 1)`,
+        updatedAt: new Date()
+      })
+      .where(this.heldBy(id, workerId))
+      .returning();
+
+    return job;
+  }
+
+  /**
+   * Put a failed job held by a worker back in the queue to run again at nextRun.
+   * Returns undefined when the worker no longer holds the job.
+   */
+  async retryJob(id: string, workerId: string | null, errorMessage: string, nextRun: Date): Promise<CrawlJob | undefined> {
+    const database = this.getDatabase();
+
+    const [job] = await database
+      .update(crawlJobs)
+      .set({
+        status: 'queued',
+        lockedBy: null,
+        lockedAt: null,
+        lastError: errorMessage,
+        nextRun,
+        retryAttempts: sql`${crawlJobs.retryAttempts} + 1`,
+        errorCount: sql`${crawlJobs.errorCount} + 1`,
+        updatedAt: new Date()
+      })
+      .where(this.heldBy(id, workerId))
+      .returning();
+
+    return job;
+  }
+
+  /**
+   * Mark a job held by a worker as permanently failed.
+   * Returns undefined when the worker no longer holds the job.
+   */
+  async failJob(id: string, workerId: string | null, errorMessage: string): Promise<CrawlJob | undefined> {
+    const database = this.getDatabase();
+
+    const [job] = await database
+      .update(crawlJobs)
+      .set({
+        status: 'failed',
+        lockedBy: null,
+        lockedAt: null,
+        lastError: errorMessage,
+        errorCount: sql`${crawlJobs.errorCount} + 1`,
+        updatedAt: new Date()
+      })
+      .where(this.heldBy(id, workerId))
+      .returning();
+
+    return job;
+  }
+
+  /**
+   * Mark a job as cancelled
+   */
+  async cancelJob(id: string): Promise<CrawlJob> {
+    const database = this.getDatabase();
+
+    const [job] = await database
+      .update(crawlJobs)
+      .set({
+        status: 'cancelled',
+        cancelRequested: true,
+        lockedBy: null,
+        lockedAt: null,
+        updatedAt: new Date()
+      })
+      .where(eq(crawlJobs.id, id))
+      .returning();
+
+    return job;
+  }
+
+  /**
+   * Request cancellation of a job.
+   * Queued jobs are cancelled straight away; running jobs are flagged and
+   * stopped by the worker that holds them on its next heartbeat.
+   */
+  async requestCancel(id: string): Promise<CrawlJob | undefined> {
+    const database = this.getDatabase();
+
+    const [queuedJob] = await database
+      .update(crawlJobs)
+      .set({ status: 'cancelled', cancelRequested: true, updatedAt: new Date() })
+      .where(and(eq(crawlJobs.id, id), eq(crawlJobs.status, 'queued')))
+      .returning();
+
+    if (queuedJob) {
+      return queuedJob;
+    }
+
+    const [runningJob] = await database
+      .update(crawlJobs)
+      .set({ cancelRequested: true, updatedAt: new Date() })
+      .where(and(eq(crawlJobs.id, id), eq(crawlJobs.status, 'processing')))
+      .returning();
+
+    return runningJob;
+  }
+
+  /**
+   * Return jobs held by a worker to the queue without counting a retry
+   * (used on graceful shutdown)
+   */
+  async releaseJobs(workerId: string): Promise<CrawlJob[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .update(crawlJobs)
+      .set({ status: 'queued', lockedBy: null, lockedAt: null, updatedAt: new Date() })
+      .where(
+        and(
+          eq(crawlJobs.type, RIVAL_AUDIT_JOB_TYPE),
+          eq(crawlJobs.status, 'processing'),
+          eq(crawlJobs.lockedBy, workerId)
+        )
+      )
+      .returning();
+  }
+
+  /**
+   * Find processing jobs whose worker stopped sending heartbeats
+   */
+  async getStaleJobs(staleBefore: Date): Promise<CrawlJob[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(crawlJobs)
+      .where(
+        and(
+          eq(crawlJobs.type, RIVAL_AUDIT_JOB_TYPE),
+          eq(crawlJobs.status, 'processing'),
+          or(isNull(crawlJobs.lockedAt), lt(crawlJobs.lockedAt, staleBefore))
+        )
+      );
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getQueueStats(): Promise<{
+    queued: number;
+    processing: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+  }> {
+    const database = this.getDatabase();
+
+    const stats = await database
+      .select({
+        status: crawlJobs.status,
+        count: count()
+      })
+      .from(crawlJobs)
+      .where(eq(crawlJobs.type, RIVAL_AUDIT_JOB_TYPE))
+      .groupBy(crawlJobs.status);
+
+    const result = {
+      queued: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+      cancelled: 0
+    };
+
+    stats.forEach((stat: any) => {
+      if (stat.status in result) {
+        result[stat.status as keyof typeof result] = Number(stat.count);
+      }
+    });
+
+    return result;
+  }
+}
+
+// Singleton instance
+export const auditJobRepository = new AuditJobRepository();
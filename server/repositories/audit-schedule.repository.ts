@@ -0,0 +1,140 @@
+import { db as getDb } from '../db';
+import {
+  projectAuditSchedules,
+  ProjectAuditSchedule,
+  InsertProjectAuditSchedule
+} from '../../shared/schema';
+import { eq, and, lte, asc } from 'drizzle-orm';
+
+/**
+ * Repository for recurring project audit schedules
+ */
+export class AuditScheduleRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * Create a schedule whose first run is at nextRunAt
+   */
+  async createSchedule(
+    data: InsertProjectAuditSchedule & { createdBy?: string | null },
+    nextRunAt: Date
+  ): Promise<ProjectAuditSchedule> {
+    const database = this.getDatabase();
+
+    const [schedule] = await database
+      .insert(projectAuditSchedules)
+      .values({ ...data, nextRunAt })
+      .returning();
+
+    console.log(`📅 Created ${schedule.frequency} audit schedule ${schedule.id} for project ${schedule.projectId}`);
+    return schedule;
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  async getSchedule(id: number): Promise<ProjectAuditSchedule | undefined> {
+    const database = this.getDatabase();
+
+    const [schedule] = await database
+      .select()
+      .from(projectAuditSchedules)
+      .where(eq(projectAuditSchedules.id, id));
+
+    return schedule;
+  }
+
+  /**
+   * Get all schedules of a project
+   */
+  async getSchedulesByProject(projectId: number): Promise<ProjectAuditSchedule[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(projectAuditSchedules)
+      .where(eq(projectAuditSchedules.projectId, projectId))
+      .orderBy(asc(projectAuditSchedules.createdAt));
+  }
+
+  /**
+   * Update a schedule
+   */
+  async updateSchedule(
+    id: number,
+    updates: Partial<Omit<ProjectAuditSchedule, 'id' | 'projectId' | 'createdAt'>>
+  ): Promise<ProjectAuditSchedule | undefined> {
+    const database = this.getDatabase();
+
+    const [schedule] = await database
+      .update(projectAuditSchedules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(projectAuditSchedules.id, id))
+      .returning();
+
+    return schedule;
+  }
+
+  /**
+   * Delete a schedule. Audits it produced are kept.
+   */
+  async deleteSchedule(id: number): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const deleted = await database
+      .delete(projectAuditSchedules)
+      .where(eq(projectAuditSchedules.id, id))
+      .returning({ id: projectAuditSchedules.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Get active schedules that are due to run
+   */
+  async getDueSchedules(now: Date = new Date()): Promise<ProjectAuditSchedule[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(projectAuditSchedules)
+      .where(
+        and(
+          eq(projectAuditSchedules.isActive, true),
+          lte(projectAuditSchedules.nextRunAt, now)
+        )
+      )
+      .orderBy(asc(projectAuditSchedules.nextRunAt));
+  }
+
+  /**
+   * Claim a due run by moving nextRunAt forward.
+   * Only succeeds if nextRunAt is unchanged, so a run is started by one
+   * server even when several instances check the schedules.
+   */
+  async claimRun(schedule: ProjectAuditSchedule, nextRunAt: Date): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const claimed = await database
+      .update(projectAuditSchedules)
+      .set({ nextRunAt, lastRunAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(projectAuditSchedules.id, schedule.id),
+          eq(projectAuditSchedules.nextRunAt, schedule.nextRunAt)
+        )
+      )
+      .returning({ id: projectAuditSchedules.id });
+
+    return claimed.length > 0;
+  }
+}
+
+// Singleton instance
+export const auditScheduleRepository = new AuditScheduleRepository();
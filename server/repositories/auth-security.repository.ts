@@ -0,0 +1,450 @@
+import { db as getDb } from '../db';
+import {
+  userSessions,
+  refreshTokens,
+  loginAttempts,
+  accountLockouts,
+  userTwoFactor,
+  UserSession,
+  RefreshToken,
+  LoginAttempt,
+  AccountLockout,
+  UserTwoFactor
+} from '../../shared/schema';
+import { eq, and, or, lt, gt, gte, desc, count, inArray, isNull, sql } from 'drizzle-orm';
+
+/**
+ * Repository for login sessions, refresh tokens, login attempts, account
+ * lockouts and two-factor enrolments
+ */
+export class AuthSecurityRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * Store a new login session
+   */
+  async createSession(data: typeof userSessions.$inferInsert): Promise<UserSession> {
+    const database = this.getDatabase();
+
+    const [session] = await database
+      .insert(userSessions)
+      .values(data)
+      .returning();
+
+    return session;
+  }
+
+  /**
+   * Get a session by ID
+   */
+  async getSession(id: string): Promise<UserSession | undefined> {
+    const database = this.getDatabase();
+
+    const [session] = await database
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.id, id));
+
+    return session;
+  }
+
+  /**
+   * Sessions of a user, most recently active first
+   */
+  async getSessionsByUser(userId: string): Promise<UserSession[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.userId, userId))
+      .orderBy(desc(userSessions.lastActivity));
+  }
+
+  /**
+   * Record activity on a session
+   */
+  async touchSession(id: string, lastActivity: Date): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .update(userSessions)
+      .set({ lastActivity })
+      .where(eq(userSessions.id, id));
+  }
+
+  /**
+   * Delete sessions and revoke their refresh tokens
+   */
+  async deleteSessions(ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    const database = this.getDatabase();
+
+    await database
+      .update(refreshTokens)
+      .set({ isRevoked: true })
+      .where(inArray(refreshTokens.sessionId, ids));
+
+    const result = await database
+      .delete(userSessions)
+      .where(inArray(userSessions.id, ids))
+      .returning();
+
+    return result.length;
+  }
+
+  /**
+   * Delete sessions with no activity since the cutoff
+   */
+  async deleteIdleSessions(cutoff: Date): Promise<number> {
+    const database = this.getDatabase();
+
+    const result = await database
+      .delete(userSessions)
+      .where(lt(userSessions.lastActivity, cutoff))
+      .returning();
+
+    return result.length;
+  }
+
+  /**
+   * Store a refresh token by its hash
+   */
+  async createRefreshToken(data: typeof refreshTokens.$inferInsert): Promise<RefreshToken> {
+    const database = this.getDatabase();
+
+    const [token] = await database
+      .insert(refreshTokens)
+      .values(data)
+      .returning();
+
+    return token;
+  }
+
+  /**
+   * Get a refresh token by its hash
+   */
+  async getRefreshToken(tokenHash: string): Promise<RefreshToken | undefined> {
+    const database = this.getDatabase();
+
+    const [token] = await database
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, tokenHash));
+
+    return token;
+  }
+
+  /**
+   * Delete a refresh token by its hash
+   */
+  async deleteRefreshToken(tokenHash: string): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .delete(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, tokenHash));
+  }
+
+  /**
+   * Revoke every refresh token of a session
+   */
+  async revokeRefreshTokensBySession(sessionId: string): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .update(refreshTokens)
+      .set({ isRevoked: true })
+      .where(eq(refreshTokens.sessionId, sessionId));
+  }
+
+  /**
+   * Revoke every refresh token of a user
+   */
+  async revokeRefreshTokensByUser(userId: string): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .update(refreshTokens)
+      .set({ isRevoked: true })
+      .where(eq(refreshTokens.userId, userId));
+  }
+
+  /**
+   * Delete refresh tokens that expired before the cutoff
+   */
+  async deleteExpiredRefreshTokens(cutoff: Date): Promise<number> {
+    const database = this.getDatabase();
+
+    const result = await database
+      .delete(refreshTokens)
+      .where(lt(refreshTokens.expiresAt, cutoff))
+      .returning();
+
+    return result.length;
+  }
+
+  /**
+   * Record a login attempt
+   */
+  async createLoginAttempt(data: typeof loginAttempts.$inferInsert): Promise<LoginAttempt> {
+    const database = this.getDatabase();
+
+    const [attempt] = await database
+      .insert(loginAttempts)
+      .values(data)
+      .returning();
+
+    return attempt;
+  }
+
+  /**
+   * The latest login attempts for an email from an IP address, oldest first
+   */
+  async getRecentLoginAttempts(email: string, ipAddress: string, limit: number): Promise<LoginAttempt[]> {
+    const database = this.getDatabase();
+
+    const attempts = await database
+      .select()
+      .from(loginAttempts)
+      .where(and(eq(loginAttempts.email, email), eq(loginAttempts.ipAddress, ipAddress)))
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(limit);
+
+    return attempts.reverse();
+  }
+
+  /**
+   * The latest second-factor attempts for an account from any IP address, oldest first
+   */
+  async getRecentSecondFactorAttempts(email: string, limit: number): Promise<LoginAttempt[]> {
+    const database = this.getDatabase();
+
+    const attempts = await database
+      .select()
+      .from(loginAttempts)
+      .where(and(eq(loginAttempts.email, email), eq(loginAttempts.secondFactor, true)))
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(limit);
+
+    return attempts.reverse();
+  }
+
+  /**
+   * The second-factor attempts made with a pre-auth token
+   */
+  async getPreAuthTokenAttempts(preAuthTokenId: string): Promise<LoginAttempt[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(loginAttempts)
+      .where(eq(loginAttempts.preAuthTokenId, preAuthTokenId));
+  }
+
+  /**
+   * Delete login attempts made before the cutoff
+   */
+  async deleteLoginAttemptsBefore(cutoff: Date): Promise<number> {
+    const database = this.getDatabase();
+
+    const result = await database
+      .delete(loginAttempts)
+      .where(lt(loginAttempts.createdAt, cutoff))
+      .returning();
+
+    return result.length;
+  }
+
+  /**
+   * Get the lockout of an account
+   */
+  async getLockout(email: string): Promise<AccountLockout | undefined> {
+    const database = this.getDatabase();
+
+    const [lockout] = await database
+      .select()
+      .from(accountLockouts)
+      .where(eq(accountLockouts.email, email));
+
+    return lockout;
+  }
+
+  /**
+   * Lock an account, or extend its lockout
+   */
+  async upsertLockout(lockout: AccountLockout): Promise<void> {
+    const database = this.getDatabase();
+    const { email, ...updates } = lockout;
+
+    await database
+      .insert(accountLockouts)
+      .values(lockout)
+      .onConflictDoUpdate({
+        target: accountLockouts.email,
+        set: updates
+      });
+  }
+
+  /**
+   * Lift the lockout of an account
+   */
+  async deleteLockout(email: string): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .delete(accountLockouts)
+      .where(eq(accountLockouts.email, email));
+  }
+
+  /**
+   * Delete lockouts that ended before the cutoff
+   */
+  async deleteExpiredLockouts(cutoff: Date): Promise<number> {
+    const database = this.getDatabase();
+
+    const result = await database
+      .delete(accountLockouts)
+      .where(lt(accountLockouts.lockedUntil, cutoff))
+      .returning();
+
+    return result.length;
+  }
+
+  /**
+   * Get the two-factor enrolment of a user
+   */
+  async getTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const database = this.getDatabase();
+
+    const [twoFactor] = await database
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId));
+
+    return twoFactor;
+  }
+
+  /**
+   * Start a two-factor enrolment, replacing any earlier one
+   */
+  async upsertTwoFactor(data: typeof userTwoFactor.$inferInsert): Promise<UserTwoFactor> {
+    const database = this.getDatabase();
+    const { userId, ...updates } = data;
+
+    const [twoFactor] = await database
+      .insert(userTwoFactor)
+      .values(data)
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: updates
+      })
+      .returning();
+
+    return twoFactor;
+  }
+
+  /**
+   * Update the two-factor enrolment of a user
+   */
+  async updateTwoFactor(userId: string, updates: Partial<Omit<UserTwoFactor, 'userId'>>): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .update(userTwoFactor)
+      .set(updates)
+      .where(eq(userTwoFactor.userId, userId));
+  }
+
+  /**
+   * Record the time step of an accepted authenticator code, unless that step
+   * or a later one was already used
+   */
+  async recordTotpStep(userId: string, step: number, usedAt: Date): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const result = await database
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step, lastUsed: usedAt })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+      ))
+      .returning();
+
+    return result.length > 0;
+  }
+
+  /**
+   * Remove a backup code hash, so the code works once even for concurrent logins
+   */
+  async consumeBackupCode(userId: string, codeHash: string, usedAt: Date): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const result = await database
+      .update(userTwoFactor)
+      .set({
+        backupCodes: sql`${userTwoFactor.backupCodes} - ${codeHash}::text`,
+        lastUsed: usedAt
+      })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        sql`${userTwoFactor.backupCodes} @> ${JSON.stringify([codeHash])}::jsonb`
+      ))
+      .returning();
+
+    return result.length > 0;
+  }
+
+  /**
+   * Remove the two-factor enrolment of a user
+   */
+  async deleteTwoFactor(userId: string): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .delete(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId));
+  }
+
+  /**
+   * Counts for the security statistics
+   */
+  async getSecurityCounts(now: Date, idleCutoff: Date, attemptsSince: Date): Promise<{
+    activeSessions: number;
+    activeTokens: number;
+    lockedAccounts: number;
+    twoFactorUsers: number;
+    recentLoginAttempts: number;
+  }> {
+    const database = this.getDatabase();
+
+    const [[sessions], [tokens], [lockouts], [twoFactorUsers], [attempts]] = await Promise.all([
+      database.select({ value: count() }).from(userSessions).where(gte(userSessions.lastActivity, idleCutoff)),
+      database.select({ value: count() }).from(refreshTokens)
+        .where(and(eq(refreshTokens.isRevoked, false), gt(refreshTokens.expiresAt, now))),
+      database.select({ value: count() }).from(accountLockouts).where(gt(accountLockouts.lockedUntil, now)),
+      database.select({ value: count() }).from(userTwoFactor).where(eq(userTwoFactor.enabled, true)),
+      database.select({ value: count() }).from(loginAttempts).where(gte(loginAttempts.createdAt, attemptsSince))
+    ]);
+
+    return {
+      activeSessions: sessions.value,
+      activeTokens: tokens.value,
+      lockedAccounts: lockouts.value,
+      twoFactorUsers: twoFactorUsers.value,
+      recentLoginAttempts: attempts.value
+    };
+  }
+}
+
+// Singleton instance
+export const authSecurityRepository = new AuthSecurityRepository();
@@ -0,0 +1,379 @@
+import { db as getDb } from '../db';
+import {
+  backlinkProfiles,
+  backlinks,
+  backlinkHistory,
+  outgoingLinks,
+  BacklinkProfile,
+  Backlink,
+  InsertBacklink,
+  BacklinkHistory,
+  OutgoingLink,
+  InsertOutgoingLink
+} from '../../shared/schema';
+import { eq, ne, and, or, isNull, lt, desc, asc, sql } from 'drizzle-orm';
+import { AccessScope } from '../types/workspace';
+
+// Rows per insert statement when storing links
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Repository for backlink profiles, their backlinks and outgoing links, and history
+ */
+export class BacklinkRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * Create a backlink profile
+   */
+  async createProfile(data: typeof backlinkProfiles.$inferInsert): Promise<BacklinkProfile> {
+    const database = this.getDatabase();
+
+    const [profile] = await database
+      .insert(backlinkProfiles)
+      .values(data)
+      .returning();
+
+    console.log(`🔗 Created backlink profile ${profile.id} for ${profile.domain}`);
+    return profile;
+  }
+
+  /**
+   * Get a profile by ID
+   */
+  async getProfile(id: number): Promise<BacklinkProfile | undefined> {
+    const database = this.getDatabase();
+
+    const [profile] = await database
+      .select()
+      .from(backlinkProfiles)
+      .where(eq(backlinkProfiles.id, id));
+
+    return profile;
+  }
+
+  /**
+   * Get the profiles of a workspace, or a user's personal profiles
+   */
+  async getProfilesByScope(scope: AccessScope): Promise<BacklinkProfile[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(backlinkProfiles)
+      .where(scope.workspaceId !== null
+        ? eq(backlinkProfiles.workspaceId, scope.workspaceId)
+        : and(eq(backlinkProfiles.userId, scope.userId), isNull(backlinkProfiles.workspaceId)))
+      .orderBy(asc(backlinkProfiles.domain));
+  }
+
+  /**
+   * Get a project's profiles
+   */
+  async getProfilesByProject(projectId: number): Promise<BacklinkProfile[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(backlinkProfiles)
+      .where(eq(backlinkProfiles.projectId, projectId))
+      .orderBy(asc(backlinkProfiles.domain));
+  }
+
+  /**
+   * Update a profile
+   */
+  async updateProfile(
+    id: number,
+    updates: Partial<Omit<BacklinkProfile, 'id' | 'userId' | 'workspaceId' | 'createdAt'>>
+  ): Promise<BacklinkProfile | undefined> {
+    const database = this.getDatabase();
+
+    const [profile] = await database
+      .update(backlinkProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(backlinkProfiles.id, id))
+      .returning();
+
+    return profile;
+  }
+
+  /**
+   * Delete a profile with its backlinks, outgoing links and history
+   */
+  async deleteProfile(id: number): Promise<boolean> {
+    const database = this.getDatabase();
+
+    await database.delete(outgoingLinks).where(eq(outgoingLinks.profileId, id));
+    await database.delete(backlinks).where(eq(backlinks.profileId, id));
+    await database.delete(backlinkHistory).where(eq(backlinkHistory.profileId, id));
+
+    const deleted = await database
+      .delete(backlinkProfiles)
+      .where(eq(backlinkProfiles.id, id))
+      .returning({ id: backlinkProfiles.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Profiles never scanned or last scanned before `scannedBefore`
+   */
+  async getProfilesScannedBefore(scannedBefore: Date): Promise<BacklinkProfile[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(backlinkProfiles)
+      .where(or(isNull(backlinkProfiles.lastScanAt), lt(backlinkProfiles.lastScanAt, scannedBefore)))
+      .orderBy(asc(backlinkProfiles.id));
+  }
+
+  /**
+   * Claim a profile's scan by setting lastScanAt.
+   * Only succeeds if lastScanAt is unchanged, so each scan runs on one
+   * server even when several instances look for due profiles.
+   */
+  async claimScan(profile: BacklinkProfile, scannedAt: Date): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const claimed = await database
+      .update(backlinkProfiles)
+      .set({ lastScanAt: scannedAt })
+      .where(
+        and(
+          eq(backlinkProfiles.id, profile.id),
+          profile.lastScanAt ? eq(backlinkProfiles.lastScanAt, profile.lastScanAt) : isNull(backlinkProfiles.lastScanAt)
+        )
+      )
+      .returning({ id: backlinkProfiles.id });
+
+    return claimed.length > 0;
+  }
+
+  /**
+   * Store the links found by a scan. Links whose target was checked get its
+   * status; the others keep the status of their last check.
+   */
+  async saveOutgoingLinks(links: Array<InsertOutgoingLink & { lastChecked: Date }>, checked: boolean): Promise<void> {
+    const database = this.getDatabase();
+
+    for (let i = 0; i < links.length; i += INSERT_BATCH_SIZE) {
+      await database
+        .insert(outgoingLinks)
+        .values(links.slice(i, i + INSERT_BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: [outgoingLinks.profileId, outgoingLinks.sourceUrl, outgoingLinks.targetUrl],
+          set: {
+            lastChecked: sql`excluded.last_checked`,
+            anchorText: sql`excluded.anchor_text`,
+            isDofollow: sql`excluded.is_dofollow`,
+            rel: sql`excluded.rel`,
+            linkPosition: sql`excluded.link_position`,
+            ...(checked ? {
+              status: sql`excluded.status`,
+              statusCode: sql`excluded.status_code`,
+              redirectUrl: sql`excluded.redirect_url`
+            } : {})
+          }
+        });
+    }
+  }
+
+  /**
+   * Delete links not found by the scan that started at `scannedAt`
+   */
+  async deleteLinksNotSeenSince(profileId: number, scannedAt: Date): Promise<number> {
+    const database = this.getDatabase();
+
+    const deleted = await database
+      .delete(outgoingLinks)
+      .where(and(eq(outgoingLinks.profileId, profileId), lt(outgoingLinks.lastChecked, scannedAt)))
+      .returning({ id: outgoingLinks.id });
+
+    return deleted.length;
+  }
+
+  /**
+   * Outgoing links of a profile, optionally with one status
+   */
+  async getOutgoingLinks(profileId: number, status?: string): Promise<OutgoingLink[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(outgoingLinks)
+      .where(
+        and(
+          eq(outgoingLinks.profileId, profileId),
+          status ? eq(outgoingLinks.status, status) : undefined
+        )
+      )
+      .orderBy(asc(outgoingLinks.targetDomain), asc(outgoingLinks.targetUrl), asc(outgoingLinks.sourceUrl));
+  }
+
+  /**
+   * Number of a profile's outgoing links per status
+   */
+  async getOutgoingLinkCounts(profileId: number): Promise<{ total: number; broken: number; redirected: number }> {
+    const database = this.getDatabase();
+
+    const rows: Array<{ status: string | null; count: number }> = await database
+      .select({ status: outgoingLinks.status, count: sql<number>`count(*)::int` })
+      .from(outgoingLinks)
+      .where(eq(outgoingLinks.profileId, profileId))
+      .groupBy(outgoingLinks.status);
+
+    const countOf = (status: string) => rows.find(row => row.status === status)?.count || 0;
+    return {
+      total: rows.reduce((sum, row) => sum + row.count, 0),
+      broken: countOf('broken'),
+      redirected: countOf('redirected')
+    };
+  }
+
+  /**
+   * Backlinks of a profile, optionally with one status
+   */
+  async getBacklinks(profileId: number, status?: string): Promise<Backlink[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(backlinks)
+      .where(
+        and(
+          eq(backlinks.profileId, profileId),
+          status ? eq(backlinks.status, status) : undefined
+        )
+      )
+      .orderBy(asc(backlinks.sourceDomain), asc(backlinks.sourceUrl), asc(backlinks.targetUrl));
+  }
+
+  /**
+   * Source and target of every backlink of a profile
+   */
+  async getBacklinkKeys(profileId: number): Promise<Array<{ sourceUrl: string; targetUrl: string }>> {
+    const database = this.getDatabase();
+
+    return await database
+      .select({ sourceUrl: backlinks.sourceUrl, targetUrl: backlinks.targetUrl })
+      .from(backlinks)
+      .where(eq(backlinks.profileId, profileId));
+  }
+
+  /**
+   * Store imported backlinks as active, keeping when each was first discovered
+   */
+  async saveBacklinks(links: Array<InsertBacklink & { lastChecked: Date }>): Promise<void> {
+    const database = this.getDatabase();
+
+    for (let i = 0; i < links.length; i += INSERT_BATCH_SIZE) {
+      await database
+        .insert(backlinks)
+        .values(links.slice(i, i + INSERT_BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: [backlinks.profileId, backlinks.sourceUrl, backlinks.targetUrl],
+          set: {
+            lastChecked: sql`excluded.last_checked`,
+            status: 'active',
+            anchorText: sql`excluded.anchor_text`,
+            isDofollow: sql`excluded.is_dofollow`,
+            pageAuthority: sql`excluded.page_authority`,
+            domainAuthority: sql`excluded.domain_authority`,
+            linkType: sql`excluded.link_type`
+          }
+        });
+    }
+  }
+
+  /**
+   * Mark backlinks missing from the import at `importedAt` as lost
+   */
+  async markBacklinksLost(profileId: number, importedAt: Date): Promise<number> {
+    const database = this.getDatabase();
+
+    const lost = await database
+      .update(backlinks)
+      .set({ status: 'lost' })
+      .where(
+        and(
+          eq(backlinks.profileId, profileId),
+          lt(backlinks.lastChecked, importedAt),
+          ne(backlinks.status, 'lost')
+        )
+      )
+      .returning({ id: backlinks.id });
+
+    return lost.length;
+  }
+
+  /**
+   * Number of a profile's active backlinks, split by dofollow and nofollow
+   */
+  async getBacklinkCounts(profileId: number): Promise<{ total: number; dofollow: number; nofollow: number }> {
+    const database = this.getDatabase();
+
+    const rows: Array<{ isDofollow: boolean | null; count: number }> = await database
+      .select({ isDofollow: backlinks.isDofollow, count: sql<number>`count(*)::int` })
+      .from(backlinks)
+      .where(and(eq(backlinks.profileId, profileId), eq(backlinks.status, 'active')))
+      .groupBy(backlinks.isDofollow);
+
+    const dofollow = rows.find(row => row.isDofollow)?.count || 0;
+    const total = rows.reduce((sum, row) => sum + row.count, 0);
+    return { total, dofollow, nofollow: total - dofollow };
+  }
+
+  /**
+   * Domains with the most active backlinks to a profile
+   */
+  async getTopReferringDomains(profileId: number, limit: number = 10): Promise<Array<{ domain: string; backlinks: number }>> {
+    const database = this.getDatabase();
+
+    return await database
+      .select({ domain: backlinks.sourceDomain, backlinks: sql<number>`count(*)::int` })
+      .from(backlinks)
+      .where(and(eq(backlinks.profileId, profileId), eq(backlinks.status, 'active')))
+      .groupBy(backlinks.sourceDomain)
+      .orderBy(desc(sql`count(*)`), asc(backlinks.sourceDomain))
+      .limit(limit);
+  }
+
+  /**
+   * Record a snapshot of a profile after a scan or import
+   */
+  async createHistorySnapshot(snapshot: typeof backlinkHistory.$inferInsert): Promise<BacklinkHistory> {
+    const database = this.getDatabase();
+
+    const [history] = await database
+      .insert(backlinkHistory)
+      .values(snapshot)
+      .returning();
+
+    return history;
+  }
+
+  /**
+   * A profile's scan snapshots, newest first
+   */
+  async getHistory(profileId: number, limit: number = 52): Promise<BacklinkHistory[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(backlinkHistory)
+      .where(eq(backlinkHistory.profileId, profileId))
+      .orderBy(desc(backlinkHistory.scanDate))
+      .limit(limit);
+  }
+}
+
+// Singleton instance
+export const backlinkRepository = new BacklinkRepository();
@@ -0,0 +1,99 @@
+import { db as getDb } from '../db';
+import {
+  competitorComparisons,
+  CompetitorComparison,
+  CompetitorGapReport
+} from '../../shared/schema';
+import { eq, desc } from 'drizzle-orm';
+
+/**
+ * Repository for head-to-head comparisons of a site with its competitors
+ */
+export class CompetitorComparisonRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * Create a comparison of the site's audit with the competitors' audits
+   */
+  async createComparison(data: typeof competitorComparisons.$inferInsert): Promise<CompetitorComparison> {
+    const database = this.getDatabase();
+
+    const [comparison] = await database
+      .insert(competitorComparisons)
+      .values(data)
+      .returning();
+
+    console.log(`🥊 Created competitor comparison ${comparison.id} with ${comparison.competitorAuditIds.length} competitors`);
+    return comparison;
+  }
+
+  /**
+   * Get a comparison by ID
+   */
+  async getComparison(id: number): Promise<CompetitorComparison | undefined> {
+    const database = this.getDatabase();
+
+    const [comparison] = await database
+      .select()
+      .from(competitorComparisons)
+      .where(eq(competitorComparisons.id, id));
+
+    return comparison;
+  }
+
+  /**
+   * Get a user's comparisons, newest first
+   */
+  async getComparisonsByUser(userId: string, limit: number = 20): Promise<CompetitorComparison[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(competitorComparisons)
+      .where(eq(competitorComparisons.userId, userId))
+      .orderBy(desc(competitorComparisons.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Record how a comparison finished, with its report when the audits could be compared
+   */
+  async finishComparison(
+    id: number,
+    status: 'completed' | 'failed',
+    report: CompetitorGapReport | null
+  ): Promise<CompetitorComparison | undefined> {
+    const database = this.getDatabase();
+
+    const [comparison] = await database
+      .update(competitorComparisons)
+      .set({ status, report, completedAt: new Date() })
+      .where(eq(competitorComparisons.id, id))
+      .returning();
+
+    return comparison;
+  }
+
+  /**
+   * Delete a comparison
+   */
+  async deleteComparison(id: number): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const deleted = await database
+      .delete(competitorComparisons)
+      .where(eq(competitorComparisons.id, id))
+      .returning({ id: competitorComparisons.id });
+
+    return deleted.length > 0;
+  }
+}
+
+// Singleton instance
+export const competitorComparisonRepository = new CompetitorComparisonRepository();
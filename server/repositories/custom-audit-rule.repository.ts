@@ -0,0 +1,143 @@
+import { db as getDb } from '../db';
+import {
+  customAuditRules,
+  projects,
+  workspaceMembers,
+  CustomAuditRule,
+  InsertCustomAuditRule
+} from '../../shared/schema';
+import { eq, and, or, isNull, asc, exists } from 'drizzle-orm';
+
+/**
+ * Repository for agency-defined custom audit rules
+ */
+export class CustomAuditRuleRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * Create a rule owned by a user, optionally scoped to one of their projects
+   */
+  async createRule(userId: string, data: InsertCustomAuditRule): Promise<CustomAuditRule> {
+    const database = this.getDatabase();
+
+    const [rule] = await database
+      .insert(customAuditRules)
+      .values({ ...data, userId })
+      .returning();
+
+    console.log(`📐 Created custom audit rule ${rule.id} "${rule.name}" for user ${userId}`);
+    return rule;
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  async getRule(id: number): Promise<CustomAuditRule | undefined> {
+    const database = this.getDatabase();
+
+    const [rule] = await database
+      .select()
+      .from(customAuditRules)
+      .where(eq(customAuditRules.id, id));
+
+    return rule;
+  }
+
+  /**
+   * Get a user's rules; with a projectId, only the rules scoped to that project
+   */
+  async getRulesByUser(userId: string, projectId?: number): Promise<CustomAuditRule[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(customAuditRules)
+      .where(
+        projectId !== undefined
+          ? and(eq(customAuditRules.userId, userId), eq(customAuditRules.projectId, projectId))
+          : eq(customAuditRules.userId, userId)
+      )
+      .orderBy(asc(customAuditRules.createdAt));
+  }
+
+  /**
+   * Get the active rules that apply to an audit: the account-wide rules of the
+   * user who started it plus the rules of the audited project. Project rules
+   * apply whoever created them, as long as their creator can still access the
+   * project: its owner, or a member of the workspace it is shared with.
+   */
+  async getRulesForAudit(userId: string | null, projectId?: number | null): Promise<CustomAuditRule[]> {
+    if (!userId && !projectId) {
+      return [];
+    }
+    const database = this.getDatabase();
+
+    const creatorCanAccessProject = or(
+      and(isNull(projects.workspaceId), eq(projects.userId, customAuditRules.userId)),
+      exists(
+        database
+          .select({ id: workspaceMembers.id })
+          .from(workspaceMembers)
+          .where(and(eq(workspaceMembers.workspaceId, projects.workspaceId), eq(workspaceMembers.userId, customAuditRules.userId)))
+      )
+    );
+
+    const rows = await database
+      .select({ rule: customAuditRules })
+      .from(customAuditRules)
+      .leftJoin(projects, eq(customAuditRules.projectId, projects.id))
+      .where(
+        and(
+          eq(customAuditRules.isActive, true),
+          or(
+            userId ? and(isNull(customAuditRules.projectId), eq(customAuditRules.userId, userId)) : undefined,
+            projectId ? and(eq(customAuditRules.projectId, projectId), creatorCanAccessProject) : undefined
+          )
+        )
+      )
+      .orderBy(asc(customAuditRules.createdAt));
+
+    return rows.map(({ rule }: { rule: CustomAuditRule }) => rule);
+  }
+
+  /**
+   * Update a rule
+   */
+  async updateRule(
+    id: number,
+    updates: Partial<Omit<CustomAuditRule, 'id' | 'userId' | 'createdAt'>>
+  ): Promise<CustomAuditRule | undefined> {
+    const database = this.getDatabase();
+
+    const [rule] = await database
+      .update(customAuditRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(customAuditRules.id, id))
+      .returning();
+
+    return rule;
+  }
+
+  /**
+   * Delete a rule. Audits it already ran keep their results.
+   */
+  async deleteRule(id: number): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const deleted = await database
+      .delete(customAuditRules)
+      .where(eq(customAuditRules.id, id))
+      .returning({ id: customAuditRules.id });
+
+    return deleted.length > 0;
+  }
+}
+
+// Singleton instance
+export const customAuditRuleRepository = new CustomAuditRuleRepository();
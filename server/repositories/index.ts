@@ -11,15 +11,32 @@ export { BaseRepository, type IRepository } from './base.repository';
 
 // User management
 export { UserRepository, userRepository } from './user.repository';
+export { WorkspaceRepository, workspaceRepository } from './workspace.repository';
+export { AuthSecurityRepository, authSecurityRepository } from './auth-security.repository';
+export { ApiKeyRepository, apiKeyRepository } from './api-key.repository';
+export { WebhookRepository, webhookRepository } from './webhook.repository';
 
 // SEO analysis
 export { AnalysisRepository, analysisRepository } from './analysis.repository';
+export { AnalysisBatchRepository, analysisBatchRepository } from './analysis-batch.repository';
 
 // Project management
 export { ProjectRepository, projectRepository } from './project.repository';
+export { SearchPerformanceRepository, searchPerformanceRepository } from './search-performance.repository';
 
 // Rival Audit management
 export { RivalAuditRepository, rivalAuditRepository } from './rival-audit.repository';
+export { AuditJobRepository, auditJobRepository } from './audit-job.repository';
+export { AuditScheduleRepository, auditScheduleRepository } from './audit-schedule.repository';
+export { CustomAuditRuleRepository, customAuditRuleRepository } from './custom-audit-rule.repository';
+export { CompetitorComparisonRepository, competitorComparisonRepository } from './competitor-comparison.repository';
+
+// Rank tracking
+export { KeywordRepository, keywordRepository } from './keyword.repository';
+export { KeywordDatasetRepository, keywordDatasetRepository } from './keyword-dataset.repository';
+
+// Backlinks
+export { BacklinkRepository, backlinkRepository } from './backlink.repository';
 
 
 
@@ -29,9 +46,22 @@ export { ApiUsageRepository, apiUsageRepository } from './api-usage.repository';
 
 // Re-import for local use
 import { userRepository } from './user.repository';
+import { workspaceRepository } from './workspace.repository';
+import { authSecurityRepository } from './auth-security.repository';
+import { apiKeyRepository } from './api-key.repository';
+import { webhookRepository } from './webhook.repository';
 import { analysisRepository } from './analysis.repository';
+import { analysisBatchRepository } from './analysis-batch.repository';
 import { projectRepository } from './project.repository';
+import { searchPerformanceRepository } from './search-performance.repository';
 import { rivalAuditRepository } from './rival-audit.repository';
+import { auditJobRepository } from './audit-job.repository';
+import { auditScheduleRepository } from './audit-schedule.repository';
+import { customAuditRuleRepository } from './custom-audit-rule.repository';
+import { competitorComparisonRepository } from './competitor-comparison.repository';
+import { keywordRepository } from './keyword.repository';
+import { keywordDatasetRepository } from './keyword-dataset.repository';
+import { backlinkRepository } from './backlink.repository';
 import { apiUsageRepository } from './api-usage.repository';
 
 /**
@@ -42,11 +72,28 @@ import { apiUsageRepository } from './api-usage.repository';
 export const repositories = {
   // Core entities
   user: userRepository as any,
+  workspace: workspaceRepository as any,
+  authSecurity: authSecurityRepository as any,
+  apiKey: apiKeyRepository as any,
+  webhook: webhookRepository as any,
   analysis: analysisRepository as any,
+  analysisBatch: analysisBatchRepository as any,
   project: projectRepository as any,
+  searchPerformance: searchPerformanceRepository as any,
   
   // Rival Audit system
   rivalAudit: rivalAuditRepository as any,
+  auditJob: auditJobRepository as any,
+  auditSchedule: auditScheduleRepository as any,
+  customAuditRule: customAuditRuleRepository as any,
+  competitorComparison: competitorComparisonRepository as any,
+  
+  // Rank tracking
+  keyword: keywordRepository as any,
+  keywordDataset: keywordDatasetRepository as any,
+  
+  // Backlinks
+  backlink: backlinkRepository as any,
   
   // System monitoring
   apiUsage: apiUsageRepository as any
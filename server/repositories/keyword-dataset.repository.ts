@@ -0,0 +1,116 @@
+import { db as getDb } from '../db';
+import {
+  keywordDataset,
+  KeywordDatasetEntry,
+  InsertKeywordDatasetEntry
+} from '../../shared/schema';
+import { eq, and, ne, ilike, desc, count, sql } from 'drizzle-orm';
+
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Repository for the imported keyword dataset used by the local keyword data provider
+ */
+export class KeywordDatasetRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * Store imported keywords; a keyword already in the dataset for the location gets the new metrics
+   */
+  async upsertEntries(entries: InsertKeywordDatasetEntry[]): Promise<void> {
+    const database = this.getDatabase();
+
+    for (let i = 0; i < entries.length; i += INSERT_BATCH_SIZE) {
+      await database
+        .insert(keywordDataset)
+        .values(entries.slice(i, i + INSERT_BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: [keywordDataset.keyword, keywordDataset.location],
+          set: {
+            searchVolume: sql`excluded.search_volume`,
+            competition: sql`excluded.competition`,
+            cpc: sql`excluded.cpc`,
+            monthlySearches: sql`excluded.monthly_searches`,
+            source: sql`excluded.source`,
+            importedAt: sql`excluded.imported_at`
+          }
+        });
+    }
+  }
+
+  /**
+   * Metrics of one keyword in a location
+   */
+  async getEntry(keyword: string, location: string): Promise<KeywordDatasetEntry | undefined> {
+    const database = this.getDatabase();
+
+    const [entry] = await database
+      .select()
+      .from(keywordDataset)
+      .where(and(eq(keywordDataset.keyword, keyword.toLowerCase()), eq(keywordDataset.location, location)));
+
+    return entry;
+  }
+
+  /**
+   * Other keywords of a location containing every given term, highest search volume first
+   */
+  async searchEntries(terms: string[], location: string, exclude: string, limit: number = 20): Promise<KeywordDatasetEntry[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(keywordDataset)
+      .where(
+        and(
+          eq(keywordDataset.location, location),
+          ne(keywordDataset.keyword, exclude.toLowerCase()),
+          ...terms.map(term => ilike(keywordDataset.keyword, `%${term.replace(/[\\%_]/g, '\\$&')}%`))
+        )
+      )
+      .orderBy(sql`${keywordDataset.searchVolume} desc nulls last`, keywordDataset.keyword)
+      .limit(limit);
+  }
+
+  /**
+   * Number of keywords in the dataset per location
+   */
+  async getLocationCounts(): Promise<Array<{ location: string; keywords: number; lastImportedAt: Date | null }>> {
+    const database = this.getDatabase();
+
+    const rows: Array<{ location: string; keywords: number; lastImportedAt: Date | null }> = await database
+      .select({
+        location: keywordDataset.location,
+        keywords: count(),
+        lastImportedAt: sql<Date | null>`max(${keywordDataset.importedAt})`
+      })
+      .from(keywordDataset)
+      .groupBy(keywordDataset.location)
+      .orderBy(desc(count()));
+
+    return rows;
+  }
+
+  /**
+   * Number of keywords in the dataset for a location
+   */
+  async countEntries(location: string): Promise<number> {
+    const database = this.getDatabase();
+
+    const [row] = await database
+      .select({ total: count() })
+      .from(keywordDataset)
+      .where(eq(keywordDataset.location, location));
+
+    return row?.total ?? 0;
+  }
+}
+
+// Singleton instance
+export const keywordDatasetRepository = new KeywordDatasetRepository();
@@ -0,0 +1,310 @@
+import { db as getDb } from '../db';
+import {
+  keywords,
+  keywordRankings,
+  competitorRankings,
+  keywordMetrics,
+  Keyword,
+  KeywordRanking,
+  CompetitorRanking,
+  InsertKeywordRanking,
+  InsertCompetitorRanking,
+  TrackKeyword
+} from '../../shared/schema';
+import { eq, and, or, isNull, isNotNull, lt, gte, lte, desc, asc, inArray, sql } from 'drizzle-orm';
+
+/**
+ * Repository for rank-tracked keywords and their daily rankings
+ */
+export class KeywordRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * Start tracking a keyword for a project
+   */
+  async createKeyword(userId: string, data: TrackKeyword, workspaceId: number | null = null): Promise<Keyword> {
+    const database = this.getDatabase();
+
+    const [keyword] = await database
+      .insert(keywords)
+      .values({ ...data, userId, workspaceId })
+      .returning();
+
+    console.log(`🔑 Tracking keyword ${keyword.id} "${keyword.keyword}" for project ${keyword.projectId}`);
+    return keyword;
+  }
+
+  /**
+   * Get a keyword by ID
+   */
+  async getKeyword(id: number): Promise<Keyword | undefined> {
+    const database = this.getDatabase();
+
+    const [keyword] = await database
+      .select()
+      .from(keywords)
+      .where(eq(keywords.id, id));
+
+    return keyword;
+  }
+
+  /**
+   * Get all keywords tracked for a project
+   */
+  async getKeywordsByProject(projectId: number): Promise<Keyword[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(keywords)
+      .where(eq(keywords.projectId, projectId))
+      .orderBy(asc(keywords.keyword));
+  }
+
+  /**
+   * Update a keyword
+   */
+  async updateKeyword(
+    id: number,
+    updates: Partial<Omit<Keyword, 'id' | 'userId' | 'createdAt'>>
+  ): Promise<Keyword | undefined> {
+    const database = this.getDatabase();
+
+    const [keyword] = await database
+      .update(keywords)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(keywords.id, id))
+      .returning();
+
+    return keyword;
+  }
+
+  /**
+   * Stop tracking a keyword and delete its ranking history
+   */
+  async deleteKeyword(id: number): Promise<boolean> {
+    const database = this.getDatabase();
+
+    await database.delete(keywordRankings).where(eq(keywordRankings.keywordId, id));
+    await database.delete(competitorRankings).where(eq(competitorRankings.keywordId, id));
+    await database.delete(keywordMetrics).where(eq(keywordMetrics.keywordId, id));
+
+    const deleted = await database
+      .delete(keywords)
+      .where(eq(keywords.id, id))
+      .returning({ id: keywords.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Get active project keywords not checked since `checkedBefore`
+   */
+  async getDueKeywords(checkedBefore: Date): Promise<Keyword[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(keywords)
+      .where(
+        and(
+          eq(keywords.isActive, true),
+          or(isNull(keywords.lastCheckedAt), lt(keywords.lastCheckedAt, checkedBefore))
+        )
+      )
+      .orderBy(asc(keywords.id));
+  }
+
+  /**
+   * Claim a keyword's rank check by setting lastCheckedAt.
+   * Only succeeds if lastCheckedAt is unchanged, so each check runs on one
+   * server even when several instances look for due keywords.
+   */
+  async claimCheck(keyword: Keyword, checkedAt: Date): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const claimed = await database
+      .update(keywords)
+      .set({ lastCheckedAt: checkedAt })
+      .where(
+        and(
+          eq(keywords.id, keyword.id),
+          keyword.lastCheckedAt ? eq(keywords.lastCheckedAt, keyword.lastCheckedAt) : isNull(keywords.lastCheckedAt)
+        )
+      )
+      .returning({ id: keywords.id });
+
+    return claimed.length > 0;
+  }
+
+  /**
+   * Store a day's ranking, replacing an earlier check from the same day
+   */
+  async saveRanking(ranking: InsertKeywordRanking & { rankDate: string }): Promise<KeywordRanking> {
+    const database = this.getDatabase();
+
+    const [saved] = await database
+      .insert(keywordRankings)
+      .values(ranking)
+      .onConflictDoUpdate({
+        target: [keywordRankings.keywordId, keywordRankings.rankDate, keywordRankings.searchEngine, keywordRankings.device, keywordRankings.location],
+        set: {
+          rank: ranking.rank ?? null,
+          rankingUrl: ranking.rankingUrl ?? null,
+          previousRank: ranking.previousRank ?? null,
+          serp: ranking.serp ?? null,
+          localRank: ranking.localRank ?? null
+        }
+      })
+      .returning();
+
+    return saved;
+  }
+
+  /**
+   * Store a competitor's position for the day, replacing an earlier check from the same day
+   */
+  async saveCompetitorRanking(ranking: InsertCompetitorRanking & { rankDate: string }): Promise<CompetitorRanking> {
+    const database = this.getDatabase();
+
+    const [saved] = await database
+      .insert(competitorRankings)
+      .values(ranking)
+      .onConflictDoUpdate({
+        target: [competitorRankings.keywordId, competitorRankings.competitorUrl, competitorRankings.rankDate, competitorRankings.searchEngine, competitorRankings.device, competitorRankings.location],
+        set: { rank: ranking.rank ?? null }
+      })
+      .returning();
+
+    return saved;
+  }
+
+  /**
+   * Most recent ranking for a keyword, device and location before a day
+   */
+  async getPreviousRanking(keywordId: number, device: string, location: string, beforeDate: string): Promise<KeywordRanking | undefined> {
+    const database = this.getDatabase();
+
+    const [ranking] = await database
+      .select()
+      .from(keywordRankings)
+      .where(
+        and(
+          eq(keywordRankings.keywordId, keywordId),
+          eq(keywordRankings.device, device),
+          eq(keywordRankings.location, location),
+          lt(keywordRankings.rankDate, beforeDate)
+        )
+      )
+      .orderBy(desc(keywordRankings.rankDate))
+      .limit(1);
+
+    return ranking;
+  }
+
+  /**
+   * People Also Ask questions from recent checks of a keyword, or of any
+   * keyword ranking with one of the page URLs, most recent first
+   */
+  async getPeopleAlsoAskQuestions(keyword: string, pageUrls: string[], limit: number = 20): Promise<string[]> {
+    const conditions = [
+      keyword.trim() ? eq(sql`lower(${keywords.keyword})`, keyword.trim().toLowerCase()) : undefined,
+      pageUrls.length > 0 ? inArray(keywordRankings.rankingUrl, pageUrls) : undefined
+    ].filter(Boolean);
+    if (conditions.length === 0) return [];
+
+    const database = this.getDatabase();
+
+    const rankings = await database
+      .select({ serp: keywordRankings.serp })
+      .from(keywordRankings)
+      .innerJoin(keywords, eq(keywordRankings.keywordId, keywords.id))
+      .where(and(isNotNull(keywordRankings.serp), or(...conditions)))
+      .orderBy(desc(keywordRankings.rankDate))
+      .limit(limit);
+
+    const questions = new Map<string, string>();
+    for (const { serp } of rankings) {
+      for (const { question } of serp?.peopleAlsoAsk || []) {
+        if (!questions.has(question.toLowerCase())) questions.set(question.toLowerCase(), question);
+      }
+    }
+
+    return Array.from(questions.values());
+  }
+
+  /**
+   * Latest ranking of each keyword for every device and location it was checked on
+   */
+  async getLatestRankings(keywordIds: number[]): Promise<KeywordRanking[]> {
+    if (keywordIds.length === 0) return [];
+    const database = this.getDatabase();
+
+    return await database
+      .selectDistinctOn([keywordRankings.keywordId, keywordRankings.device, keywordRankings.location])
+      .from(keywordRankings)
+      .where(inArray(keywordRankings.keywordId, keywordIds))
+      .orderBy(keywordRankings.keywordId, keywordRankings.device, keywordRankings.location, desc(keywordRankings.rankDate));
+  }
+
+  /**
+   * Rankings of a keyword between two days, oldest first
+   */
+  async getRankingHistory(
+    keywordId: number,
+    startDate: string,
+    endDate: string,
+    filters: { device?: string; location?: string } = {}
+  ): Promise<KeywordRanking[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(keywordRankings)
+      .where(
+        and(
+          eq(keywordRankings.keywordId, keywordId),
+          gte(keywordRankings.rankDate, startDate),
+          lte(keywordRankings.rankDate, endDate),
+          filters.device ? eq(keywordRankings.device, filters.device) : undefined,
+          filters.location ? eq(keywordRankings.location, filters.location) : undefined
+        )
+      )
+      .orderBy(asc(keywordRankings.rankDate));
+  }
+
+  /**
+   * Competitor positions for a keyword between two days, oldest first
+   */
+  async getCompetitorHistory(
+    keywordId: number,
+    startDate: string,
+    endDate: string,
+    filters: { device?: string; location?: string } = {}
+  ): Promise<CompetitorRanking[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(competitorRankings)
+      .where(
+        and(
+          eq(competitorRankings.keywordId, keywordId),
+          gte(competitorRankings.rankDate, startDate),
+          lte(competitorRankings.rankDate, endDate),
+          filters.device ? eq(competitorRankings.device, filters.device) : undefined,
+          filters.location ? eq(competitorRankings.location, filters.location) : undefined
+        )
+      )
+      .orderBy(asc(competitorRankings.rankDate));
+  }
+}
+
+// Singleton instance
+export const keywordRepository = new KeywordRepository();
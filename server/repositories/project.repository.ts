@@ -1,8 +1,28 @@
-import { eq, desc, and } from 'drizzle-orm';
+import { eq, desc, and, or, count, inArray, isNull, SQL } from 'drizzle-orm';
 import { BaseRepository } from './base.repository';
-import { projects, projectAnalyses, Project, InsertProject, UpdateProject, ProjectAnalysis, InsertProjectAnalysis } from '../../shared/schema';
+import {
+  projects,
+  projectAnalyses,
+  projectAudits,
+  rivalAudits,
+  projectAuditSchedules,
+  customAuditRules,
+  keywords,
+  keywordRankings,
+  competitorRankings,
+  keywordMetrics,
+  backlinkProfiles,
+  searchPerformance,
+  Project,
+  InsertProject,
+  UpdateProject,
+  ProjectAnalysis,
+  InsertProjectAnalysis,
+  InsertProjectAudit,
+  RivalAuditRecord
+} from '../../shared/schema';
 import { db as getDb } from '../db';
-const db = getDb();
+import { AccessScope, isInScope } from '../types/workspace';
 
 /**
  * Repository for project-related database operations
@@ -13,15 +33,22 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
   }
 
   /**
-   * Find projects by user ID
+   * Find the projects of a scope: the workspace's projects, or the user's
+   * personal projects when no workspace is active
    */
-  async findByUserId(userId: string): Promise<Project[]> {
+  async findByScope(scope: AccessScope): Promise<Project[]> {
     return this.findMany({
-      where: eq(projects.userId, userId),
+      where: this.scopeCondition(scope),
       orderBy: [desc(projects.updatedAt)]
     });
   }
 
+  private scopeCondition(scope: AccessScope): SQL {
+    return scope.workspaceId !== null
+      ? eq(projects.workspaceId, scope.workspaceId)
+      : and(eq(projects.userId, scope.userId), isNull(projects.workspaceId))!;
+  }
+
   /**
    * Update project with new timestamp
    */
@@ -34,12 +61,40 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
   }
 
   /**
-   * Delete project and all associated project-analysis relationships
+   * Delete project and everything it holds: analysis and audit links,
+   * schedules, custom rules and tracked keywords. Scheduled audits and
+   * backlink profiles are kept but no longer belong to the project.
    */
   async deleteProjectWithAnalyses(projectId: number): Promise<boolean> {
-    // First delete all project-analysis relationships
-    await db.delete(projectAnalyses).where(eq(projectAnalyses.projectId, projectId));
-    
+    const database = getDb();
+    const projectKeywordIds = database
+      .select({ id: keywords.id })
+      .from(keywords)
+      .where(eq(keywords.projectId, projectId));
+
+    // First delete all project-analysis and project-audit relationships
+    await database.delete(projectAnalyses).where(eq(projectAnalyses.projectId, projectId));
+    await database.delete(projectAudits).where(eq(projectAudits.projectId, projectId));
+
+    // Audits point at their schedule, so detach them before deleting schedules
+    await database
+      .update(rivalAudits)
+      .set({ projectId: null, scheduleId: null, updatedAt: new Date() })
+      .where(eq(rivalAudits.projectId, projectId));
+    await database.delete(projectAuditSchedules).where(eq(projectAuditSchedules.projectId, projectId));
+    await database.delete(customAuditRules).where(eq(customAuditRules.projectId, projectId));
+
+    await database.delete(keywordRankings).where(inArray(keywordRankings.keywordId, projectKeywordIds));
+    await database.delete(competitorRankings).where(inArray(competitorRankings.keywordId, projectKeywordIds));
+    await database.delete(keywordMetrics).where(inArray(keywordMetrics.keywordId, projectKeywordIds));
+    await database.delete(keywords).where(eq(keywords.projectId, projectId));
+    await database.delete(searchPerformance).where(eq(searchPerformance.projectId, projectId));
+
+    await database
+      .update(backlinkProfiles)
+      .set({ projectId: null, updatedAt: new Date() })
+      .where(eq(backlinkProfiles.projectId, projectId));
+
     // Then delete the project itself
     return this.deleteById(projectId);
   }
@@ -48,7 +103,7 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
    * Add analysis to project
    */
   async addAnalysisToProject(data: InsertProjectAnalysis): Promise<ProjectAnalysis> {
-    const result = await db
+    const result = await getDb()
       .insert(projectAnalyses)
       .values(data)
       .returning();
@@ -60,7 +115,7 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
    * Remove analysis from project
    */
   async removeAnalysisFromProject(projectId: number, analysisId: number): Promise<boolean> {
-    const result = await db
+    const result = await getDb()
       .delete(projectAnalyses)
       .where(
         and(
@@ -77,7 +132,7 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
    * Get analyses for a project
    */
   async getProjectAnalyses(projectId: number): Promise<ProjectAnalysis[]> {
-    return await db
+    return await getDb()
       .select()
       .from(projectAnalyses)
       .where(eq(projectAnalyses.projectId, projectId))
@@ -88,7 +143,7 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
    * Check if analysis is in project
    */
   async isAnalysisInProject(projectId: number, analysisId: number): Promise<boolean> {
-    const result = await db
+    const result = await getDb()
       .select()
       .from(projectAnalyses)
       .where(
@@ -102,6 +157,51 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
     return result.length > 0;
   }
 
+  /**
+   * Add a rival audit to project
+   */
+  async addAuditToProject(data: InsertProjectAudit): Promise<void> {
+    await getDb()
+      .insert(projectAudits)
+      .values(data)
+      .onConflictDoNothing();
+  }
+
+  /**
+   * Remove a rival audit from project
+   */
+  async removeAuditFromProject(projectId: number, auditId: number): Promise<boolean> {
+    const result = await getDb()
+      .delete(projectAudits)
+      .where(
+        and(
+          eq(projectAudits.projectId, projectId),
+          eq(projectAudits.auditId, auditId)
+        )
+      )
+      .returning();
+
+    return result.length > 0;
+  }
+
+  /**
+   * Get rival audits of a project, newest first: those added by hand and
+   * those started by the project's audit schedules
+   */
+  async getProjectAudits(projectId: number): Promise<RivalAuditRecord[]> {
+    const database = getDb();
+    const addedAuditIds = database
+      .select({ id: projectAudits.auditId })
+      .from(projectAudits)
+      .where(eq(projectAudits.projectId, projectId));
+
+    return await database
+      .select()
+      .from(rivalAudits)
+      .where(or(eq(rivalAudits.projectId, projectId), inArray(rivalAudits.id, addedAuditIds)))
+      .orderBy(desc(rivalAudits.createdAt));
+  }
+
   /**
    * Get project with analysis count
    */
@@ -117,8 +217,8 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
    * Count analyses in a project
    */
   async countProjectAnalyses(projectId: number): Promise<number> {
-    const result = await db
-      .select({ count: db.$count() })
+    const result = await getDb()
+      .select({ count: count() })
       .from(projectAnalyses)
       .where(eq(projectAnalyses.projectId, projectId));
     
@@ -126,10 +226,10 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
   }
 
   /**
-   * Get projects with analysis counts for a user
+   * Get projects with analysis counts for a scope
    */
-  async getProjectsWithAnalysisCounts(userId: string): Promise<Array<Project & { analysisCount: number }>> {
-    const userProjects = await this.findByUserId(userId);
+  async getProjectsWithAnalysisCounts(scope: AccessScope): Promise<Array<Project & { analysisCount: number }>> {
+    const userProjects = await this.findByScope(scope);
     
     const projectsWithCounts = await Promise.all(
       userProjects.map(async (project) => {
@@ -144,10 +244,10 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
   /**
    * Search projects by name
    */
-  async searchByName(userId: string, searchTerm: string): Promise<Project[]> {
+  async searchByName(scope: AccessScope, searchTerm: string): Promise<Project[]> {
     // Since Drizzle doesn't have a direct LIKE operator in this context,
     // we'll fetch all user projects and filter in memory
-    const userProjects = await this.findByUserId(userId);
+    const userProjects = await this.findByScope(scope);
     return userProjects.filter(project => 
       project.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       (project.description && project.description.toLowerCase().includes(searchTerm.toLowerCase()))
@@ -155,22 +255,22 @@ export class ProjectRepository extends BaseRepository<Project, InsertProject> {
   }
 
   /**
-   * Get recent projects for a user
+   * Get recent projects of a scope
    */
-  async getRecentProjects(userId: string, limit: number = 5): Promise<Project[]> {
+  async getRecentProjects(scope: AccessScope, limit: number = 5): Promise<Project[]> {
     return this.findMany({
-      where: eq(projects.userId, userId),
+      where: this.scopeCondition(scope),
       orderBy: [desc(projects.updatedAt)],
       limit
     });
   }
 
   /**
-   * Check if user owns project
+   * Check if a project belongs to a scope
    */
-  async userOwnsProject(userId: string, projectId: number): Promise<boolean> {
+  async canAccessProject(scope: AccessScope, projectId: number): Promise<boolean> {
     const project = await this.findById(projectId);
-    return project?.userId === userId;
+    return !!project && isInScope(scope, project);
   }
 }
 
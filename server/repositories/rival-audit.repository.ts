@@ -7,7 +7,17 @@ import {
   CrawledContent,
   InsertCrawledContent
 } from '../../shared/schema';
-import { eq, and, lt, desc, asc, gte, lte, count } from 'drizzle-orm';
+import { eq, and, lt, desc, asc, gte, lte, count, inArray, isNull, isNotNull, SQL } from 'drizzle-orm';
+import { AccessScope } from '../types/workspace';
+
+/**
+ * Whether a "completed" audit holds placeholder results stored after its
+ * retries ran out rather than data from a crawl. Audits are no longer
+ * completed that way, but older fallback records keep their error message.
+ */
+export function isFallbackAudit(audit: Pick<RivalAuditRecord, 'status' | 'errorMessage'>): boolean {
+  return audit.status === 'completed' && audit.errorMessage !== null;
+}
 
 export class RivalAuditRepository {
   private getDatabase() {
@@ -18,6 +28,19 @@ export class RivalAuditRepository {
     return db;
   }
 
+  private scopeCondition(scope: AccessScope): SQL {
+    return scope.workspaceId !== null
+      ? eq(rivalAudits.workspaceId, scope.workspaceId)
+      : and(eq(rivalAudits.userId, scope.userId), isNull(rivalAudits.workspaceId))!;
+  }
+
+  /**
+   * Completed audits with results from a crawl (see isFallbackAudit)
+   */
+  private hasCrawlResults(): SQL {
+    return and(eq(rivalAudits.status, 'completed'), isNull(rivalAudits.errorMessage))!;
+  }
+
   /**
    * Create a new rival audit record
    */
@@ -39,7 +62,8 @@ export class RivalAuditRepository {
         .insert(rivalAudits)
         .values({
           ...auditData,
-          expiresAt,
+          // Project audits, and audits created without an expiration, are kept as history
+          expiresAt: auditData.projectId || auditData.expiresAt === null ? null : expiresAt,
           status: auditData.status || 'pending'
         })
         .returning();
@@ -98,6 +122,38 @@ export class RivalAuditRepository {
     return audit;
   }
 
+  /**
+   * Status and progress of several audits, without their results
+   */
+  async getAuditStatuses(ids: number[]): Promise<Array<Pick<RivalAuditRecord, 'id' | 'url' | 'status' | 'pagesAnalyzed' | 'errorMessage'>>> {
+    if (ids.length === 0) return [];
+    const database = this.getDatabase();
+
+    return await database
+      .select({
+        id: rivalAudits.id,
+        url: rivalAudits.url,
+        status: rivalAudits.status,
+        pagesAnalyzed: rivalAudits.pagesAnalyzed,
+        errorMessage: rivalAudits.errorMessage
+      })
+      .from(rivalAudits)
+      .where(inArray(rivalAudits.id, ids));
+  }
+
+  /**
+   * Let the cleanup job remove audits that were kept without an expiration
+   */
+  async expireAudits(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    const database = this.getDatabase();
+
+    await database
+      .update(rivalAudits)
+      .set({ expiresAt: new Date(), updatedAt: new Date() })
+      .where(inArray(rivalAudits.id, ids));
+  }
+
   /**
    * Update an audit's status and results
    */
@@ -152,6 +208,7 @@ export class RivalAuditRepository {
         summary,
         pagesAnalyzed,
         reachedMaxPages,
+        errorMessage: null,
         completedAt: new Date(),
         updatedAt: new Date()
       })
@@ -222,6 +279,98 @@ export class RivalAuditRepository {
       .limit(limit);
   }
 
+  /**
+   * Get the audit history of a project, newest first
+   */
+  async getAuditsByProject(projectId: number, limit: number = 20): Promise<RivalAuditRecord[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(rivalAudits)
+      .where(eq(rivalAudits.projectId, projectId))
+      .orderBy(desc(rivalAudits.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Get the audits started by a schedule, newest first
+   */
+  async getAuditsBySchedule(scheduleId: number, limit: number = 20): Promise<RivalAuditRecord[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(rivalAudits)
+      .where(eq(rivalAudits.scheduleId, scheduleId))
+      .orderBy(desc(rivalAudits.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Get the most recent completed audit started by a schedule before the given date
+   */
+  async getPreviousScheduledAudit(scheduleId: number, before: Date): Promise<RivalAuditRecord | undefined> {
+    const database = this.getDatabase();
+
+    const [audit] = await database
+      .select()
+      .from(rivalAudits)
+      .where(
+        and(
+          eq(rivalAudits.scheduleId, scheduleId),
+          this.hasCrawlResults(),
+          lt(rivalAudits.createdAt, before)
+        )
+      )
+      .orderBy(desc(rivalAudits.createdAt))
+      .limit(1);
+
+    return audit;
+  }
+
+  /**
+   * Get the most recent completed audit of a URL in a scope created before the given date
+   */
+  async getPreviousCompletedAudit(scope: AccessScope, url: string, before: Date): Promise<RivalAuditRecord | undefined> {
+    const database = this.getDatabase();
+
+    const [audit] = await database
+      .select()
+      .from(rivalAudits)
+      .where(
+        and(
+          this.scopeCondition(scope),
+          eq(rivalAudits.url, url),
+          this.hasCrawlResults(),
+          lt(rivalAudits.createdAt, before)
+        )
+      )
+      .orderBy(desc(rivalAudits.createdAt))
+      .limit(1);
+
+    return audit;
+  }
+
+  /**
+   * Get pending or processing audits that were never queued as a job
+   * (e.g. started before the audit job queue existed)
+   */
+  async getActiveAuditsWithoutJob(): Promise<RivalAuditRecord[]> {
+    const database = this.getDatabase();
+    
+    return await database
+      .select()
+      .from(rivalAudits)
+      .where(
+        and(
+          inArray(rivalAudits.status, ['pending', 'processing']),
+          isNull(rivalAudits.crawlJobId)
+        )
+      )
+      .orderBy(asc(rivalAudits.createdAt));
+  }
+
   /**
    * Delete expired audits (older than 30 minutes)
    */
@@ -331,19 +480,20 @@ export class RivalAuditRepository {
   /**
    * Extend audit expiration by 30 minutes (for continue crawl functionality)
    */
-  async extendAuditExpiration(id: number): Promise<RivalAuditRecord> {
+  async extendAuditExpiration(id: number): Promise<RivalAuditRecord | undefined> {
     const database = this.getDatabase();
     
     const newExpiresAt = new Date();
     newExpiresAt.setMinutes(newExpiresAt.getMinutes() + 30);
     
+    // Audits without an expiration are project history and stay that way
     const [audit] = await database
       .update(rivalAudits)
       .set({
         expiresAt: newExpiresAt,
         updatedAt: new Date()
       })
-      .where(eq(rivalAudits.id, id))
+      .where(and(eq(rivalAudits.id, id), isNotNull(rivalAudits.expiresAt)))
       .returning();
     
     return audit;
@@ -409,7 +559,7 @@ export class RivalAuditRepository {
     const whereConditions = [
       gte(rivalAudits.createdAt, startDate),
       lte(rivalAudits.createdAt, endDate),
-      eq(rivalAudits.status, 'completed') // Only completed audits for reporting
+      this.hasCrawlResults() // Only completed audits for reporting
     ];
 
     if (userId) {
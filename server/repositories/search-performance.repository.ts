@@ -0,0 +1,91 @@
+import { db as getDb } from '../db';
+import {
+  searchPerformance,
+  SearchPerformanceRow,
+  InsertSearchPerformanceRow,
+  SearchPerformanceSummary
+} from '../../shared/schema';
+import { eq, count, countDistinct, max, sum } from 'drizzle-orm';
+
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Repository for Search Console performance imported into projects
+ */
+export class SearchPerformanceRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * Replace a project's performance rows with a new import
+   */
+  async replaceRows(projectId: number, rows: InsertSearchPerformanceRow[]): Promise<void> {
+    const database = this.getDatabase();
+
+    await database.delete(searchPerformance).where(eq(searchPerformance.projectId, projectId));
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await database.insert(searchPerformance).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+    }
+  }
+
+  /**
+   * Every performance row of a project
+   */
+  async getRows(projectId: number): Promise<SearchPerformanceRow[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(searchPerformance)
+      .where(eq(searchPerformance.projectId, projectId));
+  }
+
+  /**
+   * Totals of a project's latest import
+   */
+  async getSummary(projectId: number): Promise<SearchPerformanceSummary> {
+    const database = this.getDatabase();
+
+    const [row] = await database
+      .select({
+        rows: count(),
+        pages: countDistinct(searchPerformance.page),
+        clicks: sum(searchPerformance.clicks),
+        impressions: sum(searchPerformance.impressions),
+        importedAt: max(searchPerformance.importedAt)
+      })
+      .from(searchPerformance)
+      .where(eq(searchPerformance.projectId, projectId));
+
+    return {
+      importedAt: row?.importedAt ? row.importedAt.toISOString() : null,
+      rows: row?.rows ?? 0,
+      pages: row?.pages ?? 0,
+      clicks: Number(row?.clicks ?? 0),
+      impressions: Number(row?.impressions ?? 0)
+    };
+  }
+
+  /**
+   * Delete a project's performance rows
+   */
+  async deleteRows(projectId: number): Promise<number> {
+    const database = this.getDatabase();
+
+    const deleted = await database
+      .delete(searchPerformance)
+      .where(eq(searchPerformance.projectId, projectId))
+      .returning({ id: searchPerformance.id });
+
+    return deleted.length;
+  }
+}
+
+// Singleton instance
+export const searchPerformanceRepository = new SearchPerformanceRepository();
@@ -0,0 +1,205 @@
+import { db as getDb } from '../db';
+import { webhooks, webhookDeliveries, Webhook, WebhookDelivery, WebhookEvent } from '../../shared/schema';
+import { eq, and, or, isNull, lt, lte, desc, asc, inArray, sql, SQL } from 'drizzle-orm';
+import { AccessScope } from '../types/workspace';
+
+/**
+ * Repository for webhooks and the log of deliveries made to them
+ */
+export class WebhookRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  private scopeCondition(scope: AccessScope): SQL {
+    return scope.workspaceId !== null
+      ? eq(webhooks.workspaceId, scope.workspaceId)
+      : and(eq(webhooks.userId, scope.userId), isNull(webhooks.workspaceId))!;
+  }
+
+  async createWebhook(data: typeof webhooks.$inferInsert): Promise<Webhook> {
+    const database = this.getDatabase();
+
+    const [webhook] = await database
+      .insert(webhooks)
+      .values(data)
+      .returning();
+
+    return webhook;
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const database = this.getDatabase();
+
+    const [webhook] = await database
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.id, id));
+
+    return webhook;
+  }
+
+  /**
+   * Webhooks of the active workspace, or the user's personal ones
+   */
+  async getWebhooksByScope(scope: AccessScope): Promise<Webhook[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(webhooks)
+      .where(this.scopeCondition(scope))
+      .orderBy(desc(webhooks.createdAt));
+  }
+
+  /**
+   * Active webhooks of a scope that subscribe to an event
+   */
+  async getSubscribedWebhooks(scope: AccessScope, event: WebhookEvent): Promise<Webhook[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(webhooks)
+      .where(
+        and(
+          this.scopeCondition(scope),
+          eq(webhooks.isActive, true),
+          sql`${webhooks.events} @> ${JSON.stringify([event])}::jsonb`
+        )
+      );
+  }
+
+  async updateWebhook(id: number, data: Partial<typeof webhooks.$inferInsert>): Promise<Webhook | undefined> {
+    const database = this.getDatabase();
+
+    const [webhook] = await database
+      .update(webhooks)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+
+    return webhook;
+  }
+
+  /**
+   * Delete a webhook along with its delivery log
+   */
+  async deleteWebhook(id: number): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const deleted = await database
+      .delete(webhooks)
+      .where(eq(webhooks.id, id))
+      .returning({ id: webhooks.id });
+
+    return deleted.length > 0;
+  }
+
+  async createDeliveries(data: Array<typeof webhookDeliveries.$inferInsert>): Promise<WebhookDelivery[]> {
+    if (data.length === 0) {
+      return [];
+    }
+    const database = this.getDatabase();
+
+    return await database
+      .insert(webhookDeliveries)
+      .values(data)
+      .returning();
+  }
+
+  async getDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const database = this.getDatabase();
+
+    const [delivery] = await database
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.id, id));
+
+    return delivery;
+  }
+
+  /**
+   * The most recent deliveries to a webhook, newest first
+   */
+  async getDeliveries(webhookId: number, limit: number = 50): Promise<WebhookDelivery[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Claim deliveries that are due, along with those whose worker stopped
+   * mid-attempt before `staleBefore`. Each delivery is claimed by one worker.
+   */
+  async claimDueDeliveries(limit: number, staleBefore: Date): Promise<WebhookDelivery[]> {
+    const database = this.getDatabase();
+    const now = new Date();
+    const isDue = or(
+      and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, now)),
+      and(eq(webhookDeliveries.status, 'delivering'), lt(webhookDeliveries.lockedAt, staleBefore))
+    );
+
+    const candidates = await database
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(isDue)
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    return await database
+      .update(webhookDeliveries)
+      .set({ status: 'delivering', lockedAt: now })
+      .where(and(inArray(webhookDeliveries.id, candidates.map((candidate: { id: number }) => candidate.id)), isDue))
+      .returning();
+  }
+
+  /**
+   * Record the outcome of a delivery attempt
+   */
+  async recordAttempt(id: number, data: Pick<Partial<typeof webhookDeliveries.$inferInsert>,
+    'status' | 'attempts' | 'nextAttemptAt' | 'responseStatus' | 'responseBody' | 'errorMessage' | 'durationMs' | 'deliveredAt'>
+  ): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .update(webhookDeliveries)
+      .set({ ...data, lockedAt: null })
+      .where(eq(webhookDeliveries.id, id));
+  }
+
+  /**
+   * Delete finished deliveries created before a date
+   */
+  async deleteFinishedDeliveriesBefore(before: Date): Promise<number> {
+    const database = this.getDatabase();
+
+    const deleted = await database
+      .delete(webhookDeliveries)
+      .where(
+        and(
+          inArray(webhookDeliveries.status, ['succeeded', 'failed']),
+          lt(webhookDeliveries.createdAt, before)
+        )
+      )
+      .returning({ id: webhookDeliveries.id });
+
+    return deleted.length;
+  }
+}
+
+// Singleton instance
+export const webhookRepository = new WebhookRepository();
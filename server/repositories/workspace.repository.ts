@@ -0,0 +1,263 @@
+import { db as getDb } from '../db';
+import {
+  workspaces,
+  workspaceMembers,
+  workspaceInvitations,
+  users,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  WorkspaceRole
+} from '../../shared/schema';
+import { eq, and, isNull, gt, asc, count } from 'drizzle-orm';
+
+/**
+ * Repository for workspaces, their members and pending invitations
+ */
+export class WorkspaceRepository {
+  private getDatabase() {
+    const db = getDb();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+
+  /**
+   * Create a workspace with its creator as the owner
+   */
+  async createWorkspace(name: string, ownerId: string): Promise<Workspace> {
+    const database = this.getDatabase();
+
+    const [workspace] = await database
+      .insert(workspaces)
+      .values({ name, createdBy: ownerId })
+      .returning();
+
+    await database
+      .insert(workspaceMembers)
+      .values({ workspaceId: workspace.id, userId: ownerId, role: 'owner' });
+
+    console.log(`🏢 Created workspace ${workspace.id} "${workspace.name}"`);
+    return workspace;
+  }
+
+  /**
+   * Get a workspace by ID
+   */
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    const database = this.getDatabase();
+
+    const [workspace] = await database
+      .select()
+      .from(workspaces)
+      .where(eq(workspaces.id, id));
+
+    return workspace;
+  }
+
+  /**
+   * Rename a workspace
+   */
+  async updateWorkspace(id: number, name: string): Promise<Workspace | undefined> {
+    const database = this.getDatabase();
+
+    const [workspace] = await database
+      .update(workspaces)
+      .set({ name, updatedAt: new Date() })
+      .where(eq(workspaces.id, id))
+      .returning();
+
+    return workspace;
+  }
+
+  /**
+   * Workspaces a user belongs to, with the user's role and the member count
+   */
+  async getWorkspacesByUser(userId: string): Promise<Array<Workspace & { role: string; memberCount: number }>> {
+    const database = this.getDatabase();
+
+    const memberships = await database
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.name));
+
+    return await Promise.all(memberships.map(async ({ workspace, role }: { workspace: Workspace; role: string }) => {
+      const [{ value }] = await database
+        .select({ value: count() })
+        .from(workspaceMembers)
+        .where(eq(workspaceMembers.workspaceId, workspace.id));
+      return { ...workspace, role, memberCount: value };
+    }));
+  }
+
+  /**
+   * A user's membership of a workspace
+   */
+  async getMember(workspaceId: number, userId: string): Promise<WorkspaceMember | undefined> {
+    const database = this.getDatabase();
+
+    const [member] = await database
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+
+    return member;
+  }
+
+  /**
+   * Members of a workspace with their account details, earliest first
+   */
+  async getMembers(workspaceId: number): Promise<Array<WorkspaceMember & {
+    email: string | null;
+    username: string | null;
+    firstName: string | null;
+    lastName: string | null;
+  }>> {
+    const database = this.getDatabase();
+
+    const rows = await database
+      .select({
+        member: workspaceMembers,
+        email: users.email,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName
+      })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+
+    return rows.map(({ member, ...user }: { member: WorkspaceMember } & Record<'email' | 'username' | 'firstName' | 'lastName', string | null>) => ({
+      ...member,
+      ...user
+    }));
+  }
+
+  /**
+   * Add a member, or change the role of an existing one
+   */
+  async upsertMember(workspaceId: number, userId: string, role: WorkspaceRole): Promise<WorkspaceMember> {
+    const database = this.getDatabase();
+
+    const [member] = await database
+      .insert(workspaceMembers)
+      .values({ workspaceId, userId, role })
+      .onConflictDoUpdate({
+        target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role }
+      })
+      .returning();
+
+    return member;
+  }
+
+  /**
+   * Remove a member from a workspace
+   */
+  async removeMember(workspaceId: number, userId: string): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const result = await database
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning();
+
+    return result.length > 0;
+  }
+
+  /**
+   * Number of owners of a workspace
+   */
+  async countOwners(workspaceId: number): Promise<number> {
+    const database = this.getDatabase();
+
+    const [{ value }] = await database
+      .select({ value: count() })
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.role, 'owner')));
+
+    return value;
+  }
+
+  /**
+   * Store an invitation
+   */
+  async createInvitation(data: typeof workspaceInvitations.$inferInsert): Promise<WorkspaceInvitation> {
+    const database = this.getDatabase();
+
+    const [invitation] = await database
+      .insert(workspaceInvitations)
+      .values(data)
+      .returning();
+
+    return invitation;
+  }
+
+  /**
+   * An invitation by the hash of its token
+   */
+  async getInvitationByTokenHash(tokenHash: string): Promise<WorkspaceInvitation | undefined> {
+    const database = this.getDatabase();
+
+    const [invitation] = await database
+      .select()
+      .from(workspaceInvitations)
+      .where(eq(workspaceInvitations.tokenHash, tokenHash));
+
+    return invitation;
+  }
+
+  /**
+   * Invitations of a workspace that are neither accepted nor expired
+   */
+  async getPendingInvitations(workspaceId: number): Promise<WorkspaceInvitation[]> {
+    const database = this.getDatabase();
+
+    return await database
+      .select()
+      .from(workspaceInvitations)
+      .where(and(
+        eq(workspaceInvitations.workspaceId, workspaceId),
+        isNull(workspaceInvitations.acceptedAt),
+        gt(workspaceInvitations.expiresAt, new Date())
+      ))
+      .orderBy(asc(workspaceInvitations.createdAt));
+  }
+
+  /**
+   * Mark an invitation as accepted
+   */
+  async markInvitationAccepted(id: number): Promise<void> {
+    const database = this.getDatabase();
+
+    await database
+      .update(workspaceInvitations)
+      .set({ acceptedAt: new Date() })
+      .where(eq(workspaceInvitations.id, id));
+  }
+
+  /**
+   * Delete a pending invitation of a workspace
+   */
+  async deleteInvitation(workspaceId: number, id: number): Promise<boolean> {
+    const database = this.getDatabase();
+
+    const result = await database
+      .delete(workspaceInvitations)
+      .where(and(
+        eq(workspaceInvitations.workspaceId, workspaceId),
+        eq(workspaceInvitations.id, id),
+        isNull(workspaceInvitations.acceptedAt)
+      ))
+      .returning();
+
+    return result.length > 0;
+  }
+}
+
+// Singleton instance
+export const workspaceRepository = new WorkspaceRepository();
@@ -0,0 +1,140 @@
+import { Router, Request, Response } from 'express';
+import { ZodError, z } from 'zod';
+import { createAnalysisBatchSchema, AnalysisBatch } from '../../shared/schema';
+import { analysisBatchRepository } from '../repositories/analysis-batch.repository';
+import {
+  batchAnalysisService,
+  sortBatchRows,
+  BATCH_SCORE_COLUMNS,
+  BatchScoreKey
+} from '../services/analysis/batch-analysis.service';
+import { generateBatchAnalysisExcel } from '../services/common/excel-exporter.service';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+
+const exportQuerySchema = z.object({
+  sort: z.enum(['url', ...BATCH_SCORE_COLUMNS.map(column => column.key)] as [string, ...string[]]).default('overallScore'),
+  direction: z.enum(['asc', 'desc']).default('desc')
+});
+
+// Load one of the current user's batches, or send the error response
+async function getOwnedBatch(req: Request, res: Response): Promise<AnalysisBatch | null> {
+  const batchId = parseInt(req.params.id);
+  if (isNaN(batchId)) {
+    res.status(400).json({ error: "Invalid batch ID" });
+    return null;
+  }
+
+  const batch = await analysisBatchRepository.getBatch(batchId);
+  if (!batch || batch.userId !== req.user!.id) {
+    res.status(404).json({ error: "Batch not found" });
+    return null;
+  }
+
+  return batch;
+}
+
+/**
+ * GET /api/analysis-batches
+ * List the current user's recent batches
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const batches = await analysisBatchRepository.getBatchesByUser(req.user!.id);
+    res.json(batches);
+  } catch (error) {
+    console.error("Error listing analysis batches:", error);
+    res.status(500).json({ error: "Failed to list analysis batches" });
+  }
+});
+
+/**
+ * POST /api/analysis-batches
+ * Analyze a list of URLs or the pages of a sitemap; the pages are analyzed in the background
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const input = createAnalysisBatchSchema.parse(req.body);
+    const batch = await batchAnalysisService.createBatch(req.user!.id, input);
+    res.status(202).json(batch);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid batch", details: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error creating analysis batch:", error);
+    res.status(500).json({ error: "Failed to create analysis batch" });
+  }
+});
+
+/**
+ * GET /api/analysis-batches/:id
+ * A batch's progress and the scores of each page analyzed so far
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const batch = await getOwnedBatch(req, res);
+    if (!batch) return;
+
+    const report = await batchAnalysisService.getReport(batch);
+    res.json(report);
+  } catch (error) {
+    console.error("Error getting analysis batch:", error);
+    res.status(500).json({ error: "Failed to get analysis batch" });
+  }
+});
+
+/**
+ * GET /api/analysis-batches/:id/export?sort=&direction=
+ * Download the comparison table as an Excel workbook, sorted like the table on screen
+ */
+router.get("/:id/export", async (req: Request, res: Response) => {
+  try {
+    const batch = await getOwnedBatch(req, res);
+    if (!batch) return;
+
+    const { sort, direction } = exportQuerySchema.parse(req.query);
+    const report = await batchAnalysisService.getReport(batch);
+    report.rows = sortBatchRows(report.rows, sort as BatchScoreKey | 'url', direction);
+
+    const excelBuffer = await generateBatchAnalysisExcel(report, BATCH_SCORE_COLUMNS);
+    const filename = `batch-analysis-${batch.id}.xlsx`;
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Length', excelBuffer.length.toString());
+    res.send(excelBuffer);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid export options", details: error.errors });
+    }
+    console.error("Error exporting analysis batch:", error);
+    res.status(500).json({ error: "Failed to export analysis batch" });
+  }
+});
+
+/**
+ * DELETE /api/analysis-batches/:id
+ * Delete a finished batch; the analyses it stored stay in the user's history
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const batch = await getOwnedBatch(req, res);
+    if (!batch) return;
+
+    if (batchAnalysisService.isBatchRunning(batch)) {
+      return res.status(409).json({ error: "The batch is still being analyzed" });
+    }
+
+    await analysisBatchRepository.deleteBatch(batch.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting analysis batch:", error);
+    res.status(500).json({ error: "Failed to delete analysis batch" });
+  }
+});
+
+export { router as analysisBatchRoutes };
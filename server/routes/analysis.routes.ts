@@ -3,42 +3,17 @@ import { urlFormSchema, insertAnalysisSchema, updateKeywordSchema } from '../../
 import { z, ZodError } from 'zod';
 import { fromZodError } from 'zod-validation-error';
 import { crawler } from '../services/audit/crawler.service';
-import { analyzer } from '../services/analysis/analyzer.service';
+import { analyzer, normalizeAnalysisUrl, sanitizeAnalysisResult } from '../services/analysis/analyzer.service';
 import { deepContentAnalyzer } from '../services/analysis/content-analyzer.service';
 import { searchService } from '../services/external/search.service';
 import { storage } from '../storage';
+import { webhookService } from '../services/webhooks';
 import { optionalAuth, authenticate } from '../middleware/auth';
 
 const router = Router();
 
-// Utility function for URL normalization
-const normalizeUrl = (inputUrl: string) => {
-  // Convert URL to lowercase
-  let normalizedUrl = inputUrl.toLowerCase();
-  
-  // If there's no protocol, add https://
-  if (!normalizedUrl.startsWith('http://') && !normalizedUrl.startsWith('https://')) {
-    normalizedUrl = 'https://' + normalizedUrl;
-  }
-  
-  // Attempt to create URL object to handle other normalizations
-  try {
-    const urlObj = new URL(normalizedUrl);
-    
-    // Remove trailing slash from pathname if it exists (except for root path)
-    if (urlObj.pathname.length > 1 && urlObj.pathname.endsWith('/')) {
-      urlObj.pathname = urlObj.pathname.slice(0, -1);
-    }
-    
-    return urlObj.toString();
-  } catch {
-    // If URL parsing fails, return the original with basic normalization
-    return normalizedUrl;
-  }
-};
-
 // API endpoint to analyze a URL
-router.post("/analyze", async (req: Request, res: Response) => {
+router.post("/analyze", optionalAuth, async (req: Request, res: Response) => {
   try {
     // Extract URL, target keyword, deep content analysis flag, and competitor analysis flag
     const { 
@@ -51,8 +26,11 @@ router.post("/analyze", async (req: Request, res: Response) => {
     // Validate the URL
     urlFormSchema.parse({ url: rawUrl });
     
+    // Webhooks of the requesting user or workspace hear when the analysis completes
+    const owner = { userId: req.user?.id ?? null, workspaceId: req.workspace?.id ?? null };
+    
     // Normalize the URL to ensure consistency
-    const url = normalizeUrl(rawUrl);
+    const url = normalizeAnalysisUrl(rawUrl);
     
     // Show the analysis is in progress
     res.status(202).json({ 
@@ -122,20 +100,7 @@ router.post("/analyze", async (req: Request, res: Response) => {
       }
       
       // Process the analysis result, fixing any NaN or invalid values
-      const sanitizedResult = JSON.parse(
-        JSON.stringify(analysisResult, (key, value) => {
-          // Replace NaN values with defaults
-          if (typeof value === 'number' && isNaN(value)) {
-            return key.toLowerCase().includes('score') ? 50 : 0;
-          }
-          return value;
-        })
-      );
-      
-      // Ensure the overall score has a valid value
-      if (!sanitizedResult.overallScore || isNaN(sanitizedResult.overallScore.score)) {
-        sanitizedResult.overallScore = { score: 50, category: 'needs-work' };
-      }
+      const sanitizedResult: any = sanitizeAnalysisResult(analysisResult);
       
       // Perform competitor analysis if requested
       if (includeCompetitorAnalysis && primaryKeyword) {
@@ -253,9 +218,18 @@ router.post("/analyze", async (req: Request, res: Response) => {
       
       // Validate and save to storage
       const validatedData = insertAnalysisSchema.parse(analysisData);
-      await storage.createAnalysis(validatedData);
+      const analysis = await storage.createAnalysis(validatedData);
       
       console.log("Analysis completed for:", url);
+      await webhookService.dispatch('analysis.completed', owner, {
+        analysis: {
+          id: analysis.id,
+          url,
+          overallScore: analysis.overallScore,
+          targetKeyword,
+          timestamp: analysis.timestamp.toISOString()
+        }
+      });
     } catch (analysisError) {
       console.error("Error during analysis:", analysisError);
       
@@ -339,7 +313,7 @@ router.get("/analysis", async (req: Request, res: Response) => {
     }
     
     // Normalize the URL for lookup
-    const url = normalizeUrl(rawUrl);
+    const url = normalizeAnalysisUrl(rawUrl);
     
     // Get existing analyses for this URL
     const analyses = await storage.getAnalysesByUrl(url);
@@ -0,0 +1,64 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { createApiKeySchema } from '../../shared/schema';
+import { apiKeyService } from '../services/api-keys';
+import { AppError } from '../utils/errors';
+
+const router = Router();
+
+// Send the response for a failed API key request
+function sendApiKeyError(res: Response, error: unknown, action: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`Error trying to ${action}:`, error);
+  res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * GET /api/api-keys
+ * List the current user's API keys, without the keys themselves
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    res.json(await apiKeyService.getApiKeys(req.user!.id));
+  } catch (error) {
+    sendApiKeyError(res, error, "list API keys");
+  }
+});
+
+/**
+ * POST /api/api-keys
+ * Create a personal or workspace API key; the key is only returned here
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const input = createApiKeySchema.parse(req.body);
+    res.status(201).json(await apiKeyService.createApiKey(req.user!.id, input));
+  } catch (error) {
+    sendApiKeyError(res, error, "create API key");
+  }
+});
+
+/**
+ * DELETE /api/api-keys/:id
+ * Revoke an API key
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid API key ID" });
+    }
+
+    await apiKeyService.revokeApiKey(req.user!.id, id);
+    res.json({ message: "API key revoked" });
+  } catch (error) {
+    sendApiKeyError(res, error, "revoke API key");
+  }
+});
+
+export { router as apiKeyRoutes };
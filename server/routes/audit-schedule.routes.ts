@@ -0,0 +1,160 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { insertProjectAuditScheduleSchema, ProjectAuditSchedule } from '../../shared/schema';
+import { projectRepository } from '../repositories/project.repository';
+import { getAccessScope } from '../middleware/auth';
+import { auditScheduleRepository } from '../repositories/audit-schedule.repository';
+import { rivalAuditRepository } from '../repositories/rival-audit.repository';
+import { auditScheduleService } from '../services/audit/audit-schedule.service';
+
+const router = Router();
+
+const updateScheduleSchema = insertProjectAuditScheduleSchema.omit({ projectId: true }).partial();
+
+// Load a schedule the current user may manage, or send the error response
+async function getOwnedSchedule(req: Request, res: Response): Promise<ProjectAuditSchedule | null> {
+  const scheduleId = parseInt(req.params.id);
+  if (isNaN(scheduleId)) {
+    res.status(400).json({ error: "Invalid schedule ID" });
+    return null;
+  }
+
+  const schedule = await auditScheduleRepository.getSchedule(scheduleId);
+  if (!schedule || !(await projectRepository.canAccessProject(getAccessScope(req), schedule.projectId))) {
+    res.status(404).json({ error: "Schedule not found" });
+    return null;
+  }
+
+  return schedule;
+}
+
+/**
+ * GET /api/audit-schedules?projectId=
+ * List a project's audit schedules
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const projectId = parseInt(req.query.projectId as string);
+    if (isNaN(projectId)) {
+      return res.status(400).json({ error: "projectId is required" });
+    }
+
+    if (!(await projectRepository.canAccessProject(getAccessScope(req), projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const schedules = await auditScheduleRepository.getSchedulesByProject(projectId);
+    res.json(schedules);
+  } catch (error) {
+    console.error("Error listing audit schedules:", error);
+    res.status(500).json({ error: "Failed to list audit schedules" });
+  }
+});
+
+/**
+ * POST /api/audit-schedules
+ * Schedule a weekly or monthly enhanced audit for a project
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const data = insertProjectAuditScheduleSchema.parse(req.body);
+
+    if (!(await projectRepository.canAccessProject(getAccessScope(req), data.projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const schedule = await auditScheduleService.createSchedule(data, req.user!.id);
+    res.status(201).json(schedule);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid schedule", details: error.errors });
+    }
+    console.error("Error creating audit schedule:", error);
+    res.status(500).json({ error: "Failed to create audit schedule" });
+  }
+});
+
+/**
+ * PATCH /api/audit-schedules/:id
+ * Change a schedule's URL, frequency, recipients or pause it
+ */
+router.patch("/:id", async (req: Request, res: Response) => {
+  try {
+    const schedule = await getOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    const updates = updateScheduleSchema.parse(req.body);
+    const updated = await auditScheduleRepository.updateSchedule(schedule.id, updates);
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid schedule", details: error.errors });
+    }
+    console.error("Error updating audit schedule:", error);
+    res.status(500).json({ error: "Failed to update audit schedule" });
+  }
+});
+
+/**
+ * DELETE /api/audit-schedules/:id
+ * Remove a schedule; audits it already ran stay in the project history
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const schedule = await getOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    await auditScheduleRepository.deleteSchedule(schedule.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting audit schedule:", error);
+    res.status(500).json({ error: "Failed to delete audit schedule" });
+  }
+});
+
+/**
+ * POST /api/audit-schedules/:id/run
+ * Run a scheduled audit now without moving the next scheduled run
+ */
+router.post("/:id/run", async (req: Request, res: Response) => {
+  try {
+    const schedule = await getOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    const audit = await auditScheduleService.startScheduledAudit(schedule);
+    res.status(202).json({ id: audit.id, url: audit.url, message: "Scheduled audit started" });
+  } catch (error) {
+    console.error("Error running scheduled audit:", error);
+    res.status(500).json({ error: "Failed to start scheduled audit" });
+  }
+});
+
+/**
+ * GET /api/audit-schedules/:id/history
+ * Audits run by a schedule, newest first, without their full results
+ */
+router.get("/:id/history", async (req: Request, res: Response) => {
+  try {
+    const schedule = await getOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const audits = await rivalAuditRepository.getAuditsBySchedule(schedule.id, limit);
+
+    res.json(audits.map(audit => ({
+      id: audit.id,
+      url: audit.url,
+      status: audit.status,
+      summary: audit.summary,
+      pagesAnalyzed: audit.pagesAnalyzed,
+      errorMessage: audit.errorMessage,
+      createdAt: audit.createdAt,
+      completedAt: audit.completedAt
+    })));
+  } catch (error) {
+    console.error("Error retrieving audit schedule history:", error);
+    res.status(500).json({ error: "Failed to retrieve audit history" });
+  }
+});
+
+export { router as auditScheduleRoutes };
@@ -1,13 +1,53 @@
 import { Router, Request, Response } from 'express';
-import { rivalAuditCrawler } from '../services/audit/rival-audit-crawler.service';
-import { auditService } from '../services/audit/audit.service';
 import { generateRivalAuditExcel, generateEnhancedRivalAuditExcel } from '../services/common/excel-exporter.service';
 import { generateRivalAuditCsv } from '../services/common/csv-exporter.service';
-import { AuditStatus } from '../../shared/schema';
-import { rivalAuditRepository } from '../repositories/rival-audit.repository';
+import { AuditStatus, RivalAuditRecord } from '../../shared/schema';
+import { hasWorkspacePermission, WorkspacePermission } from '../../shared/constants/workspace-roles';
+import { rivalAuditRepository, isFallbackAudit } from '../repositories/rival-audit.repository';
+import { workspaceRepository } from '../repositories/workspace.repository';
+import { AccessScope } from '../types/workspace';
+import { auditQueueService } from '../services/audit/audit-queue.service';
+import { auditProgressService, AuditProgressEvent } from '../services/audit/audit-progress.service';
+import { auditComparisonService } from '../services/audit/audit-comparison.service';
+import { webhookService } from '../services/webhooks';
 
 const router = Router();
 
+// Audits shared with a workspace are only open to its members, and their role
+// decides whether they may change them. The audit's own workspace is checked
+// because EventSource requests cannot send the X-Workspace-Id header.
+async function checkWorkspaceAccess(
+  req: Request,
+  res: Response,
+  auditRecord: RivalAuditRecord,
+  permission: WorkspacePermission = 'read'
+): Promise<boolean> {
+  if (auditRecord.workspaceId === null) {
+    return true;
+  }
+
+  const member = req.user ? await workspaceRepository.getMember(auditRecord.workspaceId, req.user.id) : undefined;
+  if (!member) {
+    res.status(404).json({ error: "Audit not found" });
+    return false;
+  }
+  if (!hasWorkspacePermission(member.role, permission)) {
+    res.status(403).json({ error: `The ${member.role} role cannot change this audit` });
+    return false;
+  }
+
+  return true;
+}
+
+// The workspace or user that owns an audit, whose earlier audits it may be
+// compared with. Anonymous audits have no owner and no history.
+function getAuditOwnerScope(auditRecord: RivalAuditRecord): AccessScope | null {
+  if (auditRecord.workspaceId !== null) {
+    return { userId: auditRecord.userId || '', workspaceId: auditRecord.workspaceId };
+  }
+  return auditRecord.userId ? { userId: auditRecord.userId, workspaceId: null } : null;
+}
+
 // Type for cached rival audit (for backward compatibility)
 interface CachedRivalAudit {
   id: number;
@@ -31,45 +71,15 @@ interface CachedRivalAudit {
   [key: string]: any;
 }
 
-// Generate mock rival audit data (fallback function)
-function generateMockRivalAudit(url: string): CachedRivalAudit {
-  return {
-    id: Math.floor(Math.random() * 1000) + 1,
-    url,
-    status: 'completed',
-    startTime: new Date(),
-    endTime: new Date(),
-    summary: {
-      priorityOfiCount: 3,
-      ofiCount: 12,
-      okCount: 25,
-      naCount: 5,
-      total: 45
-    },
-    onPage: {
-      items: [
-        {
-          name: "Page Title Optimization",
-          status: "OFI",
-          description: "Page titles could be more descriptive",
-          notes: "Consider adding location-based keywords"
-        }
-      ]
-    },
-    structureNavigation: { items: [] },
-    contactPage: { items: [] },
-    servicePages: { items: [] },
-    locationPages: { items: [] }
-  };
-}
-
 // Start a new enhanced rival audit with 140+ factors
 router.post("/enhanced", async (req: Request, res: Response) => {
   console.log('🎯 POST /api/rival-audit/enhanced called with body:', req.body);
   
   try {
     const { url } = req.body;
-    console.log('📥 Received URL for enhanced audit:', url);
+    // Only set when the client confirms the site owner authorized crawling past robots.txt
+    const ignoreRobots = req.body.ignoreRobots === true;
+    console.log('📥 Received URL for enhanced audit:', url, 'ignoreRobots:', ignoreRobots);
     
     if (!url) {
       console.log('❌ No URL provided');
@@ -81,8 +91,9 @@ router.post("/enhanced", async (req: Request, res: Response) => {
       url,
       status: 'pending',
       userId: req.user?.id || null,
+      workspaceId: req.workspace?.id ?? null,
       expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
-      metadata: { auditType: 'enhanced' }
+      metadata: { auditType: 'enhanced', ignoreRobots }
     });
     
     console.log('🆔 Created enhanced audit ID:', auditRecord.id);
@@ -101,6 +112,13 @@ router.post("/enhanced", async (req: Request, res: Response) => {
     }
     console.log('✅ Verified enhanced audit exists in database:', auditRecord.id);
     
+    // Hand the audit to the durable job queue
+    await auditQueueService.enqueueAudit(auditRecord.id, url, {
+      continueCrawl: false,
+      ignoreRobots,
+      userId: req.user?.id || null
+    });
+    
     // Return the audit ID immediately
     const response = { 
       id: auditRecord.id, 
@@ -111,119 +129,6 @@ router.post("/enhanced", async (req: Request, res: Response) => {
     console.log('✅ Sending enhanced audit response:', response);
     res.status(202).json(response);
     
-    // Perform the actual enhanced audit asynchronously
-    setTimeout(async () => {
-      try {
-        console.log(`Starting enhanced rival audit for ${url} with ID ${auditRecord.id}`);
-        
-        // Update status to 'processing' to indicate crawl has actually started
-        await rivalAuditRepository.updateAudit(auditRecord.id, { 
-          status: 'processing',
-          updatedAt: new Date()
-        });
-        console.log(`Updated audit ${auditRecord.id} status to 'processing'`);
-        
-        // Use the enhanced audit service with progress tracking
-        const auditResults = await auditService.crawlAndAuditEnhanced(url, async (stage: string, progress: number) => {
-          console.log(`Audit ${auditRecord.id} progress: ${stage} (${progress}%)`);
-          // Update database with progress
-          try {
-            await rivalAuditRepository.updateAudit(auditRecord.id, { 
-              metadata: { 
-                ...(auditRecord.metadata as object || {}),
-                auditType: 'enhanced',
-                currentStage: stage,
-                progress: progress
-              },
-              updatedAt: new Date()
-            });
-          } catch (progressError) {
-            console.warn(`Failed to update progress for audit ${auditRecord.id}:`, progressError);
-          }
-        });
-        
-        // Store the results in database - ensure enhanced categories are preserved
-        const resultsToStore = {
-          ...auditResults,
-          type: 'enhanced',
-          summary: {
-            ...auditResults.summary,
-            total: (auditResults.summary as any).totalFactors || 0
-          },
-          // Explicitly include enhanced categories to ensure they're preserved
-          contentQuality: (auditResults as any).contentQuality,
-          technicalSEO: (auditResults as any).technicalSEO,
-          localSEO: (auditResults as any).localSEO,
-          uxPerformance: (auditResults as any).uxPerformance
-        };
-        
-        console.log(`[AuditRoute] Storing enhanced audit results with categories:`, {
-          contentQuality: resultsToStore.contentQuality?.items?.length || 0,
-          technicalSEO: resultsToStore.technicalSEO?.items?.length || 0,
-          localSEO: resultsToStore.localSEO?.items?.length || 0,
-          uxPerformance: resultsToStore.uxPerformance?.items?.length || 0
-        });
-        
-        // TEMPORARY DEBUG: Log Priority OFI counts before storage
-        const allStorageItems = [
-          ...(resultsToStore.contentQuality?.items || []),
-          ...(resultsToStore.technicalSEO?.items || []),
-          ...(resultsToStore.localSEO?.items || []),
-          ...(resultsToStore.uxPerformance?.items || [])
-        ];
-        const priorityOfiCountInStorage = allStorageItems.filter(item => item.status === 'Priority OFI').length;
-        console.log(`[STORAGE DEBUG] About to store ${priorityOfiCountInStorage} Priority OFI items. Summary shows: ${resultsToStore.summary.priorityOfiCount}`);
-        
-        await rivalAuditRepository.completeAudit(
-          auditRecord.id,
-          resultsToStore,
-          auditResults.summary,
-          ('total' in auditResults.summary ? (auditResults.summary as any).total : ('totalFactors' in auditResults.summary ? (auditResults.summary as any).totalFactors : 0)) || 0,
-          auditResults.reachedMaxPages || false
-        );
-        
-        console.log(`Completed enhanced rival audit for ${url} with ID ${auditRecord.id} - analyzed ${(auditResults.summary as any).totalFactors} factors`);
-        
-      } catch (error) {
-        console.error("Error performing enhanced rival audit:", error);
-        
-        try {
-          // First update status to failed
-          await rivalAuditRepository.failAudit(auditRecord.id, error instanceof Error ? error.message : 'Unknown error');
-          console.log(`Updated audit ${auditRecord.id} status to 'failed'`);
-          
-          // Store mock data as fallback for graceful degradation
-          const mockAudit = generateMockRivalAudit(url);
-          await rivalAuditRepository.completeAudit(
-            auditRecord.id,
-            {
-              ...mockAudit,
-              type: 'enhanced',
-              summary: {
-                ...mockAudit.summary,
-                totalFactors: 142 // Mock enhanced factor count
-              }
-            },
-            {
-              ...mockAudit.summary,
-              totalFactors: 142
-            },
-            45, // Mock page count
-            false
-          );
-          console.log(`Stored mock enhanced data for failed audit ${auditRecord.id}`);
-        } catch (dbError) {
-          console.error(`Failed to handle audit failure for ${auditRecord.id}:`, dbError);
-          // Try one more time to mark as failed
-          try {
-            await rivalAuditRepository.failAudit(auditRecord.id, `Primary error: ${error instanceof Error ? error.message : 'Unknown error'}. DB error: ${dbError instanceof Error ? dbError.message : 'Unknown DB error'}`);
-          } catch (finalError) {
-            console.error(`CRITICAL: Could not update audit status for ${auditRecord.id}:`, finalError);
-          }
-        }
-      }
-    }, 0);
-    
   } catch (error) {
     console.error("❌ Error starting enhanced rival audit:", error);
     res.status(500).json({ 
@@ -239,7 +144,8 @@ router.post("/", async (req: Request, res: Response) => {
   
   try {
     const { url, continueCrawl } = req.body;
-    console.log('📥 Received URL:', url, 'continueCrawl:', continueCrawl);
+    const ignoreRobots = req.body.ignoreRobots === true;
+    console.log('📥 Received URL:', url, 'continueCrawl:', continueCrawl, 'ignoreRobots:', ignoreRobots);
     
     if (!url) {
       console.log('❌ No URL provided');
@@ -251,8 +157,9 @@ router.post("/", async (req: Request, res: Response) => {
       url,
       status: 'pending',
       userId: req.user?.id || null,
+      workspaceId: req.workspace?.id ?? null,
       expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
-      metadata: { auditType: 'enhanced' }
+      metadata: { auditType: 'enhanced', ignoreRobots }
     });
     
     console.log('🆔 Created audit ID:', auditRecord.id);
@@ -271,6 +178,13 @@ router.post("/", async (req: Request, res: Response) => {
     }
     console.log('✅ Verified audit exists in database:', auditRecord.id);
     
+    // Hand the audit to the durable job queue
+    await auditQueueService.enqueueAudit(auditRecord.id, url, {
+      continueCrawl: !!continueCrawl,
+      ignoreRobots,
+      userId: req.user?.id || null
+    });
+    
     // Return the audit ID immediately
     const response = { 
       id: auditRecord.id, 
@@ -281,118 +195,6 @@ router.post("/", async (req: Request, res: Response) => {
     console.log('✅ Sending response:', response);
     res.status(202).json(response);
     
-    // Perform the actual audit asynchronously
-    setTimeout(async () => {
-      try {
-        // Update status to 'processing' to indicate crawl has actually started
-        await rivalAuditRepository.updateAudit(auditRecord.id, { 
-          status: 'processing',
-          updatedAt: new Date()
-        });
-        console.log(`Updated audit ${auditRecord.id} status to 'processing'`);
-        
-        let auditResults;
-        
-        if (continueCrawl) {
-          console.log(`Continuing rival audit for ${url} with ID ${auditRecord.id}`);
-          // Continue crawling from where it left off
-          auditResults = await rivalAuditCrawler.continueCrawl(url);
-          console.log(`Completed continued rival audit for ${url} with ID ${auditRecord.id}`);
-        } else {
-          console.log(`Starting new enhanced rival audit for ${url} with ID ${auditRecord.id}`);
-          // Use the enhanced audit service with progress tracking
-          auditResults = await auditService.crawlAndAuditEnhanced(url, async (stage: string, progress: number) => {
-            console.log(`Audit ${auditRecord.id} progress: ${stage} (${progress}%)`);
-            // Update database with progress
-            try {
-              await rivalAuditRepository.updateAudit(auditRecord.id, { 
-                metadata: { 
-                  ...(auditRecord.metadata as object || {}),
-                  auditType: 'enhanced',
-                  currentStage: stage,
-                  progress: progress
-                },
-                updatedAt: new Date()
-              });
-            } catch (progressError) {
-              console.warn(`Failed to update progress for audit ${auditRecord.id}:`, progressError);
-            }
-          });
-          console.log(`Completed enhanced rival audit for ${url} with ID ${auditRecord.id}`);
-        }
-        
-        // Store the results in database - ensure enhanced categories are preserved
-        const resultsToStore = {
-          ...auditResults,
-          type: 'enhanced',
-          summary: {
-            ...auditResults.summary,
-            total: (auditResults.summary as any).totalFactors || 0
-          },
-          // Explicitly include enhanced categories to ensure they're preserved
-          contentQuality: (auditResults as any).contentQuality,
-          technicalSEO: (auditResults as any).technicalSEO,
-          localSEO: (auditResults as any).localSEO,
-          uxPerformance: (auditResults as any).uxPerformance
-        };
-        
-        console.log(`[AuditRoute] Storing enhanced audit results with categories:`, {
-          contentQuality: resultsToStore.contentQuality?.items?.length || 0,
-          technicalSEO: resultsToStore.technicalSEO?.items?.length || 0,
-          localSEO: resultsToStore.localSEO?.items?.length || 0,
-          uxPerformance: resultsToStore.uxPerformance?.items?.length || 0
-        });
-        
-        await rivalAuditRepository.completeAudit(
-          auditRecord.id,
-          resultsToStore,
-          auditResults.summary,
-          ('total' in auditResults.summary ? (auditResults.summary as any).total : ('totalFactors' in auditResults.summary ? (auditResults.summary as any).totalFactors : 0)) || 0,
-          auditResults.reachedMaxPages || false
-        );
-        
-        console.log(`Completed enhanced rival audit for ${url} with ID ${auditRecord.id} - analyzed ${(auditResults.summary as any).totalFactors} factors`);
-        
-      } catch (error) {
-        console.error("Error performing enhanced rival audit:", error);
-        
-        try {
-          // First update status to failed
-          await rivalAuditRepository.failAudit(auditRecord.id, error instanceof Error ? error.message : 'Unknown error');
-          console.log(`Updated audit ${auditRecord.id} status to 'failed'`);
-          
-          // Store mock data as fallback for graceful degradation
-          const mockAudit = generateMockRivalAudit(url);
-          await rivalAuditRepository.completeAudit(
-            auditRecord.id,
-            {
-              ...mockAudit,
-              type: 'enhanced',
-              summary: {
-                ...mockAudit.summary,
-                totalFactors: 142 // Mock enhanced factor count
-              }
-            },
-            {
-              ...mockAudit.summary,
-              totalFactors: 142
-            },
-            45, // Mock page count
-            false
-          );
-          console.log(`Stored mock enhanced data for failed audit ${auditRecord.id}`);
-        } catch (dbError) {
-          console.error(`Failed to handle audit failure for ${auditRecord.id}:`, dbError);
-          // Try one more time to mark as failed
-          try {
-            await rivalAuditRepository.failAudit(auditRecord.id, `Primary error: ${error instanceof Error ? error.message : 'Unknown error'}. DB error: ${dbError instanceof Error ? dbError.message : 'Unknown DB error'}`);
-          } catch (finalError) {
-            console.error(`CRITICAL: Could not update audit status for ${auditRecord.id}:`, finalError);
-          }
-        }
-      }
-    }, 0);
-    
   } catch (error) {
     console.error("❌ Error starting rival audit:", error);
     console.error("❌ Error stack:", error instanceof Error ? error.stack : 'No stack trace');
@@ -405,6 +207,43 @@ router.post("/", async (req: Request, res: Response) => {
   }
 });
 
+// Cancel a queued or running audit
+router.post("/:id/cancel", async (req: Request, res: Response) => {
+  try {
+    const auditId = parseInt(req.params.id);
+    
+    if (isNaN(auditId)) {
+      return res.status(400).json({ error: "Invalid audit ID" });
+    }
+    
+    const auditRecord = await rivalAuditRepository.getAudit(auditId);
+    if (!auditRecord) {
+      return res.status(404).json({ error: "Audit not found" });
+    }
+    
+    if (!(await checkWorkspaceAccess(req, res, auditRecord, 'write'))) return;
+    
+    const result = await auditQueueService.cancelAudit(auditId);
+    
+    if (result === 'not_running') {
+      return res.status(409).json({ 
+        error: "Audit is not running",
+        status: auditRecord.status
+      });
+    }
+    
+    // Running audits stop at the next crawl batch, so report them as cancelling
+    res.status(result === 'cancelled' ? 200 : 202).json({ 
+      id: auditId,
+      status: result,
+      message: result === 'cancelled' ? "Audit cancelled" : "Audit cancellation requested"
+    });
+  } catch (error) {
+    console.error("Error cancelling rival audit:", error);
+    res.status(500).json({ error: "Failed to cancel audit" });
+  }
+});
+
 // Endpoint to force analysis of service pages
 router.post("/:id/analyze-service-pages", async (req: Request, res: Response) => {
   try {
@@ -420,6 +259,8 @@ router.post("/:id/analyze-service-pages", async (req: Request, res: Response) =>
       return res.status(404).json({ error: "Audit not found" });
     }
     
+    if (!(await checkWorkspaceAccess(req, res, auditRecord, 'write'))) return;
+    
     // Clone the audit to avoid direct mutations
     const audit = JSON.parse(JSON.stringify(auditRecord.results));
     
@@ -530,6 +371,8 @@ router.post("/:id/update-item", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Audit not found" });
     }
     
+    if (!(await checkWorkspaceAccess(req, res, auditRecord, 'write'))) return;
+    
     // Get the appropriate section - UPDATED to handle enhanced categories
     const audit = auditRecord.results as any;
     if (!audit || typeof audit !== 'object') {
@@ -612,11 +455,18 @@ router.post("/:id/update-item", async (req: Request, res: Response) => {
     audit.summary = cachedAudit.summary;
     
     // Update the database
-    await rivalAuditRepository.updateAudit(auditId, {
+    const updatedAudit = await rivalAuditRepository.updateAudit(auditId, {
       results: audit,
       summary: audit.summary
     });
     
+    if (oldStatus !== status) {
+      await webhookService.dispatchAuditEvent('audit.item_status_changed', updatedAudit, {
+        item: { section: sectionName, name: itemName, oldStatus, newStatus: status, notes: item.notes ?? null },
+        changedBy: req.user?.id ?? null
+      });
+    }
+    
     return res.json({
       success: true,
       updatedItem: item,
@@ -630,6 +480,121 @@ router.post("/:id/update-item", async (req: Request, res: Response) => {
   }
 });
 
+
+// Stream live audit progress as Server-Sent Events
+router.get("/:id/events", async (req: Request, res: Response) => {
+  const auditId = parseInt(req.params.id);
+  
+  if (isNaN(auditId)) {
+    return res.status(400).json({ error: "Invalid audit ID" });
+  }
+  
+  try {
+    const auditRecord = await rivalAuditRepository.getAudit(auditId);
+    if (!auditRecord) {
+      return res.status(404).json({ error: "Audit not found" });
+    }
+    
+    if (!(await checkWorkspaceAccess(req, res, auditRecord))) return;
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // disable proxy buffering
+    });
+    
+    let closed = false;
+    let lastEventId = parseInt(String(req.headers['last-event-id'] || '0')) || 0;
+    
+    const send = (event: Pick<AuditProgressEvent, 'type' | 'data'> & { id?: number }) => {
+      if (closed) return;
+      if (event.id) {
+        lastEventId = event.id;
+        res.write(`id: ${event.id}\n`);
+      }
+      res.write(`event: ${event.type}\n`);
+      res.write(`data: ${JSON.stringify(event.data)}\n\n`);
+    };
+    
+    const metadata = auditRecord.metadata as any;
+    let lastStage = metadata?.currentStage;
+    let lastProgress = metadata?.progress || 0;
+    
+    // Snapshot of the stored audit, then replay the crawl log seen so far
+    send({
+      type: 'status',
+      data: {
+        status: auditRecord.status,
+        stage: lastStage || 'Preparing',
+        progress: lastProgress,
+        pagesAnalyzed: auditRecord.pagesAnalyzed
+      }
+    });
+    auditProgressService.getHistory(auditId, lastEventId).forEach(send);
+    
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(statusInterval);
+      res.end();
+    };
+    
+    const unsubscribe = auditProgressService.subscribe(auditId, (event) => {
+      send(event);
+      if (event.type === 'complete' || event.type === 'cancelled') {
+        close();
+      }
+    });
+    
+    // Keep the connection alive and follow audits run by other workers through the database
+    const statusInterval = setInterval(async () => {
+      if (closed) return;
+      res.write(': ping\n\n');
+      
+      try {
+        const current = await rivalAuditRepository.getAudit(auditId);
+        if (!current || closed) return;
+        
+        if (current.status === 'completed' || current.status === 'failed') {
+          send({ type: 'complete', data: { status: current.status, pagesAnalyzed: current.pagesAnalyzed, reachedMaxPages: current.reachedMaxPages } });
+          close();
+        } else if (current.status === 'cancelled') {
+          send({ type: 'cancelled', data: { message: current.errorMessage || 'Audit cancelled by user' } });
+          close();
+        } else if (!auditProgressService.hasEvents(auditId)) {
+          const currentMetadata = current.metadata as any;
+          if (currentMetadata?.currentStage && (currentMetadata.currentStage !== lastStage || currentMetadata.progress !== lastProgress)) {
+            lastStage = currentMetadata.currentStage;
+            lastProgress = currentMetadata.progress || 0;
+            send({ type: 'stage', data: { stage: lastStage, progress: lastProgress } });
+          }
+        }
+      } catch (error) {
+        console.warn(`Failed to refresh audit ${auditId} for event stream:`, error);
+      }
+    }, 5000);
+    
+    req.on('close', close);
+    
+    // Nothing more will happen for audits that already finished
+    if (auditRecord.status === 'completed' || auditRecord.status === 'failed') {
+      send({ type: 'complete', data: { status: auditRecord.status, pagesAnalyzed: auditRecord.pagesAnalyzed, reachedMaxPages: auditRecord.reachedMaxPages } });
+      close();
+    } else if (auditRecord.status === 'cancelled') {
+      send({ type: 'cancelled', data: { message: auditRecord.errorMessage || 'Audit cancelled by user' } });
+      close();
+    }
+  } catch (error) {
+    console.error("Error streaming rival audit events:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Failed to stream audit events" });
+    } else {
+      res.end();
+    }
+  }
+});
 // Debug endpoint to check enhanced categories
 router.get("/:id/debug", async (req: Request, res: Response) => {
   try {
@@ -645,6 +610,8 @@ router.get("/:id/debug", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Audit not found" });
     }
     
+    if (!(await checkWorkspaceAccess(req, res, auditRecord))) return;
+    
     const results = auditRecord.results as any;
     
     // DETAILED DEBUG: Log what's actually in the database
@@ -714,6 +681,57 @@ router.get("/:id/debug", async (req: Request, res: Response) => {
   }
 });
 
+// Compare an audit with another audit of the same site ("previous" = the last completed audit before it)
+router.get("/:id/compare/:otherId", async (req: Request, res: Response) => {
+  try {
+    const auditId = parseInt(req.params.id);
+    const comparePrevious = req.params.otherId === 'previous';
+    const otherId = comparePrevious ? NaN : parseInt(req.params.otherId);
+    
+    if (isNaN(auditId) || (!comparePrevious && isNaN(otherId))) {
+      return res.status(400).json({ error: "Invalid audit ID" });
+    }
+    
+    const auditRecord = await rivalAuditRepository.getAudit(auditId);
+    if (!auditRecord) {
+      return res.status(404).json({ error: "Audit not found" });
+    }
+    
+    if (!(await checkWorkspaceAccess(req, res, auditRecord))) return;
+    
+    const ownerScope = getAuditOwnerScope(auditRecord);
+    const otherRecord = comparePrevious
+      ? ownerScope ? await rivalAuditRepository.getPreviousCompletedAudit(ownerScope, auditRecord.url, auditRecord.createdAt) : undefined
+      : await rivalAuditRepository.getAudit(otherId);
+    if (!otherRecord) {
+      return res.status(404).json({ 
+        error: comparePrevious ? "No previous completed audit for this URL" : "Comparison audit not found"
+      });
+    }
+    
+    if (!(await checkWorkspaceAccess(req, res, otherRecord))) return;
+    
+    if (auditRecord.status !== 'completed' || otherRecord.status !== 'completed' ||
+        isFallbackAudit(auditRecord) || isFallbackAudit(otherRecord)) {
+      return res.status(409).json({ error: "Both audits must be completed to compare them" });
+    }
+    
+    if (getComparableHost(auditRecord.url) !== getComparableHost(otherRecord.url)) {
+      return res.status(400).json({ error: "Audits are for different sites" });
+    }
+    
+    // The earlier audit is always the baseline
+    const [baseline, current] = otherRecord.createdAt <= auditRecord.createdAt
+      ? [otherRecord, auditRecord]
+      : [auditRecord, otherRecord];
+    
+    res.json(auditComparisonService.compareAudits(baseline, current));
+  } catch (error) {
+    console.error("Error comparing rival audits:", error);
+    res.status(500).json({ error: "Failed to compare audits" });
+  }
+});
+
 // Get rival audit results by ID
 router.get("/:id", async (req: Request, res: Response) => {
   try {
@@ -746,6 +764,8 @@ router.get("/:id", async (req: Request, res: Response) => {
       });
     }
     
+    if (!(await checkWorkspaceAccess(req, res, auditRecord))) return;
+    
     console.log(`✅ Found audit: ${auditId}, status: ${auditRecord.status}`);
     
     // If still pending or processing, return 202 with status info
@@ -764,8 +784,17 @@ router.get("/:id", async (req: Request, res: Response) => {
       });
     }
     
-    // If failed, return error
-    if (auditRecord.status === 'failed') {
+    // If cancelled, the audit will never produce results
+    if (auditRecord.status === 'cancelled') {
+      return res.status(410).json({ 
+        error: "Audit was cancelled",
+        status: auditRecord.status,
+        message: auditRecord.errorMessage || "Audit cancelled by user"
+      });
+    }
+    
+    // If failed, return error; older failed audits were stored as completed with placeholder results
+    if (auditRecord.status === 'failed' || isFallbackAudit(auditRecord)) {
       return res.status(500).json({ 
         error: "Audit failed to complete",
         message: auditRecord.errorMessage || "Unknown error"
@@ -822,10 +851,12 @@ router.get("/:id/export", async (req: Request, res: Response) => {
     
     // Get audit from database
     const auditRecord = await rivalAuditRepository.getAudit(auditId);
-    if (!auditRecord || !auditRecord.results) {
+    if (!auditRecord || !auditRecord.results || isFallbackAudit(auditRecord)) {
       return res.status(404).json({ error: "Audit not found" });
     }
     
+    if (!(await checkWorkspaceAccess(req, res, auditRecord))) return;
+    
     const audit = auditRecord.results as any;
     if (!audit || typeof audit !== 'object') {
       return res.status(404).json({ error: "Audit results not found or invalid" });
@@ -866,8 +897,17 @@ router.get("/:id/export", async (req: Request, res: Response) => {
         let filename;
         
         if (isEnhancedAudit) {
+          // Include changes since the previous audit of this URL when there is one
+          const ownerScope = getAuditOwnerScope(auditRecord);
+          const previousRecord = ownerScope
+            ? await rivalAuditRepository.getPreviousCompletedAudit(ownerScope, auditRecord.url, auditRecord.createdAt)
+            : undefined;
+          const comparison = previousRecord && auditRecord.status === 'completed'
+            ? auditComparisonService.compareAudits(previousRecord, auditRecord)
+            : undefined;
+          
           // Use enhanced Excel exporter for 140+ factor audits
-          excelBuffer = await generateEnhancedRivalAuditExcel(audit);
+          excelBuffer = await generateEnhancedRivalAuditExcel(audit, comparison);
           filename = `enhanced-rival-audit-${auditId}.xlsx`;
         } else {
           // Use regular Excel exporter for standard audits
@@ -893,6 +933,15 @@ router.get("/:id/export", async (req: Request, res: Response) => {
   }
 });
 
+// Hostname used to check that two audits are for the same site
+function getComparableHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
 // Helper function to convert cached audit to export format
 function convertForExport(audit: CachedRivalAudit) {
   return {
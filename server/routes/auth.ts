@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
-import { authenticate } from '../middleware/auth';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { authService } from '../services/auth/auth.service';
 
 export const authRouter = Router();
 
@@ -10,9 +11,20 @@ authRouter.post('/register', AuthController.register);
 // Login
 authRouter.post('/login', AuthController.login);
 
+// Second login step for accounts with two-factor authentication
+authRouter.post('/login/2fa', AuthController.verifyTwoFactorLogin);
+
 // Logout
 authRouter.post('/logout', AuthController.logout);
 
+// Two-factor authentication; setup and enable also take the pre-auth token of
+// an account that must enrol before it can sign in
+authRouter.get('/2fa', authenticate, AuthController.getTwoFactorStatus);
+authRouter.post('/2fa/setup', optionalAuth, AuthController.setupTwoFactor);
+authRouter.post('/2fa/enable', optionalAuth, AuthController.enableTwoFactor);
+authRouter.post('/2fa/disable', authenticate, AuthController.disableTwoFactor);
+authRouter.post('/2fa/backup-codes', authenticate, AuthController.regenerateBackupCodes);
+
 // Get current authenticated user
 authRouter.get('/me', authenticate, AuthController.getMe);
 
@@ -28,23 +40,11 @@ authRouter.get('/user', (req, res) => {
     return res.status(200).json(null);
   }
   
-  try {
-    const jwt = require('jsonwebtoken');
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret');
-    
-    // Get user data
-    const { storage } = require('../storage');
-    storage.getUser(decoded.userId).then((user: any) => {
-      if (!user) {
-        return res.status(200).json(null);
-      }
-      
-      const { password, ...userWithoutPassword } = user;
-      return res.status(200).json(userWithoutPassword);
-    }).catch(() => {
-      return res.status(200).json(null);
-    });
-  } catch (error) {
+  // Revoked and timed-out sessions count as signed out
+  authService.getUserFromToken(token).then((user) => {
+    const { password, ...userWithoutPassword } = user;
+    return res.status(200).json(userWithoutPassword);
+  }).catch(() => {
     return res.status(200).json(null);
-  }
+  });
 });
\ No newline at end of file
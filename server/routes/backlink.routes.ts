@@ -0,0 +1,246 @@
+import { Router, Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { createBacklinkProfileSchema, outgoingLinkStatusSchema, backlinkImportSchema, BacklinkProfile } from '../../shared/schema';
+import { backlinkRepository } from '../repositories/backlink.repository';
+import { projectRepository } from '../repositories/project.repository';
+import { getAccessScope } from '../middleware/auth';
+import { isInScope } from '../types/workspace';
+import { outgoingLinkService } from '../services/backlinks/outgoing-link.service';
+import { backlinkImportService, BACKLINK_CSV_FORMATS } from '../services/backlinks/backlink-import.service';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+
+const updateProfileSchema = createBacklinkProfileSchema.omit({ url: true }).partial();
+
+const backlinkStatusSchema = z.enum(['active', 'lost']);
+
+// Load a backlink profile of the current user or workspace, or send the error response
+async function getOwnedProfile(req: Request, res: Response): Promise<BacklinkProfile | null> {
+  const profileId = parseInt(req.params.id);
+  if (isNaN(profileId)) {
+    res.status(400).json({ error: "Invalid profile ID" });
+    return null;
+  }
+
+  const profile = await backlinkRepository.getProfile(profileId);
+  if (!profile || !isInScope(getAccessScope(req), profile)) {
+    res.status(404).json({ error: "Backlink profile not found" });
+    return null;
+  }
+
+  return profile;
+}
+
+/**
+ * GET /api/backlinks/profiles
+ * List the backlink profiles of the current user or workspace
+ */
+router.get("/profiles", async (req: Request, res: Response) => {
+  try {
+    const profiles = await backlinkRepository.getProfilesByScope(getAccessScope(req));
+    res.json(profiles);
+  } catch (error) {
+    console.error("Error listing backlink profiles:", error);
+    res.status(500).json({ error: "Failed to list backlink profiles" });
+  }
+});
+
+/**
+ * POST /api/backlinks/profiles
+ * Create a profile; its first scan runs on the next check
+ */
+router.post("/profiles", async (req: Request, res: Response) => {
+  try {
+    const data = createBacklinkProfileSchema.parse(req.body);
+    if (data.projectId && !(await projectRepository.canAccessProject(getAccessScope(req), data.projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const profile = await backlinkRepository.createProfile({
+      ...data,
+      userId: req.user!.id,
+      workspaceId: req.workspace?.id ?? null,
+      domain: new URL(data.url).hostname.toLowerCase().replace(/^www\./, '')
+    });
+    res.status(201).json(profile);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid backlink profile", details: error.errors });
+    }
+    console.error("Error creating backlink profile:", error);
+    res.status(500).json({ error: "Failed to create backlink profile" });
+  }
+});
+
+/**
+ * PATCH /api/backlinks/profiles/:id
+ * Change a profile's project, scan frequency or email alerts
+ */
+router.patch("/profiles/:id", async (req: Request, res: Response) => {
+  try {
+    const profile = await getOwnedProfile(req, res);
+    if (!profile) return;
+
+    const updates = updateProfileSchema.parse(req.body);
+    if (updates.projectId && !(await projectRepository.canAccessProject(getAccessScope(req), updates.projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const updated = await backlinkRepository.updateProfile(profile.id, updates);
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid backlink profile", details: error.errors });
+    }
+    console.error("Error updating backlink profile:", error);
+    res.status(500).json({ error: "Failed to update backlink profile" });
+  }
+});
+
+/**
+ * DELETE /api/backlinks/profiles/:id
+ * Delete a profile with its links and history
+ */
+router.delete("/profiles/:id", async (req: Request, res: Response) => {
+  try {
+    const profile = await getOwnedProfile(req, res);
+    if (!profile) return;
+
+    await backlinkRepository.deleteProfile(profile.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting backlink profile:", error);
+    res.status(500).json({ error: "Failed to delete backlink profile" });
+  }
+});
+
+/**
+ * POST /api/backlinks/profiles/:id/scan
+ * Scan a profile's outbound links now; the scan runs in the background
+ */
+router.post("/profiles/:id/scan", async (req: Request, res: Response) => {
+  try {
+    const profile = await getOwnedProfile(req, res);
+    if (!profile) return;
+
+    if (!outgoingLinkService.startScan(profile)) {
+      return res.status(409).json({ error: "A scan of this profile is already running" });
+    }
+
+    res.status(202).json({ message: "Outgoing link scan started" });
+  } catch (error) {
+    console.error("Error starting outgoing link scan:", error);
+    res.status(500).json({ error: "Failed to start outgoing link scan" });
+  }
+});
+
+/**
+ * GET /api/backlinks/profiles/:id/outgoing-links?status=
+ * Outbound links found by the last scan, optionally with one status
+ */
+router.get("/profiles/:id/outgoing-links", async (req: Request, res: Response) => {
+  try {
+    const profile = await getOwnedProfile(req, res);
+    if (!profile) return;
+
+    const status = req.query.status ? outgoingLinkStatusSchema.parse(req.query.status) : undefined;
+    const links = await backlinkRepository.getOutgoingLinks(profile.id, status);
+    res.json(links);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid status filter", details: error.errors });
+    }
+    console.error("Error retrieving outgoing links:", error);
+    res.status(500).json({ error: "Failed to retrieve outgoing links" });
+  }
+});
+
+/**
+ * GET /api/backlinks/profiles/:id/broken-outbound-links
+ * Broken outbound links grouped by target, with the pages linking to each
+ */
+router.get("/profiles/:id/broken-outbound-links", async (req: Request, res: Response) => {
+  try {
+    const profile = await getOwnedProfile(req, res);
+    if (!profile) return;
+
+    const report = await outgoingLinkService.getBrokenLinkReport(profile);
+    res.json(report);
+  } catch (error) {
+    console.error("Error building broken outbound link report:", error);
+    res.status(500).json({ error: "Failed to build broken outbound link report" });
+  }
+});
+
+/**
+ * GET /api/backlinks/import-formats
+ * Backlink tool exports that can be imported, with the columns read from each
+ */
+router.get("/import-formats", (req: Request, res: Response) => {
+  res.json(BACKLINK_CSV_FORMATS);
+});
+
+/**
+ * POST /api/backlinks/profiles/:id/import
+ * Import a GSC, Ahrefs or Semrush CSV export; links missing from it are marked lost
+ */
+router.post("/profiles/:id/import", async (req: Request, res: Response) => {
+  try {
+    const profile = await getOwnedProfile(req, res);
+    if (!profile) return;
+
+    const { format, csv } = backlinkImportSchema.parse(req.body);
+    const result = await backlinkImportService.importCsv(profile, format, csv);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid backlink import", details: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error importing backlinks:", error);
+    res.status(500).json({ error: "Failed to import backlinks" });
+  }
+});
+
+/**
+ * GET /api/backlinks/profiles/:id/backlinks?status=
+ * Imported backlinks of a profile, optionally with one status
+ */
+router.get("/profiles/:id/backlinks", async (req: Request, res: Response) => {
+  try {
+    const profile = await getOwnedProfile(req, res);
+    if (!profile) return;
+
+    const status = req.query.status ? backlinkStatusSchema.parse(req.query.status) : undefined;
+    const links = await backlinkRepository.getBacklinks(profile.id, status);
+    res.json(links);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid status filter", details: error.errors });
+    }
+    console.error("Error retrieving backlinks:", error);
+    res.status(500).json({ error: "Failed to retrieve backlinks" });
+  }
+});
+
+/**
+ * GET /api/backlinks/profiles/:id/history
+ * Snapshots recorded after each scan and import, newest first
+ */
+router.get("/profiles/:id/history", async (req: Request, res: Response) => {
+  try {
+    const profile = await getOwnedProfile(req, res);
+    if (!profile) return;
+
+    const history = await backlinkRepository.getHistory(profile.id);
+    res.json(history);
+  } catch (error) {
+    console.error("Error retrieving backlink history:", error);
+    res.status(500).json({ error: "Failed to retrieve backlink history" });
+  }
+});
+
+export { router as backlinkRoutes };
@@ -0,0 +1,138 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { createCompetitorComparisonSchema, CompetitorComparison } from '../../shared/schema';
+import { competitorComparisonRepository } from '../repositories/competitor-comparison.repository';
+import { projectRepository } from '../repositories/project.repository';
+import { getAccessScope } from '../middleware/auth';
+import { competitorGapService } from '../services/audit/competitor-gap.service';
+import { generateCompetitorGapExcel } from '../services/common/excel-exporter.service';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+
+// Load one of the current user's comparisons, or send the error response
+async function getOwnedComparison(req: Request, res: Response): Promise<CompetitorComparison | null> {
+  const comparisonId = parseInt(req.params.id);
+  if (isNaN(comparisonId)) {
+    res.status(400).json({ error: "Invalid comparison ID" });
+    return null;
+  }
+
+  const comparison = await competitorComparisonRepository.getComparison(comparisonId);
+  if (!comparison || comparison.userId !== req.user!.id) {
+    res.status(404).json({ error: "Comparison not found" });
+    return null;
+  }
+
+  return comparison;
+}
+
+/**
+ * GET /api/competitor-gap
+ * List the current user's recent comparisons
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const comparisons = await competitorComparisonRepository.getComparisonsByUser(req.user!.id);
+    // The list only needs each comparison's status, not its report
+    res.json(comparisons.map(({ report, ...comparison }) => comparison));
+  } catch (error) {
+    console.error("Error listing competitor comparisons:", error);
+    res.status(500).json({ error: "Failed to list competitor comparisons" });
+  }
+});
+
+/**
+ * POST /api/competitor-gap
+ * Audit a site and up to three competitors side by side; the audits run in the background
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const input = createCompetitorComparisonSchema.parse(req.body);
+
+    if (input.projectId !== undefined && !(await projectRepository.canAccessProject(getAccessScope(req), input.projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const comparison = await competitorGapService.createComparison(req.user!.id, input);
+    res.status(202).json(comparison);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid competitor comparison", details: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error creating competitor comparison:", error);
+    res.status(500).json({ error: "Failed to start competitor comparison" });
+  }
+});
+
+/**
+ * GET /api/competitor-gap/:id
+ * Progress of each site's audit, and the gap report once they have all finished
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const comparison = await getOwnedComparison(req, res);
+    if (!comparison) return;
+
+    const detail = await competitorGapService.getComparisonDetail(comparison);
+    res.json(detail);
+  } catch (error) {
+    console.error("Error getting competitor comparison:", error);
+    res.status(500).json({ error: "Failed to get competitor comparison" });
+  }
+});
+
+/**
+ * GET /api/competitor-gap/:id/export
+ * Download the scorecard, factor gaps and content depth as an Excel workbook
+ */
+router.get("/:id/export", async (req: Request, res: Response) => {
+  try {
+    const comparison = await getOwnedComparison(req, res);
+    if (!comparison) return;
+
+    const detail = await competitorGapService.getComparisonDetail(comparison);
+    if (!detail.report) {
+      return res.status(409).json({ error: "The comparison has no report yet" });
+    }
+
+    const excelBuffer = await generateCompetitorGapExcel(detail, detail.report);
+    const filename = `competitor-gap-${comparison.id}.xlsx`;
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Length', excelBuffer.length.toString());
+    res.send(excelBuffer);
+  } catch (error) {
+    console.error("Error exporting competitor comparison:", error);
+    res.status(500).json({ error: "Failed to export competitor comparison" });
+  }
+});
+
+/**
+ * DELETE /api/competitor-gap/:id
+ * Delete a finished comparison together with its audits
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const comparison = await getOwnedComparison(req, res);
+    if (!comparison) return;
+
+    // Reading the detail finishes a comparison whose audits have all ended
+    const detail = await competitorGapService.getComparisonDetail(comparison);
+    if (detail.comparison.status === 'pending') {
+      return res.status(409).json({ error: "The audits are still running" });
+    }
+
+    await competitorGapService.deleteComparison(comparison);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting competitor comparison:", error);
+    res.status(500).json({ error: "Failed to delete competitor comparison" });
+  }
+});
+
+export { router as competitorGapRoutes };
@@ -0,0 +1,116 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { insertCustomAuditRuleSchema, CustomAuditRule } from '../../shared/schema';
+import { projectRepository } from '../repositories/project.repository';
+import { getAccessScope } from '../middleware/auth';
+import { customAuditRuleRepository } from '../repositories/custom-audit-rule.repository';
+
+const router = Router();
+
+const updateRuleSchema = insertCustomAuditRuleSchema.partial();
+
+// Load a rule owned by the current user, or send the error response
+async function getOwnedRule(req: Request, res: Response): Promise<CustomAuditRule | null> {
+  const ruleId = parseInt(req.params.id);
+  if (isNaN(ruleId)) {
+    res.status(400).json({ error: "Invalid rule ID" });
+    return null;
+  }
+
+  const rule = await customAuditRuleRepository.getRule(ruleId);
+  if (!rule || rule.userId !== req.user!.id) {
+    res.status(404).json({ error: "Rule not found" });
+    return null;
+  }
+
+  return rule;
+}
+
+/**
+ * GET /api/custom-audit-rules?projectId=
+ * List the user's rules, or only those scoped to a project
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    let projectId: number | undefined;
+    if (req.query.projectId !== undefined) {
+      projectId = parseInt(req.query.projectId as string);
+      if (isNaN(projectId)) {
+        return res.status(400).json({ error: "Invalid projectId" });
+      }
+    }
+
+    const rules = await customAuditRuleRepository.getRulesByUser(req.user!.id, projectId);
+    res.json(rules);
+  } catch (error) {
+    console.error("Error listing custom audit rules:", error);
+    res.status(500).json({ error: "Failed to list custom audit rules" });
+  }
+});
+
+/**
+ * POST /api/custom-audit-rules
+ * Create a rule for all of the user's audits, or for one project's audits
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const data = insertCustomAuditRuleSchema.parse(req.body);
+
+    if (data.projectId && !(await projectRepository.canAccessProject(getAccessScope(req), data.projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const rule = await customAuditRuleRepository.createRule(req.user!.id, data);
+    res.status(201).json(rule);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid rule", details: error.errors });
+    }
+    console.error("Error creating custom audit rule:", error);
+    res.status(500).json({ error: "Failed to create custom audit rule" });
+  }
+});
+
+/**
+ * PATCH /api/custom-audit-rules/:id
+ * Change a rule's conditions, scope, importance or notes, or pause it
+ */
+router.patch("/:id", async (req: Request, res: Response) => {
+  try {
+    const rule = await getOwnedRule(req, res);
+    if (!rule) return;
+
+    const updates = updateRuleSchema.parse(req.body);
+    if (updates.projectId && !(await projectRepository.canAccessProject(getAccessScope(req), updates.projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const updated = await customAuditRuleRepository.updateRule(rule.id, updates);
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid rule", details: error.errors });
+    }
+    console.error("Error updating custom audit rule:", error);
+    res.status(500).json({ error: "Failed to update custom audit rule" });
+  }
+});
+
+/**
+ * DELETE /api/custom-audit-rules/:id
+ * Remove a rule; audits it already ran keep their results
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const rule = await getOwnedRule(req, res);
+    if (!rule) return;
+
+    await customAuditRuleRepository.deleteRule(rule.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting custom audit rule:", error);
+    res.status(500).json({ error: "Failed to delete custom audit rule" });
+  }
+});
+
+export { router as customAuditRuleRoutes };
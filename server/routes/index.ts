@@ -12,6 +12,18 @@ import { pagespeedRouter } from "./pagespeed";
 // Import new modular route modules
 import { analysisRoutes } from "./analysis.routes";
 import { auditRoutes } from "./audit.routes";
+import { auditScheduleRoutes } from "./audit-schedule.routes";
+import { customAuditRuleRoutes } from "./custom-audit-rule.routes";
+import { competitorGapRoutes } from "./competitor-gap.routes";
+import { rankTrackerRoutes } from "./rank-tracker.routes";
+import { keywordDataRoutes } from "./keyword-data.routes";
+import { searchPerformanceRoutes } from "./search-performance.routes";
+import { backlinkRoutes } from "./backlink.routes";
+import { projectRoutes } from "./project.routes";
+import { analysisBatchRoutes } from "./analysis-batch.routes";
+import { workspaceRoutes } from "./workspace.routes";
+import { apiKeyRoutes } from "./api-key.routes";
+import { webhookRoutes } from "./webhook.routes";
 import { adminAuditRoutes } from "./admin-audit.routes";
 import { contentRoutes } from "./content.routes";
 import { openaiRoutes } from "./openai.routes";
@@ -22,7 +34,7 @@ import ofiReportRoutes from "./ofi-report.routes";
 
 // Import middleware
 import { trackInternalApi, trackApiUsage } from "../middleware/apiUsageMiddleware";
-import { authenticate } from "../middleware/auth";
+import { authenticate, optionalAuth, enforceWorkspaceRole, authenticateApiKey } from "../middleware/auth";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Use cookie parser middleware
@@ -31,6 +43,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Set up static file serving for audit assets
   app.use('/static-assets', express.static('attached_assets'));
   
+  // Authenticate scripts calling the API with an API key before any route
+  app.use('/api', authenticateApiKey);
+  
   // Setup middleware for tracking API usage
   app.use('/api/analysis', trackApiUsage('internal'));
   app.use('/api/rival-audit', trackApiUsage('internal'));
@@ -46,7 +61,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // New modular routes
   app.use('/api', analysisRoutes);
-  app.use('/api/rival-audit', auditRoutes);
+  app.use('/api/rival-audit', optionalAuth, enforceWorkspaceRole, auditRoutes);
+  app.use('/api/audit-schedules', authenticate, enforceWorkspaceRole, trackApiUsage('internal'), auditScheduleRoutes);
+  app.use('/api/custom-audit-rules', authenticate, enforceWorkspaceRole, trackApiUsage('internal'), customAuditRuleRoutes);
+  app.use('/api/competitor-gap', authenticate, enforceWorkspaceRole, trackApiUsage('internal'), competitorGapRoutes);
+  app.use('/api/rank-tracker', authenticate, enforceWorkspaceRole, trackApiUsage('internal'), rankTrackerRoutes);
+  app.use('/api/keyword-data', authenticate, enforceWorkspaceRole, trackApiUsage('internal'), keywordDataRoutes);
+  app.use('/api/search-performance', authenticate, enforceWorkspaceRole, trackApiUsage('internal'), searchPerformanceRoutes);
+  app.use('/api/backlinks', authenticate, enforceWorkspaceRole, trackApiUsage('internal'), backlinkRoutes);
+  app.use('/api/projects', authenticate, enforceWorkspaceRole, trackApiUsage('internal'), projectRoutes);
+  app.use('/api/analysis-batches', authenticate, enforceWorkspaceRole, trackApiUsage('internal'), analysisBatchRoutes);
+  app.use('/api/webhooks', authenticate, enforceWorkspaceRole, trackApiUsage('internal'), webhookRoutes);
+  // Workspace routes check the role in the workspace of their path instead
+  app.use('/api/workspaces', authenticate, trackApiUsage('internal'), workspaceRoutes);
+  app.use('/api/api-keys', authenticate, trackApiUsage('internal'), apiKeyRoutes);
   app.use('/api', contentRoutes);
   app.use('/api', openaiRoutes);
   
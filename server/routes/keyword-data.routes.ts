@@ -0,0 +1,91 @@
+import { Router, Request, Response } from 'express';
+import { ZodError, z } from 'zod';
+import { keywordDatasetImportSchema, rankLocationSchema } from '../../shared/schema';
+import { keywordDataProvider } from '../services/keywords/keyword-data-provider.service';
+import { keywordDatasetService } from '../services/keywords/keyword-dataset.service';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+
+const keywordQuerySchema = z.object({
+  keyword: z.string().trim().min(1).max(200),
+  location: rankLocationSchema.default('us')
+});
+
+/**
+ * GET /api/keyword-data/keywords?keyword=&location=
+ * Search volume, CPC, competition and trend of a keyword, with where the numbers come from
+ */
+router.get("/keywords", async (req: Request, res: Response) => {
+  try {
+    const { keyword, location } = keywordQuerySchema.parse(req.query);
+    const data = await keywordDataProvider.getKeywordData(keyword, location);
+    res.json(data);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid keyword", details: error.errors });
+    }
+    console.error("Error getting keyword data:", error);
+    res.status(500).json({ error: "Failed to get keyword data" });
+  }
+});
+
+/**
+ * GET /api/keyword-data/suggestions?keyword=&location=
+ * Related keywords with their metrics
+ */
+router.get("/suggestions", async (req: Request, res: Response) => {
+  try {
+    const { keyword, location } = keywordQuerySchema.parse(req.query);
+    const suggestions = await keywordDataProvider.getKeywordSuggestions(keyword, location);
+    res.json(suggestions);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid keyword", details: error.errors });
+    }
+    console.error("Error getting keyword suggestions:", error);
+    res.status(500).json({ error: "Failed to get keyword suggestions" });
+  }
+});
+
+/**
+ * GET /api/keyword-data/dataset
+ * The keyword data provider in use and the imported keywords per location
+ */
+router.get("/dataset", async (req: Request, res: Response) => {
+  try {
+    const locations = await keywordDatasetService.getSummary();
+    res.json({ provider: keywordDataProvider.name, locations });
+  } catch (error) {
+    console.error("Error getting keyword dataset summary:", error);
+    res.status(500).json({ error: "Failed to get keyword dataset summary" });
+  }
+});
+
+/**
+ * POST /api/keyword-data/dataset/import
+ * Import a keyword export (e.g. Keyword Planner CSV) into the dataset; admins only,
+ * as the dataset is shared by all users
+ */
+router.post("/dataset/import", async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== 'admin') {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+
+    const input = keywordDatasetImportSchema.parse(req.body);
+    const result = await keywordDatasetService.importDataset(input);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid keyword dataset import", details: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error importing keyword dataset:", error);
+    res.status(500).json({ error: "Failed to import keyword dataset" });
+  }
+});
+
+export { router as keywordDataRoutes };
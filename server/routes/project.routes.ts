@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { projectController } from '../controllers/project.controller';
+
+const router = Router();
+
+// Routes for the current user's projects
+router.get('/', projectController.getUserProjects);
+router.post('/', projectController.createProject);
+router.get('/stats', projectController.getUserProjectStats);
+router.get('/search', projectController.searchProjects);
+router.get('/recent', projectController.getRecentProjects);
+
+// Routes for one project, only reachable by its owner
+const requireProjectAccess = projectController.requireProjectAccess;
+
+router.get('/:id', requireProjectAccess, projectController.getProjectById);
+router.put('/:id', requireProjectAccess, projectController.updateProject);
+router.delete('/:id', requireProjectAccess, projectController.deleteProject);
+router.get('/:id/stats', requireProjectAccess, projectController.getProjectStats);
+router.get('/:id/history', requireProjectAccess, projectController.getProjectHistory);
+router.get('/:id/export', requireProjectAccess, projectController.exportProject);
+router.post('/:id/duplicate', requireProjectAccess, projectController.duplicateProject);
+
+router.get('/:id/analyses', requireProjectAccess, projectController.getProjectAnalyses);
+router.post('/:id/analyses', requireProjectAccess, projectController.addAnalysisToProject);
+router.delete('/:id/analyses/:analysisId', requireProjectAccess, projectController.removeAnalysisFromProject);
+router.get('/:id/analyses/:analysisId/check', requireProjectAccess, projectController.checkAnalysisInProject);
+
+router.get('/:id/audits', requireProjectAccess, projectController.getProjectAudits);
+router.post('/:id/audits', requireProjectAccess, projectController.addAuditToProject);
+router.delete('/:id/audits/:auditId', requireProjectAccess, projectController.removeAuditFromProject);
+
+export { router as projectRoutes };
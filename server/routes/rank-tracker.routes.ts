@@ -0,0 +1,190 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { trackKeywordSchema, rankDeviceSchema, rankLocationSchema, Keyword } from '../../shared/schema';
+import { projectRepository } from '../repositories/project.repository';
+import { getAccessScope } from '../middleware/auth';
+import { keywordRepository } from '../repositories/keyword.repository';
+import { rankTrackerService } from '../services/rank-tracking/rank-tracker.service';
+
+const router = Router();
+
+const updateKeywordSchema = trackKeywordSchema.omit({ projectId: true }).partial();
+
+const MAX_HISTORY_DAYS = 365;
+
+// Load a tracked keyword of a project the current user can access, or send the error response
+async function getOwnedKeyword(req: Request, res: Response): Promise<Keyword | null> {
+  const keywordId = parseInt(req.params.id);
+  if (isNaN(keywordId)) {
+    res.status(400).json({ error: "Invalid keyword ID" });
+    return null;
+  }
+
+  const keyword = await keywordRepository.getKeyword(keywordId);
+  if (!keyword || !keyword.projectId || !(await projectRepository.canAccessProject(getAccessScope(req), keyword.projectId))) {
+    res.status(404).json({ error: "Keyword not found" });
+    return null;
+  }
+
+  return keyword;
+}
+
+/**
+ * GET /api/rank-tracker/keywords?projectId=
+ * List a project's tracked keywords with their latest position per device and location
+ */
+router.get("/keywords", async (req: Request, res: Response) => {
+  try {
+    const projectId = parseInt(req.query.projectId as string);
+    if (isNaN(projectId)) {
+      return res.status(400).json({ error: "projectId is required" });
+    }
+
+    if (!(await projectRepository.canAccessProject(getAccessScope(req), projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const keywords = await keywordRepository.getKeywordsByProject(projectId);
+    const positions = await rankTrackerService.getLatestPositions(keywords);
+
+    res.json(keywords.map(keyword => ({
+      ...keyword,
+      rankings: positions.get(keyword.id) || []
+    })));
+  } catch (error) {
+    console.error("Error listing tracked keywords:", error);
+    res.status(500).json({ error: "Failed to list tracked keywords" });
+  }
+});
+
+/**
+ * GET /api/rank-tracker/serp-features?projectId=
+ * SERP features on the latest check of each of a project's keywords: map pack,
+ * featured snippet, People Also Ask, reviews and site links, and whether the
+ * client or its competitors hold them
+ */
+router.get("/serp-features", async (req: Request, res: Response) => {
+  try {
+    const projectId = parseInt(req.query.projectId as string);
+    if (isNaN(projectId)) {
+      return res.status(400).json({ error: "projectId is required" });
+    }
+
+    if (!(await projectRepository.canAccessProject(getAccessScope(req), projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const keywords = await keywordRepository.getKeywordsByProject(projectId);
+    res.json(await rankTrackerService.getSerpFeatureReport(keywords));
+  } catch (error) {
+    console.error("Error getting SERP features:", error);
+    res.status(500).json({ error: "Failed to get SERP features" });
+  }
+});
+
+/**
+ * POST /api/rank-tracker/keywords
+ * Track a keyword for a project; it is checked on the next daily run
+ */
+router.post("/keywords", async (req: Request, res: Response) => {
+  try {
+    const data = trackKeywordSchema.parse(req.body);
+
+    if (!(await projectRepository.canAccessProject(getAccessScope(req), data.projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const keyword = await keywordRepository.createKeyword(req.user!.id, data, req.workspace?.id ?? null);
+    res.status(201).json(keyword);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid keyword", details: error.errors });
+    }
+    if ((error as { code?: string })?.code === '23505') {
+      return res.status(409).json({ error: "This keyword is already tracked for that URL" });
+    }
+    console.error("Error creating tracked keyword:", error);
+    res.status(500).json({ error: "Failed to track keyword" });
+  }
+});
+
+/**
+ * PATCH /api/rank-tracker/keywords/:id
+ * Change a keyword's target, devices, locations or competitors, or pause it
+ */
+router.patch("/keywords/:id", async (req: Request, res: Response) => {
+  try {
+    const keyword = await getOwnedKeyword(req, res);
+    if (!keyword) return;
+
+    const updates = updateKeywordSchema.parse(req.body);
+    const updated = await keywordRepository.updateKeyword(keyword.id, updates);
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid keyword", details: error.errors });
+    }
+    console.error("Error updating tracked keyword:", error);
+    res.status(500).json({ error: "Failed to update tracked keyword" });
+  }
+});
+
+/**
+ * DELETE /api/rank-tracker/keywords/:id
+ * Stop tracking a keyword and delete its ranking history
+ */
+router.delete("/keywords/:id", async (req: Request, res: Response) => {
+  try {
+    const keyword = await getOwnedKeyword(req, res);
+    if (!keyword) return;
+
+    await keywordRepository.deleteKeyword(keyword.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting tracked keyword:", error);
+    res.status(500).json({ error: "Failed to delete tracked keyword" });
+  }
+});
+
+/**
+ * POST /api/rank-tracker/keywords/:id/check
+ * Check a keyword's positions now instead of waiting for the daily run
+ */
+router.post("/keywords/:id/check", async (req: Request, res: Response) => {
+  try {
+    const keyword = await getOwnedKeyword(req, res);
+    if (!keyword) return;
+
+    const rankings = await rankTrackerService.checkNow(keyword);
+    res.json(rankings);
+  } catch (error) {
+    console.error("Error checking keyword rankings:", error);
+    res.status(502).json({ error: "Failed to check keyword rankings" });
+  }
+});
+
+/**
+ * GET /api/rank-tracker/keywords/:id/history?days=&device=&location=
+ * Daily positions per device and location, with the tracked competitors
+ */
+router.get("/keywords/:id/history", async (req: Request, res: Response) => {
+  try {
+    const keyword = await getOwnedKeyword(req, res);
+    if (!keyword) return;
+
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), MAX_HISTORY_DAYS);
+    const device = req.query.device ? rankDeviceSchema.parse(req.query.device) : undefined;
+    const location = req.query.location ? rankLocationSchema.parse(req.query.location) : undefined;
+
+    const history = await rankTrackerService.getHistory(keyword, days, { device, location });
+    res.json(history);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid history filter", details: error.errors });
+    }
+    console.error("Error retrieving ranking history:", error);
+    res.status(500).json({ error: "Failed to retrieve ranking history" });
+  }
+});
+
+export { router as rankTrackerRoutes };
@@ -0,0 +1,103 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { searchPerformanceImportSchema } from '../../shared/schema';
+import { projectRepository } from '../repositories/project.repository';
+import { getAccessScope } from '../middleware/auth';
+import { searchPerformanceService } from '../services/search-console/search-performance.service';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+
+// Read ?projectId= of a project the current user can access, or send the error response
+async function getOwnedProjectId(req: Request, res: Response): Promise<number | null> {
+  const projectId = parseInt(req.query.projectId as string);
+  if (isNaN(projectId)) {
+    res.status(400).json({ error: "projectId is required" });
+    return null;
+  }
+
+  if (!(await projectRepository.canAccessProject(getAccessScope(req), projectId))) {
+    res.status(404).json({ error: "Project not found" });
+    return null;
+  }
+
+  return projectId;
+}
+
+/**
+ * GET /api/search-performance?projectId=
+ * Totals of the Search Console performance imported for a project
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const projectId = await getOwnedProjectId(req, res);
+    if (projectId === null) return;
+
+    res.json(await searchPerformanceService.getSummary(projectId));
+  } catch (error) {
+    console.error("Error getting search performance:", error);
+    res.status(500).json({ error: "Failed to get search performance" });
+  }
+});
+
+/**
+ * POST /api/search-performance/import
+ * Import a Search Console performance export (CSV or JSON) into a project,
+ * replacing its previous import
+ */
+router.post("/import", async (req: Request, res: Response) => {
+  try {
+    const data = searchPerformanceImportSchema.parse(req.body);
+
+    if (!(await projectRepository.canAccessProject(getAccessScope(req), data.projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    res.json(await searchPerformanceService.importPerformance(data));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid performance import", details: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error importing search performance:", error);
+    res.status(500).json({ error: "Failed to import search performance" });
+  }
+});
+
+/**
+ * GET /api/search-performance/ctr-opportunities?projectId=
+ * Pages with high impressions and low CTR, whose titles and meta descriptions
+ * are worth rewriting, most missed clicks first
+ */
+router.get("/ctr-opportunities", async (req: Request, res: Response) => {
+  try {
+    const projectId = await getOwnedProjectId(req, res);
+    if (projectId === null) return;
+
+    res.json(await searchPerformanceService.getCtrOpportunities(projectId));
+  } catch (error) {
+    console.error("Error finding CTR opportunities:", error);
+    res.status(500).json({ error: "Failed to find CTR opportunities" });
+  }
+});
+
+/**
+ * DELETE /api/search-performance?projectId=
+ * Remove the performance imported for a project
+ */
+router.delete("/", async (req: Request, res: Response) => {
+  try {
+    const projectId = await getOwnedProjectId(req, res);
+    if (projectId === null) return;
+
+    const deleted = await searchPerformanceService.clear(projectId);
+    res.json({ deleted });
+  } catch (error) {
+    console.error("Error deleting search performance:", error);
+    res.status(500).json({ error: "Failed to delete search performance" });
+  }
+});
+
+export { router as searchPerformanceRoutes };
@@ -1,7 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
 import { authenticate } from '../middleware/auth';
-import { updateUserSchema, users } from '../../shared/schema';
+import { updateUserSchema, users, ActiveSession } from '../../shared/schema';
+import { authService } from '../services/auth/auth.service';
+import { EnhancedAuthService } from '../services/auth/enhanced-auth.service';
 import { ZodError } from 'zod';
 import { fromZodError } from 'zod-validation-error';
 import bcrypt from 'bcryptjs';
@@ -132,4 +134,77 @@ userRouter.get('/analyses', async (req: Request, res: Response) => {
     console.error('Get user analyses error:', error);
     return res.status(500).json({ message: 'Failed to get analyses' });
   }
-});
\ No newline at end of file
+});
+
+// Session of the token the request was made with
+function getCurrentSessionId(req: Request): string | undefined {
+  return req.token ? authService.verifyToken(req.token).sessionId : undefined;
+}
+
+// List the devices the user is signed in on
+userRouter.get('/sessions', async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+    const currentSessionId = getCurrentSessionId(req);
+    const sessions = await EnhancedAuthService.getUserSessions(req.user.id);
+
+    const response: ActiveSession[] = sessions.map(session => ({
+      id: session.id,
+      deviceId: session.deviceId,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt.toISOString(),
+      lastActivity: session.lastActivity.toISOString(),
+      current: session.id === currentSessionId
+    }));
+
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return res.status(500).json({ message: 'Failed to get sessions' });
+  }
+});
+
+// Sign out everywhere, including the current device
+userRouter.delete('/sessions', async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    await EnhancedAuthService.revokeAllUserSessions(req.user.id);
+    res.clearCookie('token');
+
+    return res.status(200).json({ message: 'Signed out of all sessions' });
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    return res.status(500).json({ message: 'Failed to sign out of all sessions' });
+  }
+});
+
+// Sign out one device
+userRouter.delete('/sessions/:sessionId', async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+    const userId = req.user.id;
+
+    const sessions = await EnhancedAuthService.getUserSessions(userId);
+    if (!sessions.some(session => session.id === req.params.sessionId)) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    await EnhancedAuthService.revokeSession(req.params.sessionId);
+    if (req.params.sessionId === getCurrentSessionId(req)) {
+      res.clearCookie('token');
+    }
+
+    return res.status(200).json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return res.status(500).json({ message: 'Failed to revoke session' });
+  }
+});
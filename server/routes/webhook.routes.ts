@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { insertWebhookSchema, updateWebhookSchema } from '../../shared/schema';
+import { getAccessScope } from '../middleware/auth';
+import { webhookService } from '../services/webhooks';
+import { AppError } from '../utils/errors';
+
+const router = Router();
+
+// Send the response for a failed webhook request
+function sendWebhookError(res: Response, error: unknown, action: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ error: "Invalid webhook", details: error.errors });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`Error trying to ${action}:`, error);
+  res.status(500).json({ error: `Failed to ${action}` });
+}
+
+// Parse a numeric route parameter, or send the error response
+function parseId(req: Request, res: Response, param: string): number | null {
+  const id = parseInt(req.params[param]);
+  if (isNaN(id)) {
+    res.status(400).json({ error: `Invalid ${param === 'id' ? 'webhook' : 'delivery'} ID` });
+    return null;
+  }
+  return id;
+}
+
+/**
+ * GET /api/webhooks
+ * List the webhooks of the active workspace, or the user's personal webhooks
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    res.json(await webhookService.getWebhooks(getAccessScope(req)));
+  } catch (error) {
+    sendWebhookError(res, error, "list webhooks");
+  }
+});
+
+/**
+ * POST /api/webhooks
+ * Create a webhook; its signing secret is only returned here
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const input = insertWebhookSchema.parse(req.body);
+    res.status(201).json(await webhookService.createWebhook(getAccessScope(req), input));
+  } catch (error) {
+    sendWebhookError(res, error, "create webhook");
+  }
+});
+
+/**
+ * PATCH /api/webhooks/:id
+ * Change a webhook's URL, description or events, or pause it
+ */
+router.patch("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req, res, 'id');
+    if (id === null) return;
+
+    const updates = updateWebhookSchema.parse(req.body);
+    res.json(await webhookService.updateWebhook(getAccessScope(req), id, updates));
+  } catch (error) {
+    sendWebhookError(res, error, "update webhook");
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Remove a webhook and its delivery log
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req, res, 'id');
+    if (id === null) return;
+
+    await webhookService.deleteWebhook(getAccessScope(req), id);
+    res.status(204).send();
+  } catch (error) {
+    sendWebhookError(res, error, "delete webhook");
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * The most recent deliveries to a webhook, with their payloads and responses
+ */
+router.get("/:id/deliveries", async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req, res, 'id');
+    if (id === null) return;
+
+    res.json(await webhookService.getDeliveries(getAccessScope(req), id));
+  } catch (error) {
+    sendWebhookError(res, error, "load webhook deliveries");
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Send a delivery's payload again
+ */
+router.post("/:id/deliveries/:deliveryId/redeliver", async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req, res, 'id');
+    if (id === null) return;
+    const deliveryId = parseId(req, res, 'deliveryId');
+    if (deliveryId === null) return;
+
+    res.status(201).json(await webhookService.redeliver(getAccessScope(req), id, deliveryId));
+  } catch (error) {
+    sendWebhookError(res, error, "redeliver webhook");
+  }
+});
+
+export { router as webhookRoutes };
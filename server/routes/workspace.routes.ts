@@ -0,0 +1,174 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { insertWorkspaceSchema, workspaceInvitationInputSchema, updateWorkspaceMemberSchema } from '../../shared/schema';
+import { hasWorkspacePermission } from '../../shared/constants/workspace-roles';
+import { requireWorkspacePermission } from '../middleware/auth';
+import { workspaceService } from '../services/workspaces/workspace.service';
+import { AppError } from '../utils/errors';
+
+const router = Router();
+
+// Send the response for a failed workspace request
+function sendWorkspaceError(res: Response, error: unknown, action: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`Error trying to ${action}:`, error);
+  res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * GET /api/workspaces
+ * List the workspaces the current user belongs to, with their role in each
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    res.json(await workspaceService.getWorkspaces(req.user!.id));
+  } catch (error) {
+    sendWorkspaceError(res, error, "list workspaces");
+  }
+});
+
+/**
+ * POST /api/workspaces
+ * Create a workspace with the current user as its owner
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const input = insertWorkspaceSchema.parse(req.body);
+    res.status(201).json(await workspaceService.createWorkspace(req.user!.id, input));
+  } catch (error) {
+    sendWorkspaceError(res, error, "create workspace");
+  }
+});
+
+/**
+ * GET /api/workspaces/invitations/:token
+ * The workspace and role an invitation grants
+ */
+router.get("/invitations/:token", async (req: Request, res: Response) => {
+  try {
+    res.json(await workspaceService.getInvitation(req.params.token));
+  } catch (error) {
+    sendWorkspaceError(res, error, "load invitation");
+  }
+});
+
+/**
+ * POST /api/workspaces/invitations/:token/accept
+ * Join the invitation's workspace; the invitation must be for the user's email
+ */
+router.post("/invitations/:token/accept", async (req: Request, res: Response) => {
+  try {
+    res.json(await workspaceService.acceptInvitation(req.params.token, req.user!.id));
+  } catch (error) {
+    sendWorkspaceError(res, error, "accept invitation");
+  }
+});
+
+/**
+ * PATCH /api/workspaces/:workspaceId
+ * Rename a workspace (owners)
+ */
+router.patch("/:workspaceId", requireWorkspacePermission('manage'), async (req: Request, res: Response) => {
+  try {
+    const input = insertWorkspaceSchema.parse(req.body);
+    res.json(await workspaceService.renameWorkspace(req.workspace!.id, input));
+  } catch (error) {
+    sendWorkspaceError(res, error, "rename workspace");
+  }
+});
+
+/**
+ * GET /api/workspaces/:workspaceId/members
+ * List a workspace's members (everyone but clients)
+ */
+router.get("/:workspaceId/members", requireWorkspacePermission('members:read'), async (req: Request, res: Response) => {
+  try {
+    res.json(await workspaceService.getMembers(req.workspace!.id));
+  } catch (error) {
+    sendWorkspaceError(res, error, "list workspace members");
+  }
+});
+
+/**
+ * PATCH /api/workspaces/:workspaceId/members/:userId
+ * Change a member's role (owners)
+ */
+router.patch("/:workspaceId/members/:userId", requireWorkspacePermission('manage'), async (req: Request, res: Response) => {
+  try {
+    const { role } = updateWorkspaceMemberSchema.parse(req.body);
+    await workspaceService.updateMemberRole(req.workspace!.id, req.params.userId, role);
+    res.json({ userId: req.params.userId, role });
+  } catch (error) {
+    sendWorkspaceError(res, error, "update workspace member");
+  }
+});
+
+/**
+ * DELETE /api/workspaces/:workspaceId/members/:userId
+ * Remove a member (owners), or leave the workspace
+ */
+router.delete("/:workspaceId/members/:userId", requireWorkspacePermission('read'), async (req: Request, res: Response) => {
+  try {
+    if (req.params.userId !== req.user!.id && !hasWorkspacePermission(req.workspace!.role, 'manage')) {
+      return res.status(403).json({ error: "Only owners can remove other members" });
+    }
+
+    await workspaceService.removeMember(req.workspace!.id, req.params.userId);
+    res.json({ removed: true });
+  } catch (error) {
+    sendWorkspaceError(res, error, "remove workspace member");
+  }
+});
+
+/**
+ * GET /api/workspaces/:workspaceId/invitations
+ * List pending invitations (owners)
+ */
+router.get("/:workspaceId/invitations", requireWorkspacePermission('manage'), async (req: Request, res: Response) => {
+  try {
+    res.json(await workspaceService.getPendingInvitations(req.workspace!.id));
+  } catch (error) {
+    sendWorkspaceError(res, error, "list invitations");
+  }
+});
+
+/**
+ * POST /api/workspaces/:workspaceId/invitations
+ * Invite someone by email (owners). Returns the invitation link, which is
+ * also emailed when SMTP is configured.
+ */
+router.post("/:workspaceId/invitations", requireWorkspacePermission('manage'), async (req: Request, res: Response) => {
+  try {
+    const input = workspaceInvitationInputSchema.parse(req.body);
+    const appUrl = process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`;
+
+    res.status(201).json(await workspaceService.inviteMember(req.workspace!.id, req.user!.id, input, appUrl));
+  } catch (error) {
+    sendWorkspaceError(res, error, "invite member");
+  }
+});
+
+/**
+ * DELETE /api/workspaces/:workspaceId/invitations/:invitationId
+ * Revoke a pending invitation (owners)
+ */
+router.delete("/:workspaceId/invitations/:invitationId", requireWorkspacePermission('manage'), async (req: Request, res: Response) => {
+  try {
+    const invitationId = parseInt(req.params.invitationId);
+    if (isNaN(invitationId)) {
+      return res.status(400).json({ error: "Invalid invitation ID" });
+    }
+
+    await workspaceService.revokeInvitation(req.workspace!.id, invitationId);
+    res.json({ revoked: true });
+  } catch (error) {
+    sendWorkspaceError(res, error, "revoke invitation");
+  }
+});
+
+export { router as workspaceRoutes };
@@ -4,6 +4,7 @@ type CrawlerOutput = any;
 import { keywordAnalyzer } from './keyword-analyzer.service';
 import { pageSpeedService } from '../external/pagespeed.service';
 import { contentOptimizationAnalyzer } from './content-optimization.service';
+import { keywordRepository } from '../../repositories/keyword.repository';
 import { technicalSeoAnalyzer } from './technical-analyzer.service';
 import { ScoreUtils } from '../../lib/utils/score.utils';
 import { AnalysisFactory } from '../../lib/factories/analysis.factory';
@@ -348,8 +349,17 @@ class Analyzer {
         contentAnalysis = AnalysisFactory.createDefaultContentAnalysis();
       }
       
+      // People Also Ask questions seen by the rank tracker for this keyword or page
+      let peopleAlsoAsk: string[] = [];
       try {
-        enhancedContentAnalysis = contentOptimizationAnalyzer.analyzeContent(pageData, primaryKeyword);
+        const urlVariants = [url, url.endsWith('/') ? url.slice(0, -1) : `${url}/`];
+        peopleAlsoAsk = await keywordRepository.getPeopleAlsoAskQuestions(primaryKeyword, urlVariants);
+      } catch (error) {
+        console.error("Error loading People Also Ask questions:", error);
+      }
+      
+      try {
+        enhancedContentAnalysis = contentOptimizationAnalyzer.analyzeContent(pageData, primaryKeyword, peopleAlsoAsk);
       } catch (error) {
         console.error("Error in enhanced content analysis:", error);
         enhancedContentAnalysis = { 
@@ -1591,4 +1601,56 @@ class Analyzer {
   }
 }
 
-export const analyzer = new Analyzer();
\ No newline at end of file
+export const analyzer = new Analyzer();
+
+/**
+ * Normalize a URL the way analyses are stored: https by default, lowercase
+ * and without a trailing slash
+ */
+export function normalizeAnalysisUrl(inputUrl: string): string {
+  // Convert URL to lowercase
+  let normalizedUrl = inputUrl.trim().toLowerCase();
+
+  // If there's no protocol, add https://
+  if (!normalizedUrl.startsWith('http://') && !normalizedUrl.startsWith('https://')) {
+    normalizedUrl = 'https://' + normalizedUrl;
+  }
+
+  // Attempt to create URL object to handle other normalizations
+  try {
+    const urlObj = new URL(normalizedUrl);
+
+    // Remove trailing slash from pathname if it exists (except for root path)
+    if (urlObj.pathname.length > 1 && urlObj.pathname.endsWith('/')) {
+      urlObj.pathname = urlObj.pathname.slice(0, -1);
+    }
+
+    return urlObj.toString();
+  } catch {
+    // If URL parsing fails, return the original with basic normalization
+    return normalizedUrl;
+  }
+}
+
+/**
+ * Replace NaN values in an analysis result before it is stored, and make sure
+ * it has a valid overall score
+ */
+export function sanitizeAnalysisResult<T extends object>(result: T): T & { overallScore: SeoScore } {
+  const sanitizedResult = JSON.parse(
+    JSON.stringify(result, (key, value) => {
+      // Replace NaN values with defaults
+      if (typeof value === 'number' && isNaN(value)) {
+        return key.toLowerCase().includes('score') ? 50 : 0;
+      }
+      return value;
+    })
+  );
+
+  // Ensure the overall score has a valid value
+  if (!sanitizedResult.overallScore || isNaN(sanitizedResult.overallScore.score)) {
+    sanitizedResult.overallScore = { score: 50, category: 'needs-work' };
+  }
+
+  return sanitizedResult;
+}
\ No newline at end of file
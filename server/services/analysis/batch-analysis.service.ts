@@ -0,0 +1,337 @@
+import os from 'os';
+import axios from 'axios';
+import {
+  AnalysisBatch,
+  AnalysisBatchPage,
+  AnalysisBatchReport,
+  AnalysisBatchRow,
+  CreateAnalysisBatch,
+  Analysis
+} from '../../../shared/schema';
+import { analysisBatchRepository } from '../../repositories/analysis-batch.repository';
+import { analysisRepository } from '../../repositories/analysis.repository';
+import { crawler } from '../audit/crawler.service';
+import { SitemapDiscoveryService } from '../audit/crawling/sitemap-discovery.service';
+import { analyzer, normalizeAnalysisUrl, sanitizeAnalysisResult } from './analyzer.service';
+import { webhookService } from '../webhooks';
+import { ValidationError } from '../../utils/errors';
+
+// Pages analyzed at the same time within one batch
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_ANALYSIS_CONCURRENCY || '3');
+const SITEMAP_TIMEOUT = 15000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// Batches whose worker sent no heartbeat for this long are claimed by another worker
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+export type BatchScoreKey = Exclude<keyof AnalysisBatchRow, 'url' | 'status' | 'error' | 'analysisId'>;
+
+// Category analyses of a SeoAnalysisResult shown as columns of the comparison table
+export const BATCH_SCORE_COLUMNS: Array<{ key: BatchScoreKey; label: string; category?: string }> = [
+  { key: 'overallScore', label: 'Overall' },
+  { key: 'keywordScore', label: 'Keywords', category: 'keywordAnalysis' },
+  { key: 'metaTagsScore', label: 'Meta Tags', category: 'metaTagsAnalysis' },
+  { key: 'contentScore', label: 'Content', category: 'contentAnalysis' },
+  { key: 'internalLinksScore', label: 'Internal Links', category: 'internalLinksAnalysis' },
+  { key: 'imageScore', label: 'Images', category: 'imageAnalysis' },
+  { key: 'schemaMarkupScore', label: 'Schema Markup', category: 'schemaMarkupAnalysis' },
+  { key: 'mobileScore', label: 'Mobile', category: 'mobileAnalysis' },
+  { key: 'pageSpeedScore', label: 'Page Speed', category: 'pageSpeedAnalysis' },
+  { key: 'userEngagementScore', label: 'User Engagement', category: 'userEngagementAnalysis' },
+  { key: 'eatScore', label: 'E-E-A-T', category: 'eatAnalysis' }
+];
+
+/**
+ * Comparison table row of a batch page and the analysis stored for it
+ */
+export function toBatchRow(page: Pick<AnalysisBatchPage, 'url' | 'status' | 'error'>, analysis?: Pick<Analysis, 'id' | 'overallScore' | 'results'>): AnalysisBatchRow {
+  const results = (analysis?.results || {}) as Record<string, any>;
+  const row = { url: page.url, status: page.status, error: page.error, analysisId: analysis?.id ?? null } as AnalysisBatchRow;
+
+  for (const column of BATCH_SCORE_COLUMNS) {
+    const score = column.category ? results[column.category]?.overallScore?.score : analysis?.overallScore;
+    row[column.key] = analysis && typeof score === 'number' ? Math.round(score) : null;
+  }
+
+  return row;
+}
+
+/**
+ * Sort comparison table rows by URL or a score; pages without a score go last
+ */
+export function sortBatchRows(rows: AnalysisBatchRow[], sortBy: BatchScoreKey | 'url', direction: 'asc' | 'desc'): AnalysisBatchRow[] {
+  const order = direction === 'asc' ? 1 : -1;
+
+  return [...rows].sort((a, b) => {
+    if (sortBy === 'url') return a.url.localeCompare(b.url) * order;
+
+    const scoreA = a[sortBy];
+    const scoreB = b[sortBy];
+    if (scoreA === null || scoreB === null) {
+      return scoreA === scoreB ? 0 : scoreA === null ? 1 : -1;
+    }
+    return (scoreA - scoreB) * order || a.url.localeCompare(b.url);
+  });
+}
+
+/**
+ * Service that scores many pages with the single-page analyzer.
+ * Each page is crawled and analyzed like POST /api/analyze and stored in
+ * analyses. A batch is held by one server process at a time, which keeps it
+ * alive with heartbeats; batches whose process stopped are claimed by another.
+ */
+export class BatchAnalysisService {
+  private readonly workerId = `${os.hostname()}-${process.pid}`;
+  private running = new Set<number>();
+  private lost = new Set<number>(); // running batches another worker has claimed
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private isStopping = false;
+
+  /**
+   * Claim unfinished batches, now and after every heartbeat
+   */
+  async start(): Promise<void> {
+    this.isStopping = false;
+
+    if (!this.heartbeatInterval) {
+      this.heartbeatInterval = setInterval(() => {
+        this.sendHeartbeat()
+          .then(() => this.claimBatches())
+          .catch(error => console.error('❌ Analysis batch heartbeat failed:', error));
+      }, HEARTBEAT_INTERVAL_MS);
+    }
+
+    await this.claimBatches();
+  }
+
+  /**
+   * Stop starting new pages; running batches are released once their current pages finish
+   */
+  stop(): void {
+    this.isStopping = true;
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
+  /**
+   * Read the URLs of a batch request, from its list and/or sitemap, without duplicates
+   */
+  async collectUrls(input: CreateAnalysisBatch): Promise<string[]> {
+    const urls = [...(input.urls || [])];
+
+    if (input.sitemapUrl) {
+      urls.push(...await this.readSitemap(input.sitemapUrl));
+    }
+
+    const unique = new Set<string>();
+    for (const url of urls) {
+      const normalized = normalizeAnalysisUrl(url);
+      try {
+        const { protocol } = new URL(normalized);
+        if (protocol === 'http:' || protocol === 'https:') unique.add(normalized);
+      } catch {
+        // Not a URL; skipped
+      }
+    }
+
+    if (unique.size === 0) {
+      throw new ValidationError(input.sitemapUrl ? 'No page URLs found in the sitemap' : 'No valid URLs to analyze');
+    }
+
+    return Array.from(unique).slice(0, input.maxPages);
+  }
+
+  /**
+   * Create a batch for the user and start analyzing its pages
+   */
+  async createBatch(userId: string, input: CreateAnalysisBatch): Promise<AnalysisBatch> {
+    const urls = await this.collectUrls(input);
+
+    const batch = await analysisBatchRepository.createBatch({
+      userId,
+      name: input.name || null,
+      sitemapUrl: input.sitemapUrl || null,
+      status: 'processing',
+      lockedBy: this.workerId,
+      lockedAt: new Date()
+    }, urls);
+
+    this.startBatch(batch);
+    return batch;
+  }
+
+  /**
+   * Whether a batch is being analyzed by this or another server
+   */
+  isBatchRunning(batch: AnalysisBatch): boolean {
+    return this.running.has(batch.id)
+      || (batch.lockedBy !== null && batch.lockedAt !== null && batch.lockedAt.getTime() > Date.now() - STALE_AFTER_MS);
+  }
+
+  /**
+   * A batch's progress and comparison table, in submission order
+   */
+  async getReport(batch: AnalysisBatch): Promise<AnalysisBatchReport> {
+    const pages = await analysisBatchRepository.getPages(batch.id);
+    const analyses = await analysisRepository.findByIds(
+      pages.map(page => page.analysisId).filter((id): id is number => id !== null)
+    );
+    const analysesById = new Map(analyses.map(analysis => [analysis.id, analysis]));
+
+    return {
+      batch: {
+        id: batch.id,
+        name: batch.name,
+        sitemapUrl: batch.sitemapUrl,
+        status: batch.status,
+        totalPages: batch.totalPages,
+        completedPages: pages.filter(page => page.status === 'completed').length,
+        failedPages: pages.filter(page => page.status === 'failed').length,
+        createdAt: batch.createdAt.toISOString(),
+        completedAt: batch.completedAt ? batch.completedAt.toISOString() : null
+      },
+      rows: pages.map(page => toBatchRow(page, page.analysisId ? analysesById.get(page.analysisId) : undefined))
+    };
+  }
+
+  /**
+   * Claim and run unfinished batches no live worker holds
+   */
+  private async claimBatches(): Promise<void> {
+    if (this.isStopping) return;
+
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+    const candidates = await analysisBatchRepository.getClaimableBatches(staleBefore);
+
+    for (const candidate of candidates) {
+      if (this.isStopping) break;
+      if (this.running.has(candidate.id)) continue;
+
+      const batch = await analysisBatchRepository.claimBatch(candidate.id, this.workerId, staleBefore);
+      if (batch) {
+        console.log(`📊 Resuming analysis batch ${batch.id}`);
+        this.startBatch(batch);
+      }
+    }
+  }
+
+  /**
+   * Refresh the locks of running batches and stop those another worker has claimed
+   */
+  private async sendHeartbeat(): Promise<void> {
+    const batchIds = Array.from(this.running);
+    const held = new Set(await analysisBatchRepository.heartbeat(this.workerId, batchIds));
+
+    for (const batchId of batchIds) {
+      if (!held.has(batchId) && this.running.has(batchId)) {
+        console.warn(`⚠️ Analysis batch ${batchId} was claimed by another worker; stopping it here`);
+        this.lost.add(batchId);
+      }
+    }
+  }
+
+  private startBatch(batch: AnalysisBatch): void {
+    if (this.running.has(batch.id)) return;
+    this.running.add(batch.id);
+
+    this.runBatch(batch)
+      .catch(error => console.error(`❌ Analysis batch ${batch.id} failed:`, error))
+      .finally(() => {
+        this.running.delete(batch.id);
+        this.lost.delete(batch.id);
+      });
+  }
+
+  private async runBatch(batch: AnalysisBatch): Promise<void> {
+    let analyzed = 0;
+
+    // Each worker claims the next pending page until none are left
+    const worker = async () => {
+      while (!this.isStopping && !this.lost.has(batch.id)) {
+        const page = await analysisBatchRepository.claimNextPage(batch.id, this.workerId);
+        if (!page) break;
+
+        await this.analyzePage(page, batch.userId);
+        analyzed++;
+      }
+    };
+
+    await Promise.all(Array.from({ length: BATCH_CONCURRENCY }, worker));
+
+    if (this.lost.has(batch.id)) return;
+
+    if (this.isStopping) {
+      await analysisBatchRepository.releaseBatch(batch.id, this.workerId);
+      return;
+    }
+
+    if (await analysisBatchRepository.completeBatch(batch.id, this.workerId)) {
+      console.log(`📊 Analysis batch ${batch.id} completed (${analyzed} pages analyzed here)`);
+    }
+  }
+
+  private async analyzePage(page: AnalysisBatchPage, userId: string): Promise<void> {
+    try {
+      const pageData = await crawler.crawlPage(page.url);
+      if (pageData.status === 'error' || pageData.statusCode >= 400) {
+        throw new Error(pageData.error || `HTTP ${pageData.statusCode}`);
+      }
+
+      const result = sanitizeAnalysisResult(await analyzer.analyzePage(page.url, pageData));
+      const analysis = await analysisRepository.create({
+        url: page.url,
+        userId,
+        overallScore: result.overallScore.score,
+        results: result
+      });
+
+      if (!(await analysisBatchRepository.completePage(page.id, this.workerId, analysis.id))) {
+        return;
+      }
+
+      // Sent like for single analyses; a failed dispatch does not fail the page
+      try {
+        await webhookService.dispatch('analysis.completed', { userId, workspaceId: null }, {
+          analysis: {
+            id: analysis.id,
+            url: page.url,
+            overallScore: analysis.overallScore,
+            targetKeyword: null,
+            timestamp: analysis.timestamp.toISOString()
+          }
+        });
+      } catch (dispatchError) {
+        console.error(`❌ Failed to send analysis.completed for ${page.url}:`, dispatchError);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Batch analysis failed for ${page.url}:`, message);
+      await analysisBatchRepository.failPage(page.id, this.workerId, message);
+    }
+  }
+
+  private async readSitemap(sitemapUrl: string): Promise<string[]> {
+    try {
+      const response = await axios.get(sitemapUrl, {
+        timeout: SITEMAP_TIMEOUT,
+        responseType: 'text',
+        validateStatus: status => status < 500
+      });
+
+      if (response.status !== 200) {
+        throw new ValidationError(`Could not fetch the sitemap: HTTP ${response.status}`);
+      }
+
+      // A new instance per sitemap, as it remembers the child sitemaps it has read
+      return await new SitemapDiscoveryService().parseSitemap(String(response.data), sitemapUrl);
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      throw new ValidationError(`Could not fetch the sitemap: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+// Singleton instance
+export const batchAnalysisService = new BatchAnalysisService();
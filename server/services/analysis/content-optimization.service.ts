@@ -2,14 +2,24 @@
 type CrawlerOutput = any;
 import { ScoreUtils } from '../../lib/utils/score.utils';
 
+// Words left out when matching a question against the page
+const QUESTION_STOP_WORDS = new Set([
+  'what', 'which', 'who', 'why', 'how', 'when', 'where', 'does', 'can', 'should', 'much', 'many',
+  'the', 'and', 'for', 'are', 'you', 'your', 'with', 'that', 'this', 'from', 'have', 'get', 'there'
+]);
+
+// Unanswered questions recommended per page
+const MAX_QUESTION_RECOMMENDATIONS = 5;
+
 /**
  * Content optimization analyzer for detecting and fixing common SEO content issues
  */
 class ContentOptimizationAnalyzer {
   /**
-   * Primary method to analyze content for various SEO optimizations
+   * Primary method to analyze content for various SEO optimizations.
+   * `questions` are People Also Ask questions searchers have for the page's keyword.
    */
-  analyzeContent(pageData: CrawlerOutput, primaryKeyword?: string): any {
+  analyzeContent(pageData: CrawlerOutput, primaryKeyword?: string, questions: string[] = []): any {
     // Don't analyze if there was an error fetching the page
     if (pageData.error) {
       return {
@@ -87,6 +97,11 @@ class ContentOptimizationAnalyzer {
     // Check for image optimization
     this.analyzeImageOptimization(pageData, issues, recommendations);
     
+    // Check that the page answers what searchers ask
+    if (questions.length > 0) {
+      this.analyzeQuestionCoverage(pageData, questions, issues, recommendations);
+    }
+    
     // Calculate overall content quality score (0-100)
     const score = this.calculateContentScore(issues.length, wordCount, pageData);
     
@@ -107,6 +122,33 @@ class ContentOptimizationAnalyzer {
     };
   }
   
+  /**
+   * Check which People Also Ask questions the page answers. A question counts
+   * as answered when a heading covers most of its words or a paragraph covers all of them.
+   */
+  private analyzeQuestionCoverage(pageData: CrawlerOutput, questions: string[], issues: string[], recommendations: string[]): void {
+    const toWords = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9]+/g) || []);
+    const { h1, h2, h3, h4 } = pageData.headings;
+    const headings = [...h1, ...h2, ...h3, ...h4].map((heading: string) => toWords(heading));
+    const paragraphs = pageData.content.paragraphs.map((paragraph: string) => toWords(paragraph));
+
+    const unanswered = questions.filter(question => {
+      const words = Array.from(toWords(question)).filter(word => word.length > 2 && !QUESTION_STOP_WORDS.has(word));
+      if (words.length === 0) return false;
+
+      const coverage = (text: Set<string>) => words.filter(word => text.has(word)).length / words.length;
+      return !headings.some((heading: Set<string>) => coverage(heading) >= 0.6) &&
+        !paragraphs.some((paragraph: Set<string>) => coverage(paragraph) === 1);
+    });
+
+    if (unanswered.length > 0) {
+      issues.push(`${unanswered.length} of ${questions.length} People Also Ask questions for this topic are not answered on the page.`);
+      for (const question of unanswered.slice(0, MAX_QUESTION_RECOMMENDATIONS)) {
+        recommendations.push(`Answer "${question}" in a section of its own; searchers ask it in Google's People Also Ask box.`);
+      }
+    }
+  }
+
   /**
    * Analyze heading structure and hierarchy
    */
@@ -3,4 +3,6 @@ export * from './keyword-analyzer.service';
 export * from './technical-analyzer.service';
 export * from './content-analyzer.service';
 export * from './content-annotation.service';
-export * from './content-optimization.service';
\ No newline at end of file
+export * from './content-optimization.service';
+export * from './batch-analysis.service';
+
@@ -125,6 +125,38 @@ class KeywordAnalyzer {
     }
   }
 
+  /**
+   * Extract the keywords a page targets besides its primary keyword, from its
+   * title, H1 headings and URL, strongest first
+   */
+  extractSecondaryKeywords(pageData: CrawlerOutput, primaryKeyword: string, limit: number = 5): string[] {
+    try {
+      const primary = primaryKeyword.toLowerCase();
+
+      // Title parts are read separately so phrases never span the brand separator,
+      // and whole hyphenated URL segments only repeat the words they contain
+      const candidates = [
+        ...this.extractKeywordsFromTexts((pageData.title || '').split(/\s[|\-–—:•]\s|\|/)),
+        ...this.extractKeywordsFromTexts(pageData.headings.h1),
+        ...this.extractKeywordsFromUrl(pageData.url)
+      ].filter(keyword => keyword !== primary && !/[-_]/.test(keyword));
+
+      const weightedKeywords = this.weightKeywords(
+        this.countKeywordOccurrences(candidates),
+        pageData,
+        pageData.content.text || ''
+      );
+
+      return Array.from(weightedKeywords.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(entry => entry[0]);
+    } catch (error) {
+      console.error('Error extracting secondary keywords:', error);
+      return [];
+    }
+  }
+
   /**
    * Analyze keyword optimization
    */
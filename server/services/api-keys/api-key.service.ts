@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { ApiKey, ApiKeyCreated, ApiKeyScope, ApiKeySummary, CreateApiKeyInput, User } from '../../../shared/schema';
+import { apiKeyRepository } from '../../repositories/api-key.repository';
+import { workspaceRepository } from '../../repositories/workspace.repository';
+import { userRepository } from '../../repositories/user.repository';
+import { AuthenticationError, AuthorizationError, NotFoundError } from '../../utils/errors';
+
+// Keys start with this so they can be told apart from login tokens
+export const API_KEY_PREFIX = 'ro_';
+
+const KEY_PREFIX_LENGTH = 11;
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+/**
+ * SHA-256 of an API key; only the hash is stored so a database leak
+ * cannot be used to call the API
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * API Key Service
+ * Personal and workspace-level keys that let scripts call the audit and
+ * analysis endpoints with a limited set of scopes
+ */
+export class ApiKeyService {
+  /**
+   * Create a key; the full key is only returned here
+   */
+  async createApiKey(userId: string, input: CreateApiKeyInput): Promise<ApiKeyCreated> {
+    if (input.workspaceId !== null) {
+      const member = await workspaceRepository.getMember(input.workspaceId, userId);
+      if (!member) {
+        throw new AuthorizationError('You are not a member of this workspace');
+      }
+    }
+
+    const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+    const apiKey = await apiKeyRepository.createApiKey({
+      userId,
+      workspaceId: input.workspaceId,
+      name: input.name,
+      keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes: Array.from(new Set(input.scopes)),
+      expiresAt: input.expiresInDays === null ? null : new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+    });
+
+    const workspace = apiKey.workspaceId !== null ? await workspaceRepository.getWorkspace(apiKey.workspaceId) : undefined;
+    return { apiKey: this.toSummary(apiKey, workspace?.name ?? null), key };
+  }
+
+  /**
+   * Keys the user created, including revoked and expired ones
+   */
+  async getApiKeys(userId: string): Promise<ApiKeySummary[]> {
+    const apiKeys = await apiKeyRepository.getApiKeysByUser(userId);
+    return apiKeys.map(apiKey => this.toSummary(apiKey, apiKey.workspaceName));
+  }
+
+  /**
+   * Revoke one of the user's keys; requests made with it fail from then on
+   */
+  async revokeApiKey(userId: string, id: number): Promise<void> {
+    const apiKey = await apiKeyRepository.revokeApiKey(id, userId);
+    if (!apiKey) {
+      throw new NotFoundError('API key');
+    }
+  }
+
+  /**
+   * Find the key a request was made with and the user it acts as
+   */
+  async verifyApiKey(key: string): Promise<{ apiKey: ApiKey; user: User }> {
+    const apiKey = key.startsWith(API_KEY_PREFIX) ? await apiKeyRepository.getApiKeyByHash(hashApiKey(key)) : undefined;
+    if (!apiKey) {
+      throw new AuthenticationError('Invalid API key');
+    }
+    if (apiKey.revokedAt) {
+      throw new AuthenticationError('This API key has been revoked');
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      throw new AuthenticationError('This API key has expired');
+    }
+
+    const user = await userRepository.findById(apiKey.userId);
+    if (!user) {
+      throw new AuthenticationError('Invalid API key');
+    }
+    return { apiKey, user };
+  }
+
+  hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+    return apiKey.scopes.includes(scope);
+  }
+
+  /**
+   * Record that a key was used; written at most once a minute per key
+   */
+  async recordUse(apiKey: ApiKey, ipAddress: string | null): Promise<void> {
+    const now = new Date();
+    if (apiKey.lastUsedAt && now.getTime() - apiKey.lastUsedAt.getTime() < LAST_USED_INTERVAL_MS && apiKey.lastUsedIp === ipAddress) {
+      return;
+    }
+    await apiKeyRepository.recordUse(apiKey.id, now, ipAddress);
+  }
+
+  private toSummary(apiKey: ApiKey, workspaceName: string | null): ApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      scopes: apiKey.scopes as ApiKeyScope[],
+      workspaceId: apiKey.workspaceId,
+      workspaceName,
+      expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+      lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+      lastUsedIp: apiKey.lastUsedIp,
+      revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+      createdAt: apiKey.createdAt.toISOString()
+    };
+  }
+}
+
+// Singleton instance
+export const apiKeyService = new ApiKeyService();
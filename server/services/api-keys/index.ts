@@ -0,0 +1,6 @@
+export {
+  ApiKeyService,
+  apiKeyService,
+  hashApiKey,
+  API_KEY_PREFIX
+} from './api-key.service';
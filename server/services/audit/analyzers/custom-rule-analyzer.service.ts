@@ -0,0 +1,245 @@
+import vm from 'vm';
+import * as cheerio from 'cheerio';
+import { PageCrawlResult, SiteStructure } from '../audit.service';
+import { AnalysisFactor } from './content-quality-analyzer.service';
+import { CustomAuditRule, CustomRuleCategory, CustomRuleCondition } from '../../../../shared/schema';
+
+export const CUSTOM_RULE_CATEGORY = 'Custom Rules';
+
+const CATEGORIES: CustomRuleCategory[] = ['contentQuality', 'technicalSEO', 'localSEO', 'uxPerformance'];
+const MAX_TEXT_LENGTH = 200000; // regexes only see the start of very long pages
+const PATTERN_TIMEOUT_MS = 100; // patterns slower than this on a page are skipped for the rest of the audit
+
+export interface CustomRulePageFactors {
+  page: PageCrawlResult;
+  pageType: string;
+  category: CustomRuleCategory;
+  factors: AnalysisFactor[];
+}
+
+export interface CustomRuleAnalysis {
+  pageFactors: CustomRulePageFactors[]; // failed rules, attributed to the affected page
+  siteFactors: Array<{ category: CustomRuleCategory; factor: AnalysisFactor }>; // rules every page in scope passed
+}
+
+/**
+ * Custom Rule Analyzer
+ * Evaluates agency-defined rules (CSS selectors, body text patterns, schema
+ * types and word counts, scoped by page type) against every classified page.
+ */
+export class CustomRuleAnalyzer {
+  // Patterns run in a separate context so a runaway regex can be interrupted
+  private patternContext = vm.createContext({});
+  private slowPatterns = new Set<string>();
+
+  analyze(siteStructure: SiteStructure, rules: CustomAuditRule[]): CustomRuleAnalysis {
+    const activeRules = rules.filter(rule => rule.isActive);
+    if (activeRules.length === 0) {
+      return { pageFactors: [], siteFactors: [] };
+    }
+    this.slowPatterns.clear();
+
+    const pages = this.getPagesWithTypes(siteStructure);
+    const pageFactors: CustomRulePageFactors[] = [];
+    const checkedPages = new Map<number, number>();
+    const failedRules = new Set<number>();
+
+    for (const { page, pageType } of pages) {
+      let $: cheerio.CheerioAPI | undefined;
+      const loadHtml = () => ($ ??= cheerio.load(page.rawHtml || ''));
+      const factorsByCategory = new Map<CustomRuleCategory, AnalysisFactor[]>();
+
+      for (const rule of activeRules) {
+        if (rule.pageTypes.length > 0 && !rule.pageTypes.includes(pageType)) continue;
+        checkedPages.set(rule.id, (checkedPages.get(rule.id) || 0) + 1);
+
+        const failures = rule.conditions
+          .map(condition => this.evaluateCondition(page, condition, loadHtml))
+          .filter((failure): failure is string => failure !== null);
+        if (failures.length === 0) continue;
+
+        failedRules.add(rule.id);
+        const category = this.getCategory(rule);
+        if (!factorsByCategory.has(category)) factorsByCategory.set(category, []);
+        factorsByCategory.get(category)!.push({
+          ...this.describeRule(rule),
+          status: rule.failStatus === 'Priority OFI' ? "Priority OFI" : "OFI",
+          notes: `What: ${failures.join(' ')}${rule.notes ? `\n\n${rule.notes}` : ''}`
+        });
+      }
+
+      factorsByCategory.forEach((factors, category) => pageFactors.push({ page, pageType, category, factors }));
+    }
+
+    const siteFactors = activeRules
+      .filter(rule => !failedRules.has(rule.id))
+      .map(rule => {
+        const checked = checkedPages.get(rule.id) || 0;
+        return {
+          category: this.getCategory(rule),
+          factor: {
+            ...this.describeRule(rule),
+            status: checked > 0 ? "OK" as const : "N/A" as const,
+            notes: checked > 0
+              ? `What: All ${checked} page${checked === 1 ? '' : 's'} in scope pass this rule.`
+              : `What: No crawled pages of the types this rule applies to (${rule.pageTypes.join(', ')}).`
+          }
+        };
+      });
+
+    return { pageFactors, siteFactors };
+  }
+
+  /**
+   * Check one condition against a page. Returns why it failed, or null when it passed.
+   */
+  private evaluateCondition(
+    page: PageCrawlResult,
+    condition: CustomRuleCondition,
+    loadHtml: () => cheerio.CheerioAPI
+  ): string | null {
+    switch (condition.type) {
+      case 'selector': {
+        let count: number;
+        try {
+          count = loadHtml()(condition.selector).length;
+        } catch {
+          return `The selector "${condition.selector}" is not valid CSS.`;
+        }
+
+        const minCount = condition.minCount ?? 1;
+        if (count < minCount) {
+          return `Found ${count} element${count === 1 ? '' : 's'} matching "${condition.selector}", expected at least ${minCount}.`;
+        }
+        if (condition.maxCount !== undefined && count > condition.maxCount) {
+          return `Found ${count} elements matching "${condition.selector}", expected at most ${condition.maxCount}.`;
+        }
+        return null;
+      }
+
+      case 'bodyText': {
+        const pattern = new RegExp(condition.pattern, (condition.flags ?? 'i').replace(/[gy]/g, ''));
+        const match = this.matchText(pattern, (page.bodyText || '').slice(0, MAX_TEXT_LENGTH));
+        if (match === undefined) {
+          return `The pattern /${condition.pattern}/ took too long to run and was skipped.`;
+        }
+        const shouldMatch = condition.shouldMatch ?? true;
+
+        if (shouldMatch && !match) {
+          return `The page text does not match /${condition.pattern}/.`;
+        }
+        if (!shouldMatch && match) {
+          return `The page text matches /${condition.pattern}/ ("${match[0].slice(0, 100)}").`;
+        }
+        return null;
+      }
+
+      case 'schemaType': {
+        const wanted = condition.schemaType.toLowerCase();
+        const found = this.getSchemaTypes(page, loadHtml).some(type => type.toLowerCase() === wanted);
+        const shouldExist = condition.shouldExist ?? true;
+
+        if (shouldExist && !found) return `No ${condition.schemaType} structured data found.`;
+        if (!shouldExist && found) return `The page has ${condition.schemaType} structured data.`;
+        return null;
+      }
+
+      case 'wordCount': {
+        const wordCount = page.wordCount ?? (page.bodyText || '').split(/\s+/).filter(Boolean).length;
+
+        if (condition.min !== undefined && wordCount < condition.min) {
+          return `The page has ${wordCount} words, below the minimum of ${condition.min}.`;
+        }
+        if (condition.max !== undefined && wordCount > condition.max) {
+          return `The page has ${wordCount} words, above the maximum of ${condition.max}.`;
+        }
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Match a user-supplied pattern against page text with a time limit.
+   * Returns undefined when the pattern ran too long, on this page or an earlier one.
+   */
+  private matchText(pattern: RegExp, text: string): RegExpMatchArray | null | undefined {
+    if (this.slowPatterns.has(pattern.toString())) {
+      return undefined;
+    }
+
+    this.patternContext.pattern = pattern;
+    this.patternContext.text = text;
+    try {
+      return vm.runInContext('text.match(pattern)', this.patternContext, { timeout: PATTERN_TIMEOUT_MS });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ERR_SCRIPT_EXECUTION_TIMEOUT') throw error;
+      this.slowPatterns.add(pattern.toString());
+      return undefined;
+    } finally {
+      this.patternContext.text = '';
+    }
+  }
+
+  /**
+   * Structured data types from the crawler plus any nested JSON-LD and microdata types
+   */
+  private getSchemaTypes(page: PageCrawlResult, loadHtml: () => cheerio.CheerioAPI): string[] {
+    const types = [...(page.schemaTypes || [])];
+    const $ = loadHtml();
+
+    const collect = (node: any) => {
+      if (Array.isArray(node)) {
+        node.forEach(collect);
+      } else if (node && typeof node === 'object') {
+        const type = node['@type'];
+        if (typeof type === 'string') types.push(type);
+        if (Array.isArray(type)) types.push(...type.filter((t: unknown): t is string => typeof t === 'string'));
+        Object.values(node).forEach(collect);
+      }
+    };
+
+    $('script[type="application/ld+json"]').each((_, element) => {
+      try {
+        collect(JSON.parse($(element).contents().text()));
+      } catch {
+        // Invalid JSON-LD is reported by the technical SEO checks
+      }
+    });
+
+    $('[itemtype]').each((_, element) => {
+      const itemType = $(element).attr('itemtype') || '';
+      types.push(...itemType.split(/\s+/).filter(Boolean).map(url => url.split('/').pop() || url));
+    });
+
+    return types;
+  }
+
+  private describeRule(rule: CustomAuditRule): Pick<AnalysisFactor, 'name' | 'description' | 'importance'> {
+    return {
+      name: rule.name,
+      description: rule.description || (rule.pageTypes.length > 0
+        ? `Custom rule for ${rule.pageTypes.join(', ')} pages`
+        : 'Custom rule for all pages'),
+      importance: ['High', 'Medium', 'Low'].includes(rule.importance)
+        ? rule.importance as AnalysisFactor['importance']
+        : "Medium"
+    };
+  }
+
+  private getCategory(rule: CustomAuditRule): CustomRuleCategory {
+    return CATEGORIES.includes(rule.category as CustomRuleCategory)
+      ? rule.category as CustomRuleCategory
+      : 'technicalSEO';
+  }
+
+  private getPagesWithTypes(siteStructure: SiteStructure): Array<{ page: PageCrawlResult; pageType: string }> {
+    return [
+      ...(siteStructure.homepage ? [{ page: siteStructure.homepage, pageType: 'homepage' }] : []),
+      ...(siteStructure.contactPage ? [{ page: siteStructure.contactPage, pageType: 'contact' }] : []),
+      ...siteStructure.servicePages.map(page => ({ page, pageType: 'service' })),
+      ...siteStructure.locationPages.map(page => ({ page, pageType: 'location' })),
+      ...siteStructure.serviceAreaPages.map(page => ({ page, pageType: 'serviceArea' })),
+      ...siteStructure.otherPages.map(page => ({ page, pageType: 'other' }))
+    ];
+  }
+}
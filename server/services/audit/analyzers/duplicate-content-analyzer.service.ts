@@ -0,0 +1,168 @@
+import * as cheerio from 'cheerio';
+import { PageCrawlResult, SiteStructure } from '../audit.service';
+import { ContentSimilarityService } from '../crawling/content-similarity.service';
+import { AnalysisFactor } from './content-quality-analyzer.service';
+import { DuplicateContentCluster, DuplicateContentSummary } from '../../../../shared/schema';
+
+export const DUPLICATE_CONTENT_CATEGORY = 'Duplicate Content Clusters';
+
+// Templated pages where duplication hurts rankings most
+const KEY_PAGE_TYPES = ['service', 'location', 'serviceArea'];
+
+// Shingle overlap at which body text counts as near-duplicate. Lower than the
+// crawl-time threshold: templates that only swap the city name land around 0.75.
+const NEAR_DUPLICATE_THRESHOLD = 0.7;
+
+export interface DuplicateContentAnalysis {
+  clusterFactors: AnalysisFactor[]; // one failed check per cluster
+  siteFactors: AnalysisFactor[]; // checks without any clusters
+  summary: DuplicateContentSummary;
+}
+
+type ClusterType = DuplicateContentCluster['type'];
+
+const CHECKS: Record<ClusterType, { name: string; description: string; importance: AnalysisFactor['importance']; why: string; how: string }> = {
+  content: {
+    name: "Near-Duplicate Page Content",
+    description: "Each page should have substantially unique body text",
+    importance: "High",
+    why: "Search engines pick one of several near-identical pages to rank and filter out the rest, so templated location and service pages compete with each other instead of ranking for their own searches.",
+    how: "Rewrite each page around what is specific to it: local landmarks, projects, staff, reviews and FAQs for that service or area. Merge pages that cannot be made distinct and redirect the extras."
+  },
+  title: {
+    name: "Duplicate Title Tags",
+    description: "Each page should have a unique title tag",
+    importance: "High",
+    why: "Identical titles make pages look interchangeable to search engines and searchers, and only one of them is likely to be shown.",
+    how: "Give each page a title naming its specific service or location, e.g. \"Service in City | Brand\"."
+  },
+  metaDescription: {
+    name: "Duplicate Meta Descriptions",
+    description: "Each page should have a unique meta description",
+    importance: "Medium",
+    why: "Repeated descriptions give searchers no reason to choose one page over another and are often replaced by search engines.",
+    how: "Write a description for each page summarizing its own service or area and call to action."
+  },
+  h1: {
+    name: "Duplicate H1 Headings",
+    description: "Each page should have a unique main heading",
+    importance: "Medium",
+    why: "The H1 tells visitors and search engines what the page is about; sharing it across pages blurs their topics.",
+    how: "Change each page's H1 to name its specific service or location."
+  }
+};
+
+/**
+ * Duplicate Content Analyzer
+ * Post-crawl pass that clusters pages with near-duplicate body text and pages
+ * sharing a title, meta description or H1.
+ */
+export class DuplicateContentAnalyzer {
+  private similarityService = new ContentSimilarityService();
+
+  analyze(siteStructure: SiteStructure): DuplicateContentAnalysis {
+    const pages = this.getPagesWithTypes(siteStructure);
+    const pageTypes = new Map(pages.map(({ page, pageType }) => [page.url, pageType]));
+    const toPages = (urls: string[]) => urls.map(url => ({ url, pageType: pageTypes.get(url) || 'other' }));
+
+    const clusters: DuplicateContentCluster[] = [
+      ...this.similarityService
+        .clusterNearDuplicates(
+          pages.map(({ page }) => ({ url: page.url, text: page.bodyText || '', boilerplateText: this.getBoilerplateText(page) })),
+          NEAR_DUPLICATE_THRESHOLD
+        )
+        .map(cluster => ({ type: 'content' as const, similarity: cluster.similarity, pages: toPages(cluster.urls) })),
+      ...this.groupByValue(pages, 'title', page => [page.title]),
+      ...this.groupByValue(pages, 'metaDescription', page => [page.metaDescription]),
+      ...this.groupByValue(pages, 'h1', page => page.headings?.h1 || page.h1s || [])
+    ];
+
+    const clusterFactors = clusters.map(cluster => this.buildClusterFactor(cluster));
+    const siteFactors = (Object.keys(CHECKS) as ClusterType[])
+      .filter(type => !clusters.some(cluster => cluster.type === type))
+      .map(type => ({
+        name: CHECKS[type].name,
+        description: CHECKS[type].description,
+        status: "OK" as const,
+        importance: CHECKS[type].importance,
+        notes: `What: No duplicates found across ${pages.length} crawled pages.\n\nWhy: ${CHECKS[type].why}\n\nHow: Keep each new page's content and tags specific to it.`
+      }));
+
+    return {
+      clusterFactors,
+      siteFactors,
+      summary: { clusters, pagesCompared: pages.length }
+    };
+  }
+
+  /**
+   * Group pages sharing the same normalized value
+   */
+  private groupByValue(
+    pages: Array<{ page: PageCrawlResult; pageType: string }>,
+    type: ClusterType,
+    getValues: (page: PageCrawlResult) => string[]
+  ): DuplicateContentCluster[] {
+    const groups = new Map<string, { value: string; pages: Array<{ url: string; pageType: string }> }>();
+
+    for (const { page, pageType } of pages) {
+      const seen = new Set<string>();
+      for (const value of getValues(page)) {
+        const key = (value || '').replace(/\s+/g, ' ').trim().toLowerCase();
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+
+        if (!groups.has(key)) groups.set(key, { value: value.trim(), pages: [] });
+        groups.get(key)!.pages.push({ url: page.url, pageType });
+      }
+    }
+
+    return Array.from(groups.values())
+      .filter(group => group.pages.length > 1)
+      .map(group => ({ type, value: group.value, pages: group.pages }));
+  }
+
+  private buildClusterFactor(cluster: DuplicateContentCluster): AnalysisFactor {
+    const check = CHECKS[cluster.type];
+    const hasKeyPages = cluster.pages.some(page => KEY_PAGE_TYPES.includes(page.pageType));
+    const critical = hasKeyPages && (cluster.type === 'content' || cluster.type === 'title');
+    const urls = cluster.pages.map(page => page.url).join(', ');
+
+    const what = cluster.type === 'content'
+      ? `${cluster.pages.length} pages have ${Math.round((cluster.similarity || 0) * 100)}% similar body text: ${urls}.`
+      : `${cluster.pages.length} pages share the ${cluster.type === 'metaDescription' ? 'meta description' : cluster.type === 'h1' ? 'H1' : 'title'} "${cluster.value}": ${urls}.`;
+
+    return {
+      name: check.name,
+      description: check.description,
+      status: critical ? "Priority OFI" : "OFI",
+      importance: check.importance,
+      notes: `What: ${what}\n\nWhy: ${check.why}\n\nHow: ${check.how}`
+    };
+  }
+
+  /**
+   * Text of the page's navigation, header and footer, outside its main content
+   */
+  private getBoilerplateText(page: PageCrawlResult): string {
+    if (!page.rawHtml) return '';
+
+    const $ = cheerio.load(page.rawHtml);
+    return $('nav, header, footer')
+      .filter((_, element) => $(element).closest('main, article').length === 0)
+      .text()
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private getPagesWithTypes(siteStructure: SiteStructure): Array<{ page: PageCrawlResult; pageType: string }> {
+    return [
+      ...(siteStructure.homepage ? [{ page: siteStructure.homepage, pageType: 'homepage' }] : []),
+      ...(siteStructure.contactPage ? [{ page: siteStructure.contactPage, pageType: 'contact' }] : []),
+      ...siteStructure.servicePages.map(page => ({ page, pageType: 'service' })),
+      ...siteStructure.locationPages.map(page => ({ page, pageType: 'location' })),
+      ...siteStructure.serviceAreaPages.map(page => ({ page, pageType: 'serviceArea' })),
+      ...siteStructure.otherPages.map(page => ({ page, pageType: 'other' }))
+    ];
+  }
+}
@@ -1,4 +1,9 @@
 export { ContentQualityAnalyzer, type AnalysisFactor } from './content-quality-analyzer.service';
 export { TechnicalSEOAnalyzer } from './technical-seo-analyzer.service';
 export { LocalSEOAnalyzer } from './local-seo-analyzer.service';
-export { UXPerformanceAnalyzer } from './ux-performance-analyzer.service';
\ No newline at end of file
+export { UXPerformanceAnalyzer } from './ux-performance-analyzer.service';
+export { RedirectStatusAnalyzer, REDIRECT_STATUS_CATEGORY } from './redirect-status-analyzer.service';
+export { InternalLinkAnalyzer, INTERNAL_LINK_CATEGORY } from './internal-link-analyzer.service';
+export { DuplicateContentAnalyzer, DUPLICATE_CONTENT_CATEGORY, type DuplicateContentAnalysis } from './duplicate-content-analyzer.service';
+export { KeywordCannibalizationAnalyzer, KEYWORD_CANNIBALIZATION_CATEGORY, type KeywordCannibalizationAnalysis } from './keyword-cannibalization-analyzer.service';
+export { CustomRuleAnalyzer, CUSTOM_RULE_CATEGORY, type CustomRuleAnalysis } from './custom-rule-analyzer.service';
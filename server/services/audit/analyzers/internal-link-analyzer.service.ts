@@ -0,0 +1,194 @@
+import { PageCrawlResult, SiteStructure } from '../audit.service';
+import { LinkGraph, LinkGraphNode } from '../../../types/crawler';
+import { AnalysisFactor } from './content-quality-analyzer.service';
+import { InternalLinkingSummary } from '../../../../shared/schema';
+
+export const INTERNAL_LINK_CATEGORY = 'Internal Link Authority';
+
+const KEY_PAGE_TYPES = ['service', 'location', 'serviceArea'];
+const MAX_CLICK_DEPTH = 3; // Important pages should be reachable within 3 clicks
+const STARVED_MAX_INLINKS = 1; // Key pages linked from at most one page are starved
+const STARVED_AUTHORITY_RATIO = 0.5; // ...as are key pages with under half the median authority
+const MAX_LISTED_URLS = 50;
+
+export interface PageLinkFactors {
+  page: PageCrawlResult;
+  pageType: string;
+  factors: AnalysisFactor[];
+}
+
+export interface InternalLinkAnalysis {
+  pageFactors: PageLinkFactors[]; // failed checks, attributed to the affected page
+  siteFactors: AnalysisFactor[]; // passed checks, reported once for the site
+  summary?: InternalLinkingSummary;
+}
+
+type CheckKey = 'authority' | 'clickDepth' | 'deadEnd';
+
+const CHECKS: Record<CheckKey, { name: string; description: string; importance: AnalysisFactor['importance'] }> = {
+  authority: {
+    name: "Internal Link Authority",
+    description: "Service and location pages should receive links from several other pages",
+    importance: "High"
+  },
+  clickDepth: {
+    name: "Click Depth From Homepage",
+    description: `Pages should be reachable within ${MAX_CLICK_DEPTH} clicks of the homepage`,
+    importance: "Medium"
+  },
+  deadEnd: {
+    name: "Dead-End Pages",
+    description: "Pages should link on to other pages of the site",
+    importance: "Medium"
+  }
+};
+
+/**
+ * Internal Link Analyzer
+ * Interprets the crawler's internal link graph for classified pages: key pages
+ * starved of internal links, deep pages and dead ends.
+ */
+export class InternalLinkAnalyzer {
+  analyze(siteStructure: SiteStructure): InternalLinkAnalysis {
+    const linkGraph = siteStructure.linkGraph;
+    if (!linkGraph) {
+      return { pageFactors: [], siteFactors: [] };
+    }
+
+    const pages = this.getPagesWithTypes(siteStructure).filter(({ page }) => linkGraph.nodes[page.url]);
+    const medianAuthority = this.getMedianAuthority(linkGraph);
+    const failedChecks = new Set<CheckKey>();
+    const pageFactors: PageLinkFactors[] = [];
+    const summaryPages: InternalLinkingSummary['pages'] = [];
+
+    for (const { page, pageType } of pages) {
+      const node = linkGraph.nodes[page.url];
+      const isKeyPage = KEY_PAGE_TYPES.includes(pageType);
+      const starved = isKeyPage && this.isStarved(node, medianAuthority);
+      const factors: AnalysisFactor[] = [];
+
+      if (starved) {
+        failedChecks.add('authority');
+        factors.push(this.buildAuthorityFactor(node, medianAuthority));
+      }
+
+      if (pageType !== 'homepage' && (node.clickDepth === null || node.clickDepth > MAX_CLICK_DEPTH)) {
+        failedChecks.add('clickDepth');
+        factors.push(this.buildClickDepthFactor(node, isKeyPage));
+      }
+
+      if (node.outDegree === 0) {
+        failedChecks.add('deadEnd');
+        factors.push({
+          ...CHECKS.deadEnd,
+          status: "OFI",
+          notes: `What: This page has no links to other pages of the site.\n\nWhy: Visitors who land here have nowhere to go next, and the authority the page receives stops here instead of flowing to your service pages.\n\nHow: Add links to related services, your contact page and the main navigation.`
+        });
+      }
+
+      if (factors.length > 0) {
+        pageFactors.push({ page, pageType, factors });
+      }
+
+      if (isKeyPage) {
+        summaryPages.push({
+          url: page.url,
+          title: page.title || page.url,
+          pageType,
+          inDegree: node.inDegree,
+          outDegree: node.outDegree,
+          clickDepth: node.clickDepth,
+          authority: node.authority,
+          starved
+        });
+      }
+    }
+
+    const siteFactors = (Object.keys(CHECKS) as CheckKey[])
+      .filter(key => !failedChecks.has(key))
+      .map(key => ({
+        ...CHECKS[key],
+        status: "OK" as const,
+        notes: `What: No problems found for this check across the crawled pages.\n\nWhy: Well-connected pages pass authority to each other and are easy for visitors and search engines to reach.\n\nHow: Keep linking new pages from related content and the navigation as the site grows.`
+      }));
+
+    const crawledNodes = Object.values(linkGraph.nodes).filter(node => node.crawled);
+    const depths = crawledNodes.map(node => node.clickDepth).filter((depth): depth is number => depth !== null);
+
+    return {
+      pageFactors,
+      siteFactors,
+      summary: {
+        pages: summaryPages.sort((a, b) => Number(b.starved) - Number(a.starved) || a.authority - b.authority),
+        starvedPageCount: summaryPages.filter(page => page.starved).length,
+        orphanPages: linkGraph.orphanPages.slice(0, MAX_LISTED_URLS),
+        orphanPageCount: linkGraph.orphanPages.length,
+        deadEndPages: linkGraph.deadEndPages.slice(0, MAX_LISTED_URLS),
+        deadEndPageCount: linkGraph.deadEndPages.length,
+        maxClickDepth: depths.length > 0 ? Math.max(...depths) : 0,
+        averageInDegree: crawledNodes.length > 0
+          ? Math.round((crawledNodes.reduce((sum, node) => sum + node.inDegree, 0) / crawledNodes.length) * 10) / 10
+          : 0
+      }
+    };
+  }
+
+  private isStarved(node: LinkGraphNode, medianAuthority: number): boolean {
+    return node.inDegree <= STARVED_MAX_INLINKS || node.authority < medianAuthority * STARVED_AUTHORITY_RATIO;
+  }
+
+  private buildAuthorityFactor(node: LinkGraphNode, medianAuthority: number): AnalysisFactor {
+    const linkedFrom = node.inDegree === 0
+      ? 'No crawled page links to this page'
+      : `Only ${node.inDegree} page${node.inDegree === 1 ? ' links' : 's link'} to this page`;
+
+    return {
+      ...CHECKS.authority,
+      status: node.inDegree === 0 ? "Priority OFI" : "OFI",
+      notes: `What: ${linkedFrom}; its internal authority is ${node.authority}/100 against a site median of ${medianAuthority}/100.\n\nWhy: Search engines judge a page's importance by the internal links pointing to it, so a starved service or location page struggles to rank.\n\nHow: Link to this page from the homepage, the navigation and related service and location pages using descriptive anchor text.`
+    };
+  }
+
+  private buildClickDepthFactor(node: LinkGraphNode, isKeyPage: boolean): AnalysisFactor {
+    if (node.clickDepth === null) {
+      return {
+        ...CHECKS.clickDepth,
+        status: isKeyPage ? "Priority OFI" : "OFI",
+        notes: `What: This page cannot be reached by following links from the homepage.\n\nWhy: Search engines discover and value pages through links; pages only found through the sitemap get little authority.\n\nHow: Link to this page from the navigation or a related page that is linked from the homepage.`
+      };
+    }
+
+    return {
+      ...CHECKS.clickDepth,
+      status: "OFI",
+      notes: `What: This page is ${node.clickDepth} clicks from the homepage.\n\nWhy: Deeply buried pages are crawled less often and receive less internal authority.\n\nHow: Link to this page from the homepage, the navigation or a hub page so it is within ${MAX_CLICK_DEPTH} clicks.`
+    };
+  }
+
+  /**
+   * Median authority of the crawled pages
+   */
+  private getMedianAuthority(linkGraph: LinkGraph): number {
+    const authorities = Object.values(linkGraph.nodes)
+      .filter(node => node.crawled)
+      .map(node => node.authority)
+      .sort((a, b) => a - b);
+
+    if (authorities.length === 0) return 0;
+    const middle = Math.floor(authorities.length / 2);
+    return authorities.length % 2 === 0
+      ? Math.round((authorities[middle - 1] + authorities[middle]) / 2)
+      : authorities[middle];
+  }
+
+  private getPagesWithTypes(siteStructure: SiteStructure): Array<{ page: PageCrawlResult; pageType: string }> {
+    return [
+      ...(siteStructure.homepage ? [{ page: siteStructure.homepage, pageType: 'homepage' }] : []),
+      ...(siteStructure.contactPage ? [{ page: siteStructure.contactPage, pageType: 'contact' }] : []),
+      ...siteStructure.servicePages.map(page => ({ page, pageType: 'service' })),
+      ...siteStructure.locationPages.map(page => ({ page, pageType: 'location' })),
+      ...siteStructure.serviceAreaPages.map(page => ({ page, pageType: 'serviceArea' })),
+      ...siteStructure.otherPages.map(page => ({ page, pageType: 'other' }))
+    ];
+  }
+}
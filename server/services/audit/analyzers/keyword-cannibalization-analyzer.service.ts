@@ -0,0 +1,252 @@
+import { PageCrawlResult, SiteStructure } from '../audit.service';
+import { AnalysisFactor } from './content-quality-analyzer.service';
+import { keywordAnalyzer } from '../../analysis/keyword-analyzer.service';
+import { PagePerformanceIndex } from '../../search-console/search-performance.service';
+import { KeywordCannibalizationGroup, KeywordCannibalizationSummary } from '../../../../shared/schema';
+
+export const KEYWORD_CANNIBALIZATION_CATEGORY = 'Keyword Cannibalization';
+
+const KEY_PAGE_TYPES = ['service', 'location', 'serviceArea'];
+
+// Which page type should rank when pages compete, highest first
+const CANONICAL_PAGE_TYPE_RANK: Record<string, number> = { service: 4, serviceArea: 3, location: 3, other: 2, homepage: 1 };
+
+// Share of the targeted keywords two pages must have in common to share an
+// intent. Measured against the page targeting more keywords, so a city page
+// ("drain cleaning springfield") stays apart from the generic service page.
+const SHARED_INTENT_OVERLAP = 0.6;
+
+// Secondary keywords on more than this share of pages (brand names in titles) say nothing about intent
+const BOILERPLATE_PAGE_RATIO = 0.5;
+const BOILERPLATE_MIN_PAGES = 4;
+
+const SECONDARY_KEYWORD_CANDIDATES = 10;
+const SECONDARY_KEYWORDS_PER_PAGE = 5;
+const MAX_LISTED_PHRASES = 3;
+
+const CHECK = {
+  name: "Keyword Cannibalization",
+  description: "Each keyword and search intent should be targeted by one page",
+  importance: "High" as const,
+  why: "When several pages target the same search, search engines split rankings, links and clicks between them or keep swapping which one they show, so none of them ranks as well as one strong page would."
+};
+
+export interface KeywordCannibalizationAnalysis {
+  groupFactors: AnalysisFactor[]; // one failed check per group of competing pages
+  siteFactors: AnalysisFactor[]; // the passed check when no pages compete
+  summary: KeywordCannibalizationSummary;
+}
+
+interface PageKeywords {
+  page: PageCrawlResult;
+  pageType: string;
+  primaryKeyword: string;
+  secondaryKeywords: string[];
+  targetKeywords?: Set<string>; // normalized primary and secondary keywords
+}
+
+/**
+ * Keyword Cannibalization Analyzer
+ * Post-crawl pass that infers the primary and secondary keywords of every
+ * crawled page and groups pages competing for the same intent, which service
+ * and location page templates often produce.
+ */
+export class KeywordCannibalizationAnalyzer {
+  async analyze(siteStructure: SiteStructure, searchPerformance?: PagePerformanceIndex | null): Promise<KeywordCannibalizationAnalysis> {
+    const pages = await this.extractPageKeywords(siteStructure);
+    const groups = this.groupCompetingPages(pages)
+      .map(group => this.buildGroup(group, siteStructure, searchPerformance));
+
+    const siteFactors = groups.length > 0 ? [] : [{
+      name: CHECK.name,
+      description: CHECK.description,
+      status: "OK" as const,
+      importance: CHECK.importance,
+      notes: `What: No crawled pages compete for the same keyword across ${pages.length} pages.\n\nWhy: ${CHECK.why}\n\nHow: Give each new page its own keyword and intent, and link to the existing page for terms it already covers.`
+    }];
+
+    return {
+      groupFactors: groups.map(group => this.buildGroupFactor(group)),
+      siteFactors,
+      summary: { groups, pagesAnalyzed: pages.length }
+    };
+  }
+
+  /**
+   * Primary and secondary keywords of each crawled page, without the
+   * secondary keywords most pages share
+   */
+  private async extractPageKeywords(siteStructure: SiteStructure): Promise<PageKeywords[]> {
+    const pages: PageKeywords[] = [];
+
+    for (const { page, pageType } of this.getPagesWithTypes(siteStructure)) {
+      if (!page.title || !page.bodyText) continue;
+
+      const pageData = this.toCrawlerOutput(page);
+      const primaryKeyword = await keywordAnalyzer.extractPrimaryKeyword(pageData);
+      const secondaryKeywords = keywordAnalyzer.extractSecondaryKeywords(pageData, primaryKeyword, SECONDARY_KEYWORD_CANDIDATES);
+      pages.push({ page, pageType, primaryKeyword, secondaryKeywords });
+    }
+
+    const pageCounts = new Map<string, number>();
+    for (const { secondaryKeywords } of pages) {
+      for (const keyword of new Set(secondaryKeywords)) {
+        pageCounts.set(keyword, (pageCounts.get(keyword) || 0) + 1);
+      }
+    }
+    const isBoilerplate = (keyword: string) =>
+      pages.length >= BOILERPLATE_MIN_PAGES && (pageCounts.get(keyword) || 0) > pages.length * BOILERPLATE_PAGE_RATIO;
+
+    return pages.map(entry => {
+      const secondaryKeywords = entry.secondaryKeywords
+        .filter(keyword => !isBoilerplate(keyword))
+        .slice(0, SECONDARY_KEYWORDS_PER_PAGE);
+      const targetKeywords = new Set([entry.primaryKeyword, ...secondaryKeywords].map(keyword => this.normalizeKeyword(keyword)));
+      return { ...entry, secondaryKeywords, targetKeywords };
+    });
+  }
+
+  /**
+   * Pages competing for the same intent, joined transitively into groups of
+   * two or more
+   */
+  private groupCompetingPages(pages: PageKeywords[]): PageKeywords[][] {
+    const parent = pages.map((_, index) => index);
+    const find = (index: number): number => parent[index] === index ? index : (parent[index] = find(parent[index]));
+
+    for (let i = 0; i < pages.length; i++) {
+      for (let j = i + 1; j < pages.length; j++) {
+        if (this.shareIntent(pages[i], pages[j])) {
+          parent[find(j)] = find(i);
+        }
+      }
+    }
+
+    const groups = new Map<number, PageKeywords[]>();
+    pages.forEach((entry, index) => {
+      const root = find(index);
+      if (!groups.has(root)) groups.set(root, []);
+      groups.get(root)!.push(entry);
+    });
+
+    return Array.from(groups.values()).filter(group => group.length > 1);
+  }
+
+  /**
+   * Two pages share an intent when one targets the other's primary keyword and
+   * most of their targeted keywords are the same. Extraction can phrase the same primary keyword differently ("water heater"
+   * and "heater repair"), so the primary keywords need not be equal.
+   */
+  private shareIntent(a: PageKeywords, b: PageKeywords): boolean {
+    const keywordsA = a.targetKeywords!;
+    const keywordsB = b.targetKeywords!;
+    if (!keywordsB.has(this.normalizeKeyword(a.primaryKeyword)) && !keywordsA.has(this.normalizeKeyword(b.primaryKeyword))) {
+      return false;
+    }
+
+    const shared = Array.from(keywordsA).filter(keyword => keywordsB.has(keyword)).length;
+    return shared / Math.max(keywordsA.size, keywordsB.size) >= SHARED_INTENT_OVERLAP;
+  }
+
+  /**
+   * Lowercase keyword with singular words, so "AC Repairs" and "ac repair" match
+   */
+  private normalizeKeyword(keyword: string): string {
+    return keyword
+      .toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)
+      .join(' ');
+  }
+
+  private buildGroup(
+    group: PageKeywords[],
+    siteStructure: SiteStructure,
+    searchPerformance?: PagePerformanceIndex | null
+  ): KeywordCannibalizationGroup {
+    const ranked = [...group].sort((a, b) => this.compareCanonical(a, b, siteStructure, searchPerformance));
+
+    return {
+      keyword: ranked[0].primaryKeyword,
+      canonicalUrl: ranked[0].page.url,
+      pages: ranked.map(({ page, pageType, primaryKeyword, secondaryKeywords }) => ({
+        url: page.url,
+        pageType,
+        primaryKeyword,
+        secondaryKeywords
+      }))
+    };
+  }
+
+  /**
+   * Order pages by how well placed they are to rank: real clicks and
+   * impressions first, then page type, internal link authority, the keyword
+   * in the URL and content depth
+   */
+  private compareCanonical(
+    a: PageKeywords,
+    b: PageKeywords,
+    siteStructure: SiteStructure,
+    searchPerformance?: PagePerformanceIndex | null
+  ): number {
+    const performanceA = searchPerformance?.get(a.page.url);
+    const performanceB = searchPerformance?.get(b.page.url);
+    const authority = (entry: PageKeywords) => siteStructure.linkGraph?.nodes[entry.page.url]?.authority ?? 0;
+    const keywordInUrl = (entry: PageKeywords) =>
+      this.normalizeKeyword(entry.page.url.replace(/[-_/]/g, ' ')).includes(this.normalizeKeyword(entry.primaryKeyword)) ? 1 : 0;
+
+    return (performanceB?.clicks ?? 0) - (performanceA?.clicks ?? 0)
+      || (performanceB?.impressions ?? 0) - (performanceA?.impressions ?? 0)
+      || (CANONICAL_PAGE_TYPE_RANK[b.pageType] ?? 0) - (CANONICAL_PAGE_TYPE_RANK[a.pageType] ?? 0)
+      || authority(b) - authority(a)
+      || keywordInUrl(b) - keywordInUrl(a)
+      || (b.page.wordCount || 0) - (a.page.wordCount || 0);
+  }
+
+  private buildGroupFactor(group: KeywordCannibalizationGroup): AnalysisFactor {
+    const keyPages = group.pages.filter(page => KEY_PAGE_TYPES.includes(page.pageType)).length;
+    const competing = group.pages.filter(page => page.url !== group.canonicalUrl).map(page => page.url);
+    // Phrases several of the pages target, single words say little on their own
+    const shared = Array.from(new Set(group.pages.flatMap(page => page.secondaryKeywords)))
+      .filter(keyword => keyword.includes(' ') && group.pages.filter(page => page.secondaryKeywords.includes(keyword)).length > 1)
+      .slice(0, MAX_LISTED_PHRASES);
+
+    return {
+      name: CHECK.name,
+      description: CHECK.description,
+      status: keyPages > 1 || group.pages.length > 2 ? "Priority OFI" : "OFI",
+      importance: CHECK.importance,
+      notes: `What: ${group.pages.length} pages target "${group.keyword}"${shared.length > 0 ? ` (also ${shared.map(keyword => `"${keyword}"`).join(', ')})` : ''}: ${group.pages.map(page => page.url).join(', ')}.\n\n` +
+        `Why: ${CHECK.why}\n\n` +
+        `How: Make ${group.canonicalUrl} the canonical page for "${group.keyword}". Merge ${competing.join(', ')} into it with 301 redirects or point their canonical tags at it, or re-target each at a distinct service, location or question and link to the canonical page with "${group.keyword}" as the anchor text.`
+    };
+  }
+
+  // The input shape KeywordAnalyzer expects
+  private toCrawlerOutput(page: PageCrawlResult) {
+    return {
+      url: page.url,
+      title: page.title,
+      meta: { description: page.metaDescription || '' },
+      headings: {
+        h1: page.headings?.h1 || page.h1s || [],
+        h2: page.headings?.h2 || page.h2s || [],
+        h3: page.headings?.h3 || page.h3s || []
+      },
+      content: { text: page.bodyText || '' }
+    };
+  }
+
+  // Contact pages are left out: they never target a service keyword
+  private getPagesWithTypes(siteStructure: SiteStructure): Array<{ page: PageCrawlResult; pageType: string }> {
+    return [
+      ...(siteStructure.homepage ? [{ page: siteStructure.homepage, pageType: 'homepage' }] : []),
+      ...siteStructure.servicePages.map(page => ({ page, pageType: 'service' })),
+      ...siteStructure.locationPages.map(page => ({ page, pageType: 'location' })),
+      ...siteStructure.serviceAreaPages.map(page => ({ page, pageType: 'serviceArea' })),
+      ...siteStructure.otherPages.map(page => ({ page, pageType: 'other' }))
+    ];
+  }
+}
@@ -0,0 +1,248 @@
+import { PageCrawlResult, SiteStructure } from '../audit.service';
+import { RedirectChain } from '../../../types/crawler';
+import { AnalysisFactor } from './content-quality-analyzer.service';
+
+export const REDIRECT_STATUS_CATEGORY = 'Redirects & HTTP Status';
+
+const MAX_LISTED_URLS = 5;
+
+export interface PageRedirectFactors {
+  page: PageCrawlResult;
+  pageType: string;
+  factors: AnalysisFactor[];
+}
+
+export interface RedirectStatusAnalysis {
+  pageFactors: PageRedirectFactors[]; // failed checks, attributed to the page containing the problem
+  siteFactors: AnalysisFactor[]; // passed checks, reported once for the site
+}
+
+interface RedirectCheck {
+  name: string;
+  description: string;
+  importance: AnalysisFactor['importance'];
+  why: string;
+  how: string;
+}
+
+type CheckKey = 'chains' | 'loops' | 'temporary' | 'https' | 'linksToRedirects' | 'clientErrors' | 'serverErrors';
+
+const CHECKS: Record<CheckKey, RedirectCheck> = {
+  chains: {
+    name: "Redirect Chains",
+    description: "Redirects should reach their destination in a single hop",
+    importance: "High",
+    why: "Every extra hop slows the page down and search engines may stop following long chains, losing link equity.",
+    how: "Point each redirect, and any links to it, straight at the final URL."
+  },
+  loops: {
+    name: "Redirect Loops",
+    description: "Redirects must not send visitors back to a URL they already passed through",
+    importance: "High",
+    why: "A redirect loop never loads, so visitors see an error and search engines cannot index the page.",
+    how: "Fix the redirect rules so each URL in the loop points at a page that loads."
+  },
+  temporary: {
+    name: "Temporary Redirects",
+    description: "Permanent moves should use 301 or 308 redirects instead of 302 or 307",
+    importance: "Medium",
+    why: "Temporary redirects tell search engines to keep the old URL indexed, so the new page may not get the ranking credit.",
+    how: "Change these redirects to 301 (or 308) if the move is permanent."
+  },
+  https: {
+    name: "HTTP to HTTPS Redirects",
+    description: "HTTP URLs should redirect to HTTPS and links should use HTTPS directly",
+    importance: "High",
+    why: "Pages reachable over plain HTTP split ranking signals between two versions and are marked as not secure in browsers.",
+    how: "Redirect every http:// URL to its https:// version with a 301 and update internal links to use https://."
+  },
+  linksToRedirects: {
+    name: "Internal Links to Redirects",
+    description: "Internal links should point at final URLs rather than redirects",
+    importance: "Medium",
+    why: "Links through redirects waste crawl budget and slow down navigation.",
+    how: "Update these links to point at the final URL."
+  },
+  clientErrors: {
+    name: "Internal Links to 4xx Pages",
+    description: "Internal links should not point at missing or forbidden pages",
+    importance: "High",
+    why: "Broken links frustrate visitors and waste the authority passed through internal links.",
+    how: "Update or remove these links, or restore or redirect the missing pages."
+  },
+  serverErrors: {
+    name: "Internal Links to 5xx Pages",
+    description: "Internal links should not point at pages returning server errors",
+    importance: "High",
+    why: "Server errors stop visitors and search engines from reaching the page; repeated errors can drop it from the index.",
+    how: "Check the server logs for these URLs and fix the errors, or remove the links."
+  }
+};
+
+/**
+ * Redirect & HTTP Status Analyzer
+ * Uses the redirect chains recorded by the crawler for crawled pages and the
+ * internal URLs they link to. Failed checks are attributed to the source page.
+ */
+export class RedirectStatusAnalyzer {
+  analyze(siteStructure: SiteStructure): RedirectStatusAnalysis {
+    const linkTargets = siteStructure.linkTargets || {};
+    const pages = this.getPagesWithTypes(siteStructure);
+
+    // Crawls without redirect data (e.g. continued legacy crawls) get no results at all
+    if (Object.keys(linkTargets).length === 0 && !pages.some(({ page }) => page.redirectChain)) {
+      return { pageFactors: [], siteFactors: [] };
+    }
+
+    const siteIsHttps = siteStructure.homepage?.url.startsWith('https://') || false;
+    const failedChecks = new Set<CheckKey>();
+    const pageFactors: PageRedirectFactors[] = [];
+
+    for (const { page, pageType } of pages) {
+      const findings = this.analyzePage(page, pageType === 'homepage', linkTargets, siteIsHttps);
+      const factors: AnalysisFactor[] = [];
+
+      for (const [key, finding] of Object.entries(findings) as Array<[CheckKey, Finding]>) {
+        if (finding.details.length === 0) continue;
+        failedChecks.add(key);
+        factors.push(this.buildFactor(CHECKS[key], finding.critical ? 'Priority OFI' : 'OFI', finding.details));
+      }
+
+      if (factors.length > 0) {
+        pageFactors.push({ page, pageType, factors });
+      }
+    }
+
+    const siteFactors = (Object.keys(CHECKS) as CheckKey[])
+      .filter(key => !failedChecks.has(key))
+      .map(key => this.buildFactor(CHECKS[key], 'OK', []));
+
+    return { pageFactors, siteFactors };
+  }
+
+  /**
+   * Run every check against one page's own redirect chain and its internal links
+   */
+  private analyzePage(
+    page: PageCrawlResult,
+    isHomepage: boolean,
+    linkTargets: Record<string, RedirectChain>,
+    siteIsHttps: boolean
+  ): Record<CheckKey, Finding> {
+    const findings = {} as Record<CheckKey, Finding>;
+    for (const key of Object.keys(CHECKS) as CheckKey[]) {
+      findings[key] = { details: [], critical: false };
+    }
+
+    const linkedChains = this.getLinkedChains(page, linkTargets);
+    const chains = page.redirectChain ? [page.redirectChain, ...linkedChains] : linkedChains;
+
+    for (const chain of chains) {
+      if (chain.hops.length > 1) {
+        this.addFinding(findings.chains, this.formatChain(chain), chain.hops.length >= 3);
+      }
+      if (chain.isLoop) {
+        this.addFinding(findings.loops, this.formatChain(chain), true);
+      }
+
+      const destinationLoads = chain.finalStatusCode >= 200 && chain.finalStatusCode < 300;
+      for (const hop of chain.hops) {
+        if (destinationLoads && (hop.statusCode === 302 || hop.statusCode === 307)) {
+          this.addFinding(findings.temporary, `${hop.url} (${hop.statusCode}) → ${hop.location}`);
+        }
+        if (hop.protocolChange === 'https-to-http') {
+          this.addFinding(findings.https, `${hop.url} redirects to insecure ${hop.location}`, true);
+        }
+      }
+    }
+
+    for (const chain of linkedChains) {
+      if (siteIsHttps && chain.url.startsWith('http://')) {
+        this.addFinding(findings.https, `Links to ${chain.url} over HTTP`);
+      }
+      if (chain.hops.length > 0 && !chain.isLoop) {
+        this.addFinding(findings.linksToRedirects, `${chain.url} → ${chain.finalUrl}`);
+      }
+      if (chain.finalStatusCode >= 400 && chain.finalStatusCode < 500) {
+        this.addFinding(findings.clientErrors, `${chain.url} (${chain.finalStatusCode})`, true);
+      }
+      if (chain.finalStatusCode >= 500) {
+        this.addFinding(findings.serverErrors, `${chain.url} (${chain.finalStatusCode})`, true);
+      }
+    }
+
+    // An https site's http:// homepage should redirect to https
+    if (isHomepage && siteIsHttps) {
+      const httpChain = linkTargets[page.url.replace(/^https:/, 'http:')];
+      if (httpChain && httpChain.finalStatusCode > 0 && !httpChain.finalUrl.startsWith('https://')) {
+        this.addFinding(findings.https, `${httpChain.url} is served without redirecting to HTTPS`, true);
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Chains of the distinct internal URLs a page links to (excluding itself)
+   */
+  private getLinkedChains(page: PageCrawlResult, linkTargets: Record<string, RedirectChain>): RedirectChain[] {
+    const chains = new Map<string, RedirectChain>();
+    for (const link of page.links?.internal || []) {
+      const target = link.split('#')[0];
+      const chain = linkTargets[target];
+      if (chain && target !== page.url) {
+        chains.set(target, chain);
+      }
+    }
+    return Array.from(chains.values());
+  }
+
+  private addFinding(finding: Finding, detail: string, critical = false): void {
+    if (!finding.details.includes(detail)) {
+      finding.details.push(detail);
+    }
+    finding.critical = finding.critical || critical;
+  }
+
+  private formatChain(chain: RedirectChain): string {
+    return [chain.url, ...chain.hops.map(hop => `${hop.location} (${hop.statusCode})`)].join(' → ');
+  }
+
+  private buildFactor(check: RedirectCheck, status: AnalysisFactor['status'], details: string[]): AnalysisFactor {
+    if (status === 'OK') {
+      return {
+        name: check.name,
+        description: check.description,
+        status,
+        importance: check.importance,
+        notes: `What: No problems found for this check across the crawled pages and their internal links.\n\nWhy: ${check.why}\n\nHow: Keep checking redirects and link targets after site changes and migrations.`
+      };
+    }
+
+    const listed = details.slice(0, MAX_LISTED_URLS).join('; ');
+    const more = details.length > MAX_LISTED_URLS ? ` and ${details.length - MAX_LISTED_URLS} more` : '';
+    return {
+      name: check.name,
+      description: check.description,
+      status,
+      importance: check.importance,
+      notes: `What: ${details.length} problem${details.length === 1 ? '' : 's'} found: ${listed}${more}.\n\nWhy: ${check.why}\n\nHow: ${check.how}`
+    };
+  }
+
+  private getPagesWithTypes(siteStructure: SiteStructure): Array<{ page: PageCrawlResult; pageType: string }> {
+    return [
+      ...(siteStructure.homepage ? [{ page: siteStructure.homepage, pageType: 'homepage' }] : []),
+      ...(siteStructure.contactPage ? [{ page: siteStructure.contactPage, pageType: 'contact' }] : []),
+      ...siteStructure.servicePages.map(page => ({ page, pageType: 'service' })),
+      ...siteStructure.locationPages.map(page => ({ page, pageType: 'location' })),
+      ...siteStructure.serviceAreaPages.map(page => ({ page, pageType: 'serviceArea' })),
+      ...siteStructure.otherPages.map(page => ({ page, pageType: 'other' }))
+    ];
+  }
+}
+
+interface Finding {
+  details: string[];
+  critical: boolean;
+}
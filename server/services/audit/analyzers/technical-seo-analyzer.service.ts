@@ -260,7 +260,6 @@ export class TechnicalSEOAnalyzer {
       { name: "Browser Caching", desc: "Static resources should have proper caching headers" },
       { name: "SSL Certificate", desc: "Site should have valid SSL certificate" },
       { name: "Security Headers", desc: "Security headers should be properly configured" },
-      { name: "Redirect Chain Optimization", desc: "Minimize redirect chains for better performance" },
       { name: "404 Error Handling", desc: "Custom 404 pages improve user experience" },
       { name: "Form Optimization", desc: "Forms should be optimized for usability and SEO" },
       { name: "Accessibility Features", desc: "Site should be accessible to users with disabilities" }
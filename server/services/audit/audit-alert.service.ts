@@ -0,0 +1,110 @@
+import { AuditComparison, RivalAuditRecord } from '../../../shared/schema';
+import { rivalAuditRepository, isFallbackAudit } from '../../repositories/rival-audit.repository';
+import { auditScheduleRepository } from '../../repositories/audit-schedule.repository';
+import { alertingService, AlertRule } from '../monitoring/alerting.service';
+import { auditComparisonService } from './audit-comparison.service';
+
+export interface AuditRegression {
+  scoreDelta: number | null; // change in the weighted score, negative when it dropped
+  newPriorityOfiCount: number;
+  hasRegressed: boolean;
+}
+
+/**
+ * Decide whether an audit got worse than its baseline: the weighted score
+ * dropped or new Priority OFIs appeared. Falls back to the overall score for
+ * audits without a weighted score.
+ */
+export function detectRegression(comparison: AuditComparison): AuditRegression {
+  const scoreDelta = comparison.scores.weightedOverallScore.delta ?? comparison.scores.overallScore.delta;
+  const newPriorityOfiCount = comparison.newPriorityOfis.length;
+
+  return {
+    scoreDelta,
+    newPriorityOfiCount,
+    hasRegressed: (scoreDelta !== null && scoreDelta < 0) || newPriorityOfiCount > 0
+  };
+}
+
+/**
+ * Service for alerting a project's team when a scheduled audit regresses
+ */
+export class AuditAlertService {
+  /**
+   * Compare a completed scheduled audit with the previous completed audit of
+   * the same schedule and send an alert through the configured alerting
+   * channels if it regressed
+   */
+  async checkScheduledAudit(audit: RivalAuditRecord): Promise<AuditRegression | null> {
+    if (!audit.scheduleId || audit.status !== 'completed' || isFallbackAudit(audit)) {
+      return null;
+    }
+
+    const previous = await rivalAuditRepository.getPreviousScheduledAudit(audit.scheduleId, audit.createdAt);
+    if (!previous) {
+      console.log(`📅 Scheduled audit ${audit.id} has no previous audit to compare with`);
+      return null;
+    }
+
+    const comparison = auditComparisonService.compareAudits(previous, audit);
+    const regression = detectRegression(comparison);
+
+    if (!regression.hasRegressed) {
+      console.log(`📅 Scheduled audit ${audit.id} shows no regressions since audit ${previous.id}`);
+      return regression;
+    }
+
+    const schedule = await auditScheduleRepository.getSchedule(audit.scheduleId);
+    const channels = alertingService.getConfiguredChannels();
+    if (channels.length === 0) {
+      console.warn(`⚠️ Audit ${audit.id} regressed but no alert channels are configured`);
+      return regression;
+    }
+
+    const recipients = schedule?.alertRecipients?.length
+      ? schedule.alertRecipients
+      : [process.env.ALERT_EMAIL || 'admin@example.com'];
+
+    const rule: AlertRule = {
+      id: `audit-schedule-${audit.scheduleId}`,
+      name: 'Scheduled Audit Regression',
+      type: 'custom',
+      condition: {},
+      severity: regression.newPriorityOfiCount > 0 ? 'high' : 'medium',
+      cooldownMinutes: 0,
+      isActive: true,
+      recipients,
+      channels
+    };
+
+    await alertingService.triggerAlert(rule, this.buildMessage(audit, regression), {
+      auditId: audit.id,
+      previousAuditId: previous.id,
+      projectId: audit.projectId,
+      scheduleId: audit.scheduleId,
+      url: audit.url,
+      scoreDelta: regression.scoreDelta,
+      newPriorityOfis: comparison.newPriorityOfis.map(item => ({
+        name: item.name,
+        category: item.category,
+        pageUrl: item.pageUrl
+      }))
+    });
+
+    return regression;
+  }
+
+  private buildMessage(audit: RivalAuditRecord, regression: AuditRegression): string {
+    const changes: string[] = [];
+    if (regression.scoreDelta !== null && regression.scoreDelta < 0) {
+      changes.push(`score dropped by ${Math.abs(regression.scoreDelta)} points`);
+    }
+    if (regression.newPriorityOfiCount > 0) {
+      changes.push(`${regression.newPriorityOfiCount} new Priority OFI${regression.newPriorityOfiCount === 1 ? '' : 's'}`);
+    }
+    return `Scheduled audit of ${audit.url} regressed: ${changes.join(', ')}`;
+  }
+}
+
+// Singleton instance
+export const auditAlertService = new AuditAlertService();
@@ -0,0 +1,224 @@
+import {
+  AuditComparison,
+  AuditItemChange,
+  AuditStatus,
+  RivalAuditRecord,
+  ScoreDelta
+} from '../../../shared/schema';
+
+type ComparableAudit = Pick<RivalAuditRecord, 'id' | 'url' | 'completedAt' | 'results'>;
+
+interface IndexedItem {
+  name: string;
+  category: string;
+  pageUrl?: string;
+  importance?: AuditItemChange['importance'];
+  status: AuditStatus;
+}
+
+// Sections that hold audit items, legacy and enhanced
+const AUDIT_SECTIONS = [
+  'onPage',
+  'structureNavigation',
+  'contactPage',
+  'servicePages',
+  'locationPages',
+  'serviceAreaPages',
+  'contentQuality',
+  'technicalSEO',
+  'localSEO',
+  'uxPerformance'
+];
+
+// Higher rank = healthier status; N/A has no rank
+const STATUS_RANK: Partial<Record<AuditStatus, number>> = {
+  'Priority OFI': 0,
+  'OFI': 1,
+  'OK': 2
+};
+
+/**
+ * Service for comparing two audits of the same site
+ * Matches items by category, name and page URL and reports what changed.
+ */
+export class AuditComparisonService {
+  /**
+   * Compare a baseline audit with a later one
+   */
+  compareAudits(baseline: ComparableAudit, current: ComparableAudit): AuditComparison {
+    const baselineResults = (baseline.results || {}) as any;
+    const currentResults = (current.results || {}) as any;
+
+    const baselineItems = this.indexItems(baselineResults);
+    const currentItems = this.indexItems(currentResults);
+
+    const newPriorityOfis: AuditItemChange[] = [];
+    const resolvedItems: AuditItemChange[] = [];
+    const statusChanges: AuditItemChange[] = [];
+    const addedItems: AuditItemChange[] = [];
+    const removedItems: AuditItemChange[] = [];
+    let unchangedCount = 0;
+
+    currentItems.forEach((item, key) => {
+      const previous = baselineItems.get(key);
+
+      if (!previous) {
+        const change = this.toChange(item, null, item.status);
+        addedItems.push(change);
+        if (item.status === 'Priority OFI') {
+          newPriorityOfis.push(change);
+        }
+        return;
+      }
+
+      if (previous.status === item.status) {
+        unchangedCount++;
+        return;
+      }
+
+      const change = this.toChange(item, previous.status, item.status);
+      statusChanges.push(change);
+
+      if (item.status === 'Priority OFI') {
+        newPriorityOfis.push(change);
+      }
+      if (item.status === 'OK' && (previous.status === 'OFI' || previous.status === 'Priority OFI')) {
+        resolvedItems.push(change);
+      }
+    });
+
+    baselineItems.forEach((item, key) => {
+      if (!currentItems.has(key)) {
+        removedItems.push(this.toChange(item, item.status, null));
+      }
+    });
+
+    const baselineSummary = baselineResults.summary || {};
+    const currentSummary = currentResults.summary || {};
+
+    const categoryNames = new Set([
+      ...Object.keys(baselineSummary.categoryScores || {}),
+      ...Object.keys(currentSummary.categoryScores || {})
+    ]);
+    const categoryScores: Record<string, ScoreDelta> = {};
+    categoryNames.forEach(name => {
+      categoryScores[name] = this.delta(
+        baselineSummary.categoryScores?.[name],
+        currentSummary.categoryScores?.[name]
+      );
+    });
+
+    return {
+      url: current.url,
+      baseline: {
+        auditId: baseline.id,
+        completedAt: baseline.completedAt ? new Date(baseline.completedAt).toISOString() : null
+      },
+      current: {
+        auditId: current.id,
+        completedAt: current.completedAt ? new Date(current.completedAt).toISOString() : null
+      },
+      scores: {
+        overallScore: this.delta(baselineSummary.overallScore, currentSummary.overallScore),
+        weightedOverallScore: this.delta(baselineSummary.weightedOverallScore, currentSummary.weightedOverallScore),
+        categoryScores
+      },
+      counts: {
+        priorityOfiCount: this.delta(baselineSummary.priorityOfiCount, currentSummary.priorityOfiCount),
+        ofiCount: this.delta(baselineSummary.ofiCount, currentSummary.ofiCount),
+        okCount: this.delta(baselineSummary.okCount, currentSummary.okCount),
+        naCount: this.delta(baselineSummary.naCount, currentSummary.naCount)
+      },
+      newPriorityOfis,
+      resolvedItems,
+      statusChanges,
+      addedItems,
+      removedItems,
+      unchangedCount
+    };
+  }
+
+  /**
+   * Index every audit item by category, name and normalized page URL.
+   * Repeated keys within one audit get an occurrence suffix so none are dropped.
+   */
+  private indexItems(results: any): Map<string, IndexedItem> {
+    const items = new Map<string, IndexedItem>();
+
+    AUDIT_SECTIONS.forEach(section => {
+      const sectionItems = results?.[section]?.items;
+      if (!Array.isArray(sectionItems)) return;
+
+      sectionItems.forEach((item: any) => {
+        if (!item || !item.name || !item.status) return;
+
+        const category = item.category || section;
+        const pageUrl = item.pageUrl ? this.normalizePageUrl(item.pageUrl) : '';
+        const baseKey = `${category}|${item.name}|${pageUrl}`;
+
+        let key = baseKey;
+        for (let occurrence = 2; items.has(key); occurrence++) {
+          key = `${baseKey}#${occurrence}`;
+        }
+
+        items.set(key, {
+          name: item.name,
+          category,
+          pageUrl: item.pageUrl || undefined,
+          importance: item.importance,
+          status: item.status
+        });
+      });
+    });
+
+    return items;
+  }
+
+  private normalizePageUrl(pageUrl: string): string {
+    try {
+      const parsed = new URL(pageUrl);
+      const path = parsed.pathname.replace(/\/+$/, '') || '/';
+      return `${parsed.hostname.replace(/^www\./, '').toLowerCase()}${path}${parsed.search}`;
+    } catch {
+      return pageUrl.trim().replace(/\/+$/, '').toLowerCase();
+    }
+  }
+
+  private toChange(item: IndexedItem, previousStatus: AuditStatus | null, currentStatus: AuditStatus | null): AuditItemChange {
+    return {
+      name: item.name,
+      category: item.category,
+      pageUrl: item.pageUrl,
+      importance: item.importance,
+      previousStatus,
+      currentStatus,
+      direction: this.getDirection(previousStatus, currentStatus)
+    };
+  }
+
+  private getDirection(previousStatus: AuditStatus | null, currentStatus: AuditStatus | null): AuditItemChange['direction'] {
+    const previousRank = previousStatus ? STATUS_RANK[previousStatus] : undefined;
+    const currentRank = currentStatus ? STATUS_RANK[currentStatus] : undefined;
+
+    if (previousRank === undefined || currentRank === undefined || previousRank === currentRank) {
+      return 'changed';
+    }
+    return currentRank > previousRank ? 'improved' : 'regressed';
+  }
+
+  private delta(previous: unknown, current: unknown): ScoreDelta {
+    const previousValue = typeof previous === 'number' ? previous : null;
+    const currentValue = typeof current === 'number' ? current : null;
+
+    return {
+      previous: previousValue,
+      current: currentValue,
+      delta: previousValue !== null && currentValue !== null
+        ? Math.round((currentValue - previousValue) * 10) / 10
+        : null
+    };
+  }
+}
+
+// Singleton instance
+export const auditComparisonService = new AuditComparisonService();
@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events';
+
+export type AuditProgressEventType =
+  | 'status'      // snapshot of the audit record when a client connects
+  | 'stage'       // audit stage change with overall percentage
+  | 'discovered'  // URLs found through sitemaps and homepage links
+  | 'page'        // a page was crawled successfully
+  | 'error'       // a page failed to crawl, or the audit attempt failed
+  | 'complete'
+  | 'cancelled';
+
+export interface AuditProgressEvent {
+  id: number; // sequence number within the audit, used as the SSE event id
+  auditId: number;
+  type: AuditProgressEventType;
+  timestamp: string;
+  data: Record<string, any>;
+}
+
+const MAX_HISTORY_EVENTS = 200;
+const HISTORY_RETENTION_MS = 5 * 60 * 1000;
+
+/**
+ * In-process event bus for live audit progress.
+ * The queue worker publishes crawl and analysis events here and the SSE
+ * endpoint relays them to browsers. A short per-audit history lets clients
+ * that connect mid-audit replay the crawl log.
+ */
+export class AuditProgressService extends EventEmitter {
+  private history = new Map<number, AuditProgressEvent[]>();
+  private sequence = new Map<number, number>();
+  private cleanupTimers = new Map<number, NodeJS.Timeout>();
+
+  constructor() {
+    super();
+    // One listener per connected browser
+    this.setMaxListeners(0);
+  }
+
+  /**
+   * Publish an event for an audit
+   */
+  publish(auditId: number, type: AuditProgressEventType, data: Record<string, any> = {}): AuditProgressEvent {
+    const id = (this.sequence.get(auditId) || 0) + 1;
+    this.sequence.set(auditId, id);
+
+    const event: AuditProgressEvent = {
+      id,
+      auditId,
+      type,
+      timestamp: new Date().toISOString(),
+      data
+    };
+
+    const events = this.history.get(auditId) || [];
+    events.push(event);
+    if (events.length > MAX_HISTORY_EVENTS) {
+      events.splice(0, events.length - MAX_HISTORY_EVENTS);
+    }
+    this.history.set(auditId, events);
+
+    // Terminal events: keep the log around briefly for late subscribers
+    if (type === 'complete' || type === 'cancelled') {
+      this.scheduleCleanup(auditId);
+    }
+
+    this.emit(this.channel(auditId), event);
+    return event;
+  }
+
+  /**
+   * Subscribe to an audit's events. Returns an unsubscribe function.
+   */
+  subscribe(auditId: number, listener: (event: AuditProgressEvent) => void): () => void {
+    const channel = this.channel(auditId);
+    this.on(channel, listener);
+    return () => {
+      this.off(channel, listener);
+    };
+  }
+
+  /**
+   * Events published so far for an audit (most recent MAX_HISTORY_EVENTS)
+   */
+  getHistory(auditId: number, afterId: number = 0): AuditProgressEvent[] {
+    return (this.history.get(auditId) || []).filter(event => event.id > afterId);
+  }
+
+  /**
+   * Whether this process is publishing events for an audit
+   */
+  hasEvents(auditId: number): boolean {
+    return this.history.has(auditId);
+  }
+
+  private channel(auditId: number): string {
+    return `audit:${auditId}`;
+  }
+
+  private scheduleCleanup(auditId: number): void {
+    const existing = this.cleanupTimers.get(auditId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const timer = setTimeout(() => {
+      this.history.delete(auditId);
+      this.sequence.delete(auditId);
+      this.cleanupTimers.delete(auditId);
+    }, HISTORY_RETENTION_MS);
+    timer.unref?.();
+
+    this.cleanupTimers.set(auditId, timer);
+  }
+}
+
+// Singleton instance
+export const auditProgressService = new AuditProgressService();
@@ -0,0 +1,551 @@
+import os from 'os';
+import { CrawlJob, EnhancedRivalAudit, RivalAudit } from '../../../shared/schema';
+import { auditJobRepository, AuditJobConfig } from '../../repositories/audit-job.repository';
+import { rivalAuditRepository } from '../../repositories/rival-audit.repository';
+import { customAuditRuleRepository } from '../../repositories/custom-audit-rule.repository';
+import { searchPerformanceService } from '../search-console/search-performance.service';
+import { auditService } from './audit.service';
+import { rivalAuditCrawler } from './rival-audit-crawler.service';
+import { auditProgressService } from './audit-progress.service';
+import { auditAlertService } from './audit-alert.service';
+import { webhookService } from '../webhooks';
+
+export interface AuditQueueConfig {
+  concurrency: number; // audits run at the same time by this worker
+  pollIntervalMs: number;
+  heartbeatIntervalMs: number;
+  staleAfterMs: number; // processing jobs without a heartbeat for this long are orphaned
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+interface RunningAuditJob {
+  auditId: number;
+  controller: AbortController;
+  startedAt: number;
+  stopReason?: 'cancelled' | 'shutdown';
+}
+
+const DEFAULT_CONFIG: AuditQueueConfig = {
+  concurrency: parseInt(process.env.AUDIT_QUEUE_CONCURRENCY || '2', 10),
+  pollIntervalMs: parseInt(process.env.AUDIT_QUEUE_POLL_INTERVAL_MS || '5000', 10),
+  heartbeatIntervalMs: 30 * 1000,
+  staleAfterMs: 2 * 60 * 1000,
+  maxRetries: parseInt(process.env.AUDIT_QUEUE_MAX_RETRIES || '3', 10),
+  retryBaseDelayMs: parseInt(process.env.AUDIT_QUEUE_RETRY_DELAY_MS || '30000', 10),
+  retryMaxDelayMs: 15 * 60 * 1000
+};
+
+/**
+ * Exponential backoff delay before retry number `attempt` (1-based)
+ */
+export function getRetryDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const delay = baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  return Math.min(delay, maxDelayMs);
+}
+
+/**
+ * Database-backed queue for rival audits.
+ * Jobs live in crawl_jobs so they survive restarts; each server process runs a
+ * worker that claims due jobs up to its concurrency limit, keeps them alive with
+ * heartbeats, retries failures with exponential backoff and requeues jobs whose
+ * worker died.
+ */
+export class AuditQueueService {
+  private readonly workerId = `${os.hostname()}-${process.pid}`;
+  private readonly config: AuditQueueConfig;
+  private runningJobs = new Map<string, RunningAuditJob>();
+  private pollInterval: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isPolling = false;
+  private lastRecoveryAt = 0;
+
+  constructor(config: Partial<AuditQueueConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start the worker: recover orphaned jobs, then poll for due jobs
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠️ Audit queue worker is already running');
+      return;
+    }
+
+    console.log(`📋 Starting audit queue worker ${this.workerId} (concurrency ${this.config.concurrency})`);
+    this.isRunning = true;
+
+    // Recovery runs as part of the first poll
+    this.lastRecoveryAt = 0;
+    this.poll();
+
+    this.pollInterval = setInterval(() => {
+      this.poll();
+    }, this.config.pollIntervalMs);
+
+    this.heartbeatInterval = setInterval(() => {
+      this.sendHeartbeat();
+    }, this.config.heartbeatIntervalMs);
+  }
+
+  /**
+   * Stop the worker and hand its in-flight jobs back to the queue
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      console.log('⚠️ Audit queue worker is not running');
+      return;
+    }
+
+    console.log('🛑 Stopping audit queue worker');
+    this.isRunning = false;
+
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    for (const running of this.runningJobs.values()) {
+      running.stopReason = 'shutdown';
+      running.controller.abort(new Error('Audit queue worker shutting down'));
+    }
+
+    try {
+      const releasedJobs = await auditJobRepository.releaseJobs(this.workerId);
+      for (const job of releasedJobs) {
+        const { auditId } = job.config as AuditJobConfig;
+        await rivalAuditRepository.updateAudit(auditId, { status: 'pending' });
+      }
+
+      if (releasedJobs.length > 0) {
+        console.log(`📋 Returned ${releasedJobs.length} in-flight audit job(s) to the queue`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to release audit jobs on shutdown:', error);
+    }
+  }
+
+  /**
+   * Queue an audit and wake the worker
+   */
+  async enqueueAudit(auditId: number, url: string, options: {
+    continueCrawl?: boolean;
+    ignoreRobots?: boolean;
+    userId?: string | null;
+  } = {}): Promise<CrawlJob> {
+    const job = await auditJobRepository.enqueueAudit(
+      {
+        auditId,
+        url,
+        auditType: 'enhanced',
+        continueCrawl: options.continueCrawl || false,
+        ignoreRobots: options.ignoreRobots || false
+      },
+      { userId: options.userId, maxRetries: this.config.maxRetries }
+    );
+
+    this.poll();
+    return job;
+  }
+
+  /**
+   * Cancel an audit. Queued audits are cancelled immediately, running ones
+   * are aborted by the worker holding them.
+   */
+  async cancelAudit(auditId: number): Promise<'cancelled' | 'cancelling' | 'not_running'> {
+    const audit = await rivalAuditRepository.getAudit(auditId);
+    if (!audit || (audit.status !== 'pending' && audit.status !== 'processing')) {
+      return 'not_running';
+    }
+
+    const job = audit.crawlJobId ? await auditJobRepository.requestCancel(audit.crawlJobId) : undefined;
+
+    if (job && job.status === 'processing') {
+      const running = this.runningJobs.get(job.id);
+      if (running) {
+        running.stopReason = 'cancelled';
+        running.controller.abort(new Error('Audit cancelled'));
+      }
+      console.log(`🛑 Cancellation requested for audit ${auditId} (job ${job.id})`);
+      return 'cancelling';
+    }
+
+    await this.markAuditCancelled(auditId);
+    return 'cancelled';
+  }
+
+  /**
+   * Requeue processing jobs whose worker stopped sending heartbeats, and
+   * queue active audits that were never given a job
+   */
+  async recoverOrphanedJobs(): Promise<number> {
+    this.lastRecoveryAt = Date.now();
+    let recovered = 0;
+
+    try {
+      const staleBefore = new Date(Date.now() - this.config.staleAfterMs);
+      const staleJobs = await auditJobRepository.getStaleJobs(staleBefore);
+
+      for (const job of staleJobs) {
+        if (this.runningJobs.has(job.id)) continue;
+
+        console.log(`♻️ Recovering orphaned audit job ${job.id} (last heartbeat: ${job.lockedAt?.toISOString() || 'never'})`);
+        await this.handleJobFailure(job, job.lockedBy, new Error(`Worker ${job.lockedBy || 'unknown'} stopped responding`));
+        recovered++;
+      }
+
+      const unqueuedAudits = await rivalAuditRepository.getActiveAuditsWithoutJob();
+      for (const audit of unqueuedAudits) {
+        console.log(`♻️ Queueing audit ${audit.id} that has no job`);
+        await rivalAuditRepository.updateAudit(audit.id, { status: 'pending' });
+        await auditJobRepository.enqueueAudit(
+          {
+            auditId: audit.id,
+            url: audit.url,
+            auditType: 'enhanced',
+            ignoreRobots: (audit.metadata as any)?.ignoreRobots === true
+          },
+          { userId: audit.userId, maxRetries: this.config.maxRetries }
+        );
+        recovered++;
+      }
+
+      if (recovered > 0) {
+        console.log(`♻️ Recovered ${recovered} orphaned audit(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Error recovering orphaned audit jobs:', error);
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Get worker status
+   */
+  getStatus(): {
+    isRunning: boolean;
+    workerId: string;
+    concurrency: number;
+    runningJobs: Array<{ jobId: string; auditId: number; startedAt: Date }>;
+  } {
+    return {
+      isRunning: this.isRunning,
+      workerId: this.workerId,
+      concurrency: this.config.concurrency,
+      runningJobs: Array.from(this.runningJobs.entries()).map(([jobId, running]) => ({
+        jobId,
+        auditId: running.auditId,
+        startedAt: new Date(running.startedAt)
+      }))
+    };
+  }
+
+  /**
+   * Get queue statistics across all workers
+   */
+  async getQueueStats() {
+    return await auditJobRepository.getQueueStats();
+  }
+
+  /**
+   * Claim due jobs until the concurrency limit is reached
+   */
+  private async poll(): Promise<void> {
+    if (!this.isRunning || this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      if (Date.now() - this.lastRecoveryAt >= this.config.staleAfterMs) {
+        await this.recoverOrphanedJobs();
+      }
+
+      while (this.isRunning && this.runningJobs.size < this.config.concurrency) {
+        const job = await auditJobRepository.claimNextJob(this.workerId);
+        if (!job) break;
+
+        this.processJob(job);
+      }
+    } catch (error) {
+      console.error('❌ Error polling audit queue:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Refresh locks on running jobs and pick up cancellations requested elsewhere
+   */
+  private async sendHeartbeat(): Promise<void> {
+    try {
+      const cancelledJobIds = await auditJobRepository.heartbeat(this.workerId, Array.from(this.runningJobs.keys()));
+
+      for (const jobId of cancelledJobIds) {
+        const running = this.runningJobs.get(jobId);
+        if (running && !running.controller.signal.aborted) {
+          running.stopReason = 'cancelled';
+          running.controller.abort(new Error('Audit cancelled'));
+        }
+      }
+    } catch (error) {
+      console.error('❌ Audit queue heartbeat failed:', error);
+    }
+  }
+
+  /**
+   * Run a claimed job and record its outcome
+   */
+  private async processJob(job: CrawlJob): Promise<void> {
+    const config = job.config as AuditJobConfig;
+    const running: RunningAuditJob = {
+      auditId: config.auditId,
+      controller: new AbortController(),
+      startedAt: Date.now()
+    };
+    this.runningJobs.set(job.id, running);
+
+    try {
+      console.log(`▶️ Worker ${this.workerId} running audit ${config.auditId} (job ${job.id}, attempt ${job.retryAttempts + 1})`);
+      const auditResults = await this.runAudit(job, config, running.controller.signal);
+
+      // Only the worker still holding the job stores its results, so a run whose
+      // job was reclaimed neither overwrites them nor reports the audit twice
+      const completedJob = await auditJobRepository.completeJob(job.id, this.workerId, Date.now() - running.startedAt);
+      if (completedJob) {
+        await this.completeAudit(job, config, auditResults);
+      } else {
+        console.warn(`⚠️ Audit job ${job.id} was reclaimed by another worker before it completed here; discarding its results`);
+      }
+    } catch (error) {
+      try {
+        if (running.stopReason === 'shutdown') {
+          // stop() already handed the job back to the queue
+        } else if (running.stopReason === 'cancelled') {
+          await auditJobRepository.cancelJob(job.id);
+          await this.markAuditCancelled(config.auditId);
+          console.log(`🛑 Cancelled audit ${config.auditId} (job ${job.id})`);
+        } else {
+          await this.handleJobFailure(job, this.workerId, error);
+        }
+      } catch (dbError) {
+        console.error(`CRITICAL: Could not record outcome of audit job ${job.id}:`, dbError);
+      }
+    } finally {
+      this.runningJobs.delete(job.id);
+      this.poll();
+    }
+  }
+
+  /**
+   * Crawl and analyze the audited site
+   */
+  private async runAudit(job: CrawlJob, config: AuditJobConfig, signal: AbortSignal): Promise<RivalAudit | EnhancedRivalAudit> {
+    const { auditId, url } = config;
+
+    const auditRecord = await rivalAuditRepository.getAudit(auditId);
+    if (!auditRecord) {
+      throw new Error(`Audit ${auditId} no longer exists`);
+    }
+
+    // Update status to 'processing' to indicate crawl has actually started
+    const processingAudit = await rivalAuditRepository.updateAudit(auditId, { status: 'processing' });
+    // Queued audits may have waited; keep this one from expiring mid-run
+    await rivalAuditRepository.extendAuditExpiration(auditId);
+    console.log(`Updated audit ${auditId} status to 'processing'`);
+
+    // Retries and continued crawls belong to an audit that already started
+    if (job.retryAttempts === 0 && !config.continueCrawl) {
+      await webhookService.dispatchAuditEvent('audit.started', processingAudit);
+    }
+
+    let auditResults;
+
+    if (config.continueCrawl) {
+      console.log(`Continuing rival audit for ${url} with ID ${auditId}`);
+      auditProgressService.publish(auditId, 'stage', { stage: 'Continuing crawl', progress: 10 });
+      // Continue crawling from where it left off
+      auditResults = await rivalAuditCrawler.continueCrawl(url);
+      signal.throwIfAborted();
+    } else {
+      console.log(`Starting enhanced rival audit for ${url} with ID ${auditId}`);
+      // The owner's account-wide rules plus those of the audited project
+      const customRules = await customAuditRuleRepository.getRulesForAudit(auditRecord.userId, auditRecord.projectId);
+      // Search Console performance imported for the audited project
+      const searchPerformance = auditRecord.projectId
+        ? await searchPerformanceService.getPagePerformance(auditRecord.projectId)
+        : null;
+      // Use the enhanced audit service with progress tracking
+      auditResults = await auditService.crawlAndAuditEnhanced(url, async (stage: string, progress: number) => {
+        console.log(`Audit ${auditId} progress: ${stage} (${progress}%)`);
+        auditProgressService.publish(auditId, 'stage', { stage, progress });
+        // Update database with progress
+        try {
+          await rivalAuditRepository.updateAudit(auditId, {
+            metadata: {
+              ...(auditRecord.metadata as object || {}),
+              auditType: 'enhanced',
+              jobId: job.id,
+              currentStage: stage,
+              progress: progress
+            }
+          });
+        } catch (progressError) {
+          console.warn(`Failed to update progress for audit ${auditId}:`, progressError);
+        }
+      }, {
+        signal,
+        ignoreRobots: config.ignoreRobots,
+        onCrawlProgress: ({ type, ...data }) => auditProgressService.publish(auditId, type, data),
+        customRules,
+        searchPerformance
+      });
+    }
+
+    return auditResults;
+  }
+
+  /**
+   * Store a completed job's results on the audit record, then report them
+   */
+  private async completeAudit(job: CrawlJob, config: AuditJobConfig, auditResults: RivalAudit | EnhancedRivalAudit): Promise<void> {
+    const { auditId, url } = config;
+
+    // Store the results in database - ensure enhanced categories are preserved
+    const resultsToStore = {
+      ...auditResults,
+      type: 'enhanced',
+      summary: {
+        ...auditResults.summary,
+        total: (auditResults.summary as any).totalFactors || 0
+      },
+      // Explicitly include enhanced categories to ensure they're preserved
+      contentQuality: (auditResults as any).contentQuality,
+      technicalSEO: (auditResults as any).technicalSEO,
+      localSEO: (auditResults as any).localSEO,
+      uxPerformance: (auditResults as any).uxPerformance
+    };
+
+    console.log(`[AuditQueue] Storing enhanced audit results with categories:`, {
+      contentQuality: resultsToStore.contentQuality?.items?.length || 0,
+      technicalSEO: resultsToStore.technicalSEO?.items?.length || 0,
+      localSEO: resultsToStore.localSEO?.items?.length || 0,
+      uxPerformance: resultsToStore.uxPerformance?.items?.length || 0
+    });
+
+    let completedAudit;
+    try {
+      completedAudit = await rivalAuditRepository.completeAudit(
+        auditId,
+        resultsToStore,
+        auditResults.summary,
+        ('total' in auditResults.summary ? (auditResults.summary as any).total : ('totalFactors' in auditResults.summary ? (auditResults.summary as any).totalFactors : 0)) || 0,
+        auditResults.reachedMaxPages || false
+      );
+    } catch (error) {
+      // The job is already completed and will not be retried, so the audit fails here
+      const errorMessage = `Could not store the audit results: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(`Error storing results of audit ${auditId}:`, error);
+      const failedAudit = await rivalAuditRepository.failAudit(auditId, errorMessage);
+      auditProgressService.publish(auditId, 'error', { message: errorMessage, willRetry: false });
+      await webhookService.dispatchAuditEvent('audit.failed', failedAudit, { attempts: job.retryAttempts + 1 });
+      return;
+    }
+
+    auditProgressService.publish(auditId, 'complete', {
+      pagesAnalyzed: completedAudit.pagesAnalyzed,
+      reachedMaxPages: completedAudit.reachedMaxPages,
+      summary: auditResults.summary
+    });
+
+    console.log(`Completed enhanced rival audit for ${url} with ID ${auditId} - analyzed ${(auditResults.summary as any).totalFactors} factors`);
+
+    await webhookService.dispatchAuditEvent('audit.completed', completedAudit);
+
+    // Scheduled audits alert the project team on regressions; the audit itself already succeeded
+    if (completedAudit.scheduleId) {
+      try {
+        await auditAlertService.checkScheduledAudit(completedAudit);
+      } catch (alertError) {
+        console.error(`❌ Failed to check audit ${auditId} for regressions:`, alertError);
+      }
+    }
+  }
+
+  /**
+   * Retry a failed job with backoff, or fail it for good once retries are exhausted.
+   * `owner` is the worker holding the job; when it no longer does, the job was
+   * reclaimed and its new owner decides what happens to the audit.
+   */
+  private async handleJobFailure(job: CrawlJob, owner: string | null, error: unknown): Promise<void> {
+    const config = job.config as AuditJobConfig;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (job.retryAttempts < job.maxRetries) {
+      const attempt = job.retryAttempts + 1;
+      const delay = getRetryDelay(attempt, this.config.retryBaseDelayMs, this.config.retryMaxDelayMs);
+
+      const retriedJob = await auditJobRepository.retryJob(job.id, owner, errorMessage, new Date(Date.now() + delay));
+      if (!retriedJob) {
+        console.warn(`⚠️ Audit job ${job.id} was reclaimed by another worker; not retrying it here`);
+        return;
+      }
+
+      const audit = await rivalAuditRepository.getAudit(config.auditId);
+      await rivalAuditRepository.updateAudit(config.auditId, {
+        status: 'pending',
+        metadata: {
+          ...(audit?.metadata as object || {}),
+          auditType: 'enhanced',
+          jobId: job.id,
+          currentStage: `Retrying after error (attempt ${attempt + 1} of ${job.maxRetries + 1})`,
+          progress: 0
+        }
+      });
+
+      auditProgressService.publish(config.auditId, 'error', {
+        message: errorMessage,
+        willRetry: true,
+        retryInMs: delay,
+        attempt: attempt + 1,
+        maxAttempts: job.maxRetries + 1
+      });
+      console.warn(`⚠️ Audit ${config.auditId} failed (${errorMessage}), retrying in ${Math.round(delay / 1000)}s`);
+      return;
+    }
+
+    const failedJob = await auditJobRepository.failJob(job.id, owner, errorMessage);
+    if (!failedJob) {
+      console.warn(`⚠️ Audit job ${job.id} was reclaimed by another worker; not failing it here`);
+      return;
+    }
+
+    console.error(`Error performing enhanced rival audit ${config.auditId} after ${job.retryAttempts + 1} attempt(s):`, error);
+    const failedAudit = await rivalAuditRepository.failAudit(config.auditId, errorMessage);
+    console.log(`Updated audit ${config.auditId} status to 'failed'`);
+    auditProgressService.publish(config.auditId, 'error', { message: errorMessage, willRetry: false });
+
+    await webhookService.dispatchAuditEvent('audit.failed', failedAudit, { attempts: job.retryAttempts + 1 });
+  }
+
+  /**
+   * Mark an audit record as cancelled
+   */
+  private async markAuditCancelled(auditId: number): Promise<void> {
+    await rivalAuditRepository.updateAudit(auditId, {
+      status: 'cancelled',
+      errorMessage: 'Audit cancelled by user',
+      completedAt: new Date()
+    });
+    auditProgressService.publish(auditId, 'cancelled', { message: 'Audit cancelled by user' });
+  }
+}
+
+// Singleton instance
+export const auditQueueService = new AuditQueueService();
@@ -0,0 +1,170 @@
+import {
+  AuditScheduleFrequency,
+  InsertProjectAuditSchedule,
+  ProjectAuditSchedule,
+  RivalAuditRecord
+} from '../../../shared/schema';
+import { auditScheduleRepository } from '../../repositories/audit-schedule.repository';
+import { rivalAuditRepository } from '../../repositories/rival-audit.repository';
+import { projectRepository } from '../../repositories/project.repository';
+import { auditQueueService } from './audit-queue.service';
+
+const CHECK_INTERVAL_MS = parseInt(process.env.AUDIT_SCHEDULE_CHECK_INTERVAL_MS || String(5 * 60 * 1000), 10);
+
+/**
+ * Date of the run after `from` for a schedule frequency
+ */
+export function getNextRunDate(frequency: AuditScheduleFrequency, from: Date): Date {
+  const next = new Date(from);
+  if (frequency === 'monthly') {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  } else {
+    next.setUTCDate(next.getUTCDate() + 7);
+  }
+  return next;
+}
+
+/**
+ * Service that starts recurring enhanced audits for projects.
+ * Due schedules are picked up on an interval and their audits handed to the
+ * audit job queue; regression alerts are sent once those audits complete.
+ */
+export class AuditScheduleService {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isChecking = false;
+
+  /**
+   * Start checking for due schedules
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠️ Audit schedule service is already running');
+      return;
+    }
+
+    console.log(`📅 Starting audit schedule service (checks every ${Math.round(CHECK_INTERVAL_MS / 60000)} minutes)`);
+    this.isRunning = true;
+
+    this.runDueSchedules();
+
+    this.checkInterval = setInterval(() => {
+      this.runDueSchedules();
+    }, CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop checking for due schedules
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      console.log('⚠️ Audit schedule service is not running');
+      return;
+    }
+
+    console.log('🛑 Stopping audit schedule service');
+    this.isRunning = false;
+
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Create a schedule. The first audit runs on the next check so later
+   * audits have a baseline to compare with.
+   */
+  async createSchedule(data: InsertProjectAuditSchedule, userId: string | null): Promise<ProjectAuditSchedule> {
+    return await auditScheduleRepository.createSchedule({ ...data, createdBy: userId }, new Date());
+  }
+
+  /**
+   * Start audits for every schedule that is due
+   */
+  async runDueSchedules(): Promise<number> {
+    if (this.isChecking) return 0;
+    this.isChecking = true;
+
+    let started = 0;
+
+    try {
+      const now = new Date();
+      const dueSchedules = await auditScheduleRepository.getDueSchedules(now);
+
+      for (const schedule of dueSchedules) {
+        // Skip runs missed while the server was down instead of replaying them
+        let nextRunAt = getNextRunDate(schedule.frequency as AuditScheduleFrequency, schedule.nextRunAt);
+        while (nextRunAt <= now) {
+          nextRunAt = getNextRunDate(schedule.frequency as AuditScheduleFrequency, nextRunAt);
+        }
+
+        const claimed = await auditScheduleRepository.claimRun(schedule, nextRunAt);
+        if (!claimed) continue; // another server started this run
+
+        try {
+          await this.startScheduledAudit(schedule);
+          started++;
+        } catch (error) {
+          console.error(`❌ Failed to start scheduled audit for schedule ${schedule.id}:`, error);
+        }
+      }
+
+      if (started > 0) {
+        console.log(`📅 Started ${started} scheduled audit(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Error checking audit schedules:', error);
+    } finally {
+      this.isChecking = false;
+    }
+
+    return started;
+  }
+
+  /**
+   * Create and queue an audit for a schedule right away
+   */
+  async startScheduledAudit(schedule: ProjectAuditSchedule): Promise<RivalAuditRecord> {
+    // Audits of workspace projects are shared with the workspace
+    const project = await projectRepository.findById(schedule.projectId);
+    const audit = await rivalAuditRepository.createAudit({
+      url: schedule.url,
+      status: 'pending',
+      userId: schedule.createdBy,
+      workspaceId: project?.workspaceId ?? null,
+      projectId: schedule.projectId,
+      scheduleId: schedule.id,
+      metadata: {
+        auditType: 'enhanced',
+        scheduled: true,
+        frequency: schedule.frequency,
+        ignoreRobots: schedule.ignoreRobots
+      }
+    });
+
+    await auditQueueService.enqueueAudit(audit.id, schedule.url, {
+      continueCrawl: false,
+      ignoreRobots: schedule.ignoreRobots,
+      userId: schedule.createdBy
+    });
+
+    await auditScheduleRepository.updateSchedule(schedule.id, { lastAuditId: audit.id });
+
+    console.log(`📅 Queued scheduled audit ${audit.id} for ${schedule.url} (schedule ${schedule.id})`);
+    return audit;
+  }
+
+  /**
+   * Get schedule service status
+   */
+  getStatus(): { isRunning: boolean; checkIntervalMinutes: number } {
+    return {
+      isRunning: this.isRunning,
+      checkIntervalMinutes: Math.round(CHECK_INTERVAL_MS / 60000)
+    };
+  }
+}
+
+// Singleton instance
+export const auditScheduleService = new AuditScheduleService();
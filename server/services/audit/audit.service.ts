@@ -1,14 +1,24 @@
-import { RivalAudit, EnhancedRivalAudit } from '../../../shared/schema';
+import { RivalAudit, EnhancedRivalAudit, CustomAuditRule } from '../../../shared/schema';
 import { crawler } from './crawler.service';
 import { AuditAnalyzerService } from './analyzer.service';
 import { PageClassificationService } from './page-classification.service';
 import { EnhancedAuditAnalyzer } from './enhanced-analyzer.service';
-import { SiteStructure, PageCrawlResult } from '../../types/crawler';
+import { SiteStructure, PageCrawlResult, RedirectChain, LinkGraph } from '../../types/crawler';
 import { CrawlerOrchestratorService } from './crawling/crawler-orchestrator.service';
+import { CrawlProgressEvent } from './crawling/crawl-session';
+import type { PagePerformanceIndex } from '../search-console/search-performance.service';
 
 // Re-export for backward compatibility
 export type { SiteStructure, PageCrawlResult } from '../../types/crawler';
 
+export interface AuditRunOptions {
+  signal?: AbortSignal; // cancels the audit between crawl batches and analysis stages
+  ignoreRobots?: boolean; // crawl pages robots.txt disallows; only when the site owner authorized the audit
+  onCrawlProgress?: (event: CrawlProgressEvent) => void; // pages crawled, discovered and failed
+  customRules?: CustomAuditRule[]; // agency rules evaluated alongside the built-in factors
+  searchPerformance?: PagePerformanceIndex | null; // the project's Search Console performance by page
+}
+
 /**
  * Main Audit Service that orchestrates the rival audit process
  */
@@ -30,17 +40,23 @@ export class AuditService {
   /**
    * Crawl a website and perform a rival audit
    */
-  async crawlAndAudit(url: string, progressCallback?: (stage: string, progress: number) => void): Promise<RivalAudit> {
+  async crawlAndAudit(
+    url: string,
+    progressCallback?: (stage: string, progress: number) => void,
+    options: AuditRunOptions = {}
+  ): Promise<RivalAudit> {
     try {
       console.log(`Starting rival audit for: ${url}`);
       progressCallback?.('Initializing crawl', 0);
       
-      // Reset state for new audit
-      this.crawler.reset();
-      
       // Step 1: Crawl the website
       progressCallback?.('Crawling website', 20);
-      const crawlResult = await this.crawler.crawlWebsite(url);
+      const crawlResult = await this.crawler.crawlWebsite(url, {
+        signal: options.signal,
+        ignoreRobots: options.ignoreRobots,
+        onProgress: options.onCrawlProgress
+      });
+      options.signal?.throwIfAborted();
       
       // Step 2: Transform crawler output to the expected format
       progressCallback?.('Processing crawl data', 50);
@@ -67,17 +83,23 @@ export class AuditService {
   /**
    * Crawl a website and perform enhanced 140+ factor audit
    */
-  async crawlAndAuditEnhanced(url: string, progressCallback?: (stage: string, progress: number) => void): Promise<EnhancedRivalAudit> {
+  async crawlAndAuditEnhanced(
+    url: string,
+    progressCallback?: (stage: string, progress: number) => void,
+    options: AuditRunOptions = {}
+  ): Promise<EnhancedRivalAudit> {
     try {
       console.log(`Starting enhanced rival audit (140+ factors) for: ${url}`);
       progressCallback?.('Initializing crawl', 0);
       
-      // Reset state for new audit
-      this.crawler.reset();
-      
       // Step 1: Crawl the website
       progressCallback?.('Crawling website', 10);
-      const crawlResult = await this.crawler.crawlWebsite(url);
+      const crawlResult = await this.crawler.crawlWebsite(url, {
+        signal: options.signal,
+        ignoreRobots: options.ignoreRobots,
+        onProgress: options.onCrawlProgress
+      });
+      options.signal?.throwIfAborted();
       
       // Step 2: Transform crawler output to the expected format
       progressCallback?.('Processing crawl data', 30);
@@ -88,10 +110,15 @@ export class AuditService {
       const classifiedStructure = await this.classifier.classifyPages(siteStructure);
       console.log(`[AuditService] Classified site structure - Homepage: ${!!classifiedStructure.homepage}, Contact: ${!!classifiedStructure.contactPage}, Service pages: ${classifiedStructure.servicePages.length}, Location pages: ${classifiedStructure.locationPages.length}, Service area pages: ${classifiedStructure.serviceAreaPages.length}`);
       
+      options.signal?.throwIfAborted();
+
       // Step 3: Generate enhanced audit with 140+ factors
       progressCallback?.('Analyzing SEO factors', 50);
       console.log(`[AuditService] Starting enhanced analysis with classified structure`);
-      const enhancedAudit = await this.enhancedAnalyzer.analyzeWebsite(classifiedStructure);
+      const enhancedAudit = await this.enhancedAnalyzer.analyzeWebsite(classifiedStructure, {
+        customRules: options.customRules,
+        searchPerformance: options.searchPerformance
+      });
       progressCallback?.('Finalizing results', 90);
       console.log(`[AuditService] Enhanced analysis completed - Total factors: ${enhancedAudit.summary.totalFactors}`);
       console.log(`[AuditService] Enhanced categories populated: Content Quality (${enhancedAudit.contentQuality?.items.length || 0}), Technical SEO (${enhancedAudit.technicalSEO?.items.length || 0}), Local SEO (${enhancedAudit.localSEO?.items.length || 0}), UX Performance (${enhancedAudit.uxPerformance?.items.length || 0})`);
@@ -107,7 +134,7 @@ export class AuditService {
           analysisVersion: "2.0",
           factorCount: enhancedAudit.summary.totalFactors,
           analysisTime: Date.now(),
-          crawlerStats: this.getCrawlerStats()
+          crawlerStats: crawlResult.stats || this.getCrawlerStats()
         }
       };
       
@@ -151,6 +178,8 @@ export class AuditService {
     homepage: any;
     additionalPages: any[];
     siteStructure: any;
+    linkTargets?: Record<string, RedirectChain>;
+    linkGraph?: LinkGraph;
     stats: any;
   }): SiteStructure {
     // Transform homepage if it exists
@@ -174,15 +203,17 @@ export class AuditService {
       serviceAreaPages: [],
       otherPages: additionalPages,
       hasSitemapXml: crawlResult.siteStructure?.hasSitemapXml || false,
-      reachedMaxPages: crawlResult.siteStructure?.reachedMaxPages || false
+      reachedMaxPages: crawlResult.siteStructure?.reachedMaxPages || false,
+      linkTargets: crawlResult.linkTargets || {},
+      linkGraph: crawlResult.linkGraph
     };
   }
 
   /**
-   * Get crawler statistics
+   * Get crawler statistics for the most recently started crawl session
    */
   getCrawlerStats() {
-    return (this.crawler as any).getCrawlStats?.() || { pagesCrawled: 0, pagesSkipped: 0, errorsEncountered: 0, crawlTime: 0 };
+    return this.crawler.getCrawlStats() || { pagesCrawled: 0, pagesSkipped: 0, errorsEncountered: 0, crawlTime: 0 };
   }
 }
 
@@ -0,0 +1,403 @@
+import {
+  AuditStatus,
+  CompetitorComparison,
+  CompetitorComparisonDetail,
+  CompetitorContentDepthRow,
+  CompetitorGapFactor,
+  CompetitorGapReport,
+  CompetitorScorecardRow,
+  ContentDepthPage,
+  CreateCompetitorComparison,
+  RivalAuditRecord,
+  SeoImportance
+} from '../../../shared/schema';
+import { rivalAuditRepository, isFallbackAudit } from '../../repositories/rival-audit.repository';
+import { competitorComparisonRepository } from '../../repositories/competitor-comparison.repository';
+import { auditQueueService } from './audit-queue.service';
+import { ValidationError } from '../../utils/errors';
+
+type ComparableAudit = Pick<RivalAuditRecord, 'pagesAnalyzed' | 'results'>;
+
+// Enhanced audit sections the factors are aligned by, labelled like the audit's category scores
+export const GAP_CATEGORIES = [
+  { section: 'contentQuality', label: 'Content Quality' },
+  { section: 'technicalSEO', label: 'Technical SEO' },
+  { section: 'localSEO', label: 'Local SEO & E-E-A-T' },
+  { section: 'uxPerformance', label: 'UX & Performance' }
+];
+
+// Higher rank = healthier status; N/A has no rank
+const STATUS_RANK: Partial<Record<AuditStatus, number>> = {
+  'Priority OFI': 0,
+  'OFI': 1,
+  'OK': 2
+};
+
+const IMPORTANCE_RANK: Record<SeoImportance, number> = { High: 0, Medium: 1, Low: 2 };
+
+const FINISHED_AUDIT_STATUSES = ['completed', 'failed', 'cancelled'];
+
+// Minimum share of topic words two pages must have in common to be compared
+const MIN_TOPIC_SIMILARITY = 0.5;
+
+// A page with less than this share of the deepest competitor page's words counts as thin
+const THIN_CONTENT_RATIO = 0.8;
+
+// Words that say nothing about what a service or location page is about
+const TOPIC_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'in', 'for', 'to', 'our', 'your', 'near', 'me',
+  'service', 'services', 'company', 'companies', 'best', 'local', 'page', 'html', 'htm', 'php', 'aspx'
+]);
+
+interface FactorSummary {
+  category: string;
+  name: string;
+  importance?: SeoImportance;
+  status: AuditStatus | null;
+  passed: number;
+  assessed: number;
+}
+
+function getComparableHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+function normalizeSiteUrl(url: string): string {
+  const withProtocol = /^https?:\/\//i.test(url) ? url : `https://${url}`;
+  try {
+    return new URL(withProtocol).toString();
+  } catch {
+    throw new ValidationError(`Not a valid site URL: ${url}`);
+  }
+}
+
+/**
+ * Each factor of an audit with its worst status over the pages it was checked on
+ * and the share of those pages that pass, keyed by category and name
+ */
+function summarizeFactors(results: any): Map<string, FactorSummary> {
+  const factors = new Map<string, FactorSummary>();
+
+  GAP_CATEGORIES.forEach(({ section, label }) => {
+    const items = results?.[section]?.items;
+    if (!Array.isArray(items)) return;
+
+    items.forEach((item: any) => {
+      if (!item?.name || !item.status) return;
+
+      const key = `${label}|${item.name}`;
+      let factor = factors.get(key);
+      if (!factor) {
+        factor = { category: label, name: item.name, importance: item.importance, status: null, passed: 0, assessed: 0 };
+        factors.set(key, factor);
+      }
+
+      if (item.importance && (!factor.importance || IMPORTANCE_RANK[item.importance as SeoImportance] < IMPORTANCE_RANK[factor.importance])) {
+        factor.importance = item.importance;
+      }
+
+      const rank = STATUS_RANK[item.status as AuditStatus];
+      if (rank === undefined) {
+        factor.status = factor.status || 'N/A';
+        return;
+      }
+
+      factor.assessed++;
+      if (item.status === 'OK') factor.passed++;
+      const currentRank = factor.status ? STATUS_RANK[factor.status] : undefined;
+      if (currentRank === undefined || rank < currentRank) {
+        factor.status = item.status;
+      }
+    });
+  });
+
+  return factors;
+}
+
+/**
+ * Words of a page's URL slug, or of its H1 or title when the slug has none,
+ * that say what the page is about
+ */
+export function topicTokens(page: Pick<ContentDepthPage, 'pageUrl' | 'pageTitle' | 'h1'>): string[] {
+  const tokenize = (text: string) => text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !TOPIC_STOP_WORDS.has(token));
+
+  let slug = '';
+  try {
+    const segments = new URL(page.pageUrl).pathname.split('/').filter(Boolean);
+    slug = decodeURIComponent(segments[segments.length - 1] || '');
+  } catch {
+    slug = '';
+  }
+
+  const slugTokens = tokenize(slug);
+  return slugTokens.length > 0 ? slugTokens : tokenize(page.h1 || page.pageTitle);
+}
+
+function topicSimilarity(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = Array.from(setA).filter(token => setB.has(token)).length;
+  const total = new Set([...a, ...b]).size;
+  return total === 0 ? 0 : shared / total;
+}
+
+/**
+ * Pair up the service and location pages of the sites by topic. The first
+ * site is the client's; each row holds at most one page per site.
+ */
+export function matchContentDepth(sitePages: ContentDepthPage[][]): CompetitorContentDepthRow[] {
+  const rows: Array<{ pageType: CompetitorContentDepthRow['pageType']; tokens: string[]; pages: Array<ContentDepthPage | null> }> = [];
+
+  sitePages.forEach((pages, siteIndex) => {
+    pages.forEach(page => {
+      // Service area pages are location pages under another name
+      const pageType = page.pageType === 'service' ? 'service' : 'location';
+      const tokens = topicTokens(page);
+      if (tokens.length === 0) return;
+
+      let bestRow: typeof rows[number] | undefined;
+      let bestSimilarity = MIN_TOPIC_SIMILARITY;
+      rows.forEach(row => {
+        if (row.pageType !== pageType || row.pages[siteIndex]) return;
+        const similarity = topicSimilarity(row.tokens, tokens);
+        if (similarity >= bestSimilarity && (!bestRow || similarity > bestSimilarity)) {
+          bestRow = row;
+          bestSimilarity = similarity;
+        }
+      });
+
+      if (bestRow) {
+        bestRow.pages[siteIndex] = page;
+      } else {
+        rows.push({ pageType, tokens, pages: sitePages.map((_, index) => index === siteIndex ? page : null) });
+      }
+    });
+  });
+
+  return rows
+    .map(row => {
+      const ourPage = row.pages[0];
+      const competitorWordCounts = row.pages.slice(1).filter((page): page is ContentDepthPage => !!page).map(page => page.wordCount);
+      const deepest = competitorWordCounts.length > 0 ? Math.max(...competitorWordCounts) : null;
+
+      return {
+        pageType: row.pageType,
+        topic: row.tokens.join(' '),
+        pages: row.pages,
+        wordCountGap: ourPage && deepest !== null ? deepest - ourPage.wordCount : null,
+        behind: deepest !== null && (!ourPage || ourPage.wordCount < deepest * THIN_CONTENT_RATIO)
+      };
+    })
+    .sort((a, b) => {
+      if (a.pageType !== b.pageType) return a.pageType === 'service' ? -1 : 1;
+      if (a.behind !== b.behind) return a.behind ? -1 : 1;
+      return (b.wordCountGap ?? 0) - (a.wordCountGap ?? 0) || a.topic.localeCompare(b.topic);
+    });
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+/**
+ * Compare the client's audit (first) with the competitors' audits. Audits that
+ * did not complete are given as null and leave their column empty.
+ */
+export function buildCompetitorGapReport(audits: Array<ComparableAudit | null>): CompetitorGapReport {
+  const results = audits.map(audit => (audit?.results || null) as any);
+  const factorsBySite = results.map(result => result ? summarizeFactors(result) : new Map<string, FactorSummary>());
+  const contentDepthBySite: ContentDepthPage[][] = results.map(result => Array.isArray(result?.contentDepth) ? result.contentDepth : []);
+
+  // Factors aligned by category and name over all sites
+  const keys = new Set<string>();
+  factorsBySite.forEach(factors => factors.forEach((_, key) => keys.add(key)));
+
+  const factors: CompetitorGapFactor[] = Array.from(keys).map(key => {
+    const summaries = factorsBySite.map(siteFactors => siteFactors.get(key));
+    const first = summaries.find(Boolean)!;
+    const statuses = summaries.map(summary => summary?.status ?? null);
+    const ourStatus = statuses[0];
+
+    return {
+      category: first.category,
+      name: first.name,
+      importance: summaries.map(summary => summary?.importance).filter(Boolean)
+        .sort((a, b) => IMPORTANCE_RANK[a!] - IMPORTANCE_RANK[b!])[0],
+      statuses,
+      passRates: summaries.map(summary => summary && summary.assessed > 0 ? Math.round((summary.passed / summary.assessed) * 100) : null),
+      gap: (ourStatus === 'OFI' || ourStatus === 'Priority OFI') && statuses.slice(1).includes('OK')
+    };
+  });
+
+  const categoryOrder = GAP_CATEGORIES.map(category => category.label);
+  factors.sort((a, b) =>
+    categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category) ||
+    Number(b.gap) - Number(a.gap) ||
+    (STATUS_RANK[a.statuses[0] as AuditStatus] ?? 3) - (STATUS_RANK[b.statuses[0] as AuditStatus] ?? 3) ||
+    a.name.localeCompare(b.name)
+  );
+
+  const summaryValue = (read: (summary: any) => unknown) => results.map(result => {
+    const value = result ? read(result.summary || {}) : undefined;
+    return typeof value === 'number' ? Math.round(value) : null;
+  });
+  const pagesOf = (pageTypes: ContentDepthPage['pageType'][]) =>
+    contentDepthBySite.map(pages => pages.filter(page => pageTypes.includes(page.pageType)));
+
+  const servicePages = pagesOf(['service']);
+  const locationPages = pagesOf(['location', 'serviceArea']);
+
+  const scorecard: CompetitorScorecardRow[] = [
+    { metric: 'Overall score', values: summaryValue(summary => summary.overallScore), higherIsBetter: true },
+    { metric: 'Weighted overall score', values: summaryValue(summary => summary.weightedOverallScore), higherIsBetter: true },
+    ...GAP_CATEGORIES.map(({ label }) => ({
+      metric: label,
+      values: summaryValue(summary => summary.categoryScores?.[label]),
+      higherIsBetter: true
+    })),
+    { metric: 'Priority OFIs', values: summaryValue(summary => summary.priorityOfiCount), higherIsBetter: false },
+    { metric: 'OFIs', values: summaryValue(summary => summary.ofiCount), higherIsBetter: false },
+    { metric: 'Pages analyzed', values: audits.map(audit => audit ? audit.pagesAnalyzed : null), higherIsBetter: true },
+    { metric: 'Service pages', values: servicePages.map((pages, index) => audits[index] ? pages.length : null), higherIsBetter: true },
+    { metric: 'Location pages', values: locationPages.map((pages, index) => audits[index] ? pages.length : null), higherIsBetter: true },
+    { metric: 'Average service page words', values: servicePages.map(pages => average(pages.map(page => page.wordCount))), higherIsBetter: true },
+    { metric: 'Average location page words', values: locationPages.map(pages => average(pages.map(page => page.wordCount))), higherIsBetter: true }
+  ];
+
+  return {
+    scorecard,
+    factors,
+    contentDepth: matchContentDepth(contentDepthBySite)
+  };
+}
+
+/**
+ * Service for head-to-head audits of a client's site against named competitors
+ * Runs the enhanced audit on every site and compares the results once all have finished.
+ */
+export class CompetitorGapService {
+  /**
+   * Start an enhanced audit of the site and of each competitor
+   */
+  async createComparison(userId: string, input: CreateCompetitorComparison): Promise<CompetitorComparison> {
+    const urls = [input.url, ...input.competitorUrls].map(normalizeSiteUrl);
+    const hosts = urls.map(getComparableHost);
+    if (new Set(hosts).size !== hosts.length) {
+      throw new ValidationError('Each site can only be compared once');
+    }
+
+    // The audits are kept without an expiration for as long as the comparison exists
+    const audits: RivalAuditRecord[] = [];
+    try {
+      for (const [index, url] of urls.entries()) {
+        audits.push(await rivalAuditRepository.createAudit({
+          url,
+          status: 'pending',
+          userId,
+          expiresAt: null,
+          metadata: { auditType: 'enhanced', ignoreRobots: index === 0 && input.ignoreRobots, competitorComparison: true }
+        }));
+      }
+    } catch (error) {
+      // Audits created so far would otherwise be picked up and run as orphans
+      await Promise.all(audits.map(audit => rivalAuditRepository.failAudit(audit.id, 'Competitor comparison could not be started')));
+      await rivalAuditRepository.expireAudits(audits.map(audit => audit.id));
+      throw error;
+    }
+
+    const comparison = await competitorComparisonRepository.createComparison({
+      userId,
+      projectId: input.projectId ?? null,
+      name: input.name || null,
+      siteAuditId: audits[0].id,
+      competitorAuditIds: audits.slice(1).map(audit => audit.id)
+    });
+
+    for (const [index, audit] of audits.entries()) {
+      await auditQueueService.enqueueAudit(audit.id, audit.url, {
+        continueCrawl: false,
+        ignoreRobots: index === 0 && input.ignoreRobots,
+        userId
+      });
+    }
+
+    return comparison;
+  }
+
+  /**
+   * A comparison with the progress of each audit. The report is built and
+   * stored the first time the comparison is read after every audit finished.
+   */
+  async getComparisonDetail(comparison: CompetitorComparison): Promise<CompetitorComparisonDetail> {
+    const auditIds = [comparison.siteAuditId, ...comparison.competitorAuditIds];
+    const audits = await rivalAuditRepository.getAuditStatuses(auditIds);
+    const auditsById = new Map(audits.map(audit => [audit.id, audit]));
+
+    const sites = auditIds.map((auditId, index) => {
+      const audit = auditsById.get(auditId);
+      return {
+        auditId,
+        url: audit?.url ?? '',
+        isCompetitor: index > 0,
+        // Placeholder results of an audit that failed are not data about the site
+        status: !audit || isFallbackAudit(audit) ? 'failed' : audit.status,
+        pagesAnalyzed: audit?.pagesAnalyzed ?? 0,
+        errorMessage: audit ? audit.errorMessage : 'The audit no longer exists'
+      };
+    });
+
+    let current = comparison;
+    if (comparison.status === 'pending' && sites.every(site => FINISHED_AUDIT_STATUSES.includes(site.status))) {
+      current = await this.finishComparison(comparison, sites) ?? comparison;
+    }
+
+    return {
+      comparison: {
+        id: current.id,
+        name: current.name,
+        status: current.status,
+        createdAt: current.createdAt.toISOString(),
+        completedAt: current.completedAt ? current.completedAt.toISOString() : null
+      },
+      sites,
+      report: current.report ?? null
+    };
+  }
+
+  /**
+   * Delete a comparison and let the cleanup job remove its audits
+   */
+  async deleteComparison(comparison: CompetitorComparison): Promise<void> {
+    await competitorComparisonRepository.deleteComparison(comparison.id);
+    await rivalAuditRepository.expireAudits([comparison.siteAuditId, ...comparison.competitorAuditIds]);
+  }
+
+  private async finishComparison(
+    comparison: CompetitorComparison,
+    sites: CompetitorComparisonDetail['sites']
+  ): Promise<CompetitorComparison | undefined> {
+    // Without the client's audit or any competitor's there is nothing to compare
+    const comparable = sites[0].status === 'completed' && sites.slice(1).some(site => site.status === 'completed');
+    if (!comparable) {
+      return await competitorComparisonRepository.finishComparison(comparison.id, 'failed', null);
+    }
+
+    const audits = await Promise.all(sites.map(site =>
+      site.status === 'completed' ? rivalAuditRepository.getAudit(site.auditId) : Promise.resolve(undefined)
+    ));
+    const report = buildCompetitorGapReport(audits.map(audit => audit ?? null));
+
+    console.log(`🥊 Competitor comparison ${comparison.id} complete: ${report.factors.filter(factor => factor.gap).length} factor gaps`);
+    return await competitorComparisonRepository.finishComparison(comparison.id, 'completed', report);
+  }
+}
+
+// Singleton instance
+export const competitorGapService = new CompetitorGapService();
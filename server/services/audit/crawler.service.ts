@@ -7,6 +7,8 @@
  */
 
 import { CrawlerOrchestratorService } from './crawling/crawler-orchestrator.service';
+import { CrawlSessionOptions } from './crawling/crawl-session';
+import { RedirectChain, LinkGraph } from '../../types/crawler';
 
 // TODO: Define CrawlerOutput type properly
 type CrawlerOutput = any;
@@ -42,15 +44,12 @@ class Crawler {
   /**
    * Enhanced website crawling with full site analysis
    */
-  async crawlWebsite(initialUrl: string, options: {
-    maxPages?: number;
-    useJavaScript?: boolean;
-    maxDepth?: number;
-    followSitemaps?: boolean;
-  } = {}): Promise<{
+  async crawlWebsite(initialUrl: string, options: CrawlSessionOptions = {}): Promise<{
     homepage: CrawlerOutput;
     additionalPages: CrawlerOutput[];
     siteStructure: any;
+    linkTargets: Record<string, RedirectChain>;
+    linkGraph: LinkGraph;
     stats: any;
   }> {
     console.log(`[Crawler] 🌐 Starting comprehensive website crawl: ${initialUrl}`);
@@ -73,7 +72,21 @@ class Crawler {
   }
 
   /**
-   * Reset crawler state for new session
+   * Get crawl statistics for a session (defaults to the most recent one)
+   */
+  getCrawlStats(sessionId?: string): any {
+    return this.orchestrator.getCrawlStats(sessionId);
+  }
+
+  /**
+   * List crawl sessions that are currently running
+   */
+  getActiveSessions() {
+    return this.orchestrator.getActiveSessions();
+  }
+
+  /**
+   * Reset standalone page-crawl state (website crawls use isolated sessions)
    */
   reset(): void {
     this.orchestrator.reset();
@@ -9,6 +9,31 @@ export interface SimilarityResult {
   similarity?: number;
 }
 
+export interface NearDuplicateCluster {
+  urls: string[];
+  similarity: number; // average Jaccard similarity of the matched pairs, 0-1
+}
+
+const SHINGLE_SIZE = 5; // words per shingle
+const MINHASH_PERMUTATIONS = 128;
+const LSH_BANDS = 32; // 4 signature rows per band
+const MIN_SHINGLES = 20; // pages with less distinct text are not compared
+
+/**
+ * 32-bit finalizer from MurmurHash3, used to derive the MinHash permutations
+ */
+function mix32(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_PERMUTATIONS }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)));
+
 export class ContentSimilarityService {
   private contentHashes = new Map<string, string>(); // hash -> url
   private similarityThreshold = 0.8; // 80% similarity threshold
@@ -133,6 +158,141 @@ export class ContentSimilarityService {
     return matches / longer.length;
   }
 
+  /**
+   * Cluster pages whose text is nearly identical, after a crawl.
+   * Pages are compared on 5-word shingles: MinHash signatures with
+   * locality-sensitive hashing find candidate pairs, which are confirmed by
+   * their exact Jaccard similarity. Shingles of the site's navigation, header
+   * and footer text (`boilerplateText`) are ignored so shared chrome does not
+   * make pages match, while body text repeated by a template still does.
+   */
+  clusterNearDuplicates(
+    documents: Array<{ url: string; text: string; boilerplateText?: string }>,
+    threshold: number = this.similarityThreshold
+  ): NearDuplicateCluster[] {
+    const shingleSets = documents.map(doc => this.generateShingles(doc.text));
+
+    // Drop navigation and footer shingles found on any page of the site
+    const boilerplate = new Set<number>();
+    documents.forEach(doc => {
+      if (doc.boilerplateText) {
+        this.generateShingles(doc.boilerplateText).forEach(shingle => boilerplate.add(shingle));
+      }
+    });
+    if (boilerplate.size > 0) {
+      shingleSets.forEach(shingles => {
+        shingles.forEach(shingle => {
+          if (boilerplate.has(shingle)) shingles.delete(shingle);
+        });
+      });
+    }
+
+    const comparable = documents
+      .map((doc, index) => ({ url: doc.url, shingles: shingleSets[index] }))
+      .filter(doc => doc.shingles.size >= MIN_SHINGLES);
+
+    // Candidate pairs share at least one band of their MinHash signatures
+    const rowsPerBand = MINHASH_PERMUTATIONS / LSH_BANDS;
+    const buckets = new Map<string, number[]>();
+    comparable.forEach((doc, index) => {
+      const signature = this.computeMinHashSignature(doc.shingles);
+      for (let band = 0; band < LSH_BANDS; band++) {
+        const key = `${band}:${Array.from(signature.subarray(band * rowsPerBand, (band + 1) * rowsPerBand)).join(',')}`;
+        const bucket = buckets.get(key);
+        if (bucket) {
+          bucket.push(index);
+        } else {
+          buckets.set(key, [index]);
+        }
+      }
+    });
+
+    const parent = comparable.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    const checkedPairs = new Set<string>();
+    const matches: Array<{ a: number; b: number; similarity: number }> = [];
+    buckets.forEach(bucket => {
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const pairKey = `${bucket[i]}:${bucket[j]}`;
+          if (checkedPairs.has(pairKey)) continue;
+          checkedPairs.add(pairKey);
+
+          const similarity = this.calculateJaccardSimilarity(comparable[bucket[i]].shingles, comparable[bucket[j]].shingles);
+          if (similarity >= threshold) {
+            matches.push({ a: bucket[i], b: bucket[j], similarity });
+            parent[find(bucket[i])] = find(bucket[j]);
+          }
+        }
+      }
+    });
+
+    const clusters = new Map<number, { members: Set<number>; similarities: number[] }>();
+    matches.forEach(({ a, b, similarity }) => {
+      const root = find(a);
+      if (!clusters.has(root)) clusters.set(root, { members: new Set(), similarities: [] });
+      const cluster = clusters.get(root)!;
+      cluster.members.add(a).add(b);
+      cluster.similarities.push(similarity);
+    });
+
+    return Array.from(clusters.values()).map(cluster => ({
+      urls: Array.from(cluster.members).sort((a, b) => a - b).map(index => comparable[index].url),
+      similarity: Math.round((cluster.similarities.reduce((sum, value) => sum + value, 0) / cluster.similarities.length) * 100) / 100
+    }));
+  }
+
+  /**
+   * Hashed 5-word shingles of normalized text
+   */
+  private generateShingles(text: string): Set<number> {
+    const words = text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+    const shingles = new Set<number>();
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+      shingles.add(this.hashString(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+    }
+    return shingles;
+  }
+
+  private computeMinHashSignature(shingles: Set<number>): Uint32Array {
+    const signature = new Uint32Array(MINHASH_PERMUTATIONS).fill(0xffffffff);
+    shingles.forEach(shingle => {
+      for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+        const value = mix32(shingle ^ MINHASH_SEEDS[i]);
+        if (value < signature[i]) signature[i] = value;
+      }
+    });
+    return signature;
+  }
+
+  private calculateJaccardSimilarity(a: Set<number>, b: Set<number>): number {
+    const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+    let intersection = 0;
+    smaller.forEach(value => {
+      if (larger.has(value)) intersection++;
+    });
+    return intersection / (a.size + b.size - intersection);
+  }
+
+  /**
+   * FNV-1a 32-bit string hash
+   */
+  private hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
   /**
    * Set the similarity threshold for duplicate detection
    */
@@ -0,0 +1,266 @@
+/**
+ * Crawl Session
+ * Owns all mutable state for a single website crawl so that several audits can
+ * run side by side in one process without sharing a URL frontier, stats or caches.
+ */
+
+import { URL } from 'url';
+import { CMSDetectionService } from './cms-detection.service';
+import { ContentSimilarityService } from './content-similarity.service';
+import { URLManagementService } from './url-management.service';
+import { SitemapDiscoveryService } from './sitemap-discovery.service';
+import { RobotsTxtStatus } from './robots-txt.service';
+import { CrawlerOutput } from '../../../types/crawler';
+import { LRUCache, LRUCacheFactory } from '../../../utils/lru-cache';
+
+/**
+ * Progress reported while a website crawl runs
+ */
+export type CrawlProgressEvent =
+  | { type: 'discovered'; urlsDiscovered: number; urlsQueued: number }
+  | { type: 'page'; url: string; statusCode: number; pagesCrawled: number; pagesQueued: number }
+  | { type: 'error'; url: string; statusCode: number; message: string; pagesCrawled: number };
+
+export interface CrawlSessionOptions {
+  maxPages?: number;
+  useJavaScript?: boolean;
+  maxDepth?: number;
+  followSitemaps?: boolean;
+  ignoreRobots?: boolean; // skip robots.txt rules; only when the site owner authorized the audit
+  signal?: AbortSignal; // aborts the crawl between batches (e.g. audit cancellation)
+  onProgress?: (event: CrawlProgressEvent) => void;
+}
+
+export interface CrawlSessionStats {
+  pagesCrawled: number;
+  pagesSkipped: number;
+  pagesSkippedByRobots: number;
+  errorsEncountered: number;
+  startTime: number;
+  endTime: number;
+  puppeteerPagesCrawled: number;
+  standardPagesCrawled: number;
+  puppeteerTotalTime: number;
+  standardTotalTime: number;
+}
+
+// Adaptive concurrency bounds shared by every session
+const BASE_CONCURRENT_REQUESTS = 5;
+const MAX_CONCURRENT_REQUESTS = 25;
+const MIN_CONCURRENT_REQUESTS = 3;
+const DEFAULT_TIMEOUT = 45000;
+const DEFAULT_MAX_PAGES = 250;
+const DEFAULT_CRAWL_DELAY = 500; // Delay between requests in milliseconds
+const MAX_ROBOTS_CRAWL_DELAY = 10000; // Cap on a robots.txt Crawl-delay so audits still finish
+const MAX_REPORTED_ROBOTS_SKIPS = 50;
+
+export class CrawlSession {
+  readonly id: string;
+  readonly currentSite: string;
+  readonly initialUrl: string;
+  readonly maxPages: number;
+  readonly options: CrawlSessionOptions;
+
+  // URL frontier
+  crawledUrls = new Set<string>();
+  pendingUrls: string[] = [];
+  brokenLinks = new Set<string>();
+
+  // robots.txt state
+  robotsStatus: RobotsTxtStatus = 'not_found';
+  robotsCrawlDelay: number | undefined; // seconds, from Crawl-delay
+  crawlDelayMs = DEFAULT_CRAWL_DELAY;
+  robotsSkippedUrls = new Set<string>();
+
+  // Per-session services (each keeps its own CMS fingerprint, hashes and sitemap state)
+  readonly cmsDetectionService = new CMSDetectionService();
+  readonly contentSimilarityService = new ContentSimilarityService();
+  readonly urlManagementService = new URLManagementService();
+  readonly sitemapDiscoveryService = new SitemapDiscoveryService();
+
+  // Per-session response cache
+  readonly responseCache: LRUCache<string, CrawlerOutput>;
+
+  // Adaptive concurrency and timeout state
+  adaptiveConcurrency = BASE_CONCURRENT_REQUESTS;
+  adaptiveTimeout = DEFAULT_TIMEOUT;
+  private performanceWindow: Array<{timestamp: number, responseTime: number}> = [];
+  private lastConcurrencyAdjustment = 0;
+
+  stats: CrawlSessionStats = {
+    pagesCrawled: 0,
+    pagesSkipped: 0,
+    pagesSkippedByRobots: 0,
+    errorsEncountered: 0,
+    startTime: 0,
+    endTime: 0,
+    puppeteerPagesCrawled: 0,
+    standardPagesCrawled: 0,
+    puppeteerTotalTime: 0,
+    standardTotalTime: 0
+  };
+
+  constructor(initialUrl: string, options: CrawlSessionOptions = {}) {
+    this.id = `crawl-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    this.initialUrl = initialUrl;
+    this.currentSite = initialUrl ? new URL(initialUrl).hostname : '';
+    this.options = options;
+    this.maxPages = options.maxPages || DEFAULT_MAX_PAGES;
+    this.responseCache = LRUCacheFactory.createResponseCache<string, CrawlerOutput>();
+    this.stats.startTime = Date.now();
+  }
+
+  /**
+   * Apply a robots.txt Crawl-delay (in seconds); never crawls faster than the default delay
+   */
+  setRobotsCrawlDelay(seconds: number | undefined): void {
+    this.robotsCrawlDelay = seconds;
+    if (seconds !== undefined) {
+      this.crawlDelayMs = Math.max(DEFAULT_CRAWL_DELAY, Math.min(seconds * 1000, MAX_ROBOTS_CRAWL_DELAY));
+    }
+  }
+
+  /**
+   * Requests to run at once; a robots.txt Crawl-delay means one request at a time
+   */
+  getCrawlConcurrency(): number {
+    return this.robotsCrawlDelay !== undefined ? 1 : this.adaptiveConcurrency;
+  }
+
+  /**
+   * Record a URL that robots.txt disallowed
+   */
+  recordRobotsSkip(url: string): void {
+    if (this.robotsSkippedUrls.has(url)) return;
+    this.robotsSkippedUrls.add(url);
+    this.stats.pagesSkippedByRobots++;
+  }
+
+  /**
+   * robots.txt summary for crawler stats; skipped URLs are capped to keep results small
+   */
+  getRobotsSummary(): {
+    status: RobotsTxtStatus;
+    respected: boolean;
+    crawlDelayMs: number;
+    skippedCount: number;
+    skippedUrls: string[];
+  } {
+    return {
+      status: this.robotsStatus,
+      respected: !this.options.ignoreRobots,
+      crawlDelayMs: this.crawlDelayMs,
+      skippedCount: this.robotsSkippedUrls.size,
+      skippedUrls: Array.from(this.robotsSkippedUrls).slice(0, MAX_REPORTED_ROBOTS_SKIPS)
+    };
+  }
+
+  /**
+   * Mark the session as finished
+   */
+  finish(): void {
+    this.stats.endTime = Date.now();
+  }
+
+  /**
+   * Whether the session has been finalized
+   */
+  isFinished(): boolean {
+    return this.stats.endTime > 0;
+  }
+
+  /**
+   * Throw if the crawl has been aborted through its signal
+   */
+  throwIfAborted(): void {
+    this.options.signal?.throwIfAborted();
+  }
+
+  /**
+   * Report progress to the session's listener; listener errors never break the crawl
+   */
+  reportProgress(event: CrawlProgressEvent): void {
+    try {
+      this.options.onProgress?.(event);
+    } catch (error) {
+      console.warn(`[CrawlSession ${this.id}] Progress listener failed:`, error);
+    }
+  }
+
+  /**
+   * Report the outcome of a crawled page
+   */
+  reportPage(page: CrawlerOutput): void {
+    if (page.status === 'success') {
+      this.reportProgress({
+        type: 'page',
+        url: page.url,
+        statusCode: page.statusCode,
+        pagesCrawled: this.stats.pagesCrawled,
+        pagesQueued: this.pendingUrls.length
+      });
+    } else {
+      this.reportProgress({
+        type: 'error',
+        url: page.url,
+        statusCode: page.statusCode,
+        message: page.error || 'Unknown crawl error',
+        pagesCrawled: this.stats.pagesCrawled
+      });
+    }
+  }
+
+  /**
+   * Track response time and adjust this session's concurrency
+   */
+  trackPerformanceAndAdjustConcurrency(responseTime: number): void {
+    const now = Date.now();
+    this.performanceWindow.push({ timestamp: now, responseTime });
+
+    // Keep only recent performance data (last 30 seconds)
+    this.performanceWindow = this.performanceWindow.filter(
+      entry => now - entry.timestamp < 30000
+    );
+
+    // Adjust concurrency based on performance (every 10 seconds)
+    if (now - this.lastConcurrencyAdjustment > 10000 && this.performanceWindow.length > 5) {
+      const avgResponseTime = this.performanceWindow.reduce((sum, entry) => sum + entry.responseTime, 0) / this.performanceWindow.length;
+
+      if (avgResponseTime > 5000 && this.adaptiveConcurrency > MIN_CONCURRENT_REQUESTS) {
+        this.adaptiveConcurrency = Math.max(MIN_CONCURRENT_REQUESTS, this.adaptiveConcurrency - 1);
+        console.log(`[CrawlSession ${this.id}] 🐌 Reducing concurrency to ${this.adaptiveConcurrency} (avg response: ${Math.round(avgResponseTime)}ms)`);
+      } else if (avgResponseTime < 2000 && this.adaptiveConcurrency < MAX_CONCURRENT_REQUESTS) {
+        this.adaptiveConcurrency = Math.min(MAX_CONCURRENT_REQUESTS, this.adaptiveConcurrency + 1);
+        console.log(`[CrawlSession ${this.id}] 🚀 Increasing concurrency to ${this.adaptiveConcurrency} (avg response: ${Math.round(avgResponseTime)}ms)`);
+      }
+
+      this.lastConcurrencyAdjustment = now;
+    }
+  }
+
+  /**
+   * Reset the session's frontier, caches and services
+   */
+  reset(): void {
+    this.crawledUrls.clear();
+    this.pendingUrls = [];
+    this.brokenLinks.clear();
+    this.robotsSkippedUrls.clear();
+    this.responseCache.clear();
+    this.performanceWindow = [];
+    this.adaptiveConcurrency = BASE_CONCURRENT_REQUESTS;
+
+    this.cmsDetectionService.reset();
+    this.contentSimilarityService.clearContentHashes();
+    this.urlManagementService.reset();
+    this.sitemapDiscoveryService.reset();
+  }
+
+  /**
+   * Release timers held by the session's caches
+   */
+  destroy(): void {
+    this.responseCache.destroy();
+    this.contentSimilarityService.cleanupOldHashes();
+  }
+}
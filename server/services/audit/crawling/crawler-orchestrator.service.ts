@@ -10,12 +10,12 @@ import * as https from 'https';
 import * as dns from 'dns';
 import { promisify } from 'util';
 import { PagePriorityService, PagePriority } from '../page-priority.service';
-import { CMSDetectionService } from './cms-detection.service';
-import { ContentSimilarityService } from './content-similarity.service';
-import { URLManagementService } from './url-management.service';
-import { SitemapDiscoveryService } from './sitemap-discovery.service';
 import { PuppeteerHandlerService } from './puppeteer-handler.service';
-import { CrawlerOutput, PageCrawlResult } from '../../../types/crawler';
+import { CrawlSession, CrawlSessionOptions } from './crawl-session';
+import { robotsTxtService } from './robots-txt.service';
+import { redirectTracerService, RedirectRecorder } from './redirect-tracer.service';
+import { linkGraphService } from './link-graph.service';
+import { CrawlerOutput, PageCrawlResult, RedirectChain, LinkGraph } from '../../../types/crawler';
 import { LRUCache, LRUCacheFactory } from '../../../utils/lru-cache';
 import { safeValidateCrawlerOutput, safeValidatePageCrawlResult } from '../../../utils/crawler-validation';
 
@@ -26,82 +26,50 @@ const dnsResolve = promisify(dns.resolve);
 export class CrawlerOrchestratorService {
   // Configuration constants
   private MAX_CONTENT_SIZE = 10 * 1024 * 1024; // 10MB limit for HTML content
-  private REQUEST_TIMEOUT = 45000; // 45 seconds timeout (will be dynamically adjusted)
-  private adaptiveTimeout = 45000; // Current adaptive timeout
   private MIN_TIMEOUT = 8000; // Minimum timeout (8 seconds)
   private MAX_TIMEOUT = 45000; // Maximum timeout
   private USER_AGENT = 'SEO-Best-Practices-Assessment-Tool/1.0';
   private MAX_REDIRECTS = 10; // Maximum number of redirects to follow
-  private CRAWL_DELAY = 500; // Delay between requests in milliseconds
-  private MAX_PAGES = 250; // Maximum pages to crawl per site
-  private CONCURRENT_REQUESTS = 5; // Base concurrent requests (will be dynamically adjusted)
-  private MAX_CONCURRENT_REQUESTS = 25; // Maximum allowed concurrent requests
-  private MIN_CONCURRENT_REQUESTS = 3; // Minimum concurrent requests
-  private adaptiveConcurrency = 5; // Current adaptive concurrency level
-
-  // Specialized services
+  private MAX_LINK_TARGET_CHECKS = 100; // Uncrawled internal link targets traced per crawl
+
+  // Stateless / process-wide services
   private pagePriorityService = new PagePriorityService();
-  private cmsDetectionService = new CMSDetectionService();
-  private contentSimilarityService = new ContentSimilarityService();
-  private urlManagementService = new URLManagementService();
-  private sitemapDiscoveryService = new SitemapDiscoveryService();
   private puppeteerHandlerService = new PuppeteerHandlerService();
 
-  // Caching and state management - Now using LRU caches with TTL
+  // DNS results are safe to share across sessions - LRU cache with TTL
   private dnsCache: LRUCache<string, string>;
-  private responseCache: LRUCache<string, CrawlerOutput>;
-  private brokenLinks = new Set<string>();
   
   // Circuit breaker for problematic domains
   private timeoutCounts = new Map<string, number>();
   private domainBlacklist = new Set<string>();
   private MAX_TIMEOUT_FAILURES = 3; // Max timeouts before blacklisting domain patterns
 
-  // Performance tracking for adaptive concurrency
-  private performanceWindow: Array<{timestamp: number, responseTime: number}> = [];
-  private lastConcurrencyAdjustment = 0;
-
-  // Crawling state
-  private crawledUrls = new Set<string>();
-  private pendingUrls: string[] = [];
-  private currentSite: string = '';
-  private stats = {
-    pagesCrawled: 0,
-    pagesSkipped: 0,
-    errorsEncountered: 0,
-    startTime: 0,
-    endTime: 0,
-    // Enhanced performance metrics
-    puppeteerPagesCrawled: 0,
-    standardPagesCrawled: 0,
-    puppeteerTotalTime: 0,
-    standardTotalTime: 0
-  };
+  // Crawl sessions - every crawlWebsite() call gets its own isolated session
+  private activeSessions = new Map<string, CrawlSession>();
+  private lastSession: CrawlSession | null = null;
+  // Session used for standalone crawlPage() calls outside of a website crawl
+  private defaultSession = new CrawlSession('');
 
   constructor() {
     // Initialize LRU caches with TTL for memory safety
     this.dnsCache = LRUCacheFactory.createDNSCache<string, string>();
-    this.responseCache = LRUCacheFactory.createResponseCache<string, CrawlerOutput>();
   }
 
   /**
    * Main crawling orchestration method
    */
-  async crawlWebsite(initialUrl: string, options: {
-    maxPages?: number;
-    useJavaScript?: boolean;
-    maxDepth?: number;
-    followSitemaps?: boolean;
-  } = {}): Promise<{
+  async crawlWebsite(initialUrl: string, options: CrawlSessionOptions = {}): Promise<{
     homepage: CrawlerOutput;
     additionalPages: CrawlerOutput[];
     siteStructure: any;
+    linkTargets: Record<string, RedirectChain>;
+    linkGraph: LinkGraph;
     stats: any;
   }> {
     console.log(`[CrawlerOrchestrator] 🚀 Starting website crawl: ${initialUrl}`);
     
     // Initialize crawl session
-    this.initializeCrawlSession(initialUrl, options);
+    const session = this.initializeCrawlSession(initialUrl, options);
     
     // Pre-initialize Puppeteer cluster for potential use
     try {
@@ -111,8 +79,14 @@ export class CrawlerOrchestratorService {
     }
     
     try {
-      // Step 1: Crawl homepage and detect CMS
-      const homepage = await this.crawlPage(initialUrl);
+      // Step 1: Load robots.txt rules and crawl the homepage
+      await this.loadRobotsTxt(initialUrl, session);
+      if (!session.urlManagementService.isAllowedByRobots(initialUrl)) {
+        throw new Error(`robots.txt disallows crawling ${initialUrl}. Audit with ignoreRobots only if the site owner has authorized it.`);
+      }
+
+      const homepage = await this.crawlPage(initialUrl, session);
+      session.reportPage(homepage);
       if (!homepage || homepage.status !== 'success') {
         const errorDetail = homepage?.error || 'Unknown crawl failure';
         console.error('>>> DETAILED HOMEPAGE CRAWL ERROR <<<', {
@@ -124,8 +98,10 @@ export class CrawlerOrchestratorService {
         throw new Error(`Failed to crawl homepage: ${initialUrl} - Original error: ${errorDetail}`);
       }
 
+      session.throwIfAborted();
+
       // Step 2: Detect CMS and fingerprint site
-      const siteFingerprint = this.cmsDetectionService.detectCMSAndFingerprint(
+      const siteFingerprint = session.cmsDetectionService.detectCMSAndFingerprint(
         homepage.html || '', 
         homepage.headers || {}, 
         initialUrl
@@ -135,9 +111,9 @@ export class CrawlerOrchestratorService {
       let discoveredUrls: string[] = [];
       if (options.followSitemaps !== false) {
         try {
-          discoveredUrls = await this.sitemapDiscoveryService.discoverUrlsFromSitemap(
+          discoveredUrls = await session.sitemapDiscoveryService.discoverUrlsFromSitemap(
             initialUrl,
-            this.currentSite
+            session.currentSite
           );
         } catch (error) {
           console.log(`[CrawlerOrchestrator] WARN: Sitemap discovery failed, continuing with crawl: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -150,25 +126,43 @@ export class CrawlerOrchestratorService {
       
       // Step 5: Combine and prioritize all discovered URLs
       const allUrls = [...new Set([...discoveredUrls, ...internalLinks])];
-      const prioritizedUrls = this.urlManagementService.prioritizeUrlsByImportance(allUrls, initialUrl);
+      const prioritizedUrls = session.urlManagementService.prioritizeUrlsByImportance(allUrls, initialUrl);
       
       // Step 6: Apply filtering and preprocessing
-      const filteredUrls = await this.preprocessUrls(prioritizedUrls);
+      const filteredUrls = await this.preprocessUrls(prioritizedUrls, session);
+      session.reportProgress({
+        type: 'discovered',
+        urlsDiscovered: allUrls.length,
+        urlsQueued: Math.min(filteredUrls.length, session.maxPages - 1)
+      });
       
       // Step 7: Crawl additional pages
-      const additionalPages = await this.crawlAdditionalPages(filteredUrls, options);
+      const additionalPages = await this.crawlAdditionalPages(filteredUrls, session);
 
-      // Step 8: Build site structure analysis
-      const siteStructure = this.analyzeSiteStructure(homepage, additionalPages, siteFingerprint);
+      // Step 8: Trace redirects and status codes of internal link targets
+      const linkTargets = await this.traceLinkTargets([homepage, ...additionalPages], session);
 
-      // Step 9: Finalize crawl session
-      this.finalizeCrawlSession();
+      // Step 9: Build the internal link graph
+      const linkGraph = linkGraphService.buildLinkGraph({
+        homepageUrl: homepage.url,
+        pages: [homepage, ...additionalPages],
+        sitemapUrls: discoveredUrls,
+        linkTargets
+      });
+
+      // Step 10: Build site structure analysis
+      const siteStructure = this.analyzeSiteStructure(homepage, additionalPages, siteFingerprint, session);
+
+      // Step 11: Finalize crawl session
+      await this.finalizeCrawlSession(session);
 
       return {
         homepage,
         additionalPages,
         siteStructure,
-        stats: this.getCrawlStats()
+        linkTargets,
+        linkGraph,
+        stats: this.buildCrawlStats(session)
       };
 
     } catch (error) {
@@ -179,7 +173,7 @@ export class CrawlerOrchestratorService {
       if (error instanceof Error && error.stack) {
         console.error('[CrawlerOrchestrator] Error stack:', error.stack);
       }
-      this.finalizeCrawlSession();
+      await this.finalizeCrawlSession(session);
       throw error;
     }
   }
@@ -187,22 +181,30 @@ export class CrawlerOrchestratorService {
   /**
    * Crawl a single page with full error handling and caching
    */
-  async crawlPage(url: string): Promise<CrawlerOutput> {
+  async crawlPage(url: string, session: CrawlSession = this.defaultSession): Promise<CrawlerOutput> {
     try {
       console.log(`[CrawlerOrchestrator] 📄 Crawling page: ${url}`);
       
       // Check if URL should be skipped
-      if (this.urlManagementService.shouldSkipUrl(url, this.crawledUrls)) {
+      if (session.urlManagementService.shouldSkipUrl(url, session.crawledUrls)) {
+        session.stats.pagesSkipped++;
         return this.createErrorOutput(url, "Skipped Page", 0, "Skipped due to blacklist or duplicate pattern");
       }
 
+      // Check robots.txt
+      if (!session.urlManagementService.isAllowedByRobots(url)) {
+        session.stats.pagesSkipped++;
+        session.recordRobotsSkip(url);
+        return this.createErrorOutput(url, "Skipped Page", 0, "Disallowed by robots.txt");
+      }
+
       // Normalize URL
-      const normalizedUrl = this.urlManagementService.normalizeUrl(url);
+      const normalizedUrl = session.urlManagementService.normalizeUrl(url);
       
       // Check cache first
-      if (this.responseCache.has(normalizedUrl)) {
+      if (session.responseCache.has(normalizedUrl)) {
         console.log(`[CrawlerOrchestrator] 💾 Using cached response for: ${normalizedUrl}`);
-        const cachedResult = this.responseCache.get(normalizedUrl);
+        const cachedResult = session.responseCache.get(normalizedUrl);
         if (cachedResult) {
           return cachedResult;
         }
@@ -212,24 +214,30 @@ export class CrawlerOrchestratorService {
       const dnsResult = await this.checkDomainAvailability(normalizedUrl);
       if (!dnsResult.available) {
         const errorOutput = this.createErrorOutput(normalizedUrl, "DNS Error", -1, `Domain not available: ${dnsResult.error}`);
-        this.responseCache.set(normalizedUrl, errorOutput);
+        session.responseCache.set(normalizedUrl, errorOutput);
         return errorOutput;
       }
 
-      // Perform lightweight JS detection first
+      // Perform lightweight JS detection first; its request also records the redirect chain
       let isJsHeavy = false;
+      let redirectChain: RedirectChain | undefined;
+      const redirectRecorder = redirectTracerService.createRecorder(normalizedUrl);
       try {
         // Quick HTTP request to analyze content for JS patterns
         const response = await axios.get(normalizedUrl, {
           headers: { "User-Agent": this.USER_AGENT },
           timeout: 10000,
           maxContentLength: 1024 * 1024, // 1MB for detection only
+          maxRedirects: this.MAX_REDIRECTS,
+          beforeRedirect: redirectRecorder.beforeRedirect,
           httpsAgent: new https.Agent({ rejectUnauthorized: false })
         });
+        redirectChain = redirectRecorder.build(response.status);
         isJsHeavy = this.puppeteerHandlerService.detectJavaScriptHeavySite(response.data, normalizedUrl);
       } catch (error) {
         // If detection fails, assume not JS-heavy and continue with standard crawl
         console.log(`[CrawlerOrchestrator] JS detection failed for ${normalizedUrl}, using standard crawl`);
+        redirectChain = await this.getFailedRedirectChain(error, redirectRecorder);
       }
 
       // Determine if we should use Puppeteer for this page
@@ -244,23 +252,27 @@ export class CrawlerOrchestratorService {
         
         // Track Puppeteer performance metrics
         const pageProcessingTime = Date.now() - pageStartTime;
-        this.stats.puppeteerPagesCrawled++;
-        this.stats.puppeteerTotalTime += pageProcessingTime;
+        session.stats.puppeteerPagesCrawled++;
+        session.stats.puppeteerTotalTime += pageProcessingTime;
         console.log(`[CrawlerOrchestrator] 📊 Puppeteer page processed in ${pageProcessingTime}ms`);
       } else {
         console.log(`[CrawlerOrchestrator] 🌐 Using standard HTTP crawl: ${normalizedUrl} (JS-heavy: ${isJsHeavy})`);
-        crawlResult = await this.standardCrawlPage(normalizedUrl);
+        crawlResult = await this.standardCrawlPage(normalizedUrl, session);
         
         // Track standard HTTP performance metrics
         const pageProcessingTime = Date.now() - pageStartTime;
-        this.stats.standardPagesCrawled++;
-        this.stats.standardTotalTime += pageProcessingTime;
+        session.stats.standardPagesCrawled++;
+        session.stats.standardTotalTime += pageProcessingTime;
         console.log(`[CrawlerOrchestrator] 📊 Standard HTTP page processed in ${pageProcessingTime}ms`);
       }
 
+      if (redirectChain) {
+        crawlResult.redirectChain = redirectChain;
+      }
+
       // Check for content similarity
       if (crawlResult.status === 'success' && crawlResult.html) {
-        const similarityCheck = this.contentSimilarityService.checkContentSimilarity(
+        const similarityCheck = session.contentSimilarityService.checkContentSimilarity(
           crawlResult.html, 
           normalizedUrl
         );
@@ -275,10 +287,10 @@ export class CrawlerOrchestratorService {
 
       // Cache successful results
       if (crawlResult.status === 'success') {
-        this.responseCache.set(normalizedUrl, crawlResult);
+        session.responseCache.set(normalizedUrl, crawlResult);
       }
 
-      this.stats.pagesCrawled++;
+      session.stats.pagesCrawled++;
       return crawlResult;
 
     } catch (error) {
@@ -292,7 +304,7 @@ export class CrawlerOrchestratorService {
       if (error instanceof Error && error.stack) {
         console.error(`[CrawlerOrchestrator] Error stack:`, error.stack);
       }
-      this.stats.errorsEncountered++;
+      session.stats.errorsEncountered++;
       
       // Include more detailed error information in the error output
       const detailedErrorMessage = error instanceof Error 
@@ -302,14 +314,91 @@ export class CrawlerOrchestratorService {
     }
   }
 
+  /**
+   * Redirect chain for a request that failed: error statuses keep the recorded
+   * hops, and too many redirects are re-traced hop by hop to find the loop
+   */
+  private async getFailedRedirectChain(error: unknown, recorder: RedirectRecorder): Promise<RedirectChain | undefined> {
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        return recorder.build(error.response.status);
+      }
+      if (error.code === 'ERR_FR_TOO_MANY_REDIRECTS') {
+        return await redirectTracerService.traceUrl(recorder.url, this.USER_AGENT);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Trace the redirect chain and final status of every internal link target.
+   * Crawled pages reuse the chain recorded while crawling them; other targets
+   * are traced with the session's politeness settings, up to a fixed budget.
+   */
+  private async traceLinkTargets(pages: CrawlerOutput[], session: CrawlSession): Promise<Record<string, RedirectChain>> {
+    const linkTargets: Record<string, RedirectChain> = {};
+
+    for (const page of pages) {
+      if (page?.redirectChain) {
+        linkTargets[page.redirectChain.url] = page.redirectChain;
+      }
+    }
+
+    const untraced = new Set<string>();
+
+    // The http:// version of an https site should redirect to it
+    const homepageUrl = pages[0]?.redirectChain?.url || pages[0]?.url;
+    if (homepageUrl?.startsWith('https://')) {
+      untraced.add(homepageUrl.replace(/^https:/, 'http:'));
+    }
+
+    for (const page of pages) {
+      for (const link of page?.links?.internal || []) {
+        const target = session.urlManagementService.cleanUrl(link);
+        if (linkTargets[target] || untraced.has(target)) continue;
+        if (session.urlManagementService.shouldTerminateEarly(target).shouldTerminate) continue;
+        if (!session.urlManagementService.isAllowedByRobots(target)) {
+          session.recordRobotsSkip(target);
+          continue;
+        }
+        untraced.add(target);
+      }
+    }
+
+    const targets = Array.from(untraced).slice(0, this.MAX_LINK_TARGET_CHECKS);
+    if (targets.length === 0) {
+      return linkTargets;
+    }
+
+    console.log(`[CrawlerOrchestrator] 🔀 Tracing redirects for ${targets.length} linked URLs${untraced.size > targets.length ? ` (of ${untraced.size})` : ''}`);
+
+    for (let i = 0; i < targets.length;) {
+      session.throwIfAborted();
+
+      const batch = targets.slice(i, i + session.getCrawlConcurrency());
+      i += batch.length;
+
+      const chains = await Promise.all(batch.map(async (target) => {
+        await this.delay(session.crawlDelayMs); // Rate limiting
+        return redirectTracerService.traceUrl(target, this.USER_AGENT);
+      }));
+
+      for (const chain of chains) {
+        linkTargets[chain.url] = chain;
+      }
+    }
+
+    return linkTargets;
+  }
+
   /**
    * Standard HTTP-based crawling (non-Puppeteer)
    */
-  private async standardCrawlPage(url: string): Promise<CrawlerOutput> {
+  private async standardCrawlPage(url: string, session: CrawlSession): Promise<CrawlerOutput> {
     const startTime = Date.now();
     const httpsAgent = new https.Agent({
       rejectUnauthorized: false,
-      timeout: this.adaptiveTimeout
+      timeout: session.adaptiveTimeout
     });
 
     const response = await axios.get(url, {
@@ -318,7 +407,7 @@ export class CrawlerOrchestratorService {
         "Accept": "text/html,application/xhtml+xml,application/xml",
         "Accept-Language": "en-US,en;q=0.9"
       },
-      timeout: this.adaptiveTimeout,
+      timeout: session.adaptiveTimeout,
       maxContentLength: this.MAX_CONTENT_SIZE,
       maxRedirects: this.MAX_REDIRECTS,
       httpsAgent,
@@ -328,7 +417,7 @@ export class CrawlerOrchestratorService {
     });
 
     const responseTime = Date.now() - startTime;
-    this.trackPerformanceAndAdjustConcurrency(responseTime);
+    session.trackPerformanceAndAdjustConcurrency(responseTime);
 
     // Process response with cheerio
     const $ = cheerio.load(response.data);
@@ -344,7 +433,7 @@ export class CrawlerOrchestratorService {
       content: this.extractPageContent($, response.data, url),
       meta: this.extractMetaTags($),
       headings: this.extractHeadings($),
-      links: this.extractLinks($, url),
+      links: this.extractLinks($, url, session),
       images: this.extractImages($),
       schema: this.extractSchemaMarkup($),
       mobileCompatible: this.checkMobileCompatibility($),
@@ -391,54 +480,66 @@ export class CrawlerOrchestratorService {
   /**
    * Initialize crawl session
    */
-  private initializeCrawlSession(initialUrl: string, options: any): void {
-    this.currentSite = new URL(initialUrl).hostname;
-    this.stats = {
-      pagesCrawled: 0,
-      pagesSkipped: 0,
-      errorsEncountered: 0,
-      startTime: Date.now(),
-      endTime: 0,
-      // Enhanced performance metrics
-      puppeteerPagesCrawled: 0,
-      standardPagesCrawled: 0,
-      puppeteerTotalTime: 0,
-      standardTotalTime: 0
-    };
+  private initializeCrawlSession(initialUrl: string, options: CrawlSessionOptions): CrawlSession {
+    const session = new CrawlSession(initialUrl, options);
+    this.activeSessions.set(session.id, session);
+    this.lastSession = session;
 
-    // Reset service states
-    this.cmsDetectionService.reset();
-    this.contentSimilarityService.clearContentHashes();
-    this.urlManagementService.reset();
-    this.sitemapDiscoveryService.reset();
+    console.log(`[CrawlerOrchestrator] 🎯 Crawl session ${session.id} initialized for ${session.currentSite} (${this.activeSessions.size} active)`);
+    return session;
+  }
 
-    // Apply options
-    if (options.maxPages) {
-      this.MAX_PAGES = options.maxPages;
+  /**
+   * Load the site's robots.txt into the session, unless the client chose to ignore it
+   */
+  private async loadRobotsTxt(initialUrl: string, session: CrawlSession): Promise<void> {
+    if (session.options.ignoreRobots) {
+      session.robotsStatus = 'ignored';
+      console.log(`[CrawlerOrchestrator] ⚠️ Ignoring robots.txt for ${session.currentSite} (authorized by client)`);
+      return;
     }
 
-    console.log(`[CrawlerOrchestrator] 🎯 Crawl session initialized for ${this.currentSite}`);
+    const { robots, status } = await robotsTxtService.fetchRobotsTxt(initialUrl, this.USER_AGENT);
+    session.robotsStatus = status;
+    session.urlManagementService.setRobotsTxt(robots, this.USER_AGENT);
+    session.setRobotsCrawlDelay(robots.getCrawlDelay(this.USER_AGENT));
+
+    if (session.robotsCrawlDelay !== undefined) {
+      console.log(`[CrawlerOrchestrator] 🐢 robots.txt Crawl-delay of ${session.robotsCrawlDelay}s, crawling one page every ${session.crawlDelayMs}ms`);
+    }
   }
 
   /**
    * Preprocess URLs with filtering and validation
    */
-  private async preprocessUrls(urls: string[]): Promise<string[]> {
+  private async preprocessUrls(urls: string[], session: CrawlSession): Promise<string[]> {
     console.log(`[CrawlerOrchestrator] 🔧 Preprocessing ${urls.length} URLs...`);
+
+    // Drop URLs robots.txt disallows before any request is made to them
+    const allowed = urls.filter(url => {
+      if (session.urlManagementService.isAllowedByRobots(url)) return true;
+      session.recordRobotsSkip(url);
+      return false;
+    });
+    if (allowed.length < urls.length) {
+      console.log(`[CrawlerOrchestrator] 🤖 robots.txt disallows ${urls.length - allowed.length} URLs`);
+    }
     
     // Apply URL management filtering
-    const prefiltered = await this.urlManagementService.prefilterUrls(urls, {
+    const prefiltered = await session.urlManagementService.prefilterUrls(allowed, {
       prefilterContentTypes: true,
-      concurrentRequests: this.adaptiveConcurrency,
+      concurrentRequests: session.getCrawlConcurrency(),
       userAgent: this.USER_AGENT,
-      axios: axios
+      axios: axios,
+      crawlDelayMs: session.crawlDelayMs
     });
     
     // Apply CMS-specific filtering
-    const cmsFiltered = this.cmsDetectionService.applyCMSFiltering(prefiltered);
+    const cmsFiltered = session.cmsDetectionService.applyCMSFiltering(prefiltered);
     
     // Limit to max pages
-    const limited = cmsFiltered.slice(0, this.MAX_PAGES - 1); // Reserve space for homepage
+    const limited = cmsFiltered.slice(0, session.maxPages - 1); // Reserve space for homepage
+    session.pendingUrls = [...limited];
     
     console.log(`[CrawlerOrchestrator] ✅ Preprocessing complete: ${urls.length} → ${limited.length} URLs`);
     
@@ -448,22 +549,27 @@ export class CrawlerOrchestratorService {
   /**
    * Crawl additional pages in parallel batches
    */
-  private async crawlAdditionalPages(urls: string[], options: any): Promise<CrawlerOutput[]> {
+  private async crawlAdditionalPages(urls: string[], session: CrawlSession): Promise<CrawlerOutput[]> {
     const results: CrawlerOutput[] = [];
     let crawledCount = 0;
 
     console.log(`[CrawlerOrchestrator] 📚 Crawling ${urls.length} additional pages...`);
 
     // Process URLs in batches
-    for (let i = 0; i < urls.length && crawledCount < this.MAX_PAGES - 1; i += this.adaptiveConcurrency) {
-      const batch = urls.slice(i, i + this.adaptiveConcurrency);
+    for (let i = 0; i < urls.length && crawledCount < session.maxPages - 1;) {
+      session.throwIfAborted();
+
+      const batch = urls.slice(i, i + session.getCrawlConcurrency());
+      i += batch.length;
       
       const batchPromises = batch.map(async (url) => {
-        if (crawledCount >= this.MAX_PAGES - 1) return null;
+        if (crawledCount >= session.maxPages - 1) return null;
         
-        await this.delay(this.CRAWL_DELAY); // Rate limiting
-        const result = await this.crawlPage(url);
+        await this.delay(session.crawlDelayMs); // Rate limiting
+        const result = await this.crawlPage(url, session);
+        session.pendingUrls = session.pendingUrls.filter(pending => pending !== url);
         crawledCount++;
+        session.reportPage(result);
         return result;
       });
 
@@ -576,7 +682,7 @@ export class CrawlerOrchestratorService {
   /**
    * Extract links from HTML
    */
-  private extractLinks($: cheerio.CheerioAPI, baseUrl: string): any {
+  private extractLinks($: cheerio.CheerioAPI, baseUrl: string, session: CrawlSession): any {
     const links = {
       internal: [] as string[],
       external: [] as string[],
@@ -588,7 +694,7 @@ export class CrawlerOrchestratorService {
       if (href && !href.startsWith('#') && !href.startsWith('mailto:') && !href.startsWith('tel:')) {
         try {
           const absoluteUrl = new URL(href, baseUrl).toString();
-          const isExternal = this.urlManagementService.isExternalUrl(absoluteUrl, baseUrl);
+          const isExternal = session.urlManagementService.isExternalUrl(absoluteUrl, baseUrl);
           
           if (isExternal) {
             links.external.push(absoluteUrl);
@@ -698,38 +804,10 @@ export class CrawlerOrchestratorService {
     }
   }
 
-  /**
-   * Track performance and adjust concurrency
-   */
-  private trackPerformanceAndAdjustConcurrency(responseTime: number): void {
-    const now = Date.now();
-    this.performanceWindow.push({ timestamp: now, responseTime });
-    
-    // Keep only recent performance data (last 30 seconds)
-    this.performanceWindow = this.performanceWindow.filter(
-      entry => now - entry.timestamp < 30000
-    );
-
-    // Adjust concurrency based on performance (every 10 seconds)
-    if (now - this.lastConcurrencyAdjustment > 10000 && this.performanceWindow.length > 5) {
-      const avgResponseTime = this.performanceWindow.reduce((sum, entry) => sum + entry.responseTime, 0) / this.performanceWindow.length;
-      
-      if (avgResponseTime > 5000 && this.adaptiveConcurrency > this.MIN_CONCURRENT_REQUESTS) {
-        this.adaptiveConcurrency = Math.max(this.MIN_CONCURRENT_REQUESTS, this.adaptiveConcurrency - 1);
-        console.log(`[CrawlerOrchestrator] 🐌 Reducing concurrency to ${this.adaptiveConcurrency} (avg response: ${Math.round(avgResponseTime)}ms)`);
-      } else if (avgResponseTime < 2000 && this.adaptiveConcurrency < this.MAX_CONCURRENT_REQUESTS) {
-        this.adaptiveConcurrency = Math.min(this.MAX_CONCURRENT_REQUESTS, this.adaptiveConcurrency + 1);
-        console.log(`[CrawlerOrchestrator] 🚀 Increasing concurrency to ${this.adaptiveConcurrency} (avg response: ${Math.round(avgResponseTime)}ms)`);
-      }
-      
-      this.lastConcurrencyAdjustment = now;
-    }
-  }
-
   /**
    * Analyze site structure from crawled pages
    */
-  private analyzeSiteStructure(homepage: CrawlerOutput, additionalPages: CrawlerOutput[], fingerprint: any): any {
+  private analyzeSiteStructure(homepage: CrawlerOutput, additionalPages: CrawlerOutput[], fingerprint: any, session: CrawlSession): any {
     const allPages = [homepage, ...additionalPages];
     const successfulPages = allPages.filter(page => page.status === 'success');
     
@@ -737,7 +815,7 @@ export class CrawlerOrchestratorService {
       totalPages: allPages.length,
       successfulPages: successfulPages.length,
       failedPages: allPages.length - successfulPages.length,
-      cmsDetected: this.cmsDetectionService.getDetectedCMS(),
+      cmsDetected: session.cmsDetectionService.getDetectedCMS(),
       siteFingerprint: fingerprint,
       hasJavaScript: successfulPages.some(page => 
         this.puppeteerHandlerService.detectJavaScriptHeavySite(page.html || '', page.url)
@@ -751,7 +829,7 @@ export class CrawlerOrchestratorService {
           page.images?.map((img: any) => img.src) || []
         )
       ).size,
-      sitemapsFound: this.sitemapDiscoveryService.hasSitemap(),
+      sitemapsFound: session.sitemapDiscoveryService.hasSitemap(),
       duplicateContent: successfulPages.filter(page => page.isDuplicate).length
     };
   }
@@ -825,11 +903,11 @@ export class CrawlerOrchestratorService {
   /**
    * Finalize crawl session
    */
-  private finalizeCrawlSession(): void {
-    this.stats.endTime = Date.now();
-    const crawlStats = this.getCrawlStats();
+  private async finalizeCrawlSession(session: CrawlSession): Promise<void> {
+    session.finish();
+    const crawlStats = this.buildCrawlStats(session);
     
-    console.log(`[CrawlerOrchestrator] 🏁 Crawl session completed for ${this.currentSite}`);
+    console.log(`[CrawlerOrchestrator] 🏁 Crawl session ${session.id} completed for ${session.currentSite}`);
     console.log(`[CrawlerOrchestrator] 📊 Enhanced Performance Stats:`);
     console.log(`[CrawlerOrchestrator]   Total Pages: ${crawlStats.pagesCrawled}`);
     console.log(`[CrawlerOrchestrator]   Puppeteer Pages: ${crawlStats.performanceBreakdown.puppeteerPages} (${crawlStats.performanceBreakdown.puppeteerPercentage}%)`);
@@ -846,23 +924,52 @@ export class CrawlerOrchestratorService {
       });
     }
     
-    // Cleanup services
-    this.puppeteerHandlerService.closePuppeteerCluster();
-    this.contentSimilarityService.cleanupOldHashes();
+    // Cleanup session resources; the shared Puppeteer cluster is only closed
+    // once no other session is still using it
+    session.destroy();
+    this.activeSessions.delete(session.id);
+    if (this.activeSessions.size === 0) {
+      await this.puppeteerHandlerService.closePuppeteerCluster();
+    }
+  }
+
+  /**
+   * Get crawl statistics for a session. Defaults to the most recently started session.
+   */
+  getCrawlStats(sessionId?: string): any {
+    const session = sessionId ? this.activeSessions.get(sessionId) : this.lastSession;
+    if (!session) {
+      return null;
+    }
+    return this.buildCrawlStats(session);
   }
 
   /**
-   * Get crawl statistics
+   * Get the ids and progress of all sessions currently crawling
    */
-  private getCrawlStats(): any {
-    const duration = this.stats.endTime > 0 ? this.stats.endTime - this.stats.startTime : Date.now() - this.stats.startTime;
+  getActiveSessions(): Array<{ id: string; site: string; pagesCrawled: number; pendingUrls: number; startTime: number }> {
+    return Array.from(this.activeSessions.values()).map(session => ({
+      id: session.id,
+      site: session.currentSite,
+      pagesCrawled: session.stats.pagesCrawled,
+      pendingUrls: session.pendingUrls.length,
+      startTime: session.stats.startTime
+    }));
+  }
+
+  /**
+   * Build crawl statistics for a session
+   */
+  private buildCrawlStats(session: CrawlSession): any {
+    const stats = session.stats;
+    const duration = stats.endTime > 0 ? stats.endTime - stats.startTime : Date.now() - stats.startTime;
     
     // Calculate performance metrics
-    const averagePuppeteerTime = this.stats.puppeteerPagesCrawled > 0 
-      ? this.stats.puppeteerTotalTime / this.stats.puppeteerPagesCrawled 
+    const averagePuppeteerTime = stats.puppeteerPagesCrawled > 0 
+      ? stats.puppeteerTotalTime / stats.puppeteerPagesCrawled 
       : 0;
-    const averageStandardTime = this.stats.standardPagesCrawled > 0 
-      ? this.stats.standardTotalTime / this.stats.standardPagesCrawled 
+    const averageStandardTime = stats.standardPagesCrawled > 0 
+      ? stats.standardTotalTime / stats.standardPagesCrawled 
       : 0;
     
     // Calculate crawl efficiency (standard time vs Puppeteer time ratio)
@@ -871,43 +978,46 @@ export class CrawlerOrchestratorService {
       : 1.0;
     
     // Calculate method distribution
-    const puppeteerPercentage = this.stats.pagesCrawled > 0 
-      ? Math.round((this.stats.puppeteerPagesCrawled / this.stats.pagesCrawled) * 100)
+    const puppeteerPercentage = stats.pagesCrawled > 0 
+      ? Math.round((stats.puppeteerPagesCrawled / stats.pagesCrawled) * 100)
       : 0;
-    const standardPercentage = this.stats.pagesCrawled > 0 
-      ? Math.round((this.stats.standardPagesCrawled / this.stats.pagesCrawled) * 100)
+    const standardPercentage = stats.pagesCrawled > 0 
+      ? Math.round((stats.standardPagesCrawled / stats.pagesCrawled) * 100)
       : 0;
     
     return {
-      ...this.stats,
+      sessionId: session.id,
+      site: session.currentSite,
+      ...stats,
       duration,
-      averagePageTime: this.stats.pagesCrawled > 0 ? duration / this.stats.pagesCrawled : 0,
-      successRate: this.stats.pagesCrawled / (this.stats.pagesCrawled + this.stats.errorsEncountered),
+      averagePageTime: stats.pagesCrawled > 0 ? duration / stats.pagesCrawled : 0,
+      successRate: stats.pagesCrawled / (stats.pagesCrawled + stats.errorsEncountered),
       
       // Enhanced performance metrics
       performanceBreakdown: {
-        puppeteerPages: this.stats.puppeteerPagesCrawled,
-        standardPages: this.stats.standardPagesCrawled,
+        puppeteerPages: stats.puppeteerPagesCrawled,
+        standardPages: stats.standardPagesCrawled,
         averagePuppeteerTime: Math.round(averagePuppeteerTime),
         averageStandardTime: Math.round(averageStandardTime),
         crawlEfficiency,
         puppeteerPercentage,
         standardPercentage,
-        totalPuppeteerTime: this.stats.puppeteerTotalTime,
-        totalStandardTime: this.stats.standardTotalTime
+        totalPuppeteerTime: stats.puppeteerTotalTime,
+        totalStandardTime: stats.standardTotalTime
       },
       
       // Performance insights
       performanceInsights: this.generatePerformanceInsights({
-        puppeteerPages: this.stats.puppeteerPagesCrawled,
-        standardPages: this.stats.standardPagesCrawled,
+        puppeteerPages: stats.puppeteerPagesCrawled,
+        standardPages: stats.standardPagesCrawled,
         averagePuppeteerTime,
         averageStandardTime,
         crawlEfficiency
       }),
       
-      contentSimilarityStats: this.contentSimilarityService.getDebugStats(),
-      sitemapStats: this.sitemapDiscoveryService.getStats()
+      contentSimilarityStats: session.contentSimilarityService.getDebugStats(),
+      sitemapStats: session.sitemapDiscoveryService.getStats(),
+      robots: session.getRobotsSummary()
     };
   }
 
@@ -972,14 +1082,16 @@ export class CrawlerOrchestratorService {
    * Get current configuration
    */
   getConfiguration(): any {
+    const session = this.lastSession || this.defaultSession;
     return {
-      maxPages: this.MAX_PAGES,
-      concurrentRequests: this.adaptiveConcurrency,
-      crawlDelay: this.CRAWL_DELAY,
-      timeout: this.adaptiveTimeout,
+      maxPages: session.maxPages,
+      concurrentRequests: session.adaptiveConcurrency,
+      crawlDelay: session.crawlDelayMs,
+      timeout: session.adaptiveTimeout,
       userAgent: this.USER_AGENT,
-      cmsDetected: this.cmsDetectionService.getDetectedCMS(),
-      puppeteerEnabled: this.puppeteerHandlerService.isPuppeteerAvailable()
+      cmsDetected: session.cmsDetectionService.getDetectedCMS(),
+      puppeteerEnabled: this.puppeteerHandlerService.isPuppeteerAvailable(),
+      activeSessions: this.activeSessions.size
     };
   }
 
@@ -1034,7 +1146,8 @@ export class CrawlerOrchestratorService {
       pageLoadSpeed: this.transformPerformanceData(crawlerOutput.performance),
       keywordDensity: this.calculateKeywordDensity(crawlerOutput.content?.text || ''),
       readabilityScore: this.calculateReadabilityScore(crawlerOutput.content?.text || ''),
-      contentStructure: this.analyzeContentStructure(crawlerOutput)
+      contentStructure: this.analyzeContentStructure(crawlerOutput),
+      redirectChain: crawlerOutput.redirectChain
     };
 
     // Validate output data structure
@@ -1359,27 +1472,18 @@ export class CrawlerOrchestratorService {
   }
 
   /**
-   * Reset crawler state for new session
+   * Reset the standalone page-crawl state. Website crawls own isolated sessions
+   * and are not affected, so this is safe to call while audits are running.
    */
   reset(): void {
-    this.crawledUrls.clear();
-    this.pendingUrls = [];
-    this.responseCache.clear();
-    this.brokenLinks.clear();
-    this.dnsCache.clear();
-    this.performanceWindow = [];
-    
-    // Reset all services
-    this.cmsDetectionService.reset();
-    this.contentSimilarityService.clearContentHashes();
-    this.urlManagementService.reset();
-    this.sitemapDiscoveryService.reset();
-    
-    console.log('[CrawlerOrchestrator] 🔄 Crawler state reset');
     console.log(`[CrawlerOrchestrator] 📊 Cache stats before reset:`, {
       dnsCache: this.dnsCache.getStats(),
-      responseCache: this.responseCache.getStats()
+      responseCache: this.defaultSession.responseCache.getStats()
     });
+
+    this.defaultSession.reset();
+    
+    console.log('[CrawlerOrchestrator] 🔄 Crawler state reset');
   }
 
   /**
@@ -1388,11 +1492,13 @@ export class CrawlerOrchestratorService {
   destroy(): void {
     console.log(`[CrawlerOrchestrator] 🗑️ Destroying crawler with final cache stats:`, {
       dnsCache: this.dnsCache.getStats(),
-      responseCache: this.responseCache.getStats()
+      responseCache: this.defaultSession.responseCache.getStats()
     });
     
     this.dnsCache.destroy();
-    this.responseCache.destroy();
+    this.defaultSession.destroy();
+    this.activeSessions.forEach(session => session.destroy());
+    this.activeSessions.clear();
     this.puppeteerHandlerService.closePuppeteerCluster();
     
     console.log('[CrawlerOrchestrator] ✅ Crawler destroyed and cleaned up');
@@ -1404,7 +1510,8 @@ export class CrawlerOrchestratorService {
   getCacheStats() {
     return {
       dnsCache: this.dnsCache.getStats(),
-      responseCache: this.responseCache.getStats(),
+      responseCache: this.defaultSession.responseCache.getStats(),
+      activeSessions: this.activeSessions.size,
       totalMemoryEstimate: this.estimateTotalCacheMemory()
     };
   }
@@ -1414,10 +1521,11 @@ export class CrawlerOrchestratorService {
    */
   private estimateTotalCacheMemory(): string {
     const dnsStats = this.dnsCache.getStats();
-    const responseStats = this.responseCache.getStats();
+    const responseCacheSize = [this.defaultSession, ...this.activeSessions.values()]
+      .reduce((sum, session) => sum + session.responseCache.getStats().size, 0);
     
     // Rough calculation based on cache sizes
-    const estimatedBytes = (dnsStats.size * 50) + (responseStats.size * 1000); // DNS entries smaller, responses larger
+    const estimatedBytes = (dnsStats.size * 50) + (responseCacheSize * 1000); // DNS entries smaller, responses larger
     
     if (estimatedBytes < 1024) {
       return `${estimatedBytes} B`;
@@ -7,7 +7,14 @@ export { URLManagementService } from './url-management.service';
 export { SitemapDiscoveryService } from './sitemap-discovery.service';
 export { PuppeteerHandlerService } from './puppeteer-handler.service';
 export { CrawlerOrchestratorService } from './crawler-orchestrator.service';
+export { CrawlSession } from './crawl-session';
+export { RobotsTxt, RobotsTxtService, robotsTxtService } from './robots-txt.service';
+export { RedirectTracerService, RedirectRecorder, redirectTracerService } from './redirect-tracer.service';
+export { LinkGraphService, linkGraphService } from './link-graph.service';
 
 // Export types for external use
+export type { RobotsTxtStatus, RobotsTxtResult } from './robots-txt.service';
+export type { LinkGraphInput } from './link-graph.service';
 export type { CMSFingerprint, CMSOptimizations } from './cms-detection.service';
-export type { SimilarityResult } from './content-similarity.service';
\ No newline at end of file
+export type { SimilarityResult, NearDuplicateCluster } from './content-similarity.service';
+export type { CrawlSessionOptions, CrawlSessionStats, CrawlProgressEvent } from './crawl-session';
\ No newline at end of file
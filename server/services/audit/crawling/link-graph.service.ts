@@ -0,0 +1,181 @@
+import { URL } from 'url';
+import { CrawlerOutput, LinkGraph, LinkGraphNode, RedirectChain } from '../../../types/crawler';
+
+/**
+ * Link Graph Service
+ *
+ * Builds the site's internal link graph from the crawled pages:
+ * - Link targets are resolved through their recorded redirects, so a link to
+ *   a redirecting URL counts for the page it ends up on
+ * - Click depth is the shortest link path from the homepage
+ * - Internal PageRank shows how link authority flows through the site
+ * - Orphan pages are sitemap URLs no crawled page links to
+ * - Dead-end pages are crawled pages without links to other pages
+ */
+
+export interface LinkGraphInput {
+  homepageUrl: string;
+  pages: CrawlerOutput[];
+  sitemapUrls?: string[];
+  linkTargets?: Record<string, RedirectChain>;
+}
+
+export class LinkGraphService {
+  private readonly DAMPING_FACTOR = 0.85;
+  private readonly MAX_ITERATIONS = 50;
+  private readonly CONVERGENCE_THRESHOLD = 1e-6;
+
+  buildLinkGraph({ homepageUrl, pages, sitemapUrls = [], linkTargets = {} }: LinkGraphInput): LinkGraph {
+    const crawledPages = pages.filter(page => page?.status === 'success');
+    const resolve = this.createResolver(crawledPages, linkTargets);
+
+    const edges = new Map<string, Set<string>>();
+    for (const page of crawledPages) {
+      const targets = new Set<string>();
+      for (const link of page.links?.internal || []) {
+        const target = resolve(link);
+        if (target && target !== page.url) {
+          targets.add(target);
+        }
+      }
+      edges.set(page.url, targets);
+    }
+
+    const sitemapTargets = new Set(sitemapUrls.map(resolve).filter((url): url is string => !!url));
+    const nodeUrls = new Set<string>([
+      ...edges.keys(),
+      ...Array.from(edges.values()).flatMap(targets => Array.from(targets)),
+      ...sitemapTargets
+    ]);
+
+    const inDegrees = new Map<string, number>();
+    edges.forEach(targets => {
+      targets.forEach(target => inDegrees.set(target, (inDegrees.get(target) || 0) + 1));
+    });
+
+    const homepage = resolve(homepageUrl) || homepageUrl;
+    const clickDepths = this.calculateClickDepths(homepage, edges);
+    const pageRanks = this.calculatePageRank(Array.from(nodeUrls), edges);
+    const maxPageRank = Math.max(0, ...Array.from(pageRanks.values()));
+
+    const nodes: Record<string, LinkGraphNode> = {};
+    nodeUrls.forEach(url => {
+      const pageRank = pageRanks.get(url) || 0;
+      nodes[url] = {
+        url,
+        inDegree: inDegrees.get(url) || 0,
+        outDegree: edges.get(url)?.size || 0,
+        clickDepth: clickDepths.get(url) ?? null,
+        pageRank,
+        authority: maxPageRank > 0 ? Math.round((pageRank / maxPageRank) * 100) : 0,
+        crawled: edges.has(url),
+        inSitemap: sitemapTargets.has(url)
+      };
+    });
+
+    const nodeList = Object.values(nodes);
+    return {
+      homepageUrl: homepage,
+      nodes,
+      orphanPages: nodeList
+        .filter(node => node.inSitemap && node.inDegree === 0 && node.url !== homepage)
+        .map(node => node.url),
+      deadEndPages: nodeList
+        .filter(node => node.crawled && node.outDegree === 0)
+        .map(node => node.url)
+    };
+  }
+
+  /**
+   * Map a link to the graph node it reaches: crawled pages keep the URL they
+   * were crawled under, other targets follow their redirects when they load
+   */
+  private createResolver(crawledPages: CrawlerOutput[], linkTargets: Record<string, RedirectChain>): (url: string) => string | null {
+    const crawledUrls = new Set(crawledPages.map(page => page.url));
+    const pageByFinalUrl = new Map<string, string>();
+    for (const page of crawledPages) {
+      pageByFinalUrl.set(page.redirectChain?.finalUrl || page.url, page.url);
+    }
+
+    return (url: string) => {
+      const target = this.cleanUrl(url);
+      if (!target) return null;
+      if (crawledUrls.has(target)) return target;
+
+      const chain = linkTargets[target];
+      const finalUrl = chain && chain.hops.length > 0 && chain.finalStatusCode >= 200 && chain.finalStatusCode < 300
+        ? chain.finalUrl
+        : target;
+
+      return pageByFinalUrl.get(finalUrl) || finalUrl;
+    };
+  }
+
+  /**
+   * Breadth-first search over the links of crawled pages
+   */
+  private calculateClickDepths(homepageUrl: string, edges: Map<string, Set<string>>): Map<string, number> {
+    const depths = new Map<string, number>([[homepageUrl, 0]]);
+    const queue = [homepageUrl];
+
+    for (let i = 0; i < queue.length; i++) {
+      const url = queue[i];
+      const depth = depths.get(url)!;
+      edges.get(url)?.forEach(target => {
+        if (!depths.has(target)) {
+          depths.set(target, depth + 1);
+          queue.push(target);
+        }
+      });
+    }
+
+    return depths;
+  }
+
+  /**
+   * Iterative PageRank. Pages without outgoing links (dead ends and uncrawled
+   * targets) spread their rank evenly so the total stays 1.
+   */
+  private calculatePageRank(urls: string[], edges: Map<string, Set<string>>): Map<string, number> {
+    const count = urls.length;
+    let ranks = new Map(urls.map(url => [url, count > 0 ? 1 / count : 0]));
+    if (count === 0) return ranks;
+
+    for (let iteration = 0; iteration < this.MAX_ITERATIONS; iteration++) {
+      let danglingRank = 0;
+      for (const url of urls) {
+        if (!edges.get(url)?.size) {
+          danglingRank += ranks.get(url)!;
+        }
+      }
+
+      const base = (1 - this.DAMPING_FACTOR) / count + (this.DAMPING_FACTOR * danglingRank) / count;
+      const next = new Map(urls.map(url => [url, base]));
+
+      edges.forEach((targets, source) => {
+        if (targets.size === 0) return;
+        const share = (this.DAMPING_FACTOR * ranks.get(source)!) / targets.size;
+        targets.forEach(target => next.set(target, next.get(target)! + share));
+      });
+
+      const change = urls.reduce((sum, url) => sum + Math.abs(next.get(url)! - ranks.get(url)!), 0);
+      ranks = next;
+      if (change < this.CONVERGENCE_THRESHOLD) break;
+    }
+
+    return ranks;
+  }
+
+  private cleanUrl(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      return parsed.toString();
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Create and export singleton instance
+export const linkGraphService = new LinkGraphService();
@@ -0,0 +1,163 @@
+import axios from 'axios';
+import * as https from 'https';
+import { URL } from 'url';
+import { RedirectChain, RedirectHop } from '../../../types/crawler';
+
+/**
+ * Redirect Tracer Service
+ *
+ * Records the redirect chain behind a URL:
+ * - RedirectRecorder collects hops while axios follows redirects for a page fetch
+ * - traceUrl follows redirects one request at a time for URLs the crawler only links to
+ */
+
+const REDIRECT_STATUS_CODES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Protocol change between two URLs, if any
+ */
+export function getProtocolChange(from: string, to: string): RedirectHop['protocolChange'] {
+  try {
+    const fromProtocol = new URL(from).protocol;
+    const toProtocol = new URL(to).protocol;
+    if (fromProtocol === 'http:' && toProtocol === 'https:') return 'http-to-https';
+    if (fromProtocol === 'https:' && toProtocol === 'http:') return 'https-to-http';
+  } catch {
+    // Unparseable URLs have no protocol change
+  }
+  return undefined;
+}
+
+/**
+ * Collects redirect hops through axios' beforeRedirect hook
+ */
+export class RedirectRecorder {
+  private currentUrl: string;
+  private hops: RedirectHop[] = [];
+
+  constructor(readonly url: string) {
+    this.currentUrl = url;
+  }
+
+  /**
+   * Pass as axios' `beforeRedirect` option
+   */
+  beforeRedirect = (_options: Record<string, any>, responseDetails: { headers: Record<string, any>; statusCode: number }): void => {
+    const location = responseDetails.headers?.location;
+    if (!location) return;
+
+    const target = new URL(String(location), this.currentUrl).toString();
+    this.hops.push({
+      url: this.currentUrl,
+      statusCode: responseDetails.statusCode,
+      location: target,
+      protocolChange: getProtocolChange(this.currentUrl, target)
+    });
+    this.currentUrl = target;
+  };
+
+  /**
+   * Chain recorded so far, ending with the final response's status
+   */
+  build(finalStatusCode: number, error?: string): RedirectChain {
+    const visited = new Set<string>([this.url]);
+    const isLoop = this.hops.some(hop => {
+      if (visited.has(hop.location)) return true;
+      visited.add(hop.location);
+      return false;
+    });
+
+    return {
+      url: this.url,
+      finalUrl: this.currentUrl,
+      finalStatusCode,
+      hops: [...this.hops],
+      isLoop,
+      ...(error ? { error } : {})
+    };
+  }
+}
+
+export class RedirectTracerService {
+  private readonly MAX_REDIRECTS = 10; // Maximum number of redirects to follow
+  private readonly TRACE_TIMEOUT = 10000; // 10 seconds per request
+
+  /**
+   * Start recording the redirects of a request to `url`
+   */
+  createRecorder(url: string): RedirectRecorder {
+    return new RedirectRecorder(url);
+  }
+
+  /**
+   * Follow a URL's redirects hop by hop without downloading page bodies.
+   * Stops at the first repeated URL so loops are reported instead of retried.
+   */
+  async traceUrl(url: string, userAgent: string): Promise<RedirectChain> {
+    const hops: RedirectHop[] = [];
+    const visited = new Set<string>([url]);
+    let currentUrl = url;
+
+    try {
+      for (let i = 0; i <= this.MAX_REDIRECTS; i++) {
+        const { statusCode, location } = await this.requestOnce(currentUrl, userAgent);
+
+        if (!REDIRECT_STATUS_CODES.has(statusCode) || !location) {
+          return { url, finalUrl: currentUrl, finalStatusCode: statusCode, hops, isLoop: false };
+        }
+
+        const target = new URL(location, currentUrl).toString();
+        hops.push({
+          url: currentUrl,
+          statusCode,
+          location: target,
+          protocolChange: getProtocolChange(currentUrl, target)
+        });
+
+        if (visited.has(target)) {
+          return { url, finalUrl: target, finalStatusCode: statusCode, hops, isLoop: true };
+        }
+
+        visited.add(target);
+        currentUrl = target;
+      }
+
+      return { url, finalUrl: currentUrl, finalStatusCode: -1, hops, isLoop: false, error: 'Too many redirects' };
+    } catch (error) {
+      return {
+        url,
+        finalUrl: currentUrl,
+        finalStatusCode: -1,
+        hops,
+        isLoop: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * A single request that does not follow redirects. Uses HEAD and falls back
+   * to GET for servers that do not support it.
+   */
+  private async requestOnce(url: string, userAgent: string): Promise<{ statusCode: number; location?: string }> {
+    const config = {
+      headers: { 'User-Agent': userAgent },
+      timeout: this.TRACE_TIMEOUT,
+      maxRedirects: 0,
+      httpsAgent: new https.Agent({ rejectUnauthorized: false }),
+      validateStatus: () => true
+    };
+
+    let response = await axios.head(url, config);
+    if (response.status === 405 || response.status === 501) {
+      response = await axios.get(url, { ...config, responseType: 'stream' });
+      response.data?.destroy?.();
+    }
+
+    const location = response.headers?.location;
+    return { statusCode: response.status, location: location ? String(location) : undefined };
+  }
+}
+
+// Create and export singleton instance
+export const redirectTracerService = new RedirectTracerService();
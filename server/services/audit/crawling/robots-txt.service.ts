@@ -0,0 +1,248 @@
+import axios from 'axios';
+import { URL } from 'url';
+
+/**
+ * Robots.txt Service
+ *
+ * Parses robots.txt following RFC 9309:
+ * - Groups of consecutive User-agent lines share the rules that follow them
+ * - The most specific matching user-agent group applies, falling back to "*"
+ * - Allow/Disallow patterns support "*" wildcards and a trailing "$" anchor
+ * - The longest matching pattern wins; Allow wins a tie
+ * - Crawl-delay (non-standard) and Sitemap lines are also read
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[]; // lowercased tokens
+  rules: RobotsRule[];
+  crawlDelay?: number; // seconds
+}
+
+export type RobotsTxtStatus = 'found' | 'not_found' | 'unreachable' | 'ignored';
+
+export interface RobotsTxtResult {
+  robots: RobotsTxt;
+  status: RobotsTxtStatus;
+}
+
+/**
+ * Parsed robots.txt file
+ */
+export class RobotsTxt {
+  private readonly groups: RobotsGroup[];
+  readonly sitemaps: string[];
+
+  constructor(groups: RobotsGroup[] = [], sitemaps: string[] = []) {
+    this.groups = groups;
+    this.sitemaps = sitemaps;
+  }
+
+  /**
+   * A robots.txt without rules, which allows everything
+   */
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt();
+  }
+
+  /**
+   * Parse robots.txt content
+   */
+  static parse(content: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasUserAgent = false;
+
+    for (const rawLine of content.split(/\r\n|\r|\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const key = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      switch (key) {
+        case 'user-agent':
+          // Consecutive User-agent lines belong to the same group
+          if (!current || !lastWasUserAgent) {
+            current = { userAgents: [], rules: [] };
+            groups.push(current);
+          }
+          current.userAgents.push(value.toLowerCase());
+          lastWasUserAgent = true;
+          continue;
+        case 'allow':
+        case 'disallow':
+          // An empty Disallow allows everything, so it adds no rule
+          if (current && value) {
+            current.rules.push({ allow: key === 'allow', pattern: value });
+          }
+          break;
+        case 'crawl-delay': {
+          const delay = parseFloat(value);
+          if (current && !isNaN(delay) && delay >= 0) {
+            current.crawlDelay = delay;
+          }
+          break;
+        }
+        case 'sitemap':
+          if (value) {
+            sitemaps.push(value);
+          }
+          break;
+      }
+
+      lastWasUserAgent = false;
+    }
+
+    return new RobotsTxt(groups, sitemaps);
+  }
+
+  /**
+   * Whether a URL (or path) may be crawled by the given user agent
+   */
+  isAllowed(url: string, userAgent: string): boolean {
+    const path = RobotsTxt.getPath(url);
+    if (path === '/robots.txt') return true;
+
+    let bestMatch: RobotsRule | null = null;
+
+    for (const rule of this.getRules(userAgent)) {
+      if (!RobotsTxt.matches(rule.pattern, path)) continue;
+
+      if (
+        !bestMatch ||
+        rule.pattern.length > bestMatch.pattern.length ||
+        (rule.pattern.length === bestMatch.pattern.length && rule.allow && !bestMatch.allow)
+      ) {
+        bestMatch = rule;
+      }
+    }
+
+    return bestMatch ? bestMatch.allow : true;
+  }
+
+  /**
+   * Crawl-delay in seconds for the given user agent, if set
+   */
+  getCrawlDelay(userAgent: string): number | undefined {
+    const delays = this.getGroups(userAgent)
+      .map(group => group.crawlDelay)
+      .filter((delay): delay is number => delay !== undefined);
+
+    return delays.length > 0 ? Math.max(...delays) : undefined;
+  }
+
+  /**
+   * Groups that apply to a user agent: those with the longest token matching
+   * the agent's product token, or the "*" groups when none match
+   */
+  private getGroups(userAgent: string): RobotsGroup[] {
+    const productToken = userAgent.split('/')[0].trim().toLowerCase();
+
+    let bestToken = '';
+    for (const group of this.groups) {
+      for (const token of group.userAgents) {
+        if (token !== '*' && productToken.startsWith(token) && token.length > bestToken.length) {
+          bestToken = token;
+        }
+      }
+    }
+
+    const selected = bestToken || '*';
+    return this.groups.filter(group => group.userAgents.includes(selected));
+  }
+
+  private getRules(userAgent: string): RobotsRule[] {
+    return this.getGroups(userAgent).flatMap(group => group.rules);
+  }
+
+  /**
+   * Path and query of a URL, which is what robots.txt patterns match against
+   */
+  private static getPath(url: string): string {
+    try {
+      const parsed = new URL(url, 'http://robots.invalid');
+      return `${parsed.pathname}${parsed.search}` || '/';
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Match a robots.txt pattern against a path.
+   * "*" matches any sequence of characters and a trailing "$" anchors the end.
+   */
+  private static matches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const source = body
+      .split('*')
+      .map(part => RobotsTxt.normalizeEncoding(part).replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+  }
+
+  /**
+   * Percent-encode characters in a pattern the way URL paths are encoded
+   */
+  private static normalizeEncoding(value: string): string {
+    try {
+      return encodeURI(decodeURI(value));
+    } catch {
+      return value;
+    }
+  }
+}
+
+/**
+ * Fetches robots.txt for a site
+ */
+export class RobotsTxtService {
+  private readonly ROBOTS_TIMEOUT = 5000; // 5 seconds timeout for robots.txt
+
+  /**
+   * Fetch and parse a site's robots.txt.
+   * A missing file allows everything; so does an unreachable one, since an
+   * audit would otherwise fail outright on a slow or broken server.
+   */
+  async fetchRobotsTxt(siteUrl: string, userAgent: string): Promise<RobotsTxtResult> {
+    const robotsUrl = new URL('/robots.txt', siteUrl).toString();
+
+    try {
+      const response = await axios.get(robotsUrl, {
+        timeout: this.ROBOTS_TIMEOUT,
+        headers: { 'User-Agent': userAgent },
+        responseType: 'text',
+        maxContentLength: 500 * 1024, // RFC 9309 requires parsing at least 500 KiB
+        validateStatus: () => true
+      });
+
+      if (response.status >= 400 && response.status < 500) {
+        console.log(`[RobotsTxt] No robots.txt at ${robotsUrl} (${response.status}), all URLs allowed`);
+        return { robots: RobotsTxt.allowAll(), status: 'not_found' };
+      }
+
+      if (response.status !== 200) {
+        console.log(`[RobotsTxt] WARN: robots.txt at ${robotsUrl} returned ${response.status}, all URLs allowed`);
+        return { robots: RobotsTxt.allowAll(), status: 'unreachable' };
+      }
+
+      const robots = RobotsTxt.parse(String(response.data));
+      console.log(`[RobotsTxt] Loaded robots.txt from ${robotsUrl}`);
+      return { robots, status: 'found' };
+    } catch (error) {
+      console.log(`[RobotsTxt] WARN: Could not read ${robotsUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { robots: RobotsTxt.allowAll(), status: 'unreachable' };
+    }
+  }
+}
+
+// Create and export singleton instance
+export const robotsTxtService = new RobotsTxtService();
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import * as xml2js from 'xml2js';
 import { URL } from 'url';
+import { RobotsTxt } from './robots-txt.service';
 
 /**
  * Sitemap Discovery Service
@@ -186,20 +187,7 @@ export class SitemapDiscoveryService {
    * Parse robots.txt content for sitemap references
    */
   private parseRobotsForSitemaps(robotsContent: string): string[] {
-    const sitemapUrls: string[] = [];
-    const lines = robotsContent.split('\n');
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (trimmedLine.toLowerCase().startsWith('sitemap:')) {
-        const sitemapUrl = trimmedLine.substring(8).trim();
-        if (sitemapUrl && this.isValidSitemapUrl(sitemapUrl)) {
-          sitemapUrls.push(sitemapUrl);
-        }
-      }
-    }
-    
-    return sitemapUrls;
+    return RobotsTxt.parse(robotsContent).sitemaps.filter(sitemapUrl => this.isValidSitemapUrl(sitemapUrl));
   }
 
   /**
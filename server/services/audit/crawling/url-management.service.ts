@@ -7,8 +7,11 @@
  * - URL prioritization by importance
  * - CMS-specific URL filtering
  * - Early termination checks
+ * - robots.txt rules
  */
 
+import { RobotsTxt } from './robots-txt.service';
+
 export interface UrlProcessingResult {
   url: string;
   valid: boolean;
@@ -36,6 +39,10 @@ export class URLManagementService {
   // Detected CMS type for filtering
   private detectedCMS: string = 'unknown';
 
+  // robots.txt rules enforced for this crawl (null when robots are ignored)
+  private robotsTxt: RobotsTxt | null = null;
+  private robotsUserAgent = '*';
+
   /**
    * Set the detected CMS type for filtering
    */
@@ -43,6 +50,21 @@ export class URLManagementService {
     this.detectedCMS = cms;
   }
 
+  /**
+   * Set the robots.txt rules to enforce, or null to ignore robots.txt
+   */
+  setRobotsTxt(robots: RobotsTxt | null, userAgent: string): void {
+    this.robotsTxt = robots;
+    this.robotsUserAgent = userAgent;
+  }
+
+  /**
+   * Check if robots.txt allows crawling a URL
+   */
+  isAllowedByRobots(url: string): boolean {
+    return this.robotsTxt ? this.robotsTxt.isAllowed(url, this.robotsUserAgent) : true;
+  }
+
   /**
    * Normalize URL by cleaning and validating format
    */
@@ -129,6 +151,7 @@ export class URLManagementService {
     concurrentRequests: number;
     userAgent: string;
     axios: any;
+    crawlDelayMs?: number;
   }): Promise<string[]> {
     if (!options.prefilterContentTypes || urls.length === 0) {
       return urls;
@@ -205,7 +228,7 @@ export class URLManagementService {
       
       // Add delay between batches to be respectful
       if (i + batchSize < urls.length) {
-        await new Promise(resolve => setTimeout(resolve, 500));
+        await new Promise(resolve => setTimeout(resolve, options.crawlDelayMs ?? 500));
       }
     }
     
@@ -459,6 +482,9 @@ export class URLManagementService {
       const pathname = parsedUrl.pathname.toLowerCase();
       if (skipPaths.some(path => pathname.includes(path))) return false;
       
+      // Respect robots.txt
+      if (!this.isAllowedByRobots(url)) return false;
+      
       // Check skip logic
       if (this.shouldSkipUrl(url, crawledUrls)) return false;
       
@@ -646,6 +672,7 @@ export class URLManagementService {
    */
   reset(): void {
     this.detectedCMS = '';
+    this.robotsTxt = null;
     console.log('[UrlManager] Service state reset');
   }
 }
@@ -1,14 +1,26 @@
 import * as cheerio from 'cheerio';
 import { PageCrawlResult, SiteStructure } from './audit.service';
-import { PageIssueSummary } from '../../../shared/schema';
+import { PageIssueSummary, InternalLinkingSummary, DuplicateContentSummary, KeywordCannibalizationSummary, CustomAuditRule, ContentDepthPage } from '../../../shared/schema';
 import { PagePriorityService, PagePriority } from './page-priority.service';
+import { PagePerformanceIndex, getImpressionImpact } from '../search-console/search-performance.service';
 import { OFIClassificationService } from './ofi-classification.service';
 import {
   ContentQualityAnalyzer,
   TechnicalSEOAnalyzer,
   LocalSEOAnalyzer,
   UXPerformanceAnalyzer,
-  type AnalysisFactor
+  RedirectStatusAnalyzer,
+  REDIRECT_STATUS_CATEGORY,
+  InternalLinkAnalyzer,
+  INTERNAL_LINK_CATEGORY,
+  DuplicateContentAnalyzer,
+  DUPLICATE_CONTENT_CATEGORY,
+  KeywordCannibalizationAnalyzer,
+  KEYWORD_CANNIBALIZATION_CATEGORY,
+  CustomRuleAnalyzer,
+  CUSTOM_RULE_CATEGORY,
+  type AnalysisFactor,
+  type DuplicateContentAnalysis
 } from './analyzers';
 
 /**
@@ -23,6 +35,11 @@ class EnhancedAuditAnalyzer {
   private technicalAnalyzer: TechnicalSEOAnalyzer;
   private localSeoAnalyzer: LocalSEOAnalyzer;
   private uxAnalyzer: UXPerformanceAnalyzer;
+  private redirectAnalyzer: RedirectStatusAnalyzer;
+  private internalLinkAnalyzer: InternalLinkAnalyzer;
+  private duplicateContentAnalyzer: DuplicateContentAnalyzer;
+  private keywordCannibalizationAnalyzer: KeywordCannibalizationAnalyzer;
+  private customRuleAnalyzer: CustomRuleAnalyzer;
   
   // Page Priority Analysis
   private priorityService = new PagePriorityService();
@@ -31,19 +48,34 @@ class EnhancedAuditAnalyzer {
     contentAnalyzer?: ContentQualityAnalyzer,
     technicalAnalyzer?: TechnicalSEOAnalyzer,
     localSeoAnalyzer?: LocalSEOAnalyzer,
-    uxAnalyzer?: UXPerformanceAnalyzer
+    uxAnalyzer?: UXPerformanceAnalyzer,
+    redirectAnalyzer?: RedirectStatusAnalyzer,
+    internalLinkAnalyzer?: InternalLinkAnalyzer,
+    duplicateContentAnalyzer?: DuplicateContentAnalyzer,
+    customRuleAnalyzer?: CustomRuleAnalyzer,
+    keywordCannibalizationAnalyzer?: KeywordCannibalizationAnalyzer
   ) {
     // Use dependency injection with fallback to default instances
     this.contentAnalyzer = contentAnalyzer || new ContentQualityAnalyzer();
     this.technicalAnalyzer = technicalAnalyzer || new TechnicalSEOAnalyzer();
     this.localSeoAnalyzer = localSeoAnalyzer || new LocalSEOAnalyzer();
     this.uxAnalyzer = uxAnalyzer || new UXPerformanceAnalyzer();
+    this.redirectAnalyzer = redirectAnalyzer || new RedirectStatusAnalyzer();
+    this.internalLinkAnalyzer = internalLinkAnalyzer || new InternalLinkAnalyzer();
+    this.duplicateContentAnalyzer = duplicateContentAnalyzer || new DuplicateContentAnalyzer();
+    this.customRuleAnalyzer = customRuleAnalyzer || new CustomRuleAnalyzer();
+    this.keywordCannibalizationAnalyzer = keywordCannibalizationAnalyzer || new KeywordCannibalizationAnalyzer();
   }
 
   /**
-   * Perform comprehensive 200+ factor analysis on a website with priority weighting
+   * Perform comprehensive 200+ factor analysis on a website with priority weighting,
+   * plus the user's and project's custom rules. With the project's Search Console
+   * performance, pages with real impressions weigh more.
    */
-  async analyzeWebsite(siteStructure: SiteStructure): Promise<EnhancedAuditResult> {
+  async analyzeWebsite(
+    siteStructure: SiteStructure,
+    options: { customRules?: CustomAuditRule[]; searchPerformance?: PagePerformanceIndex | null } = {}
+  ): Promise<EnhancedAuditResult> {
     console.log('[EnhancedAnalyzer] Starting comprehensive 200+ factor analysis');
     
     const results: EnhancedAuditResult = {
@@ -148,18 +180,42 @@ class EnhancedAuditAnalyzer {
     }
 
     // Site-wide analysis
-    const siteWideAnalysis = await this.analyzeSiteWide(siteStructure);
+    // Duplicate and near-duplicate clusters across every crawled page
+    const duplicateAnalysis = this.duplicateContentAnalyzer.analyze(siteStructure);
+
+    const siteWideAnalysis = await this.analyzeSiteWide(siteStructure, duplicateAnalysis);
     this.mergeSiteWideResults(results, siteWideAnalysis);
+    this.mergeDuplicateContentResults(results, duplicateAnalysis);
+
+    // Pages competing for the same primary keyword and intent
+    await this.mergeKeywordCannibalizationResults(results, siteStructure, options.searchPerformance);
+
+    // Redirect and HTTP status checks from the crawler's redirect chains
+    this.mergeRedirectStatusResults(results, siteStructure);
+
+    // Internal link graph: starved key pages, click depth and dead ends
+    this.mergeInternalLinkResults(results, siteStructure);
+
+    // Agency-defined rules, reported under the category each rule names
+    this.mergeCustomRuleResults(results, siteStructure, options.customRules || []);
 
     // Calculate final summary
     this.calculateSummary(results);
 
+    // Impressions of each item's page, weighted by the item's status and importance
+    if (options.searchPerformance) {
+      this.applySearchPerformance(results, options.searchPerformance);
+    }
+
     // Generate page issue summaries with priority weighting
-    results.pageIssues = this.generatePageIssueSummaries(results, siteStructure);
+    results.pageIssues = this.generatePageIssueSummaries(results, siteStructure, options.searchPerformance);
 
     // Calculate weighted OFI scores and priority breakdown
     this.calculateWeightedSummary(results, siteStructure);
 
+    // Keep the depth of service and location pages for comparisons with competitors
+    results.contentDepth = this.summarizeContentDepth(siteStructure);
+
     console.log(`[EnhancedAnalyzer] Completed analysis: ${results.summary.totalFactors} factors evaluated`);
     console.log(`[EnhancedAnalyzer] Enhanced categories: Content Quality (${results.contentQuality?.items.length || 0}), Technical SEO (${results.technicalSEO?.items.length || 0}), Local SEO (${results.localSEO?.items.length || 0}), UX Performance (${results.uxPerformance?.items.length || 0})`);
     return results;
@@ -186,12 +242,12 @@ class EnhancedAuditAnalyzer {
   /**
    * Analyze site-wide factors
    */
-  private async analyzeSiteWide(siteStructure: SiteStructure): Promise<SiteWideAnalysisResult> {
+  private async analyzeSiteWide(siteStructure: SiteStructure, duplicateAnalysis: DuplicateContentAnalysis): Promise<SiteWideAnalysisResult> {
     return {
       navigation: await this.analyzeNavigation(siteStructure),
       internalLinking: await this.analyzeInternalLinking(siteStructure),
       contentConsistency: await this.analyzeContentConsistency(siteStructure),
-      duplicateContent: await this.analyzeDuplicateContent(siteStructure)
+      duplicateContent: await this.analyzeDuplicateContent(siteStructure, duplicateAnalysis)
     };
   }
 
@@ -274,6 +330,73 @@ class EnhancedAuditAnalyzer {
     this.mergeUniqueItems(results.onPage.items, this.convertToAuditItems(analysis.duplicateContent, 'Duplicate Content'));
   }
 
+  private mergeRedirectStatusResults(results: EnhancedAuditResult, siteStructure: SiteStructure) {
+    const analysis = this.redirectAnalyzer.analyze(siteStructure);
+
+    // Failed checks stay one item per source page (not merged by name) so
+    // pageIssues attributes every redirect and broken link to its page
+    for (const { page, pageType, factors } of analysis.pageFactors) {
+      const pageInfo = { url: page.url, title: page.title || 'Untitled Page', type: pageType };
+      results.technicalSEO.items.push(...this.convertToAuditItems(factors, REDIRECT_STATUS_CATEGORY, pageInfo));
+    }
+    this.mergeUniqueItems(results.technicalSEO.items, this.convertToAuditItems(analysis.siteFactors, REDIRECT_STATUS_CATEGORY));
+
+    console.log(`[EnhancedAnalyzer] Redirects & HTTP Status: ${analysis.pageFactors.length} pages with issues, ${analysis.siteFactors.length} checks passed`);
+  }
+
+  private mergeDuplicateContentResults(results: EnhancedAuditResult, analysis: DuplicateContentAnalysis) {
+    // Every cluster is its own item, listing all of its pages
+    results.contentQuality.items.push(...this.convertToAuditItems(analysis.clusterFactors, DUPLICATE_CONTENT_CATEGORY));
+    this.mergeUniqueItems(results.contentQuality.items, this.convertToAuditItems(analysis.siteFactors, DUPLICATE_CONTENT_CATEGORY));
+    results.duplicateContent = analysis.summary;
+
+    console.log(`[EnhancedAnalyzer] Duplicate Content: ${analysis.summary.clusters.length} clusters across ${analysis.summary.pagesCompared} pages`);
+  }
+
+  private async mergeKeywordCannibalizationResults(
+    results: EnhancedAuditResult,
+    siteStructure: SiteStructure,
+    searchPerformance?: PagePerformanceIndex | null
+  ) {
+    const analysis = await this.keywordCannibalizationAnalyzer.analyze(siteStructure, searchPerformance);
+
+    // Every group is its own item, listing its competing pages and the suggested canonical page
+    results.contentQuality.items.push(...this.convertToAuditItems(analysis.groupFactors, KEYWORD_CANNIBALIZATION_CATEGORY));
+    this.mergeUniqueItems(results.contentQuality.items, this.convertToAuditItems(analysis.siteFactors, KEYWORD_CANNIBALIZATION_CATEGORY));
+    results.keywordCannibalization = analysis.summary;
+
+    console.log(`[EnhancedAnalyzer] Keyword Cannibalization: ${analysis.summary.groups.length} groups across ${analysis.summary.pagesAnalyzed} pages`);
+  }
+
+  private mergeInternalLinkResults(results: EnhancedAuditResult, siteStructure: SiteStructure) {
+    const analysis = this.internalLinkAnalyzer.analyze(siteStructure);
+
+    // One item per affected page, like the redirect checks
+    for (const { page, pageType, factors } of analysis.pageFactors) {
+      const pageInfo = { url: page.url, title: page.title || 'Untitled Page', type: pageType };
+      results.technicalSEO.items.push(...this.convertToAuditItems(factors, INTERNAL_LINK_CATEGORY, pageInfo));
+    }
+    this.mergeUniqueItems(results.technicalSEO.items, this.convertToAuditItems(analysis.siteFactors, INTERNAL_LINK_CATEGORY));
+    results.internalLinking = analysis.summary;
+
+    console.log(`[EnhancedAnalyzer] Internal Link Authority: ${analysis.pageFactors.length} pages with issues, ${analysis.summary?.starvedPageCount || 0} starved key pages`);
+  }
+
+  private mergeCustomRuleResults(results: EnhancedAuditResult, siteStructure: SiteStructure, rules: CustomAuditRule[]) {
+    if (rules.length === 0) return;
+    const analysis = this.customRuleAnalyzer.analyze(siteStructure, rules);
+
+    for (const { page, pageType, category, factors } of analysis.pageFactors) {
+      const pageInfo = { url: page.url, title: page.title || 'Untitled Page', type: pageType };
+      results[category].items.push(...this.convertToAuditItems(factors, CUSTOM_RULE_CATEGORY, pageInfo));
+    }
+    for (const { category, factor } of analysis.siteFactors) {
+      results[category].items.push(...this.convertToAuditItems([factor], CUSTOM_RULE_CATEGORY));
+    }
+
+    console.log(`[EnhancedAnalyzer] Custom Rules: ${rules.length} rules, ${analysis.pageFactors.length} page results with failures`);
+  }
+
   /**
    * Convert analysis factors to audit items with page information
    */
@@ -678,8 +801,20 @@ class EnhancedAuditAnalyzer {
     // Generate specific recommendations based on the item name and context
     let recommendation = '';
     
+    // Redirect, HTTP status, link graph, duplicate content and keyword cannibalization findings already
+    // list the affected pages; custom rules carry the agency's own notes
+    if ([
+      REDIRECT_STATUS_CATEGORY,
+      INTERNAL_LINK_CATEGORY,
+      DUPLICATE_CONTENT_CATEGORY,
+      KEYWORD_CANNIBALIZATION_CATEGORY,
+      CUSTOM_RULE_CATEGORY
+    ].includes(item.category)) {
+      recommendation = item.notes;
+    }
+
     // Content Quality recommendations
-    if (name.includes('content length') || name.includes('sufficient content')) {
+    else if (name.includes('content length') || name.includes('sufficient content')) {
       recommendation = 'What: Your page content is too brief to effectively communicate with visitors and search engines.\n\nWhy: Detailed content establishes expertise, helps visitors understand your services, and gives search engines more context to rank your pages.\n\nHow: Expand your content to 300-500 words minimum by adding service benefits, process explanations, and local expertise details.';
     } else if (name.includes('keyword density')) {
       recommendation = 'What: Your target keywords are either missing or used unnaturally throughout the content.\n\nWhy: Proper keyword usage helps search engines understand your page topic while maintaining readability for visitors.\n\nHow: Naturally integrate your main keywords 2-3 times throughout the content, using semantic variations and related terms.';
@@ -809,10 +944,34 @@ class EnhancedAuditAnalyzer {
       - Normalization Factors: Size(${weightedOFI.normalizationFactors.sizeNormalization}), Balance(${Math.round(weightedOFI.normalizationFactors.distributionBalance * 100) / 100}), Representation(${weightedOFI.normalizationFactors.tierRepresentation})`);
   }
 
+  /**
+   * Set the Search Console impressions of each page-level item's page and the
+   * item's impression-weighted impact
+   */
+  private applySearchPerformance(results: EnhancedAuditResult, searchPerformance: PagePerformanceIndex): void {
+    const sections = [
+      results.onPage, results.structureNavigation, results.contactPage, results.servicePages,
+      results.locationPages, results.serviceAreaPages, results.contentQuality, results.technicalSEO,
+      results.localSEO, results.uxPerformance
+    ];
+
+    for (const item of sections.flatMap(section => section.items)) {
+      const performance = item.pageUrl ? searchPerformance.get(item.pageUrl) : undefined;
+      if (!performance) continue;
+
+      item.impressions = performance.impressions;
+      item.impressionImpact = getImpressionImpact(item, performance.impressions);
+    }
+  }
+
   /**
    * Generate page-specific issue summaries for the dropdown with priority weighting
    */
-  private generatePageIssueSummaries(results: EnhancedAuditResult, siteStructure: SiteStructure): PageIssueSummary[] {
+  private generatePageIssueSummaries(
+    results: EnhancedAuditResult,
+    siteStructure: SiteStructure,
+    searchPerformance?: PagePerformanceIndex | null
+  ): PageIssueSummary[] {
     const allItems = [
       ...results.onPage.items,
       ...results.structureNavigation.items,
@@ -879,7 +1038,10 @@ class EnhancedAuditAnalyzer {
         // Determine page priority
         const pageData = this.findPageInStructure(pageUrl, siteStructure);
         const pageType = firstItem.pageType || 'unknown';
-        const priority = pageData ? this.priorityService.getPagePriority(pageData, pageType) : PagePriority.TIER_3;
+        const priority = pageData
+          ? this.priorityService.getPagePriority(pageData, pageType, siteStructure.linkGraph, searchPerformance)
+          : PagePriority.TIER_3;
+        const performance = searchPerformance?.get(pageUrl);
         const priorityWeight = this.priorityService.getPriorityWeight(priority);
         
         // Calculate basic page score (percentage of OK items)
@@ -902,7 +1064,9 @@ class EnhancedAuditAnalyzer {
           totalIssues,
           score,
           weightedScore,
-          topIssues
+          topIssues,
+          impressions: performance?.impressions,
+          clicks: performance?.clicks
         });
       }
     });
@@ -922,6 +1086,28 @@ class EnhancedAuditAnalyzer {
     });
   }
 
+  /**
+   * Word, heading and image counts of the service, location and service area pages
+   */
+  private summarizeContentDepth(siteStructure: SiteStructure): ContentDepthPage[] {
+    const pagesByType: Array<[ContentDepthPage['pageType'], PageCrawlResult[]]> = [
+      ['service', siteStructure.servicePages],
+      ['location', siteStructure.locationPages],
+      ['serviceArea', siteStructure.serviceAreaPages]
+    ];
+
+    return pagesByType.flatMap(([pageType, pages]) => pages.map(page => ({
+      pageUrl: page.url,
+      pageTitle: page.title || page.url,
+      pageType,
+      h1: page.h1s?.[0] || null,
+      wordCount: page.wordCount || 0,
+      headingCount: (page.h2s?.length || 0) + (page.h3s?.length || 0),
+      imageCount: page.images?.total || 0,
+      hasSchema: page.hasSchema === true
+    })));
+  }
+
   /**
    * Find a page in the site structure by URL
    */
@@ -1012,14 +1198,19 @@ class EnhancedAuditAnalyzer {
       notes: `Internal linking quality score: ${linkingQuality}%. Good internal linking helps with SEO and user navigation.`
     });
 
-    // Check for orphaned pages
-    const orphanedPages = this.findOrphanedPages(allPages);
+    // Check for orphaned pages: sitemap URLs without internal links when the
+    // link graph is available, otherwise estimated from the crawled pages
+    const orphanUrls = siteStructure.linkGraph?.orphanPages;
+    const orphanedPages = orphanUrls ? orphanUrls.length : this.findOrphanedPages(allPages);
+    const listedOrphans = orphanUrls && orphanUrls.length > 0
+      ? ` Not linked from any crawled page: ${orphanUrls.slice(0, 5).join(', ')}${orphanUrls.length > 5 ? ` and ${orphanUrls.length - 5} more` : ''}.`
+      : '';
     factors.push({
       name: "Orphaned Pages Detection",
       description: "All pages should be linked from other pages",
       status: orphanedPages === 0 ? "OK" : orphanedPages <= 2 ? "OFI" : "Priority OFI",
       importance: "Medium",
-      notes: `Found ${orphanedPages} potentially orphaned pages. All important pages should be linked from other pages.`
+      notes: `Found ${orphanedPages} ${orphanUrls ? '' : 'potentially '}orphaned pages. All important pages should be linked from other pages.${listedOrphans}`
     });
 
     return factors;
@@ -1059,7 +1250,7 @@ class EnhancedAuditAnalyzer {
     return factors;
   }
 
-  private async analyzeDuplicateContent(siteStructure: SiteStructure): Promise<AnalysisFactor[]> {
+  private async analyzeDuplicateContent(siteStructure: SiteStructure, duplicateAnalysis: DuplicateContentAnalysis): Promise<AnalysisFactor[]> {
     const factors: AnalysisFactor[] = [];
     
     const allPages = [
@@ -1070,8 +1261,8 @@ class EnhancedAuditAnalyzer {
       ...siteStructure.serviceAreaPages
     ].filter(Boolean) as PageCrawlResult[];
 
-    // Check for duplicate content
-    const duplicateContent = this.detectDuplicateContent(allPages);
+    // Check for duplicate content: every near-duplicate page beyond the first in its cluster
+    const duplicateContent = this.countNearDuplicatePages(duplicateAnalysis);
     factors.push({
       name: "Duplicate Content Detection",
       description: "Each page should have unique, valuable content",
@@ -1112,7 +1303,15 @@ class EnhancedAuditAnalyzer {
   }
 
   private calculateNavigationDepth(siteStructure: SiteStructure): number {
-    // Simplified depth calculation based on URL structure
+    // Click depth from the link graph when available
+    if (siteStructure.linkGraph) {
+      const depths = Object.values(siteStructure.linkGraph.nodes)
+        .filter(node => node.crawled && node.clickDepth !== null)
+        .map(node => node.clickDepth as number);
+      return depths.length > 0 ? Math.max(...depths) : 0;
+    }
+
+    // Otherwise a simplified depth calculation based on URL structure
     const allPages = [
       siteStructure.homepage,
       siteStructure.contactPage,
@@ -1206,27 +1405,19 @@ class EnhancedAuditAnalyzer {
     return businessNames.size <= 1 ? 100 : Math.max(0, 100 - (businessNames.size * 20));
   }
 
-  private detectDuplicateContent(pages: PageCrawlResult[]): { percentage: number, pages: number } {
-    if (pages.length < 2) return { percentage: 0, pages: 0 };
-    
-    let duplicatePages = 0;
-    const contentHashes = new Map<string, number>();
-    
-    pages.forEach(page => {
-      // Simple content similarity check using first 200 characters
-      const contentSnippet = page.bodyText.substring(0, 200).toLowerCase().replace(/\s+/g, ' ');
-      
-      if (contentHashes.has(contentSnippet)) {
-        duplicatePages++;
-      } else {
-        contentHashes.set(contentSnippet, 1);
-      }
-    });
-    
-    const percentage = Math.round((duplicatePages / pages.length) * 100);
+  private countNearDuplicatePages(duplicateAnalysis: DuplicateContentAnalysis): { percentage: number, pages: number } {
+    const { clusters, pagesCompared } = duplicateAnalysis.summary;
+    if (pagesCompared < 2) return { percentage: 0, pages: 0 };
+
+    const duplicatePages = clusters
+      .filter(cluster => cluster.type === 'content')
+      .reduce((sum, cluster) => sum + cluster.pages.length - 1, 0);
+
+    const percentage = Math.round((duplicatePages / pagesCompared) * 100);
     return { percentage, pages: duplicatePages };
   }
 
+
   private detectThinContent(pages: PageCrawlResult[]): { count: number, averageWords: number } {
     const thinContentThreshold = 300;
     let thinContentCount = 0;
@@ -1265,6 +1456,10 @@ interface EnhancedAuditResult {
   localSEO: { items: AuditItem[] };
   uxPerformance: { items: AuditItem[] };
   pageIssues?: PageIssueSummary[];
+  internalLinking?: InternalLinkingSummary;
+  duplicateContent?: DuplicateContentSummary;
+  keywordCannibalization?: KeywordCannibalizationSummary;
+  contentDepth?: ContentDepthPage[];
 }
 
 interface PageAnalysisResult {
@@ -1292,6 +1487,8 @@ interface AuditItem {
   pageUrl?: string;
   pageTitle?: string;
   pageType?: string;
+  impressions?: number;
+  impressionImpact?: number;
 }
 
 export { EnhancedAuditAnalyzer, type EnhancedAuditResult, type AuditItem };
\ No newline at end of file
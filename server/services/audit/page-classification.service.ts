@@ -23,7 +23,9 @@ export class PageClassificationService {
       serviceAreaPages: [],
       otherPages: [],
       hasSitemapXml: structure.hasSitemapXml || false,
-      reachedMaxPages: structure.reachedMaxPages || false
+      reachedMaxPages: structure.reachedMaxPages || false,
+      linkTargets: structure.linkTargets,
+      linkGraph: structure.linkGraph
     };
     
     // Ensure otherPages is iterable
@@ -1,6 +1,8 @@
 import { PageCrawlResult } from './audit.service';
+import { LinkGraph } from '../../types/crawler';
 import { IssueGroupingService, IssueGroup } from './issue-grouping.service';
 import { AuditItem } from '../../../shared/schema';
+import type { PagePerformanceIndex } from '../search-console/search-performance.service';
 
 /**
  * Page Priority Tiers for OFI Scoring
@@ -20,6 +22,12 @@ export const PAGE_PRIORITY_WEIGHTS = {
   [PagePriority.TIER_3]: 1.0  // 1x weight (base)
 } as const;
 
+/**
+ * Internal PageRank, relative to the site average, above which the site's own
+ * linking marks a page as important
+ */
+const HIGH_PAGERANK_RATIO = 2;
+
 
 /**
  * Enhanced service for smart priority calculation with template-aware scoring
@@ -32,12 +40,41 @@ export class PagePriorityService {
   }
   
   /**
-   * Determine the priority tier of a page based on its type and characteristics
+   * Determine the priority tier of a page based on its type and characteristics.
+   * Pages the site links to heavily, or that get well above the average
+   * page's Search Console impressions, are raised one tier.
    */
-  getPagePriority(page: PageCrawlResult, pageType: string): PagePriority {
+  getPagePriority(
+    page: PageCrawlResult,
+    pageType: string,
+    linkGraph?: LinkGraph,
+    searchPerformance?: PagePerformanceIndex | null
+  ): PagePriority {
 
     // Auto-classify based on page type and URL patterns
-    return this.classifyPagePriority(page, pageType);
+    const priority = this.classifyPagePriority(page, pageType);
+
+    const isImportant = (linkGraph && this.hasHighInternalPageRank(page, linkGraph)) ||
+      (searchPerformance && searchPerformance.hasHighImpressions(page.url));
+    if (priority !== PagePriority.TIER_1 && isImportant) {
+      return priority - 1;
+    }
+
+    return priority;
+  }
+
+  /**
+   * Whether the page's internal PageRank is well above the average crawled page
+   */
+  private hasHighInternalPageRank(page: PageCrawlResult, linkGraph: LinkGraph): boolean {
+    const node = linkGraph.nodes[page.url];
+    if (!node) return false;
+
+    const crawledNodes = Object.values(linkGraph.nodes).filter(graphNode => graphNode.crawled);
+    if (crawledNodes.length < 3) return false;
+
+    const averagePageRank = crawledNodes.reduce((sum, graphNode) => sum + graphNode.pageRank, 0) / crawledNodes.length;
+    return node.pageRank >= averagePageRank * HIGH_PAGERANK_RATIO;
   }
 
   /**
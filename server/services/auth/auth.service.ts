@@ -1,21 +1,46 @@
 import { storage } from '../../storage';
 import { User, InsertUser } from '../../../shared/schema';
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import { EnhancedAuthService } from './enhanced-auth.service';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'default_jwt_secret_for_development';
 const JWT_EXPIRES_IN = '7d'; // Token expires in 7 days
+const PRE_AUTH_EXPIRES_IN = '5m'; // Time to enter the second factor after the password
 
 interface TokenPayload {
   userId: string;
   username: string | null;
+  sessionId?: string; // absent from tokens issued before sessions were stored, which are no longer accepted
+  deviceId?: string;
+  twoFactorVerified?: boolean; // the login passed a second factor
 }
 
+type PreAuthPurpose = 'verify' | 'setup';
+
+// Proves the password was checked; it is not accepted as an auth token
+interface PreAuthTokenPayload {
+  userId: string;
+  type: 'pre-auth';
+  purpose: PreAuthPurpose; // enter a code, or enrol first as a required account
+  jti?: string; // identifies the token, to limit the codes tried with it
+}
+
+/**
+ * A completed login, or the second step still to take: entering a code, or
+ * setting up two-factor authentication on an account that requires it
+ */
+export type LoginResult =
+  | { user: User; token: string }
+  | { user: User; twoFactor: PreAuthPurpose; preAuthToken: string };
+
 export class AuthService {
   /**
-   * Register a new user
+   * Register a new user, signed in on the device making the request
    */
-  async register(userData: InsertUser): Promise<{ user: User; token: string }> {
+  async register(userData: InsertUser, req?: Request): Promise<{ user: User; token: string }> {
     // Check if username already exists
     if (!userData.username) {
       throw new Error('Username is required');
@@ -44,15 +69,15 @@ export class AuthService {
     });
     
     // Generate JWT token
-    const token = this.generateToken(user);
+    const token = await this.startSession(user, req);
     
     return { user, token };
   }
   
   /**
-   * Login a user
+   * Login a user on the device making the request
    */
-  async login(username: string, password: string): Promise<{ user: User; token: string }> {
+  async login(username: string, password: string, req?: Request): Promise<LoginResult> {
     // Find user by username
     const user = await storage.getUserByUsername(username);
     if (!user) {
@@ -67,23 +92,69 @@ export class AuthService {
     if (!isPasswordValid) {
       throw new Error('Invalid credentials');
     }
+
+    // Challenge for the second factor before starting a session
+    const twoFactor = await EnhancedAuthService.getTwoFactorStatus(user.id, user.role);
+    if (twoFactor.enabled || twoFactor.required) {
+      const purpose: PreAuthPurpose = twoFactor.enabled ? 'verify' : 'setup';
+      return { user, twoFactor: purpose, preAuthToken: this.generatePreAuthToken(user, purpose) };
+    }
     
     // Update last login timestamp
     await storage.updateLastLogin(user.id);
     
     // Generate JWT token
-    const token = this.generateToken(user);
+    const token = await this.startSession(user, req);
     
     return { user, token };
   }
+
+  /**
+   * Second login step: check the authenticator or backup code for the
+   * pre-auth token the password step issued
+   */
+  async completeTwoFactorLogin(preAuthToken: string, code: string, req: Request): Promise<{ user: User; token: string }> {
+    const { user, tokenId } = await this.verifyPreAuthToken(preAuthToken, 'verify');
+    await EnhancedAuthService.verifySecondFactor(user, req, () => EnhancedAuthService.verifyTwoFactorToken(user.id, code), tokenId);
+
+    await storage.updateLastLogin(user.id);
+    const token = await this.startSession(user, req, true);
+
+    return { user, token };
+  }
+
+  /**
+   * Second login step for an account that must enrol first: enable two-factor
+   * authentication with the first code of the app and sign in
+   */
+  async completeTwoFactorEnrolment(preAuthToken: string, code: string, req: Request): Promise<{ user: User; token: string; backupCodes: string[] }> {
+    const { user, tokenId } = await this.verifyPreAuthToken(preAuthToken, 'setup');
+    const backupCodes = await EnhancedAuthService.enableTwoFactor(user, code, req, tokenId);
+
+    await storage.updateLastLogin(user.id);
+    const token = await this.startSession(user, req, true);
+
+    return { user, token, backupCodes };
+  }
+
+  /**
+   * Store a session for the requesting device and issue a token carrying its ID,
+   * so the session can be listed and revoked
+   */
+  private async startSession(user: User, req?: Request, twoFactorVerified = false): Promise<string> {
+    const deviceId = req ? EnhancedAuthService.generateDeviceFingerprint(req) : 'unknown';
+    const sessionId = await EnhancedAuthService.createSession(user.id, deviceId, req);
+    return this.generateToken(user, { sessionId, deviceId, twoFactorVerified });
+  }
   
   /**
    * Generate JWT token for a user
    */
-  generateToken(user: User): string {
+  generateToken(user: User, claims: Pick<TokenPayload, 'sessionId' | 'deviceId' | 'twoFactorVerified'> = {}): string {
     const payload: TokenPayload = {
       userId: user.id,
-      username: user.username
+      username: user.username,
+      ...claims
     };
     
     return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
@@ -93,12 +164,65 @@ export class AuthService {
    * Verify and decode JWT token
    */
   verifyToken(token: string): TokenPayload {
+    let decoded: TokenPayload & { type?: string };
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
-      return decoded;
+      decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
     } catch (error) {
       throw new Error('Invalid or expired token');
     }
+
+    if (decoded.type === 'pre-auth') {
+      throw new Error('Invalid or expired token');
+    }
+    return decoded;
+  }
+
+  /**
+   * Short-lived token proving the password step of a login passed
+   */
+  generatePreAuthToken(user: User, purpose: PreAuthPurpose): string {
+    const payload: PreAuthTokenPayload = {
+      userId: user.id,
+      type: 'pre-auth',
+      purpose
+    };
+
+    return jwt.sign(payload, JWT_SECRET, { expiresIn: PRE_AUTH_EXPIRES_IN, jwtid: crypto.randomUUID() });
+  }
+
+  /**
+   * Get the user a pre-auth token was issued to
+   */
+  async getUserFromPreAuthToken(token: string, purpose: PreAuthPurpose): Promise<User> {
+    const { user } = await this.verifyPreAuthToken(token, purpose);
+    return user;
+  }
+
+  /**
+   * Check a pre-auth token and get its ID along with the user it was issued to
+   */
+  private async verifyPreAuthToken(token: string, purpose: PreAuthPurpose): Promise<{ user: User; tokenId: string }> {
+    let decoded: PreAuthTokenPayload;
+    try {
+      decoded = jwt.verify(token, JWT_SECRET) as PreAuthTokenPayload;
+    } catch (error) {
+      throw new Error('Invalid or expired pre-auth token');
+    }
+
+    if (decoded.type !== 'pre-auth' || decoded.purpose !== purpose || !decoded.jti) {
+      throw new Error('Invalid or expired pre-auth token');
+    }
+
+    // Each password check buys a few codes, and a used token cannot sign in again
+    if (!(await EnhancedAuthService.canUsePreAuthToken(decoded.jti))) {
+      throw new Error('Invalid or expired pre-auth token');
+    }
+
+    const user = await storage.getUser(decoded.userId);
+    if (!user) {
+      throw new Error('Invalid or expired pre-auth token');
+    }
+    return { user, tokenId: decoded.jti };
   }
   
   /**
@@ -106,11 +230,22 @@ export class AuthService {
    */
   async getUserFromToken(token: string): Promise<User> {
     const decoded = this.verifyToken(token);
+
+    // Sessions revoked from the profile page or timed out sign their token out; tokens
+    // from before sessions were stored cannot be revoked, so they sign in again
+    if (!decoded.sessionId || !(await EnhancedAuthService.isValidSession(decoded.sessionId, decoded.userId))) {
+      throw new Error('Session expired or revoked');
+    }
     const user = await storage.getUser(decoded.userId);
     
     if (!user) {
       throw new Error('User not found');
     }
+
+    // Accounts that require a second factor, like admins, need a token issued after one
+    if (EnhancedAuthService.isTwoFactorRequired(user.role) && !decoded.twoFactorVerified) {
+      throw new Error('Two-factor authentication required');
+    }
     
     return user;
   }
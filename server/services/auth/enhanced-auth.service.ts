@@ -5,7 +5,7 @@
  * - JWT with refresh tokens
  * - Password strength validation
  * - Account lockout protection
- * - Two-factor authentication support
+ * - TOTP two-factor authentication with one-time backup codes
  * - Session management
  * - Password hashing with bcrypt
  * - Login attempt tracking
@@ -17,6 +17,9 @@ import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { SecurityEventEmitter, IPReputationManager } from '../../middleware/security';
+import { authSecurityRepository } from '../../repositories/auth-security.repository';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from './totp.service';
+import { LoginAttempt, UserSession, TwoFactorStatus } from '../../../shared/schema';
 
 // JWT Token interfaces
 interface TokenPayload {
@@ -26,31 +29,11 @@ interface TokenPayload {
   type: 'access' | 'refresh';
   deviceId?: string;
   sessionId?: string;
+  jti?: string;
   iat?: number;
   exp?: number;
 }
 
-interface RefreshTokenData {
-  userId: string;
-  deviceId: string;
-  sessionId: string;
-  createdAt: Date;
-  lastUsed: Date;
-  expiresAt: Date;
-  isRevoked: boolean;
-  userAgent?: string;
-  ipAddress?: string;
-}
-
-interface LoginAttempt {
-  ip: string;
-  email: string;
-  success: boolean;
-  timestamp: Date;
-  userAgent?: string;
-  deviceFingerprint?: string;
-}
-
 interface PasswordPolicy {
   minLength: number;
   requireUppercase: boolean;
@@ -61,37 +44,6 @@ interface PasswordPolicy {
   maxAge: number; // days
 }
 
-interface AccountLockout {
-  email: string;
-  attempts: number;
-  lastAttempt: Date;
-  lockedUntil?: Date;
-  lockReason?: string;
-}
-
-interface TwoFactorAuth {
-  userId: string;
-  secret: string;
-  backupCodes: string[];
-  enabled: boolean;
-  createdAt: Date;
-  lastUsed?: Date;
-}
-
-// In-memory stores (in production, use Redis or database)
-const refreshTokenStore = new Map<string, RefreshTokenData>();
-const loginAttempts = new Map<string, LoginAttempt[]>();
-const accountLockouts = new Map<string, AccountLockout>();
-const activeSessions = new Map<string, {
-  userId: string;
-  deviceId: string;
-  createdAt: Date;
-  lastActivity: Date;
-  ipAddress: string;
-  userAgent: string;
-}>();
-const twoFactorStore = new Map<string, TwoFactorAuth>();
-
 // Password policy configuration
 const passwordPolicy: PasswordPolicy = {
   minLength: 8,
@@ -120,10 +72,16 @@ const config = {
   },
   security: {
     maxLoginAttempts: 5,
+    maxPreAuthTokenAttempts: 3, // second-factor codes that may be tried with one pre-auth token
     lockoutDuration: 30 * 60 * 1000, // 30 minutes
     maxSessions: 5, // Max concurrent sessions per user
-    sessionTimeout: 24 * 60 * 60 * 1000, // 24 hours
+    sessionTimeout: 7 * 24 * 60 * 60 * 1000, // 7 days, the lifetime of the login cookie
+    sessionActivityInterval: 60 * 1000, // Record session activity at most once a minute
     passwordSaltRounds: 12
+  },
+  twoFactor: {
+    issuer: 'Rival Outranker', // shown in the authenticator app
+    backupCodeCount: 10
   }
 };
 
@@ -186,13 +144,13 @@ export class EnhancedAuthService {
     return bcrypt.compare(password, hash);
   }
 
-  // Generate secure tokens
-  static generateTokens(userId: string, email: string, role?: string, deviceId?: string): {
+  // Generate secure tokens, for an existing session when its ID is given
+  static async generateTokens(userId: string, email: string, role?: string, deviceId?: string, sessionId?: string): Promise<{
     accessToken: string;
     refreshToken: string;
     sessionId: string;
-  } {
-    const sessionId = crypto.randomUUID();
+  }> {
+    const tokenSessionId = sessionId || crypto.randomUUID();
     const deviceIdentifier = deviceId || crypto.randomUUID();
 
     const accessTokenPayload: TokenPayload = {
@@ -201,7 +159,7 @@ export class EnhancedAuthService {
       role,
       type: 'access',
       deviceId: deviceIdentifier,
-      sessionId
+      sessionId: tokenSessionId
     };
 
     const refreshTokenPayload: TokenPayload = {
@@ -210,7 +168,9 @@ export class EnhancedAuthService {
       role,
       type: 'refresh',
       deviceId: deviceIdentifier,
-      sessionId
+      sessionId: tokenSessionId,
+      // Tokens signed in the same second would otherwise be identical
+      jti: crypto.randomUUID()
     };
 
     const accessTokenOptions: SignOptions = {
@@ -241,17 +201,22 @@ export class EnhancedAuthService {
     const now = new Date();
     const expiresAt = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000); // 7 days
     
-    refreshTokenStore.set(refreshToken, {
+    await authSecurityRepository.createRefreshToken({
+      tokenHash: this.hashToken(refreshToken),
       userId,
       deviceId: deviceIdentifier,
-      sessionId,
+      sessionId: tokenSessionId,
       createdAt: now,
       lastUsed: now,
-      expiresAt,
-      isRevoked: false
+      expiresAt
     });
 
-    return { accessToken, refreshToken, sessionId };
+    return { accessToken, refreshToken, sessionId: tokenSessionId };
+  }
+
+  // Refresh tokens are stored by hash so a database leak cannot be replayed
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
   }
 
   // Verify and refresh tokens
@@ -271,32 +236,29 @@ export class EnhancedAuthService {
       ) as TokenPayload;
 
       // Check if refresh token exists in store
-      const tokenData = refreshTokenStore.get(refreshToken);
+      const tokenHash = this.hashToken(refreshToken);
+      const tokenData = await authSecurityRepository.getRefreshToken(tokenHash);
       if (!tokenData || tokenData.isRevoked) {
         throw new Error('Refresh token is invalid or revoked');
       }
 
       // Check expiration
       if (new Date() > tokenData.expiresAt) {
-        refreshTokenStore.delete(refreshToken);
+        await authSecurityRepository.deleteRefreshToken(tokenHash);
         throw new Error('Refresh token has expired');
       }
 
-      // Update last used
-      tokenData.lastUsed = new Date();
-      tokenData.ipAddress = req.ip;
-      tokenData.userAgent = req.get('User-Agent');
-
-      // Generate new tokens
-      const newTokens = this.generateTokens(
+      // Generate new tokens for the same session
+      const newTokens = await this.generateTokens(
         payload.userId,
         payload.email,
         payload.role,
-        payload.deviceId
+        payload.deviceId,
+        payload.sessionId
       );
 
       // Revoke old refresh token
-      refreshTokenStore.delete(refreshToken);
+      await authSecurityRepository.deleteRefreshToken(tokenHash);
 
       SecurityEventEmitter.emit('TOKEN_REFRESHED', {
         userId: payload.userId,
@@ -320,53 +282,80 @@ export class EnhancedAuthService {
   }
 
   // Track login attempts
-  static recordLoginAttempt(email: string, ip: string, success: boolean, req: Request) {
-    const attempt: LoginAttempt = {
+  static async recordLoginAttempt(
+    email: string,
+    ip: string,
+    success: boolean,
+    req: Request,
+    options: { secondFactor?: boolean; preAuthTokenId?: string } = {}
+  ) {
+    const attempt = await authSecurityRepository.createLoginAttempt({
       email,
-      ip,
+      ipAddress: ip,
       success,
-      timestamp: new Date(),
       userAgent: req.get('User-Agent'),
-      deviceFingerprint: req.fingerprintId
-    };
-
-    const key = `${email}_${ip}`;
-    const attempts = loginAttempts.get(key) || [];
-    attempts.push(attempt);
-
-    // Keep only last 10 attempts
-    if (attempts.length > 10) {
-      attempts.shift();
-    }
-
-    loginAttempts.set(key, attempts);
+      deviceFingerprint: req.fingerprintId,
+      secondFactor: options.secondFactor ?? false,
+      preAuthTokenId: options.preAuthTokenId
+    });
 
     // Check for account lockout
     if (!success) {
-      this.checkAccountLockout(email, attempts);
+      // Only the last 10 attempts count; second-factor guesses count per account,
+      // as whoever makes them already has the password and may switch IPs
+      const attempts = options.secondFactor
+        ? await authSecurityRepository.getRecentSecondFactorAttempts(email, 10)
+        : await authSecurityRepository.getRecentLoginAttempts(email, ip, 10);
+      await this.checkAccountLockout(email, attempts);
       IPReputationManager.addViolation(ip, 'FAILED_LOGIN_ATTEMPT');
     }
 
     SecurityEventEmitter.emit('LOGIN_ATTEMPT', attempt);
   }
 
+  // A pre-auth token allows a few second-factor attempts and is spent by the one that succeeds
+  static async canUsePreAuthToken(preAuthTokenId: string): Promise<boolean> {
+    const attempts = await authSecurityRepository.getPreAuthTokenAttempts(preAuthTokenId);
+    return !attempts.some(attempt => attempt.success) && attempts.length < config.security.maxPreAuthTokenAttempts;
+  }
+
+  // Check a two-factor code of a user with `verify`. Failed codes count
+  // towards the account lockout, and those sent with a pre-auth token
+  // towards the token's limit as well.
+  static async verifySecondFactor(
+    user: { id: string; email?: string | null; username?: string | null },
+    req: Request,
+    verify: () => Promise<boolean>,
+    preAuthTokenId?: string
+  ): Promise<void> {
+    const accountKey = user.email || user.username || user.id;
+    const lockout = await this.isAccountLocked(accountKey);
+    if (lockout.locked) {
+      throw new Error('Too many failed attempts');
+    }
+
+    const isCodeValid = await verify();
+    await this.recordLoginAttempt(accountKey, req.ip || '', isCodeValid, req, { secondFactor: true, preAuthTokenId });
+    if (!isCodeValid) {
+      throw new Error('Invalid two-factor code');
+    }
+  }
+
   // Account lockout management
-  private static checkAccountLockout(email: string, attempts: LoginAttempt[]) {
+  private static async checkAccountLockout(email: string, attempts: LoginAttempt[]) {
     const recentFailures = attempts.filter(
       attempt => !attempt.success && 
-      new Date().getTime() - attempt.timestamp.getTime() < 15 * 60 * 1000 // Last 15 minutes
+      new Date().getTime() - attempt.createdAt.getTime() < 15 * 60 * 1000 // Last 15 minutes
     );
 
     if (recentFailures.length >= config.security.maxLoginAttempts) {
-      const lockout: AccountLockout = {
+      await authSecurityRepository.upsertLockout({
         email,
         attempts: recentFailures.length,
         lastAttempt: new Date(),
         lockedUntil: new Date(Date.now() + config.security.lockoutDuration),
         lockReason: 'Too many failed login attempts'
-      };
-
-      accountLockouts.set(email, lockout);
+      });
 
       SecurityEventEmitter.emit('ACCOUNT_LOCKED', {
         email,
@@ -379,8 +368,8 @@ export class EnhancedAuthService {
   }
 
   // Check if account is locked
-  static isAccountLocked(email: string): { locked: boolean; lockedUntil?: Date; reason?: string } {
-    const lockout = accountLockouts.get(email);
+  static async isAccountLocked(email: string): Promise<{ locked: boolean; lockedUntil?: Date; reason?: string }> {
+    const lockout = await authSecurityRepository.getLockout(email);
     
     if (!lockout || !lockout.lockedUntil) {
       return { locked: false };
@@ -388,48 +377,44 @@ export class EnhancedAuthService {
 
     if (new Date() > lockout.lockedUntil) {
       // Lock has expired
-      accountLockouts.delete(email);
+      await authSecurityRepository.deleteLockout(email);
       return { locked: false };
     }
 
     return {
       locked: true,
       lockedUntil: lockout.lockedUntil,
-      reason: lockout.lockReason
+      reason: lockout.lockReason || undefined
     };
   }
 
   // Session management
-  static createSession(userId: string, deviceId: string, req: Request): string {
+  static async createSession(userId: string, deviceId: string, req?: Request): Promise<string> {
     const sessionId = crypto.randomUUID();
     
     // Remove oldest sessions if limit exceeded
-    const userSessions = Array.from(activeSessions.entries())
-      .filter(([_, session]) => session.userId === userId)
-      .sort((a, b) => a[1].lastActivity.getTime() - b[1].lastActivity.getTime());
+    const userSessions = (await authSecurityRepository.getSessionsByUser(userId))
+      .sort((a, b) => a.lastActivity.getTime() - b.lastActivity.getTime());
 
     if (userSessions.length >= config.security.maxSessions) {
       const sessionsToRemove = userSessions.slice(0, userSessions.length - config.security.maxSessions + 1);
-      sessionsToRemove.forEach(([sessionId]) => {
-        activeSessions.delete(sessionId);
-      });
+      await authSecurityRepository.deleteSessions(sessionsToRemove.map(session => session.id));
     }
 
-    activeSessions.set(sessionId, {
+    await authSecurityRepository.createSession({
+      id: sessionId,
       userId,
       deviceId,
-      createdAt: new Date(),
-      lastActivity: new Date(),
-      ipAddress: req.ip || '',
-      userAgent: req.get('User-Agent') || ''
+      ipAddress: req?.ip || '',
+      userAgent: req?.get('User-Agent') || ''
     });
 
     return sessionId;
   }
 
   // Validate session
-  static isValidSession(sessionId: string, userId: string): boolean {
-    const session = activeSessions.get(sessionId);
+  static async isValidSession(sessionId: string, userId: string): Promise<boolean> {
+    const session = await authSecurityRepository.getSession(sessionId);
     
     if (!session || session.userId !== userId) {
       return false;
@@ -437,38 +422,42 @@ export class EnhancedAuthService {
 
     // Check session timeout
     const now = new Date();
-    if (now.getTime() - session.lastActivity.getTime() > config.security.sessionTimeout) {
-      activeSessions.delete(sessionId);
+    const idle = now.getTime() - session.lastActivity.getTime();
+    if (idle > config.security.sessionTimeout) {
+      await authSecurityRepository.deleteSessions([sessionId]);
       return false;
     }
 
-    // Update last activity
-    session.lastActivity = now;
+    // Update last activity, without a write on every request
+    if (idle > config.security.sessionActivityInterval) {
+      await authSecurityRepository.touchSession(sessionId, now);
+    }
     return true;
   }
 
+  // Active sessions of a user, most recently active first
+  static async getUserSessions(userId: string): Promise<UserSession[]> {
+    const cutoff = Date.now() - config.security.sessionTimeout;
+    return (await authSecurityRepository.getSessionsByUser(userId))
+      .filter(session => session.lastActivity.getTime() >= cutoff);
+  }
+
   // Revoke session
-  static revokeSession(sessionId: string) {
-    activeSessions.delete(sessionId);
-    
-    // Revoke all refresh tokens for this session
-    for (const [token, data] of refreshTokenStore.entries()) {
-      if (data.sessionId === sessionId) {
-        data.isRevoked = true;
-      }
-    }
+  static async revokeSession(sessionId: string) {
+    // Also revokes all refresh tokens for this session
+    await authSecurityRepository.deleteSessions([sessionId]);
 
     SecurityEventEmitter.emit('SESSION_REVOKED', { sessionId });
   }
 
   // Revoke all user sessions
-  static revokeAllUserSessions(userId: string) {
-    const userSessions = Array.from(activeSessions.entries())
-      .filter(([_, session]) => session.userId === userId);
+  static async revokeAllUserSessions(userId: string) {
+    const userSessions = await authSecurityRepository.getSessionsByUser(userId);
 
-    userSessions.forEach(([sessionId]) => {
-      this.revokeSession(sessionId);
-    });
+    for (const session of userSessions) {
+      await this.revokeSession(session.id);
+    }
+    await authSecurityRepository.revokeRefreshTokensByUser(userId);
 
     SecurityEventEmitter.emit('ALL_SESSIONS_REVOKED', { userId });
   }
@@ -488,103 +477,156 @@ export class EnhancedAuthService {
       .digest('hex');
   }
 
-  // Two-factor authentication setup
-  static setupTwoFactor(userId: string): { secret: string; qrCode: string; backupCodes: string[] } {
-    const secret = crypto.randomBytes(20).toString('hex');
-    const backupCodes = Array.from({ length: 10 }, () => 
-      crypto.randomBytes(4).toString('hex').toUpperCase()
-    );
+  // Two-factor authentication setup: a new secret for the authenticator app,
+  // enabled only once enableTwoFactor verifies a first code from it
+  static async setupTwoFactor(userId: string, accountName: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const existing = await authSecurityRepository.getTwoFactor(userId);
+    if (existing?.enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
 
-    const twoFactor: TwoFactorAuth = {
+    const secret = generateTotpSecret();
+    await authSecurityRepository.upsertTwoFactor({
       userId,
       secret,
-      backupCodes,
+      backupCodes: [],
       enabled: false,
-      createdAt: new Date()
-    };
+      createdAt: new Date(),
+      enabledAt: null,
+      lastUsed: null,
+      lastUsedStep: null
+    });
 
-    twoFactorStore.set(userId, twoFactor);
+    return { secret, otpauthUrl: buildOtpauthUri(secret, accountName, config.twoFactor.issuer) };
+  }
 
-    // Generate QR code URL (would integrate with QR code library in production)
-    const qrCode = `otpauth://totp/RivalOutranker:${userId}?secret=${secret}&issuer=RivalOutranker`;
+  // Enable two-factor authentication with the first code of the app, returning
+  // the backup codes, which are only ever shown this once
+  static async enableTwoFactor(
+    user: { id: string; email?: string | null; username?: string | null },
+    code: string,
+    req: Request,
+    preAuthTokenId?: string
+  ): Promise<string[]> {
+    const userId = user.id;
+    const twoFactor = await authSecurityRepository.getTwoFactor(userId);
+    if (!twoFactor) {
+      throw new Error('Two-factor authentication has not been set up');
+    }
+    if (twoFactor.enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(twoFactor.secret, code);
+    await this.verifySecondFactor(user, req, async () => step !== null, preAuthTokenId);
+
+    const now = new Date();
+    const backupCodes = this.generateBackupCodes();
+    await authSecurityRepository.updateTwoFactor(userId, {
+      enabled: true,
+      enabledAt: now,
+      lastUsed: now,
+      lastUsedStep: step,
+      backupCodes: backupCodes.map(backupCode => this.hashBackupCode(backupCode))
+    });
+
+    SecurityEventEmitter.emit('TWO_FACTOR_ENABLED', { userId });
+    return backupCodes;
+  }
+
+  // Replace the backup codes of an enabled enrolment
+  static async regenerateBackupCodes(userId: string): Promise<string[]> {
+    const twoFactor = await authSecurityRepository.getTwoFactor(userId);
+    if (!twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    await authSecurityRepository.updateTwoFactor(userId, {
+      backupCodes: backupCodes.map(backupCode => this.hashBackupCode(backupCode))
+    });
+
+    return backupCodes;
+  }
+
+  static async disableTwoFactor(userId: string) {
+    await authSecurityRepository.deleteTwoFactor(userId);
+
+    SecurityEventEmitter.emit('TWO_FACTOR_DISABLED', { userId });
+  }
+
+  static async getTwoFactorStatus(userId: string, role?: string | null): Promise<TwoFactorStatus> {
+    const twoFactor = await authSecurityRepository.getTwoFactor(userId);
+
+    return {
+      enabled: !!twoFactor?.enabled,
+      required: this.isTwoFactorRequired(role),
+      backupCodesRemaining: twoFactor?.enabled ? twoFactor.backupCodes.length : 0
+    };
+  }
 
-    return { secret, qrCode, backupCodes };
+  // Admin accounts cannot sign in without a second factor
+  static isTwoFactorRequired(role?: string | null): boolean {
+    return role === 'admin';
   }
 
-  // Verify two-factor token
-  static verifyTwoFactorToken(userId: string, token: string): boolean {
-    const twoFactor = twoFactorStore.get(userId);
+  // Verify an authenticator app code or a backup code; each works only once
+  static async verifyTwoFactorToken(userId: string, token: string): Promise<boolean> {
+    const twoFactor = await authSecurityRepository.getTwoFactor(userId);
     
     if (!twoFactor || !twoFactor.enabled) {
       return false;
     }
 
-    // Check backup codes
-    if (twoFactor.backupCodes.includes(token.toUpperCase())) {
-      // Remove used backup code
-      twoFactor.backupCodes = twoFactor.backupCodes.filter(code => code !== token.toUpperCase());
-      twoFactor.lastUsed = new Date();
-      return true;
+    const now = new Date();
+    const step = verifyTotp(twoFactor.secret, token);
+    if (step !== null) {
+      return authSecurityRepository.recordTotpStep(userId, step, now);
     }
 
-    // Verify TOTP token (would integrate with authenticator library in production)
-    // For now, return true for demonstration
-    twoFactor.lastUsed = new Date();
-    return true;
+    // Check backup codes
+    return authSecurityRepository.consumeBackupCode(userId, this.hashBackupCode(token), now);
+  }
+
+  private static generateBackupCodes(): string[] {
+    return Array.from({ length: config.twoFactor.backupCodeCount }, () => {
+      const code = crypto.randomBytes(5).toString('hex').toUpperCase();
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  // Backup codes are stored hashed and matched without case or dashes
+  private static hashBackupCode(code: string): string {
+    return crypto.createHash('sha256')
+      .update(code.toUpperCase().replace(/[^A-Z0-9]/g, ''))
+      .digest('hex');
   }
 
   // Cleanup expired data
-  static cleanup() {
+  static async cleanup() {
     const now = new Date();
 
     // Clean up expired refresh tokens
-    for (const [token, data] of refreshTokenStore.entries()) {
-      if (now > data.expiresAt) {
-        refreshTokenStore.delete(token);
-      }
-    }
+    await authSecurityRepository.deleteExpiredRefreshTokens(now);
 
     // Clean up old login attempts
-    for (const [key, attempts] of loginAttempts.entries()) {
-      const recentAttempts = attempts.filter(
-        attempt => now.getTime() - attempt.timestamp.getTime() < 24 * 60 * 60 * 1000 // 24 hours
-      );
-      
-      if (recentAttempts.length === 0) {
-        loginAttempts.delete(key);
-      } else {
-        loginAttempts.set(key, recentAttempts);
-      }
-    }
+    await authSecurityRepository.deleteLoginAttemptsBefore(new Date(now.getTime() - 24 * 60 * 60 * 1000)); // 24 hours
 
     // Clean up expired lockouts
-    for (const [email, lockout] of accountLockouts.entries()) {
-      if (lockout.lockedUntil && now > lockout.lockedUntil) {
-        accountLockouts.delete(email);
-      }
-    }
+    await authSecurityRepository.deleteExpiredLockouts(now);
 
     // Clean up expired sessions
-    for (const [sessionId, session] of activeSessions.entries()) {
-      if (now.getTime() - session.lastActivity.getTime() > config.security.sessionTimeout) {
-        activeSessions.delete(sessionId);
-      }
-    }
+    await authSecurityRepository.deleteIdleSessions(new Date(now.getTime() - config.security.sessionTimeout));
   }
 
   // Get security statistics
-  static getSecurityStats() {
-    return {
-      activeSessions: activeSessions.size,
-      activeTokens: refreshTokenStore.size,
-      lockedAccounts: accountLockouts.size,
-      twoFactorUsers: Array.from(twoFactorStore.values()).filter(tf => tf.enabled).length,
-      recentLoginAttempts: Array.from(loginAttempts.values())
-        .flat()
-        .filter(attempt => 
-          new Date().getTime() - attempt.timestamp.getTime() < 60 * 60 * 1000 // Last hour
-        ).length
-    };
+  static async getSecurityStats() {
+    const now = new Date();
+    return authSecurityRepository.getSecurityCounts(
+      now,
+      new Date(now.getTime() - config.security.sessionTimeout),
+      new Date(now.getTime() - 60 * 60 * 1000) // Last hour
+    );
   }
 }
 
@@ -615,7 +657,7 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
     }
 
     // Validate session
-    if (payload.sessionId && !EnhancedAuthService.isValidSession(payload.sessionId, payload.userId)) {
+    if (!payload.sessionId || !(await EnhancedAuthService.isValidSession(payload.sessionId, payload.userId))) {
       throw new Error('Session expired or invalid');
     }
 
@@ -664,5 +706,7 @@ export const requireRole = (roles: string[]) => {
 
 // Initialize cleanup interval
 setInterval(() => {
-  EnhancedAuthService.cleanup();
+  EnhancedAuthService.cleanup().catch(error => {
+    console.error('Auth cleanup error:', error);
+  });
 }, 15 * 60 * 1000); // Every 15 minutes
\ No newline at end of file
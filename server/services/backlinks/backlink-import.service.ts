@@ -0,0 +1,263 @@
+import {
+  BacklinkImportFormat,
+  BacklinkImportResult,
+  BacklinkProfile,
+  InsertBacklink
+} from '../../../shared/schema';
+import { backlinkRepository } from '../../repositories/backlink.repository';
+import { ValidationError } from '../../utils/errors';
+
+/**
+ * Columns of a backlink tool's CSV export. Each field lists the header names
+ * the tool has used for it; headers are matched case-insensitively.
+ */
+export interface CsvColumnMapping {
+  label: string;
+  sourceUrl: string[];
+  targetUrl: string[]; // exports without a target column link to the profile URL
+  anchorText: string[];
+  nofollowFlags: string[]; // columns whose truthy value means the link passes no authority
+  imageFlags: string[];
+  pageAuthority: string[];
+  domainAuthority: string[];
+}
+
+export const BACKLINK_CSV_FORMATS: Record<BacklinkImportFormat, CsvColumnMapping> = {
+  gsc: {
+    label: 'Google Search Console links',
+    sourceUrl: ['Linking page', 'Linking pages', 'Source page'],
+    targetUrl: ['Target page', 'Target pages'],
+    anchorText: [],
+    nofollowFlags: [],
+    imageFlags: [],
+    pageAuthority: [],
+    domainAuthority: []
+  },
+  ahrefs: {
+    label: 'Ahrefs backlinks',
+    sourceUrl: ['Referring page URL', 'Referring URL', 'Source URL'],
+    targetUrl: ['Target URL', 'Link URL'],
+    anchorText: ['Anchor', 'Link Anchor', 'Anchor text'],
+    nofollowFlags: ['Nofollow', 'UGC', 'Sponsored', 'Link Type'],
+    imageFlags: [],
+    pageAuthority: ['UR', 'URL Rating'],
+    domainAuthority: ['Domain rating', 'DR']
+  },
+  semrush: {
+    label: 'Semrush backlinks',
+    sourceUrl: ['Source url', 'Source page'],
+    targetUrl: ['Target url', 'Target page'],
+    anchorText: ['Anchor'],
+    nofollowFlags: ['Nofollow', 'Sponsored', 'Ugc'],
+    imageFlags: ['Image'],
+    pageAuthority: ['Page ascore', 'Page AS'],
+    domainAuthority: ['Domain ascore', 'Domain AS']
+  }
+};
+
+export type NormalizedBacklink = Omit<InsertBacklink, 'profileId'>;
+
+const TRUTHY_FLAG = /^(true|yes|1|nofollow|ugc|sponsored)$/i;
+
+/**
+ * Rows of a CSV document. Handles quoted fields, a byte order mark and the
+ * tab or semicolon separators some tools export with.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = firstLine.includes('\t') ? '\t'
+    : firstLine.split(';').length > firstLine.split(',').length ? ';'
+    : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function normalizeUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+function getDomain(url: string): string {
+  return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+}
+
+function isOnDomain(url: string, domain: string): boolean {
+  const host = getDomain(url);
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function parseScore(value: string | undefined): number | null {
+  const score = parseFloat(value || '');
+  return isNaN(score) ? null : Math.round(score);
+}
+
+/**
+ * Map a tool's CSV export onto backlinks of a profile, once per source and
+ * target. Rows without a usable source URL, and links to other sites or from
+ * the profile's own site, are skipped.
+ */
+export function normalizeBacklinkCsv(
+  format: BacklinkImportFormat,
+  csv: string,
+  profile: Pick<BacklinkProfile, 'url' | 'domain'>
+): { links: NormalizedBacklink[]; rowsRead: number; skipped: number } {
+  const mapping = BACKLINK_CSV_FORMATS[format];
+  const [header = [], ...rows] = parseCsv(csv);
+  const headers = header.map(name => name.trim().toLowerCase());
+  const columnOf = (names: string[]) => names.map(name => headers.indexOf(name.toLowerCase())).filter(index => index !== -1);
+
+  const [sourceColumn] = columnOf(mapping.sourceUrl);
+  if (sourceColumn === undefined) {
+    throw new ValidationError(`Not a ${mapping.label} export: no column named ${mapping.sourceUrl.map(name => `"${name}"`).join(' or ')}`);
+  }
+  const [targetColumn] = columnOf(mapping.targetUrl);
+  const [anchorColumn] = columnOf(mapping.anchorText);
+  const [pageAuthorityColumn] = columnOf(mapping.pageAuthority);
+  const [domainAuthorityColumn] = columnOf(mapping.domainAuthority);
+  const nofollowColumns = columnOf(mapping.nofollowFlags);
+  const imageColumns = columnOf(mapping.imageFlags);
+
+  const profileTarget = normalizeUrl(profile.url);
+  const links = new Map<string, NormalizedBacklink>();
+  let skipped = 0;
+
+  for (const cells of rows) {
+    const sourceUrl = normalizeUrl(cells[sourceColumn] || '');
+    const targetUrl = targetColumn === undefined ? profileTarget : normalizeUrl(cells[targetColumn] || '');
+
+    if (!sourceUrl || !targetUrl || !isOnDomain(targetUrl, profile.domain) || isOnDomain(sourceUrl, profile.domain)) {
+      skipped++;
+      continue;
+    }
+
+    const key = `${sourceUrl} ${targetUrl}`;
+    if (links.has(key)) continue;
+
+    const isFlagged = (columns: number[]) => columns.some(column => TRUTHY_FLAG.test((cells[column] || '').trim()));
+
+    links.set(key, {
+      sourceUrl,
+      sourceDomain: getDomain(sourceUrl),
+      targetUrl,
+      status: 'active',
+      anchorText: anchorColumn === undefined ? null : cells[anchorColumn]?.trim() || null,
+      isDofollow: !isFlagged(nofollowColumns),
+      linkType: isFlagged(imageColumns) ? 'image' : 'text',
+      pageAuthority: pageAuthorityColumn === undefined ? null : parseScore(cells[pageAuthorityColumn]),
+      domainAuthority: domainAuthorityColumn === undefined ? null : parseScore(cells[domainAuthorityColumn])
+    });
+  }
+
+  return { links: Array.from(links.values()), rowsRead: rows.length, skipped };
+}
+
+/**
+ * Service that imports backlink exports from third-party tools into a
+ * profile. An import is a full snapshot: links missing from it are marked
+ * lost, and the profile's totals and history are updated afterwards.
+ */
+export class BacklinkImportService {
+  /**
+   * Import a CSV export into a profile's backlinks
+   */
+  async importCsv(profile: BacklinkProfile, format: BacklinkImportFormat, csv: string): Promise<BacklinkImportResult> {
+    const { links, rowsRead, skipped } = normalizeBacklinkCsv(format, csv, profile);
+    if (links.length === 0) {
+      throw new ValidationError(`No backlinks to ${profile.domain} found in the ${BACKLINK_CSV_FORMATS[format].label} export`);
+    }
+
+    const importedAt = new Date();
+    const existing = new Set((await backlinkRepository.getBacklinkKeys(profile.id)).map(link => `${link.sourceUrl} ${link.targetUrl}`));
+    const newBacklinks = links.filter(link => !existing.has(`${link.sourceUrl} ${link.targetUrl}`)).length;
+
+    await backlinkRepository.saveBacklinks(links.map(link => ({ ...link, profileId: profile.id, lastChecked: importedAt })));
+    const lostBacklinks = await backlinkRepository.markBacklinksLost(profile.id, importedAt);
+
+    const [counts, topReferringDomains, outgoing] = await Promise.all([
+      backlinkRepository.getBacklinkCounts(profile.id),
+      backlinkRepository.getTopReferringDomains(profile.id),
+      backlinkRepository.getOutgoingLinkCounts(profile.id)
+    ]);
+
+    await backlinkRepository.updateProfile(profile.id, {
+      totalBacklinks: counts.total,
+      newBacklinks,
+      lostBacklinks,
+      dofollow: counts.dofollow,
+      nofollow: counts.nofollow
+    });
+
+    await backlinkRepository.createHistorySnapshot({
+      profileId: profile.id,
+      scanDate: importedAt,
+      totalBacklinks: counts.total,
+      newBacklinks,
+      lostBacklinks,
+      dofollow: counts.dofollow,
+      nofollow: counts.nofollow,
+      topReferringDomains,
+      domainAuthority: profile.domainAuthority,
+      totalOutgoingLinks: outgoing.total,
+      brokenOutgoingLinks: outgoing.broken,
+      redirectedOutgoingLinks: outgoing.redirected
+    });
+
+    console.log(`🔗 Imported ${links.length} backlinks into profile ${profile.id} from ${format} (${newBacklinks} new, ${lostBacklinks} lost)`);
+
+    return {
+      format,
+      rowsRead,
+      imported: links.length,
+      skipped,
+      newBacklinks,
+      lostBacklinks,
+      totalBacklinks: counts.total
+    };
+  }
+}
+
+// Singleton instance
+export const backlinkImportService = new BacklinkImportService();
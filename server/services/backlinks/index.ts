@@ -0,0 +1,17 @@
+export {
+  OutgoingLinkService,
+  outgoingLinkService,
+  extractOutgoingLinks,
+  classifyLinkTarget,
+  isScanDue,
+  type ExtractedLink
+} from './outgoing-link.service';
+export {
+  BacklinkImportService,
+  backlinkImportService,
+  BACKLINK_CSV_FORMATS,
+  parseCsv,
+  normalizeBacklinkCsv,
+  type CsvColumnMapping,
+  type NormalizedBacklink
+} from './backlink-import.service';
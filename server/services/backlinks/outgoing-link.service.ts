@@ -0,0 +1,341 @@
+import * as cheerio from 'cheerio';
+import {
+  BacklinkProfile,
+  BacklinkScanFrequency,
+  BrokenOutboundLinkReport,
+  InsertOutgoingLink,
+  LinkPosition,
+  LinkRel,
+  OutgoingLinkStatus
+} from '../../../shared/schema';
+import { RedirectChain } from '../../types/crawler';
+import { backlinkRepository } from '../../repositories/backlink.repository';
+import { CrawlerOrchestratorService } from '../audit/crawling/crawler-orchestrator.service';
+import { redirectTracerService } from '../audit/crawling/redirect-tracer.service';
+
+const CHECK_INTERVAL_MS = parseInt(process.env.BACKLINK_SCAN_CHECK_INTERVAL_MS || String(60 * 60 * 1000), 10);
+const MAX_SCAN_PAGES = parseInt(process.env.BACKLINK_SCAN_MAX_PAGES || '50', 10);
+const MAX_TARGET_CHECKS = 300; // distinct link targets checked per scan
+const TARGET_CHECK_CONCURRENCY = 5;
+const USER_AGENT = 'SEO-Best-Practices-Assessment-Tool/1.0';
+
+// Statuses sites commonly send to bots; the link works for visitors
+const BOT_BLOCKED_STATUS_CODES = new Set([401, 403, 429, 999]);
+
+export interface ExtractedLink {
+  sourceUrl: string;
+  targetUrl: string;
+  targetDomain: string;
+  anchorText: string | null;
+  rel: LinkRel;
+  linkPosition: LinkPosition;
+}
+
+function getHostname(url: string): string {
+  return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Links on a page that point to other sites, once per target, with their
+ * anchor text, strongest rel qualifier and where on the page they sit
+ */
+export function extractOutgoingLinks(html: string, pageUrl: string): ExtractedLink[] {
+  const $ = cheerio.load(html);
+  const pageHost = getHostname(pageUrl);
+  const links = new Map<string, ExtractedLink>();
+
+  $('a[href]').each((_, element) => {
+    const link = $(element);
+
+    let target: URL;
+    try {
+      target = new URL(link.attr('href')!.trim(), pageUrl);
+    } catch {
+      return;
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') return;
+
+    const targetDomain = target.hostname.toLowerCase().replace(/^www\./, '');
+    if (targetDomain === pageHost) return;
+
+    target.hash = '';
+    const targetUrl = target.toString();
+    if (links.has(targetUrl)) return;
+
+    const relTokens = (link.attr('rel') || '').toLowerCase().split(/\s+/);
+    const rel: LinkRel = relTokens.includes('sponsored') ? 'sponsored'
+      : relTokens.includes('ugc') ? 'ugc'
+      : relTokens.includes('nofollow') ? 'nofollow'
+      : 'dofollow';
+
+    const linkPosition: LinkPosition = link.closest('footer, [role="contentinfo"]').length > 0 ? 'footer'
+      : link.closest('header, nav, [role="banner"]').length > 0 ? 'header'
+      : 'body';
+
+    const anchorText = link.text().replace(/\s+/g, ' ').trim() || link.find('img[alt]').attr('alt')?.trim() || null;
+
+    links.set(targetUrl, { sourceUrl: pageUrl, targetUrl, targetDomain, anchorText, rel, linkPosition });
+  });
+
+  return Array.from(links.values());
+}
+
+/**
+ * Status of a link from the redirect chain of its target
+ */
+export function classifyLinkTarget(chain: RedirectChain): {
+  status: OutgoingLinkStatus;
+  statusCode: number;
+  redirectUrl: string | null;
+} {
+  const { finalStatusCode } = chain;
+  const broken = chain.isLoop || finalStatusCode === -1
+    || (finalStatusCode >= 400 && !BOT_BLOCKED_STATUS_CODES.has(finalStatusCode));
+
+  if (broken) {
+    return { status: 'broken', statusCode: finalStatusCode, redirectUrl: chain.hops.length > 0 ? chain.finalUrl : null };
+  }
+  if (chain.hops.length > 0) {
+    return { status: 'redirected', statusCode: finalStatusCode, redirectUrl: chain.finalUrl };
+  }
+  return { status: 'active', statusCode: finalStatusCode, redirectUrl: null };
+}
+
+/**
+ * Whether a profile last scanned at `lastScanAt` is due another scan
+ */
+export function isScanDue(frequency: BacklinkScanFrequency, lastScanAt: Date | null, now: Date): boolean {
+  if (!lastScanAt) return true;
+
+  const next = new Date(lastScanAt);
+  if (frequency === 'daily') {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } else if (frequency === 'monthly') {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  } else {
+    next.setUTCDate(next.getUTCDate() + 7);
+  }
+  return next <= now;
+}
+
+/**
+ * Service that scans backlink profiles' sites for outbound links.
+ * Due profiles are crawled on an interval; every external link is stored in
+ * outgoing_links with its target's status, and each scan adds a
+ * backlink_history snapshot.
+ */
+export class OutgoingLinkService {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isChecking = false;
+  private scanning = new Set<number>();
+  private crawler = new CrawlerOrchestratorService();
+
+  /**
+   * Start checking for profiles due a scan
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠️ Outgoing link scanner is already running');
+      return;
+    }
+
+    console.log(`🔗 Starting outgoing link scanner (checks every ${Math.round(CHECK_INTERVAL_MS / 60000)} minutes)`);
+    this.isRunning = true;
+
+    this.runDueScans();
+
+    this.checkInterval = setInterval(() => {
+      this.runDueScans();
+    }, CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop checking for due profiles
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      console.log('⚠️ Outgoing link scanner is not running');
+      return;
+    }
+
+    console.log('🛑 Stopping outgoing link scanner');
+    this.isRunning = false;
+
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Scan every profile due on its scan frequency
+   */
+  async runDueScans(now: Date = new Date()): Promise<number> {
+    if (this.isChecking) return 0;
+    this.isChecking = true;
+
+    let scanned = 0;
+
+    try {
+      // Daily is the shortest frequency, so nothing scanned in the last day is due
+      const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+      const candidates = await backlinkRepository.getProfilesScannedBefore(oneDayAgo);
+      const dueProfiles = candidates.filter(profile =>
+        isScanDue((profile.scanFrequency || 'weekly') as BacklinkScanFrequency, profile.lastScanAt, now)
+      );
+
+      for (const profile of dueProfiles) {
+        if (this.scanning.has(profile.id)) continue;
+
+        const claimed = await backlinkRepository.claimScan(profile, now);
+        if (!claimed) continue; // another server is scanning this profile
+
+        try {
+          await this.scanProfile(profile, now);
+          scanned++;
+        } catch (error) {
+          console.error(`❌ Outgoing link scan failed for profile ${profile.id}:`, error);
+        }
+      }
+
+      if (scanned > 0) {
+        console.log(`🔗 Scanned outgoing links for ${scanned} profile(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Error running outgoing link scans:', error);
+    } finally {
+      this.isChecking = false;
+    }
+
+    return scanned;
+  }
+
+  /**
+   * Scan a profile now, outside its schedule. Returns false if a scan of
+   * the profile is already running.
+   */
+  startScan(profile: BacklinkProfile): boolean {
+    if (this.scanning.has(profile.id)) return false;
+    this.scanning.add(profile.id);
+
+    const now = new Date();
+    backlinkRepository.updateProfile(profile.id, { lastScanAt: now })
+      .then(() => this.scanProfile(profile, now))
+      .catch(error => console.error(`❌ Outgoing link scan failed for profile ${profile.id}:`, error))
+      .finally(() => this.scanning.delete(profile.id));
+
+    return true;
+  }
+
+  /**
+   * Crawl a profile's site, store its outbound links with their targets'
+   * status, drop links no longer found and record a history snapshot
+   */
+  async scanProfile(profile: BacklinkProfile, scannedAt: Date = new Date()): Promise<void> {
+    this.scanning.add(profile.id);
+
+    try {
+      const crawl = await this.crawler.crawlWebsite(profile.url, { maxPages: MAX_SCAN_PAGES });
+      const pages = [crawl.homepage, ...crawl.additionalPages].filter(page => page?.status === 'success');
+
+      const links = pages.flatMap(page => extractOutgoingLinks(page.rawHtml || page.html || '', page.url));
+      const targets = Array.from(new Set(links.map(link => link.targetUrl)));
+      const results = await this.checkTargets(targets.slice(0, MAX_TARGET_CHECKS));
+
+      const toRow = (link: ExtractedLink): InsertOutgoingLink & { lastChecked: Date } => ({
+        profileId: profile.id,
+        ...link,
+        isDofollow: link.rel === 'dofollow',
+        lastChecked: scannedAt,
+        ...results.get(link.targetUrl)
+      });
+
+      await backlinkRepository.saveOutgoingLinks(links.filter(link => results.has(link.targetUrl)).map(toRow), true);
+      await backlinkRepository.saveOutgoingLinks(links.filter(link => !results.has(link.targetUrl)).map(toRow), false);
+      const removed = await backlinkRepository.deleteLinksNotSeenSince(profile.id, scannedAt);
+
+      const counts = await backlinkRepository.getOutgoingLinkCounts(profile.id);
+      await backlinkRepository.createHistorySnapshot({
+        profileId: profile.id,
+        scanDate: scannedAt,
+        totalBacklinks: profile.totalBacklinks,
+        newBacklinks: profile.newBacklinks,
+        lostBacklinks: profile.lostBacklinks,
+        dofollow: profile.dofollow,
+        nofollow: profile.nofollow,
+        domainAuthority: profile.domainAuthority,
+        totalOutgoingLinks: counts.total,
+        brokenOutgoingLinks: counts.broken,
+        redirectedOutgoingLinks: counts.redirected
+      });
+
+      console.log(`🔗 Profile ${profile.id}: ${counts.total} outgoing links on ${pages.length} pages (${counts.broken} broken, ${counts.redirected} redirected, ${removed} removed)`);
+    } finally {
+      this.scanning.delete(profile.id);
+    }
+  }
+
+  /**
+   * Broken outbound links of a profile grouped by target
+   */
+  async getBrokenLinkReport(profile: BacklinkProfile): Promise<BrokenOutboundLinkReport> {
+    const [brokenLinks, counts] = await Promise.all([
+      backlinkRepository.getOutgoingLinks(profile.id, 'broken'),
+      backlinkRepository.getOutgoingLinkCounts(profile.id)
+    ]);
+
+    const targets = new Map<string, BrokenOutboundLinkReport['brokenLinks'][number]>();
+    for (const link of brokenLinks) {
+      if (!targets.has(link.targetUrl)) {
+        targets.set(link.targetUrl, {
+          targetUrl: link.targetUrl,
+          targetDomain: link.targetDomain,
+          statusCode: link.statusCode,
+          lastChecked: link.lastChecked.toISOString(),
+          sources: []
+        });
+      }
+      targets.get(link.targetUrl)!.sources.push({
+        sourceUrl: link.sourceUrl,
+        anchorText: link.anchorText,
+        rel: (link.rel || 'dofollow') as LinkRel,
+        linkPosition: link.linkPosition as LinkPosition | null
+      });
+    }
+
+    return {
+      profileId: profile.id,
+      domain: profile.domain,
+      lastScanAt: profile.lastScanAt ? profile.lastScanAt.toISOString() : null,
+      totalOutgoingLinks: counts.total,
+      brokenLinks: Array.from(targets.values())
+    };
+  }
+
+  /**
+   * Get scanner status
+   */
+  getStatus(): { isRunning: boolean; scanning: number[]; checkIntervalMinutes: number } {
+    return {
+      isRunning: this.isRunning,
+      scanning: Array.from(this.scanning),
+      checkIntervalMinutes: Math.round(CHECK_INTERVAL_MS / 60000)
+    };
+  }
+
+  private async checkTargets(targets: string[]): Promise<Map<string, ReturnType<typeof classifyLinkTarget>>> {
+    const results = new Map<string, ReturnType<typeof classifyLinkTarget>>();
+
+    for (let i = 0; i < targets.length; i += TARGET_CHECK_CONCURRENCY) {
+      const batch = targets.slice(i, i + TARGET_CHECK_CONCURRENCY);
+      const chains = await Promise.all(batch.map(target => redirectTracerService.traceUrl(target, USER_AGENT)));
+      chains.forEach(chain => results.set(chain.url, classifyLinkTarget(chain)));
+    }
+
+    return results;
+  }
+}
+
+// Singleton instance
+export const outgoingLinkService = new OutgoingLinkService();
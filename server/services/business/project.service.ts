@@ -1,25 +1,91 @@
 import { IProjectService } from '../interfaces/project.service.interface';
-import { Project, InsertProject, UpdateProject, Analysis } from '../../../shared/schema';
-import { projectRepository, analysisRepository } from '../../repositories';
-import { eq } from 'drizzle-orm';
-import { db as getDb } from '../../db';
-const db = getDb();
+import { Project, InsertProject, UpdateProject, Analysis, RivalAuditRecord, RivalAudit, ProjectHistory } from '../../../shared/schema';
+import { projectRepository, analysisRepository, rivalAuditRepository, keywordRepository, backlinkRepository } from '../../repositories';
+import { rankTrackerService } from '../rank-tracking/rank-tracker.service';
+import { AccessScope, isInScope } from '../../types/workspace';
+
+// Backlink snapshots shown per profile in a project's history
+const HISTORY_SNAPSHOTS_PER_PROFILE = 12;
+
+/**
+ * Merge a project's audits, analyses, keyword positions and backlink
+ * snapshots into one timeline, newest first
+ */
+export function buildProjectTimeline(history: Omit<ProjectHistory, 'timeline' | 'project'>): ProjectHistory['timeline'] {
+  const timeline: ProjectHistory['timeline'] = [];
+
+  for (const audit of history.audits) {
+    const counts = audit.priorityOfiCount !== null
+      ? `${audit.priorityOfiCount} Priority OFI, ${audit.ofiCount ?? 0} OFI, ${audit.okCount ?? 0} OK`
+      : null;
+
+    timeline.push({
+      type: 'audit',
+      id: audit.id,
+      date: audit.completedAt || audit.createdAt,
+      title: `${audit.scheduled ? 'Scheduled audit' : 'Audit'} of ${audit.url}`,
+      detail: audit.status === 'completed' ? counts : audit.status
+    });
+  }
+
+  for (const analysis of history.analyses) {
+    timeline.push({
+      type: 'analysis',
+      id: analysis.id,
+      date: analysis.timestamp,
+      title: `Analysis of ${analysis.url}`,
+      detail: `Score ${analysis.overallScore}`
+    });
+  }
+
+  for (const keyword of history.keywords) {
+    if (keyword.rankings.length === 0) continue;
+
+    const positions = keyword.rankings.map(ranking => {
+      const change = ranking.change ? ` (${ranking.change > 0 ? '+' : ''}${ranking.change})` : '';
+      return `${ranking.rank === null ? 'not ranked' : `#${ranking.rank}`}${change} on ${ranking.device} in ${ranking.location}`;
+    });
+
+    timeline.push({
+      type: 'keyword',
+      id: keyword.id,
+      date: keyword.rankings.reduce((latest, ranking) => ranking.rankDate > latest ? ranking.rankDate : latest, ''),
+      title: `Rankings for "${keyword.keyword}"`,
+      detail: positions.join(', ')
+    });
+  }
+
+  for (const profile of history.backlinkProfiles) {
+    for (const snapshot of profile.snapshots) {
+      timeline.push({
+        type: 'backlinkSnapshot',
+        id: profile.id,
+        date: snapshot.scanDate,
+        title: `Backlink snapshot of ${profile.domain}`,
+        detail: `${snapshot.totalBacklinks} backlinks, ${snapshot.brokenOutgoingLinks} of ${snapshot.totalOutgoingLinks} outbound links broken`
+      });
+    }
+  }
+
+  return timeline.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
 
 /**
  * Project business logic service
  * 
- * Manages project lifecycle, project-analysis associations,
- * and provides project insights and statistics.
+ * Manages project lifecycle, the analyses and rival audits a project
+ * holds, and provides project history, insights and statistics.
  */
 export class ProjectService implements IProjectService {
 
   /**
-   * Create a new project for a user
+   * Create a new project for a user, shared with the active workspace if any
    */
-  async createProject(userId: string, projectData: Omit<InsertProject, 'userId'>): Promise<Project> {
+  async createProject(scope: AccessScope, projectData: Omit<InsertProject, 'userId'>): Promise<Project> {
     const fullProjectData: InsertProject = {
       ...projectData,
-      userId
+      userId: scope.userId,
+      workspaceId: scope.workspaceId
     };
 
     return await projectRepository.create(fullProjectData);
@@ -28,11 +94,11 @@ export class ProjectService implements IProjectService {
   /**
    * Update an existing project
    */
-  async updateProject(projectId: number, userId: string, updates: UpdateProject): Promise<Project | null> {
-    // Verify user owns the project
-    const hasAccess = await this.userOwnsProject(userId, projectId);
+  async updateProject(projectId: number, scope: AccessScope, updates: UpdateProject): Promise<Project | null> {
+    // Verify user can access the project
+    const hasAccess = await this.canAccessProject(scope, projectId);
     if (!hasAccess) {
-      throw new Error('Access denied: User does not own this project');
+      throw new Error('Access denied: User cannot access this project');
     }
 
     return await projectRepository.updateProject(projectId, updates);
@@ -41,11 +107,11 @@ export class ProjectService implements IProjectService {
   /**
    * Delete a project and all its associations
    */
-  async deleteProject(projectId: number, userId: string): Promise<boolean> {
-    // Verify user owns the project
-    const hasAccess = await this.userOwnsProject(userId, projectId);
+  async deleteProject(projectId: number, scope: AccessScope): Promise<boolean> {
+    // Verify user can access the project
+    const hasAccess = await this.canAccessProject(scope, projectId);
     if (!hasAccess) {
-      throw new Error('Access denied: User does not own this project');
+      throw new Error('Access denied: User cannot access this project');
     }
 
     return await projectRepository.deleteProjectWithAnalyses(projectId);
@@ -54,10 +120,10 @@ export class ProjectService implements IProjectService {
   /**
    * Get project by ID with access control
    */
-  async getProjectById(projectId: number, userId: string): Promise<Project | null> {
+  async getProjectById(projectId: number, scope: AccessScope): Promise<Project | null> {
     const project = await projectRepository.findById(projectId);
     
-    if (!project || project.userId !== userId) {
+    if (!project || !isInScope(scope, project)) {
       return null;
     }
 
@@ -65,20 +131,20 @@ export class ProjectService implements IProjectService {
   }
 
   /**
-   * Get all projects for a user with analysis counts
+   * Get all projects of a scope with analysis counts
    */
-  async getUserProjects(userId: string): Promise<Array<Project & { analysisCount: number }>> {
-    return await projectRepository.getProjectsWithAnalysisCounts(userId);
+  async getUserProjects(scope: AccessScope): Promise<Array<Project & { analysisCount: number }>> {
+    return await projectRepository.getProjectsWithAnalysisCounts(scope);
   }
 
   /**
    * Get project with all associated analyses
    */
-  async getProjectWithAnalyses(projectId: number, userId: string): Promise<{
+  async getProjectWithAnalyses(projectId: number, scope: AccessScope): Promise<{
     project: Project;
     analyses: Analysis[];
   } | null> {
-    const project = await this.getProjectById(projectId, userId);
+    const project = await this.getProjectById(projectId, scope);
     if (!project) {
       return null;
     }
@@ -105,11 +171,11 @@ export class ProjectService implements IProjectService {
   /**
    * Add an analysis to a project
    */
-  async addAnalysisToProject(projectId: number, analysisId: number, userId: string): Promise<boolean> {
-    // Verify user owns the project
-    const hasAccess = await this.userOwnsProject(userId, projectId);
+  async addAnalysisToProject(projectId: number, analysisId: number, scope: AccessScope): Promise<boolean> {
+    // Verify user can access the project
+    const hasAccess = await this.canAccessProject(scope, projectId);
     if (!hasAccess) {
-      throw new Error('Access denied: User does not own this project');
+      throw new Error('Access denied: User cannot access this project');
     }
 
     // Verify the analysis exists and user has access to it
@@ -119,7 +185,7 @@ export class ProjectService implements IProjectService {
     }
 
     // For user analyses, check ownership; for public analyses, allow
-    if (analysis.userId && analysis.userId !== userId) {
+    if (analysis.userId && analysis.userId !== scope.userId) {
       throw new Error('Access denied: User does not own this analysis');
     }
 
@@ -144,11 +210,11 @@ export class ProjectService implements IProjectService {
   /**
    * Remove an analysis from a project
    */
-  async removeAnalysisFromProject(projectId: number, analysisId: number, userId: string): Promise<boolean> {
-    // Verify user owns the project
-    const hasAccess = await this.userOwnsProject(userId, projectId);
+  async removeAnalysisFromProject(projectId: number, analysisId: number, scope: AccessScope): Promise<boolean> {
+    // Verify user can access the project
+    const hasAccess = await this.canAccessProject(scope, projectId);
     if (!hasAccess) {
-      throw new Error('Access denied: User does not own this project');
+      throw new Error('Access denied: User cannot access this project');
     }
 
     return await projectRepository.removeAnalysisFromProject(projectId, analysisId);
@@ -161,35 +227,168 @@ export class ProjectService implements IProjectService {
     return await projectRepository.isAnalysisInProject(projectId, analysisId);
   }
 
+  /**
+   * Add a rival audit to a project and keep it past its expiry as project history
+   */
+  async addAuditToProject(projectId: number, auditId: number, scope: AccessScope): Promise<boolean> {
+    // Verify user can access the project
+    const hasAccess = await this.canAccessProject(scope, projectId);
+    if (!hasAccess) {
+      throw new Error('Access denied: User cannot access this project');
+    }
+
+    // Only audits of the same user or workspace can be added; anonymous audits expire
+    const audit = await rivalAuditRepository.getAudit(auditId);
+    if (!audit || !isInScope(scope, audit)) {
+      throw new Error('Audit not found');
+    }
+
+    if (audit.projectId !== projectId) {
+      await projectRepository.addAuditToProject({ projectId, auditId });
+    }
+
+    if (audit.expiresAt) {
+      await rivalAuditRepository.updateAudit(auditId, { expiresAt: null });
+    }
+
+    return true;
+  }
+
+  /**
+   * Remove a rival audit added to a project by hand
+   */
+  async removeAuditFromProject(projectId: number, auditId: number, scope: AccessScope): Promise<boolean> {
+    // Verify user can access the project
+    const hasAccess = await this.canAccessProject(scope, projectId);
+    if (!hasAccess) {
+      throw new Error('Access denied: User cannot access this project');
+    }
+
+    return await projectRepository.removeAuditFromProject(projectId, auditId);
+  }
+
+  /**
+   * Get a project's rival audits, newest first
+   */
+  async getProjectAudits(projectId: number, scope: AccessScope): Promise<RivalAuditRecord[] | null> {
+    const project = await this.getProjectById(projectId, scope);
+    if (!project) {
+      return null;
+    }
+
+    return await projectRepository.getProjectAudits(projectId);
+  }
+
+  /**
+   * Get everything recorded for a project's client in one place: audits,
+   * analyses, tracked keywords and backlink profiles, plus a timeline of them
+   */
+  async getProjectHistory(projectId: number, scope: AccessScope): Promise<ProjectHistory | null> {
+    const projectWithAnalyses = await this.getProjectWithAnalyses(projectId, scope);
+    if (!projectWithAnalyses) {
+      return null;
+    }
+
+    const { project, analyses } = projectWithAnalyses;
+
+    const [audits, projectKeywords, profiles] = await Promise.all([
+      projectRepository.getProjectAudits(projectId),
+      keywordRepository.getKeywordsByProject(projectId),
+      backlinkRepository.getProfilesByProject(projectId)
+    ]);
+
+    const [positions, snapshots] = await Promise.all([
+      rankTrackerService.getLatestPositions(projectKeywords),
+      Promise.all(profiles.map(profile => backlinkRepository.getHistory(profile.id, HISTORY_SNAPSHOTS_PER_PROFILE)))
+    ]);
+
+    const history: Omit<ProjectHistory, 'timeline'> = {
+      project: {
+        id: project.id,
+        name: project.name,
+        description: project.description,
+        createdAt: project.createdAt.toISOString()
+      },
+      audits: audits.map(audit => this.toHistoryAudit(audit, projectId)),
+      analyses: analyses.map(analysis => ({
+        id: analysis.id,
+        url: analysis.url,
+        overallScore: analysis.overallScore,
+        timestamp: new Date(analysis.timestamp).toISOString()
+      })),
+      keywords: projectKeywords.map(keyword => ({
+        id: keyword.id,
+        keyword: keyword.keyword,
+        targetUrl: keyword.targetUrl,
+        isActive: keyword.isActive,
+        rankings: positions.get(keyword.id) || []
+      })),
+      backlinkProfiles: profiles.map((profile, index) => ({
+        id: profile.id,
+        url: profile.url,
+        domain: profile.domain,
+        totalBacklinks: profile.totalBacklinks ?? 0,
+        newBacklinks: profile.newBacklinks ?? 0,
+        lostBacklinks: profile.lostBacklinks ?? 0,
+        lastScanAt: profile.lastScanAt ? profile.lastScanAt.toISOString() : null,
+        snapshots: snapshots[index].map(snapshot => ({
+          scanDate: snapshot.scanDate.toISOString(),
+          totalBacklinks: snapshot.totalBacklinks ?? 0,
+          totalOutgoingLinks: snapshot.totalOutgoingLinks ?? 0,
+          brokenOutgoingLinks: snapshot.brokenOutgoingLinks ?? 0
+        }))
+      }))
+    };
+
+    return { ...history, timeline: buildProjectTimeline(history) };
+  }
+
+  private toHistoryAudit(audit: RivalAuditRecord, projectId: number): ProjectHistory['audits'][number] {
+    const summary = audit.summary as Partial<RivalAudit['summary']> | null;
+
+    return {
+      id: audit.id,
+      url: audit.url,
+      status: audit.status,
+      pagesAnalyzed: audit.pagesAnalyzed,
+      priorityOfiCount: summary?.priorityOfiCount ?? null,
+      ofiCount: summary?.ofiCount ?? null,
+      okCount: summary?.okCount ?? null,
+      scheduled: audit.projectId === projectId,
+      createdAt: audit.createdAt.toISOString(),
+      completedAt: audit.completedAt ? audit.completedAt.toISOString() : null
+    };
+  }
+
   /**
    * Search user's projects by name or description
    */
-  async searchUserProjects(userId: string, searchTerm: string): Promise<Project[]> {
-    return await projectRepository.searchByName(userId, searchTerm);
+  async searchUserProjects(scope: AccessScope, searchTerm: string): Promise<Project[]> {
+    return await projectRepository.searchByName(scope, searchTerm);
   }
 
   /**
    * Get user's recent projects
    */
-  async getRecentProjects(userId: string, limit: number = 5): Promise<Project[]> {
-    return await projectRepository.getRecentProjects(userId, limit);
+  async getRecentProjects(scope: AccessScope, limit: number = 5): Promise<Project[]> {
+    return await projectRepository.getRecentProjects(scope, limit);
   }
 
   /**
    * Get comprehensive project statistics
    */
-  async getProjectStats(projectId: number, userId: string): Promise<{
+  async getProjectStats(projectId: number, scope: AccessScope): Promise<{
     analysisCount: number;
     averageScore: number;
     lastUpdated: Date;
     createdAt: Date;
   } | null> {
-    const project = await this.getProjectById(projectId, userId);
+    const project = await this.getProjectById(projectId, scope);
     if (!project) {
       return null;
     }
 
-    const projectWithAnalyses = await this.getProjectWithAnalyses(projectId, userId);
+    const projectWithAnalyses = await this.getProjectWithAnalyses(projectId, scope);
     if (!projectWithAnalyses) {
       return null;
     }
@@ -212,7 +411,7 @@ export class ProjectService implements IProjectService {
   /**
    * Get user's overall project statistics
    */
-  async getUserProjectStats(userId: string): Promise<{
+  async getUserProjectStats(scope: AccessScope): Promise<{
     totalProjects: number;
     totalAnalyses: number;
     averageAnalysesPerProject: number;
@@ -221,7 +420,7 @@ export class ProjectService implements IProjectService {
       analysesAddedThisMonth: number;
     };
   }> {
-    const userProjects = await projectRepository.getProjectsWithAnalysisCounts(userId);
+    const userProjects = await projectRepository.getProjectsWithAnalysisCounts(scope);
     
     const totalProjects = userProjects.length;
     const totalAnalyses = userProjects.reduce((sum, project) => sum + project.analysisCount, 0);
@@ -242,7 +441,7 @@ export class ProjectService implements IProjectService {
     const projectsCreatedThisMonth = recentProjects.length;
     
     // Get recent analyses count (this is an approximation)
-    const recentAnalyses = await analysisRepository.findRecentByUserId(userId, 30);
+    const recentAnalyses = await analysisRepository.findRecentByUserId(scope.userId, 30);
     const analysesAddedThisMonth = recentAnalyses.length;
 
     return {
@@ -257,42 +456,42 @@ export class ProjectService implements IProjectService {
   }
 
   /**
-   * Check if user owns a specific project
+   * Check if a project belongs to the user or the active workspace
    */
-  async userOwnsProject(userId: string, projectId: number): Promise<boolean> {
-    return await projectRepository.userOwnsProject(userId, projectId);
+  async canAccessProject(scope: AccessScope, projectId: number): Promise<boolean> {
+    return await projectRepository.canAccessProject(scope, projectId);
   }
 
   /**
    * Validate user has access to a project
    */
-  async validateProjectAccess(userId: string, projectId: number): Promise<boolean> {
-    return await this.userOwnsProject(userId, projectId);
+  async validateProjectAccess(scope: AccessScope, projectId: number): Promise<boolean> {
+    return await this.canAccessProject(scope, projectId);
   }
 
   /**
    * Duplicate a project with all its analyses
    */
-  async duplicateProject(projectId: number, userId: string, newName?: string): Promise<Project | null> {
-    const originalProject = await this.getProjectById(projectId, userId);
+  async duplicateProject(projectId: number, scope: AccessScope, newName?: string): Promise<Project | null> {
+    const originalProject = await this.getProjectById(projectId, scope);
     if (!originalProject) {
       return null;
     }
 
-    const projectWithAnalyses = await this.getProjectWithAnalyses(projectId, userId);
+    const projectWithAnalyses = await this.getProjectWithAnalyses(projectId, scope);
     if (!projectWithAnalyses) {
       return null;
     }
 
     // Create new project
-    const newProject = await this.createProject(userId, {
+    const newProject = await this.createProject(scope, {
       name: newName || `${originalProject.name} (Copy)`,
       description: originalProject.description
     });
 
     // Add all analyses to the new project
     for (const analysis of projectWithAnalyses.analyses) {
-      await this.addAnalysisToProject(newProject.id, analysis.id, userId);
+      await this.addAnalysisToProject(newProject.id, analysis.id, scope);
     }
 
     return newProject;
@@ -301,7 +500,7 @@ export class ProjectService implements IProjectService {
   /**
    * Get project export data
    */
-  async getProjectExportData(projectId: number, userId: string): Promise<{
+  async getProjectExportData(projectId: number, scope: AccessScope): Promise<{
     project: Project;
     analyses: Analysis[];
     summary: {
@@ -312,7 +511,7 @@ export class ProjectService implements IProjectService {
       lastUpdated: Date;
     };
   } | null> {
-    const projectWithAnalyses = await this.getProjectWithAnalyses(projectId, userId);
+    const projectWithAnalyses = await this.getProjectWithAnalyses(projectId, scope);
     if (!projectWithAnalyses) {
       return null;
     }
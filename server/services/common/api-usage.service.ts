@@ -5,6 +5,7 @@ import { between, desc, eq, sql, and } from 'drizzle-orm';
 
 interface ApiUsageData {
   userId?: string;
+  apiKeyId?: number;
   endpoint: string;
   method: string;
   statusCode?: number;
@@ -50,6 +51,7 @@ class ApiUsageService {
   async logApiUsage(data: ApiUsageData): Promise<ApiUsage> {
     const [result] = await db.insert(apiUsage).values({
       userId: data.userId,
+      apiKeyId: data.apiKeyId,
       endpoint: data.endpoint,
       method: data.method,
       statusCode: data.statusCode,
@@ -0,0 +1,59 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Transactional email over the SMTP server in SMTP_HOST. Without it, emails
+ * are not sent and callers fall back to showing links in the app.
+ */
+export class EmailService {
+  private transporter: Transporter | null = null;
+
+  isConfigured(): boolean {
+    return !!process.env.SMTP_HOST;
+  }
+
+  /**
+   * Send an email, returning whether it was handed to the SMTP server
+   */
+  async send(message: EmailMessage): Promise<boolean> {
+    const transporter = this.getTransporter();
+    if (!transporter) {
+      return false;
+    }
+
+    try {
+      await transporter.sendMail({
+        from: `"${process.env.EMAIL_FROM_NAME || 'Rival Outranker'}" <${process.env.EMAIL_FROM || 'noreply@rivaloutranker.com'}>`,
+        ...message
+      });
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to send email "${message.subject}":`, error);
+      return false;
+    }
+  }
+
+  private getTransporter(): Transporter | null {
+    if (!this.transporter && this.isConfigured()) {
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER ? {
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS
+        } : undefined
+      });
+    }
+    return this.transporter;
+  }
+}
+
+// Singleton instance
+export const emailService = new EmailService();
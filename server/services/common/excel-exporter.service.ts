@@ -1,5 +1,5 @@
 import Excel from 'exceljs';
-import { RivalAudit, AuditItem, EnhancedRivalAudit, EnhancedAuditItem } from '../../../shared/schema';
+import { RivalAudit, AuditItem, EnhancedRivalAudit, EnhancedAuditItem, AuditComparison, AuditItemChange, ScoreDelta, DuplicateContentCluster, AnalysisBatchReport, AnalysisBatchRow, CompetitorComparisonDetail, CompetitorGapReport } from '../../../shared/schema';
 import { Buffer } from 'buffer';
 
 // Professional color scheme
@@ -31,8 +31,9 @@ const CHART_COLORS = [
 
 /**
  * Generate a comprehensive Excel report from Enhanced Rival Audit (200+ factors)
+ * When a comparison with an earlier audit is given, a "Changes Since Last Audit" tab is added.
  */
-export async function generateEnhancedRivalAuditExcel(audit: EnhancedRivalAudit): Promise<Buffer> {
+export async function generateEnhancedRivalAuditExcel(audit: EnhancedRivalAudit, comparison?: AuditComparison): Promise<Buffer> {
   console.log('[ExcelExporter] Starting enhanced audit Excel generation with 200+ factors');
   
   const workbook = new Excel.Workbook();
@@ -49,6 +50,12 @@ export async function generateEnhancedRivalAuditExcel(audit: EnhancedRivalAudit)
   await createEnhancedCategoryTabs(workbook, audit);
   await createPageLevelAnalysisTab(workbook, audit);
   await createPriorityActionsTab(workbook, audit);
+  if (audit.duplicateContent) {
+    await createDuplicateContentTab(workbook, audit);
+  }
+  if (comparison) {
+    await createChangesSinceLastAuditTab(workbook, comparison);
+  }
   await createTechnicalMetadataTab(workbook, audit);
   
   console.log('[ExcelExporter] Enhanced Excel generation complete');
@@ -79,6 +86,258 @@ export async function generateRivalAuditExcel(audit: RivalAudit): Promise<Buffer
   return await workbook.xlsx.writeBuffer() as Buffer;
 }
 
+/**
+ * Generate a comparison table of a batch analysis: one row per page with its
+ * overall and category scores, in the order given
+ */
+export async function generateBatchAnalysisExcel(
+  report: AnalysisBatchReport,
+  columns: Array<{ key: keyof AnalysisBatchRow; label: string }>
+): Promise<Buffer> {
+  const workbook = new Excel.Workbook();
+  const title = report.batch.name || report.batch.sitemapUrl || `Batch ${report.batch.id}`;
+
+  workbook.creator = 'Rival Outranker';
+  workbook.created = new Date();
+  workbook.title = `Batch Analysis - ${title}`;
+
+  const sheet = workbook.addWorksheet('📊 Page Comparison');
+  if (sheet.properties) {
+    sheet.properties.tabColor = { argb: COLORS.primary };
+  }
+
+  const lastColumn = columns.length + 2;
+
+  sheet.mergeCells(1, 1, 1, lastColumn);
+  const titleCell = sheet.getCell(1, 1);
+  titleCell.value = `📊 BATCH ANALYSIS - ${title.toUpperCase()}`;
+  titleCell.font = { size: 16, bold: true, color: { argb: COLORS.white } };
+  titleCell.alignment = { horizontal: 'center' };
+  titleCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.primary } };
+  sheet.getRow(1).height = 30;
+
+  sheet.mergeCells(2, 1, 2, lastColumn);
+  sheet.getCell(2, 1).value = `${report.batch.completedPages} of ${report.batch.totalPages} pages analyzed, ${report.batch.failedPages} failed | Generated: ${new Date().toLocaleDateString()}`;
+  sheet.getCell(2, 1).font = { italic: true, color: { argb: COLORS.neutral } };
+  sheet.getCell(2, 1).alignment = { horizontal: 'center' };
+
+  const headerRow = 4;
+  ['Page URL', ...columns.map(column => column.label), 'Status'].forEach((header, index) => {
+    const cell = sheet.getCell(headerRow, index + 1);
+    cell.value = header;
+    cell.font = { bold: true, color: { argb: COLORS.white } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.headerDark } };
+    cell.alignment = { horizontal: 'center', wrapText: true };
+    addBorderToCell(cell);
+  });
+
+  report.rows.forEach((row, rowIndex) => {
+    const excelRow = headerRow + 1 + rowIndex;
+    sheet.getCell(excelRow, 1).value = row.url;
+
+    columns.forEach((column, columnIndex) => {
+      const score = row[column.key];
+      const cell = sheet.getCell(excelRow, columnIndex + 2);
+      cell.value = typeof score === 'number' ? score : null;
+      cell.alignment = { horizontal: 'center' };
+      if (typeof score === 'number') {
+        const fill = score >= 70 ? COLORS.successLight : score >= 50 ? COLORS.warningLight : COLORS.dangerLight;
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: fill } };
+      }
+    });
+
+    sheet.getCell(excelRow, lastColumn).value = row.status === 'failed' && row.error ? `Failed: ${row.error}` : row.status;
+
+    for (let col = 1; col <= lastColumn; col++) {
+      addBorderToCell(sheet.getCell(excelRow, col));
+    }
+  });
+
+  sheet.getColumn(1).width = 60;
+  for (let col = 2; col < lastColumn; col++) {
+    sheet.getColumn(col).width = 14;
+  }
+  sheet.getColumn(lastColumn).width = 30;
+  sheet.autoFilter = { from: { row: headerRow, column: 1 }, to: { row: headerRow, column: lastColumn } };
+  sheet.views = [{ state: 'frozen', xSplit: 1, ySplit: headerRow }];
+
+  return await workbook.xlsx.writeBuffer() as Buffer;
+}
+
+/**
+ * Generate a side-by-side report of a site and its competitors: the scorecard,
+ * every audit factor with the gaps highlighted, and matching page content depth
+ */
+export async function generateCompetitorGapExcel(
+  detail: CompetitorComparisonDetail,
+  report: CompetitorGapReport
+): Promise<Buffer> {
+  const workbook = new Excel.Workbook();
+  const siteNames = detail.sites.map(site => site.url.replace(/^https?:\/\//, '').replace(/\/$/, ''));
+  const title = detail.comparison.name || `${siteNames[0]} vs competitors`;
+
+  workbook.creator = 'Rival Outranker';
+  workbook.created = new Date();
+  workbook.title = `Competitor Gap Analysis - ${title}`;
+
+  const addHeader = (sheet: Excel.Worksheet, heading: string, subtitle: string, lastColumn: number) => {
+    sheet.mergeCells(1, 1, 1, lastColumn);
+    const titleCell = sheet.getCell(1, 1);
+    titleCell.value = heading;
+    titleCell.font = { size: 16, bold: true, color: { argb: COLORS.white } };
+    titleCell.alignment = { horizontal: 'center' };
+    titleCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.primary } };
+    sheet.getRow(1).height = 30;
+
+    sheet.mergeCells(2, 1, 2, lastColumn);
+    sheet.getCell(2, 1).value = subtitle;
+    sheet.getCell(2, 1).font = { italic: true, color: { argb: COLORS.neutral } };
+    sheet.getCell(2, 1).alignment = { horizontal: 'center' };
+  };
+
+  const addTableHeader = (sheet: Excel.Worksheet, row: number, headers: string[]) => {
+    headers.forEach((header, index) => {
+      const cell = sheet.getCell(row, index + 1);
+      cell.value = header;
+      cell.font = { bold: true, color: { argb: COLORS.white } };
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.headerDark } };
+      cell.alignment = { horizontal: 'center', wrapText: true };
+      addBorderToCell(cell);
+    });
+  };
+
+  const siteHeaders = siteNames.map((name, index) => index === 0 ? `${name} (you)` : name);
+  const headerRow = 4;
+
+  // Scorecard: one row per metric, the best value of each row in green
+  const scorecard = workbook.addWorksheet('🏆 Scorecard');
+  if (scorecard.properties) {
+    scorecard.properties.tabColor = { argb: COLORS.primary };
+  }
+  addHeader(scorecard, `🏆 COMPETITOR SCORECARD - ${title.toUpperCase()}`, `Generated: ${new Date().toLocaleDateString()}`, siteNames.length + 1);
+  addTableHeader(scorecard, headerRow, ['Metric', ...siteHeaders]);
+
+  report.scorecard.forEach((row, rowIndex) => {
+    const excelRow = headerRow + 1 + rowIndex;
+    const known = row.values.filter((value): value is number => value !== null);
+    const best = known.length > 1 ? (row.higherIsBetter ? Math.max(...known) : Math.min(...known)) : null;
+
+    scorecard.getCell(excelRow, 1).value = row.metric;
+    scorecard.getCell(excelRow, 1).font = { bold: true };
+    addBorderToCell(scorecard.getCell(excelRow, 1));
+    row.values.forEach((value, siteIndex) => {
+      const cell = scorecard.getCell(excelRow, siteIndex + 2);
+      cell.value = value ?? '-';
+      cell.alignment = { horizontal: 'center' };
+      if (value !== null && value === best) {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.successLight } };
+        cell.font = { bold: true };
+      }
+      addBorderToCell(cell);
+    });
+  });
+
+  scorecard.getColumn(1).width = 30;
+  siteNames.forEach((_, index) => { scorecard.getColumn(index + 2).width = 28; });
+
+  // Factors: every aligned factor, gaps first within each category
+  const factorSheet = workbook.addWorksheet('⚔️ Factor Comparison');
+  if (factorSheet.properties) {
+    factorSheet.properties.tabColor = { argb: COLORS.danger };
+  }
+  const factorColumns = siteNames.length + 4;
+  const gapCount = report.factors.filter(factor => factor.gap).length;
+  addHeader(factorSheet, '⚔️ FACTOR COMPARISON', `${gapCount} factors where a competitor passes and ${siteNames[0]} does not`, factorColumns);
+  addTableHeader(factorSheet, headerRow, ['Category', 'Factor', 'Importance', ...siteHeaders, 'Gap']);
+
+  const statusFill: Record<string, string> = {
+    'OK': COLORS.successLight,
+    'OFI': COLORS.warningLight,
+    'Priority OFI': COLORS.dangerLight
+  };
+
+  report.factors.forEach((factor, rowIndex) => {
+    const excelRow = headerRow + 1 + rowIndex;
+    factorSheet.getCell(excelRow, 1).value = factor.category;
+    factorSheet.getCell(excelRow, 2).value = factor.name;
+    factorSheet.getCell(excelRow, 3).value = factor.importance || '-';
+
+    factor.statuses.forEach((status, siteIndex) => {
+      const cell = factorSheet.getCell(excelRow, siteIndex + 4);
+      const passRate = factor.passRates[siteIndex];
+      cell.value = status ? (passRate !== null && status !== 'OK' ? `${status} (${passRate}% pass)` : status) : 'Not checked';
+      cell.alignment = { horizontal: 'center' };
+      if (status && statusFill[status]) {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: statusFill[status] } };
+      }
+    });
+
+    const gapCell = factorSheet.getCell(excelRow, factorColumns);
+    gapCell.value = factor.gap ? 'Yes' : '';
+    gapCell.alignment = { horizontal: 'center' };
+    if (factor.gap) {
+      gapCell.font = { bold: true, color: { argb: COLORS.danger } };
+    }
+
+    for (let col = 1; col <= factorColumns; col++) {
+      addBorderToCell(factorSheet.getCell(excelRow, col));
+    }
+  });
+
+  factorSheet.getColumn(1).width = 22;
+  factorSheet.getColumn(2).width = 45;
+  factorSheet.getColumn(3).width = 12;
+  siteNames.forEach((_, index) => { factorSheet.getColumn(index + 4).width = 24; });
+  factorSheet.getColumn(factorColumns).width = 8;
+  factorSheet.autoFilter = { from: { row: headerRow, column: 1 }, to: { row: headerRow, column: factorColumns } };
+  factorSheet.views = [{ state: 'frozen', xSplit: 2, ySplit: headerRow }];
+
+  // Content depth: word counts of matching service and location pages
+  const depthSheet = workbook.addWorksheet('📄 Content Depth');
+  if (depthSheet.properties) {
+    depthSheet.properties.tabColor = { argb: COLORS.warning };
+  }
+  const depthColumns = siteNames.length + 3;
+  addHeader(depthSheet, '📄 SERVICE & LOCATION PAGE CONTENT DEPTH', 'Word counts of matching pages; empty when the site has no page on the topic', depthColumns);
+  addTableHeader(depthSheet, headerRow, ['Page Type', 'Topic', ...siteHeaders, 'Behind']);
+
+  report.contentDepth.forEach((row, rowIndex) => {
+    const excelRow = headerRow + 1 + rowIndex;
+    depthSheet.getCell(excelRow, 1).value = row.pageType === 'service' ? 'Service' : 'Location';
+    depthSheet.getCell(excelRow, 2).value = row.topic;
+
+    row.pages.forEach((page, siteIndex) => {
+      const cell = depthSheet.getCell(excelRow, siteIndex + 3);
+      if (page) {
+        cell.value = { text: `${page.wordCount} words`, hyperlink: page.pageUrl };
+        cell.font = { color: { argb: COLORS.primary }, underline: true };
+      } else {
+        cell.value = '';
+      }
+      cell.alignment = { horizontal: 'center' };
+    });
+
+    const behindCell = depthSheet.getCell(excelRow, depthColumns);
+    behindCell.value = row.behind ? (row.pages[0] ? `${row.wordCountGap} words` : 'No page') : '';
+    if (row.behind) {
+      behindCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.dangerLight } };
+    }
+
+    for (let col = 1; col <= depthColumns; col++) {
+      addBorderToCell(depthSheet.getCell(excelRow, col));
+    }
+  });
+
+  depthSheet.getColumn(1).width = 12;
+  depthSheet.getColumn(2).width = 30;
+  siteNames.forEach((_, index) => { depthSheet.getColumn(index + 3).width = 22; });
+  depthSheet.getColumn(depthColumns).width = 14;
+  depthSheet.autoFilter = { from: { row: headerRow, column: 1 }, to: { row: headerRow, column: depthColumns } };
+  depthSheet.views = [{ state: 'frozen', xSplit: 2, ySplit: headerRow }];
+
+  return await workbook.xlsx.writeBuffer() as Buffer;
+}
+
 /**
  * EXECUTIVE SUMMARY TAB - Professional dashboard with key insights
  */
@@ -718,6 +977,222 @@ async function createPriorityActionsTab(workbook: Excel.Workbook, audit: Enhance
   sheet.views = [{ state: 'frozen', xSplit: 0, ySplit: 4 }];
 }
 
+/**
+ * CHANGES SINCE LAST AUDIT TAB - Score deltas and item changes against an earlier audit
+ */
+async function createChangesSinceLastAuditTab(workbook: Excel.Workbook, comparison: AuditComparison): Promise<void> {
+  const sheet = workbook.addWorksheet('🔄 Changes Since Last Audit');
+  if (sheet.properties) {
+    sheet.properties.tabColor = { argb: COLORS.primary };
+  }
+  
+  let currentRow = 1;
+  
+  // Header
+  sheet.mergeCells(`A${currentRow}:F${currentRow}`);
+  const titleCell = sheet.getCell(`A${currentRow}`);
+  titleCell.value = '🔄 CHANGES SINCE LAST AUDIT';
+  titleCell.font = { size: 16, bold: true, color: { argb: COLORS.white } };
+  titleCell.alignment = { horizontal: 'center' };
+  titleCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.primary } };
+  sheet.getRow(currentRow).height = 30;
+  currentRow++;
+  
+  sheet.mergeCells(`A${currentRow}:F${currentRow}`);
+  const baselineDate = comparison.baseline.completedAt
+    ? new Date(comparison.baseline.completedAt).toLocaleDateString()
+    : 'unknown date';
+  sheet.getCell(`A${currentRow}`).value = `Compared with audit #${comparison.baseline.auditId} (${baselineDate})`;
+  sheet.getCell(`A${currentRow}`).font = { italic: true };
+  sheet.getCell(`A${currentRow}`).alignment = { horizontal: 'center' };
+  currentRow += 2;
+  
+  // Score deltas
+  const scoreRows: Array<[string, ScoreDelta]> = [
+    ['Overall Score', comparison.scores.overallScore],
+    ['Weighted Overall Score', comparison.scores.weightedOverallScore],
+    ...Object.entries(comparison.scores.categoryScores).map(([name, delta]) => [`${name} Score`, delta] as [string, ScoreDelta]),
+    ['Priority OFI Count', comparison.counts.priorityOfiCount],
+    ['OFI Count', comparison.counts.ofiCount],
+    ['OK Count', comparison.counts.okCount],
+    ['N/A Count', comparison.counts.naCount]
+  ];
+  
+  ['Metric', 'Previous', 'Current', 'Change'].forEach((header, index) => {
+    const cell = sheet.getCell(currentRow, index + 1);
+    cell.value = header;
+    cell.font = { bold: true, color: { argb: COLORS.white } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.headerDark } };
+    cell.alignment = { horizontal: 'center' };
+    addBorderToCell(cell);
+  });
+  currentRow++;
+  
+  scoreRows.forEach(([metric, score]) => {
+    // Issue counts improve when they go down
+    const lowerIsBetter = metric === 'Priority OFI Count' || metric === 'OFI Count';
+    
+    sheet.getCell(currentRow, 1).value = metric;
+    sheet.getCell(currentRow, 2).value = score.previous ?? '-';
+    sheet.getCell(currentRow, 3).value = score.current ?? '-';
+    
+    const changeCell = sheet.getCell(currentRow, 4);
+    changeCell.value = score.delta === null ? '-' : `${score.delta > 0 ? '+' : ''}${score.delta}`;
+    if (score.delta) {
+      const improved = lowerIsBetter ? score.delta < 0 : score.delta > 0;
+      changeCell.font = { bold: true, color: { argb: improved ? COLORS.success : COLORS.danger } };
+    }
+    
+    for (let col = 1; col <= 4; col++) {
+      addBorderToCell(sheet.getCell(currentRow, col));
+      if (col > 1) {
+        sheet.getCell(currentRow, col).alignment = { horizontal: 'center' };
+      }
+    }
+    currentRow++;
+  });
+  currentRow += 2;
+  
+  // Item changes
+  const sections: Array<{ title: string; items: AuditItemChange[]; color: string; lightColor: string }> = [
+    { title: '🚨 New Priority OFIs', items: comparison.newPriorityOfis, color: COLORS.danger, lightColor: COLORS.dangerLight },
+    { title: '✅ Resolved Items', items: comparison.resolvedItems, color: COLORS.success, lightColor: COLORS.successLight },
+    { title: '🔀 Status Changes', items: comparison.statusChanges, color: COLORS.warning, lightColor: COLORS.warningLight },
+    { title: '➕ New Checks', items: comparison.addedItems, color: COLORS.primary, lightColor: COLORS.primaryLight },
+    { title: '➖ Checks No Longer Reported', items: comparison.removedItems, color: COLORS.neutral, lightColor: COLORS.neutralLight }
+  ];
+  
+  sections.forEach(section => {
+    sheet.mergeCells(`A${currentRow}:F${currentRow}`);
+    const sectionCell = sheet.getCell(`A${currentRow}`);
+    sectionCell.value = `${section.title} (${section.items.length})`;
+    sectionCell.font = { size: 13, bold: true, color: { argb: section.color } };
+    sectionCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: section.lightColor } };
+    currentRow++;
+    
+    if (section.items.length === 0) {
+      sheet.getCell(currentRow, 1).value = 'None';
+      sheet.getCell(currentRow, 1).font = { italic: true, color: { argb: COLORS.neutral } };
+      currentRow += 2;
+      return;
+    }
+    
+    ['Item', 'Category', 'Page', 'Previous Status', 'Current Status', 'Change'].forEach((header, index) => {
+      const cell = sheet.getCell(currentRow, index + 1);
+      cell.value = header;
+      cell.font = { bold: true };
+      addBorderToCell(cell);
+    });
+    currentRow++;
+    
+    section.items.forEach(item => {
+      sheet.getCell(currentRow, 1).value = item.name;
+      sheet.getCell(currentRow, 2).value = item.category;
+      sheet.getCell(currentRow, 3).value = item.pageUrl || 'Site-wide';
+      sheet.getCell(currentRow, 4).value = item.previousStatus || '-';
+      sheet.getCell(currentRow, 5).value = item.currentStatus || '-';
+      sheet.getCell(currentRow, 6).value = item.direction;
+      
+      for (let col = 1; col <= 6; col++) {
+        addBorderToCell(sheet.getCell(currentRow, col));
+        sheet.getCell(currentRow, col).alignment = { wrapText: true, vertical: 'top' };
+      }
+      currentRow++;
+    });
+    currentRow++;
+  });
+  
+  sheet.getColumn(1).width = 40; // Item / metric
+  sheet.getColumn(2).width = 20; // Category / previous
+  sheet.getColumn(3).width = 35; // Page / current
+  sheet.getColumn(4).width = 16; // Previous status / change
+  sheet.getColumn(5).width = 16; // Current status
+  sheet.getColumn(6).width = 12; // Direction
+}
+
+/**
+ * DUPLICATE CONTENT TAB - Clusters of near-duplicate pages and repeated tags
+ */
+async function createDuplicateContentTab(workbook: Excel.Workbook, audit: EnhancedRivalAudit): Promise<void> {
+  const sheet = workbook.addWorksheet('📑 Duplicate Content');
+  if (sheet.properties) {
+    sheet.properties.tabColor = { argb: COLORS.warning };
+  }
+  
+  const { clusters, pagesCompared } = audit.duplicateContent!;
+  let currentRow = 1;
+  
+  // Header
+  sheet.mergeCells(`A${currentRow}:E${currentRow}`);
+  const titleCell = sheet.getCell(`A${currentRow}`);
+  titleCell.value = '📑 DUPLICATE CONTENT';
+  titleCell.font = { size: 16, bold: true, color: { argb: COLORS.white } };
+  titleCell.alignment = { horizontal: 'center' };
+  titleCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.primary } };
+  sheet.getRow(currentRow).height = 30;
+  currentRow++;
+  
+  sheet.mergeCells(`A${currentRow}:E${currentRow}`);
+  sheet.getCell(`A${currentRow}`).value = `${clusters.length} clusters found across ${pagesCompared} pages`;
+  sheet.getCell(`A${currentRow}`).font = { italic: true };
+  sheet.getCell(`A${currentRow}`).alignment = { horizontal: 'center' };
+  currentRow += 2;
+  
+  if (clusters.length === 0) {
+    sheet.getCell(currentRow, 1).value = 'No duplicate content, titles, meta descriptions or H1s found';
+    sheet.getCell(currentRow, 1).font = { italic: true, color: { argb: COLORS.success } };
+    sheet.getColumn(1).width = 60;
+    return;
+  }
+  
+  const typeLabels: Record<DuplicateContentCluster['type'], string> = {
+    content: 'Near-Duplicate Body Text',
+    title: 'Duplicate Title',
+    metaDescription: 'Duplicate Meta Description',
+    h1: 'Duplicate H1'
+  };
+  
+  ['Cluster', 'Type', 'Shared Value / Similarity', 'Page URL', 'Page Type'].forEach((header, index) => {
+    const cell = sheet.getCell(currentRow, index + 1);
+    cell.value = header;
+    cell.font = { bold: true, color: { argb: COLORS.white } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.headerDark } };
+    cell.alignment = { horizontal: 'center' };
+    addBorderToCell(cell);
+  });
+  currentRow++;
+  
+  // One row per page, grouped by cluster
+  clusters.forEach((cluster, clusterIndex) => {
+    const shared = cluster.type === 'content'
+      ? `${Math.round((cluster.similarity || 0) * 100)}% similar`
+      : cluster.value || '';
+    const fill = clusterIndex % 2 === 0 ? COLORS.neutralLight : COLORS.white;
+    
+    cluster.pages.forEach((page, pageIndex) => {
+      sheet.getCell(currentRow, 1).value = pageIndex === 0 ? `#${clusterIndex + 1} (${cluster.pages.length} pages)` : '';
+      sheet.getCell(currentRow, 2).value = pageIndex === 0 ? typeLabels[cluster.type] : '';
+      sheet.getCell(currentRow, 3).value = pageIndex === 0 ? shared : '';
+      sheet.getCell(currentRow, 4).value = page.url;
+      sheet.getCell(currentRow, 5).value = page.pageType;
+      
+      for (let col = 1; col <= 5; col++) {
+        const cell = sheet.getCell(currentRow, col);
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: fill } };
+        cell.alignment = { wrapText: true, vertical: 'top' };
+        addBorderToCell(cell);
+      }
+      currentRow++;
+    });
+  });
+  
+  sheet.getColumn(1).width = 18; // Cluster
+  sheet.getColumn(2).width = 28; // Type
+  sheet.getColumn(3).width = 45; // Shared value
+  sheet.getColumn(4).width = 60; // Page URL
+  sheet.getColumn(5).width = 14; // Page type
+}
+
 /**
  * TECHNICAL METADATA TAB - Analysis details and performance metrics
  */
@@ -745,6 +1220,7 @@ async function createTechnicalMetadataTab(workbook: Excel.Workbook, audit: Enhan
     { label: 'Analysis Version', value: audit.analysisMetadata?.analysisVersion || '3.0' },
     { label: 'Total Factors Analyzed', value: audit.summary.totalFactors || 'N/A' },
     { label: 'Pages Crawled', value: audit.analysisMetadata?.crawlerStats?.pagesCrawled || 'N/A' },
+    { label: 'Pages Skipped by robots.txt', value: audit.analysisMetadata?.crawlerStats?.robots?.respected === false ? 'robots.txt ignored (authorized)' : audit.analysisMetadata?.crawlerStats?.pagesSkippedByRobots ?? 'N/A' },
     { label: 'Analysis Duration', value: audit.analysisMetadata?.analysisTime ? `${Math.round(audit.analysisMetadata.analysisTime / 1000)}s` : 'N/A' },
     { label: 'Website URL', value: audit.url },
     { label: 'Report Generated By', value: 'Rival Outranker SEO Platform' },
@@ -3,4 +3,5 @@ export * from './api-usage.service';
 export * from './cost-estimation.service';
 // Removed: export * from './learning-path.service';
 export * from './csv-exporter.service';
-export * from './excel-exporter.service';
\ No newline at end of file
+export * from './excel-exporter.service';
+export * from './email.service';
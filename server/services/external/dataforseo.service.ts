@@ -1,9 +1,27 @@
 import axios from 'axios';
+import { RankLocation } from '../../../shared/schema';
 
 // DataForSEO API authentication
 const API_LOGIN = process.env.DATAFORSEO_API_LOGIN;
 const API_PASSWORD = process.env.DATAFORSEO_API_PASSWORD;
 
+// DataForSEO location codes of the supported countries
+export const DATAFORSEO_LOCATION_CODES: Record<RankLocation, number> = {
+  us: 2840,
+  gb: 2826,
+  ca: 2124,
+  au: 2036,
+  nz: 2554,
+  ie: 2372
+};
+
+/**
+ * Whether DataForSEO credentials are set
+ */
+export function isDataForSeoConfigured(): boolean {
+  return Boolean(API_LOGIN && API_PASSWORD);
+}
+
 /**
  * Polls a DataForSEO task until it's complete and returns the results
  * @param taskId The ID of the task to check
@@ -191,103 +209,6 @@ function processApiResponse(apiResponse: any, endpointName: string): any {
   return task.result[0];
 }
 
-/**
- * Generates a list of fallback keyword suggestions when the API isn't available
- * @param baseKeyword The original keyword to generate suggestions for
- * @returns Array of related keywords with simulated metrics
- */
-function generateFallbackSuggestions(baseKeyword: string): RelatedKeyword[] {
-  // Common prefixes and suffixes to generate variations
-  const prefixes = ['best', 'top', 'affordable', 'cheap', 'professional', 'emergency', 'local', 'nearby', 'trusted', 'certified'];
-  const suffixes = ['service', 'services', 'company', 'companies', 'cost', 'prices', 'near me', 'reviews', '24/7', 'specialists'];
-  const locationPrefixes = ['', 'city', 'downtown', 'central', 'east', 'west', 'north', 'south'];
-
-  // Break the keyword into parts
-  const parts = baseKeyword.split(' ');
-  const suggestions = [];
-
-  // If there's a location in the query (usually the last word), keep it for variations
-  let location = '';
-  if (parts.length > 1) {
-    location = parts[parts.length - 1];
-  }
-
-  // Core services/product (everything except the location)
-  let core = parts.slice(0, location ? -1 : undefined).join(' ');
-
-  // Generate variations with prefixes
-  for (const prefix of prefixes) {
-    suggestions.push(`${prefix} ${baseKeyword}`);
-    if (location) {
-      suggestions.push(`${prefix} ${core} in ${location}`);
-
-      // Add some location variations
-      for (const locPrefix of locationPrefixes) {
-        if (locPrefix) {
-          suggestions.push(`${prefix} ${core} in ${locPrefix} ${location}`);
-        }
-      }
-    }
-  }
-
-  // Generate variations with suffixes
-  for (const suffix of suffixes) {
-    suggestions.push(`${baseKeyword} ${suffix}`);
-    if (location) {
-      suggestions.push(`${core} ${suffix} in ${location}`);
-    }
-  }
-
-  // Remove duplicates and limit to 15 suggestions
-  const uniqueSuggestions = Array.from(new Set(suggestions)).slice(0, 15);
-
-  // Map to the expected format with simulated metrics
-  return uniqueSuggestions.map((keyword, index) => {
-    // Longer keywords typically have less volume
-    const estimatedVolume = Math.max(400 - (keyword.length * 15), 50);
-
-    return {
-      id: index + 1,
-      keyword: keyword,
-      searchVolume: estimatedVolume,
-      difficulty: Math.floor(Math.random() * 60) + 10, // Random difficulty between 10-70
-      cpc: '$' + ((Math.random() * 3) + 0.5).toFixed(2), // Random CPC between $0.50-$3.50
-      relevance: Math.round((1 - (index / 15)) * 100) // Higher relevance for earlier results
-    };
-  });
-}
-
-/**
- * Generates a simulated seasonal trend pattern for keywords
- * @param baseVolume The base volume to use for calculations
- * @returns Array of 12 monthly values with seasonal patterns
- */
-function generateSimulatedTrend(baseVolume: number): number[] {
-  // Create a seasonal pattern - higher in some months, lower in others
-  const seasonalFactors = [
-    0.8,  // January
-    0.85, // February
-    0.9,  // March
-    1.0,  // April
-    1.1,  // May
-    1.2,  // June
-    1.3,  // July
-    1.25, // August
-    1.1,  // September
-    1.0,  // October
-    0.9,  // November
-    1.15  // December (holiday season bump)
-  ];
-
-  // Apply seasonal factors and add some random variation
-  return seasonalFactors.map(factor => {
-    const randomVariation = 0.9 + (Math.random() * 0.2); // 0.9-1.1 random factor
-    return Math.round(baseVolume * factor * randomVariation);
-  });
-}
-
-// We've already created the dataForSeoClient above, so we'll remove this duplicate
-
 // Interface for keyword data
 export interface KeywordData {
   keyword: string;
@@ -297,6 +218,7 @@ export interface KeywordData {
   competition?: number;
   trend?: number[];
   relatedKeywords?: RelatedKeyword[];
+  error?: string; // set when the API request failed and the metrics are empty
 }
 
 export interface RelatedKeyword {
@@ -491,7 +413,8 @@ export async function getKeywordData(keyword: string, location: number = 2840):
       cpc: '$0.00',
       competition: 0,
       trend: Array(12).fill(0),
-      relatedKeywords: []
+      relatedKeywords: [],
+      error: error.message || String(error)
     };
   }
 }
@@ -502,13 +425,15 @@ export async function getKeywordData(keyword: string, location: number = 2840):
  * @param website Your website domain
  * @param competitorDomains Array of competitor domains to check
  * @param location Location code (default: 2840 for United States)
- * @returns Object with ranking positions and URLs
+ * @param device Device to search from (default: desktop)
+ * @returns Object with ranking positions and URLs and the raw SERP items; `error` is set when the check failed
  */
 export async function getCompetitorRankings(
   keyword: string, 
   website: string,
   competitorDomains: string[],
-  location: number = 2840
+  location: number = 2840,
+  device: 'desktop' | 'mobile' = 'desktop'
 ) {
   try {
     console.log(`Fetching competitor rankings for "${keyword}" from DataForSEO...`);
@@ -518,13 +443,15 @@ export async function getCompetitorRankings(
       "keyword": keyword,
       "location_code": location,
       "language_code": "en",
+      "device": device,
       "depth": 100 // Check deeper to find all competitors
     }];
 
     console.log('DataForSEO SERP request payload:', JSON.stringify(requestData, null, 2));
 
+    // The live endpoint returns results in the response; task_post only queues the task
     const serpResponse = await dataForSeoClient.post(
-      '/serp/google/organic/task_post',
+      '/serp/google/organic/live/regular',
       requestData
     );
 
@@ -546,8 +473,9 @@ export async function getCompetitorRankings(
       throw new Error(`Task error: ${task.status_message || 'No results'}`);
     }
 
-    // Get organic results
-    const results = task.result[0]?.items || [];
+    // Get organic results; the other items are SERP features such as the map pack
+    const serpItems = task.result[0]?.items || [];
+    const results = serpItems.filter((item: any) => item.type === 'organic');
 
     console.log(`Found ${results.length} search results to process`);
 
@@ -570,15 +498,16 @@ export async function getCompetitorRankings(
 
     // Find rankings for the target website and competitors
     let websiteRanking = { position: 0, url: '' };
-    const competitorRankings = [];
+    const competitorRankings: Array<{ competitorUrl: string; position: number; url: string }> = [];
 
+    // Results are in rank order, so the first match is each site's best position
     for (const result of results) {
       const resultDomain = normalizeDomain(result.url);
 
       // Check if this is the target website
-      if (resultDomain.includes(normalizedWebsite)) {
+      if (!websiteRanking.position && resultDomain.includes(normalizedWebsite)) {
         websiteRanking = {
-          position: result.rank_position,
+          position: result.rank_group,
           url: result.url
         };
       }
@@ -586,11 +515,13 @@ export async function getCompetitorRankings(
       // Check if this is a competitor
       for (const competitor of normalizedCompetitors) {
         if (resultDomain.includes(competitor)) {
-          competitorRankings.push({
-            competitorUrl: competitor,
-            position: result.rank_position,
-            url: result.url
-          });
+          if (!competitorRankings.some(ranking => ranking.competitorUrl === competitor)) {
+            competitorRankings.push({
+              competitorUrl: competitor,
+              position: result.rank_group,
+              url: result.url
+            });
+          }
           break;
         }
       }
@@ -599,7 +530,8 @@ export async function getCompetitorRankings(
     return {
       keyword,
       websiteRanking,
-      competitorRankings
+      competitorRankings,
+      serpItems
     };
   } catch (error: any) {
     console.error('Error fetching competitor rankings from DataForSEO:', 
@@ -614,7 +546,9 @@ export async function getCompetitorRankings(
     return {
       keyword,
       websiteRanking: { position: 0, url: '' },
-      competitorRankings: []
+      competitorRankings: [],
+      serpItems: [],
+      error: error.message || String(error)
     };
   }
 }
@@ -724,23 +658,11 @@ export async function getKeywordSuggestions(keyword: string, location: number =
         id: index + 1,
         keyword: item.keyword,
         searchVolume: item.search_volume || 0,
-        difficulty: Math.floor(Math.random() * 60) + 20, // Generate difficulty score between 20-80
+        // The search volume endpoint has no keyword difficulty
         cpc: item.cpc ? `$${item.cpc.toFixed(2)}` : '$0.00',
         relevance: Math.round((1 - (index / Math.min(15, results.length))) * 100) // Calculate relevance based on position
       }));
 
-    // If no results from API, use our generated variations
-    if (keywords.length === 0) {
-      return variations.map((kw, index) => ({
-        id: index + 1,
-        keyword: kw,
-        searchVolume: Math.floor(Math.random() * 1000) + 50,
-        difficulty: Math.floor(Math.random() * 60) + 20,
-        cpc: `$${(Math.random() * 5).toFixed(2)}`,
-        relevance: Math.round((1 - (index / variations.length)) * 100)
-      }));
-    }
-
     return keywords;
   } catch (error: any) {
     console.error('Error fetching keyword suggestions from DataForSEO:', error.message);
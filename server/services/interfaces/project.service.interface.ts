@@ -1,4 +1,5 @@
-import { Project, InsertProject, UpdateProject, Analysis } from '../../../shared/schema';
+import { Project, InsertProject, UpdateProject, Analysis, RivalAuditRecord, ProjectHistory } from '../../../shared/schema';
+import { AccessScope } from '../../types/workspace';
 
 /**
  * Interface for project service operations
@@ -7,16 +8,16 @@ export interface IProjectService {
   /**
    * Project Management
    */
-  createProject(userId: string, projectData: Omit<InsertProject, 'userId'>): Promise<Project>;
-  updateProject(projectId: number, userId: string, updates: UpdateProject): Promise<Project | null>;
-  deleteProject(projectId: number, userId: string): Promise<boolean>;
+  createProject(scope: AccessScope, projectData: Omit<InsertProject, 'userId'>): Promise<Project>;
+  updateProject(projectId: number, scope: AccessScope, updates: UpdateProject): Promise<Project | null>;
+  deleteProject(projectId: number, scope: AccessScope): Promise<boolean>;
   
   /**
    * Project Retrieval
    */
-  getProjectById(projectId: number, userId: string): Promise<Project | null>;
-  getUserProjects(userId: string): Promise<Array<Project & { analysisCount: number }>>;
-  getProjectWithAnalyses(projectId: number, userId: string): Promise<{
+  getProjectById(projectId: number, scope: AccessScope): Promise<Project | null>;
+  getUserProjects(scope: AccessScope): Promise<Array<Project & { analysisCount: number }>>;
+  getProjectWithAnalyses(projectId: number, scope: AccessScope): Promise<{
     project: Project;
     analyses: Analysis[];
   } | null>;
@@ -24,27 +25,39 @@ export interface IProjectService {
   /**
    * Project-Analysis Association
    */
-  addAnalysisToProject(projectId: number, analysisId: number, userId: string): Promise<boolean>;
-  removeAnalysisFromProject(projectId: number, analysisId: number, userId: string): Promise<boolean>;
+  addAnalysisToProject(projectId: number, analysisId: number, scope: AccessScope): Promise<boolean>;
+  removeAnalysisFromProject(projectId: number, analysisId: number, scope: AccessScope): Promise<boolean>;
   isAnalysisInProject(projectId: number, analysisId: number): Promise<boolean>;
+
+  /**
+   * Project-Audit Association
+   */
+  addAuditToProject(projectId: number, auditId: number, scope: AccessScope): Promise<boolean>;
+  removeAuditFromProject(projectId: number, auditId: number, scope: AccessScope): Promise<boolean>;
+  getProjectAudits(projectId: number, scope: AccessScope): Promise<RivalAuditRecord[] | null>;
+
+  /**
+   * Project History
+   */
+  getProjectHistory(projectId: number, scope: AccessScope): Promise<ProjectHistory | null>;
   
   /**
    * Project Search and Organization
    */
-  searchUserProjects(userId: string, searchTerm: string): Promise<Project[]>;
-  getRecentProjects(userId: string, limit?: number): Promise<Project[]>;
+  searchUserProjects(scope: AccessScope, searchTerm: string): Promise<Project[]>;
+  getRecentProjects(scope: AccessScope, limit?: number): Promise<Project[]>;
   
   /**
    * Project Statistics
    */
-  getProjectStats(projectId: number, userId: string): Promise<{
+  getProjectStats(projectId: number, scope: AccessScope): Promise<{
     analysisCount: number;
     averageScore: number;
     lastUpdated: Date;
     createdAt: Date;
   } | null>;
   
-  getUserProjectStats(userId: string): Promise<{
+  getUserProjectStats(scope: AccessScope): Promise<{
     totalProjects: number;
     totalAnalyses: number;
     averageAnalysesPerProject: number;
@@ -57,6 +70,6 @@ export interface IProjectService {
   /**
    * Validation and Authorization
    */
-  userOwnsProject(userId: string, projectId: number): Promise<boolean>;
-  validateProjectAccess(userId: string, projectId: number): Promise<boolean>;
+  canAccessProject(scope: AccessScope, projectId: number): Promise<boolean>;
+  validateProjectAccess(scope: AccessScope, projectId: number): Promise<boolean>;
 }
\ No newline at end of file
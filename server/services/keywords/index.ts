@@ -0,0 +1,17 @@
+export {
+  DataForSeoKeywordDataProvider,
+  LocalKeywordDataProvider,
+  createKeywordDataProvider,
+  keywordDataProvider,
+  simulateKeywordData,
+  simulateKeywordSuggestions,
+  type KeywordDataProvider,
+  type CompetitorRankingsResult
+} from './keyword-data-provider.service';
+export {
+  KeywordDatasetService,
+  keywordDatasetService,
+  normalizeKeywordDataset,
+  parseMetric,
+  type NormalizedKeywordEntry
+} from './keyword-dataset.service';
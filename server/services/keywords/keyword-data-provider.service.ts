@@ -0,0 +1,238 @@
+import {
+  KeywordDataResult,
+  KeywordDataSource,
+  KeywordDatasetEntry,
+  KeywordSuggestionsResult,
+  RankDevice,
+  RankLocation,
+  RelatedKeywordData
+} from '../../../shared/schema';
+import {
+  DATAFORSEO_LOCATION_CODES,
+  RelatedKeyword,
+  getCompetitorRankings,
+  getKeywordData,
+  getKeywordSuggestions,
+  isDataForSeoConfigured
+} from '../external/dataforseo.service';
+import { keywordDatasetRepository } from '../../repositories/keyword-dataset.repository';
+
+const MAX_SUGGESTIONS = 15;
+const MAX_RELATED_KEYWORDS = 10;
+
+export interface CompetitorRankingsResult {
+  keyword: string;
+  websiteRanking: { position: number; url: string }; // position 0 when the site was not found
+  competitorRankings: Array<{ competitorUrl: string; position: number; url: string }>;
+  source: KeywordDataSource;
+  isEstimated: boolean;
+  error?: string;
+}
+
+/**
+ * Source of keyword metrics, suggestions and competitor positions. Every
+ * response says where its numbers come from, and `isEstimated` marks
+ * simulated numbers so they are never shown as measured data.
+ */
+export interface KeywordDataProvider {
+  readonly name: string;
+  getKeywordData(keyword: string, location: RankLocation): Promise<KeywordDataResult>;
+  getKeywordSuggestions(keyword: string, location: RankLocation): Promise<KeywordSuggestionsResult>;
+  getCompetitorRankings(
+    keyword: string,
+    website: string,
+    competitorDomains: string[],
+    location: RankLocation,
+    device: RankDevice
+  ): Promise<CompetitorRankingsResult>;
+}
+
+function toRelatedKeywordData({ id, ...related }: RelatedKeyword): RelatedKeywordData {
+  return related;
+}
+
+function formatCpc(cpc: number | null): string | undefined {
+  return cpc === null ? undefined : `$${cpc.toFixed(2)}`;
+}
+
+// Earlier results are more relevant
+function relevanceAt(index: number, total: number): number {
+  return Math.round((1 - index / Math.max(total, 1)) * 100);
+}
+
+// FNV-1a; keeps simulated numbers stable between requests
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+/**
+ * Made-up metrics for a keyword without data: longer keywords get less
+ * volume, with a seasonal trend peaking in summer and December
+ */
+export function simulateKeywordData(keyword: string): KeywordDataResult {
+  const seasonalFactors = [0.8, 0.85, 0.9, 1.0, 1.1, 1.2, 1.3, 1.25, 1.1, 1.0, 0.9, 1.15];
+  const searchVolume = Math.max(400 - keyword.length * 15, 50);
+  const seed = hash(keyword.toLowerCase());
+
+  return {
+    keyword,
+    searchVolume,
+    difficulty: 10 + seed % 60,
+    cpc: `$${(0.5 + (seed % 300) / 100).toFixed(2)}`,
+    competition: seed % 100,
+    trend: seasonalFactors.map((factor, month) => Math.round(searchVolume * factor * (0.9 + (hash(`${keyword}|${month}`) % 20) / 100))),
+    relatedKeywords: simulateKeywordSuggestions(keyword).slice(0, MAX_RELATED_KEYWORDS),
+    source: 'simulated',
+    isEstimated: true
+  };
+}
+
+/**
+ * Made-up variations of a keyword with common prefixes and suffixes
+ */
+export function simulateKeywordSuggestions(keyword: string): RelatedKeywordData[] {
+  const prefixes = ['best', 'top', 'affordable', 'cheap', 'professional', 'emergency', 'local', 'trusted'];
+  const suffixes = ['service', 'services', 'company', 'cost', 'prices', 'near me', 'reviews', '24/7'];
+  const base = keyword.trim().toLowerCase();
+
+  const variations = Array.from(new Set([
+    ...prefixes.map(prefix => `${prefix} ${base}`),
+    ...suffixes.map(suffix => `${base} ${suffix}`)
+  ])).slice(0, MAX_SUGGESTIONS);
+
+  return variations.map((variation, index) => ({
+    keyword: variation,
+    searchVolume: Math.max(400 - variation.length * 15, 50),
+    difficulty: 10 + hash(variation) % 60,
+    cpc: `$${(0.5 + (hash(variation) % 300) / 100).toFixed(2)}`,
+    relevance: relevanceAt(index, variations.length)
+  }));
+}
+
+/**
+ * Keyword data from the DataForSEO APIs
+ */
+export class DataForSeoKeywordDataProvider implements KeywordDataProvider {
+  readonly name = 'dataforseo';
+
+  async getKeywordData(keyword: string, location: RankLocation): Promise<KeywordDataResult> {
+    const data = await getKeywordData(keyword, DATAFORSEO_LOCATION_CODES[location]);
+
+    return {
+      ...data,
+      relatedKeywords: data.relatedKeywords?.map(toRelatedKeywordData),
+      source: 'dataforseo',
+      isEstimated: false
+    };
+  }
+
+  async getKeywordSuggestions(keyword: string, location: RankLocation): Promise<KeywordSuggestionsResult> {
+    const suggestions = await getKeywordSuggestions(keyword, DATAFORSEO_LOCATION_CODES[location]);
+
+    return {
+      keyword,
+      suggestions: suggestions.map(toRelatedKeywordData),
+      source: 'dataforseo',
+      isEstimated: false
+    };
+  }
+
+  async getCompetitorRankings(
+    keyword: string,
+    website: string,
+    competitorDomains: string[],
+    location: RankLocation,
+    device: RankDevice
+  ): Promise<CompetitorRankingsResult> {
+    // The raw SERP items are only read by the rank tracker
+    const { serpItems, ...rankings } = await getCompetitorRankings(keyword, website, competitorDomains, DATAFORSEO_LOCATION_CODES[location], device);
+    return { ...rankings, source: 'dataforseo', isEstimated: false };
+  }
+}
+
+/**
+ * Keyword data from the imported keyword dataset, for use without DataForSEO.
+ * Keywords missing from the dataset get simulated numbers, flagged as estimated.
+ */
+export class LocalKeywordDataProvider implements KeywordDataProvider {
+  readonly name = 'dataset';
+
+  async getKeywordData(keyword: string, location: RankLocation): Promise<KeywordDataResult> {
+    const entry = await keywordDatasetRepository.getEntry(keyword.trim(), location);
+    if (!entry) {
+      return simulateKeywordData(keyword.trim());
+    }
+
+    const related = await this.findRelated(entry.keyword, location, MAX_RELATED_KEYWORDS);
+
+    return {
+      keyword: entry.keyword,
+      searchVolume: entry.searchVolume ?? undefined,
+      cpc: formatCpc(entry.cpc),
+      competition: entry.competition ?? undefined,
+      trend: entry.monthlySearches ?? undefined,
+      relatedKeywords: related,
+      source: 'dataset',
+      isEstimated: false
+    };
+  }
+
+  async getKeywordSuggestions(keyword: string, location: RankLocation): Promise<KeywordSuggestionsResult> {
+    const suggestions = await this.findRelated(keyword.trim(), location, MAX_SUGGESTIONS);
+    if (suggestions.length === 0) {
+      return { keyword, suggestions: simulateKeywordSuggestions(keyword), source: 'simulated', isEstimated: true };
+    }
+
+    return { keyword, suggestions, source: 'dataset', isEstimated: false };
+  }
+
+  async getCompetitorRankings(keyword: string): Promise<CompetitorRankingsResult> {
+    // A keyword dataset has no search results to find positions in
+    return {
+      keyword,
+      websiteRanking: { position: 0, url: '' },
+      competitorRankings: [],
+      source: 'dataset',
+      isEstimated: false,
+      error: 'Competitor rankings need DataForSEO; the keyword dataset has no search results'
+    };
+  }
+
+  // Dataset keywords containing every word of the keyword
+  private async findRelated(keyword: string, location: RankLocation, limit: number): Promise<RelatedKeywordData[]> {
+    const terms = keyword.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const entries: KeywordDatasetEntry[] = await keywordDatasetRepository.searchEntries(terms, location, keyword, limit);
+
+    return entries.map((entry, index) => ({
+      keyword: entry.keyword,
+      searchVolume: entry.searchVolume ?? undefined,
+      cpc: formatCpc(entry.cpc),
+      relevance: relevanceAt(index, entries.length)
+    }));
+  }
+}
+
+/**
+ * Provider selected by KEYWORD_DATA_PROVIDER ("dataforseo" or "dataset");
+ * without it, DataForSEO when its credentials are set and the dataset otherwise
+ */
+export function createKeywordDataProvider(): KeywordDataProvider {
+  switch (process.env.KEYWORD_DATA_PROVIDER) {
+    case 'dataforseo':
+      return new DataForSeoKeywordDataProvider();
+    case 'dataset':
+      return new LocalKeywordDataProvider();
+    default:
+      return isDataForSeoConfigured() ? new DataForSeoKeywordDataProvider() : new LocalKeywordDataProvider();
+  }
+}
+
+// Singleton instance
+export const keywordDataProvider = createKeywordDataProvider();
@@ -0,0 +1,186 @@
+import {
+  InsertKeywordDatasetEntry,
+  KeywordDatasetImport,
+  KeywordDatasetImportResult
+} from '../../../shared/schema';
+import { keywordDatasetRepository } from '../../repositories/keyword-dataset.repository';
+import { parseCsv } from '../backlinks/backlink-import.service';
+import { ValidationError } from '../../utils/errors';
+
+export type NormalizedKeywordEntry = Pick<InsertKeywordDatasetEntry, 'keyword' | 'searchVolume' | 'competition' | 'cpc' | 'monthlySearches'>;
+
+// Header names of each field in keyword tool exports, matched case-insensitively.
+// Keyword Planner's are listed first.
+const CSV_COLUMNS = {
+  keyword: ['Keyword', 'Keywords', 'Search term', 'Query'],
+  searchVolume: ['Avg. monthly searches', 'Search Volume', 'Volume'],
+  competition: ['Competition (indexed value)', 'Competition Index', 'Competition'],
+  cpc: ['Top of page bid (high range)', 'CPC', 'CPC (USD)', 'Top of page bid (low range)']
+};
+
+// Keyword Planner's monthly columns, e.g. "Searches: Jan 2024"
+const MONTHLY_COLUMN = /^searches:\s/i;
+
+/**
+ * A number from an export cell: "1,300", "1.3K", "$2.45" or "0.67".
+ * Ranges such as "1K – 10K" are too vague and read as empty.
+ */
+export function parseMetric(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().replace(/[$€£,\s]/g, '').match(/^(\d+(?:\.\d+)?)([km])?$/i);
+  if (!match) return null;
+
+  const multiplier = match[2]?.toLowerCase() === 'k' ? 1000 : match[2]?.toLowerCase() === 'm' ? 1000000 : 1;
+  return parseFloat(match[1]) * multiplier;
+}
+
+function toEntry(
+  keyword: unknown,
+  searchVolume: unknown,
+  competition: unknown,
+  cpc: unknown,
+  monthlySearches: unknown[]
+): NormalizedKeywordEntry | null {
+  const normalizedKeyword = typeof keyword === 'string' ? keyword.trim().toLowerCase().replace(/\s+/g, ' ') : '';
+  if (!normalizedKeyword) return null;
+
+  const volume = parseMetric(searchVolume);
+  const competitionIndex = parseMetric(competition);
+  const bid = parseMetric(cpc);
+  const months = monthlySearches.map(parseMetric);
+
+  return {
+    keyword: normalizedKeyword,
+    searchVolume: volume === null ? null : Math.round(volume),
+    // Keyword Planner's plain "Competition" column is Low/Medium/High, which reads as empty
+    competition: competitionIndex === null ? null : Math.round(Math.min(competitionIndex, 100)),
+    cpc: bid,
+    monthlySearches: months.length > 0 && months.every(month => month !== null) ? months.map(month => Math.round(month!)) : null
+  };
+}
+
+function isHeaderLine(line: string): boolean {
+  return line.split(/[\t,;]/).some(cell => {
+    const name = cell.trim().replace(/^"|"$/g, '').toLowerCase();
+    return CSV_COLUMNS.keyword.some(keywordName => keywordName.toLowerCase() === name);
+  });
+}
+
+function normalizeCsv(content: string): { entries: Array<NormalizedKeywordEntry | null>; rowsRead: number } {
+  // Keyword Planner puts a title and a date range above the header; they are
+  // skipped before parsing so the separator is detected from the header
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerLine = lines.findIndex(isHeaderLine);
+  if (headerLine === -1) {
+    throw new ValidationError(`Not a keyword export: no column named ${CSV_COLUMNS.keyword.map(name => `"${name}"`).join(' or ')}`);
+  }
+
+  const [header, ...dataRows] = parseCsv(lines.slice(headerLine).join('\n'));
+  const headers = header.map(name => name.trim().toLowerCase());
+  const columnOf = (names: string[]) => names.map(name => headers.indexOf(name.toLowerCase())).find(index => index !== -1);
+  const keywordColumn = columnOf(CSV_COLUMNS.keyword)!;
+  const volumeColumn = columnOf(CSV_COLUMNS.searchVolume);
+  const competitionColumn = columnOf(CSV_COLUMNS.competition);
+  const cpcColumn = columnOf(CSV_COLUMNS.cpc);
+  const monthlyColumns = headers.map((name, index) => MONTHLY_COLUMN.test(name) ? index : -1).filter(index => index !== -1);
+
+  const cell = (cells: string[], column: number | undefined) => column === undefined ? undefined : cells[column];
+
+  return {
+    rowsRead: dataRows.length,
+    entries: dataRows.map(cells => toEntry(
+      cells[keywordColumn],
+      cell(cells, volumeColumn),
+      cell(cells, competitionColumn),
+      cell(cells, cpcColumn),
+      monthlyColumns.map(column => cells[column])
+    ))
+  };
+}
+
+function normalizeJson(content: string): { entries: Array<NormalizedKeywordEntry | null>; rowsRead: number } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new ValidationError('The keyword dataset is not valid JSON');
+  }
+
+  const items = Array.isArray(parsed) ? parsed : (parsed as { keywords?: unknown })?.keywords;
+  if (!Array.isArray(items)) {
+    throw new ValidationError('The keyword dataset must be an array of keywords or an object with a "keywords" array');
+  }
+
+  return {
+    rowsRead: items.length,
+    entries: items.map((item: any) => item && typeof item === 'object'
+      ? toEntry(item.keyword, item.searchVolume, item.competition, item.cpc, Array.isArray(item.monthlySearches) ? item.monthlySearches : [])
+      : null)
+  };
+}
+
+/**
+ * Map a keyword export onto dataset entries, once per keyword. CSV exports
+ * are read by their header names; JSON is an array of objects with
+ * keyword, searchVolume, competition (0-100), cpc and monthlySearches.
+ */
+export function normalizeKeywordDataset(
+  format: KeywordDatasetImport['format'],
+  content: string
+): { entries: NormalizedKeywordEntry[]; rowsRead: number; skipped: number } {
+  const { entries, rowsRead } = format === 'csv' ? normalizeCsv(content) : normalizeJson(content);
+
+  const byKeyword = new Map<string, NormalizedKeywordEntry>();
+  let skipped = 0;
+
+  for (const entry of entries) {
+    if (!entry) {
+      skipped++;
+    } else if (!byKeyword.has(entry.keyword)) {
+      byKeyword.set(entry.keyword, entry);
+    }
+  }
+
+  return { entries: Array.from(byKeyword.values()), rowsRead, skipped };
+}
+
+/**
+ * Service that imports keyword tool exports into the keyword dataset read by
+ * the local keyword data provider
+ */
+export class KeywordDatasetService {
+  /**
+   * Import an export for a location; keywords already in the dataset get the new metrics
+   */
+  async importDataset(input: KeywordDatasetImport): Promise<KeywordDatasetImportResult> {
+    const { entries, rowsRead, skipped } = normalizeKeywordDataset(input.format, input.content);
+    if (entries.length === 0) {
+      throw new ValidationError('No keywords found in the export');
+    }
+
+    const importedAt = new Date();
+    await keywordDatasetRepository.upsertEntries(entries.map(entry => ({
+      ...entry,
+      location: input.location,
+      source: input.format,
+      importedAt
+    })));
+
+    const totalKeywords = await keywordDatasetRepository.countEntries(input.location);
+    console.log(`🔑 Imported ${entries.length} keywords into the ${input.location} keyword dataset (${totalKeywords} total)`);
+
+    return { rowsRead, imported: entries.length, skipped, totalKeywords };
+  }
+
+  /**
+   * Keywords in the dataset per location
+   */
+  async getSummary() {
+    return await keywordDatasetRepository.getLocationCounts();
+  }
+}
+
+// Singleton instance
+export const keywordDatasetService = new KeywordDatasetService();
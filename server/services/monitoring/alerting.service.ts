@@ -630,6 +630,10 @@ export class AlertingService {
   getAlertRules(): AlertRule[] {
     return Array.from(this.alertRules.values());
   }
+  
+  getConfiguredChannels(): AlertRule['channels'] {
+    return Array.from(this.notificationChannels.keys()) as AlertRule['channels'];
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,21 @@
+export {
+  RankTrackerService,
+  rankTrackerService,
+  getRankChange,
+  buildRankHistory
+} from './rank-tracker.service';
+export {
+  DataForSeoSerpProvider,
+  MockSerpProvider,
+  createSerpProvider,
+  normalizeDomain,
+  type SerpProvider,
+  type SerpCheckRequest,
+  type SerpCheckResult
+} from './serp-provider.service';
+export {
+  parseSerpFeatures,
+  getLocalRank,
+  summarizeSerpFeatureOwnership,
+  SERP_FEATURE_TYPES
+} from './serp-features.service';
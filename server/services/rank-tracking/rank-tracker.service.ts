@@ -0,0 +1,321 @@
+import {
+  Keyword,
+  KeywordRanking,
+  CompetitorRanking,
+  RankDevice,
+  RankLocation,
+  RankPosition,
+  RankHistory,
+  SerpFeatureReportRow
+} from '../../../shared/schema';
+import { keywordRepository } from '../../repositories/keyword.repository';
+import { SerpProvider, createSerpProvider, normalizeDomain } from './serp-provider.service';
+import { summarizeSerpFeatureOwnership } from './serp-features.service';
+
+const CHECK_INTERVAL_MS = parseInt(process.env.RANK_CHECK_INTERVAL_MS || String(60 * 60 * 1000), 10);
+const SEARCH_ENGINE = 'google';
+
+/**
+ * Places gained since the previous check; positive means the keyword moved up.
+ * Null when either check found no position in the top 100.
+ */
+export function getRankChange(rank: number | null, previousRank: number | null): number | null {
+  if (rank === null || previousRank === null) return null;
+  return previousRank - rank;
+}
+
+/**
+ * Shape stored rankings into one series per device and location, with the
+ * competitors checked alongside them
+ */
+export function buildRankHistory(
+  keyword: Keyword,
+  startDate: string,
+  endDate: string,
+  rankings: KeywordRanking[],
+  competitorRankings: CompetitorRanking[]
+): RankHistory {
+  const series = new Map<string, RankHistory['series'][number]>();
+  const getSeries = (device: string, location: string) => {
+    const key = `${device}|${location}`;
+    if (!series.has(key)) series.set(key, { device, location, points: [], competitors: [] });
+    return series.get(key)!;
+  };
+
+  for (const ranking of rankings) {
+    getSeries(ranking.device, ranking.location).points.push({
+      date: ranking.rankDate,
+      rank: ranking.rank,
+      change: getRankChange(ranking.rank, ranking.previousRank),
+      rankingUrl: ranking.rankingUrl,
+      localRank: ranking.localRank
+    });
+  }
+
+  for (const ranking of competitorRankings) {
+    const { competitors } = getSeries(ranking.device, ranking.location);
+    let competitor = competitors.find(entry => entry.domain === ranking.competitorUrl);
+    if (!competitor) {
+      competitor = { domain: ranking.competitorUrl, points: [] };
+      competitors.push(competitor);
+    }
+    competitor.points.push({ date: ranking.rankDate, rank: ranking.rank });
+  }
+
+  return {
+    keywordId: keyword.id,
+    keyword: keyword.keyword,
+    startDate,
+    endDate,
+    series: Array.from(series.values())
+  };
+}
+
+/**
+ * Service that checks tracked keywords' Google positions once a day.
+ * Keywords not checked since midnight UTC are picked up on an interval and
+ * checked for each of their devices and locations through the SERP provider.
+ */
+export class RankTrackerService {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isChecking = false;
+
+  constructor(private provider: SerpProvider = createSerpProvider()) {}
+
+  /**
+   * Start checking for keywords due a rank check
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠️ Rank tracker is already running');
+      return;
+    }
+
+    console.log(`📈 Starting rank tracker with ${this.provider.name} SERP provider (checks every ${Math.round(CHECK_INTERVAL_MS / 60000)} minutes)`);
+    this.isRunning = true;
+
+    this.runDueChecks();
+
+    this.checkInterval = setInterval(() => {
+      this.runDueChecks();
+    }, CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop checking for due keywords
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      console.log('⚠️ Rank tracker is not running');
+      return;
+    }
+
+    console.log('🛑 Stopping rank tracker');
+    this.isRunning = false;
+
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Check every active keyword not yet checked today
+   */
+  async runDueChecks(now: Date = new Date()): Promise<number> {
+    if (this.isChecking) return 0;
+    this.isChecking = true;
+
+    let checked = 0;
+
+    try {
+      const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+      const dueKeywords = await keywordRepository.getDueKeywords(startOfDay);
+
+      for (const keyword of dueKeywords) {
+        const claimed = await keywordRepository.claimCheck(keyword, now);
+        if (!claimed) continue; // another server is checking this keyword
+
+        try {
+          await this.checkKeyword(keyword, now);
+          checked++;
+        } catch (error) {
+          console.error(`❌ Rank check failed for keyword ${keyword.id}:`, error);
+        }
+      }
+
+      if (checked > 0) {
+        console.log(`📈 Checked rankings for ${checked} keyword(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Error running rank checks:', error);
+    } finally {
+      this.isChecking = false;
+    }
+
+    return checked;
+  }
+
+  /**
+   * Check a keyword's position on each of its devices and locations and store
+   * today's rankings. Failed combinations are skipped, not stored as unranked.
+   */
+  async checkKeyword(keyword: Keyword, now: Date = new Date()): Promise<KeywordRanking[]> {
+    const rankDate = now.toISOString().slice(0, 10);
+    const saved: KeywordRanking[] = [];
+    let failures = 0;
+
+    for (const device of keyword.devices as RankDevice[]) {
+      for (const location of keyword.locations as RankLocation[]) {
+        try {
+          const result = await this.provider.checkRankings({
+            keyword: keyword.keyword,
+            targetUrl: keyword.targetUrl,
+            competitorDomains: keyword.competitorDomains,
+            device,
+            location
+          });
+
+          const previous = await keywordRepository.getPreviousRanking(keyword.id, device, location, rankDate);
+          saved.push(await keywordRepository.saveRanking({
+            keywordId: keyword.id,
+            rank: result.position,
+            rankingUrl: result.url,
+            previousRank: previous?.rank ?? null,
+            rankDate,
+            searchEngine: SEARCH_ENGINE,
+            device,
+            location,
+            serp: result.serp,
+            localRank: result.localRank
+          }));
+
+          for (const competitor of result.competitors) {
+            await keywordRepository.saveCompetitorRanking({
+              keywordId: keyword.id,
+              competitorUrl: competitor.domain,
+              rank: competitor.position,
+              rankDate,
+              searchEngine: SEARCH_ENGINE,
+              device,
+              location
+            });
+          }
+        } catch (error) {
+          failures++;
+          console.error(`❌ Rank check failed for "${keyword.keyword}" (${device}, ${location}):`, error);
+        }
+      }
+    }
+
+    if (saved.length === 0 && failures > 0) {
+      throw new Error(`All ${failures} rank checks failed for keyword ${keyword.id}`);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Check a keyword right away, outside the daily schedule
+   */
+  async checkNow(keyword: Keyword): Promise<RankPosition[]> {
+    const now = new Date();
+    const rankings = await this.checkKeyword(keyword, now);
+    await keywordRepository.updateKeyword(keyword.id, { lastCheckedAt: now });
+    return rankings.map(toRankPosition);
+  }
+
+  /**
+   * Latest position of each keyword on each device and location
+   */
+  async getLatestPositions(keywords: Keyword[]): Promise<Map<number, RankPosition[]>> {
+    const rankings = await keywordRepository.getLatestRankings(keywords.map(keyword => keyword.id));
+    const positions = new Map<number, RankPosition[]>(keywords.map(keyword => [keyword.id, []]));
+
+    for (const ranking of rankings) {
+      positions.get(ranking.keywordId)?.push(toRankPosition(ranking));
+    }
+
+    return positions;
+  }
+
+  /**
+   * SERP features on each keyword's latest check, with which of them the
+   * client's site holds and which its tracked competitors hold. Checks
+   * stored before features were recorded are left out.
+   */
+  async getSerpFeatureReport(keywords: Keyword[]): Promise<SerpFeatureReportRow[]> {
+    const rankings = await keywordRepository.getLatestRankings(keywords.map(keyword => keyword.id));
+    const keywordsById = new Map(keywords.map(keyword => [keyword.id, keyword]));
+    const rows: SerpFeatureReportRow[] = [];
+
+    for (const ranking of rankings) {
+      const keyword = keywordsById.get(ranking.keywordId);
+      if (!keyword || !ranking.serp) continue;
+
+      rows.push({
+        keywordId: keyword.id,
+        keyword: keyword.keyword,
+        device: ranking.device,
+        location: ranking.location,
+        rankDate: ranking.rankDate,
+        rank: ranking.rank,
+        localRank: ranking.localRank,
+        features: summarizeSerpFeatureOwnership(
+          ranking.serp,
+          normalizeDomain(keyword.targetUrl),
+          keyword.competitorDomains.map(normalizeDomain)
+        ),
+        localPack: ranking.serp.localPack,
+        peopleAlsoAsk: ranking.serp.peopleAlsoAsk.map(entry => entry.question)
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Daily positions of a keyword over the last `days` days
+   */
+  async getHistory(keyword: Keyword, days: number, filters: { device?: string; location?: string } = {}): Promise<RankHistory> {
+    const end = new Date();
+    const start = new Date(end.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+    const startDate = start.toISOString().slice(0, 10);
+    const endDate = end.toISOString().slice(0, 10);
+
+    const [rankings, competitorRankings] = await Promise.all([
+      keywordRepository.getRankingHistory(keyword.id, startDate, endDate, filters),
+      keywordRepository.getCompetitorHistory(keyword.id, startDate, endDate, filters)
+    ]);
+
+    return buildRankHistory(keyword, startDate, endDate, rankings, competitorRankings);
+  }
+
+  /**
+   * Get rank tracker status
+   */
+  getStatus(): { isRunning: boolean; provider: string; checkIntervalMinutes: number } {
+    return {
+      isRunning: this.isRunning,
+      provider: this.provider.name,
+      checkIntervalMinutes: Math.round(CHECK_INTERVAL_MS / 60000)
+    };
+  }
+}
+
+function toRankPosition(ranking: KeywordRanking): RankPosition {
+  return {
+    device: ranking.device,
+    location: ranking.location,
+    rank: ranking.rank,
+    previousRank: ranking.previousRank,
+    change: getRankChange(ranking.rank, ranking.previousRank),
+    rankingUrl: ranking.rankingUrl,
+    localRank: ranking.localRank,
+    rankDate: ranking.rankDate
+  };
+}
+
+// Singleton instance
+export const rankTrackerService = new RankTrackerService();
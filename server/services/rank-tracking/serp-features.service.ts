@@ -0,0 +1,122 @@
+import { SerpFeatures, SerpFeatureOwnership, SerpFeatureType } from '../../../shared/schema';
+
+export const SERP_FEATURE_TYPES: SerpFeatureType[] = ['localPack', 'featuredSnippet', 'peopleAlsoAsk', 'reviews', 'sitelinks'];
+
+function toDomain(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  return value.trim().toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').split('/')[0];
+}
+
+function toNumber(value: unknown): number | null {
+  return typeof value === 'number' && isFinite(value) ? value : null;
+}
+
+/**
+ * Whether a result's domain is the site's domain or one of its subdomains
+ */
+export function isSameSite(domain: string | null, siteDomain: string): boolean {
+  if (!domain || !siteDomain) return false;
+  return domain === siteDomain || domain.endsWith(`.${siteDomain}`);
+}
+
+/**
+ * Read the SERP features out of the items of a DataForSEO organic SERP
+ * response: map pack listings, the featured snippet, People Also Ask
+ * questions, and organic results shown with review stars or site links
+ */
+export function parseSerpFeatures(items: any[]): SerpFeatures {
+  const features: SerpFeatures = {
+    localPack: [],
+    featuredSnippet: null,
+    peopleAlsoAsk: [],
+    reviews: [],
+    sitelinks: []
+  };
+
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+
+    if (item.type === 'local_pack') {
+      features.localPack.push({
+        position: toNumber(item.rank_group) ?? features.localPack.length + 1,
+        title: String(item.title || '').trim(),
+        domain: toDomain(item.domain || item.url),
+        rating: toNumber(item.rating?.value),
+        reviewCount: toNumber(item.rating?.votes_count)
+      });
+    } else if (item.type === 'featured_snippet' && !features.featuredSnippet) {
+      const domain = toDomain(item.domain || item.url);
+      if (domain) {
+        features.featuredSnippet = { domain, url: item.url || '', title: item.title || null };
+      }
+    } else if (item.type === 'people_also_ask') {
+      for (const element of item.items || []) {
+        const question = typeof element?.title === 'string' ? element.title.trim() : '';
+        if (!question) continue;
+
+        const answer = (element.expanded_element || [])[0];
+        features.peopleAlsoAsk.push({ question, answerDomain: toDomain(answer?.domain || answer?.url) });
+      }
+    } else if (item.type === 'organic') {
+      const domain = toDomain(item.domain || item.url);
+      const position = toNumber(item.rank_group);
+      if (!domain || position === null) continue;
+
+      const rating = toNumber(item.rating?.value);
+      if (rating !== null) {
+        features.reviews.push({ domain, position, rating, reviewCount: toNumber(item.rating?.votes_count) });
+      }
+
+      if (Array.isArray(item.links) && item.links.length > 0) {
+        features.sitelinks.push({ domain, position, links: item.links.length });
+      }
+    }
+  }
+
+  return features;
+}
+
+/**
+ * The site's position in the map pack, or null when none of the listings link to it
+ */
+export function getLocalRank(features: SerpFeatures, siteDomain: string): number | null {
+  const listing = features.localPack.find(entry => isSameSite(entry.domain, siteDomain));
+  return listing ? listing.position : null;
+}
+
+function getFeatureDomains(features: SerpFeatures, feature: SerpFeatureType): Array<string | null> {
+  switch (feature) {
+    case 'localPack':
+      return features.localPack.map(entry => entry.domain);
+    case 'featuredSnippet':
+      return features.featuredSnippet ? [features.featuredSnippet.domain] : [];
+    case 'peopleAlsoAsk':
+      return features.peopleAlsoAsk.map(entry => entry.answerDomain);
+    case 'reviews':
+      return features.reviews.map(entry => entry.domain);
+    case 'sitelinks':
+      return features.sitelinks.map(entry => entry.domain);
+  }
+}
+
+/**
+ * Which SERP features the client's site holds and which its tracked
+ * competitors hold. A feature with several entries (map pack listings,
+ * answered questions) is held by every site with an entry.
+ */
+export function summarizeSerpFeatureOwnership(
+  features: SerpFeatures,
+  siteDomain: string,
+  competitorDomains: string[]
+): SerpFeatureOwnership[] {
+  return SERP_FEATURE_TYPES.map(feature => {
+    const domains = getFeatureDomains(features, feature);
+
+    return {
+      feature,
+      present: domains.length > 0,
+      ownedByClient: domains.some(domain => isSameSite(domain, siteDomain)),
+      competitors: competitorDomains.filter(competitor => domains.some(domain => isSameSite(domain, competitor)))
+    };
+  });
+}
@@ -0,0 +1,164 @@
+import { RankDevice, RankLocation, SerpFeatures } from '../../../shared/schema';
+import { getCompetitorRankings, DATAFORSEO_LOCATION_CODES } from '../external/dataforseo.service';
+import { parseSerpFeatures, getLocalRank } from './serp-features.service';
+
+export interface SerpCheckRequest {
+  keyword: string;
+  targetUrl: string;
+  competitorDomains: string[];
+  device: RankDevice;
+  location: RankLocation;
+}
+
+export interface SerpCheckResult {
+  position: number | null; // null when the target is not in the top 100
+  url: string | null;
+  competitors: Array<{ domain: string; position: number | null }>;
+  localRank: number | null; // null when the target is not in the map pack
+  serp: SerpFeatures;
+}
+
+/**
+ * Source of search result positions for the rank tracker.
+ * Implementations throw when a check fails, so a failed check is never
+ * stored as "not ranking".
+ */
+export interface SerpProvider {
+  readonly name: string;
+  checkRankings(request: SerpCheckRequest): Promise<SerpCheckResult>;
+}
+
+export function normalizeDomain(url: string): string {
+  return url.trim().toLowerCase().replace(/^(https?:\/\/)?(www\.)?/, '').split('/')[0];
+}
+
+/**
+ * Live Google positions from the DataForSEO SERP API
+ */
+export class DataForSeoSerpProvider implements SerpProvider {
+  readonly name = 'dataforseo';
+
+  async checkRankings(request: SerpCheckRequest): Promise<SerpCheckResult> {
+    const result = await getCompetitorRankings(
+      request.keyword,
+      request.targetUrl,
+      request.competitorDomains,
+      DATAFORSEO_LOCATION_CODES[request.location],
+      request.device
+    );
+
+    if ('error' in result && result.error) {
+      throw new Error(`SERP check failed for "${request.keyword}": ${result.error}`);
+    }
+
+    const serp = parseSerpFeatures(result.serpItems);
+
+    return {
+      position: result.websiteRanking.position || null,
+      url: result.websiteRanking.url || null,
+      competitors: request.competitorDomains.map(domain => {
+        const ranking = result.competitorRankings.find(competitor => competitor.competitorUrl === normalizeDomain(domain));
+        return { domain: normalizeDomain(domain), position: ranking?.position || null };
+      }),
+      localRank: getLocalRank(serp, normalizeDomain(request.targetUrl)),
+      serp
+    };
+  }
+}
+
+/**
+ * Offline provider with stable, made-up positions for development and tests.
+ * A domain keeps a base position per keyword, device and location and moves
+ * a few places from day to day. SERP features are made up the same way, with
+ * the map pack shared between the tracked sites and two invented businesses.
+ */
+export class MockSerpProvider implements SerpProvider {
+  readonly name = 'mock';
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  async checkRankings(request: SerpCheckRequest): Promise<SerpCheckResult> {
+    const day = this.now().toISOString().slice(0, 10);
+    const targetDomain = normalizeDomain(request.targetUrl);
+    const position = this.getPosition(targetDomain, request, day);
+    const competitors = request.competitorDomains.map(domain => ({
+      domain: normalizeDomain(domain),
+      position: this.getPosition(normalizeDomain(domain), request, day)
+    }));
+    const serp = this.getSerpFeatures(request, [{ domain: targetDomain, position }, ...competitors]);
+
+    return {
+      position,
+      url: position === null ? null : `https://${targetDomain}/`,
+      competitors,
+      localRank: getLocalRank(serp, targetDomain),
+      serp
+    };
+  }
+
+  private getSerpFeatures(request: SerpCheckRequest, sites: Array<{ domain: string; position: number | null }>): SerpFeatures {
+    const key = `${request.keyword.toLowerCase()}|${request.device}|${request.location}`;
+    const slug = request.keyword.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const businesses = [...sites.map(site => site.domain), `${slug}-pros.example`, `city-${slug}.example`];
+    const ranked = sites
+      .filter(site => site.position !== null)
+      .sort((a, b) => a.position! - b.position!) as Array<{ domain: string; position: number }>;
+
+    const localPack = businesses
+      .map(domain => ({ domain, score: this.hash(`${key}|${domain}|local`) }))
+      .sort((a, b) => a.score - b.score)
+      .slice(0, 3)
+      .map(({ domain, score }, index) => ({
+        position: index + 1,
+        title: domain.split('.')[0].split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+        domain,
+        rating: 3.5 + (score % 16) / 10,
+        reviewCount: score % 400
+      }));
+
+    const questions = [`How much does ${request.keyword} cost?`, `How long does ${request.keyword} take?`, `Is ${request.keyword} worth it?`];
+
+    return {
+      localPack,
+      featuredSnippet: ranked.length > 0 && this.hash(`${key}|snippet`) % 2 === 0
+        ? { domain: ranked[0].domain, url: `https://${ranked[0].domain}/`, title: request.keyword }
+        : null,
+      peopleAlsoAsk: questions.map(question => {
+        const answer = this.hash(`${key}|${question}`) % (businesses.length + 1);
+        return { question, answerDomain: businesses[answer] ?? null };
+      }),
+      reviews: ranked
+        .filter(site => this.hash(`${key}|${site.domain}|reviews`) % 3 === 0)
+        .map(site => ({ domain: site.domain, position: site.position, rating: 4.5, reviewCount: 20 })),
+      sitelinks: ranked
+        .filter(site => site.position <= 3)
+        .map(site => ({ domain: site.domain, position: site.position, links: 4 }))
+    };
+  }
+
+  private getPosition(domain: string, request: SerpCheckRequest, day: string): number | null {
+    const key = `${request.keyword.toLowerCase()}|${domain}|${request.device}|${request.location}`;
+    const base = this.hash(key) % 100;
+    if (base >= 80) return null; // one in five domains does not rank
+
+    const drift = (this.hash(`${key}|${day}`) % 7) - 3;
+    return Math.min(100, Math.max(1, base + 1 + drift));
+  }
+
+  // FNV-1a
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Provider selected by SERP_PROVIDER: "mock" for offline use, DataForSEO otherwise
+ */
+export function createSerpProvider(): SerpProvider {
+  return process.env.SERP_PROVIDER === 'mock' ? new MockSerpProvider() : new DataForSeoSerpProvider();
+}
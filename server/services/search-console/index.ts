@@ -0,0 +1,14 @@
+export {
+  SearchPerformanceService,
+  searchPerformanceService,
+  PagePerformanceIndex,
+  normalizeSearchPerformance,
+  aggregatePagePerformance,
+  findCtrOpportunities,
+  getExpectedCtr,
+  getImpressionImpact,
+  getPageKey,
+  parseCtr,
+  collectPageTitles,
+  type NormalizedPerformanceRow
+} from './search-performance.service';
@@ -0,0 +1,351 @@
+import {
+  CtrOpportunity,
+  InsertSearchPerformanceRow,
+  PageSearchPerformance,
+  SearchPerformanceImport,
+  SearchPerformanceImportResult,
+  SearchPerformanceRow,
+  SearchPerformanceSummary
+} from '../../../shared/schema';
+import { searchPerformanceRepository } from '../../repositories/search-performance.repository';
+import { rivalAuditRepository, isFallbackAudit } from '../../repositories/rival-audit.repository';
+import { parseCsv } from '../backlinks/backlink-import.service';
+import { parseMetric } from '../keywords/keyword-dataset.service';
+import { ValidationError } from '../../utils/errors';
+
+export type NormalizedPerformanceRow = Omit<InsertSearchPerformanceRow, 'projectId' | 'importedAt'>;
+
+// Header names of each field in Search Console exports, matched case-insensitively
+const CSV_COLUMNS = {
+  page: ['Page', 'Top pages', 'Landing page', 'URL'],
+  query: ['Query', 'Top queries', 'Queries'],
+  clicks: ['Clicks', 'Url Clicks'],
+  impressions: ['Impressions'],
+  ctr: ['CTR', 'URL CTR', 'Site CTR'],
+  position: ['Position', 'Average position', 'Avg. position']
+};
+
+// Usual organic CTR by position; positions past the end use the last value
+const EXPECTED_CTR_BY_POSITION = [0.28, 0.15, 0.1, 0.07, 0.05, 0.04, 0.03, 0.025, 0.02, 0.018, 0.01];
+
+// A page is a rewrite candidate when its CTR is below this share of the usual CTR
+const LOW_CTR_RATIO = 0.5;
+
+// Impressions a page needs before its CTR is worth judging
+const MIN_OPPORTUNITY_IMPRESSIONS = 100;
+
+// Impressions, relative to the average imported page, above which a page counts as high-traffic
+const HIGH_IMPRESSIONS_RATIO = 2;
+
+const TOP_QUERIES_PER_PAGE = 5;
+
+const STATUS_IMPACT: Record<string, number> = { 'Priority OFI': 1, 'OFI': 0.5 };
+const IMPORTANCE_IMPACT: Record<string, number> = { High: 1, Medium: 0.6, Low: 0.3 };
+
+// Audit result sections whose items carry the crawled page's URL and title
+const AUDIT_ITEM_SECTIONS = [
+  'onPage', 'structureNavigation', 'contactPage', 'servicePages', 'locationPages', 'serviceAreaPages',
+  'contentQuality', 'technicalSEO', 'localSEO', 'uxPerformance'
+];
+
+/**
+ * Key joining Search Console pages to crawled pages: the host without www and
+ * the path without a trailing slash. Protocol and fragment are ignored.
+ */
+export function getPageKey(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${path}${parsed.search}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A CTR from an export: "4.5%" or 4.5 as a percentage, 0.045 as a ratio
+ */
+export function parseCtr(value: unknown): number | null {
+  const ctr = parseMetric(typeof value === 'string' ? value.replace('%', '') : value);
+  if (ctr === null) return null;
+  return (typeof value === 'string' && value.includes('%')) || ctr > 1 ? ctr / 100 : ctr;
+}
+
+function toRow(page: unknown, query: unknown, clicks: unknown, impressions: unknown, ctr: unknown, position: unknown): NormalizedPerformanceRow | null {
+  const pageUrl = typeof page === 'string' ? page.trim() : '';
+  const impressionCount = parseMetric(impressions);
+  if (!getPageKey(pageUrl) || impressionCount === null) return null;
+
+  const clickCount = parseMetric(clicks) ?? 0;
+  const queryText = typeof query === 'string' ? query.trim().toLowerCase() : '';
+
+  return {
+    page: pageUrl,
+    query: queryText || null,
+    clicks: Math.round(clickCount),
+    impressions: Math.round(impressionCount),
+    ctr: parseCtr(ctr) ?? (impressionCount > 0 ? clickCount / impressionCount : 0),
+    position: parseMetric(position) ?? 0
+  };
+}
+
+function normalizeCsv(content: string): { entries: Array<NormalizedPerformanceRow | null>; rowsRead: number } {
+  const [header, ...dataRows] = parseCsv(content);
+  const headers = (header || []).map(name => name.trim().toLowerCase());
+  const columnOf = (names: string[]) => names.map(name => headers.indexOf(name.toLowerCase())).find(index => index !== -1);
+
+  const pageColumn = columnOf(CSV_COLUMNS.page);
+  const impressionsColumn = columnOf(CSV_COLUMNS.impressions);
+  if (pageColumn === undefined || impressionsColumn === undefined) {
+    throw new ValidationError('Not a page performance export: it needs a page column (e.g. "Page" or "Top pages") and an "Impressions" column');
+  }
+
+  const queryColumn = columnOf(CSV_COLUMNS.query);
+  const clicksColumn = columnOf(CSV_COLUMNS.clicks);
+  const ctrColumn = columnOf(CSV_COLUMNS.ctr);
+  const positionColumn = columnOf(CSV_COLUMNS.position);
+  const cell = (cells: string[], column: number | undefined) => column === undefined ? undefined : cells[column];
+
+  return {
+    rowsRead: dataRows.length,
+    entries: dataRows.map(cells => toRow(
+      cells[pageColumn],
+      cell(cells, queryColumn),
+      cell(cells, clicksColumn),
+      cells[impressionsColumn],
+      cell(cells, ctrColumn),
+      cell(cells, positionColumn)
+    ))
+  };
+}
+
+function normalizeJson(content: string): { entries: Array<NormalizedPerformanceRow | null>; rowsRead: number } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new ValidationError('The performance export is not valid JSON');
+  }
+
+  const items = Array.isArray(parsed) ? parsed : (parsed as { rows?: unknown })?.rows;
+  if (!Array.isArray(items)) {
+    throw new ValidationError('The performance export must be an array of rows or an object with a "rows" array');
+  }
+
+  return {
+    rowsRead: items.length,
+    entries: items.map((item: any) => {
+      if (!item || typeof item !== 'object') return null;
+      // Search Analytics API rows carry their dimensions in `keys`, requested as page then query
+      const [page, query] = Array.isArray(item.keys) ? item.keys : [item.page, item.query];
+      return toRow(page, query, item.clicks, item.impressions, item.ctr, item.position);
+    })
+  };
+}
+
+/**
+ * Map a Search Console export onto performance rows. CSV exports are read by
+ * their header names; JSON is an array of { page, query, clicks, impressions,
+ * ctr, position } objects or a Search Analytics API response.
+ */
+export function normalizeSearchPerformance(
+  format: SearchPerformanceImport['format'],
+  content: string
+): { rows: NormalizedPerformanceRow[]; rowsRead: number; skipped: number } {
+  const { entries, rowsRead } = format === 'csv' ? normalizeCsv(content) : normalizeJson(content);
+  const rows = entries.filter((entry): entry is NormalizedPerformanceRow => entry !== null);
+  return { rows, rowsRead, skipped: entries.length - rows.length };
+}
+
+/**
+ * Sum performance rows per page, busiest page first. A page's position is
+ * the average of its rows' positions weighted by impressions.
+ */
+export function aggregatePagePerformance(rows: Array<Pick<SearchPerformanceRow, 'page' | 'query' | 'clicks' | 'impressions' | 'ctr' | 'position'>>): PageSearchPerformance[] {
+  const pages = new Map<string, { page: string; clicks: number; impressions: number; positionSum: number; rows: typeof rows }>();
+
+  for (const row of rows) {
+    const key = getPageKey(row.page);
+    if (!key) continue;
+
+    if (!pages.has(key)) pages.set(key, { page: row.page, clicks: 0, impressions: 0, positionSum: 0, rows: [] });
+    const page = pages.get(key)!;
+    page.clicks += row.clicks;
+    page.impressions += row.impressions;
+    page.positionSum += row.position * row.impressions;
+    page.rows.push(row);
+  }
+
+  return Array.from(pages.values())
+    .map(page => ({
+      page: page.page,
+      clicks: page.clicks,
+      impressions: page.impressions,
+      ctr: page.impressions > 0 ? page.clicks / page.impressions : 0,
+      position: page.impressions > 0 ? Math.round((page.positionSum / page.impressions) * 10) / 10 : 0,
+      topQueries: page.rows
+        .filter(row => row.query)
+        .sort((a, b) => b.impressions - a.impressions)
+        .slice(0, TOP_QUERIES_PER_PAGE)
+        .map(row => ({ query: row.query!, clicks: row.clicks, impressions: row.impressions, ctr: row.ctr, position: row.position }))
+    }))
+    .sort((a, b) => b.impressions - a.impressions);
+}
+
+/**
+ * Usual organic CTR at an average position
+ */
+export function getExpectedCtr(position: number): number {
+  const index = Math.min(Math.max(Math.round(position), 1), EXPECTED_CTR_BY_POSITION.length) - 1;
+  return EXPECTED_CTR_BY_POSITION[index];
+}
+
+/**
+ * Pages with enough impressions whose CTR is well below the usual CTR at
+ * their position, ordered by the clicks they miss
+ */
+export function findCtrOpportunities(
+  pages: PageSearchPerformance[],
+  pageTitles: Map<string, string> = new Map(),
+  minImpressions: number = MIN_OPPORTUNITY_IMPRESSIONS
+): CtrOpportunity[] {
+  return pages
+    .filter(page => page.impressions >= minImpressions && page.position > 0)
+    .map(page => {
+      const expectedCtr = getExpectedCtr(page.position);
+      return {
+        ...page,
+        expectedCtr,
+        missedClicks: Math.round(page.impressions * (expectedCtr - page.ctr)),
+        pageTitle: pageTitles.get(getPageKey(page.page)!) ?? null
+      };
+    })
+    .filter(page => page.ctr < page.expectedCtr * LOW_CTR_RATIO)
+    .sort((a, b) => b.missedClicks - a.missedClicks);
+}
+
+/**
+ * An audit item's impressions weighted by how much fixing it matters:
+ * full weight for a high-importance Priority OFI, none for items that pass
+ */
+export function getImpressionImpact(item: { status: string; importance: string }, impressions: number): number {
+  return Math.round(impressions * (STATUS_IMPACT[item.status] ?? 0) * (IMPORTANCE_IMPACT[item.importance] ?? 0));
+}
+
+/**
+ * A project's page performance looked up by crawled page URL
+ */
+export class PagePerformanceIndex {
+  private pages = new Map<string, PageSearchPerformance>();
+  private averageImpressions: number;
+
+  constructor(pages: PageSearchPerformance[]) {
+    for (const page of pages) {
+      this.pages.set(getPageKey(page.page)!, page);
+    }
+    this.averageImpressions = pages.length > 0
+      ? pages.reduce((sum, page) => sum + page.impressions, 0) / pages.length
+      : 0;
+  }
+
+  get(url: string): PageSearchPerformance | undefined {
+    const key = getPageKey(url);
+    return key ? this.pages.get(key) : undefined;
+  }
+
+  /**
+   * Whether the page gets well above the average imported page's impressions
+   */
+  hasHighImpressions(url: string): boolean {
+    if (this.pages.size < 3) return false;
+    const page = this.get(url);
+    return !!page && page.impressions >= this.averageImpressions * HIGH_IMPRESSIONS_RATIO;
+  }
+}
+
+/**
+ * Page titles of the pages an audit crawled, by page key
+ */
+export function collectPageTitles(results: any): Map<string, string> {
+  const titles = new Map<string, string>();
+  const add = (pageUrl: unknown, pageTitle: unknown) => {
+    const key = typeof pageUrl === 'string' ? getPageKey(pageUrl) : null;
+    if (key && typeof pageTitle === 'string' && pageTitle && !titles.has(key)) titles.set(key, pageTitle);
+  };
+
+  for (const section of AUDIT_ITEM_SECTIONS) {
+    for (const item of results?.[section]?.items || []) add(item.pageUrl, item.pageTitle);
+  }
+  for (const page of results?.pageIssues || []) add(page.pageUrl, page.pageTitle);
+  for (const page of results?.contentDepth || []) add(page.pageUrl, page.pageTitle);
+
+  return titles;
+}
+
+/**
+ * Service that imports Search Console performance into projects and joins it
+ * to the pages audits crawl
+ */
+export class SearchPerformanceService {
+  /**
+   * Import an export into a project, replacing the project's previous import
+   */
+  async importPerformance(input: SearchPerformanceImport): Promise<SearchPerformanceImportResult> {
+    const { rows, rowsRead, skipped } = normalizeSearchPerformance(input.format, input.content);
+    if (rows.length === 0) {
+      throw new ValidationError('No rows with a page URL and impressions found in the export');
+    }
+
+    const importedAt = new Date();
+    await searchPerformanceRepository.replaceRows(input.projectId, rows.map(row => ({
+      ...row,
+      projectId: input.projectId,
+      importedAt
+    })));
+
+    const pages = new Set(rows.map(row => getPageKey(row.page))).size;
+    console.log(`📊 Imported ${rows.length} Search Console rows (${pages} pages) into project ${input.projectId}`);
+
+    return { rowsRead, imported: rows.length, skipped, pages };
+  }
+
+  /**
+   * Totals of a project's import
+   */
+  async getSummary(projectId: number): Promise<SearchPerformanceSummary> {
+    return await searchPerformanceRepository.getSummary(projectId);
+  }
+
+  /**
+   * A project's page performance for audits, or null when nothing was imported
+   */
+  async getPagePerformance(projectId: number): Promise<PagePerformanceIndex | null> {
+    const rows = await searchPerformanceRepository.getRows(projectId);
+    return rows.length > 0 ? new PagePerformanceIndex(aggregatePagePerformance(rows)) : null;
+  }
+
+  /**
+   * Pages with high impressions and low CTR whose title and meta description
+   * should be rewritten, titled from the project's latest completed audit
+   */
+  async getCtrOpportunities(projectId: number): Promise<CtrOpportunity[]> {
+    const [rows, audits] = await Promise.all([
+      searchPerformanceRepository.getRows(projectId),
+      rivalAuditRepository.getAuditsByProject(projectId)
+    ]);
+
+    const latestAudit = audits.find(audit => audit.status === 'completed' && audit.results && !isFallbackAudit(audit));
+    return findCtrOpportunities(aggregatePagePerformance(rows), collectPageTitles(latestAudit?.results));
+  }
+
+  /**
+   * Remove a project's imported performance
+   */
+  async clear(projectId: number): Promise<number> {
+    return await searchPerformanceRepository.deleteRows(projectId);
+  }
+}
+
+// Singleton instance
+export const searchPerformanceService = new SearchPerformanceService();
@@ -0,0 +1,6 @@
+export {
+  WebhookService,
+  webhookService,
+  signWebhookPayload,
+  getDeliveryRetryDelay
+} from './webhook.service';
@@ -0,0 +1,468 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { LookupFunction } from 'net';
+import {
+  InsertWebhook,
+  RivalAuditRecord,
+  UpdateWebhook,
+  Webhook,
+  WebhookCreated,
+  WebhookDelivery,
+  WebhookDeliverySummary,
+  WebhookEvent,
+  WebhookSummary
+} from '../../../shared/schema';
+import { isPrivateAddress, isPrivateHostname } from '../../../shared/utils/network';
+import { webhookRepository } from '../../repositories/webhook.repository';
+import { AccessScope, isInScope } from '../../types/workspace';
+import { NotFoundError } from '../../utils/errors';
+
+export interface WebhookDeliveryConfig {
+  pollIntervalMs: number;
+  batchSize: number; // deliveries sent at the same time
+  timeoutMs: number;
+  staleAfterMs: number; // deliveries stuck mid-attempt for this long are retried
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  retentionMs: number; // finished deliveries are kept in the log this long
+}
+
+const DEFAULT_CONFIG: WebhookDeliveryConfig = {
+  pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '10000', 10),
+  batchSize: 10,
+  timeoutMs: 10 * 1000,
+  staleAfterMs: 2 * 60 * 1000,
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+  retryBaseDelayMs: parseInt(process.env.WEBHOOK_RETRY_DELAY_MS || '60000', 10),
+  retryMaxDelayMs: 6 * 60 * 60 * 1000,
+  retentionMs: 30 * 24 * 60 * 60 * 1000
+};
+
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const PRIVATE_TARGET_ERROR = 'Webhook URL resolves to a private or reserved address';
+
+/**
+ * DNS lookup for webhook connections that fails when the host resolves to a
+ * private or reserved address. The connection is made to the address checked
+ * here, so a host cannot pass the check and then resolve somewhere else.
+ */
+export const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new Error(PRIVATE_TARGET_ERROR), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const webhookAgents: Record<string, http.Agent> = {
+  'http:': new http.Agent({ lookup: publicAddressLookup }),
+  'https:': new https.Agent({ lookup: publicAddressLookup })
+};
+
+/**
+ * HMAC-SHA256 of `<timestamp>.<body>`, sent as `X-Webhook-Signature: sha256=<hex>`.
+ * Receivers recompute it with their secret and reject old timestamps to
+ * stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Exponential backoff delay after a delivery's `attempts`-th failed attempt
+ */
+export function getDeliveryRetryDelay(attempts: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.min(baseDelayMs * Math.pow(2, Math.max(0, attempts - 1)), maxDelayMs);
+}
+
+/**
+ * Webhook Service
+ * User and workspace webhooks for audit and analysis events. Events are
+ * stored as deliveries and sent by a worker that signs each payload and
+ * retries failed deliveries with exponential backoff.
+ */
+export class WebhookService {
+  private readonly config: WebhookDeliveryConfig;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isPolling = false;
+  private lastCleanupAt = 0;
+
+  constructor(config: Partial<WebhookDeliveryConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start sending due deliveries
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠️ Webhook delivery worker is already running');
+      return;
+    }
+
+    console.log(`🪝 Starting webhook delivery worker (polls every ${Math.round(this.config.pollIntervalMs / 1000)}s)`);
+    this.isRunning = true;
+
+    this.poll();
+
+    this.pollInterval = setInterval(() => {
+      this.poll();
+    }, this.config.pollIntervalMs);
+  }
+
+  /**
+   * Stop sending deliveries; attempts in flight are retried after a restart
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      console.log('⚠️ Webhook delivery worker is not running');
+      return;
+    }
+
+    console.log('🛑 Stopping webhook delivery worker');
+    this.isRunning = false;
+
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  /**
+   * Create a webhook in the scope; the signing secret is only returned here
+   */
+  async createWebhook(scope: AccessScope, input: InsertWebhook): Promise<WebhookCreated> {
+    const secret = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+    const webhook = await webhookRepository.createWebhook({
+      userId: scope.userId,
+      workspaceId: scope.workspaceId,
+      url: input.url,
+      description: input.description,
+      events: Array.from(new Set(input.events)),
+      secret,
+      isActive: input.isActive
+    });
+
+    return { webhook: this.toSummary(webhook), secret };
+  }
+
+  async getWebhooks(scope: AccessScope): Promise<WebhookSummary[]> {
+    const webhooks = await webhookRepository.getWebhooksByScope(scope);
+    return webhooks.map(webhook => this.toSummary(webhook));
+  }
+
+  async updateWebhook(scope: AccessScope, id: number, input: UpdateWebhook): Promise<WebhookSummary> {
+    await this.getScopedWebhook(scope, id);
+
+    const webhook = await webhookRepository.updateWebhook(id, {
+      ...input,
+      events: input.events ? Array.from(new Set(input.events)) : undefined
+    });
+    if (!webhook) {
+      throw new NotFoundError('Webhook');
+    }
+    return this.toSummary(webhook);
+  }
+
+  async deleteWebhook(scope: AccessScope, id: number): Promise<void> {
+    await this.getScopedWebhook(scope, id);
+    await webhookRepository.deleteWebhook(id);
+  }
+
+  /**
+   * The delivery log of a webhook, newest first
+   */
+  async getDeliveries(scope: AccessScope, webhookId: number): Promise<WebhookDeliverySummary[]> {
+    const webhook = await this.getScopedWebhook(scope, webhookId);
+    const deliveries = await webhookRepository.getDeliveries(webhookId);
+
+    // Responses of internal services are never shown, even if logged before such URLs were refused
+    const showResponseBodies = !isPrivateHostname(new URL(webhook.url).hostname);
+    return deliveries.map(delivery => this.toDeliverySummary(delivery, showResponseBodies));
+  }
+
+  /**
+   * Send a delivery's payload again as a new delivery
+   */
+  async redeliver(scope: AccessScope, webhookId: number, deliveryId: number): Promise<WebhookDeliverySummary> {
+    await this.getScopedWebhook(scope, webhookId);
+
+    const original = await webhookRepository.getDelivery(deliveryId);
+    if (!original || original.webhookId !== webhookId) {
+      throw new NotFoundError('Delivery');
+    }
+
+    const [delivery] = await webhookRepository.createDeliveries([{
+      webhookId,
+      event: original.event,
+      payload: original.payload,
+      redeliveryOf: original.id
+    }]);
+
+    this.poll();
+    return this.toDeliverySummary(delivery);
+  }
+
+  /**
+   * Queue an event for the webhooks of the record's owner: its workspace's
+   * webhooks, or the user's personal ones. Failures are logged rather than
+   * thrown so they never break the audit or analysis that raised the event.
+   */
+  async dispatch(event: WebhookEvent, owner: { userId: string | null; workspaceId: number | null }, data: Record<string, any>): Promise<void> {
+    if (!owner.userId && owner.workspaceId === null) {
+      return;
+    }
+
+    try {
+      const scope: AccessScope = { userId: owner.userId || '', workspaceId: owner.workspaceId };
+      const webhooks = await webhookRepository.getSubscribedWebhooks(scope, event);
+      if (webhooks.length === 0) {
+        return;
+      }
+
+      const payload = {
+        id: crypto.randomUUID(),
+        event,
+        createdAt: new Date().toISOString(),
+        data
+      };
+      await webhookRepository.createDeliveries(webhooks.map(webhook => ({
+        webhookId: webhook.id,
+        event,
+        payload
+      })));
+
+      this.poll();
+    } catch (error) {
+      console.error(`❌ Failed to queue ${event} webhooks:`, error);
+    }
+  }
+
+  /**
+   * Queue an audit lifecycle event with the audit's status and summary
+   */
+  async dispatchAuditEvent(event: WebhookEvent, audit: RivalAuditRecord, data: Record<string, any> = {}): Promise<void> {
+    await this.dispatch(event, audit, {
+      audit: {
+        id: audit.id,
+        url: audit.url,
+        status: audit.status,
+        projectId: audit.projectId,
+        scheduleId: audit.scheduleId,
+        pagesAnalyzed: audit.pagesAnalyzed,
+        summary: audit.summary,
+        errorMessage: audit.errorMessage,
+        startedAt: audit.startedAt.toISOString(),
+        completedAt: audit.completedAt?.toISOString() ?? null
+      },
+      ...data
+    });
+  }
+
+  /**
+   * Claim and send due deliveries
+   */
+  private async poll(): Promise<void> {
+    if (!this.isRunning || this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      if (Date.now() - this.lastCleanupAt >= CLEANUP_INTERVAL_MS) {
+        this.lastCleanupAt = Date.now();
+        const deleted = await webhookRepository.deleteFinishedDeliveriesBefore(new Date(Date.now() - this.config.retentionMs));
+        if (deleted > 0) {
+          console.log(`🪝 Deleted ${deleted} old webhook deliveries`);
+        }
+      }
+
+      while (this.isRunning) {
+        const staleBefore = new Date(Date.now() - this.config.staleAfterMs);
+        const deliveries = await webhookRepository.claimDueDeliveries(this.config.batchSize, staleBefore);
+        if (deliveries.length === 0) break;
+
+        await Promise.all(deliveries.map(delivery => this.deliver(delivery)));
+      }
+    } catch (error) {
+      console.error('❌ Error polling webhook deliveries:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Make one attempt at a delivery and record the outcome
+   */
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const webhook = await webhookRepository.getWebhook(delivery.webhookId);
+
+    if (!webhook || !webhook.isActive) {
+      await webhookRepository.recordAttempt(delivery.id, {
+        status: 'failed',
+        errorMessage: 'Webhook is disabled'
+      });
+      return;
+    }
+
+    const startedAt = Date.now();
+    const timestamp = Math.floor(startedAt / 1000);
+    const body = JSON.stringify(delivery.payload);
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      const response = await this.post(webhook.url, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'RivalOutranker-Webhooks/1.0',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': String(delivery.id),
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`
+      }, body);
+
+      responseStatus = response.status;
+      responseBody = response.body;
+      if (response.status < 200 || response.status >= 300) {
+        errorMessage = `Endpoint responded with ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Request failed';
+    }
+
+    const durationMs = Date.now() - startedAt;
+
+    if (!errorMessage) {
+      await webhookRepository.recordAttempt(delivery.id, {
+        status: 'succeeded',
+        attempts,
+        responseStatus,
+        responseBody,
+        errorMessage: null,
+        durationMs,
+        deliveredAt: new Date()
+      });
+      return;
+    }
+
+    const willRetry = attempts < this.config.maxAttempts;
+    await webhookRepository.recordAttempt(delivery.id, {
+      status: willRetry ? 'pending' : 'failed',
+      attempts,
+      nextAttemptAt: willRetry
+        ? new Date(Date.now() + getDeliveryRetryDelay(attempts, this.config.retryBaseDelayMs, this.config.retryMaxDelayMs))
+        : undefined,
+      responseStatus,
+      responseBody,
+      errorMessage,
+      durationMs
+    });
+
+    console.warn(`⚠️ Webhook delivery ${delivery.id} (${delivery.event}) to ${webhook.url} failed: ${errorMessage}${willRetry ? '' : ', giving up'}`);
+  }
+
+  /**
+   * POST a payload to a webhook URL without following redirects. Hosts are
+   * checked on every attempt, as their DNS records can change after the
+   * webhook is saved.
+   */
+  private post(url: string, headers: Record<string, string>, body: string): Promise<{ status: number; body: string }> {
+    const target = new URL(url);
+
+    // IP addresses are connected to without a lookup, so they are checked here
+    if (isPrivateHostname(target.hostname)) {
+      return Promise.reject(new Error(PRIVATE_TARGET_ERROR));
+    }
+
+    return new Promise((resolve, reject) => {
+      const client = target.protocol === 'https:' ? https : http;
+      const request = client.request(target, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        agent: webhookAgents[target.protocol]
+      }, response => {
+        let text = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          if (text.length < MAX_RESPONSE_BODY_LENGTH) {
+            text += chunk;
+          }
+        });
+        response.on('end', () => {
+          clearTimeout(timeout);
+          resolve({ status: response.statusCode || 0, body: text.slice(0, MAX_RESPONSE_BODY_LENGTH) });
+        });
+        response.on('error', reject);
+      });
+
+      const timeout = setTimeout(() => request.destroy(new Error('Request timed out')), this.config.timeoutMs);
+      request.on('error', error => {
+        clearTimeout(timeout);
+        reject(error);
+      });
+      request.end(body);
+    });
+  }
+
+  /**
+   * A webhook of the scope, or a 404 for webhooks of other users and workspaces
+   */
+  private async getScopedWebhook(scope: AccessScope, id: number): Promise<Webhook> {
+    const webhook = await webhookRepository.getWebhook(id);
+    if (!webhook || !isInScope(scope, webhook)) {
+      throw new NotFoundError('Webhook');
+    }
+    return webhook;
+  }
+
+  private toSummary(webhook: Webhook): WebhookSummary {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      description: webhook.description,
+      events: webhook.events as WebhookEvent[],
+      isActive: webhook.isActive,
+      workspaceId: webhook.workspaceId,
+      createdAt: webhook.createdAt.toISOString(),
+      updatedAt: webhook.updatedAt.toISOString()
+    };
+  }
+
+  private toDeliverySummary(delivery: WebhookDelivery, showResponseBody = true): WebhookDeliverySummary {
+    const isFinished = delivery.status === 'succeeded' || delivery.status === 'failed';
+    return {
+      id: delivery.id,
+      event: delivery.event as WebhookEvent,
+      status: delivery.status as WebhookDeliverySummary['status'],
+      attempts: delivery.attempts,
+      nextAttemptAt: isFinished ? null : delivery.nextAttemptAt.toISOString(),
+      responseStatus: delivery.responseStatus,
+      responseBody: showResponseBody ? delivery.responseBody : null,
+      errorMessage: delivery.errorMessage,
+      durationMs: delivery.durationMs,
+      redeliveryOf: delivery.redeliveryOf,
+      payload: delivery.payload as Record<string, any>,
+      createdAt: delivery.createdAt.toISOString(),
+      deliveredAt: delivery.deliveredAt?.toISOString() ?? null
+    };
+  }
+}
+
+// Singleton instance
+export const webhookService = new WebhookService();
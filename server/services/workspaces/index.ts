@@ -0,0 +1,5 @@
+export {
+  WorkspaceService,
+  workspaceService,
+  hashInvitationToken
+} from './workspace.service';
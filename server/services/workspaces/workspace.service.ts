@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import {
+  InsertWorkspace,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceInvitationDetails,
+  WorkspaceInvitationInput,
+  WorkspaceInvitationResult,
+  WorkspaceMemberDetails,
+  WorkspaceRole,
+  WorkspaceSummary
+} from '../../../shared/schema';
+import { WORKSPACE_ROLE_LABELS } from '../../../shared/constants/workspace-roles';
+import { workspaceRepository } from '../../repositories/workspace.repository';
+import { userRepository } from '../../repositories/user.repository';
+import { emailService } from '../common/email.service';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * SHA-256 of an invitation token; only the hash is stored so a database leak
+ * cannot be used to join workspaces
+ */
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Workspace Service
+ * Agency workspaces whose members share projects, audits, keywords and
+ * backlink profiles, and the email invitations that add members to them
+ */
+export class WorkspaceService {
+  /**
+   * Create a workspace owned by the user
+   */
+  async createWorkspace(userId: string, input: InsertWorkspace): Promise<WorkspaceSummary> {
+    const workspace = await workspaceRepository.createWorkspace(input.name, userId);
+    return this.toSummary(workspace, 'owner', 1);
+  }
+
+  /**
+   * Workspaces the user belongs to
+   */
+  async getWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+    const workspaces = await workspaceRepository.getWorkspacesByUser(userId);
+    return workspaces.map(workspace => this.toSummary(workspace, workspace.role as WorkspaceRole, workspace.memberCount));
+  }
+
+  /**
+   * Rename a workspace
+   */
+  async renameWorkspace(workspaceId: number, input: InsertWorkspace): Promise<Workspace> {
+    const workspace = await workspaceRepository.updateWorkspace(workspaceId, input.name);
+    if (!workspace) {
+      throw new NotFoundError('Workspace');
+    }
+    return workspace;
+  }
+
+  async getMembers(workspaceId: number): Promise<WorkspaceMemberDetails[]> {
+    const members = await workspaceRepository.getMembers(workspaceId);
+
+    return members.map(member => ({
+      userId: member.userId,
+      role: member.role as WorkspaceRole,
+      email: member.email,
+      username: member.username,
+      name: [member.firstName, member.lastName].filter(Boolean).join(' ') || null,
+      joinedAt: member.createdAt.toISOString()
+    }));
+  }
+
+  async getPendingInvitations(workspaceId: number): Promise<WorkspaceInvitationDetails[]> {
+    const invitations = await workspaceRepository.getPendingInvitations(workspaceId);
+    return invitations.map(invitation => this.toInvitationDetails(invitation));
+  }
+
+  /**
+   * Invite someone by email. The link carries a random token and is emailed
+   * when SMTP is configured; it is returned either way so the owner can share
+   * it directly.
+   */
+  async inviteMember(
+    workspaceId: number,
+    invitedBy: string,
+    input: WorkspaceInvitationInput,
+    appUrl: string
+  ): Promise<WorkspaceInvitationResult> {
+    const workspace = await workspaceRepository.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw new NotFoundError('Workspace');
+    }
+
+    const existingUser = await userRepository.findByEmail(input.email);
+    if (existingUser && await workspaceRepository.getMember(workspaceId, existingUser.id)) {
+      throw new ConflictError(`${input.email} is already a member of this workspace`);
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const invitation = await workspaceRepository.createInvitation({
+      workspaceId,
+      email: input.email,
+      role: input.role,
+      tokenHash: hashInvitationToken(token),
+      invitedBy,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_MS)
+    });
+
+    const inviteUrl = `${appUrl.replace(/\/$/, '')}/invitations/${token}`;
+    const role = WORKSPACE_ROLE_LABELS[input.role];
+    const emailed = await emailService.send({
+      to: input.email,
+      subject: `You're invited to join ${workspace.name} on Rival Outranker`,
+      text: `You have been invited to join the ${workspace.name} workspace as ${role}.\n\n` +
+        `Accept the invitation within 7 days by signing in with this email address at:\n${inviteUrl}\n`
+    });
+
+    console.log(`✉️ Invited ${input.email} to workspace ${workspaceId} as ${input.role}${emailed ? '' : ' (not emailed)'}`);
+    return { invitation: this.toInvitationDetails(invitation), inviteUrl, emailed };
+  }
+
+  /**
+   * The workspace and role an invitation token grants, for the accept page
+   */
+  async getInvitation(token: string): Promise<{ workspaceName: string; email: string; role: WorkspaceRole; expiresAt: string }> {
+    const { invitation, workspace } = await this.findValidInvitation(token);
+
+    return {
+      workspaceName: workspace.name,
+      email: invitation.email,
+      role: invitation.role as WorkspaceRole,
+      expiresAt: invitation.expiresAt.toISOString()
+    };
+  }
+
+  /**
+   * Join the workspace of an invitation sent to the user's email address
+   */
+  async acceptInvitation(token: string, userId: string): Promise<WorkspaceSummary> {
+    const { invitation, workspace } = await this.findValidInvitation(token);
+
+    const user = await userRepository.findById(userId);
+    if (!user?.email || user.email.toLowerCase() !== invitation.email.toLowerCase()) {
+      throw new AuthorizationError(`This invitation was sent to ${invitation.email}; sign in with that address to accept it`);
+    }
+
+    // Accepting never demotes someone who already joined with another role
+    const member = await workspaceRepository.getMember(workspace.id, userId)
+      || await workspaceRepository.upsertMember(workspace.id, userId, invitation.role as WorkspaceRole);
+    await workspaceRepository.markInvitationAccepted(invitation.id);
+
+    const members = await workspaceRepository.getMembers(workspace.id);
+    return this.toSummary(workspace, member.role as WorkspaceRole, members.length);
+  }
+
+  /**
+   * Change a member's role, keeping at least one owner
+   */
+  async updateMemberRole(workspaceId: number, userId: string, role: WorkspaceRole): Promise<void> {
+    const member = await workspaceRepository.getMember(workspaceId, userId);
+    if (!member) {
+      throw new NotFoundError('Member');
+    }
+
+    if (member.role === 'owner' && role !== 'owner') {
+      await this.ensureAnotherOwner(workspaceId);
+    }
+
+    await workspaceRepository.upsertMember(workspaceId, userId, role);
+  }
+
+  /**
+   * Remove a member, or let members leave, keeping at least one owner
+   */
+  async removeMember(workspaceId: number, userId: string): Promise<void> {
+    const member = await workspaceRepository.getMember(workspaceId, userId);
+    if (!member) {
+      throw new NotFoundError('Member');
+    }
+
+    if (member.role === 'owner') {
+      await this.ensureAnotherOwner(workspaceId);
+    }
+
+    await workspaceRepository.removeMember(workspaceId, userId);
+  }
+
+  async revokeInvitation(workspaceId: number, invitationId: number): Promise<void> {
+    if (!(await workspaceRepository.deleteInvitation(workspaceId, invitationId))) {
+      throw new NotFoundError('Invitation');
+    }
+  }
+
+  private async ensureAnotherOwner(workspaceId: number): Promise<void> {
+    if (await workspaceRepository.countOwners(workspaceId) <= 1) {
+      throw new ConflictError('A workspace needs at least one owner; make another member an owner first');
+    }
+  }
+
+  private async findValidInvitation(token: string): Promise<{ invitation: WorkspaceInvitation; workspace: Workspace }> {
+    const invitation = await workspaceRepository.getInvitationByTokenHash(hashInvitationToken(token));
+    const workspace = invitation && await workspaceRepository.getWorkspace(invitation.workspaceId);
+    if (!invitation || !workspace) {
+      throw new NotFoundError('Invitation');
+    }
+    if (invitation.acceptedAt) {
+      throw new ConflictError('This invitation has already been accepted');
+    }
+    if (invitation.expiresAt.getTime() < Date.now()) {
+      throw new ValidationError('This invitation has expired; ask for a new one');
+    }
+
+    return { invitation, workspace };
+  }
+
+  private toSummary(workspace: Workspace, role: WorkspaceRole, memberCount: number): WorkspaceSummary {
+    return {
+      id: workspace.id,
+      name: workspace.name,
+      role,
+      memberCount,
+      createdAt: workspace.createdAt.toISOString()
+    };
+  }
+
+  private toInvitationDetails(invitation: WorkspaceInvitation): WorkspaceInvitationDetails {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role as WorkspaceRole,
+      expiresAt: invitation.expiresAt.toISOString(),
+      createdAt: invitation.createdAt.toISOString()
+    };
+  }
+}
+
+// Singleton instance
+export const workspaceService = new WorkspaceService();
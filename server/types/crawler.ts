@@ -3,6 +3,44 @@
  * This file defines the proper type interfaces for crawler output and related data structures
  */
 
+// A single redirect response on the way to a URL's final destination
+export interface RedirectHop {
+  url: string; // URL that answered with the redirect
+  statusCode: number; // 301, 302, 303, 307 or 308
+  location: string; // absolute redirect target
+  protocolChange?: 'http-to-https' | 'https-to-http';
+}
+
+// Every hop between a requested URL and the response it finally produced
+export interface RedirectChain {
+  url: string; // requested URL
+  finalUrl: string;
+  finalStatusCode: number; // -1 when the final URL could not be reached
+  hops: RedirectHop[];
+  isLoop: boolean;
+  error?: string;
+}
+
+// A page in the site's internal link graph
+export interface LinkGraphNode {
+  url: string;
+  inDegree: number; // distinct crawled pages linking here
+  outDegree: number; // distinct internal pages this page links to
+  clickDepth: number | null; // clicks from the homepage; null when no crawled link path reaches it
+  pageRank: number; // internal PageRank, sums to 1 across the graph
+  authority: number; // 0-100, PageRank relative to the strongest page
+  crawled: boolean;
+  inSitemap: boolean;
+}
+
+// Internal links between crawled pages, built once the crawl has finished
+export interface LinkGraph {
+  homepageUrl: string;
+  nodes: Record<string, LinkGraphNode>; // crawled pages are keyed by their crawled URL
+  orphanPages: string[]; // sitemap URLs no crawled page links to
+  deadEndPages: string[]; // crawled pages without internal links to other pages
+}
+
 // Main CrawlerOutput interface - output from Puppeteer and standard crawling
 export interface CrawlerOutput {
   url: string;
@@ -85,6 +123,7 @@ export interface CrawlerOutput {
   rawHtml: string;
   error?: string;
   puppeteerUsed?: boolean;
+  redirectChain?: RedirectChain;
 }
 
 // PageCrawlResult interface - expected format for analyzers
@@ -136,6 +175,7 @@ export interface PageCrawlResult {
     totalBlockingTime: number;
     largestContentfulPaint: number;
   };
+  redirectChain?: RedirectChain; // how the crawler reached this page
   keywordDensity: Record<string, number>;
   readabilityScore: number;
   contentStructure: {
@@ -157,6 +197,8 @@ export interface SiteStructure {
   otherPages: PageCrawlResult[];
   hasSitemapXml: boolean;
   reachedMaxPages?: boolean;
+  linkTargets?: Record<string, RedirectChain>; // redirect chain and final status of each internal link target
+  linkGraph?: LinkGraph;
 }
 
 // Crawl options interface
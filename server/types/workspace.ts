@@ -0,0 +1,28 @@
+/**
+ * Workspace Types - Who a request acts for and what it may see
+ */
+
+import type { WorkspaceRole } from '../../shared/schema';
+
+// The workspace selected with the X-Workspace-Id header, and the user's role in it
+export interface WorkspaceContext {
+  id: number;
+  role: WorkspaceRole;
+}
+
+// The records a request may see: those of the active workspace, or the
+// user's personal records when no workspace is active
+export interface AccessScope {
+  userId: string;
+  workspaceId: number | null;
+}
+
+/**
+ * Whether a project, audit, keyword or backlink profile belongs to a scope.
+ * Records shared with a workspace belong to it alone, even for their creator.
+ */
+export function isInScope(scope: AccessScope, record: { userId: string | null; workspaceId: number | null }): boolean {
+  return record.workspaceId !== null
+    ? record.workspaceId === scope.workspaceId
+    : scope.workspaceId === null && record.userId === scope.userId;
+}
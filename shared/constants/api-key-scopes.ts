@@ -0,0 +1,11 @@
+import type { ApiKeyScope } from '../schema';
+
+// What each API key scope lets a script do, as shown when creating a key
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'audits:write': 'Start, cancel and update rival audits',
+  'audits:read': 'Read rival audits, their progress and comparisons',
+  'analysis:write': 'Run page analyses and batch analyses and check their progress',
+  'export:read': 'Download audit and batch analysis exports',
+};
+
+export const API_KEY_SCOPES = Object.keys(API_KEY_SCOPE_DESCRIPTIONS) as ApiKeyScope[];
@@ -1 +1,4 @@
-export * from './us-cities';
\ No newline at end of file
+export * from './us-cities';
+export * from './workspace-roles';
+export * from './api-key-scopes';
+export * from './webhook-events';
\ No newline at end of file
@@ -0,0 +1,12 @@
+import type { WebhookEvent } from '../schema';
+
+// When each webhook event is sent, as shown when creating a webhook
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  'audit.started': 'A rival audit starts crawling',
+  'audit.completed': 'A rival audit finishes',
+  'audit.failed': 'A rival audit fails after its last retry',
+  'audit.item_status_changed': 'Someone changes the status of an audit item',
+  'analysis.completed': 'A page analysis finishes',
+};
+
+export const WEBHOOK_EVENTS = Object.keys(WEBHOOK_EVENT_DESCRIPTIONS) as WebhookEvent[];
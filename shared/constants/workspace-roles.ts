@@ -0,0 +1,23 @@
+import type { WorkspaceRole } from '../schema';
+
+export type WorkspacePermission = 'read' | 'write' | 'members:read' | 'manage';
+
+// What each workspace role may do. Clients only see the workspace's
+// projects and audits, not who else belongs to it.
+export const WORKSPACE_ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  owner: ['read', 'write', 'members:read', 'manage'],
+  editor: ['read', 'write', 'members:read'],
+  viewer: ['read', 'members:read'],
+  client: ['read'],
+};
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+  client: 'Client',
+};
+
+export function hasWorkspacePermission(role: string | null | undefined, permission: WorkspacePermission): boolean {
+  return !!role && (WORKSPACE_ROLE_PERMISSIONS[role as WorkspaceRole]?.includes(permission) ?? false);
+}
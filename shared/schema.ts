@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, varchar, index, real, date, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, varchar, index, uniqueIndex, real, date, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isPrivateHostname } from "./utils/network";
 
 // API Usage tracking table
 export const apiUsage = pgTable("api_usage", {
@@ -19,6 +21,7 @@ export const apiUsage = pgTable("api_usage", {
   userAgent: text("user_agent"),
   estimatedCost: real("estimated_cost"), // estimated cost in USD
   usageMetrics: jsonb("usage_metrics"), // detailed usage metrics (tokens, requests, etc.)
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id), // set for requests made with an API key
 });
 
 // Session storage table.
@@ -55,6 +58,179 @@ export const users = pgTable("users", {
   role: text("role").default("user"), // Roles: user, admin
 });
 
+// Agency workspaces: projects, audits, keywords and backlink profiles are shared by their members
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: text("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  userId: text("user_id").notNull().references(() => users.id),
+  role: text("role").notNull(), // owner, editor, viewer, client
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    uniqueIndex("unique_workspace_member").on(table.workspaceId, table.userId),
+    index("idx_workspace_members_user").on(table.userId)
+  ];
+});
+
+// Invitations are accepted with a token sent by email; only its hash is stored
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  email: text("email").notNull(),
+  role: text("role").notNull(), // editor, viewer, client
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedBy: text("invited_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_workspace_invitations_workspace").on(table.workspaceId)
+  ];
+});
+
+// Signed-in devices; the session ID is carried in the auth token and checked on every request
+export const userSessions = pgTable("user_sessions", {
+  id: varchar("id").primaryKey(), // sessionId of the token payload
+  userId: text("user_id").notNull().references(() => users.id),
+  deviceId: text("device_id").notNull(), // fingerprint of the browser the session was started from
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastActivity: timestamp("last_activity").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_user_sessions_user").on(table.userId, table.lastActivity)
+  ];
+});
+
+// Refresh tokens are looked up by their hash, never stored in the clear
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  userId: text("user_id").notNull().references(() => users.id),
+  sessionId: varchar("session_id").notNull(),
+  deviceId: text("device_id").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  isRevoked: boolean("is_revoked").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsed: timestamp("last_used").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => {
+  return [
+    index("idx_refresh_tokens_session").on(table.sessionId)
+  ];
+});
+
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  ipAddress: text("ip_address").notNull(),
+  success: boolean("success").notNull(),
+  userAgent: text("user_agent"),
+  deviceFingerprint: text("device_fingerprint"),
+  secondFactor: boolean("second_factor").default(false).notNull(), // a two-factor code rather than a password
+  preAuthTokenId: text("pre_auth_token_id"), // the pre-auth token a second-factor attempt was sent with
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_login_attempts_email_ip").on(table.email, table.ipAddress, table.createdAt),
+    index("idx_login_attempts_pre_auth_token").on(table.preAuthTokenId)
+  ];
+});
+
+export const accountLockouts = pgTable("account_lockouts", {
+  email: text("email").primaryKey(),
+  attempts: integer("attempts").notNull(),
+  lastAttempt: timestamp("last_attempt").notNull(),
+  lockedUntil: timestamp("locked_until"),
+  lockReason: text("lock_reason"),
+});
+
+// TOTP enrolment; enabled once the first code from the authenticator app is verified
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: text("user_id").primaryKey().references(() => users.id),
+  secret: text("secret").notNull(), // base32
+  backupCodes: jsonb("backup_codes").$type<string[]>().default([]).notNull(), // hashes of the unused one-time codes
+  enabled: boolean("enabled").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  enabledAt: timestamp("enabled_at"),
+  lastUsed: timestamp("last_used"),
+  lastUsedStep: integer("last_used_step"), // time step of the last accepted code, which cannot be used again
+});
+
+// Keys for scripts calling the API; only a hash of the key is stored
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // workspace-level keys act in this workspace
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // start of the key, to tell keys apart
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<string[]>().notNull(),
+  expiresAt: timestamp("expires_at"), // null for keys that never expire
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_api_keys_user").on(table.userId)
+  ];
+});
+
+// Endpoints notified of audit and analysis events; the secret signs each payload
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // null for personal webhooks
+  url: text("url").notNull(),
+  description: text("description"),
+  events: jsonb("events").$type<string[]>().notNull(),
+  secret: text("secret").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_webhooks_user").on(table.userId),
+    index("idx_webhooks_workspace").on(table.workspaceId)
+  ];
+});
+
+// One event sent to one webhook, retried with backoff until it succeeds or runs out of attempts
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").default("pending").notNull(), // pending, delivering, succeeded, failed
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"), // when a worker started the current attempt
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // start of the last response
+  errorMessage: text("error_message"),
+  durationMs: integer("duration_ms"),
+  redeliveryOf: integer("redelivery_of").references((): AnyPgColumn => webhookDeliveries.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => {
+  return [
+    index("idx_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+    index("idx_webhook_deliveries_webhook").on(table.webhookId, table.createdAt)
+  ];
+});
+
 // Define the schema for storing user analysis history
 export const analyses = pgTable("analyses", {
   id: serial("id").primaryKey(),
@@ -69,6 +245,7 @@ export const analyses = pgTable("analyses", {
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull().references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // null for personal projects
   name: text("name").notNull(),
   description: text("description"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -83,6 +260,57 @@ export const projectAnalyses = pgTable("project_analyses", {
   addedAt: timestamp("added_at").defaultNow().notNull(),
 });
 
+// Batches of single-page analyses run together, such as a site's landing pages
+export const analysisBatches = pgTable("analysis_batches", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  name: text("name"),
+  sitemapUrl: text("sitemap_url"), // set when the URLs were read from a sitemap
+  status: text("status").default("pending").notNull(), // pending, processing, completed
+  totalPages: integer("total_pages").default(0).notNull(),
+  lockedBy: text("locked_by"), // worker analyzing the batch
+  lockedAt: timestamp("locked_at"), // last heartbeat of that worker
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => {
+  return [
+    index("idx_analysis_batches_user").on(table.userId, table.createdAt)
+  ];
+});
+
+// One URL of a batch and the analysis stored for it
+export const analysisBatchPages = pgTable("analysis_batch_pages", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => analysisBatches.id),
+  url: text("url").notNull(),
+  status: text("status").default("pending").notNull(), // pending, processing, completed, failed
+  lockedBy: text("locked_by"), // worker analyzing the page
+  analysisId: integer("analysis_id").references(() => analyses.id),
+  error: text("error"),
+  completedAt: timestamp("completed_at"),
+}, (table) => {
+  return [
+    uniqueIndex("unique_batch_page_url").on(table.batchId, table.url)
+  ];
+});
+
+// Search Console performance rows imported for a project; each import replaces the previous one
+export const searchPerformance = pgTable("search_performance", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id),
+  page: text("page").notNull(),
+  query: text("query"), // null in exports without a query column
+  clicks: integer("clicks").notNull(),
+  impressions: integer("impressions").notNull(),
+  ctr: real("ctr").notNull(), // 0-1
+  position: real("position").notNull(), // average position
+  importedAt: timestamp("imported_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_search_performance_project_page").on(table.projectId, table.page)
+  ];
+});
+
 // Insert schemas
 export const insertAnalysisSchema = createInsertSchema(analyses).omit({
   id: true,
@@ -110,6 +338,169 @@ export const loginUserSchema = z.object({
   password: z.string().min(6),
 });
 
+export const workspaceRoleSchema = z.enum(['owner', 'editor', 'viewer', 'client']);
+
+export const insertWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+// Owners are only made by promoting a member, never invited
+export const workspaceInvitationInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: workspaceRoleSchema.exclude(['owner']),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: workspaceRoleSchema,
+});
+
+// A workspace as listed for one of its members
+export const workspaceSummarySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  role: workspaceRoleSchema, // the current user's role
+  memberCount: z.number(),
+  createdAt: z.string(),
+});
+
+export const workspaceMemberDetailsSchema = z.object({
+  userId: z.string(),
+  role: workspaceRoleSchema,
+  email: z.string().nullable(),
+  username: z.string().nullable(),
+  name: z.string().nullable(),
+  joinedAt: z.string(),
+});
+
+export const workspaceInvitationDetailsSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  role: workspaceRoleSchema,
+  expiresAt: z.string(),
+  createdAt: z.string(),
+});
+
+export const workspaceInvitationResultSchema = z.object({
+  invitation: workspaceInvitationDetailsSchema,
+  inviteUrl: z.string(), // shown to the owner when the invitation could not be emailed
+  emailed: z.boolean(),
+});
+
+// A signed-in device as listed on the profile page
+export const activeSessionSchema = z.object({
+  id: z.string(),
+  deviceId: z.string(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: z.string(),
+  lastActivity: z.string(),
+  current: z.boolean(), // the session making the request
+});
+
+// An authenticator app code, or a backup code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20),
+});
+
+// Second step of a login, with the pre-auth token the password step issued
+export const twoFactorLoginSchema = twoFactorCodeSchema.extend({
+  preAuthToken: z.string().min(1),
+});
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  required: z.boolean(), // admin accounts cannot sign in without it
+  backupCodesRemaining: z.number(),
+});
+
+export const apiKeyScopeSchema = z.enum(['audits:write', 'audits:read', 'analysis:write', 'export:read']);
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  workspaceId: z.number().int().positive().nullable().default(null), // null for a personal key
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(90), // null never expires
+});
+
+export const apiKeySummarySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  keyPrefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  workspaceId: z.number().nullable(),
+  workspaceName: z.string().nullable(),
+  expiresAt: z.string().nullable(),
+  lastUsedAt: z.string().nullable(),
+  lastUsedIp: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export const apiKeyCreatedSchema = z.object({
+  apiKey: apiKeySummarySchema,
+  key: z.string(), // the full key, only returned when it is created
+});
+
+export const webhookEventSchema = z.enum([
+  'audit.started',
+  'audit.completed',
+  'audit.failed',
+  'audit.item_status_changed',
+  'analysis.completed',
+]);
+
+// Invalid URLs are left to the url() check
+const isPublicUrl = (url: string) => {
+  try {
+    return !isPrivateHostname(new URL(url).hostname);
+  } catch {
+    return true;
+  }
+};
+
+export const insertWebhookSchema = z.object({
+  url: z.string().trim().url()
+    .refine(url => /^https?:\/\//i.test(url), 'Webhook URLs must use http or https')
+    .refine(isPublicUrl, 'Webhook URLs must point to a public host, not a private or reserved address'),
+  description: z.string().trim().max(200).nullable().default(null),
+  events: z.array(webhookEventSchema).min(1),
+  isActive: z.boolean().default(true),
+});
+
+export const updateWebhookSchema = insertWebhookSchema.partial();
+
+export const webhookSummarySchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  description: z.string().nullable(),
+  events: z.array(webhookEventSchema),
+  isActive: z.boolean(),
+  workspaceId: z.number().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const webhookCreatedSchema = z.object({
+  webhook: webhookSummarySchema,
+  secret: z.string(), // signing secret, only returned when the webhook is created
+});
+
+export const webhookDeliverySummarySchema = z.object({
+  id: z.number(),
+  event: webhookEventSchema,
+  status: z.enum(['pending', 'delivering', 'succeeded', 'failed']),
+  attempts: z.number(),
+  nextAttemptAt: z.string().nullable(), // null once the delivery has finished
+  responseStatus: z.number().nullable(),
+  responseBody: z.string().nullable(),
+  errorMessage: z.string().nullable(),
+  durationMs: z.number().nullable(),
+  redeliveryOf: z.number().nullable(),
+  payload: z.record(z.any()),
+  createdAt: z.string(),
+  deliveredAt: z.string().nullable(),
+});
+
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
   createdAt: true,
@@ -119,6 +510,7 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
 export const updateProjectSchema = createInsertSchema(projects).omit({
   id: true,
   userId: true,
+  workspaceId: true,
   createdAt: true,
 });
 
@@ -127,6 +519,95 @@ export const insertProjectAnalysisSchema = createInsertSchema(projectAnalyses).o
   addedAt: true,
 });
 
+// Batch analysis request: a URL list or a sitemap to read the URLs from
+export const createAnalysisBatchSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  urls: z.array(z.string().trim().min(1)).max(200).optional(),
+  sitemapUrl: z.string().url().optional(),
+  maxPages: z.number().int().min(1).max(200).default(200),
+}).refine(data => (data.urls && data.urls.length > 0) || data.sitemapUrl, {
+  message: "Provide a list of URLs or a sitemap URL",
+});
+
+// One row of a batch's comparison table; scores are null until the page is analyzed
+export const analysisBatchRowSchema = z.object({
+  url: z.string(),
+  status: z.string(),
+  error: z.string().nullable(),
+  analysisId: z.number().nullable(),
+  overallScore: z.number().nullable(),
+  keywordScore: z.number().nullable(),
+  metaTagsScore: z.number().nullable(),
+  contentScore: z.number().nullable(),
+  internalLinksScore: z.number().nullable(),
+  imageScore: z.number().nullable(),
+  schemaMarkupScore: z.number().nullable(),
+  mobileScore: z.number().nullable(),
+  pageSpeedScore: z.number().nullable(),
+  userEngagementScore: z.number().nullable(),
+  eatScore: z.number().nullable(),
+});
+
+export const analysisBatchReportSchema = z.object({
+  batch: z.object({
+    id: z.number(),
+    name: z.string().nullable(),
+    sitemapUrl: z.string().nullable(),
+    status: z.string(),
+    totalPages: z.number(),
+    completedPages: z.number(),
+    failedPages: z.number(),
+    createdAt: z.string(),
+    completedAt: z.string().nullable(),
+  }),
+  rows: z.array(analysisBatchRowSchema),
+});
+
+// Search Console performance export: CSV, or JSON rows with page, query, clicks, impressions, ctr and position
+export const searchPerformanceImportSchema = z.object({
+  projectId: z.number().int(),
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1),
+});
+
+export const searchPerformanceImportResultSchema = z.object({
+  rowsRead: z.number(),
+  imported: z.number(),
+  skipped: z.number(), // rows without a page URL or impressions
+  pages: z.number(), // distinct pages imported
+});
+
+export const searchPerformanceSummarySchema = z.object({
+  importedAt: z.string().nullable(), // null before the first import
+  rows: z.number(),
+  pages: z.number(),
+  clicks: z.number(),
+  impressions: z.number(),
+});
+
+// A page's Search Console totals over its queries; position is impression-weighted
+export const pageSearchPerformanceSchema = z.object({
+  page: z.string(),
+  clicks: z.number(),
+  impressions: z.number(),
+  ctr: z.number(),
+  position: z.number(),
+  topQueries: z.array(z.object({
+    query: z.string(),
+    clicks: z.number(),
+    impressions: z.number(),
+    ctr: z.number(),
+    position: z.number(),
+  })),
+});
+
+// A page whose CTR is well below what its position usually gets: a title and meta description rewrite candidate
+export const ctrOpportunitySchema = pageSearchPerformanceSchema.extend({
+  expectedCtr: z.number(),
+  missedClicks: z.number(), // clicks the usual CTR at this position would add
+  pageTitle: z.string().nullable(), // from the project's latest audit that crawled the page
+});
+
 // Anonymous chat usage tracking (for non-logged in users)
 export const anonChatUsage = pgTable("anon_chat_usage", {
   id: serial("id").primaryKey(),
@@ -141,6 +622,8 @@ export const anonChatUsage = pgTable("anon_chat_usage", {
 export const backlinkProfiles = pgTable("backlink_profiles", {
   id: serial("id").primaryKey(),
   userId: text("user_id").references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id),
+  projectId: integer("project_id").references(() => projects.id),
   url: text("url").notNull(),
   domain: text("domain").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -172,7 +655,9 @@ export const backlinks = pgTable("backlinks", {
   linkPosition: text("link_position"), // header, body, footer, sidebar
   linkType: text("link_type"), // text, image, button
   surroundingText: text("surrounding_text"),
-});
+}, (table) => ({
+  uniqueBacklink: uniqueIndex("unique_backlink").on(table.profileId, table.sourceUrl, table.targetUrl),
+}));
 
 export const backlinkHistory = pgTable("backlink_history", {
   id: serial("id").primaryKey(),
@@ -185,6 +670,9 @@ export const backlinkHistory = pgTable("backlink_history", {
   nofollow: integer("nofollow").default(0),
   topReferringDomains: jsonb("top_referring_domains"),
   domainAuthority: integer("domain_authority"),
+  totalOutgoingLinks: integer("total_outgoing_links").default(0),
+  brokenOutgoingLinks: integer("broken_outgoing_links").default(0),
+  redirectedOutgoingLinks: integer("redirected_outgoing_links").default(0),
 });
 
 export const outgoingLinks = pgTable("outgoing_links", {
@@ -196,11 +684,17 @@ export const outgoingLinks = pgTable("outgoing_links", {
   firstDiscovered: timestamp("first_discovered").defaultNow().notNull(),
   lastChecked: timestamp("last_checked").defaultNow().notNull(),
   status: text("status").default("active"), // active, broken, redirected
+  statusCode: integer("status_code"), // final status after redirects, -1 when unreachable
+  redirectUrl: text("redirect_url"), // where a redirected link ends up
   anchorText: text("anchor_text"),
   isDofollow: boolean("is_dofollow").default(true),
+  rel: text("rel").default("dofollow"), // dofollow, nofollow, sponsored, ugc
+  linkPosition: text("link_position"), // header, body, footer
   targetPageAuthority: integer("target_page_authority"),
   targetDomainAuthority: integer("target_domain_authority"),
-});
+}, (table) => ({
+  uniqueLink: uniqueIndex("unique_outgoing_link").on(table.profileId, table.sourceUrl, table.targetUrl),
+}));
 
 // Insert schemas for backlink features
 export const insertBacklinkProfileSchema = createInsertSchema(backlinkProfiles).omit({
@@ -227,6 +721,57 @@ export const insertOutgoingLinkSchema = createInsertSchema(outgoingLinks).omit({
   lastChecked: true,
 });
 
+export const backlinkScanFrequencySchema = z.enum(['daily', 'weekly', 'monthly']);
+export const outgoingLinkStatusSchema = z.enum(['active', 'broken', 'redirected']);
+export const linkRelSchema = z.enum(['dofollow', 'nofollow', 'sponsored', 'ugc']);
+export const linkPositionSchema = z.enum(['header', 'body', 'footer']);
+
+// Site whose outbound links are scanned on its scan frequency
+export const createBacklinkProfileSchema = z.object({
+  url: z.string().url(),
+  projectId: z.number().int().positive().nullable().optional(),
+  scanFrequency: backlinkScanFrequencySchema.default('weekly'),
+  emailAlerts: z.boolean().default(false),
+});
+
+export const backlinkImportFormatSchema = z.enum(['gsc', 'ahrefs', 'semrush']);
+
+// CSV export from a backlink tool, imported into a profile's backlinks
+export const backlinkImportSchema = z.object({
+  format: backlinkImportFormatSchema,
+  csv: z.string().min(1),
+});
+
+export const backlinkImportResultSchema = z.object({
+  format: backlinkImportFormatSchema,
+  rowsRead: z.number(),
+  imported: z.number(), // distinct source/target pairs
+  skipped: z.number(), // rows without a usable source URL or not linking to the profile's site
+  newBacklinks: z.number(),
+  lostBacklinks: z.number(),
+  totalBacklinks: z.number(),
+});
+
+// Broken outbound links of a profile, one entry per target with the pages linking to it
+export const brokenOutboundLinkReportSchema = z.object({
+  profileId: z.number(),
+  domain: z.string(),
+  lastScanAt: z.string().nullable(),
+  totalOutgoingLinks: z.number(),
+  brokenLinks: z.array(z.object({
+    targetUrl: z.string(),
+    targetDomain: z.string(),
+    statusCode: z.number().nullable(),
+    lastChecked: z.string(),
+    sources: z.array(z.object({
+      sourceUrl: z.string(),
+      anchorText: z.string().nullable(),
+      rel: linkRelSchema,
+      linkPosition: linkPositionSchema.nullable(),
+    })),
+  })),
+});
+
 // Types
 export type InsertAnalysis = z.infer<typeof insertAnalysisSchema>;
 export type Analysis = typeof analyses.$inferSelect;
@@ -234,11 +779,53 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type LoginCredentials = z.infer<typeof loginUserSchema>;
 export type User = typeof users.$inferSelect;
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
+export type WorkspaceRole = z.infer<typeof workspaceRoleSchema>;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type WorkspaceInvitationInput = z.infer<typeof workspaceInvitationInputSchema>;
+export type WorkspaceSummary = z.infer<typeof workspaceSummarySchema>;
+export type WorkspaceMemberDetails = z.infer<typeof workspaceMemberDetailsSchema>;
+export type WorkspaceInvitationDetails = z.infer<typeof workspaceInvitationDetailsSchema>;
+export type WorkspaceInvitationResult = z.infer<typeof workspaceInvitationResultSchema>;
+export type UserSession = typeof userSessions.$inferSelect;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type AccountLockout = typeof accountLockouts.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type ActiveSession = z.infer<typeof activeSessionSchema>;
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type ApiKeySummary = z.infer<typeof apiKeySummarySchema>;
+export type ApiKeyCreated = z.infer<typeof apiKeyCreatedSchema>;
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+export type WebhookSummary = z.infer<typeof webhookSummarySchema>;
+export type WebhookCreated = z.infer<typeof webhookCreatedSchema>;
+export type WebhookDeliverySummary = z.infer<typeof webhookDeliverySummarySchema>;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type UpdateProject = z.infer<typeof updateProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertProjectAnalysis = z.infer<typeof insertProjectAnalysisSchema>;
 export type ProjectAnalysis = typeof projectAnalyses.$inferSelect;
+export type AnalysisBatch = typeof analysisBatches.$inferSelect;
+export type AnalysisBatchPage = typeof analysisBatchPages.$inferSelect;
+export type CreateAnalysisBatch = z.infer<typeof createAnalysisBatchSchema>;
+export type AnalysisBatchRow = z.infer<typeof analysisBatchRowSchema>;
+export type AnalysisBatchReport = z.infer<typeof analysisBatchReportSchema>;
+export type SearchPerformanceRow = typeof searchPerformance.$inferSelect;
+export type InsertSearchPerformanceRow = typeof searchPerformance.$inferInsert;
+export type SearchPerformanceImport = z.infer<typeof searchPerformanceImportSchema>;
+export type SearchPerformanceImportResult = z.infer<typeof searchPerformanceImportResultSchema>;
+export type SearchPerformanceSummary = z.infer<typeof searchPerformanceSummarySchema>;
+export type PageSearchPerformance = z.infer<typeof pageSearchPerformanceSchema>;
+export type CtrOpportunity = z.infer<typeof ctrOpportunitySchema>;
 export type AnonChatUsage = typeof anonChatUsage.$inferSelect;
 export type BacklinkProfile = typeof backlinkProfiles.$inferSelect;
 export type InsertBacklinkProfile = z.infer<typeof insertBacklinkProfileSchema>;
@@ -247,6 +834,15 @@ export type InsertBacklink = z.infer<typeof insertBacklinkSchema>;
 export type OutgoingLink = typeof outgoingLinks.$inferSelect;
 export type InsertOutgoingLink = z.infer<typeof insertOutgoingLinkSchema>;
 export type BacklinkHistory = typeof backlinkHistory.$inferSelect;
+export type BacklinkScanFrequency = z.infer<typeof backlinkScanFrequencySchema>;
+export type OutgoingLinkStatus = z.infer<typeof outgoingLinkStatusSchema>;
+export type LinkRel = z.infer<typeof linkRelSchema>;
+export type LinkPosition = z.infer<typeof linkPositionSchema>;
+export type CreateBacklinkProfile = z.infer<typeof createBacklinkProfileSchema>;
+export type BrokenOutboundLinkReport = z.infer<typeof brokenOutboundLinkReportSchema>;
+export type BacklinkImportFormat = z.infer<typeof backlinkImportFormatSchema>;
+export type BacklinkImport = z.infer<typeof backlinkImportSchema>;
+export type BacklinkImportResult = z.infer<typeof backlinkImportResultSchema>;
 export type ApiUsage = typeof apiUsage.$inferSelect;
 export type InsertApiUsage = typeof apiUsage.$inferInsert;
 
@@ -607,6 +1203,8 @@ export const enhancedAuditItemSchema = z.object({
   pageUrl: z.string().optional(), // URL of the specific page where this issue was found
   pageTitle: z.string().optional(), // Title of the specific page for better identification
   pageType: z.string().optional(), // Type of page (homepage, contact, service, location, etc.)
+  impressions: z.number().optional(), // Search Console impressions of the page, when imported for the project
+  impressionImpact: z.number().optional(), // impressions weighted by the item's status and importance
   analysisDetails: z.object({
     actual: z.union([z.string(), z.number(), z.boolean()]).optional(),
     expected: z.union([z.string(), z.number(), z.boolean()]).optional(),
@@ -713,6 +1311,8 @@ export const pageIssueSummarySchema = z.object({
   totalIssues: z.number(),
   score: z.number().min(0).max(100).optional(),
   weightedScore: z.number().min(0).max(100).optional(), // Score after priority weighting
+  impressions: z.number().optional(), // Search Console impressions, when imported for the project
+  clicks: z.number().optional(),
   topIssues: z.array(z.object({
     name: z.string(),
     status: auditStatusSchema,
@@ -721,6 +1321,72 @@ export const pageIssueSummarySchema = z.object({
   })).optional() // Top 3 most critical issues for quick reference
 });
 
+// Depth of a service, location or service area page's content, kept for comparisons with competitors' pages
+export const contentDepthPageSchema = z.object({
+  pageUrl: z.string(),
+  pageTitle: z.string(),
+  pageType: z.enum(['service', 'location', 'serviceArea']),
+  h1: z.string().nullable(),
+  wordCount: z.number(),
+  headingCount: z.number(), // H2 and H3 headings
+  imageCount: z.number(),
+  hasSchema: z.boolean()
+});
+
+// Pages sharing near-identical body text or the same title, meta description or H1
+export const duplicateContentClusterSchema = z.object({
+  type: z.enum(['content', 'title', 'metaDescription', 'h1']),
+  value: z.string().optional(), // the shared title, meta description or H1
+  similarity: z.number().min(0).max(1).optional(), // near-duplicate body text only
+  pages: z.array(z.object({
+    url: z.string(),
+    pageType: z.string()
+  }))
+});
+
+export const duplicateContentSummarySchema = z.object({
+  clusters: z.array(duplicateContentClusterSchema),
+  pagesCompared: z.number()
+});
+
+// Crawled pages competing for the same primary keyword and intent
+export const keywordCannibalizationGroupSchema = z.object({
+  keyword: z.string(), // the shared primary keyword
+  canonicalUrl: z.string(), // the suggested page to rank for the keyword
+  pages: z.array(z.object({
+    url: z.string(),
+    pageType: z.string(),
+    primaryKeyword: z.string(),
+    secondaryKeywords: z.array(z.string())
+  }))
+});
+
+export const keywordCannibalizationSummarySchema = z.object({
+  groups: z.array(keywordCannibalizationGroupSchema),
+  pagesAnalyzed: z.number()
+});
+
+// Internal link graph summary for service and location pages
+export const internalLinkingSummarySchema = z.object({
+  pages: z.array(z.object({
+    url: z.string(),
+    title: z.string(),
+    pageType: z.string(), // service, location, serviceArea
+    inDegree: z.number(), // crawled pages linking to this page
+    outDegree: z.number(),
+    clickDepth: z.number().nullable(), // null when not reachable from the homepage
+    authority: z.number().min(0).max(100), // internal PageRank relative to the strongest page
+    starved: z.boolean()
+  })),
+  starvedPageCount: z.number(),
+  orphanPages: z.array(z.string()), // sitemap URLs no crawled page links to (first 50)
+  orphanPageCount: z.number(),
+  deadEndPages: z.array(z.string()), // first 50
+  deadEndPageCount: z.number(),
+  maxClickDepth: z.number(),
+  averageInDegree: z.number()
+});
+
 // Enhanced rival audit schema with 140+ factors
 export const enhancedRivalAuditSchema = z.object({
   url: z.string(),
@@ -782,6 +1448,10 @@ export const enhancedRivalAuditSchema = z.object({
     }).optional()
   }),
   pageIssues: z.array(pageIssueSummarySchema).optional(), // Page-specific issue summaries
+  internalLinking: internalLinkingSummarySchema.optional(), // Link graph results for service and location pages
+  duplicateContent: duplicateContentSummarySchema.optional(), // Duplicate and near-duplicate page clusters
+  keywordCannibalization: keywordCannibalizationSummarySchema.optional(), // Pages competing for the same keyword
+  contentDepth: z.array(contentDepthPageSchema).optional(), // Service and location page content for competitor comparisons
   analysisMetadata: z.object({
     analysisVersion: z.string().default("2.0"),
     factorCount: z.number(),
@@ -790,11 +1460,125 @@ export const enhancedRivalAuditSchema = z.object({
       pagesCrawled: z.number(),
       pagesSkipped: z.number(),
       errorsEncountered: z.number(),
-      crawlTime: z.number()
+      crawlTime: z.number(),
+      pagesSkippedByRobots: z.number().optional(),
+      robots: z.object({
+        status: z.enum(['found', 'not_found', 'unreachable', 'ignored']),
+        respected: z.boolean(), // false when the client authorized ignoring robots.txt
+        crawlDelayMs: z.number(),
+        skippedCount: z.number(),
+        skippedUrls: z.array(z.string())
+      }).optional()
     }).optional()
   }).optional()
 });
 
+// Audit-to-audit comparison (regression report between two audits of the same site)
+export const auditItemChangeSchema = z.object({
+  name: z.string(),
+  category: z.string(),
+  pageUrl: z.string().optional(),
+  importance: seoImportanceSchema.optional(),
+  previousStatus: auditStatusSchema.nullable(), // null when the item is new
+  currentStatus: auditStatusSchema.nullable(), // null when the item no longer appears
+  direction: z.enum(['improved', 'regressed', 'changed'])
+});
+
+export const scoreDeltaSchema = z.object({
+  previous: z.number().nullable(),
+  current: z.number().nullable(),
+  delta: z.number().nullable()
+});
+
+export const auditComparisonSchema = z.object({
+  url: z.string(),
+  baseline: z.object({
+    auditId: z.number(),
+    completedAt: z.string().nullable()
+  }),
+  current: z.object({
+    auditId: z.number(),
+    completedAt: z.string().nullable()
+  }),
+  scores: z.object({
+    overallScore: scoreDeltaSchema,
+    weightedOverallScore: scoreDeltaSchema,
+    categoryScores: z.record(z.string(), scoreDeltaSchema)
+  }),
+  counts: z.object({
+    priorityOfiCount: scoreDeltaSchema,
+    ofiCount: scoreDeltaSchema,
+    okCount: scoreDeltaSchema,
+    naCount: scoreDeltaSchema
+  }),
+  newPriorityOfis: z.array(auditItemChangeSchema),
+  resolvedItems: z.array(auditItemChangeSchema),
+  statusChanges: z.array(auditItemChangeSchema),
+  addedItems: z.array(auditItemChangeSchema),
+  removedItems: z.array(auditItemChangeSchema),
+  unchangedCount: z.number()
+});
+
+// Head-to-head audit of a site against up to three named competitors
+export const createCompetitorComparisonSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  url: z.string().trim().min(1),
+  competitorUrls: z.array(z.string().trim().min(1)).min(1).max(3),
+  projectId: z.number().int().optional(),
+  ignoreRobots: z.boolean().default(false) // the client's site only; competitors' robots.txt is always respected
+});
+
+// One audit factor across the compared sites; statuses and pass rates follow the order of the sites
+export const competitorGapFactorSchema = z.object({
+  category: z.string(),
+  name: z.string(),
+  importance: seoImportanceSchema.optional(),
+  statuses: z.array(auditStatusSchema.nullable()), // worst status over the site's pages; null when not assessed
+  passRates: z.array(z.number().nullable()), // percentage of the site's assessed pages that pass
+  gap: z.boolean() // a competitor passes where the client's site fails
+});
+
+// Matching service or location pages of the compared sites
+export const competitorContentDepthRowSchema = z.object({
+  pageType: z.enum(['service', 'location']),
+  topic: z.string(),
+  pages: z.array(contentDepthPageSchema.nullable()), // one entry per site, null when the site has no such page
+  wordCountGap: z.number().nullable(), // words the deepest competitor page has over the client's page
+  behind: z.boolean() // the client's page is missing or much thinner than a competitor's
+});
+
+export const competitorScorecardRowSchema = z.object({
+  metric: z.string(),
+  values: z.array(z.number().nullable()),
+  higherIsBetter: z.boolean()
+});
+
+export const competitorGapReportSchema = z.object({
+  scorecard: z.array(competitorScorecardRowSchema),
+  factors: z.array(competitorGapFactorSchema),
+  contentDepth: z.array(competitorContentDepthRowSchema)
+});
+
+// A comparison with the progress of each site's audit; the report is null until every audit has finished
+export const competitorComparisonDetailSchema = z.object({
+  comparison: z.object({
+    id: z.number(),
+    name: z.string().nullable(),
+    status: z.string(),
+    createdAt: z.string(),
+    completedAt: z.string().nullable()
+  }),
+  sites: z.array(z.object({
+    auditId: z.number(),
+    url: z.string(),
+    isCompetitor: z.boolean(),
+    status: z.string(),
+    pagesAnalyzed: z.number(),
+    errorMessage: z.string().nullable()
+  })),
+  report: competitorGapReportSchema.nullable()
+});
+
 // Meta information about the competitor search
 export const competitorMetaSchema = z.object({
   totalResults: z.number(),
@@ -857,6 +1641,11 @@ export type AuditItem = z.infer<typeof auditItemSchema>;
 export type EnhancedAuditItem = z.infer<typeof enhancedAuditItemSchema>;
 export type PagePriority = z.infer<typeof pagePrioritySchema>;
 export type PageIssueSummary = z.infer<typeof pageIssueSummarySchema>;
+export type InternalLinkingSummary = z.infer<typeof internalLinkingSummarySchema>;
+export type DuplicateContentCluster = z.infer<typeof duplicateContentClusterSchema>;
+export type DuplicateContentSummary = z.infer<typeof duplicateContentSummarySchema>;
+export type KeywordCannibalizationGroup = z.infer<typeof keywordCannibalizationGroupSchema>;
+export type KeywordCannibalizationSummary = z.infer<typeof keywordCannibalizationSummarySchema>;
 export type OnPageAudit = z.infer<typeof onPageAuditSchema>;
 export type StructureNavigationAudit = z.infer<typeof structureNavigationAuditSchema>;
 export type ContactPageAudit = z.infer<typeof contactPageAuditSchema>;
@@ -865,6 +1654,9 @@ export type LocationPagesAudit = z.infer<typeof locationPagesAuditSchema>;
 export type ServiceAreaPagesAudit = z.infer<typeof serviceAreaPagesAuditSchema>;
 export type RivalAudit = z.infer<typeof rivalAuditSchema>;
 export type EnhancedRivalAudit = z.infer<typeof enhancedRivalAuditSchema>;
+export type AuditItemChange = z.infer<typeof auditItemChangeSchema>;
+export type ScoreDelta = z.infer<typeof scoreDeltaSchema>;
+export type AuditComparison = z.infer<typeof auditComparisonSchema>;
 export type EnhancedOnPageAudit = z.infer<typeof enhancedOnPageAuditSchema>;
 export type EnhancedStructureNavigationAudit = z.infer<typeof enhancedStructureNavigationAuditSchema>;
 export type EnhancedContactPageAudit = z.infer<typeof enhancedContactPageAuditSchema>;
@@ -876,6 +1668,7 @@ export type EnhancedServiceAreaPagesAudit = z.infer<typeof enhancedServiceAreaPa
 export const keywords = pgTable("keywords", {
   id: serial("id").primaryKey(),
   userId: text("user_id").references(() => users.id).notNull(),
+  workspaceId: integer("workspace_id").references(() => workspaces.id),
   projectId: integer("project_id").references(() => projects.id),
   keyword: text("keyword").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -883,6 +1676,10 @@ export const keywords = pgTable("keywords", {
   targetUrl: text("target_url").notNull(),
   isActive: boolean("is_active").default(true).notNull(),
   notes: text("notes"),
+  devices: jsonb("devices").$type<string[]>().default(['desktop']).notNull(), // devices the rank check searches from
+  locations: jsonb("locations").$type<string[]>().default(['us']).notNull(), // country codes the rank check searches in
+  competitorDomains: jsonb("competitor_domains").$type<string[]>().default([]).notNull(),
+  lastCheckedAt: timestamp("last_checked_at"), // last daily rank check
 }, (table) => {
   return [
     unique().on(table.userId, table.keyword, table.targetUrl)
@@ -912,11 +1709,13 @@ export const keywordRankings = pgTable("keyword_rankings", {
   searchEngine: text("search_engine").default("google").notNull(), // google, bing, etc.
   device: text("device").default("desktop").notNull(), // desktop, mobile
   location: text("location").default("us").notNull(), // Country or region code
-  serp: jsonb("serp"), // SERP features and snippets
+  serp: jsonb("serp").$type<SerpFeatures>(), // SERP features and snippets
   localRank: integer("local_rank"), // Position in local pack if applicable
 }, (table) => {
   return [
-    index("idx_ranking_keyword_date").on(table.keywordId, table.rankDate)
+    index("idx_ranking_keyword_date").on(table.keywordId, table.rankDate),
+    // One result per keyword, day, device and location; re-checks replace it
+    uniqueIndex("unique_ranking_keyword_day").on(table.keywordId, table.rankDate, table.searchEngine, table.device, table.location)
   ];
 });
 
@@ -931,7 +1730,8 @@ export const competitorRankings = pgTable("competitor_rankings", {
   location: text("location").default("us").notNull(),
 }, (table) => {
   return [
-    index("idx_competitor_keyword_date").on(table.keywordId, table.competitorUrl, table.rankDate)
+    index("idx_competitor_keyword_date").on(table.keywordId, table.competitorUrl, table.rankDate),
+    uniqueIndex("unique_competitor_ranking_day").on(table.keywordId, table.competitorUrl, table.rankDate, table.searchEngine, table.device, table.location)
   ];
 });
 
@@ -947,6 +1747,24 @@ export const keywordSuggestions = pgTable("keyword_suggestions", {
   saved: boolean("saved").default(false).notNull(),
 });
 
+// Keyword metrics imported from a keyword tool export such as Google Ads Keyword Planner.
+// The local keyword data provider reads from here when DataForSEO is not used.
+export const keywordDataset = pgTable("keyword_dataset", {
+  id: serial("id").primaryKey(),
+  keyword: text("keyword").notNull(), // lowercase
+  location: text("location").default("us").notNull(), // country code the metrics are for
+  searchVolume: integer("search_volume"), // average monthly searches
+  competition: integer("competition"), // 0-100 index
+  cpc: real("cpc"), // top of page bid
+  monthlySearches: jsonb("monthly_searches").$type<number[]>(), // oldest month first
+  source: text("source").default("csv").notNull(), // csv, json
+  importedAt: timestamp("imported_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    uniqueIndex("unique_keyword_dataset_entry").on(table.keyword, table.location)
+  ];
+});
+
 // Insert schemas for keyword tracking
 export const insertKeywordSchema = createInsertSchema(keywords).omit({
   id: true,
@@ -954,6 +1772,163 @@ export const insertKeywordSchema = createInsertSchema(keywords).omit({
   updatedAt: true,
 });
 
+export const rankDeviceSchema = z.enum(['desktop', 'mobile']);
+export const rankLocationSchema = z.enum(['us', 'gb', 'ca', 'au', 'nz', 'ie']);
+
+// Keywords added to a project's rank tracker
+export const trackKeywordSchema = createInsertSchema(keywords, {
+  keyword: z.string().trim().min(1).max(200),
+  targetUrl: z.string().trim().min(1).max(500), // domain or URL whose position is tracked
+  projectId: z.number().int(),
+  devices: z.array(rankDeviceSchema).min(1).optional(),
+  locations: z.array(rankLocationSchema).min(1).optional(),
+  competitorDomains: z.array(z.string().trim().min(1).max(255)).max(10).optional()
+}).omit({
+  id: true,
+  userId: true,
+  lastCheckedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Rank tracker responses. `change` is previousRank - rank: positive means the keyword moved up.
+export const rankPositionSchema = z.object({
+  device: z.string(),
+  location: z.string(),
+  rank: z.number().nullable(),
+  previousRank: z.number().nullable(),
+  change: z.number().nullable(),
+  rankingUrl: z.string().nullable(),
+  localRank: z.number().nullable(), // position in the map pack
+  rankDate: z.string()
+});
+
+export const rankHistorySeriesSchema = z.object({
+  device: z.string(),
+  location: z.string(),
+  points: z.array(z.object({
+    date: z.string(),
+    rank: z.number().nullable(),
+    change: z.number().nullable(),
+    rankingUrl: z.string().nullable(),
+    localRank: z.number().nullable()
+  })),
+  competitors: z.array(z.object({
+    domain: z.string(),
+    points: z.array(z.object({ date: z.string(), rank: z.number().nullable() }))
+  }))
+});
+
+export const rankHistorySchema = z.object({
+  keywordId: z.number(),
+  keyword: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  series: z.array(rankHistorySeriesSchema)
+});
+
+// SERP features found by a rank check. Domains are normalized (no protocol or www).
+export const serpFeaturesSchema = z.object({
+  localPack: z.array(z.object({
+    position: z.number(),
+    title: z.string(), // business name
+    domain: z.string().nullable(), // business website, when listed
+    rating: z.number().nullable(),
+    reviewCount: z.number().nullable()
+  })),
+  featuredSnippet: z.object({
+    domain: z.string(),
+    url: z.string(),
+    title: z.string().nullable()
+  }).nullable(),
+  peopleAlsoAsk: z.array(z.object({
+    question: z.string(),
+    answerDomain: z.string().nullable() // site quoted in the expanded answer
+  })),
+  // Organic results shown with review stars or with site links
+  reviews: z.array(z.object({
+    domain: z.string(),
+    position: z.number(),
+    rating: z.number(),
+    reviewCount: z.number().nullable()
+  })),
+  sitelinks: z.array(z.object({
+    domain: z.string(),
+    position: z.number(),
+    links: z.number()
+  }))
+});
+
+export const serpFeatureTypeSchema = z.enum(['localPack', 'featuredSnippet', 'peopleAlsoAsk', 'reviews', 'sitelinks']);
+
+// Who holds a SERP feature: the client's site and/or the keyword's tracked competitors
+export const serpFeatureOwnershipSchema = z.object({
+  feature: serpFeatureTypeSchema,
+  present: z.boolean(), // the feature was on the results page
+  ownedByClient: z.boolean(),
+  competitors: z.array(z.string()) // tracked competitor domains holding it
+});
+
+// SERP features of a keyword's latest check on a device and location
+export const serpFeatureReportRowSchema = z.object({
+  keywordId: z.number(),
+  keyword: z.string(),
+  device: z.string(),
+  location: z.string(),
+  rankDate: z.string(),
+  rank: z.number().nullable(),
+  localRank: z.number().nullable(),
+  features: z.array(serpFeatureOwnershipSchema),
+  localPack: serpFeaturesSchema.shape.localPack,
+  peopleAlsoAsk: z.array(z.string())
+});
+
+// Keyword data responses. `source` says where the numbers come from; `isEstimated`
+// is set for simulated numbers, which the UI labels as such.
+export const keywordDataSourceSchema = z.enum(['dataforseo', 'dataset', 'simulated']);
+
+export const relatedKeywordDataSchema = z.object({
+  keyword: z.string(),
+  searchVolume: z.number().optional(),
+  difficulty: z.number().optional(),
+  cpc: z.string().optional(),
+  relevance: z.number().optional()
+});
+
+export const keywordDataResultSchema = z.object({
+  keyword: z.string(),
+  searchVolume: z.number().optional(),
+  difficulty: z.number().optional(),
+  cpc: z.string().optional(),
+  competition: z.number().optional(),
+  trend: z.array(z.number()).optional(),
+  relatedKeywords: z.array(relatedKeywordDataSchema).optional(),
+  source: keywordDataSourceSchema,
+  isEstimated: z.boolean(),
+  error: z.string().optional()
+});
+
+export const keywordSuggestionsResultSchema = z.object({
+  keyword: z.string(),
+  suggestions: z.array(relatedKeywordDataSchema),
+  source: keywordDataSourceSchema,
+  isEstimated: z.boolean()
+});
+
+// Keyword dataset import: a CSV export (e.g. Keyword Planner) or a JSON array of keywords
+export const keywordDatasetImportSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1),
+  location: rankLocationSchema.default('us')
+});
+
+export const keywordDatasetImportResultSchema = z.object({
+  rowsRead: z.number(),
+  imported: z.number(),
+  skipped: z.number(), // rows without a keyword
+  totalKeywords: z.number() // keywords in the dataset for the location after the import
+});
+
 export const insertKeywordMetricsSchema = createInsertSchema(keywordMetrics).omit({
   id: true,
   lastUpdated: true,
@@ -977,6 +1952,16 @@ export const insertKeywordSuggestionSchema = createInsertSchema(keywordSuggestio
 // Keyword tracking types
 export type Keyword = typeof keywords.$inferSelect;
 export type InsertKeyword = z.infer<typeof insertKeywordSchema>;
+export type TrackKeyword = z.infer<typeof trackKeywordSchema>;
+export type RankDevice = z.infer<typeof rankDeviceSchema>;
+export type RankLocation = z.infer<typeof rankLocationSchema>;
+export type RankPosition = z.infer<typeof rankPositionSchema>;
+export type RankHistorySeries = z.infer<typeof rankHistorySeriesSchema>;
+export type RankHistory = z.infer<typeof rankHistorySchema>;
+export type SerpFeatures = z.infer<typeof serpFeaturesSchema>;
+export type SerpFeatureType = z.infer<typeof serpFeatureTypeSchema>;
+export type SerpFeatureOwnership = z.infer<typeof serpFeatureOwnershipSchema>;
+export type SerpFeatureReportRow = z.infer<typeof serpFeatureReportRowSchema>;
 export type KeywordMetrics = typeof keywordMetrics.$inferSelect;
 export type InsertKeywordMetrics = z.infer<typeof insertKeywordMetricsSchema>;
 export type KeywordRanking = typeof keywordRankings.$inferSelect;
@@ -985,6 +1970,14 @@ export type CompetitorRanking = typeof competitorRankings.$inferSelect;
 export type InsertCompetitorRanking = z.infer<typeof insertCompetitorRankingSchema>;
 export type KeywordSuggestion = typeof keywordSuggestions.$inferSelect;
 export type InsertKeywordSuggestion = z.infer<typeof insertKeywordSuggestionSchema>;
+export type KeywordDatasetEntry = typeof keywordDataset.$inferSelect;
+export type InsertKeywordDatasetEntry = typeof keywordDataset.$inferInsert;
+export type KeywordDataSource = z.infer<typeof keywordDataSourceSchema>;
+export type RelatedKeywordData = z.infer<typeof relatedKeywordDataSchema>;
+export type KeywordDataResult = z.infer<typeof keywordDataResultSchema>;
+export type KeywordSuggestionsResult = z.infer<typeof keywordSuggestionsResultSchema>;
+export type KeywordDatasetImport = z.infer<typeof keywordDatasetImportSchema>;
+export type KeywordDatasetImportResult = z.infer<typeof keywordDatasetImportResultSchema>;
 
 // SEO Learning Path Tables
 export const learningModules = pgTable("learning_modules", {
@@ -1191,9 +2184,19 @@ export const crawlJobs = pgTable("crawl_jobs", {
   successCount: integer("success_count").default(0).notNull(),
   errorCount: integer("error_count").default(0).notNull(),
   averageDuration: integer("average_duration").default(0).notNull(), // milliseconds
+  // Queue state for one-off jobs such as rival audits (scheduled jobs stay "scheduled")
+  status: text("status").default("scheduled").notNull(), // scheduled, queued, processing, completed, failed, cancelled
+  lockedBy: text("locked_by"), // worker id holding the job
+  lockedAt: timestamp("locked_at"), // last worker heartbeat
+  lastError: text("last_error"),
+  cancelRequested: boolean("cancel_requested").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   createdBy: text("created_by").references(() => users.id),
+}, (table) => {
+  return [
+    index("idx_crawl_jobs_queue").on(table.type, table.status, table.nextRun)
+  ];
 });
 
 export const crawledContent = pgTable("crawled_content", {
@@ -1304,18 +2307,21 @@ export const dataQualityReports = pgTable("data_quality_reports", {
 export const rivalAudits = pgTable("rival_audits", {
   id: serial("id").primaryKey(),
   userId: text("user_id").references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // shared with the workspace's members when set
   url: text("url").notNull(),
-  status: text("status").notNull(), // pending, processing, completed, failed
+  status: text("status").notNull(), // pending, processing, completed, failed, cancelled
   results: jsonb("results"), // complete audit results
   summary: jsonb("summary"), // summary counts and metrics
   crawlJobId: text("crawl_job_id").references(() => crawlJobs.id),
+  projectId: integer("project_id").references(() => projects.id), // set for scheduled project audits
+  scheduleId: integer("schedule_id").references((): AnyPgColumn => projectAuditSchedules.id),
   pagesAnalyzed: integer("pages_analyzed").default(0).notNull(),
   reachedMaxPages: boolean("reached_max_pages").default(false).notNull(),
   errorMessage: text("error_message"),
   metadata: jsonb("metadata"), // additional audit metadata
   startedAt: timestamp("started_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
-  expiresAt: timestamp("expires_at").notNull(), // for automatic cleanup
+  expiresAt: timestamp("expires_at"), // for automatic cleanup; null keeps the audit as project history
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => {
@@ -1325,7 +2331,86 @@ export const rivalAudits = pgTable("rival_audits", {
     index("idx_rival_audits_status").on(table.status),
     index("idx_rival_audits_expires").on(table.expiresAt),
     index("idx_rival_audits_created").on(table.createdAt),
-    unique("unique_user_url_active").on(table.userId, table.url, table.status)
+    index("idx_rival_audits_project").on(table.projectId, table.createdAt),
+    index("idx_rival_audits_workspace").on(table.workspaceId, table.createdAt),
+    // One running audit per user and URL; finished audits are kept as history
+    uniqueIndex("unique_user_url_active")
+      .on(table.userId, table.url)
+      .where(sql`${table.status} in ('pending', 'processing')`)
+  ];
+});
+
+// Recurring enhanced audits of a project's site
+export const projectAuditSchedules = pgTable("project_audit_schedules", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id),
+  url: text("url").notNull(),
+  frequency: text("frequency").notNull(), // weekly, monthly
+  isActive: boolean("is_active").default(true).notNull(),
+  ignoreRobots: boolean("ignore_robots").default(false).notNull(), // site owner authorized crawling past robots.txt
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastAuditId: integer("last_audit_id"),
+  alertRecipients: jsonb("alert_recipients").$type<string[]>().default([]).notNull(), // emails for regression alerts
+  createdBy: text("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_audit_schedules_due").on(table.isActive, table.nextRunAt),
+    index("idx_audit_schedules_project").on(table.projectId)
+  ];
+});
+
+// Agency-defined checks evaluated alongside the built-in audit factors
+export const customAuditRules = pgTable("custom_audit_rules", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  projectId: integer("project_id").references(() => projects.id), // null applies the rule to all of the user's audits
+  name: text("name").notNull(),
+  description: text("description"),
+  category: text("category").default("technicalSEO").notNull(), // contentQuality, technicalSEO, localSEO, uxPerformance
+  pageTypes: jsonb("page_types").$type<string[]>().default([]).notNull(), // empty applies the rule to every page
+  conditions: jsonb("conditions").$type<CustomRuleCondition[]>().notNull(), // every condition must pass
+  failStatus: text("fail_status").default("OFI").notNull(), // OFI, Priority OFI
+  importance: text("importance").default("Medium").notNull(), // High, Medium, Low
+  notes: text("notes"), // guidance shown on failing pages
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_custom_audit_rules_owner").on(table.userId, table.projectId)
+  ];
+});
+
+// Rival audits added to a project by hand; scheduled audits carry the project in rival_audits.project_id
+export const projectAudits = pgTable("project_audits", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id),
+  auditId: integer("audit_id").notNull().references(() => rivalAudits.id),
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    uniqueIndex("unique_project_audit").on(table.projectId, table.auditId)
+  ];
+});
+
+// A client's site audited side by side with named competitors; the audits are kept while the comparison exists
+export const competitorComparisons = pgTable("competitor_comparisons", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  projectId: integer("project_id").references(() => projects.id),
+  name: text("name"),
+  siteAuditId: integer("site_audit_id").notNull().references(() => rivalAudits.id),
+  competitorAuditIds: jsonb("competitor_audit_ids").$type<number[]>().notNull(),
+  status: text("status").default("pending").notNull(), // pending, completed, failed
+  report: jsonb("report").$type<CompetitorGapReport>(), // built once every audit has finished
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => {
+  return [
+    index("idx_competitor_comparisons_user").on(table.userId, table.createdAt)
   ];
 });
 
@@ -1348,6 +2433,10 @@ export const insertCrawlJobSchema = createInsertSchema(crawlJobs).omit({
   successCount: true,
   errorCount: true,
   averageDuration: true,
+  lockedBy: true,
+  lockedAt: true,
+  lastError: true,
+  cancelRequested: true,
 });
 
 export const insertCrawledContentSchema = createInsertSchema(crawledContent).omit({
@@ -1378,6 +2467,190 @@ export const insertRivalAuditSchema = createInsertSchema(rivalAudits).omit({
   startedAt: true,
 });
 
+export const auditScheduleFrequencySchema = z.enum(['weekly', 'monthly']);
+
+export const insertProjectAuditScheduleSchema = createInsertSchema(projectAuditSchedules, {
+  url: z.string().url(),
+  frequency: auditScheduleFrequencySchema,
+  alertRecipients: z.array(z.string().email()).optional()
+}).omit({
+  id: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  lastAuditId: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const customRulePageTypeSchema = z.enum(['homepage', 'contact', 'service', 'location', 'serviceArea', 'other']);
+export const customRuleCategorySchema = z.enum(['contentQuality', 'technicalSEO', 'localSEO', 'uxPerformance']);
+
+const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Rejects the constructs behind catastrophic backtracking: backreferences and
+// groups repeated without bound that contain a quantifier or alternation, e.g. (a+)+ or (a|ab)*
+const isSafeRegex = (pattern: string) => {
+  const groups: Array<{ hasQuantifier: boolean; hasAlternation: boolean }> = [{ hasQuantifier: false, hasAlternation: false }];
+  let closedGroup: { hasQuantifier: boolean; hasAlternation: boolean } | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const current = groups[groups.length - 1];
+    const quantifier = pattern.slice(i).match(/^(\*|\+|\?|\{\d+(,\d*)?\})/);
+
+    if (quantifier) {
+      const unbounded = quantifier[0] === '*' || quantifier[0] === '+' || /^\{\d+,\}$/.test(quantifier[0]);
+      if (unbounded && closedGroup && (closedGroup.hasQuantifier || closedGroup.hasAlternation)) {
+        return false;
+      }
+      current.hasQuantifier = true;
+      i += quantifier[0].length - 1;
+      closedGroup = null;
+      continue;
+    }
+
+    closedGroup = null;
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) return false;
+      i++;
+    } else if (char === '[') {
+      // Skip the character class
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      // Skip the (?: (?= (?! (?<= (?<! and (?<name> prefixes
+      i += (pattern.slice(i).match(/^\(\?(:|=|!|<=|<!|<[^>]*>)/)?.[0].length || 1) - 1;
+      groups.push({ hasQuantifier: false, hasAlternation: false });
+    } else if (char === ')' && groups.length > 1) {
+      closedGroup = groups.pop()!;
+      const parent = groups[groups.length - 1];
+      parent.hasQuantifier ||= closedGroup.hasQuantifier;
+      parent.hasAlternation ||= closedGroup.hasAlternation;
+    } else if (char === '|') {
+      current.hasAlternation = true;
+    }
+  }
+
+  return true;
+};
+
+// A single check of a custom rule; a page passes the rule when all of its conditions pass
+export const customRuleConditionSchema = z.discriminatedUnion('type', [
+  // Elements matching a CSS selector, e.g. header a[href^="tel:"]
+  z.object({
+    type: z.literal('selector'),
+    selector: z.string().min(1).max(500),
+    minCount: z.number().int().min(0).default(1),
+    maxCount: z.number().int().min(0).optional()
+  }),
+  // Regular expression tested against the page's visible text
+  z.object({
+    type: z.literal('bodyText'),
+    pattern: z.string().min(1).max(500)
+      .refine(isValidRegex, 'Invalid regular expression')
+      .refine(isSafeRegex, 'Nested repetition and backreferences are not supported, as they can make the pattern too slow'),
+    flags: z.string().regex(/^[imsu]*$/, 'Only the i, m, s and u flags are supported').default('i'),
+    shouldMatch: z.boolean().default(true)
+  }),
+  // Structured data type present in JSON-LD or microdata, e.g. FAQPage
+  z.object({
+    type: z.literal('schemaType'),
+    schemaType: z.string().min(1).max(100),
+    shouldExist: z.boolean().default(true)
+  }),
+  z.object({
+    type: z.literal('wordCount'),
+    min: z.number().int().min(0).optional(),
+    max: z.number().int().min(0).optional()
+  })
+]);
+
+export const insertCustomAuditRuleSchema = createInsertSchema(customAuditRules, {
+  name: z.string().min(1).max(200),
+  category: customRuleCategorySchema.optional(),
+  pageTypes: z.array(customRulePageTypeSchema).optional(),
+  conditions: z.array(customRuleConditionSchema).min(1).max(20),
+  failStatus: z.enum(['OFI', 'Priority OFI']).optional(),
+  importance: seoImportanceSchema.optional()
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProjectAuditSchema = createInsertSchema(projectAudits).omit({
+  id: true,
+  addedAt: true,
+});
+
+// A client's whole history: audits, analyses, tracked keywords and backlink profiles
+export const projectHistorySchema = z.object({
+  project: z.object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string().nullable(),
+    createdAt: z.string(),
+  }),
+  audits: z.array(z.object({
+    id: z.number(),
+    url: z.string(),
+    status: z.string(),
+    pagesAnalyzed: z.number(),
+    priorityOfiCount: z.number().nullable(),
+    ofiCount: z.number().nullable(),
+    okCount: z.number().nullable(),
+    scheduled: z.boolean(), // started by a project audit schedule rather than added by hand
+    createdAt: z.string(),
+    completedAt: z.string().nullable(),
+  })),
+  analyses: z.array(z.object({
+    id: z.number(),
+    url: z.string(),
+    overallScore: z.number(),
+    timestamp: z.string(),
+  })),
+  keywords: z.array(z.object({
+    id: z.number(),
+    keyword: z.string(),
+    targetUrl: z.string(),
+    isActive: z.boolean(),
+    rankings: z.array(rankPositionSchema),
+  })),
+  backlinkProfiles: z.array(z.object({
+    id: z.number(),
+    url: z.string(),
+    domain: z.string(),
+    totalBacklinks: z.number(),
+    newBacklinks: z.number(),
+    lostBacklinks: z.number(),
+    lastScanAt: z.string().nullable(),
+    snapshots: z.array(z.object({
+      scanDate: z.string(),
+      totalBacklinks: z.number(),
+      totalOutgoingLinks: z.number(),
+      brokenOutgoingLinks: z.number(),
+    })),
+  })),
+  // Everything above as one list, newest first
+  timeline: z.array(z.object({
+    type: z.enum(['audit', 'analysis', 'keyword', 'backlinkSnapshot']),
+    id: z.number(),
+    date: z.string(),
+    title: z.string(),
+    detail: z.string().nullable(),
+  })),
+});
+
 
 // Crawling system types
 export type CrawlSource = typeof crawlSources.$inferSelect;
@@ -1393,3 +2666,22 @@ export type InsertCrawlAlert = z.infer<typeof insertCrawlAlertSchema>;
 export type DataQualityReport = typeof dataQualityReports.$inferSelect;
 export type RivalAuditRecord = typeof rivalAudits.$inferSelect;
 export type InsertRivalAuditRecord = z.infer<typeof insertRivalAuditSchema>;
+export type AuditScheduleFrequency = z.infer<typeof auditScheduleFrequencySchema>;
+export type ProjectAuditSchedule = typeof projectAuditSchedules.$inferSelect;
+export type InsertProjectAuditSchedule = z.infer<typeof insertProjectAuditScheduleSchema>;
+export type CustomRulePageType = z.infer<typeof customRulePageTypeSchema>;
+export type CustomRuleCategory = z.infer<typeof customRuleCategorySchema>;
+export type CustomRuleCondition = z.infer<typeof customRuleConditionSchema>;
+export type CustomAuditRule = typeof customAuditRules.$inferSelect;
+export type InsertCustomAuditRule = z.infer<typeof insertCustomAuditRuleSchema>;
+export type ProjectAudit = typeof projectAudits.$inferSelect;
+export type InsertProjectAudit = z.infer<typeof insertProjectAuditSchema>;
+export type ProjectHistory = z.infer<typeof projectHistorySchema>;
+export type ContentDepthPage = z.infer<typeof contentDepthPageSchema>;
+export type CreateCompetitorComparison = z.infer<typeof createCompetitorComparisonSchema>;
+export type CompetitorGapFactor = z.infer<typeof competitorGapFactorSchema>;
+export type CompetitorContentDepthRow = z.infer<typeof competitorContentDepthRowSchema>;
+export type CompetitorScorecardRow = z.infer<typeof competitorScorecardRowSchema>;
+export type CompetitorGapReport = z.infer<typeof competitorGapReportSchema>;
+export type CompetitorComparisonDetail = z.infer<typeof competitorComparisonDetailSchema>;
+export type CompetitorComparison = typeof competitorComparisons.$inferSelect;
@@ -1,12 +1,15 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { users } from "./core";
+import { users, workspaces } from "./core";
+import { projects } from "./projects";
 
 // Backlink tracking tables
 export const backlinkProfiles = pgTable("backlink_profiles", {
   id: serial("id").primaryKey(),
   userId: text("user_id").references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id),
+  projectId: integer("project_id").references(() => projects.id),
   url: text("url").notNull(),
   domain: text("domain").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -38,7 +41,9 @@ export const backlinks = pgTable("backlinks", {
   linkPosition: text("link_position"), // header, body, footer, sidebar
   linkType: text("link_type"), // text, image, button
   surroundingText: text("surrounding_text"),
-});
+}, (table) => ({
+  uniqueBacklink: uniqueIndex("unique_backlink").on(table.profileId, table.sourceUrl, table.targetUrl),
+}));
 
 export const backlinkHistory = pgTable("backlink_history", {
   id: serial("id").primaryKey(),
@@ -51,6 +56,9 @@ export const backlinkHistory = pgTable("backlink_history", {
   nofollow: integer("nofollow").default(0),
   topReferringDomains: jsonb("top_referring_domains"),
   domainAuthority: integer("domain_authority"),
+  totalOutgoingLinks: integer("total_outgoing_links").default(0),
+  brokenOutgoingLinks: integer("broken_outgoing_links").default(0),
+  redirectedOutgoingLinks: integer("redirected_outgoing_links").default(0),
 });
 
 export const outgoingLinks = pgTable("outgoing_links", {
@@ -62,11 +70,17 @@ export const outgoingLinks = pgTable("outgoing_links", {
   firstDiscovered: timestamp("first_discovered").defaultNow().notNull(),
   lastChecked: timestamp("last_checked").defaultNow().notNull(),
   status: text("status").default("active"), // active, broken, redirected
+  statusCode: integer("status_code"), // final status after redirects, -1 when unreachable
+  redirectUrl: text("redirect_url"), // where a redirected link ends up
   anchorText: text("anchor_text"),
   isDofollow: boolean("is_dofollow").default(false),
+  rel: text("rel").default("dofollow"), // dofollow, nofollow, sponsored, ugc
+  linkPosition: text("link_position"), // header, body, footer
   pageAuthority: integer("page_authority"),
   domainAuthority: integer("domain_authority"),
-});
+}, (table) => ({
+  uniqueLink: uniqueIndex("unique_outgoing_link").on(table.profileId, table.sourceUrl, table.targetUrl),
+}));
 
 // Insert schemas for backlink tracking
 export const insertBacklinkProfileSchema = createInsertSchema(backlinkProfiles).omit({
@@ -88,6 +102,57 @@ export const insertOutgoingLinkSchema = createInsertSchema(outgoingLinks).omit({
   lastChecked: true,
 });
 
+export const backlinkScanFrequencySchema = z.enum(['daily', 'weekly', 'monthly']);
+export const outgoingLinkStatusSchema = z.enum(['active', 'broken', 'redirected']);
+export const linkRelSchema = z.enum(['dofollow', 'nofollow', 'sponsored', 'ugc']);
+export const linkPositionSchema = z.enum(['header', 'body', 'footer']);
+
+// Site whose outbound links are scanned on its scan frequency
+export const createBacklinkProfileSchema = z.object({
+  url: z.string().url(),
+  projectId: z.number().int().positive().nullable().optional(),
+  scanFrequency: backlinkScanFrequencySchema.default('weekly'),
+  emailAlerts: z.boolean().default(false),
+});
+
+export const backlinkImportFormatSchema = z.enum(['gsc', 'ahrefs', 'semrush']);
+
+// CSV export from a backlink tool, imported into a profile's backlinks
+export const backlinkImportSchema = z.object({
+  format: backlinkImportFormatSchema,
+  csv: z.string().min(1),
+});
+
+export const backlinkImportResultSchema = z.object({
+  format: backlinkImportFormatSchema,
+  rowsRead: z.number(),
+  imported: z.number(), // distinct source/target pairs
+  skipped: z.number(), // rows without a usable source URL or not linking to the profile's site
+  newBacklinks: z.number(),
+  lostBacklinks: z.number(),
+  totalBacklinks: z.number(),
+});
+
+// Broken outbound links of a profile, one entry per target with the pages linking to it
+export const brokenOutboundLinkReportSchema = z.object({
+  profileId: z.number(),
+  domain: z.string(),
+  lastScanAt: z.string().nullable(),
+  totalOutgoingLinks: z.number(),
+  brokenLinks: z.array(z.object({
+    targetUrl: z.string(),
+    targetDomain: z.string(),
+    statusCode: z.number().nullable(),
+    lastChecked: z.string(),
+    sources: z.array(z.object({
+      sourceUrl: z.string(),
+      anchorText: z.string().nullable(),
+      rel: linkRelSchema,
+      linkPosition: linkPositionSchema.nullable(),
+    })),
+  })),
+});
+
 // Backlink types
 export type BacklinkProfile = typeof backlinkProfiles.$inferSelect;
 export type InsertBacklinkProfile = z.infer<typeof insertBacklinkProfileSchema>;
@@ -95,4 +160,13 @@ export type Backlink = typeof backlinks.$inferSelect;
 export type InsertBacklink = z.infer<typeof insertBacklinkSchema>;
 export type BacklinkHistory = typeof backlinkHistory.$inferSelect;
 export type OutgoingLink = typeof outgoingLinks.$inferSelect;
-export type InsertOutgoingLink = z.infer<typeof insertOutgoingLinkSchema>;
\ No newline at end of file
+export type InsertOutgoingLink = z.infer<typeof insertOutgoingLinkSchema>;
+export type BacklinkScanFrequency = z.infer<typeof backlinkScanFrequencySchema>;
+export type OutgoingLinkStatus = z.infer<typeof outgoingLinkStatusSchema>;
+export type LinkRel = z.infer<typeof linkRelSchema>;
+export type LinkPosition = z.infer<typeof linkPositionSchema>;
+export type CreateBacklinkProfile = z.infer<typeof createBacklinkProfileSchema>;
+export type BrokenOutboundLinkReport = z.infer<typeof brokenOutboundLinkReportSchema>;
+export type BacklinkImportFormat = z.infer<typeof backlinkImportFormatSchema>;
+export type BacklinkImport = z.infer<typeof backlinkImportSchema>;
+export type BacklinkImportResult = z.infer<typeof backlinkImportResultSchema>;
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, varchar, index, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, varchar, index, uniqueIndex, real, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isPrivateHostname } from "../utils/network";
 
 // Forward reference for users table (will be defined below)
 // This allows circular references between tables in the same file
@@ -25,6 +26,179 @@ export const users = pgTable("users", {
   role: text("role").default("user"), // Roles: user, admin
 });
 
+// Agency workspaces: projects, audits, keywords and backlink profiles are shared by their members
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: text("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  userId: text("user_id").notNull().references(() => users.id),
+  role: text("role").notNull(), // owner, editor, viewer, client
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    uniqueIndex("unique_workspace_member").on(table.workspaceId, table.userId),
+    index("idx_workspace_members_user").on(table.userId)
+  ];
+});
+
+// Invitations are accepted with a token sent by email; only its hash is stored
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  email: text("email").notNull(),
+  role: text("role").notNull(), // editor, viewer, client
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedBy: text("invited_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_workspace_invitations_workspace").on(table.workspaceId)
+  ];
+});
+
+// Signed-in devices; the session ID is carried in the auth token and checked on every request
+export const userSessions = pgTable("user_sessions", {
+  id: varchar("id").primaryKey(), // sessionId of the token payload
+  userId: text("user_id").notNull().references(() => users.id),
+  deviceId: text("device_id").notNull(), // fingerprint of the browser the session was started from
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastActivity: timestamp("last_activity").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_user_sessions_user").on(table.userId, table.lastActivity)
+  ];
+});
+
+// Refresh tokens are looked up by their hash, never stored in the clear
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  userId: text("user_id").notNull().references(() => users.id),
+  sessionId: varchar("session_id").notNull(),
+  deviceId: text("device_id").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  isRevoked: boolean("is_revoked").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsed: timestamp("last_used").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => {
+  return [
+    index("idx_refresh_tokens_session").on(table.sessionId)
+  ];
+});
+
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  ipAddress: text("ip_address").notNull(),
+  success: boolean("success").notNull(),
+  userAgent: text("user_agent"),
+  deviceFingerprint: text("device_fingerprint"),
+  secondFactor: boolean("second_factor").default(false).notNull(), // a two-factor code rather than a password
+  preAuthTokenId: text("pre_auth_token_id"), // the pre-auth token a second-factor attempt was sent with
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_login_attempts_email_ip").on(table.email, table.ipAddress, table.createdAt),
+    index("idx_login_attempts_pre_auth_token").on(table.preAuthTokenId)
+  ];
+});
+
+export const accountLockouts = pgTable("account_lockouts", {
+  email: text("email").primaryKey(),
+  attempts: integer("attempts").notNull(),
+  lastAttempt: timestamp("last_attempt").notNull(),
+  lockedUntil: timestamp("locked_until"),
+  lockReason: text("lock_reason"),
+});
+
+// TOTP enrolment; enabled once the first code from the authenticator app is verified
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: text("user_id").primaryKey().references(() => users.id),
+  secret: text("secret").notNull(), // base32
+  backupCodes: jsonb("backup_codes").$type<string[]>().default([]).notNull(), // hashes of the unused one-time codes
+  enabled: boolean("enabled").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  enabledAt: timestamp("enabled_at"),
+  lastUsed: timestamp("last_used"),
+  lastUsedStep: integer("last_used_step"), // time step of the last accepted code, which cannot be used again
+});
+
+// Keys for scripts calling the API; only a hash of the key is stored
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // workspace-level keys act in this workspace
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // start of the key, to tell keys apart
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<string[]>().notNull(),
+  expiresAt: timestamp("expires_at"), // null for keys that never expire
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_api_keys_user").on(table.userId)
+  ];
+});
+
+// Endpoints notified of audit and analysis events; the secret signs each payload
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // null for personal webhooks
+  url: text("url").notNull(),
+  description: text("description"),
+  events: jsonb("events").$type<string[]>().notNull(),
+  secret: text("secret").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_webhooks_user").on(table.userId),
+    index("idx_webhooks_workspace").on(table.workspaceId)
+  ];
+});
+
+// One event sent to one webhook, retried with backoff until it succeeds or runs out of attempts
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").default("pending").notNull(), // pending, delivering, succeeded, failed
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"), // when a worker started the current attempt
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // start of the last response
+  errorMessage: text("error_message"),
+  durationMs: integer("duration_ms"),
+  redeliveryOf: integer("redelivery_of").references((): AnyPgColumn => webhookDeliveries.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => {
+  return [
+    index("idx_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+    index("idx_webhook_deliveries_webhook").on(table.webhookId, table.createdAt)
+  ];
+});
+
 // API Usage tracking table
 export const apiUsage = pgTable("api_usage", {
   id: serial("id").primaryKey(),
@@ -42,6 +216,7 @@ export const apiUsage = pgTable("api_usage", {
   userAgent: text("user_agent"),
   estimatedCost: real("estimated_cost"), // estimated cost in USD
   usageMetrics: jsonb("usage_metrics"), // detailed usage metrics (tokens, requests, etc.)
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id), // set for requests made with an API key
 });
 
 // Session storage table.
@@ -86,4 +261,167 @@ export const updateUserSchema = createInsertSchema(users).omit({
 export const loginUserSchema = z.object({
   username: z.string().min(3).max(50),
   password: z.string().min(6),
-});
\ No newline at end of file
+});
+
+export const workspaceRoleSchema = z.enum(['owner', 'editor', 'viewer', 'client']);
+
+export const insertWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+// Owners are only made by promoting a member, never invited
+export const workspaceInvitationInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: workspaceRoleSchema.exclude(['owner']),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: workspaceRoleSchema,
+});
+
+// A workspace as listed for one of its members
+export const workspaceSummarySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  role: workspaceRoleSchema, // the current user's role
+  memberCount: z.number(),
+  createdAt: z.string(),
+});
+
+export const workspaceMemberDetailsSchema = z.object({
+  userId: z.string(),
+  role: workspaceRoleSchema,
+  email: z.string().nullable(),
+  username: z.string().nullable(),
+  name: z.string().nullable(),
+  joinedAt: z.string(),
+});
+
+export const workspaceInvitationDetailsSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  role: workspaceRoleSchema,
+  expiresAt: z.string(),
+  createdAt: z.string(),
+});
+
+export const workspaceInvitationResultSchema = z.object({
+  invitation: workspaceInvitationDetailsSchema,
+  inviteUrl: z.string(), // shown to the owner when the invitation could not be emailed
+  emailed: z.boolean(),
+});
+
+// A signed-in device as listed on the profile page
+export const activeSessionSchema = z.object({
+  id: z.string(),
+  deviceId: z.string(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: z.string(),
+  lastActivity: z.string(),
+  current: z.boolean(), // the session making the request
+});
+
+// An authenticator app code, or a backup code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20),
+});
+
+// Second step of a login, with the pre-auth token the password step issued
+export const twoFactorLoginSchema = twoFactorCodeSchema.extend({
+  preAuthToken: z.string().min(1),
+});
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  required: z.boolean(), // admin accounts cannot sign in without it
+  backupCodesRemaining: z.number(),
+});
+
+export const apiKeyScopeSchema = z.enum(['audits:write', 'audits:read', 'analysis:write', 'export:read']);
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  workspaceId: z.number().int().positive().nullable().default(null), // null for a personal key
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(90), // null never expires
+});
+
+export const apiKeySummarySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  keyPrefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  workspaceId: z.number().nullable(),
+  workspaceName: z.string().nullable(),
+  expiresAt: z.string().nullable(),
+  lastUsedAt: z.string().nullable(),
+  lastUsedIp: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export const apiKeyCreatedSchema = z.object({
+  apiKey: apiKeySummarySchema,
+  key: z.string(), // the full key, only returned when it is created
+});
+
+export const webhookEventSchema = z.enum([
+  'audit.started',
+  'audit.completed',
+  'audit.failed',
+  'audit.item_status_changed',
+  'analysis.completed',
+]);
+
+// Invalid URLs are left to the url() check
+const isPublicUrl = (url: string) => {
+  try {
+    return !isPrivateHostname(new URL(url).hostname);
+  } catch {
+    return true;
+  }
+};
+
+export const insertWebhookSchema = z.object({
+  url: z.string().trim().url()
+    .refine(url => /^https?:\/\//i.test(url), 'Webhook URLs must use http or https')
+    .refine(isPublicUrl, 'Webhook URLs must point to a public host, not a private or reserved address'),
+  description: z.string().trim().max(200).nullable().default(null),
+  events: z.array(webhookEventSchema).min(1),
+  isActive: z.boolean().default(true),
+});
+
+export const updateWebhookSchema = insertWebhookSchema.partial();
+
+export const webhookSummarySchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  description: z.string().nullable(),
+  events: z.array(webhookEventSchema),
+  isActive: z.boolean(),
+  workspaceId: z.number().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const webhookCreatedSchema = z.object({
+  webhook: webhookSummarySchema,
+  secret: z.string(), // signing secret, only returned when the webhook is created
+});
+
+export const webhookDeliverySummarySchema = z.object({
+  id: z.number(),
+  event: webhookEventSchema,
+  status: z.enum(['pending', 'delivering', 'succeeded', 'failed']),
+  attempts: z.number(),
+  nextAttemptAt: z.string().nullable(), // null once the delivery has finished
+  responseStatus: z.number().nullable(),
+  responseBody: z.string().nullable(),
+  errorMessage: z.string().nullable(),
+  durationMs: z.number().nullable(),
+  redeliveryOf: z.number().nullable(),
+  payload: z.record(z.any()),
+  createdAt: z.string(),
+  deliveredAt: z.string().nullable(),
+});
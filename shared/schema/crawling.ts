@@ -40,9 +40,19 @@ export const crawlJobs = pgTable("crawl_jobs", {
   successCount: integer("success_count").default(0).notNull(),
   errorCount: integer("error_count").default(0).notNull(),
   averageDuration: integer("average_duration").default(0).notNull(), // milliseconds
+  // Queue state for one-off jobs such as rival audits (scheduled jobs stay "scheduled")
+  status: text("status").default("scheduled").notNull(), // scheduled, queued, processing, completed, failed, cancelled
+  lockedBy: text("locked_by"), // worker id holding the job
+  lockedAt: timestamp("locked_at"), // last worker heartbeat
+  lastError: text("last_error"),
+  cancelRequested: boolean("cancel_requested").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   createdBy: text("created_by").references(() => users.id),
+}, (table) => {
+  return [
+    index("idx_crawl_jobs_queue").on(table.type, table.status, table.nextRun)
+  ];
 });
 
 // Crawled content table - stores crawled content
@@ -171,6 +181,10 @@ export const insertCrawlJobSchema = createInsertSchema(crawlJobs).omit({
   successCount: true,
   errorCount: true,
   averageDuration: true,
+  lockedBy: true,
+  lockedAt: true,
+  lastError: true,
+  cancelRequested: true,
 });
 
 export const insertCrawledContentSchema = createInsertSchema(crawledContent).omit({
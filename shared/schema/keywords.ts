@@ -1,13 +1,14 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real, date, index, unique, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, date, index, uniqueIndex, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { users } from "./core";
+import { users, workspaces } from "./core";
 import { projects } from "./projects";
 
 // Keyword Tracking Tables
 export const keywords = pgTable("keywords", {
   id: serial("id").primaryKey(),
   userId: text("user_id").references(() => users.id).notNull(),
+  workspaceId: integer("workspace_id").references(() => workspaces.id),
   projectId: integer("project_id").references(() => projects.id),
   keyword: text("keyword").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -15,6 +16,10 @@ export const keywords = pgTable("keywords", {
   targetUrl: text("target_url").notNull(),
   isActive: boolean("is_active").default(true).notNull(),
   notes: text("notes"),
+  devices: jsonb("devices").$type<string[]>().default(['desktop']).notNull(), // devices the rank check searches from
+  locations: jsonb("locations").$type<string[]>().default(['us']).notNull(), // country codes the rank check searches in
+  competitorDomains: jsonb("competitor_domains").$type<string[]>().default([]).notNull(),
+  lastCheckedAt: timestamp("last_checked_at"), // last daily rank check
 }, (table) => {
   return [
     unique().on(table.userId, table.keyword, table.targetUrl)
@@ -44,11 +49,13 @@ export const keywordRankings = pgTable("keyword_rankings", {
   searchEngine: text("search_engine").default("google").notNull(), // google, bing, etc.
   device: text("device").default("desktop").notNull(), // desktop, mobile
   location: text("location").default("us").notNull(), // Country or region code
-  serp: jsonb("serp"), // SERP features and snippets
+  serp: jsonb("serp").$type<SerpFeatures>(), // SERP features and snippets
   localRank: integer("local_rank"), // Position in local pack if applicable
 }, (table) => {
   return [
-    index("idx_ranking_keyword_date").on(table.keywordId, table.rankDate)
+    index("idx_ranking_keyword_date").on(table.keywordId, table.rankDate),
+    // One result per keyword, day, device and location; re-checks replace it
+    uniqueIndex("unique_ranking_keyword_day").on(table.keywordId, table.rankDate, table.searchEngine, table.device, table.location)
   ];
 });
 
@@ -63,7 +70,8 @@ export const competitorRankings = pgTable("competitor_rankings", {
   location: text("location").default("us").notNull(),
 }, (table) => {
   return [
-    index("idx_competitor_keyword_date").on(table.keywordId, table.competitorUrl, table.rankDate)
+    index("idx_competitor_keyword_date").on(table.keywordId, table.competitorUrl, table.rankDate),
+    uniqueIndex("unique_competitor_ranking_day").on(table.keywordId, table.competitorUrl, table.rankDate, table.searchEngine, table.device, table.location)
   ];
 });
 
@@ -79,6 +87,24 @@ export const keywordSuggestions = pgTable("keyword_suggestions", {
   saved: boolean("saved").default(false).notNull(),
 });
 
+// Keyword metrics imported from a keyword tool export such as Google Ads Keyword Planner.
+// The local keyword data provider reads from here when DataForSEO is not used.
+export const keywordDataset = pgTable("keyword_dataset", {
+  id: serial("id").primaryKey(),
+  keyword: text("keyword").notNull(), // lowercase
+  location: text("location").default("us").notNull(), // country code the metrics are for
+  searchVolume: integer("search_volume"), // average monthly searches
+  competition: integer("competition"), // 0-100 index
+  cpc: real("cpc"), // top of page bid
+  monthlySearches: jsonb("monthly_searches").$type<number[]>(), // oldest month first
+  source: text("source").default("csv").notNull(), // csv, json
+  importedAt: timestamp("imported_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    uniqueIndex("unique_keyword_dataset_entry").on(table.keyword, table.location)
+  ];
+});
+
 // Insert schemas for keyword tracking
 export const insertKeywordSchema = createInsertSchema(keywords).omit({
   id: true,
@@ -93,6 +119,163 @@ export const updateKeywordSchema = createInsertSchema(keywords).omit({
   updatedAt: true,
 });
 
+export const rankDeviceSchema = z.enum(['desktop', 'mobile']);
+export const rankLocationSchema = z.enum(['us', 'gb', 'ca', 'au', 'nz', 'ie']);
+
+// Keywords added to a project's rank tracker
+export const trackKeywordSchema = createInsertSchema(keywords, {
+  keyword: z.string().trim().min(1).max(200),
+  targetUrl: z.string().trim().min(1).max(500), // domain or URL whose position is tracked
+  projectId: z.number().int(),
+  devices: z.array(rankDeviceSchema).min(1).optional(),
+  locations: z.array(rankLocationSchema).min(1).optional(),
+  competitorDomains: z.array(z.string().trim().min(1).max(255)).max(10).optional()
+}).omit({
+  id: true,
+  userId: true,
+  lastCheckedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Rank tracker responses. `change` is previousRank - rank: positive means the keyword moved up.
+export const rankPositionSchema = z.object({
+  device: z.string(),
+  location: z.string(),
+  rank: z.number().nullable(),
+  previousRank: z.number().nullable(),
+  change: z.number().nullable(),
+  rankingUrl: z.string().nullable(),
+  localRank: z.number().nullable(), // position in the map pack
+  rankDate: z.string()
+});
+
+export const rankHistorySeriesSchema = z.object({
+  device: z.string(),
+  location: z.string(),
+  points: z.array(z.object({
+    date: z.string(),
+    rank: z.number().nullable(),
+    change: z.number().nullable(),
+    rankingUrl: z.string().nullable(),
+    localRank: z.number().nullable()
+  })),
+  competitors: z.array(z.object({
+    domain: z.string(),
+    points: z.array(z.object({ date: z.string(), rank: z.number().nullable() }))
+  }))
+});
+
+export const rankHistorySchema = z.object({
+  keywordId: z.number(),
+  keyword: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  series: z.array(rankHistorySeriesSchema)
+});
+
+// SERP features found by a rank check. Domains are normalized (no protocol or www).
+export const serpFeaturesSchema = z.object({
+  localPack: z.array(z.object({
+    position: z.number(),
+    title: z.string(), // business name
+    domain: z.string().nullable(), // business website, when listed
+    rating: z.number().nullable(),
+    reviewCount: z.number().nullable()
+  })),
+  featuredSnippet: z.object({
+    domain: z.string(),
+    url: z.string(),
+    title: z.string().nullable()
+  }).nullable(),
+  peopleAlsoAsk: z.array(z.object({
+    question: z.string(),
+    answerDomain: z.string().nullable() // site quoted in the expanded answer
+  })),
+  // Organic results shown with review stars or with site links
+  reviews: z.array(z.object({
+    domain: z.string(),
+    position: z.number(),
+    rating: z.number(),
+    reviewCount: z.number().nullable()
+  })),
+  sitelinks: z.array(z.object({
+    domain: z.string(),
+    position: z.number(),
+    links: z.number()
+  }))
+});
+
+export const serpFeatureTypeSchema = z.enum(['localPack', 'featuredSnippet', 'peopleAlsoAsk', 'reviews', 'sitelinks']);
+
+// Who holds a SERP feature: the client's site and/or the keyword's tracked competitors
+export const serpFeatureOwnershipSchema = z.object({
+  feature: serpFeatureTypeSchema,
+  present: z.boolean(), // the feature was on the results page
+  ownedByClient: z.boolean(),
+  competitors: z.array(z.string()) // tracked competitor domains holding it
+});
+
+// SERP features of a keyword's latest check on a device and location
+export const serpFeatureReportRowSchema = z.object({
+  keywordId: z.number(),
+  keyword: z.string(),
+  device: z.string(),
+  location: z.string(),
+  rankDate: z.string(),
+  rank: z.number().nullable(),
+  localRank: z.number().nullable(),
+  features: z.array(serpFeatureOwnershipSchema),
+  localPack: serpFeaturesSchema.shape.localPack,
+  peopleAlsoAsk: z.array(z.string())
+});
+
+// Keyword data responses. `source` says where the numbers come from; `isEstimated`
+// is set for simulated numbers, which the UI labels as such.
+export const keywordDataSourceSchema = z.enum(['dataforseo', 'dataset', 'simulated']);
+
+export const relatedKeywordDataSchema = z.object({
+  keyword: z.string(),
+  searchVolume: z.number().optional(),
+  difficulty: z.number().optional(),
+  cpc: z.string().optional(),
+  relevance: z.number().optional()
+});
+
+export const keywordDataResultSchema = z.object({
+  keyword: z.string(),
+  searchVolume: z.number().optional(),
+  difficulty: z.number().optional(),
+  cpc: z.string().optional(),
+  competition: z.number().optional(),
+  trend: z.array(z.number()).optional(),
+  relatedKeywords: z.array(relatedKeywordDataSchema).optional(),
+  source: keywordDataSourceSchema,
+  isEstimated: z.boolean(),
+  error: z.string().optional()
+});
+
+export const keywordSuggestionsResultSchema = z.object({
+  keyword: z.string(),
+  suggestions: z.array(relatedKeywordDataSchema),
+  source: keywordDataSourceSchema,
+  isEstimated: z.boolean()
+});
+
+// Keyword dataset import: a CSV export (e.g. Keyword Planner) or a JSON array of keywords
+export const keywordDatasetImportSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1),
+  location: rankLocationSchema.default('us')
+});
+
+export const keywordDatasetImportResultSchema = z.object({
+  rowsRead: z.number(),
+  imported: z.number(),
+  skipped: z.number(), // rows without a keyword
+  totalKeywords: z.number() // keywords in the dataset for the location after the import
+});
+
 export const insertKeywordMetricsSchema = createInsertSchema(keywordMetrics).omit({
   id: true,
   lastUpdated: true,
@@ -116,6 +299,16 @@ export const insertKeywordSuggestionSchema = createInsertSchema(keywordSuggestio
 // Keyword tracking types
 export type Keyword = typeof keywords.$inferSelect;
 export type InsertKeyword = z.infer<typeof insertKeywordSchema>;
+export type TrackKeyword = z.infer<typeof trackKeywordSchema>;
+export type RankDevice = z.infer<typeof rankDeviceSchema>;
+export type RankLocation = z.infer<typeof rankLocationSchema>;
+export type RankPosition = z.infer<typeof rankPositionSchema>;
+export type RankHistorySeries = z.infer<typeof rankHistorySeriesSchema>;
+export type RankHistory = z.infer<typeof rankHistorySchema>;
+export type SerpFeatures = z.infer<typeof serpFeaturesSchema>;
+export type SerpFeatureType = z.infer<typeof serpFeatureTypeSchema>;
+export type SerpFeatureOwnership = z.infer<typeof serpFeatureOwnershipSchema>;
+export type SerpFeatureReportRow = z.infer<typeof serpFeatureReportRowSchema>;
 export type KeywordMetrics = typeof keywordMetrics.$inferSelect;
 export type InsertKeywordMetrics = z.infer<typeof insertKeywordMetricsSchema>;
 export type KeywordRanking = typeof keywordRankings.$inferSelect;
@@ -123,4 +316,12 @@ export type InsertKeywordRanking = z.infer<typeof insertKeywordRankingSchema>;
 export type CompetitorRanking = typeof competitorRankings.$inferSelect;
 export type InsertCompetitorRanking = z.infer<typeof insertCompetitorRankingSchema>;
 export type KeywordSuggestion = typeof keywordSuggestions.$inferSelect;
-export type InsertKeywordSuggestion = z.infer<typeof insertKeywordSuggestionSchema>;
\ No newline at end of file
+export type InsertKeywordSuggestion = z.infer<typeof insertKeywordSuggestionSchema>;
+export type KeywordDatasetEntry = typeof keywordDataset.$inferSelect;
+export type InsertKeywordDatasetEntry = typeof keywordDataset.$inferInsert;
+export type KeywordDataSource = z.infer<typeof keywordDataSourceSchema>;
+export type RelatedKeywordData = z.infer<typeof relatedKeywordDataSchema>;
+export type KeywordDataResult = z.infer<typeof keywordDataResultSchema>;
+export type KeywordSuggestionsResult = z.infer<typeof keywordSuggestionsResultSchema>;
+export type KeywordDatasetImport = z.infer<typeof keywordDatasetImportSchema>;
+export type KeywordDatasetImportResult = z.infer<typeof keywordDatasetImportResultSchema>;
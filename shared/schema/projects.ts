@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
-import { users } from "./core";
+import { z } from "zod";
+import { users, workspaces } from "./core";
 
 // Define the schema for storing user analysis history
 export const analyses = pgTable("analyses", {
@@ -16,6 +17,7 @@ export const analyses = pgTable("analyses", {
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull().references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // null for personal projects
   name: text("name").notNull(),
   description: text("description"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -30,6 +32,57 @@ export const projectAnalyses = pgTable("project_analyses", {
   addedAt: timestamp("added_at").defaultNow().notNull(),
 });
 
+// Batches of single-page analyses run together, such as a site's landing pages
+export const analysisBatches = pgTable("analysis_batches", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  name: text("name"),
+  sitemapUrl: text("sitemap_url"), // set when the URLs were read from a sitemap
+  status: text("status").default("pending").notNull(), // pending, processing, completed
+  totalPages: integer("total_pages").default(0).notNull(),
+  lockedBy: text("locked_by"), // worker analyzing the batch
+  lockedAt: timestamp("locked_at"), // last heartbeat of that worker
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => {
+  return [
+    index("idx_analysis_batches_user").on(table.userId, table.createdAt)
+  ];
+});
+
+// One URL of a batch and the analysis stored for it
+export const analysisBatchPages = pgTable("analysis_batch_pages", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => analysisBatches.id),
+  url: text("url").notNull(),
+  status: text("status").default("pending").notNull(), // pending, processing, completed, failed
+  lockedBy: text("locked_by"), // worker analyzing the page
+  analysisId: integer("analysis_id").references(() => analyses.id),
+  error: text("error"),
+  completedAt: timestamp("completed_at"),
+}, (table) => {
+  return [
+    uniqueIndex("unique_batch_page_url").on(table.batchId, table.url)
+  ];
+});
+
+// Search Console performance rows imported for a project; each import replaces the previous one
+export const searchPerformance = pgTable("search_performance", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id),
+  page: text("page").notNull(),
+  query: text("query"), // null in exports without a query column
+  clicks: integer("clicks").notNull(),
+  impressions: integer("impressions").notNull(),
+  ctr: real("ctr").notNull(), // 0-1
+  position: real("position").notNull(), // average position
+  importedAt: timestamp("imported_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_search_performance_project_page").on(table.projectId, table.page)
+  ];
+});
+
 // Insert and validation schemas for projects domain
 export const insertAnalysisSchema = createInsertSchema(analyses).omit({
   id: true,
@@ -45,10 +98,100 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
 export const updateProjectSchema = createInsertSchema(projects).omit({
   id: true,
   userId: true,
+  workspaceId: true,
   createdAt: true,
 });
 
 export const insertProjectAnalysisSchema = createInsertSchema(projectAnalyses).omit({
   id: true,
   addedAt: true,
-});
\ No newline at end of file
+});
+
+// Batch analysis request: a URL list or a sitemap to read the URLs from
+export const createAnalysisBatchSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  urls: z.array(z.string().trim().min(1)).max(200).optional(),
+  sitemapUrl: z.string().url().optional(),
+  maxPages: z.number().int().min(1).max(200).default(200),
+}).refine(data => (data.urls && data.urls.length > 0) || data.sitemapUrl, {
+  message: "Provide a list of URLs or a sitemap URL",
+});
+
+// One row of a batch's comparison table; scores are null until the page is analyzed
+export const analysisBatchRowSchema = z.object({
+  url: z.string(),
+  status: z.string(),
+  error: z.string().nullable(),
+  analysisId: z.number().nullable(),
+  overallScore: z.number().nullable(),
+  keywordScore: z.number().nullable(),
+  metaTagsScore: z.number().nullable(),
+  contentScore: z.number().nullable(),
+  internalLinksScore: z.number().nullable(),
+  imageScore: z.number().nullable(),
+  schemaMarkupScore: z.number().nullable(),
+  mobileScore: z.number().nullable(),
+  pageSpeedScore: z.number().nullable(),
+  userEngagementScore: z.number().nullable(),
+  eatScore: z.number().nullable(),
+});
+
+export const analysisBatchReportSchema = z.object({
+  batch: z.object({
+    id: z.number(),
+    name: z.string().nullable(),
+    sitemapUrl: z.string().nullable(),
+    status: z.string(),
+    totalPages: z.number(),
+    completedPages: z.number(),
+    failedPages: z.number(),
+    createdAt: z.string(),
+    completedAt: z.string().nullable(),
+  }),
+  rows: z.array(analysisBatchRowSchema),
+});
+
+// Search Console performance export: CSV, or JSON rows with page, query, clicks, impressions, ctr and position
+export const searchPerformanceImportSchema = z.object({
+  projectId: z.number().int(),
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1),
+});
+
+export const searchPerformanceImportResultSchema = z.object({
+  rowsRead: z.number(),
+  imported: z.number(),
+  skipped: z.number(), // rows without a page URL or impressions
+  pages: z.number(), // distinct pages imported
+});
+
+export const searchPerformanceSummarySchema = z.object({
+  importedAt: z.string().nullable(), // null before the first import
+  rows: z.number(),
+  pages: z.number(),
+  clicks: z.number(),
+  impressions: z.number(),
+});
+
+// A page's Search Console totals over its queries; position is impression-weighted
+export const pageSearchPerformanceSchema = z.object({
+  page: z.string(),
+  clicks: z.number(),
+  impressions: z.number(),
+  ctr: z.number(),
+  position: z.number(),
+  topQueries: z.array(z.object({
+    query: z.string(),
+    clicks: z.number(),
+    impressions: z.number(),
+    ctr: z.number(),
+    position: z.number(),
+  })),
+});
+
+// A page whose CTR is well below what its position usually gets: a title and meta description rewrite candidate
+export const ctrOpportunitySchema = pageSearchPerformanceSchema.extend({
+  expectedCtr: z.number(),
+  missedClicks: z.number(), // clicks the usual CTR at this position would add
+  pageTitle: z.string().nullable(), // from the project's latest audit that crawled the page
+});
@@ -1,7 +1,8 @@
 import { z } from "zod";
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, index, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
-import { users, crawlJobs } from "../schema";
+import { users, workspaces, crawlJobs, projects, rankPositionSchema } from "../schema";
 
 // Issue status enumeration
 export const auditStatusSchema = z.enum([
@@ -40,6 +41,8 @@ export const enhancedAuditItemSchema = z.object({
   pageUrl: z.string().optional(), // URL of the specific page where this issue was found
   pageTitle: z.string().optional(), // Title of the specific page for better identification
   pageType: z.string().optional(), // Type of page (homepage, contact, service, location, etc.)
+  impressions: z.number().optional(), // Search Console impressions of the page, when imported for the project
+  impressionImpact: z.number().optional(), // impressions weighted by the item's status and importance
   analysisDetails: z.object({
     actual: z.union([z.string(), z.number(), z.boolean()]).optional(),
     expected: z.union([z.string(), z.number(), z.boolean()]).optional(),
@@ -126,6 +129,8 @@ export const pageIssueSummarySchema = z.object({
   totalIssues: z.number(),
   score: z.number().min(0).max(100).optional(),
   weightedScore: z.number().min(0).max(100).optional(), // Score after priority weighting
+  impressions: z.number().optional(), // Search Console impressions, when imported for the project
+  clicks: z.number().optional(),
   topIssues: z.array(z.object({
     name: z.string(),
     status: auditStatusSchema,
@@ -134,6 +139,72 @@ export const pageIssueSummarySchema = z.object({
   })).optional() // Top 3 most critical issues for quick reference
 });
 
+// Depth of a service, location or service area page's content, kept for comparisons with competitors' pages
+export const contentDepthPageSchema = z.object({
+  pageUrl: z.string(),
+  pageTitle: z.string(),
+  pageType: z.enum(['service', 'location', 'serviceArea']),
+  h1: z.string().nullable(),
+  wordCount: z.number(),
+  headingCount: z.number(), // H2 and H3 headings
+  imageCount: z.number(),
+  hasSchema: z.boolean()
+});
+
+// Pages sharing near-identical body text or the same title, meta description or H1
+export const duplicateContentClusterSchema = z.object({
+  type: z.enum(['content', 'title', 'metaDescription', 'h1']),
+  value: z.string().optional(), // the shared title, meta description or H1
+  similarity: z.number().min(0).max(1).optional(), // near-duplicate body text only
+  pages: z.array(z.object({
+    url: z.string(),
+    pageType: z.string()
+  }))
+});
+
+export const duplicateContentSummarySchema = z.object({
+  clusters: z.array(duplicateContentClusterSchema),
+  pagesCompared: z.number()
+});
+
+// Crawled pages competing for the same primary keyword and intent
+export const keywordCannibalizationGroupSchema = z.object({
+  keyword: z.string(), // the shared primary keyword
+  canonicalUrl: z.string(), // the suggested page to rank for the keyword
+  pages: z.array(z.object({
+    url: z.string(),
+    pageType: z.string(),
+    primaryKeyword: z.string(),
+    secondaryKeywords: z.array(z.string())
+  }))
+});
+
+export const keywordCannibalizationSummarySchema = z.object({
+  groups: z.array(keywordCannibalizationGroupSchema),
+  pagesAnalyzed: z.number()
+});
+
+// Internal link graph summary for service and location pages
+export const internalLinkingSummarySchema = z.object({
+  pages: z.array(z.object({
+    url: z.string(),
+    title: z.string(),
+    pageType: z.string(), // service, location, serviceArea
+    inDegree: z.number(), // crawled pages linking to this page
+    outDegree: z.number(),
+    clickDepth: z.number().nullable(), // null when not reachable from the homepage
+    authority: z.number().min(0).max(100), // internal PageRank relative to the strongest page
+    starved: z.boolean()
+  })),
+  starvedPageCount: z.number(),
+  orphanPages: z.array(z.string()), // sitemap URLs no crawled page links to (first 50)
+  orphanPageCount: z.number(),
+  deadEndPages: z.array(z.string()), // first 50
+  deadEndPageCount: z.number(),
+  maxClickDepth: z.number(),
+  averageInDegree: z.number()
+});
+
 // Complete audit schema
 export const rivalAuditSchema = z.object({
   url: z.string(),
@@ -215,6 +286,10 @@ export const enhancedRivalAuditSchema = z.object({
     }).optional()
   }),
   pageIssues: z.array(pageIssueSummarySchema).optional(), // Page-specific issue summaries
+  internalLinking: internalLinkingSummarySchema.optional(), // Link graph results for service and location pages
+  duplicateContent: duplicateContentSummarySchema.optional(), // Duplicate and near-duplicate page clusters
+  keywordCannibalization: keywordCannibalizationSummarySchema.optional(), // Pages competing for the same keyword
+  contentDepth: z.array(contentDepthPageSchema).optional(), // Service and location page content for competitor comparisons
   analysisMetadata: z.object({
     analysisVersion: z.string().default("2.0"),
     factorCount: z.number(),
@@ -223,27 +298,144 @@ export const enhancedRivalAuditSchema = z.object({
       pagesCrawled: z.number(),
       pagesSkipped: z.number(),
       errorsEncountered: z.number(),
-      crawlTime: z.number()
+      crawlTime: z.number(),
+      pagesSkippedByRobots: z.number().optional(),
+      robots: z.object({
+        status: z.enum(['found', 'not_found', 'unreachable', 'ignored']),
+        respected: z.boolean(), // false when the client authorized ignoring robots.txt
+        crawlDelayMs: z.number(),
+        skippedCount: z.number(),
+        skippedUrls: z.array(z.string())
+      }).optional()
     }).optional()
   }).optional()
 });
 
+// Audit-to-audit comparison (regression report between two audits of the same site)
+export const auditItemChangeSchema = z.object({
+  name: z.string(),
+  category: z.string(),
+  pageUrl: z.string().optional(),
+  importance: seoImportanceSchema.optional(),
+  previousStatus: auditStatusSchema.nullable(), // null when the item is new
+  currentStatus: auditStatusSchema.nullable(), // null when the item no longer appears
+  direction: z.enum(['improved', 'regressed', 'changed'])
+});
+
+export const scoreDeltaSchema = z.object({
+  previous: z.number().nullable(),
+  current: z.number().nullable(),
+  delta: z.number().nullable()
+});
+
+export const auditComparisonSchema = z.object({
+  url: z.string(),
+  baseline: z.object({
+    auditId: z.number(),
+    completedAt: z.string().nullable()
+  }),
+  current: z.object({
+    auditId: z.number(),
+    completedAt: z.string().nullable()
+  }),
+  scores: z.object({
+    overallScore: scoreDeltaSchema,
+    weightedOverallScore: scoreDeltaSchema,
+    categoryScores: z.record(z.string(), scoreDeltaSchema)
+  }),
+  counts: z.object({
+    priorityOfiCount: scoreDeltaSchema,
+    ofiCount: scoreDeltaSchema,
+    okCount: scoreDeltaSchema,
+    naCount: scoreDeltaSchema
+  }),
+  newPriorityOfis: z.array(auditItemChangeSchema),
+  resolvedItems: z.array(auditItemChangeSchema),
+  statusChanges: z.array(auditItemChangeSchema),
+  addedItems: z.array(auditItemChangeSchema),
+  removedItems: z.array(auditItemChangeSchema),
+  unchangedCount: z.number()
+});
+
+// Head-to-head audit of a site against up to three named competitors
+export const createCompetitorComparisonSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  url: z.string().trim().min(1),
+  competitorUrls: z.array(z.string().trim().min(1)).min(1).max(3),
+  projectId: z.number().int().optional(),
+  ignoreRobots: z.boolean().default(false) // the client's site only; competitors' robots.txt is always respected
+});
+
+// One audit factor across the compared sites; statuses and pass rates follow the order of the sites
+export const competitorGapFactorSchema = z.object({
+  category: z.string(),
+  name: z.string(),
+  importance: seoImportanceSchema.optional(),
+  statuses: z.array(auditStatusSchema.nullable()), // worst status over the site's pages; null when not assessed
+  passRates: z.array(z.number().nullable()), // percentage of the site's assessed pages that pass
+  gap: z.boolean() // a competitor passes where the client's site fails
+});
+
+// Matching service or location pages of the compared sites
+export const competitorContentDepthRowSchema = z.object({
+  pageType: z.enum(['service', 'location']),
+  topic: z.string(),
+  pages: z.array(contentDepthPageSchema.nullable()), // one entry per site, null when the site has no such page
+  wordCountGap: z.number().nullable(), // words the deepest competitor page has over the client's page
+  behind: z.boolean() // the client's page is missing or much thinner than a competitor's
+});
+
+export const competitorScorecardRowSchema = z.object({
+  metric: z.string(),
+  values: z.array(z.number().nullable()),
+  higherIsBetter: z.boolean()
+});
+
+export const competitorGapReportSchema = z.object({
+  scorecard: z.array(competitorScorecardRowSchema),
+  factors: z.array(competitorGapFactorSchema),
+  contentDepth: z.array(competitorContentDepthRowSchema)
+});
+
+// A comparison with the progress of each site's audit; the report is null until every audit has finished
+export const competitorComparisonDetailSchema = z.object({
+  comparison: z.object({
+    id: z.number(),
+    name: z.string().nullable(),
+    status: z.string(),
+    createdAt: z.string(),
+    completedAt: z.string().nullable()
+  }),
+  sites: z.array(z.object({
+    auditId: z.number(),
+    url: z.string(),
+    isCompetitor: z.boolean(),
+    status: z.string(),
+    pagesAnalyzed: z.number(),
+    errorMessage: z.string().nullable()
+  })),
+  report: competitorGapReportSchema.nullable()
+});
+
 // Rival Audits table - stores SEO audit results with automatic cleanup
 export const rivalAudits = pgTable("rival_audits", {
   id: serial("id").primaryKey(),
   userId: text("user_id").references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // shared with the workspace's members when set
   url: text("url").notNull(),
-  status: text("status").notNull(), // pending, processing, completed, failed
+  status: text("status").notNull(), // pending, processing, completed, failed, cancelled
   results: jsonb("results"), // complete audit results
   summary: jsonb("summary"), // summary counts and metrics
   crawlJobId: text("crawl_job_id").references(() => crawlJobs.id),
+  projectId: integer("project_id").references(() => projects.id), // set for scheduled project audits
+  scheduleId: integer("schedule_id").references((): AnyPgColumn => projectAuditSchedules.id),
   pagesAnalyzed: integer("pages_analyzed").default(0).notNull(),
   reachedMaxPages: boolean("reached_max_pages").default(false).notNull(),
   errorMessage: text("error_message"),
   metadata: jsonb("metadata"), // additional audit metadata
   startedAt: timestamp("started_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
-  expiresAt: timestamp("expires_at").notNull(), // for automatic cleanup
+  expiresAt: timestamp("expires_at"), // for automatic cleanup; null keeps the audit as project history
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => {
@@ -253,7 +445,86 @@ export const rivalAudits = pgTable("rival_audits", {
     index("idx_rival_audits_status").on(table.status),
     index("idx_rival_audits_expires").on(table.expiresAt),
     index("idx_rival_audits_created").on(table.createdAt),
-    unique("unique_user_url_active").on(table.userId, table.url, table.status)
+    index("idx_rival_audits_project").on(table.projectId, table.createdAt),
+    index("idx_rival_audits_workspace").on(table.workspaceId, table.createdAt),
+    // One running audit per user and URL; finished audits are kept as history
+    uniqueIndex("unique_user_url_active")
+      .on(table.userId, table.url)
+      .where(sql`${table.status} in ('pending', 'processing')`)
+  ];
+});
+
+// Recurring enhanced audits of a project's site
+export const projectAuditSchedules = pgTable("project_audit_schedules", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id),
+  url: text("url").notNull(),
+  frequency: text("frequency").notNull(), // weekly, monthly
+  isActive: boolean("is_active").default(true).notNull(),
+  ignoreRobots: boolean("ignore_robots").default(false).notNull(), // site owner authorized crawling past robots.txt
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastAuditId: integer("last_audit_id"),
+  alertRecipients: jsonb("alert_recipients").$type<string[]>().default([]).notNull(), // emails for regression alerts
+  createdBy: text("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_audit_schedules_due").on(table.isActive, table.nextRunAt),
+    index("idx_audit_schedules_project").on(table.projectId)
+  ];
+});
+
+// Agency-defined checks evaluated alongside the built-in audit factors
+export const customAuditRules = pgTable("custom_audit_rules", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  projectId: integer("project_id").references(() => projects.id), // null applies the rule to all of the user's audits
+  name: text("name").notNull(),
+  description: text("description"),
+  category: text("category").default("technicalSEO").notNull(), // contentQuality, technicalSEO, localSEO, uxPerformance
+  pageTypes: jsonb("page_types").$type<string[]>().default([]).notNull(), // empty applies the rule to every page
+  conditions: jsonb("conditions").$type<CustomRuleCondition[]>().notNull(), // every condition must pass
+  failStatus: text("fail_status").default("OFI").notNull(), // OFI, Priority OFI
+  importance: text("importance").default("Medium").notNull(), // High, Medium, Low
+  notes: text("notes"), // guidance shown on failing pages
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    index("idx_custom_audit_rules_owner").on(table.userId, table.projectId)
+  ];
+});
+
+// Rival audits added to a project by hand; scheduled audits carry the project in rival_audits.project_id
+export const projectAudits = pgTable("project_audits", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id),
+  auditId: integer("audit_id").notNull().references(() => rivalAudits.id),
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+}, (table) => {
+  return [
+    uniqueIndex("unique_project_audit").on(table.projectId, table.auditId)
+  ];
+});
+
+// A client's site audited side by side with named competitors; the audits are kept while the comparison exists
+export const competitorComparisons = pgTable("competitor_comparisons", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  projectId: integer("project_id").references(() => projects.id),
+  name: text("name"),
+  siteAuditId: integer("site_audit_id").notNull().references(() => rivalAudits.id),
+  competitorAuditIds: jsonb("competitor_audit_ids").$type<number[]>().notNull(),
+  status: text("status").default("pending").notNull(), // pending, completed, failed
+  report: jsonb("report").$type<CompetitorGapReport>(), // built once every audit has finished
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => {
+  return [
+    index("idx_competitor_comparisons_user").on(table.userId, table.createdAt)
   ];
 });
 
@@ -266,6 +537,190 @@ export const insertRivalAuditSchema = createInsertSchema(rivalAudits).omit({
   startedAt: true,
 });
 
+export const auditScheduleFrequencySchema = z.enum(['weekly', 'monthly']);
+
+export const insertProjectAuditScheduleSchema = createInsertSchema(projectAuditSchedules, {
+  url: z.string().url(),
+  frequency: auditScheduleFrequencySchema,
+  alertRecipients: z.array(z.string().email()).optional()
+}).omit({
+  id: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  lastAuditId: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const customRulePageTypeSchema = z.enum(['homepage', 'contact', 'service', 'location', 'serviceArea', 'other']);
+export const customRuleCategorySchema = z.enum(['contentQuality', 'technicalSEO', 'localSEO', 'uxPerformance']);
+
+const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Rejects the constructs behind catastrophic backtracking: backreferences and
+// groups repeated without bound that contain a quantifier or alternation, e.g. (a+)+ or (a|ab)*
+const isSafeRegex = (pattern: string) => {
+  const groups: Array<{ hasQuantifier: boolean; hasAlternation: boolean }> = [{ hasQuantifier: false, hasAlternation: false }];
+  let closedGroup: { hasQuantifier: boolean; hasAlternation: boolean } | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const current = groups[groups.length - 1];
+    const quantifier = pattern.slice(i).match(/^(\*|\+|\?|\{\d+(,\d*)?\})/);
+
+    if (quantifier) {
+      const unbounded = quantifier[0] === '*' || quantifier[0] === '+' || /^\{\d+,\}$/.test(quantifier[0]);
+      if (unbounded && closedGroup && (closedGroup.hasQuantifier || closedGroup.hasAlternation)) {
+        return false;
+      }
+      current.hasQuantifier = true;
+      i += quantifier[0].length - 1;
+      closedGroup = null;
+      continue;
+    }
+
+    closedGroup = null;
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) return false;
+      i++;
+    } else if (char === '[') {
+      // Skip the character class
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      // Skip the (?: (?= (?! (?<= (?<! and (?<name> prefixes
+      i += (pattern.slice(i).match(/^\(\?(:|=|!|<=|<!|<[^>]*>)/)?.[0].length || 1) - 1;
+      groups.push({ hasQuantifier: false, hasAlternation: false });
+    } else if (char === ')' && groups.length > 1) {
+      closedGroup = groups.pop()!;
+      const parent = groups[groups.length - 1];
+      parent.hasQuantifier ||= closedGroup.hasQuantifier;
+      parent.hasAlternation ||= closedGroup.hasAlternation;
+    } else if (char === '|') {
+      current.hasAlternation = true;
+    }
+  }
+
+  return true;
+};
+
+// A single check of a custom rule; a page passes the rule when all of its conditions pass
+export const customRuleConditionSchema = z.discriminatedUnion('type', [
+  // Elements matching a CSS selector, e.g. header a[href^="tel:"]
+  z.object({
+    type: z.literal('selector'),
+    selector: z.string().min(1).max(500),
+    minCount: z.number().int().min(0).default(1),
+    maxCount: z.number().int().min(0).optional()
+  }),
+  // Regular expression tested against the page's visible text
+  z.object({
+    type: z.literal('bodyText'),
+    pattern: z.string().min(1).max(500)
+      .refine(isValidRegex, 'Invalid regular expression')
+      .refine(isSafeRegex, 'Nested repetition and backreferences are not supported, as they can make the pattern too slow'),
+    flags: z.string().regex(/^[imsu]*$/, 'Only the i, m, s and u flags are supported').default('i'),
+    shouldMatch: z.boolean().default(true)
+  }),
+  // Structured data type present in JSON-LD or microdata, e.g. FAQPage
+  z.object({
+    type: z.literal('schemaType'),
+    schemaType: z.string().min(1).max(100),
+    shouldExist: z.boolean().default(true)
+  }),
+  z.object({
+    type: z.literal('wordCount'),
+    min: z.number().int().min(0).optional(),
+    max: z.number().int().min(0).optional()
+  })
+]);
+
+export const insertCustomAuditRuleSchema = createInsertSchema(customAuditRules, {
+  name: z.string().min(1).max(200),
+  category: customRuleCategorySchema.optional(),
+  pageTypes: z.array(customRulePageTypeSchema).optional(),
+  conditions: z.array(customRuleConditionSchema).min(1).max(20),
+  failStatus: z.enum(['OFI', 'Priority OFI']).optional(),
+  importance: seoImportanceSchema.optional()
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProjectAuditSchema = createInsertSchema(projectAudits).omit({
+  id: true,
+  addedAt: true,
+});
+
+// A client's whole history: audits, analyses, tracked keywords and backlink profiles
+export const projectHistorySchema = z.object({
+  project: z.object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string().nullable(),
+    createdAt: z.string(),
+  }),
+  audits: z.array(z.object({
+    id: z.number(),
+    url: z.string(),
+    status: z.string(),
+    pagesAnalyzed: z.number(),
+    priorityOfiCount: z.number().nullable(),
+    ofiCount: z.number().nullable(),
+    okCount: z.number().nullable(),
+    scheduled: z.boolean(), // started by a project audit schedule rather than added by hand
+    createdAt: z.string(),
+    completedAt: z.string().nullable(),
+  })),
+  analyses: z.array(z.object({
+    id: z.number(),
+    url: z.string(),
+    overallScore: z.number(),
+    timestamp: z.string(),
+  })),
+  keywords: z.array(z.object({
+    id: z.number(),
+    keyword: z.string(),
+    targetUrl: z.string(),
+    isActive: z.boolean(),
+    rankings: z.array(rankPositionSchema),
+  })),
+  backlinkProfiles: z.array(z.object({
+    id: z.number(),
+    url: z.string(),
+    domain: z.string(),
+    totalBacklinks: z.number(),
+    newBacklinks: z.number(),
+    lostBacklinks: z.number(),
+    lastScanAt: z.string().nullable(),
+    snapshots: z.array(z.object({
+      scanDate: z.string(),
+      totalBacklinks: z.number(),
+      totalOutgoingLinks: z.number(),
+      brokenOutgoingLinks: z.number(),
+    })),
+  })),
+  // Everything above as one list, newest first
+  timeline: z.array(z.object({
+    type: z.enum(['audit', 'analysis', 'keyword', 'backlinkSnapshot']),
+    id: z.number(),
+    date: z.string(),
+    title: z.string(),
+    detail: z.string().nullable(),
+  })),
+});
+
 
 // Rival Audit Types
 export type AuditStatus = z.infer<typeof auditStatusSchema>;
@@ -274,6 +729,11 @@ export type AuditItem = z.infer<typeof auditItemSchema>;
 export type EnhancedAuditItem = z.infer<typeof enhancedAuditItemSchema>;
 export type PagePriority = z.infer<typeof pagePrioritySchema>;
 export type PageIssueSummary = z.infer<typeof pageIssueSummarySchema>;
+export type InternalLinkingSummary = z.infer<typeof internalLinkingSummarySchema>;
+export type DuplicateContentCluster = z.infer<typeof duplicateContentClusterSchema>;
+export type DuplicateContentSummary = z.infer<typeof duplicateContentSummarySchema>;
+export type KeywordCannibalizationGroup = z.infer<typeof keywordCannibalizationGroupSchema>;
+export type KeywordCannibalizationSummary = z.infer<typeof keywordCannibalizationSummarySchema>;
 export type OnPageAudit = z.infer<typeof onPageAuditSchema>;
 export type StructureNavigationAudit = z.infer<typeof structureNavigationAuditSchema>;
 export type ContactPageAudit = z.infer<typeof contactPageAuditSchema>;
@@ -282,6 +742,9 @@ export type LocationPagesAudit = z.infer<typeof locationPagesAuditSchema>;
 export type ServiceAreaPagesAudit = z.infer<typeof serviceAreaPagesAuditSchema>;
 export type RivalAudit = z.infer<typeof rivalAuditSchema>;
 export type EnhancedRivalAudit = z.infer<typeof enhancedRivalAuditSchema>;
+export type AuditItemChange = z.infer<typeof auditItemChangeSchema>;
+export type ScoreDelta = z.infer<typeof scoreDeltaSchema>;
+export type AuditComparison = z.infer<typeof auditComparisonSchema>;
 export type EnhancedOnPageAudit = z.infer<typeof enhancedOnPageAuditSchema>;
 export type EnhancedStructureNavigationAudit = z.infer<typeof enhancedStructureNavigationAuditSchema>;
 export type EnhancedContactPageAudit = z.infer<typeof enhancedContactPageAuditSchema>;
@@ -290,3 +753,22 @@ export type EnhancedLocationPagesAudit = z.infer<typeof enhancedLocationPagesAud
 export type EnhancedServiceAreaPagesAudit = z.infer<typeof enhancedServiceAreaPagesAuditSchema>;
 export type RivalAuditRecord = typeof rivalAudits.$inferSelect;
 export type InsertRivalAuditRecord = z.infer<typeof insertRivalAuditSchema>;
+export type AuditScheduleFrequency = z.infer<typeof auditScheduleFrequencySchema>;
+export type ProjectAuditSchedule = typeof projectAuditSchedules.$inferSelect;
+export type InsertProjectAuditSchedule = z.infer<typeof insertProjectAuditScheduleSchema>;
+export type CustomRulePageType = z.infer<typeof customRulePageTypeSchema>;
+export type CustomRuleCategory = z.infer<typeof customRuleCategorySchema>;
+export type CustomRuleCondition = z.infer<typeof customRuleConditionSchema>;
+export type CustomAuditRule = typeof customAuditRules.$inferSelect;
+export type InsertCustomAuditRule = z.infer<typeof insertCustomAuditRuleSchema>;
+export type ProjectAudit = typeof projectAudits.$inferSelect;
+export type InsertProjectAudit = z.infer<typeof insertProjectAuditSchema>;
+export type ProjectHistory = z.infer<typeof projectHistorySchema>;
+export type ContentDepthPage = z.infer<typeof contentDepthPageSchema>;
+export type CreateCompetitorComparison = z.infer<typeof createCompetitorComparisonSchema>;
+export type CompetitorGapFactor = z.infer<typeof competitorGapFactorSchema>;
+export type CompetitorContentDepthRow = z.infer<typeof competitorContentDepthRowSchema>;
+export type CompetitorScorecardRow = z.infer<typeof competitorScorecardRowSchema>;
+export type CompetitorGapReport = z.infer<typeof competitorGapReportSchema>;
+export type CompetitorComparisonDetail = z.infer<typeof competitorComparisonDetailSchema>;
+export type CompetitorComparison = typeof competitorComparisons.$inferSelect;
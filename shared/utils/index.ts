@@ -1,2 +1 @@
-// Placeholder for shared utilities
-// Add utility functions here as needed
\ No newline at end of file
+export * from './network';
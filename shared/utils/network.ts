@@ -0,0 +1,116 @@
+// Hosts that requests made by the server on a user's behalf must not reach:
+// this machine, private networks and address ranges reserved for special use
+
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],       // this network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],   // carrier-grade NAT
+  ['127.0.0.0', 8],     // loopback
+  ['169.254.0.0', 16],  // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],    // documentation
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],   // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24],  // documentation
+  ['224.0.0.0', 4],     // multicast
+  ['240.0.0.0', 4],     // reserved, including broadcast
+];
+
+function parseIPv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+// The eight 16-bit groups of an IPv6 address, or null if it is not one
+function parseIPv6(address: string): number[] | null {
+  let groups = address.split('%')[0]; // drop the zone, as in fe80::1%eth0
+  const lastColon = groups.lastIndexOf(':');
+  if (lastColon === -1) {
+    return null;
+  }
+
+  // A trailing dotted IPv4 address, as in ::ffff:127.0.0.1, takes two groups
+  const tail = groups.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const ipv4 = parseIPv4(tail);
+    if (ipv4 === null) {
+      return null;
+    }
+    groups = `${groups.slice(0, lastColon + 1)}${Math.floor(ipv4 / 65536).toString(16)}:${(ipv4 % 65536).toString(16)}`;
+  }
+
+  const halves = groups.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const toGroups = (half: string) => half === '' ? [] : half.split(':').map(group => /^[0-9a-f]{1,4}$/i.test(group) ? parseInt(group, 16) : NaN);
+  const head = toGroups(halves[0]);
+  const rest = halves.length === 2 ? toGroups(halves[1]) : [];
+  const zeros = 8 - head.length - rest.length;
+  if (halves.length === 2 ? zeros < 1 : zeros !== 0) {
+    return null;
+  }
+
+  const parsed = [...head, ...new Array(zeros).fill(0), ...rest];
+  return parsed.some(group => Number.isNaN(group)) ? null : parsed;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise reserved.
+ * IPv6 addresses that embed an IPv4 address are judged by that address.
+ * Returns false for anything that is not an IP address.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4 !== null) {
+    return PRIVATE_IPV4_RANGES.some(([range, bits]) => {
+      const size = 2 ** (32 - bits);
+      return Math.floor(ipv4 / size) === Math.floor(parseIPv4(range)! / size);
+    });
+  }
+
+  const groups = parseIPv6(address);
+  if (!groups) {
+    return false;
+  }
+  const embeddedIPv4 = (high: number, low: number) => `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+
+  // IPv4-compatible (including :: and ::1) and IPv4-mapped addresses
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return isPrivateAddress(embeddedIPv4(groups[6], groups[7]));
+  }
+  // NAT64
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPrivateAddress(embeddedIPv4(groups[6], groups[7]));
+  }
+  // 6to4
+  if (groups[0] === 0x2002) {
+    return isPrivateAddress(embeddedIPv4(groups[1], groups[2]));
+  }
+
+  return (groups[0] & 0xfe00) === 0xfc00   // unique local
+    || (groups[0] & 0xffc0) === 0xfe80     // link-local
+    || (groups[0] & 0xffc0) === 0xfec0     // site-local
+    || (groups[0] & 0xff00) === 0xff00     // multicast
+    || (groups[0] === 0x2001 && groups[1] === 0x0db8); // documentation
+}
+
+/**
+ * Whether a URL's hostname names this machine or a private network: localhost,
+ * single-label and .local or .internal names, and private or reserved IP addresses
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  return host === 'localhost'
+    || host.endsWith('.localhost')
+    || host.endsWith('.local')
+    || host.endsWith('.internal')
+    || (!host.includes('.') && !host.includes(':'))
+    || isPrivateAddress(host);
+}
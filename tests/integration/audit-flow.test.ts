@@ -209,8 +209,8 @@ describe('End-to-End Audit Flow Integration Test', () => {
       expect(finalUpdate.progress).toBe(100);
 
       // Verify crawler was called correctly
-      expect(mockCrawler.reset).toHaveBeenCalled();
-      expect(mockCrawler.crawlWebsite).toHaveBeenCalledWith(testUrl);
+      expect(mockCrawler.reset).not.toHaveBeenCalled();
+      expect(mockCrawler.crawlWebsite).toHaveBeenCalledWith(testUrl, expect.objectContaining({ signal: undefined }));
     }, 15000); // Extended timeout for integration test
 
     it('should verify Puppeteer crawler was used for main page', async () => {
@@ -219,11 +219,11 @@ describe('End-to-End Audit Flow Integration Test', () => {
       const result = await auditService.crawlAndAuditEnhanced(testUrl);
 
       // Verify crawler was called with correct URL
-      expect(mockCrawler.crawlWebsite).toHaveBeenCalledWith(testUrl);
+      expect(mockCrawler.crawlWebsite).toHaveBeenCalledWith(testUrl, expect.objectContaining({ signal: undefined }));
       expect(mockCrawler.crawlWebsite).toHaveBeenCalledTimes(1);
 
-      // Verify crawler reset was called to start fresh
-      expect(mockCrawler.reset).toHaveBeenCalled();
+      // Each audit crawls in its own session, so shared crawler state is never reset
+      expect(mockCrawler.reset).not.toHaveBeenCalled();
 
       // Verify the result contains data from the mocked Puppeteer response
       expect(result).toBeDefined();
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { apiKeyService, hashApiKey } from '../../server/services/api-keys';
+import { apiKeyRepository } from '../../server/repositories/api-key.repository';
+import { userRepository } from '../../server/repositories/user.repository';
+import { authenticateApiKey, getApiKeyScope } from '../../server/middleware/auth';
+
+const KEY = 'ro_test-key';
+
+const apiKey = (overrides: Record<string, any> = {}) => ({
+  id: 1,
+  userId: 'user-1',
+  workspaceId: null,
+  name: 'Nightly audits',
+  keyPrefix: KEY.slice(0, 11),
+  keyHash: hashApiKey(KEY),
+  scopes: ['audits:read'],
+  expiresAt: null,
+  lastUsedAt: new Date(),
+  lastUsedIp: '127.0.0.1',
+  revokedAt: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+const response = () => {
+  const res: any = { statusCode: 200, setHeader: vi.fn() };
+  res.status = vi.fn((code: number) => { res.statusCode = code; return res; });
+  res.json = vi.fn(() => res);
+  return res;
+};
+
+const request = (method: string, url: string) => ({
+  method,
+  originalUrl: url,
+  headers: { 'x-api-key': KEY },
+  ip: '127.0.0.1',
+  get: () => undefined
+}) as any;
+
+describe('API keys', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should map only the listed endpoints to a scope', () => {
+    expect(getApiKeyScope('POST', '/api/rival-audit')).toBe('audits:write');
+    expect(getApiKeyScope('POST', '/api/rival-audit/12/update-item')).toBe('audits:write');
+    expect(getApiKeyScope('GET', '/api/rival-audit/12')).toBe('audits:read');
+    expect(getApiKeyScope('GET', '/api/rival-audit/12/export')).toBe('export:read');
+    expect(getApiKeyScope('POST', '/api/analyze')).toBe('analysis:write');
+    expect(getApiKeyScope('GET', '/api/rival-audit/12/debug')).toBeNull();
+    expect(getApiKeyScope('DELETE', '/api/analysis-batches/3')).toBeNull();
+    expect(getApiKeyScope('GET', '/api/api-keys')).toBeNull();
+  });
+
+  it('should reject revoked and expired keys', async () => {
+    vi.spyOn(userRepository, 'findById').mockResolvedValue({ id: 'user-1' } as any);
+
+    vi.spyOn(apiKeyRepository, 'getApiKeyByHash').mockResolvedValue(apiKey({ revokedAt: new Date() }) as any);
+    await expect(apiKeyService.verifyApiKey(KEY)).rejects.toThrow('This API key has been revoked');
+
+    vi.spyOn(apiKeyRepository, 'getApiKeyByHash').mockResolvedValue(apiKey({ expiresAt: new Date(Date.now() - 1000) }) as any);
+    await expect(apiKeyService.verifyApiKey(KEY)).rejects.toThrow('This API key has expired');
+
+    await expect(apiKeyService.verifyApiKey('not-a-key')).rejects.toThrow('Invalid API key');
+  });
+
+  it('should only let a key call endpoints its scopes allow', async () => {
+    vi.spyOn(apiKeyRepository, 'getApiKeyByHash').mockResolvedValue(apiKey() as any);
+    vi.spyOn(userRepository, 'findById').mockResolvedValue({ id: 'user-1' } as any);
+
+    const allowed = request('GET', '/api/rival-audit/12');
+    const next = vi.fn();
+    await authenticateApiKey(allowed, response(), next);
+    expect(next).toHaveBeenCalled();
+    expect(allowed.user.id).toBe('user-1');
+    expect(allowed.apiKey.id).toBe(1);
+
+    const res = response();
+    const denied = vi.fn();
+    await authenticateApiKey(request('POST', '/api/rival-audit'), res, denied);
+    expect(denied).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
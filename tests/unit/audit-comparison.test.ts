@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { AuditComparisonService } from '../../server/services/audit/audit-comparison.service';
+
+const item = (name: string, status: string, extra: Record<string, any> = {}) => ({
+  name,
+  status,
+  importance: 'High',
+  category: 'Technical SEO',
+  ...extra
+});
+
+const audit = (id: number, items: any[], summary: Record<string, any>) => ({
+  id,
+  url: 'https://example.com',
+  completedAt: new Date(`2026-0${id}-01T00:00:00Z`),
+  results: { technicalSEO: { items }, summary }
+}) as any;
+
+describe('AuditComparisonService', () => {
+  it('should match items by category, name and page URL and classify changes', () => {
+    const service = new AuditComparisonService();
+
+    const baseline = audit(1, [
+      item('Title tag length', 'OFI', { pageUrl: 'https://www.example.com/about/' }),
+      item('Schema markup', 'OK'),
+      item('Canonical tag', 'OK'),
+      item('Legacy check', 'OFI')
+    ], { overallScore: 60, priorityOfiCount: 0, categoryScores: { technicalSEO: 55 } });
+
+    const current = audit(2, [
+      item('Title tag length', 'OK', { pageUrl: 'https://example.com/about' }),
+      item('Schema markup', 'Priority OFI'),
+      item('Canonical tag', 'OK'),
+      item('Image alt text', 'Priority OFI')
+    ], { overallScore: 64.5, priorityOfiCount: 2, categoryScores: { technicalSEO: 58 } });
+
+    const comparison = service.compareAudits(baseline, current);
+
+    expect(comparison.resolvedItems.map(change => change.name)).toEqual(['Title tag length']);
+    expect(comparison.resolvedItems[0].direction).toBe('improved');
+    expect(comparison.newPriorityOfis.map(change => change.name)).toEqual(['Schema markup', 'Image alt text']);
+    expect(comparison.statusChanges.find(change => change.name === 'Schema markup')?.direction).toBe('regressed');
+    expect(comparison.addedItems.map(change => change.name)).toEqual(['Image alt text']);
+    expect(comparison.removedItems.map(change => change.name)).toEqual(['Legacy check']);
+    expect(comparison.unchangedCount).toBe(1);
+    expect(comparison.scores.overallScore).toEqual({ previous: 60, current: 64.5, delta: 4.5 });
+    expect(comparison.scores.categoryScores.technicalSEO.delta).toBe(3);
+    expect(comparison.counts.ofiCount.delta).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { AuditProgressService } from '../../server/services/audit/audit-progress.service';
+
+describe('AuditProgressService', () => {
+  it('should deliver events only to subscribers of the same audit', () => {
+    const progress = new AuditProgressService();
+    const received: string[] = [];
+
+    const unsubscribe = progress.subscribe(1, event => received.push(event.type));
+    progress.publish(1, 'stage', { stage: 'Crawling website', progress: 10 });
+    progress.publish(2, 'stage', { stage: 'Crawling website', progress: 10 });
+    unsubscribe();
+    progress.publish(1, 'page', { url: 'https://example.com/' });
+
+    expect(received).toEqual(['stage']);
+  });
+
+  it('should number events per audit and replay history after a given id', () => {
+    const progress = new AuditProgressService();
+
+    progress.publish(7, 'discovered', { urlsDiscovered: 12, urlsQueued: 10 });
+    progress.publish(7, 'page', { url: 'https://example.com/about' });
+    progress.publish(7, 'error', { url: 'https://example.com/missing', message: 'HTTP 404' });
+
+    expect(progress.getHistory(7).map(event => event.id)).toEqual([1, 2, 3]);
+    expect(progress.getHistory(7, 2).map(event => event.type)).toEqual(['error']);
+    expect(progress.hasEvents(8)).toBe(false);
+  });
+});
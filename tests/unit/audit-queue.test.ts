@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AuditQueueService, getRetryDelay } from '../../server/services/audit/audit-queue.service';
+import { auditJobRepository } from '../../server/repositories/audit-job.repository';
+import { rivalAuditRepository } from '../../server/repositories/rival-audit.repository';
+import { auditProgressService } from '../../server/services/audit/audit-progress.service';
+import { webhookService } from '../../server/services/webhooks';
+
+const job = (retryAttempts: number, maxRetries: number = 3) => ({
+  id: 'job-1',
+  type: 'rival_audit',
+  status: 'processing',
+  config: { auditId: 5, url: 'https://example.com', auditType: 'enhanced' },
+  retryAttempts,
+  maxRetries,
+  lockedBy: 'other-worker',
+  lockedAt: new Date(Date.now() - 10 * 60 * 1000)
+});
+
+describe('Audit queue retry backoff', () => {
+  it('should double the delay for every retry attempt', () => {
+    expect(getRetryDelay(1, 30000, 900000)).toBe(30000);
+    expect(getRetryDelay(2, 30000, 900000)).toBe(60000);
+    expect(getRetryDelay(3, 30000, 900000)).toBe(120000);
+  });
+
+  it('should never exceed the maximum delay', () => {
+    expect(getRetryDelay(10, 30000, 900000)).toBe(900000);
+  });
+});
+
+describe('Audit queue failures', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const spyOnOutcomes = () => {
+    vi.spyOn(auditProgressService, 'publish').mockImplementation(() => {});
+    const dispatch = vi.spyOn(webhookService, 'dispatchAuditEvent').mockResolvedValue();
+    const updateAudit = vi.spyOn(rivalAuditRepository, 'updateAudit').mockResolvedValue({} as any);
+    const failAudit = vi.spyOn(rivalAuditRepository, 'failAudit').mockResolvedValue({ id: 5, status: 'failed' } as any);
+    const completeAudit = vi.spyOn(rivalAuditRepository, 'completeAudit').mockResolvedValue({} as any);
+    vi.spyOn(rivalAuditRepository, 'getAudit').mockResolvedValue({ id: 5, metadata: { ignoreRobots: true } } as any);
+    return { dispatch, updateAudit, failAudit, completeAudit };
+  };
+
+  it('should schedule a retry with backoff while attempts remain', async () => {
+    const service = new AuditQueueService({ retryBaseDelayMs: 30000 });
+    const { updateAudit, failAudit } = spyOnOutcomes();
+    const retryJob = vi.spyOn(auditJobRepository, 'retryJob').mockResolvedValue({ id: 'job-1' } as any);
+
+    await (service as any).handleJobFailure(job(1), 'worker-1', new Error('Crawl timed out'));
+
+    const [id, owner, errorMessage, nextRun] = retryJob.mock.calls[0];
+    expect([id, owner, errorMessage]).toEqual(['job-1', 'worker-1', 'Crawl timed out']);
+    expect(nextRun.getTime()).toBeGreaterThan(Date.now() + 50000);
+    expect(updateAudit).toHaveBeenCalledWith(5, expect.objectContaining({
+      status: 'pending',
+      metadata: expect.objectContaining({ ignoreRobots: true, progress: 0 })
+    }));
+    expect(failAudit).not.toHaveBeenCalled();
+  });
+
+  it('should leave the audit failed without placeholder results once retries are exhausted', async () => {
+    const service = new AuditQueueService();
+    const { dispatch, failAudit, completeAudit } = spyOnOutcomes();
+    const failJob = vi.spyOn(auditJobRepository, 'failJob').mockResolvedValue({ id: 'job-1' } as any);
+
+    await (service as any).handleJobFailure(job(3), 'worker-1', new Error('Crawl timed out'));
+
+    expect(failJob).toHaveBeenCalledWith('job-1', 'worker-1', 'Crawl timed out');
+    expect(failAudit).toHaveBeenCalledWith(5, 'Crawl timed out');
+    expect(completeAudit).not.toHaveBeenCalled();
+    expect(dispatch).toHaveBeenCalledWith('audit.failed', expect.objectContaining({ status: 'failed' }), { attempts: 4 });
+  });
+
+  it('should leave the audit alone when the job was reclaimed by another worker', async () => {
+    const service = new AuditQueueService();
+    const { updateAudit, failAudit, dispatch } = spyOnOutcomes();
+    vi.spyOn(auditJobRepository, 'retryJob').mockResolvedValue(undefined);
+    vi.spyOn(auditJobRepository, 'failJob').mockResolvedValue(undefined);
+
+    await (service as any).handleJobFailure(job(1), 'worker-1', new Error('Crawl timed out'));
+    await (service as any).handleJobFailure(job(3), 'worker-1', new Error('Crawl timed out'));
+
+    expect(updateAudit).not.toHaveBeenCalled();
+    expect(failAudit).not.toHaveBeenCalled();
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+
+  it('should recover orphaned jobs on behalf of the worker that held them', async () => {
+    const service = new AuditQueueService();
+    spyOnOutcomes();
+    vi.spyOn(auditJobRepository, 'getStaleJobs').mockResolvedValue([job(0)] as any);
+    vi.spyOn(rivalAuditRepository, 'getActiveAuditsWithoutJob').mockResolvedValue([]);
+    const retryJob = vi.spyOn(auditJobRepository, 'retryJob').mockResolvedValue({ id: 'job-1' } as any);
+
+    expect(await service.recoverOrphanedJobs()).toBe(1);
+    expect(retryJob.mock.calls[0][1]).toBe('other-worker');
+  });
+
+  it('should only store and report the results while the worker still holds the job', async () => {
+    const service = new AuditQueueService();
+    const { dispatch, completeAudit } = spyOnOutcomes();
+    const results = { summary: { totalFactors: 10 }, reachedMaxPages: false };
+    vi.spyOn(service as any, 'runAudit').mockResolvedValue(results);
+    const completeJob = vi.spyOn(auditJobRepository, 'completeJob').mockResolvedValue(undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await (service as any).processJob(job(0));
+
+    expect(completeJob).toHaveBeenCalled();
+    expect(completeAudit).not.toHaveBeenCalled();
+    expect(dispatch).not.toHaveBeenCalled();
+
+    completeJob.mockResolvedValue({ id: 'job-1' } as any);
+    completeAudit.mockResolvedValue({ id: 5, scheduleId: null } as any);
+    await (service as any).processJob(job(0));
+
+    expect(completeAudit).toHaveBeenCalledTimes(1);
+    expect(dispatch).toHaveBeenCalledWith('audit.completed', expect.objectContaining({ id: 5 }));
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getNextRunDate } from '../../server/services/audit/audit-schedule.service';
+import { auditAlertService, detectRegression } from '../../server/services/audit/audit-alert.service';
+import { rivalAuditRepository } from '../../server/repositories/rival-audit.repository';
+
+const delta = (previous: number | null, current: number | null) => ({
+  previous,
+  current,
+  delta: previous !== null && current !== null ? current - previous : null
+});
+
+const comparison = (weighted: ReturnType<typeof delta>, overall: ReturnType<typeof delta>, newPriorityOfis: any[] = []) => ({
+  scores: { weightedOverallScore: weighted, overallScore: overall, categoryScores: {} },
+  newPriorityOfis
+}) as any;
+
+describe('Scheduled audits', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should compute the next weekly and monthly run', () => {
+    const from = new Date('2026-01-31T09:00:00Z');
+
+    expect(getNextRunDate('weekly', from).toISOString()).toBe('2026-02-07T09:00:00.000Z');
+    expect(getNextRunDate('monthly', new Date('2026-03-15T09:00:00Z')).toISOString()).toBe('2026-04-15T09:00:00.000Z');
+  });
+
+  it('should flag a weighted score drop or new Priority OFIs as a regression', () => {
+    expect(detectRegression(comparison(delta(80, 76), delta(70, 72))).hasRegressed).toBe(true);
+    expect(detectRegression(comparison(delta(80, 82), delta(70, 72), [{ name: 'Missing H1' }])).newPriorityOfiCount).toBe(1);
+    expect(detectRegression(comparison(delta(80, 82), delta(70, 65))).hasRegressed).toBe(false);
+    // Without a weighted score the overall score is used
+    expect(detectRegression(comparison(delta(null, null), delta(70, 65))).scoreDelta).toBe(-5);
+  });
+
+  it('should compare with the previous audit of the same schedule and skip fallback audits', async () => {
+    const createdAt = new Date('2026-02-07T09:00:00Z');
+    const audit = { id: 9, url: 'https://example.com', status: 'completed', scheduleId: 4, errorMessage: null, createdAt } as any;
+    const getPrevious = vi.spyOn(rivalAuditRepository, 'getPreviousScheduledAudit').mockResolvedValue(undefined);
+
+    expect(await auditAlertService.checkScheduledAudit(audit)).toBeNull();
+    expect(getPrevious).toHaveBeenCalledWith(4, createdAt);
+
+    getPrevious.mockClear();
+    expect(await auditAlertService.checkScheduledAudit({ ...audit, errorMessage: 'Crawl timed out' })).toBeNull();
+    expect(getPrevious).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EnhancedAuthService } from '../../server/services/auth/enhanced-auth.service';
+import { authService } from '../../server/services/auth/auth.service';
+import { authSecurityRepository } from '../../server/repositories/auth-security.repository';
+import { storage } from '../../server/storage';
+
+const session = (lastActivity: Date) => ({
+  id: 'session-1',
+  userId: 'user-1',
+  deviceId: 'device-1',
+  ipAddress: '127.0.0.1',
+  userAgent: 'Mozilla/5.0',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  lastActivity
+});
+
+const attempt = (success: boolean, preAuthTokenId: string | null = 'token-1') => ({
+  id: 1,
+  email: 'agency@example.com',
+  ipAddress: '10.0.0.1',
+  success,
+  userAgent: null,
+  deviceFingerprint: null,
+  secondFactor: true,
+  preAuthTokenId,
+  createdAt: new Date()
+});
+
+const request = { ip: '10.0.0.9', get: () => undefined } as any;
+
+describe('Stored login sessions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should accept a recent session of the user without recording activity on every request', async () => {
+    vi.spyOn(authSecurityRepository, 'getSession').mockResolvedValue(session(new Date()));
+    const touch = vi.spyOn(authSecurityRepository, 'touchSession').mockResolvedValue();
+
+    expect(await EnhancedAuthService.isValidSession('session-1', 'user-1')).toBe(true);
+    expect(await EnhancedAuthService.isValidSession('session-1', 'user-2')).toBe(false);
+    expect(touch).not.toHaveBeenCalled();
+  });
+
+  it('should end sessions idle for longer than the timeout', async () => {
+    vi.spyOn(authSecurityRepository, 'getSession').mockResolvedValue(session(new Date(Date.now() - 8 * 24 * 60 * 60 * 1000)));
+    const deleteSessions = vi.spyOn(authSecurityRepository, 'deleteSessions').mockResolvedValue(1);
+
+    expect(await EnhancedAuthService.isValidSession('session-1', 'user-1')).toBe(false);
+    expect(deleteSessions).toHaveBeenCalledWith(['session-1']);
+  });
+
+  it('should reject the token of a revoked session', async () => {
+    vi.spyOn(authSecurityRepository, 'getSession').mockResolvedValue(undefined);
+    const token = authService.generateToken({ id: 'user-1', username: 'agency' } as any, { sessionId: 'session-1', deviceId: 'device-1' });
+
+    expect(authService.verifyToken(token).sessionId).toBe('session-1');
+    await expect(authService.getUserFromToken(token)).rejects.toThrow('Session expired or revoked');
+  });
+
+  it('should reject tokens that carry no session', async () => {
+    const getSession = vi.spyOn(authSecurityRepository, 'getSession');
+    const token = authService.generateToken({ id: 'user-1', username: 'agency' } as any);
+
+    await expect(authService.getUserFromToken(token)).rejects.toThrow('Session expired or revoked');
+    expect(getSession).not.toHaveBeenCalled();
+  });
+
+  it('should not accept a pre-auth token as an auth token', async () => {
+    const preAuthToken = authService.generatePreAuthToken({ id: 'user-1', username: 'agency' } as any, 'verify');
+
+    expect(() => authService.verifyToken(preAuthToken)).toThrow('Invalid or expired token');
+    await expect(authService.getUserFromPreAuthToken(preAuthToken, 'setup')).rejects.toThrow('Invalid or expired pre-auth token');
+  });
+});
+
+describe('Second-factor attempts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should allow a few codes per pre-auth token and none after one succeeded', async () => {
+    const getAttempts = vi.spyOn(authSecurityRepository, 'getPreAuthTokenAttempts');
+
+    getAttempts.mockResolvedValue([attempt(false), attempt(false)]);
+    expect(await EnhancedAuthService.canUsePreAuthToken('token-1')).toBe(true);
+
+    getAttempts.mockResolvedValue([attempt(false), attempt(false), attempt(false)]);
+    expect(await EnhancedAuthService.canUsePreAuthToken('token-1')).toBe(false);
+
+    getAttempts.mockResolvedValue([attempt(true)]);
+    expect(await EnhancedAuthService.canUsePreAuthToken('token-1')).toBe(false);
+  });
+
+  it('should not sign in again with a pre-auth token that was already used', async () => {
+    vi.spyOn(storage, 'getUser').mockResolvedValue({ id: 'user-1', username: 'agency', email: 'agency@example.com' } as any);
+    vi.spyOn(authSecurityRepository, 'getLockout').mockResolvedValue(undefined);
+    vi.spyOn(authSecurityRepository, 'getPreAuthTokenAttempts').mockResolvedValue([attempt(true)]);
+    const verify = vi.spyOn(EnhancedAuthService, 'verifyTwoFactorToken');
+    const preAuthToken = authService.generatePreAuthToken({ id: 'user-1', username: 'agency' } as any, 'verify');
+
+    await expect(authService.completeTwoFactorLogin(preAuthToken, '123456', request)).rejects.toThrow('Invalid or expired pre-auth token');
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it('should lock the account after failed codes from different IP addresses', async () => {
+    vi.spyOn(authSecurityRepository, 'createLoginAttempt').mockResolvedValue(attempt(false) as any);
+    const byIp = vi.spyOn(authSecurityRepository, 'getRecentLoginAttempts');
+    vi.spyOn(authSecurityRepository, 'getRecentSecondFactorAttempts').mockResolvedValue(
+      [1, 2, 3, 4, 5].map(n => ({ ...attempt(false, `token-${n}`), ipAddress: `10.0.0.${n}` }))
+    );
+    const upsertLockout = vi.spyOn(authSecurityRepository, 'upsertLockout').mockResolvedValue();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await EnhancedAuthService.recordLoginAttempt('agency@example.com', '10.0.0.5', false, request, { secondFactor: true, preAuthTokenId: 'token-5' });
+
+    expect(byIp).not.toHaveBeenCalled();
+    expect(upsertLockout).toHaveBeenCalledWith(expect.objectContaining({ email: 'agency@example.com', attempts: 5 }));
+  });
+
+  it('should not enable two-factor authentication with an exhausted setup token', async () => {
+    vi.spyOn(authSecurityRepository, 'getPreAuthTokenAttempts').mockResolvedValue([attempt(false), attempt(false), attempt(false)]);
+    const getTwoFactor = vi.spyOn(authSecurityRepository, 'getTwoFactor');
+    const preAuthToken = authService.generatePreAuthToken({ id: 'user-1', username: 'agency' } as any, 'setup');
+
+    await expect(authService.completeTwoFactorEnrolment(preAuthToken, '123456', request)).rejects.toThrow('Invalid or expired pre-auth token');
+    expect(getTwoFactor).not.toHaveBeenCalled();
+  });
+
+  it('should count failed codes of signed-in users towards the account lockout', async () => {
+    vi.spyOn(authSecurityRepository, 'getLockout').mockResolvedValue(undefined);
+    const createAttempt = vi.spyOn(authSecurityRepository, 'createLoginAttempt').mockResolvedValue(attempt(false) as any);
+    vi.spyOn(authSecurityRepository, 'getRecentSecondFactorAttempts').mockResolvedValue([attempt(false, null)]);
+
+    await expect(EnhancedAuthService.verifySecondFactor(
+      { id: 'user-1', email: 'agency@example.com' }, request, async () => false
+    )).rejects.toThrow('Invalid two-factor code');
+
+    expect(createAttempt).toHaveBeenCalledWith(expect.objectContaining({
+      email: 'agency@example.com',
+      success: false,
+      secondFactor: true,
+      preAuthTokenId: undefined
+    }));
+  });
+
+  it('should not check codes of a locked account', async () => {
+    vi.spyOn(authSecurityRepository, 'getLockout').mockResolvedValue({
+      email: 'agency@example.com',
+      attempts: 5,
+      lastAttempt: new Date(),
+      lockedUntil: new Date(Date.now() + 60 * 1000),
+      lockReason: 'Too many failed login attempts'
+    } as any);
+    const verify = vi.fn();
+
+    await expect(EnhancedAuthService.verifySecondFactor({ id: 'user-1', email: 'agency@example.com' }, request, verify))
+      .rejects.toThrow('Too many failed attempts');
+    expect(verify).not.toHaveBeenCalled();
+  });
+});
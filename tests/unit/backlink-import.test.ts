@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, normalizeBacklinkCsv } from '../../server/services/backlinks/backlink-import.service';
+
+const profile = { url: 'https://www.example.com/', domain: 'example.com' };
+
+describe('parseCsv', () => {
+  it('handles quotes, escaped quotes, line breaks in fields and tab separators', () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\r\n\r\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere']
+    ]);
+    expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('normalizeBacklinkCsv', () => {
+  it('maps Ahrefs columns and dedupes on source and target', () => {
+    const csv = [
+      'Referring page URL,Target URL,Anchor,Domain rating,UR,Nofollow,UGC,Sponsored',
+      'https://blog.com/post,https://example.com/services,AC repair,54,12,false,false,false',
+      'https://blog.com/post#comments,https://example.com/services,AC repair again,54,12,false,false,false',
+      'https://forum.com/t/1,https://example.com/,,30,5,false,true,false',
+      'https://example.com/about,https://example.com/,Home,80,20,false,false,false',
+      'https://blog.com/post,https://other.com/,Elsewhere,54,12,false,false,false'
+    ].join('\n');
+
+    const result = normalizeBacklinkCsv('ahrefs', csv, profile);
+
+    expect(result.rowsRead).toBe(5);
+    expect(result.skipped).toBe(2);
+    expect(result.links).toEqual([
+      expect.objectContaining({ sourceUrl: 'https://blog.com/post', sourceDomain: 'blog.com', anchorText: 'AC repair', isDofollow: true, domainAuthority: 54, pageAuthority: 12 }),
+      expect.objectContaining({ sourceUrl: 'https://forum.com/t/1', anchorText: null, isDofollow: false })
+    ]);
+  });
+
+  it('links GSC exports without a target column to the profile URL', () => {
+    const result = normalizeBacklinkCsv('gsc', 'Linking page,Last crawled\nhttps://news.com/story,2026-09-30', profile);
+    expect(result.links).toEqual([expect.objectContaining({ sourceUrl: 'https://news.com/story', targetUrl: 'https://www.example.com/' })]);
+  });
+
+  it('rejects an export without the format\'s source column', () => {
+    expect(() => normalizeBacklinkCsv('semrush', 'Referring page URL,Target URL\n', profile)).toThrow(/Semrush backlinks/);
+  });
+});
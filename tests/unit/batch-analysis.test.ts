@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { BatchAnalysisService, toBatchRow, sortBatchRows } from '../../server/services/analysis/batch-analysis.service';
+import { analysisBatchRepository } from '../../server/repositories/analysis-batch.repository';
+import { analysisRepository } from '../../server/repositories/analysis.repository';
+import { crawler } from '../../server/services/audit/crawler.service';
+import { analyzer } from '../../server/services/analysis/analyzer.service';
+import { webhookService } from '../../server/services/webhooks';
+
+describe('toBatchRow', () => {
+  it('reads the overall and category scores of the stored analysis', () => {
+    const row = toBatchRow(
+      { url: 'https://example.com/ac', status: 'completed', error: null },
+      {
+        id: 12,
+        overallScore: 74,
+        results: {
+          keywordAnalysis: { overallScore: { score: 81.6, category: 'good' } },
+          metaTagsAnalysis: { overallScore: { score: 55, category: 'needs-work' } },
+          eatAnalysis: {}
+        }
+      }
+    );
+
+    expect(row.analysisId).toBe(12);
+    expect(row.overallScore).toBe(74);
+    expect(row.keywordScore).toBe(82);
+    expect(row.metaTagsScore).toBe(55);
+    expect(row.eatScore).toBeNull();
+    expect(row.pageSpeedScore).toBeNull();
+  });
+
+  it('has no scores for pages not analyzed', () => {
+    const row = toBatchRow({ url: 'https://example.com/gone', status: 'failed', error: 'HTTP 404' });
+
+    expect(row.analysisId).toBeNull();
+    expect(row.error).toBe('HTTP 404');
+    expect(row.overallScore).toBeNull();
+    expect(row.contentScore).toBeNull();
+  });
+});
+
+describe('sortBatchRows', () => {
+  const rows = [
+    toBatchRow({ url: 'https://example.com/b', status: 'completed', error: null }, { id: 1, overallScore: 60, results: {} }),
+    toBatchRow({ url: 'https://example.com/c', status: 'pending', error: null }),
+    toBatchRow({ url: 'https://example.com/a', status: 'completed', error: null }, { id: 2, overallScore: 90, results: {} }),
+    toBatchRow({ url: 'https://example.com/d', status: 'completed', error: null }, { id: 3, overallScore: 60, results: {} })
+  ];
+
+  it('sorts by score with unscored pages last in both directions', () => {
+    expect(sortBatchRows(rows, 'overallScore', 'desc').map(row => row.url)).toEqual([
+      'https://example.com/a', 'https://example.com/b', 'https://example.com/d', 'https://example.com/c'
+    ]);
+    expect(sortBatchRows(rows, 'overallScore', 'asc').map(row => row.url)).toEqual([
+      'https://example.com/b', 'https://example.com/d', 'https://example.com/a', 'https://example.com/c'
+    ]);
+  });
+
+  it('sorts by URL without changing the input', () => {
+    expect(sortBatchRows(rows, 'url', 'desc').map(row => row.url)).toEqual([
+      'https://example.com/d', 'https://example.com/c', 'https://example.com/b', 'https://example.com/a'
+    ]);
+    expect(rows[0].url).toBe('https://example.com/b');
+  });
+});
+
+const batch = (id: number, lockedBy: string | null = null, lockedAt: Date | null = null) => ({
+  id,
+  userId: 'user-1',
+  name: null,
+  sitemapUrl: null,
+  status: 'processing',
+  totalPages: 2,
+  lockedBy,
+  lockedAt,
+  createdAt: new Date(),
+  completedAt: null
+});
+
+const page = (id: number) => ({
+  id,
+  batchId: 1,
+  url: `https://example.com/${id}`,
+  status: 'processing',
+  lockedBy: 'worker-1',
+  analysisId: null,
+  error: null,
+  completedAt: null
+});
+
+describe('BatchAnalysisService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('only runs the batches it wins the claim for', async () => {
+    const service = new BatchAnalysisService();
+    vi.spyOn(analysisBatchRepository, 'getClaimableBatches').mockResolvedValue([batch(1), batch(2)] as any);
+    vi.spyOn(analysisBatchRepository, 'claimBatch')
+      .mockResolvedValueOnce(batch(1) as any)
+      .mockResolvedValueOnce(undefined);
+    const startBatch = vi.spyOn(service as any, 'startBatch').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await (service as any).claimBatches();
+
+    expect(startBatch).toHaveBeenCalledTimes(1);
+    expect(startBatch).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }));
+  });
+
+  it('claims pages one at a time and completes the batch it still holds', async () => {
+    const service = new BatchAnalysisService();
+    const claimNextPage = vi.spyOn(analysisBatchRepository, 'claimNextPage')
+      .mockResolvedValueOnce(page(1) as any)
+      .mockResolvedValueOnce(page(2) as any)
+      .mockResolvedValue(undefined);
+    const analyzePage = vi.spyOn(service as any, 'analyzePage').mockResolvedValue(undefined);
+    const completeBatch = vi.spyOn(analysisBatchRepository, 'completeBatch').mockResolvedValue(batch(1) as any);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await (service as any).runBatch(batch(1));
+
+    expect(analyzePage.mock.calls.map(call => (call[0] as any).id).sort()).toEqual([1, 2]);
+    expect(claimNextPage.mock.calls.every(call => call[1] === (service as any).workerId)).toBe(true);
+    expect(completeBatch).toHaveBeenCalledWith(1, (service as any).workerId);
+  });
+
+  it('stops a batch another worker has claimed without completing it', async () => {
+    const service = new BatchAnalysisService();
+    (service as any).running.add(1);
+    vi.spyOn(analysisBatchRepository, 'heartbeat').mockResolvedValue([]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const claimNextPage = vi.spyOn(analysisBatchRepository, 'claimNextPage');
+    const completeBatch = vi.spyOn(analysisBatchRepository, 'completeBatch');
+
+    await (service as any).sendHeartbeat();
+    await (service as any).runBatch(batch(1));
+
+    expect(claimNextPage).not.toHaveBeenCalled();
+    expect(completeBatch).not.toHaveBeenCalled();
+  });
+
+  it('treats batches with a recent heartbeat from another server as running', () => {
+    const service = new BatchAnalysisService();
+
+    expect(service.isBatchRunning(batch(1, 'other-worker', new Date()) as any)).toBe(true);
+    expect(service.isBatchRunning(batch(1, 'other-worker', new Date(Date.now() - 10 * 60 * 1000)) as any)).toBe(false);
+    expect(service.isBatchRunning(batch(1) as any)).toBe(false);
+  });
+
+  it('sends analysis.completed for each page it stores', async () => {
+    const service = new BatchAnalysisService();
+    vi.spyOn(crawler, 'crawlPage').mockResolvedValue({ status: 'ok', statusCode: 200 } as any);
+    vi.spyOn(analyzer, 'analyzePage').mockResolvedValue({ overallScore: { score: 72, category: 'good' } } as any);
+    vi.spyOn(analysisRepository, 'create').mockResolvedValue({ id: 40, overallScore: 72, timestamp: new Date('2026-01-01T00:00:00Z') } as any);
+    const completePage = vi.spyOn(analysisBatchRepository, 'completePage').mockResolvedValue(true);
+    const dispatch = vi.spyOn(webhookService, 'dispatch').mockResolvedValue();
+
+    await (service as any).analyzePage(page(1), 'user-1');
+
+    expect(completePage).toHaveBeenCalledWith(1, (service as any).workerId, 40);
+    expect(dispatch).toHaveBeenCalledWith('analysis.completed', { userId: 'user-1', workspaceId: null }, {
+      analysis: { id: 40, url: 'https://example.com/1', overallScore: 72, targetKeyword: null, timestamp: '2026-01-01T00:00:00.000Z' }
+    });
+
+    dispatch.mockClear();
+    completePage.mockResolvedValue(false);
+    await (service as any).analyzePage(page(1), 'user-1');
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CompetitorGapService, buildCompetitorGapReport, matchContentDepth } from '../../server/services/audit/competitor-gap.service';
+import { rivalAuditRepository } from '../../server/repositories/rival-audit.repository';
+import { competitorComparisonRepository } from '../../server/repositories/competitor-comparison.repository';
+import { ContentDepthPage } from '../../shared/schema';
+
+function page(pageUrl: string, pageType: ContentDepthPage['pageType'], wordCount: number): ContentDepthPage {
+  return { pageUrl, pageTitle: pageUrl, pageType, h1: null, wordCount, headingCount: 0, imageCount: 0, hasSchema: false };
+}
+
+function audit(technicalItems: Array<{ name: string; status: string; pageUrl?: string }>, contentDepth: ContentDepthPage[] = []) {
+  return {
+    pagesAnalyzed: 10,
+    results: {
+      summary: { overallScore: 71.6, priorityOfiCount: 2, categoryScores: { 'Technical SEO': 64 } },
+      technicalSEO: { items: technicalItems.map(item => ({ ...item, importance: 'High', category: 'Technical SEO' })) },
+      contentDepth
+    }
+  };
+}
+
+describe('buildCompetitorGapReport', () => {
+  it('flags factors a competitor passes and the client fails, using the worst page status', () => {
+    const report = buildCompetitorGapReport([
+      audit([
+        { name: 'Canonical Tag', status: 'OK', pageUrl: '/a' },
+        { name: 'Canonical Tag', status: 'Priority OFI', pageUrl: '/b' },
+        { name: 'HTTPS', status: 'OK' }
+      ]),
+      audit([{ name: 'Canonical Tag', status: 'OK' }, { name: 'HTTPS', status: 'OFI' }]),
+      null
+    ]);
+
+    expect(report.factors).toEqual([
+      { category: 'Technical SEO', name: 'Canonical Tag', importance: 'High', statuses: ['Priority OFI', 'OK', null], passRates: [50, 100, null], gap: true },
+      { category: 'Technical SEO', name: 'HTTPS', importance: 'High', statuses: ['OK', 'OFI', null], passRates: [100, 0, null], gap: false }
+    ]);
+  });
+
+  it('puts every site side by side on the scorecard', () => {
+    const report = buildCompetitorGapReport([audit([]), audit([]), null]);
+    const row = (metric: string) => report.scorecard.find(entry => entry.metric === metric);
+
+    expect(row('Overall score')?.values).toEqual([72, 72, null]);
+    expect(row('Technical SEO')?.values).toEqual([64, 64, null]);
+    expect(row('Priority OFIs')?.higherIsBetter).toBe(false);
+  });
+});
+
+describe('matchContentDepth', () => {
+  it('pairs pages on the same topic and marks missing or thin client pages', () => {
+    const rows = matchContentDepth([
+      [page('https://ours.com/services/ac-repair', 'service', 400), page('https://ours.com/dallas-tx', 'location', 900)],
+      [page('https://rival.com/ac-repair-services', 'service', 1200), page('https://rival.com/furnace-repair', 'service', 700)],
+      [page('https://other.com/areas/dallas-tx/', 'serviceArea', 600)]
+    ]);
+
+    expect(rows.map(row => [row.pageType, row.topic, row.pages.map(entry => entry?.wordCount ?? null), row.wordCountGap, row.behind])).toEqual([
+      ['service', 'ac repair', [400, 1200, null], 800, true],
+      ['service', 'furnace repair', [null, 700, null], null, true],
+      ['location', 'dallas tx', [900, null, 600], -300, false]
+    ]);
+  });
+});
+
+describe('CompetitorGapService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('marks sites whose audit only holds fallback results as unavailable', async () => {
+    const comparison = { id: 1, name: 'Q3', status: 'pending', siteAuditId: 10, competitorAuditIds: [11, 12], report: null, createdAt: new Date(), completedAt: null } as any;
+    vi.spyOn(rivalAuditRepository, 'getAuditStatuses').mockResolvedValue([
+      { id: 10, url: 'https://ours.com', status: 'completed', pagesAnalyzed: 20, errorMessage: null },
+      { id: 11, url: 'https://rival.com', status: 'completed', pagesAnalyzed: 45, errorMessage: 'Navigation timeout' },
+      { id: 12, url: 'https://other.com', status: 'failed', pagesAnalyzed: 0, errorMessage: 'DNS lookup failed' }
+    ]);
+    const getAudit = vi.spyOn(rivalAuditRepository, 'getAudit');
+    const finish = vi.spyOn(competitorComparisonRepository, 'finishComparison').mockResolvedValue({ ...comparison, status: 'failed' });
+
+    const detail = await new CompetitorGapService().getComparisonDetail(comparison);
+
+    expect(detail.sites.map(site => site.status)).toEqual(['completed', 'failed', 'failed']);
+    expect(finish).toHaveBeenCalledWith(1, 'failed', null);
+    expect(getAudit).not.toHaveBeenCalled();
+  });
+});
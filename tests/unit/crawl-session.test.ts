@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { CrawlSession } from '../../server/services/audit/crawling/crawl-session';
+
+describe('CrawlSession', () => {
+  const sessions: CrawlSession[] = [];
+
+  const createSession = (url: string, options = {}) => {
+    const session = new CrawlSession(url, options);
+    sessions.push(session);
+    return session;
+  };
+
+  afterEach(() => {
+    sessions.splice(0).forEach(session => session.destroy());
+  });
+
+  it('should derive the site hostname and page limit from its options', () => {
+    const session = createSession('https://example.com/about', { maxPages: 40 });
+
+    expect(session.currentSite).toBe('example.com');
+    expect(session.maxPages).toBe(40);
+    expect(session.stats.startTime).toBeGreaterThan(0);
+    expect(session.isFinished()).toBe(false);
+  });
+
+  it('should keep frontier, stats and caches isolated between sessions', () => {
+    const first = createSession('https://first.com');
+    const second = createSession('https://second.com');
+
+    first.crawledUrls.add('https://first.com/services');
+    first.pendingUrls.push('https://first.com/contact');
+    first.stats.pagesCrawled = 12;
+    first.cmsDetectionService.detectCMSAndFingerprint('<link href="/wp-content/theme.css">', {}, 'https://first.com');
+
+    expect(second.crawledUrls.size).toBe(0);
+    expect(second.pendingUrls).toHaveLength(0);
+    expect(second.stats.pagesCrawled).toBe(0);
+    expect(first.cmsDetectionService.getDetectedCMS()).toBe('WordPress');
+    expect(second.cmsDetectionService.getDetectedCMS()).toBeNull();
+  });
+
+  it('should clear its own state on reset without touching other sessions', () => {
+    const first = createSession('https://first.com');
+    const second = createSession('https://second.com');
+
+    first.crawledUrls.add('https://first.com/a');
+    second.crawledUrls.add('https://second.com/b');
+
+    first.reset();
+
+    expect(first.crawledUrls.size).toBe(0);
+    expect(second.crawledUrls.has('https://second.com/b')).toBe(true);
+  });
+
+  it('should record an end time when finished', () => {
+    const session = createSession('https://example.com');
+    session.finish();
+
+    expect(session.isFinished()).toBe(true);
+    expect(session.stats.endTime).toBeGreaterThanOrEqual(session.stats.startTime);
+  });
+
+  it('should throw once its abort signal fires', () => {
+    const controller = new AbortController();
+    const session = createSession('https://example.com', { signal: controller.signal });
+
+    expect(() => session.throwIfAborted()).not.toThrow();
+
+    controller.abort(new Error('Audit cancelled'));
+    expect(() => session.throwIfAborted()).toThrow('Audit cancelled');
+  });
+});
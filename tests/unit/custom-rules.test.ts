@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { CustomRuleAnalyzer } from '../../server/services/audit/analyzers/custom-rule-analyzer.service';
+import { customRuleConditionSchema } from '../../shared/schema';
+import { customRuleConditionSchema as barrelCustomRuleConditionSchema } from '../../shared/schema/rival-audit';
+
+const page = (url: string, rawHtml: string, bodyText = '', wordCount = 400) => ({
+  url,
+  title: url,
+  rawHtml,
+  bodyText,
+  wordCount,
+  schemaTypes: []
+}) as any;
+
+const rule = (overrides: Record<string, any>) => ({
+  id: 1,
+  userId: 'user-1',
+  projectId: null,
+  name: 'Custom Rule',
+  description: null,
+  category: 'technicalSEO',
+  pageTypes: [],
+  conditions: [],
+  failStatus: 'OFI',
+  importance: 'Medium',
+  notes: null,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+}) as any;
+
+const faqSchema = '<script type="application/ld+json">{"@context":"https://schema.org","@graph":[{"@type":"WebPage"},{"@type":"FAQPage"}]}</script>';
+
+describe('Custom audit rules', () => {
+  it('should flag pages in scope that fail any condition', () => {
+    const analysis = new CustomRuleAnalyzer().analyze({
+      homepage: page('https://example.com/', '<header><a href="tel:5551234">Call</a></header>'),
+      servicePages: [
+        page('https://example.com/repair', `<html><head>${faqSchema}</head><body><div class="faq"></div></body></html>`),
+        page('https://example.com/install', '<body><div class="faq"></div></body>')
+      ],
+      locationPages: [],
+      serviceAreaPages: [],
+      otherPages: [],
+      hasSitemapXml: false
+    }, [
+      rule({
+        id: 1,
+        name: 'Service FAQ With Schema',
+        category: 'contentQuality',
+        pageTypes: ['service'],
+        conditions: [{ type: 'selector', selector: '.faq', minCount: 1 }, { type: 'schemaType', schemaType: 'FAQPage', shouldExist: true }],
+        failStatus: 'Priority OFI',
+        importance: 'High',
+        notes: 'House rule: every service page needs an FAQ block.'
+      }),
+      rule({
+        id: 2,
+        name: 'Clickable Header Phone',
+        conditions: [{ type: 'selector', selector: 'header a[href^="tel:"]', minCount: 1 }]
+      })
+    ]);
+
+    expect(analysis.pageFactors.map(result => `${result.page.url} ${result.category}: ${result.factors.map(f => f.name).join(', ')}`)).toEqual([
+      'https://example.com/repair technicalSEO: Clickable Header Phone',
+      'https://example.com/install contentQuality: Service FAQ With Schema',
+      'https://example.com/install technicalSEO: Clickable Header Phone'
+    ]);
+
+    const faqFactor = analysis.pageFactors[1].factors[0];
+    expect(faqFactor.status).toBe('Priority OFI');
+    expect(faqFactor.importance).toBe('High');
+    expect(faqFactor.notes).toBe('What: No FAQPage structured data found.\n\nHouse rule: every service page needs an FAQ block.');
+    expect(analysis.siteFactors).toEqual([]);
+  });
+
+  it('should check body text and word count, and report passing rules once', () => {
+    const analysis = new CustomRuleAnalyzer().analyze({
+      homepage: page('https://example.com/', '<body></body>', 'Licensed and insured since 1998', 120),
+      servicePages: [],
+      locationPages: [],
+      serviceAreaPages: [],
+      otherPages: [],
+      hasSitemapXml: false
+    }, [
+      rule({ id: 1, name: 'Mentions Licensing', conditions: [{ type: 'bodyText', pattern: 'licen[cs]ed', flags: 'i', shouldMatch: true }] }),
+      rule({ id: 2, name: 'Long Enough', conditions: [{ type: 'wordCount', min: 300 }] }),
+      rule({ id: 3, name: 'Location Map', pageTypes: ['location'], conditions: [{ type: 'selector', selector: 'iframe', minCount: 1 }] })
+    ]);
+
+    expect(analysis.pageFactors).toHaveLength(1);
+    expect(analysis.pageFactors[0].factors[0].notes).toBe('What: The page has 120 words, below the minimum of 300.');
+    expect(analysis.siteFactors.map(({ factor }) => `${factor.name}: ${factor.status}`)).toEqual([
+      'Mentions Licensing: OK',
+      'Location Map: N/A'
+    ]);
+  });
+
+  it('should reject invalid regular expressions', () => {
+    expect(customRuleConditionSchema.safeParse({ type: 'bodyText', pattern: '(unclosed' }).success).toBe(false);
+    expect(customRuleConditionSchema.parse({ type: 'selector', selector: '.faq' })).toEqual({ type: 'selector', selector: '.faq', minCount: 1 });
+  });
+
+  it('should reject patterns prone to catastrophic backtracking', () => {
+    for (const schema of [customRuleConditionSchema, barrelCustomRuleConditionSchema]) {
+      const isAccepted = (pattern: string) => schema.safeParse({ type: 'bodyText', pattern }).success;
+
+      expect(['(a+)+$', '(\\w+\\s?)*$', '(a|ab)*c', '(\\d)\\1'].filter(isAccepted)).toEqual([]);
+      expect(['call (us )?today', '(?:https?://)?example\\.com', '\\d{3}-\\d{4}', 'open (24|twenty-four) hours'].every(isAccepted)).toBe(true);
+    }
+  });
+
+  it('should stop a pattern that runs too long and skip it on later pages', () => {
+    const slowText = `${'a'.repeat(40)}!`;
+    const start = Date.now();
+    const analysis = new CustomRuleAnalyzer().analyze({
+      homepage: page('https://example.com/', '<body></body>', slowText),
+      servicePages: [page('https://example.com/repair', '<body></body>', slowText)],
+      locationPages: [],
+      serviceAreaPages: [],
+      otherPages: [],
+      hasSitemapXml: false
+    }, [
+      // Stored before patterns were checked for backtracking
+      rule({ id: 1, name: 'Legacy Pattern', conditions: [{ type: 'bodyText', pattern: '(a+)+$', shouldMatch: false }] })
+    ]);
+
+    expect(Date.now() - start).toBeLessThan(2000);
+    expect(analysis.pageFactors.map(result => result.factors[0].notes)).toEqual([
+      'What: The pattern /(a+)+$/ took too long to run and was skipped.',
+      'What: The pattern /(a+)+$/ took too long to run and was skipped.'
+    ]);
+  });
+});
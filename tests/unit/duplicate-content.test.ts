@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { ContentSimilarityService } from '../../server/services/audit/crawling/content-similarity.service';
+import { DuplicateContentAnalyzer } from '../../server/services/audit/analyzers/duplicate-content-analyzer.service';
+
+const template = (city: string) =>
+  `Looking for reliable plumbing in ${city}? Our licensed plumbers have served homeowners for over twenty years. ` +
+  'We repair leaking pipes, install water heaters, clear blocked drains and handle emergency callouts around the clock. ' +
+  'Every job comes with upfront pricing, a written warranty and a clean-up guarantee so your home is left spotless. ' +
+  `Call today to book a visit from the most trusted plumbing team in ${city} and the surrounding neighborhoods.`;
+
+const unique = (topic: string) =>
+  `This guide to ${topic} covers ${Array.from({ length: 60 }, (_, i) => `${topic}-point-${i}`).join(' ')}.`;
+
+const footer = 'Example Plumbing is a family owned company serving the tri-county area since 1998. ' +
+  `Quick links ${Array.from({ length: 400 }, (_, i) => `footer-link-${i}`).join(' ')}.`;
+
+const page = (url: string, bodyText: string, title: string, h1 = title, rawHtml = '') => ({
+  url,
+  title,
+  metaDescription: '',
+  bodyText,
+  rawHtml,
+  headings: { h1: [h1], h2: [], h3: [] },
+  h1s: [h1]
+}) as any;
+
+describe('Duplicate content clustering', () => {
+  it('should cluster templated pages and leave unique pages alone', () => {
+    const clusters = new ContentSimilarityService().clusterNearDuplicates([
+      { url: '/plumber-springfield', text: template('Springfield') },
+      { url: '/plumber-shelbyville', text: template('Shelbyville') },
+      { url: '/plumber-ogdenville', text: template('Ogdenville') },
+      { url: '/water-heaters', text: unique('heaters') },
+      { url: '/drain-cleaning', text: unique('drains') }
+    ], 0.7);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].urls).toEqual(['/plumber-springfield', '/plumber-shelbyville', '/plumber-ogdenville']);
+    expect(clusters[0].similarity).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it('should still cluster templated pages when they make up most of the site', () => {
+    const cities = ['Springfield', 'Shelbyville', 'Ogdenville', 'North Haverbrook', 'Capital City', 'Brockway'];
+    const clusters = new ContentSimilarityService().clusterNearDuplicates([
+      ...cities.map(city => ({ url: `/plumber-${city}`, text: template(city) })),
+      { url: '/about', text: unique('about') }
+    ], 0.7);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].urls).toEqual(cities.map(city => `/plumber-${city}`));
+  });
+
+  it('should ignore the navigation and footer text every page shares', () => {
+    const html = `<html><body><main><p>Content</p></main><footer>${footer}</footer></body></html>`;
+    const analysis = new DuplicateContentAnalyzer().analyze({
+      homepage: page('https://example.com/', `${unique('home')} ${footer}`, 'Home', 'Home', html),
+      servicePages: [
+        page('https://example.com/water-heaters', `${unique('heaters')} ${footer}`, 'Water Heaters', 'Water Heaters', html),
+        page('https://example.com/drain-cleaning', `${unique('drains')} ${footer}`, 'Drain Cleaning', 'Drain Cleaning', html)
+      ],
+      locationPages: [],
+      serviceAreaPages: [],
+      otherPages: [],
+      hasSitemapXml: false
+    });
+
+    expect(analysis.summary.clusters.filter(cluster => cluster.type === 'content')).toHaveLength(0);
+  });
+
+  it('should report one item per cluster listing every page', () => {
+    const analysis = new DuplicateContentAnalyzer().analyze({
+      homepage: page('https://example.com/', unique('home'), 'Example Plumbing'),
+      servicePages: [page('https://example.com/water-heaters', unique('heaters'), 'Plumbing Services')],
+      locationPages: [
+        page('https://example.com/springfield', unique('springfield'), 'Plumbing Services', 'Springfield'),
+        page('https://example.com/shelbyville', unique('shelbyville'), 'Plumbing Services ', 'Shelbyville')
+      ],
+      serviceAreaPages: [],
+      otherPages: [],
+      hasSitemapXml: false
+    });
+
+    const titleCluster = analysis.summary.clusters.find(cluster => cluster.type === 'title')!;
+    expect(titleCluster.pages.map(p => p.url)).toEqual([
+      'https://example.com/water-heaters',
+      'https://example.com/springfield',
+      'https://example.com/shelbyville'
+    ]);
+
+    expect(analysis.clusterFactors).toHaveLength(1);
+    expect(analysis.clusterFactors[0].status).toBe('Priority OFI');
+    expect(analysis.clusterFactors[0].notes).toContain('https://example.com/shelbyville');
+    expect(analysis.siteFactors.map(factor => factor.name)).toEqual([
+      'Near-Duplicate Page Content',
+      'Duplicate Meta Descriptions',
+      'Duplicate H1 Headings'
+    ]);
+  });
+});
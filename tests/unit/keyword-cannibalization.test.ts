@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { KeywordCannibalizationAnalyzer, KEYWORD_CANNIBALIZATION_CATEGORY } from '../../server/services/audit/analyzers/keyword-cannibalization-analyzer.service';
+import { EnhancedAuditAnalyzer } from '../../server/services/audit/enhanced-analyzer.service';
+import { PagePerformanceIndex } from '../../server/services/search-console/search-performance.service';
+
+const page = (url: string, title: string, h1: string, wordCount = 300) => ({
+  url,
+  title,
+  metaDescription: '',
+  bodyText: `${h1} from our licensed plumbers. We have served homeowners for twenty years with upfront pricing.`,
+  headings: { h1: [h1], h2: [], h3: [] },
+  h1s: [h1],
+  rawHtml: `<html><head><title>${title}</title></head><body><h1>${h1}</h1></body></html>`,
+  h2s: [],
+  h3s: [],
+  links: { internal: [], external: [], broken: [] },
+  images: { total: 0, withAlt: 0, withoutAlt: 0, largeImages: 0, altTexts: [] },
+  schemaTypes: [],
+  pageLoadSpeed: { score: 90, firstContentfulPaint: 1000, totalBlockingTime: 0, largestContentfulPaint: 1500 },
+  keywordDensity: {},
+  contentStructure: { hasFAQs: false, hasTable: false, hasLists: false, hasVideo: false, hasEmphasis: false },
+  wordCount
+}) as any;
+
+const siteStructure = {
+  homepage: page('https://example.com/', 'Example Plumbing | Springfield Plumbers', 'Trusted Plumbers in Springfield'),
+  contactPage: page('https://example.com/contact', 'Contact | Example Plumbing', 'Contact Us'),
+  servicePages: [
+    page('https://example.com/water-heater-repair', 'Water Heater Repair | Example Plumbing', 'Water Heater Repair', 400),
+    page('https://example.com/drain-cleaning', 'Drain Cleaning | Example Plumbing', 'Drain Cleaning', 500)
+  ],
+  locationPages: [
+    page('https://example.com/springfield-drain-cleaning', 'Drain Cleaning in Springfield | Example Plumbing', 'Drain Cleaning in Springfield'),
+    page('https://example.com/shelbyville-drain-cleaning', 'Drain Cleaning in Shelbyville | Example Plumbing', 'Drain Cleaning in Shelbyville')
+  ],
+  serviceAreaPages: [],
+  otherPages: [
+    page('https://example.com/blog/water-heater-repair-service', 'Water Heater Repair Services | Example Plumbing', 'Water Heater Repair Services', 900)
+  ],
+  hasSitemapXml: false
+} as any;
+
+describe('Keyword cannibalization', () => {
+  it('should group pages targeting the same intent and suggest the service page as canonical', async () => {
+    const analysis = await new KeywordCannibalizationAnalyzer().analyze(siteStructure);
+
+    expect(analysis.summary.pagesAnalyzed).toBe(6);
+    expect(analysis.summary.groups).toHaveLength(1);
+
+    const [group] = analysis.summary.groups;
+    expect(group.canonicalUrl).toBe('https://example.com/water-heater-repair');
+    expect(group.pages.map(p => p.url)).toEqual([
+      'https://example.com/water-heater-repair',
+      'https://example.com/blog/water-heater-repair-service'
+    ]);
+
+    expect(analysis.groupFactors).toHaveLength(1);
+    expect(analysis.groupFactors[0].status).toBe('OFI');
+    expect(analysis.groupFactors[0].notes).toContain('How: Make https://example.com/water-heater-repair the canonical page');
+    expect(analysis.siteFactors).toEqual([]);
+  });
+
+  it('should prefer the page with the most Search Console clicks', async () => {
+    const searchPerformance = new PagePerformanceIndex([
+      { page: 'https://example.com/blog/water-heater-repair-service/', clicks: 40, impressions: 2000, ctr: 0.02, position: 6, topQueries: [] },
+      { page: 'https://example.com/water-heater-repair', clicks: 3, impressions: 900, ctr: 0.003, position: 14, topQueries: [] }
+    ]);
+
+    const analysis = await new KeywordCannibalizationAnalyzer().analyze(siteStructure, searchPerformance);
+
+    expect(analysis.summary.groups[0].canonicalUrl).toBe('https://example.com/blog/water-heater-repair-service');
+  });
+
+  it('should pass when every page targets its own keyword', async () => {
+    const analysis = await new KeywordCannibalizationAnalyzer().analyze({
+      ...siteStructure,
+      otherPages: []
+    });
+
+    expect(analysis.summary.groups).toEqual([]);
+    expect(analysis.siteFactors.map(factor => factor.status)).toEqual(['OK']);
+  });
+
+  it('should keep the group notes through the full audit analysis', async () => {
+    const results = await new EnhancedAuditAnalyzer().analyzeWebsite(siteStructure);
+
+    const items = results.contentQuality.items.filter(item => item.category === KEYWORD_CANNIBALIZATION_CATEGORY && item.status !== 'OK');
+    expect(items).toHaveLength(1);
+    expect(items[0].notes).toContain('How: Make https://example.com/water-heater-repair the canonical page');
+    expect(items[0].notes).toContain('https://example.com/blog/water-heater-repair-service');
+  });
+});
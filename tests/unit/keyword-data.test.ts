@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeKeywordDataset, parseMetric } from '../../server/services/keywords/keyword-dataset.service';
+import { simulateKeywordData, simulateKeywordSuggestions } from '../../server/services/keywords/keyword-data-provider.service';
+import { ValidationError } from '../../server/utils/errors';
+
+describe('normalizeKeywordDataset', () => {
+  it('reads a Keyword Planner export below its title rows', () => {
+    const csv = [
+      'Keyword Stats 2026-10-01 at 09_00_00',
+      'October 1, 2025 - September 30, 2026',
+      'Keyword\tCurrency\tAvg. monthly searches\tCompetition\tCompetition (indexed value)\tTop of page bid (low range)\tTop of page bid (high range)\tSearches: Jan 2026\tSearches: Feb 2026',
+      'AC Repair Dallas\tUSD\t1,300\tHigh\t87\t12.10\t41.35\t1200\t1400',
+      'ac repair dallas\tUSD\t1,000\tHigh\t80\t10.00\t40.00\t900\t1100',
+      'emergency ac repair\tUSD\t1K – 10K\tMedium\t\t\t\t\t',
+      '\tUSD\t50\tLow\t10\t1\t2\t50\t50'
+    ].join('\n');
+
+    const { entries, rowsRead, skipped } = normalizeKeywordDataset('csv', csv);
+
+    expect(rowsRead).toBe(4);
+    expect(skipped).toBe(1);
+    expect(entries).toEqual([
+      { keyword: 'ac repair dallas', searchVolume: 1300, competition: 87, cpc: 41.35, monthlySearches: [1200, 1400] },
+      { keyword: 'emergency ac repair', searchVolume: null, competition: null, cpc: null, monthlySearches: null }
+    ]);
+  });
+
+  it('reads a JSON array or an object with a keywords array', () => {
+    const keywords = [{ keyword: 'Furnace Repair', searchVolume: 880, competition: 42, cpc: '$8.50', monthlySearches: [700, 900] }];
+
+    expect(normalizeKeywordDataset('json', JSON.stringify(keywords)).entries).toEqual([
+      { keyword: 'furnace repair', searchVolume: 880, competition: 42, cpc: 8.5, monthlySearches: [700, 900] }
+    ]);
+    expect(normalizeKeywordDataset('json', JSON.stringify({ keywords })).entries).toHaveLength(1);
+  });
+
+  it('rejects exports without a keyword column', () => {
+    expect(() => normalizeKeywordDataset('csv', 'Query term,Volume\nhvac,10')).toThrow(ValidationError);
+    expect(() => normalizeKeywordDataset('json', '{"rows": []}')).toThrow(ValidationError);
+  });
+});
+
+describe('parseMetric', () => {
+  it('reads counts, suffixes and prices but not ranges', () => {
+    expect(parseMetric('2,400')).toBe(2400);
+    expect(parseMetric('1.5K')).toBe(1500);
+    expect(parseMetric('$3.20')).toBe(3.2);
+    expect(parseMetric(12)).toBe(12);
+    expect(parseMetric('100 – 1K')).toBeNull();
+    expect(parseMetric('High')).toBeNull();
+  });
+});
+
+describe('simulated keyword data', () => {
+  it('is flagged as estimated and stable between requests', () => {
+    const data = simulateKeywordData('hvac tune up');
+
+    expect(data.source).toBe('simulated');
+    expect(data.isEstimated).toBe(true);
+    expect(data.trend).toHaveLength(12);
+    expect(simulateKeywordData('hvac tune up')).toEqual(data);
+  });
+
+  it('suggests variations of the keyword, most relevant first', () => {
+    const suggestions = simulateKeywordSuggestions('Plumber');
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    expect(suggestions.every(suggestion => suggestion.keyword.includes('plumber'))).toBe(true);
+    expect(suggestions[0].relevance).toBe(100);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { LinkGraphService } from '../../server/services/audit/crawling/link-graph.service';
+import { InternalLinkAnalyzer } from '../../server/services/audit/analyzers/internal-link-analyzer.service';
+
+const site = 'https://example.com';
+
+const crawled = (path: string, links: string[]) => ({
+  url: `${site}${path}`,
+  title: path,
+  status: 'success',
+  links: { internal: links.map(link => `${site}${link}`), external: [] }
+}) as any;
+
+const buildGraph = () => new LinkGraphService().buildLinkGraph({
+  homepageUrl: `${site}/`,
+  pages: [
+    crawled('/', ['/services', '/contact', '/old-about#team']),
+    crawled('/services', ['/', '/services/repair', '/contact']),
+    crawled('/services/repair', ['/', '/services']),
+    crawled('/contact', []),
+    crawled('/locations/springfield', ['/'])
+  ],
+  sitemapUrls: [`${site}/`, `${site}/locations/springfield`, `${site}/services`],
+  linkTargets: {
+    [`${site}/old-about`]: {
+      url: `${site}/old-about`,
+      finalUrl: `${site}/about`,
+      finalStatusCode: 200,
+      hops: [{ url: `${site}/old-about`, statusCode: 301, location: `${site}/about` }],
+      isLoop: false
+    }
+  }
+});
+
+describe('Internal link graph', () => {
+  it('should compute degrees, click depth and PageRank', () => {
+    const graph = buildGraph();
+    const node = (path: string) => graph.nodes[`${site}${path}`];
+
+    expect(node('/services').inDegree).toBe(2);
+    expect(node('/services').outDegree).toBe(3);
+    expect(node('/services/repair').clickDepth).toBe(2);
+    expect(node('/locations/springfield').clickDepth).toBeNull();
+    // Links through redirects count for the destination
+    expect(node('/about').inDegree).toBe(1);
+    expect(node('/old-about')).toBeUndefined();
+
+    const totalRank = Object.values(graph.nodes).reduce((sum, graphNode) => sum + graphNode.pageRank, 0);
+    expect(totalRank).toBeCloseTo(1, 5);
+    expect(node('/').authority).toBe(100);
+    expect(node('/services').pageRank).toBeGreaterThan(node('/locations/springfield').pageRank);
+
+    expect(graph.orphanPages).toEqual([`${site}/locations/springfield`]);
+    expect(graph.deadEndPages).toEqual([`${site}/contact`]);
+  });
+
+  it('should flag starved location pages and dead ends', () => {
+    const graph = buildGraph();
+    const page = (path: string) => ({ url: `${site}${path}`, title: path }) as any;
+
+    const analysis = new InternalLinkAnalyzer().analyze({
+      homepage: page('/'),
+      contactPage: page('/contact'),
+      servicePages: [page('/services'), page('/services/repair')],
+      locationPages: [page('/locations/springfield')],
+      serviceAreaPages: [],
+      otherPages: [],
+      hasSitemapXml: true,
+      linkGraph: graph
+    });
+
+    const factorsFor = (path: string) => analysis.pageFactors
+      .find(result => result.page.url === `${site}${path}`)?.factors.map(factor => `${factor.name}: ${factor.status}`);
+
+    expect(factorsFor('/locations/springfield')).toEqual([
+      'Internal Link Authority: Priority OFI',
+      'Click Depth From Homepage: Priority OFI'
+    ]);
+    expect(factorsFor('/contact')).toEqual(['Dead-End Pages: OFI']);
+    expect(factorsFor('/services')).toBeUndefined();
+
+    expect(analysis.summary?.starvedPageCount).toBe(2); // the location page and the single-link repair page
+    expect(analysis.summary?.pages[0].url).toBe(`${site}/locations/springfield`);
+    expect(analysis.summary?.orphanPageCount).toBe(1);
+  });
+});
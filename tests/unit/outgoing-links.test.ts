@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { extractOutgoingLinks, classifyLinkTarget, isScanDue } from '../../server/services/backlinks/outgoing-link.service';
+
+const html = `
+  <html><body>
+    <header><nav><a href="https://partner.com/">Partner</a></nav></header>
+    <main>
+      <a href="/about">About us</a>
+      <a href="https://www.example.com/contact">Contact</a>
+      <a href="https://supplier.com/parts#top" rel="noopener nofollow">  Parts   supplier </a>
+      <a href="https://supplier.com/parts">Duplicate</a>
+      <a href="https://ads.com/" rel="sponsored nofollow"><img src="/ad.png" alt="Ad banner"></a>
+      <a href="mailto:hi@example.com">Email</a>
+    </main>
+    <footer><a href="https://forum.com/thread" rel="ugc">Forum</a></footer>
+  </body></html>
+`;
+
+const chain = (overrides: Record<string, any>) => ({
+  url: 'https://target.com/',
+  finalUrl: 'https://target.com/',
+  finalStatusCode: 200,
+  hops: [],
+  isLoop: false,
+  ...overrides
+});
+
+describe('extractOutgoingLinks', () => {
+  it('keeps external links once per target with rel, position and anchor text', () => {
+    const links = extractOutgoingLinks(html, 'https://example.com/');
+
+    expect(links.map(link => [link.targetUrl, link.rel, link.linkPosition, link.anchorText])).toEqual([
+      ['https://partner.com/', 'dofollow', 'header', 'Partner'],
+      ['https://supplier.com/parts', 'nofollow', 'body', 'Parts supplier'],
+      ['https://ads.com/', 'sponsored', 'body', 'Ad banner'],
+      ['https://forum.com/thread', 'ugc', 'footer', 'Forum']
+    ]);
+    expect(links.every(link => link.sourceUrl === 'https://example.com/')).toBe(true);
+  });
+});
+
+describe('classifyLinkTarget', () => {
+  it('reports broken, redirected and active targets', () => {
+    expect(classifyLinkTarget(chain({ finalStatusCode: 404 })).status).toBe('broken');
+    expect(classifyLinkTarget(chain({ finalStatusCode: -1, error: 'ENOTFOUND' })).status).toBe('broken');
+    expect(classifyLinkTarget(chain({ finalStatusCode: 403 })).status).toBe('active');
+
+    const redirected = classifyLinkTarget(chain({
+      finalUrl: 'https://target.com/new',
+      hops: [{ url: 'https://target.com/', statusCode: 301, location: 'https://target.com/new' }]
+    }));
+    expect(redirected).toEqual({ status: 'redirected', statusCode: 200, redirectUrl: 'https://target.com/new' });
+  });
+});
+
+describe('isScanDue', () => {
+  it('follows the scan frequency', () => {
+    const lastScan = new Date('2026-10-01T00:00:00Z');
+
+    expect(isScanDue('daily', lastScan, new Date('2026-10-02T00:00:00Z'))).toBe(true);
+    expect(isScanDue('weekly', lastScan, new Date('2026-10-07T00:00:00Z'))).toBe(false);
+    expect(isScanDue('weekly', lastScan, new Date('2026-10-08T00:00:00Z'))).toBe(true);
+    expect(isScanDue('monthly', lastScan, new Date('2026-10-31T00:00:00Z'))).toBe(false);
+    expect(isScanDue('monthly', null, lastScan)).toBe(true);
+  });
+});
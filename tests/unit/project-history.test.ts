@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { buildProjectTimeline } from '../../server/services/business/project.service';
+
+describe('buildProjectTimeline', () => {
+  it('merges audits, analyses, keyword positions and backlink snapshots newest first', () => {
+    const timeline = buildProjectTimeline({
+      audits: [
+        {
+          id: 7, url: 'https://example.com', status: 'completed', pagesAnalyzed: 40,
+          priorityOfiCount: 3, ofiCount: 12, okCount: 80, scheduled: true,
+          createdAt: '2026-10-01T08:00:00.000Z', completedAt: '2026-10-01T09:00:00.000Z'
+        },
+        {
+          id: 8, url: 'https://example.com', status: 'failed', pagesAnalyzed: 0,
+          priorityOfiCount: null, ofiCount: null, okCount: null, scheduled: false,
+          createdAt: '2026-10-05T08:00:00.000Z', completedAt: null
+        }
+      ],
+      analyses: [{ id: 2, url: 'https://example.com', overallScore: 71, timestamp: '2026-09-20T10:00:00.000Z' }],
+      keywords: [
+        {
+          id: 4, keyword: 'ac repair', targetUrl: 'https://example.com/ac', isActive: true,
+          rankings: [
+            { device: 'desktop', location: 'us', rank: 3, previousRank: 5, change: 2, rankingUrl: null, rankDate: '2026-10-10' },
+            { device: 'mobile', location: 'us', rank: null, previousRank: null, change: null, rankingUrl: null, rankDate: '2026-10-09' }
+          ]
+        },
+        { id: 5, keyword: 'hvac', targetUrl: 'https://example.com/', isActive: true, rankings: [] }
+      ],
+      backlinkProfiles: [{
+        id: 9, url: 'https://example.com', domain: 'example.com', totalBacklinks: 120, newBacklinks: 4, lostBacklinks: 1,
+        lastScanAt: '2026-09-28T00:00:00.000Z',
+        snapshots: [{ scanDate: '2026-09-28T00:00:00.000Z', totalBacklinks: 120, totalOutgoingLinks: 50, brokenOutgoingLinks: 2 }]
+      }]
+    });
+
+    expect(timeline.map(entry => `${entry.type}:${entry.id}`)).toEqual([
+      'keyword:4',
+      'audit:8',
+      'audit:7',
+      'backlinkSnapshot:9',
+      'analysis:2'
+    ]);
+    expect(timeline[0]).toMatchObject({ date: '2026-10-10', detail: '#3 (+2) on desktop in us, not ranked on mobile in us' });
+    expect(timeline[1]).toMatchObject({ title: 'Audit of https://example.com', detail: 'failed' });
+    expect(timeline[2]).toMatchObject({ title: 'Scheduled audit of https://example.com', detail: '3 Priority OFI, 12 OFI, 80 OK' });
+  });
+});
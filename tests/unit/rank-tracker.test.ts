@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { MockSerpProvider } from '../../server/services/rank-tracking/serp-provider.service';
+import { buildRankHistory, getRankChange } from '../../server/services/rank-tracking/rank-tracker.service';
+
+const request = {
+  keyword: 'ac repair dallas',
+  targetUrl: 'https://www.example.com/services',
+  competitorDomains: ['rival.com', 'https://other.com/'],
+  device: 'desktop' as const,
+  location: 'us' as const
+};
+
+const ranking = (overrides: Record<string, any>) => ({
+  id: 1,
+  keywordId: 7,
+  rank: 10,
+  rankingUrl: 'https://example.com/',
+  previousRank: null,
+  rankDate: '2026-10-01',
+  searchEngine: 'google',
+  device: 'desktop',
+  location: 'us',
+  serp: null,
+  createdAt: new Date(),
+  ...overrides
+}) as any;
+
+describe('MockSerpProvider', () => {
+  it('returns the same positions for the same day', async () => {
+    const day = new Date('2026-10-01T08:00:00Z');
+    const provider = new MockSerpProvider(() => day);
+
+    const first = await provider.checkRankings(request);
+    const second = await provider.checkRankings(request);
+
+    expect(second).toEqual(first);
+    expect(first.competitors.map(competitor => competitor.domain)).toEqual(['rival.com', 'other.com']);
+    for (const position of [first.position, ...first.competitors.map(competitor => competitor.position)]) {
+      if (position !== null) {
+        expect(position).toBeGreaterThanOrEqual(1);
+        expect(position).toBeLessThanOrEqual(100);
+      }
+    }
+  });
+});
+
+describe('getRankChange', () => {
+  it('counts places gained and ignores checks outside the top 100', () => {
+    expect(getRankChange(3, 8)).toBe(5);
+    expect(getRankChange(12, 4)).toBe(-8);
+    expect(getRankChange(null, 4)).toBeNull();
+    expect(getRankChange(4, null)).toBeNull();
+  });
+});
+
+describe('buildRankHistory', () => {
+  it('groups rankings by device and location with their competitors', () => {
+    const keyword = { id: 7, keyword: 'ac repair dallas' } as any;
+    const history = buildRankHistory(
+      keyword,
+      '2026-10-01',
+      '2026-10-02',
+      [
+        ranking({ rankDate: '2026-10-01', rank: 10 }),
+        ranking({ rankDate: '2026-10-02', rank: 7, previousRank: 10 }),
+        ranking({ rankDate: '2026-10-02', rank: 15, device: 'mobile' })
+      ],
+      [
+        { id: 1, keywordId: 7, competitorUrl: 'rival.com', rank: 3, rankDate: '2026-10-01', searchEngine: 'google', device: 'desktop', location: 'us', createdAt: new Date() },
+        { id: 2, keywordId: 7, competitorUrl: 'rival.com', rank: null, rankDate: '2026-10-02', searchEngine: 'google', device: 'desktop', location: 'us', createdAt: new Date() }
+      ] as any
+    );
+
+    expect(history.series).toHaveLength(2);
+
+    const desktop = history.series.find(series => series.device === 'desktop')!;
+    expect(desktop.points.map(point => point.change)).toEqual([null, 3]);
+    expect(desktop.competitors).toEqual([
+      { domain: 'rival.com', points: [{ date: '2026-10-01', rank: 3 }, { date: '2026-10-02', rank: null }] }
+    ]);
+
+    const mobile = history.series.find(series => series.device === 'mobile')!;
+    expect(mobile.points).toHaveLength(1);
+    expect(mobile.competitors).toEqual([]);
+  });
+});
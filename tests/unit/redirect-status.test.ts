@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { RedirectStatusAnalyzer } from '../../server/services/audit/analyzers/redirect-status-analyzer.service';
+import { RedirectRecorder } from '../../server/services/audit/crawling/redirect-tracer.service';
+import type { RedirectChain } from '../../server/types/crawler';
+
+const page = (url: string, internal: string[] = [], redirectChain?: RedirectChain) => ({
+  url,
+  title: url,
+  links: { internal, external: [], broken: [] },
+  redirectChain
+}) as any;
+
+const chain = (url: string, finalUrl: string, finalStatusCode: number, hops: Array<[string, number, string]> = []): RedirectChain => ({
+  url,
+  finalUrl,
+  finalStatusCode,
+  hops: hops.map(([from, statusCode, location]) => ({ url: from, statusCode, location })),
+  isLoop: false
+});
+
+describe('Redirect and HTTP status audit', () => {
+  it('should record hops and protocol changes from redirects', () => {
+    const recorder = new RedirectRecorder('http://example.com/old');
+    recorder.beforeRedirect({}, { statusCode: 301, headers: { location: 'https://example.com/old' } });
+    recorder.beforeRedirect({}, { statusCode: 302, headers: { location: '/new' } });
+
+    const result = recorder.build(200);
+    expect(result.finalUrl).toBe('https://example.com/new');
+    expect(result.hops).toHaveLength(2);
+    expect(result.hops[0].protocolChange).toBe('http-to-https');
+    expect(result.isLoop).toBe(false);
+  });
+
+  it('should attribute redirect and broken link issues to the linking page', () => {
+    const homepage = page('https://example.com/', [
+      'https://example.com/services',
+      'http://example.com/about',
+      'https://example.com/missing#top'
+    ]);
+    const services = page('https://example.com/services', ['https://example.com/broken']);
+
+    const analysis = new RedirectStatusAnalyzer().analyze({
+      homepage,
+      servicePages: [services],
+      locationPages: [],
+      serviceAreaPages: [],
+      otherPages: [],
+      hasSitemapXml: false,
+      linkTargets: {
+        'https://example.com/services': chain('https://example.com/services', 'https://example.com/services', 200),
+        'http://example.com/about': chain('http://example.com/about', 'https://example.com/about-us', 200, [
+          ['http://example.com/about', 302, 'https://example.com/about'],
+          ['https://example.com/about', 301, 'https://example.com/about-us']
+        ]),
+        'https://example.com/missing': chain('https://example.com/missing', 'https://example.com/missing', 404),
+        'https://example.com/broken': chain('https://example.com/broken', 'https://example.com/broken', 503),
+        'http://example.com/': chain('http://example.com/', 'http://example.com/', 200)
+      }
+    });
+
+    const homepageIssues = analysis.pageFactors.find(result => result.page === homepage)!.factors;
+    const statusOf = (name: string) => homepageIssues.find(factor => factor.name === name)?.status;
+
+    expect(statusOf('Redirect Chains')).toBe('OFI');
+    expect(statusOf('Temporary Redirects')).toBe('OFI');
+    expect(statusOf('Internal Links to Redirects')).toBe('OFI');
+    expect(statusOf('Internal Links to 4xx Pages')).toBe('Priority OFI');
+    // http:// homepage served without a redirect
+    expect(statusOf('HTTP to HTTPS Redirects')).toBe('Priority OFI');
+
+    const serviceIssues = analysis.pageFactors.find(result => result.page === services)!.factors;
+    expect(serviceIssues.map(factor => factor.name)).toEqual(['Internal Links to 5xx Pages']);
+
+    expect(analysis.siteFactors.map(factor => factor.name)).toEqual(['Redirect Loops']);
+  });
+});
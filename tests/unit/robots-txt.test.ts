@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { RobotsTxt } from '../../server/services/audit/crawling/robots-txt.service';
+
+const USER_AGENT = 'SEO-Best-Practices-Assessment-Tool/1.0';
+
+describe('RobotsTxt', () => {
+  it('should apply the most specific user-agent group and fall back to *', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *',
+      'Disallow: /private',
+      '',
+      'User-agent: seo-best-practices-assessment-tool',
+      'User-agent: otherbot',
+      'Disallow: /reports/',
+      'Crawl-delay: 2'
+    ].join('\n'));
+
+    expect(robots.isAllowed('https://example.com/reports/2026', USER_AGENT)).toBe(false);
+    // Our group replaces the * group entirely
+    expect(robots.isAllowed('https://example.com/private', USER_AGENT)).toBe(true);
+    expect(robots.isAllowed('https://example.com/private', 'SomeOtherCrawler/2.0')).toBe(false);
+    expect(robots.getCrawlDelay(USER_AGENT)).toBe(2);
+    expect(robots.getCrawlDelay('SomeOtherCrawler/2.0')).toBeUndefined();
+  });
+
+  it('should match wildcards and $ anchors, preferring the longest rule and Allow on ties', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *',
+      'Disallow: /*.pdf$',
+      'Disallow: /shop/',
+      'Allow: /shop/featured',
+      'Disallow: /*?sort=',
+      'Allow: /page',
+      'Disallow: /page',
+      'Disallow:',
+      'Sitemap: https://example.com/sitemap.xml'
+    ].join('\n'));
+
+    expect(robots.isAllowed('https://example.com/files/guide.pdf', USER_AGENT)).toBe(false);
+    expect(robots.isAllowed('https://example.com/files/guide.pdf?v=2', USER_AGENT)).toBe(true);
+    expect(robots.isAllowed('https://example.com/shop/cart', USER_AGENT)).toBe(false);
+    expect(robots.isAllowed('https://example.com/shop/featured-items', USER_AGENT)).toBe(true);
+    expect(robots.isAllowed('https://example.com/services?sort=asc', USER_AGENT)).toBe(false);
+    expect(robots.isAllowed('https://example.com/page', USER_AGENT)).toBe(true);
+    expect(robots.isAllowed('https://example.com/', USER_AGENT)).toBe(true);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('should allow everything when robots.txt has no rules', () => {
+    expect(RobotsTxt.allowAll().isAllowed('https://example.com/anything', USER_AGENT)).toBe(true);
+    expect(RobotsTxt.parse('User-agent: *\nDisallow: /\n').isAllowed('/robots.txt', USER_AGENT)).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeSearchPerformance,
+  aggregatePagePerformance,
+  findCtrOpportunities,
+  getImpressionImpact,
+  PagePerformanceIndex
+} from '../../server/services/search-console/search-performance.service';
+
+describe('normalizeSearchPerformance', () => {
+  it('reads CSV exports by header name with percentage CTRs', () => {
+    const csv = [
+      'Top pages,Query,Clicks,Impressions,CTR,Position',
+      'https://www.example.com/ac-repair/,ac repair dallas,"1,200",40000,3%,4.2',
+      ',missing page,1,10,10%,1',
+      'https://example.com/heating,,5,not a number,1%,9'
+    ].join('\n');
+
+    const { rows, rowsRead, skipped } = normalizeSearchPerformance('csv', csv);
+
+    expect(rowsRead).toBe(3);
+    expect(skipped).toBe(2);
+    expect(rows).toEqual([
+      { page: 'https://www.example.com/ac-repair/', query: 'ac repair dallas', clicks: 1200, impressions: 40000, ctr: 0.03, position: 4.2 }
+    ]);
+  });
+
+  it('reads Search Analytics API rows with page and query keys', () => {
+    const json = JSON.stringify({
+      rows: [{ keys: ['https://example.com/', 'Example HVAC'], clicks: 50, impressions: 500, ctr: 0.1, position: 1.5 }]
+    });
+
+    const { rows } = normalizeSearchPerformance('json', json);
+
+    expect(rows).toEqual([
+      { page: 'https://example.com/', query: 'example hvac', clicks: 50, impressions: 500, ctr: 0.1, position: 1.5 }
+    ]);
+  });
+});
+
+describe('aggregatePagePerformance', () => {
+  it('sums queries per page and weights position by impressions', () => {
+    const pages = aggregatePagePerformance([
+      { page: 'https://example.com/ac/', query: 'ac repair', clicks: 10, impressions: 300, ctr: 0.033, position: 2 },
+      { page: 'https://www.example.com/ac', query: 'ac service', clicks: 0, impressions: 100, ctr: 0, position: 10 },
+      { page: 'https://example.com/about', query: null, clicks: 1, impressions: 50, ctr: 0.02, position: 6 }
+    ]);
+
+    expect(pages.map(page => page.impressions)).toEqual([400, 50]);
+    expect(pages[0]).toMatchObject({ clicks: 10, ctr: 0.025, position: 4 });
+    expect(pages[0].topQueries.map(query => query.query)).toEqual(['ac repair', 'ac service']);
+    expect(pages[1].topQueries).toEqual([]);
+  });
+});
+
+describe('findCtrOpportunities', () => {
+  it('lists pages far below the usual CTR for their position, most missed clicks first', () => {
+    const pages = aggregatePagePerformance([
+      { page: 'https://example.com/a', query: null, clicks: 10, impressions: 1000, ctr: 0.01, position: 1 },
+      { page: 'https://example.com/b', query: null, clicks: 5, impressions: 5000, ctr: 0.001, position: 3 },
+      { page: 'https://example.com/c', query: null, clicks: 200, impressions: 1000, ctr: 0.2, position: 1 },
+      { page: 'https://example.com/d', query: null, clicks: 0, impressions: 50, ctr: 0, position: 1 }
+    ]);
+
+    const opportunities = findCtrOpportunities(pages, new Map([['example.com/b', 'Heating | Example']]));
+
+    expect(opportunities.map(page => page.page)).toEqual(['https://example.com/b', 'https://example.com/a']);
+    expect(opportunities[0]).toMatchObject({ expectedCtr: 0.1, missedClicks: 495, pageTitle: 'Heating | Example' });
+    expect(opportunities[1].pageTitle).toBeNull();
+  });
+});
+
+describe('PagePerformanceIndex', () => {
+  it('finds crawled pages and flags those well above the average impressions', () => {
+    const index = new PagePerformanceIndex(aggregatePagePerformance([
+      { page: 'https://example.com/', query: null, clicks: 100, impressions: 9000, ctr: 0.011, position: 3 },
+      { page: 'https://example.com/a', query: null, clicks: 1, impressions: 500, ctr: 0.002, position: 20 },
+      { page: 'https://example.com/b', query: null, clicks: 1, impressions: 500, ctr: 0.002, position: 20 }
+    ]));
+
+    expect(index.get('http://www.example.com')?.impressions).toBe(9000);
+    expect(index.hasHighImpressions('https://example.com/')).toBe(true);
+    expect(index.hasHighImpressions('https://example.com/a')).toBe(false);
+    expect(index.hasHighImpressions('https://example.com/missing')).toBe(false);
+  });
+});
+
+describe('getImpressionImpact', () => {
+  it('weights impressions by status and importance', () => {
+    expect(getImpressionImpact({ status: 'Priority OFI', importance: 'High' }, 1000)).toBe(1000);
+    expect(getImpressionImpact({ status: 'OFI', importance: 'Medium' }, 1000)).toBe(300);
+    expect(getImpressionImpact({ status: 'OK', importance: 'High' }, 1000)).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSerpFeatures,
+  getLocalRank,
+  summarizeSerpFeatureOwnership
+} from '../../server/services/rank-tracking/serp-features.service';
+
+const items = [
+  { type: 'local_pack', rank_group: 1, title: 'Rival Heating & Air', domain: 'www.rival.com', rating: { value: 4.8, votes_count: 212 } },
+  { type: 'local_pack', rank_group: 2, title: 'Example Cooling', url: 'https://example.com/dallas', rating: { value: 4.5, votes_count: 87 } },
+  { type: 'local_pack', rank_group: 3, title: 'Joe\'s AC', domain: null, rating: null },
+  { type: 'featured_snippet', rank_group: 1, domain: 'blog.rival.com', url: 'https://blog.rival.com/ac-cost', title: 'AC repair cost' },
+  {
+    type: 'people_also_ask',
+    items: [
+      { type: 'people_also_ask_element', title: 'How much does AC repair cost?', expanded_element: [{ domain: 'www.example.com' }] },
+      { type: 'people_also_ask_element', title: 'Is AC repair worth it?', expanded_element: [] }
+    ]
+  },
+  { type: 'organic', rank_group: 1, domain: 'www.example.com', url: 'https://www.example.com/', links: [{}, {}, {}], rating: null },
+  { type: 'organic', rank_group: 2, domain: 'other.com', url: 'https://other.com/', links: null, rating: { value: 4.2, votes_count: 15 } }
+];
+
+describe('parseSerpFeatures', () => {
+  it('reads map pack listings, the featured snippet, questions, review stars and site links', () => {
+    const features = parseSerpFeatures(items);
+
+    expect(features.localPack).toEqual([
+      { position: 1, title: 'Rival Heating & Air', domain: 'rival.com', rating: 4.8, reviewCount: 212 },
+      { position: 2, title: 'Example Cooling', domain: 'example.com', rating: 4.5, reviewCount: 87 },
+      { position: 3, title: 'Joe\'s AC', domain: null, rating: null, reviewCount: null }
+    ]);
+    expect(features.featuredSnippet).toEqual({ domain: 'blog.rival.com', url: 'https://blog.rival.com/ac-cost', title: 'AC repair cost' });
+    expect(features.peopleAlsoAsk).toEqual([
+      { question: 'How much does AC repair cost?', answerDomain: 'example.com' },
+      { question: 'Is AC repair worth it?', answerDomain: null }
+    ]);
+    expect(features.reviews).toEqual([{ domain: 'other.com', position: 2, rating: 4.2, reviewCount: 15 }]);
+    expect(features.sitelinks).toEqual([{ domain: 'example.com', position: 1, links: 3 }]);
+    expect(getLocalRank(features, 'example.com')).toBe(2);
+    expect(getLocalRank(features, 'other.com')).toBeNull();
+  });
+});
+
+describe('summarizeSerpFeatureOwnership', () => {
+  it('splits each feature between the client and its tracked competitors', () => {
+    const ownership = summarizeSerpFeatureOwnership(parseSerpFeatures(items), 'example.com', ['rival.com', 'other.com']);
+    const byFeature = Object.fromEntries(ownership.map(({ feature, ...entry }) => [feature, entry]));
+
+    expect(byFeature.localPack).toEqual({ present: true, ownedByClient: true, competitors: ['rival.com'] });
+    expect(byFeature.featuredSnippet).toEqual({ present: true, ownedByClient: false, competitors: ['rival.com'] });
+    expect(byFeature.peopleAlsoAsk).toEqual({ present: true, ownedByClient: true, competitors: [] });
+    expect(byFeature.reviews).toEqual({ present: true, ownedByClient: false, competitors: ['other.com'] });
+    expect(byFeature.sitelinks).toEqual({ present: true, ownedByClient: true, competitors: [] });
+  });
+
+  it('marks features missing from the results page', () => {
+    const ownership = summarizeSerpFeatureOwnership(parseSerpFeatures([]), 'example.com', ['rival.com']);
+    expect(ownership.every(entry => !entry.present && !entry.ownedByClient && entry.competitors.length === 0)).toBe(true);
+  });
+});
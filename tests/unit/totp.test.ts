@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  verifyTotp,
+  getTotpStep,
+  buildOtpauthUri
+} from '../../server/services/auth/totp.service';
+
+// RFC 6238 appendix B test key, "12345678901234567890" as ASCII
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('should match the RFC 6238 SHA-1 test vectors, truncated to 6 digits', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, getTotpStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('should accept codes one step either side of the current time and return their step', () => {
+    const time = 1234567890 * 1000;
+    const step = getTotpStep(time);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), time)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, '005 924', time)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), time)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'ABCDEF', time)).toBeNull();
+  });
+
+  it('should round-trip base32 secrets and build an otpauth URI', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+
+    const uri = buildOtpauthUri(RFC_SECRET, 'owner@example.com', 'Rival Outranker');
+    expect(uri).toBe(`otpauth://totp/Rival%20Outranker%3Aowner%40example.com?secret=${RFC_SECRET}&issuer=Rival+Outranker&algorithm=SHA1&digits=6&period=30`);
+  });
+});
@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WebhookService, signWebhookPayload, getDeliveryRetryDelay } from '../../server/services/webhooks';
+import { publicAddressLookup } from '../../server/services/webhooks/webhook.service';
+import { webhookRepository } from '../../server/repositories/webhook.repository';
+import { insertWebhookSchema, updateWebhookSchema } from '../../shared/schema';
+import { insertWebhookSchema as coreInsertWebhookSchema } from '../../shared/schema/core';
+import { isPrivateAddress } from '../../shared/utils/network';
+
+const webhook = (id: number) => ({
+  id,
+  userId: 'user-1',
+  workspaceId: null,
+  url: `https://example.com/hooks/${id}`,
+  description: null,
+  events: ['audit.completed'],
+  secret: 'whsec_test',
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const delivery = {
+  id: 7,
+  webhookId: 1,
+  event: 'audit.completed',
+  payload: { id: 'event-1', event: 'audit.completed', data: { audit: { id: 3 } } },
+  status: 'delivering',
+  attempts: 0,
+  nextAttemptAt: new Date(),
+  lockedAt: new Date(),
+  responseStatus: null,
+  responseBody: null,
+  errorMessage: null,
+  durationMs: null,
+  redeliveryOf: null,
+  createdAt: new Date(),
+  deliveredAt: null
+};
+
+describe('Webhooks', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should sign the timestamp and body with the webhook secret', () => {
+    const body = JSON.stringify(delivery.payload);
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex');
+
+    expect(signWebhookPayload('whsec_test', 1700000000, body)).toBe(expected);
+    expect(signWebhookPayload('whsec_other', 1700000000, body)).not.toBe(expected);
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    expect(getDeliveryRetryDelay(1, 60000, 3600000)).toBe(60000);
+    expect(getDeliveryRetryDelay(2, 60000, 3600000)).toBe(120000);
+    expect(getDeliveryRetryDelay(4, 60000, 3600000)).toBe(480000);
+    expect(getDeliveryRetryDelay(10, 60000, 3600000)).toBe(3600000);
+  });
+
+  it('should queue one delivery per subscribed webhook of the owner', async () => {
+    const service = new WebhookService();
+    const getSubscribed = vi.spyOn(webhookRepository, 'getSubscribedWebhooks').mockResolvedValue([webhook(1), webhook(2)] as any);
+    const createDeliveries = vi.spyOn(webhookRepository, 'createDeliveries').mockResolvedValue([]);
+
+    await service.dispatch('audit.completed', { userId: 'user-1', workspaceId: null }, { audit: { id: 3 } });
+
+    expect(getSubscribed).toHaveBeenCalledWith({ userId: 'user-1', workspaceId: null }, 'audit.completed');
+    const rows = createDeliveries.mock.calls[0][0];
+    expect(rows.map(row => row.webhookId)).toEqual([1, 2]);
+    expect(rows[0].payload).toMatchObject({ event: 'audit.completed', data: { audit: { id: 3 } } });
+
+    await service.dispatch('audit.completed', { userId: null, workspaceId: null }, {});
+    expect(getSubscribed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should schedule a retry when the endpoint responds with an error', async () => {
+    const service = new WebhookService({ maxAttempts: 3, retryBaseDelayMs: 60000 });
+    vi.spyOn(webhookRepository, 'getWebhook').mockResolvedValue(webhook(1) as any);
+    const recordAttempt = vi.spyOn(webhookRepository, 'recordAttempt').mockResolvedValue();
+    const post = vi.spyOn(service as any, 'post').mockResolvedValue({ status: 503, body: 'unavailable' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await (service as any).deliver(delivery);
+
+    const headers = post.mock.calls[0][1] as Record<string, string>;
+    expect(headers['X-Webhook-Signature']).toBe(
+      `sha256=${signWebhookPayload('whsec_test', Number(headers['X-Webhook-Timestamp']), JSON.stringify(delivery.payload))}`
+    );
+    const [id, outcome] = recordAttempt.mock.calls[0];
+    expect(id).toBe(7);
+    expect(outcome).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 503, responseBody: 'unavailable' });
+    expect(outcome.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now() + 50000);
+
+    recordAttempt.mockClear();
+    await (service as any).deliver({ ...delivery, attempts: 2 });
+    expect(recordAttempt.mock.calls[0][1]).toMatchObject({ status: 'failed', attempts: 3, responseStatus: 503 });
+  });
+
+  it('should refuse webhook URLs on private or reserved hosts', () => {
+    const input = { events: ['audit.completed'] };
+
+    for (const url of [
+      'http://localhost:5000/hooks',
+      'http://127.0.0.1/hooks',
+      'http://2130706433/hooks',
+      'http://10.1.2.3/hooks',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/hooks',
+      'http://[::ffff:192.168.1.1]/hooks',
+      'http://[fd00::1]/hooks',
+      'http://metadata.google.internal/',
+      'http://intranet/hooks'
+    ]) {
+      expect(insertWebhookSchema.safeParse({ ...input, url }).success, url).toBe(false);
+      expect(updateWebhookSchema.safeParse({ url }).success, url).toBe(false);
+      expect(coreInsertWebhookSchema.safeParse({ ...input, url }).success, url).toBe(false);
+    }
+    expect(insertWebhookSchema.safeParse({ ...input, url: 'https://hooks.example.com/audits' }).success).toBe(true);
+    expect(insertWebhookSchema.safeParse({ ...input, url: 'http://8.8.8.8/hooks' }).success).toBe(true);
+    expect(coreInsertWebhookSchema.safeParse({ ...input, url: 'https://hooks.example.com/audits' }).success).toBe(true);
+  });
+
+  it('should tell private and reserved addresses from public ones', () => {
+    for (const address of ['0.0.0.0', '100.64.0.1', '172.31.255.255', '198.18.0.1', '224.0.0.1', '255.255.255.255', '::', 'fe80::1%eth0', '64:ff9b::a00:1', '2002:c0a8:101::1']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    for (const address of ['172.32.0.1', '93.184.216.34', '2606:4700::1111', '::ffff:8.8.8.8', 'example.com']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it('should only connect to hosts whose addresses are all public', async () => {
+    const lookup = vi.spyOn(dns, 'lookup').mockImplementation(((hostname: string, options: any, callback: any) => {
+      callback(null, [{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }]);
+    }) as any);
+    const callback = vi.fn();
+
+    publicAddressLookup('hooks.example.com', { all: false }, callback);
+    expect(callback.mock.calls[0][0]).toEqual(new Error('Webhook URL resolves to a private or reserved address'));
+
+    lookup.mockImplementation(((hostname: string, options: any, done: any) => done(null, [{ address: '93.184.216.34', family: 4 }])) as any);
+    publicAddressLookup('hooks.example.com', { all: false }, callback);
+    expect(callback.mock.calls[1]).toEqual([null, '93.184.216.34', 4]);
+  });
+
+  it('should not send deliveries to hosts that resolve to a private address when connecting', async () => {
+    let received = 0;
+    const server = http.createServer((req, res) => {
+      received++;
+      res.end('internal');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const service = new WebhookService({ maxAttempts: 3 });
+      vi.spyOn(webhookRepository, 'getWebhook').mockResolvedValue({ ...webhook(1), url: `http://hooks.example.com:${port}/` } as any);
+      const lookup = vi.spyOn(dns, 'lookup').mockImplementation(((hostname: string, options: any, callback: any) => {
+        callback(null, [{ address: '127.0.0.1', family: 4 }]);
+      }) as any);
+      const recordAttempt = vi.spyOn(webhookRepository, 'recordAttempt').mockResolvedValue();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await (service as any).deliver(delivery);
+      await (service as any).deliver({ ...delivery, id: 8 });
+
+      expect(lookup).toHaveBeenCalled();
+      expect(received).toBe(0);
+      expect(recordAttempt.mock.calls[0][1]).toMatchObject({
+        status: 'pending',
+        responseStatus: null,
+        responseBody: null,
+        errorMessage: 'Webhook URL resolves to a private or reserved address'
+      });
+
+      // IP addresses are refused without a lookup
+      lookup.mockClear();
+      vi.spyOn(webhookRepository, 'getWebhook').mockResolvedValue({ ...webhook(1), url: `http://127.0.0.1:${port}/` } as any);
+      await (service as any).deliver(delivery);
+      expect(lookup).not.toHaveBeenCalled();
+      expect(received).toBe(0);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should not show response bodies logged for a private host', async () => {
+    const service = new WebhookService();
+    vi.spyOn(webhookRepository, 'getWebhook').mockResolvedValue({ ...webhook(1), url: 'http://169.254.169.254/latest' } as any);
+    vi.spyOn(webhookRepository, 'getDeliveries').mockResolvedValue([{ ...delivery, status: 'succeeded', responseStatus: 200, responseBody: 'secret' }] as any);
+
+    const [summary] = await service.getDeliveries({ userId: 'user-1', workspaceId: null }, 1);
+
+    expect(summary.responseStatus).toBe(200);
+    expect(summary.responseBody).toBeNull();
+  });
+});
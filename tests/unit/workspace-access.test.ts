@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { hasWorkspacePermission } from '../../shared/constants/workspace-roles';
+import { isInScope } from '../../server/types/workspace';
+import { enforceWorkspaceRole } from '../../server/middleware/auth';
+
+describe('hasWorkspacePermission', () => {
+  it('lets editors change records but keeps member management to owners', () => {
+    expect(hasWorkspacePermission('editor', 'write')).toBe(true);
+    expect(hasWorkspacePermission('editor', 'manage')).toBe(false);
+    expect(hasWorkspacePermission('owner', 'manage')).toBe(true);
+  });
+
+  it('gives viewers and clients read access only, and hides members from clients', () => {
+    expect(hasWorkspacePermission('viewer', 'write')).toBe(false);
+    expect(hasWorkspacePermission('viewer', 'members:read')).toBe(true);
+    expect(hasWorkspacePermission('client', 'read')).toBe(true);
+    expect(hasWorkspacePermission('client', 'members:read')).toBe(false);
+    expect(hasWorkspacePermission('admin', 'read')).toBe(false);
+  });
+});
+
+describe('isInScope', () => {
+  it('shares workspace records with the workspace only', () => {
+    const record = { userId: 'creator', workspaceId: 7 };
+
+    expect(isInScope({ userId: 'teammate', workspaceId: 7 }, record)).toBe(true);
+    expect(isInScope({ userId: 'creator', workspaceId: null }, record)).toBe(false);
+    expect(isInScope({ userId: 'creator', workspaceId: 8 }, record)).toBe(false);
+  });
+
+  it('keeps personal records to their user outside workspaces', () => {
+    const record = { userId: 'creator', workspaceId: null };
+
+    expect(isInScope({ userId: 'creator', workspaceId: null }, record)).toBe(true);
+    expect(isInScope({ userId: 'creator', workspaceId: 7 }, record)).toBe(false);
+    expect(isInScope({ userId: 'other', workspaceId: null }, record)).toBe(false);
+  });
+});
+
+describe('enforceWorkspaceRole', () => {
+  const run = (method: string, workspace?: { id: number; role: any }) => {
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+    const next = vi.fn();
+    enforceWorkspaceRole({ method, workspace } as any, res as any, next);
+    return { res, next };
+  };
+
+  it('lets clients read but not change anything in the workspace', () => {
+    expect(run('GET', { id: 1, role: 'client' }).next).toHaveBeenCalled();
+
+    const { res, next } = run('POST', { id: 1, role: 'client' });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('lets editors change records and ignores requests without a workspace', () => {
+    expect(run('DELETE', { id: 1, role: 'editor' }).next).toHaveBeenCalled();
+    expect(run('POST').next).toHaveBeenCalled();
+  });
+});